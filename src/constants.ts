@@ -8,14 +8,238 @@
 // API URLs
 // ---------------------------------------------------------------------------
 
-/** Quire OAuth authorization endpoint */
-export const QUIRE_OAUTH_AUTHORIZE_URL = "https://quire.io/oauth";
+/** Default Quire OAuth authorization endpoint */
+export const DEFAULT_QUIRE_OAUTH_AUTHORIZE_URL = "https://quire.io/oauth";
 
-/** Quire OAuth token endpoint */
-export const QUIRE_OAUTH_TOKEN_URL = "https://quire.io/oauth/token";
+/** Default Quire OAuth token endpoint */
+export const DEFAULT_QUIRE_OAUTH_TOKEN_URL = "https://quire.io/oauth/token";
 
-/** Quire API base URL */
-export const QUIRE_API_BASE_URL = "https://quire.io/api";
+/** Default Quire API base URL */
+export const DEFAULT_QUIRE_API_BASE_URL = "https://quire.io/api";
+
+/** Default Quire web app URL, the origin of links users paste */
+export const DEFAULT_QUIRE_WEB_BASE_URL = "https://quire.io";
+
+// ---------------------------------------------------------------------------
+// Rate Limits
+// ---------------------------------------------------------------------------
+
+/** Quire free plan limit: requests per minute */
+export const QUIRE_RATE_LIMIT_PER_MINUTE = 25;
+
+/** Quire free plan limit: requests per hour */
+export const QUIRE_RATE_LIMIT_PER_HOUR = 120;
+
+/**
+ * Fraction of each rate limit window kept free for tool calls; background
+ * work (subscription polls, mirror syncs) pauses while less than this remains
+ */
+export const BACKGROUND_BUDGET_RESERVE = 0.5;
+
+// ---------------------------------------------------------------------------
+// Response Cache
+// ---------------------------------------------------------------------------
+
+/**
+ * Response cache TTL in seconds per resource type. Tasks change most often,
+ * the current user and other users least.
+ */
+export const QUIRE_CACHE_TTL_SECONDS = {
+  user: 600,
+  organization: 300,
+  project: 300,
+  tag: 300,
+  status: 300,
+  task: 30,
+} as const;
+
+/** Maximum number of responses cached per token */
+export const QUIRE_CACHE_MAX_ENTRIES = 500;
+
+// ---------------------------------------------------------------------------
+// Task Tree
+// ---------------------------------------------------------------------------
+
+/** Default number of levels fetched by getTaskTree (root tasks are level 1) */
+export const DEFAULT_TASK_TREE_MAX_DEPTH = 5;
+
+/** Default maximum number of tasks returned by getTaskTree */
+export const DEFAULT_TASK_TREE_MAX_NODES = 500;
+
+/** Default number of subtask lists fetched in parallel by getTaskTree */
+export const DEFAULT_TASK_TREE_CONCURRENCY = 4;
+
+// ---------------------------------------------------------------------------
+// Bulk Operations
+// ---------------------------------------------------------------------------
+
+/** Number of write requests sent in parallel by bulk tools */
+export const BULK_OPERATION_CONCURRENCY = 4;
+
+/** Maximum number of tasks a single bulk update may touch */
+export const BULK_UPDATE_MAX_TASKS = 200;
+
+/** Maximum number of tasks a single import may create */
+export const IMPORT_MAX_TASKS = 500;
+
+/** Maximum number of tasks cloneProject copies from a source project */
+export const CLONE_PROJECT_MAX_TASKS = 500;
+
+/** Maximum task nesting depth cloneProject copies */
+export const CLONE_PROJECT_MAX_DEPTH = 20;
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+/** Maximum page size accepted by paginated list and search tools */
+export const PAGINATION_MAX_LIMIT = 500;
+
+// ---------------------------------------------------------------------------
+// Name Resolution
+// ---------------------------------------------------------------------------
+
+/** Maximum candidates listed in a not-found or ambiguous name error */
+export const RESOLVER_MAX_CANDIDATES = 10;
+
+// ---------------------------------------------------------------------------
+// Date Input
+// ---------------------------------------------------------------------------
+
+/** First day of the week for relative dates (0 = Sunday, 1 = Monday) */
+export const DEFAULT_WEEK_START = 1;
+
+// ---------------------------------------------------------------------------
+// Task Query
+// ---------------------------------------------------------------------------
+
+/** Maximum number of projects one quire.queryTasks call may scan */
+export const QUERY_TASKS_MAX_PROJECTS = 10;
+
+// ---------------------------------------------------------------------------
+// My Tasks
+// ---------------------------------------------------------------------------
+
+/** Concurrent searches when collecting the current user's tasks */
+export const MY_TASKS_CONCURRENCY = 4;
+
+/** Maximum number of organizations searched for the current user's tasks */
+export const MY_TASKS_MAX_ORGANIZATIONS = 5;
+
+// ---------------------------------------------------------------------------
+// Workload Report
+// ---------------------------------------------------------------------------
+
+/** Default number of weeks of upcoming due dates in a workload report */
+export const WORKLOAD_DEFAULT_WEEKS = 4;
+
+/** Maximum number of weeks of upcoming due dates in a workload report */
+export const WORKLOAD_MAX_WEEKS = 12;
+
+// ---------------------------------------------------------------------------
+// Project Metrics
+// ---------------------------------------------------------------------------
+
+/** Default start of the project metrics date range (a relative date) */
+export const METRICS_DEFAULT_FROM = "-4w";
+
+/** Maximum number of days or weeks in a project metrics series */
+export const METRICS_MAX_POINTS = 120;
+
+// ---------------------------------------------------------------------------
+// Project Snapshots
+// ---------------------------------------------------------------------------
+
+/** Maximum number of tasks captured in a project snapshot */
+export const SNAPSHOT_MAX_NODES = 5000;
+
+/** Number of snapshots kept per project; older ones are deleted */
+export const SNAPSHOT_MAX_PER_PROJECT = 30;
+
+/** Default interval between scheduled snapshots, in minutes */
+export const SNAPSHOT_DEFAULT_INTERVAL_MINUTES = 60;
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+/** Maximum number of subtasks included in quire://task/{oid} */
+export const TASK_RESOURCE_MAX_SUBTASKS = 200;
+
+/** Number of most recent messages included in quire://chat/{oid} */
+export const CHAT_RESOURCE_RECENT_MESSAGES = 50;
+
+// ---------------------------------------------------------------------------
+// Resource Subscriptions
+// ---------------------------------------------------------------------------
+
+/** Default interval between polls of subscribed resources, in seconds */
+export const SUBSCRIPTION_POLL_INTERVAL_SECONDS = 60;
+
+// ---------------------------------------------------------------------------
+// Webhooks
+// ---------------------------------------------------------------------------
+
+/** Number of recent webhook events kept in memory */
+export const WEBHOOK_EVENT_BUFFER_SIZE = 500;
+
+/** Default and maximum number of events returned by quire.recentEvents */
+export const RECENT_EVENTS_DEFAULT_LIMIT = 20;
+export const RECENT_EVENTS_MAX_LIMIT = 100;
+
+// ---------------------------------------------------------------------------
+// Local Mirror
+// ---------------------------------------------------------------------------
+
+/** Default interval between scheduled mirror syncs, in minutes */
+export const MIRROR_DEFAULT_INTERVAL_MINUTES = 30;
+
+/** Maximum number of tasks and levels mirrored per project */
+export const MIRROR_MAX_TASKS = 20000;
+export const MIRROR_MAX_DEPTH = 20;
+
+/**
+ * Maximum number of tasks whose comments one sync fetches; the rest are
+ * fetched by later syncs. Kept well below the hourly rate limit, which the
+ * task trees of every project also draw from.
+ */
+export const MIRROR_COMMENT_FETCHES_PER_SYNC = 30;
+
+/** Maximum number of comment lists fetched in parallel during a sync */
+export const MIRROR_SYNC_CONCURRENCY = 4;
+
+/** Default and maximum number of matches returned by quire.localSearch */
+export const LOCAL_SEARCH_DEFAULT_LIMIT = 20;
+export const LOCAL_SEARCH_MAX_LIMIT = 100;
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+/** Maximum number of projects one quire.search call may search */
+export const SEARCH_MAX_PROJECTS = 5;
+
+/** Maximum number of tasks indexed per project */
+export const SEARCH_MAX_TASKS = 5000;
+
+/**
+ * Maximum number of comment lists (of tasks and chats) one quire.search
+ * call fetches, shared by its projects; the rest are added by later searches
+ */
+export const SEARCH_COMMENT_FETCHES_PER_CALL = 20;
+
+/** Maximum number of lists fetched in parallel while indexing */
+export const SEARCH_INDEX_CONCURRENCY = 4;
+
+/** How long a project's search index is reused, in seconds */
+export const SEARCH_INDEX_TTL_SECONDS = 600;
+
+/** Maximum number of project indexes kept per token */
+export const SEARCH_INDEX_MAX_PROJECTS = 20;
+
+/** Default and maximum number of hits returned by quire.search */
+export const SEARCH_DEFAULT_LIMIT = 20;
+export const SEARCH_MAX_LIMIT = 100;
 
 // ---------------------------------------------------------------------------
 // Timeouts
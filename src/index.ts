@@ -28,6 +28,11 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { registerTools } from "./tools/index.js";
 import { registerResources } from "./resources/index.js";
 import { registerPrompts } from "./prompts/index.js";
+import {
+  getSnapshotScheduleConfig,
+  startSnapshotSchedule,
+} from "./quire/snapshot-scheduler.js";
+import { enableMirror, getMirrorConfig } from "./quire/mirror-sync.js";
 
 const SERVER_NAME = "quire-mcp";
 
@@ -43,6 +48,16 @@ async function startStdioServer(server: McpServer): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error(`[${SERVER_NAME}] Server running on stdio transport`);
+
+  const snapshotSchedule = getSnapshotScheduleConfig();
+  if (snapshotSchedule) {
+    startSnapshotSchedule(snapshotSchedule);
+  }
+
+  const mirrorConfig = getMirrorConfig();
+  if (mirrorConfig) {
+    await enableMirror(mirrorConfig);
+  }
 }
 
 /**
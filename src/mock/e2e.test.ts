@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerTools } from "../tools/index.js";
+import { registerResources } from "../resources/index.js";
+import { clearSharedRateLimiters } from "../quire/rate-limiter.js";
+import { startMockQuireServer, type MockQuireServer } from "./server.js";
+
+/**
+ * End-to-end tests: a real MCP client talks to the real MCP server over an
+ * in-memory transport, and the server talks to the mock Quire API over HTTP.
+ */
+describe("MCP session against the mock Quire server", () => {
+  let mock: MockQuireServer;
+  let client: Client;
+  let server: McpServer;
+
+  beforeAll(async () => {
+    mock = await startMockQuireServer();
+    vi.stubEnv("QUIRE_BASE_URL", mock.url);
+    vi.stubEnv("QUIRE_ACCESS_TOKEN", mock.accessToken);
+    clearSharedRateLimiters();
+
+    server = new McpServer({ name: "quire-mcp-e2e", version: "0.0.0" });
+    registerTools(server);
+    registerResources(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "e2e-client", version: "0.0.0" });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+    await mock.close();
+    vi.unstubAllEnvs();
+  });
+
+  /**
+   * Call a tool and return its text output
+   */
+  async function callTool(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<{ text: string; isError: boolean }> {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return {
+      text: content.map((c) => c.text).join("\n"),
+      isError: result.isError === true,
+    };
+  }
+
+  it("should call whoami through the mock API", async () => {
+    const result = await callTool("quire.whoami", {});
+
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("mock_user");
+  });
+
+  it("should create and find a task", async () => {
+    const created = await callTool("quire.createTask", {
+      projectId: "mock-project",
+      name: "E2E Task",
+    });
+    expect(created.isError).toBe(false);
+
+    const found = await callTool("quire.searchTasks", {
+      projectId: "mock-project",
+      keyword: "E2E",
+    });
+    expect(found.text).toContain("E2E Task");
+    expect(mock.requests.map((r) => r.method)).toContain("POST");
+  });
+
+  it("should surface API errors as tool errors", async () => {
+    mock.failNext(403);
+
+    const result = await callTool("quire.getProject", {
+      id: "mock-project",
+      fresh: true,
+    });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it("should declare an output schema for every tool", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    expect(
+      tools.filter((tool) => !tool.outputSchema).map((tool) => tool.name)
+    ).toEqual([]);
+  });
+
+  it("should return structured content that matches the output schema", async () => {
+    // listTools caches the output schemas the client validates against
+    await client.listTools();
+
+    const list = await client.callTool({
+      name: "quire.listTasks",
+      arguments: { projectId: "mock-project" },
+    });
+    expect(list.structuredContent).toMatchObject({
+      tasks: expect.arrayContaining([
+        expect.objectContaining({ name: "Design" }),
+      ]) as unknown,
+    });
+
+    const projected = await client.callTool({
+      name: "quire.listTasks",
+      arguments: { projectId: "mock-project", fields: ["name", "status.name"] },
+    });
+    expect(projected.isError).toBeFalsy();
+    expect(projected.structuredContent).toMatchObject({
+      tasks: expect.arrayContaining([
+        { name: "Design", status: { name: "To-Do" } },
+      ]) as unknown,
+    });
+
+    const tree = await client.callTool({
+      name: "quire.getTaskTree",
+      arguments: { projectId: "mock-project", format: "outline" },
+    });
+    const content = tree.content as { text: string }[];
+    expect(content[0]?.text).toContain("- #1 Design");
+    expect(tree.structuredContent).toMatchObject({
+      truncated: false,
+      roots: expect.arrayContaining([
+        expect.objectContaining({
+          name: "Design",
+          children: [expect.objectContaining({ name: "Wireframes" })],
+        }),
+      ]) as unknown,
+    });
+  });
+
+  it("should collect tasks assigned to the current user", async () => {
+    await callTool("quire.createTask", {
+      projectId: "mock-project",
+      name: "Assigned to me",
+      assignees: ["me"],
+    });
+
+    const result = await client.callTool({
+      name: "quire.myTasks",
+      arguments: { format: "outline" },
+    });
+    const content = result.content as { text: string }[];
+
+    expect(content[0]?.text).toContain("## No due date");
+    expect(content[0]?.text).toContain("[Assigned to me](");
+    expect(result.structuredContent).toMatchObject({
+      user: { id: "mock_user" },
+      failedOrganizations: [],
+    });
+  });
+
+  it("should read resources through the mock API", async () => {
+    const result = await client.readResource({ uri: "quire://user/me" });
+    const [content] = result.contents as { text: string }[];
+
+    expect(content?.text).toContain("mock@example.com");
+  });
+});
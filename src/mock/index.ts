@@ -0,0 +1,21 @@
+/**
+ * Mock Quire Module
+ *
+ * In-process fake of the Quire API and OAuth endpoints for offline testing.
+ */
+
+export {
+  startMockQuireServer,
+  MOCK_EXPORT_CSV_COLUMNS,
+  type MockQuireServer,
+  type MockQuireServerOptions,
+  type MockRequestLogEntry,
+} from "./server.js";
+export {
+  MockQuireStore,
+  createDefaultMockStore,
+  type MockOwned,
+  type MockOwnedParams,
+  type MockOwnerType,
+  type MockTaskSearch,
+} from "./store.js";
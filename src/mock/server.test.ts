@@ -0,0 +1,542 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { QuireClient } from "../quire/client.js";
+import type { QuireTask } from "../quire/types.js";
+import { startMockQuireServer, type MockQuireServer } from "./server.js";
+
+describe("Mock Quire server", () => {
+  let mock: MockQuireServer;
+  let client: QuireClient;
+  let projectOid: string;
+
+  beforeEach(async () => {
+    mock = await startMockQuireServer();
+    client = new QuireClient({
+      token: mock.accessToken,
+      baseUrl: mock.apiBaseUrl,
+      maxRetries: 0,
+    });
+    projectOid = mock.store.findProject("mock-project")?.oid ?? "";
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  /**
+   * Unwrap a successful result, failing the test otherwise
+   */
+  function expectData<T>(
+    result: { success: true; data: T } | { success: false; error: Error }
+  ): T {
+    if (!result.success) {
+      throw new Error(`Expected success, got: ${result.error.message}`);
+    }
+    return result.data;
+  }
+
+  describe("authentication", () => {
+    it("should reject unknown tokens", async () => {
+      const other = new QuireClient({
+        token: "wrong",
+        baseUrl: mock.apiBaseUrl,
+        maxRetries: 0,
+      });
+
+      const result = await other.getMe();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("UNAUTHORIZED");
+      }
+    });
+
+    it("should issue and refresh tokens through the OAuth endpoints", async () => {
+      const authorize = await fetch(
+        `${mock.url}/oauth?client_id=c&redirect_uri=${encodeURIComponent(
+          "http://localhost/callback"
+        )}&state=s1`,
+        { redirect: "manual" }
+      );
+      expect(authorize.status).toBe(302);
+      const location = new URL(authorize.headers.get("location") ?? "");
+      expect(location.searchParams.get("state")).toBe("s1");
+
+      const exchange = async (
+        params: Record<string, string>
+      ): Promise<Response> =>
+        fetch(`${mock.url}/oauth/token`, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams(params).toString(),
+        });
+
+      const code = location.searchParams.get("code") ?? "";
+      const tokenResponse = await exchange({
+        grant_type: "authorization_code",
+        code,
+      });
+      const tokens = (await tokenResponse.json()) as {
+        access_token: string;
+        refresh_token: string;
+      };
+      expect(tokens.access_token).toBeTruthy();
+
+      // Codes are single-use
+      const reused = await exchange({ grant_type: "authorization_code", code });
+      expect(reused.status).toBe(400);
+
+      const issued = new QuireClient({
+        token: tokens.access_token,
+        baseUrl: mock.apiBaseUrl,
+      });
+      expect(expectData(await issued.getMe()).id).toBe("mock_user");
+
+      const refreshed = await exchange({
+        grant_type: "refresh_token",
+        refresh_token: tokens.refresh_token,
+      });
+      expect(refreshed.status).toBe(200);
+    });
+
+    it("should reject authorize requests without a redirect URI", async () => {
+      const response = await fetch(`${mock.url}/oauth?client_id=c`, {
+        redirect: "manual",
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("request log and failure injection", () => {
+    it("should record API requests", async () => {
+      await client.getMe();
+      await client.listProjects();
+
+      expect(mock.requests).toEqual([
+        { method: "GET", path: "/user/id/me" },
+        { method: "GET", path: "/project/list" },
+      ]);
+    });
+
+    it("should fail the next requests with the injected status", async () => {
+      mock.failNext(429, 2);
+
+      const first = await client.getMe();
+      const second = await client.getMe();
+      const third = await client.getMe();
+
+      expect(second.success).toBe(false);
+      expect(first.success).toBe(false);
+      if (!first.success) {
+        expect(first.error.code).toBe("RATE_LIMITED");
+      }
+      expect(third.success).toBe(true);
+    });
+  });
+
+  describe("API endpoints", () => {
+    it("should serve users, organizations and projects", async () => {
+      const me = expectData(await client.getMe());
+      expect(expectData(await client.getUser(me.oid)).id).toBe("mock_user");
+      expect(expectData(await client.listUsers())).toHaveLength(1);
+      expect(
+        expectData(await client.listProjectMembers("mock-project"))
+      ).toHaveLength(1);
+
+      const [org] = expectData(await client.listOrganizations());
+      expect(expectData(await client.getOrganization("mock-org")).oid).toBe(
+        org?.oid
+      );
+
+      const projects = expectData(await client.listProjects("mock-org"));
+      expect(projects[0]?.taskCount).toBe(3);
+
+      const updated = expectData(
+        await client.updateProject("mock-project", { name: "Renamed" })
+      );
+      expect(updated.name).toBe("Renamed");
+    });
+
+    it("should support the task lifecycle", async () => {
+      const roots = expectData(await client.listTasks("mock-project"));
+      expect(roots.map((t) => t.name)).toEqual(["Design", "Build"]);
+      const design = roots[0]!;
+      expect(design.childCount).toBe(1);
+
+      const subtasks = expectData(
+        await client.listTasks("mock-project", design.oid)
+      );
+      expect(subtasks.map((t) => t.name)).toEqual(["Wireframes"]);
+
+      const created = expectData(
+        await client.createTask(projectOid, { name: "Test", priority: 1 })
+      );
+      expect(created.priority?.name).toBe("High");
+
+      const after = expectData(
+        await client.createTaskAfter(design.oid, { name: "After" })
+      );
+      expect(after.order).toBe(1);
+
+      const byId = expectData(await client.getTask("mock-project", created.id));
+      expect(byId.oid).toBe(created.oid);
+
+      const updated = expectData(
+        await client.updateTask("mock-project", created.id, { status: 100 })
+      );
+      expect(updated.status?.name).toBe("Completed");
+
+      const found = expectData(
+        await client.searchTasks("mock-project", "test")
+      );
+      expect(found.map((t) => t.oid)).toEqual([created.oid]);
+
+      expect(expectData(await client.deleteTask(created.oid))).toEqual({
+        oid: created.oid,
+      });
+      const missing = await client.getTask(created.oid);
+      expect(missing.success).toBe(false);
+    });
+
+    it("should export tasks as JSON and CSV", async () => {
+      const json = expectData(
+        await client.exportProject("mock-project", "json")
+      ) as QuireTask[];
+      expect(json).toHaveLength(3);
+
+      const csv = expectData(
+        await client.exportProject(projectOid, "csv")
+      ) as string;
+      const lines = csv.trim().split("\n");
+      expect(lines[0]).toBe(
+        "ID,Name,Description,Status,Priority,Start,Due,Assignees,Tags,Parent ID"
+      );
+      expect(lines[2]).toBe("2,Wireframes,,,,,,,,1");
+    });
+
+    it("should quote CSV fields and join list columns", async () => {
+      mock.store.addTask(projectOid, {
+        name: "Full",
+        description: 'Says "hi", twice',
+        status: 100,
+        priority: 1,
+        start: "2025-01-01",
+        due: "2025-01-31",
+        assignees: ["mock_user"],
+        tags: [1, 2],
+      });
+
+      const csv = expectData(
+        await client.exportProject(projectOid, "csv")
+      ) as string;
+
+      expect(csv).toContain(
+        '4,Full,"Says ""hi"", twice",Completed,High,2025-01-01,2025-01-31,mock_user,Bug;Feature,'
+      );
+    });
+
+    it("should serve tags, statuses and comments", async () => {
+      const tags = expectData(await client.listTags("mock-project"));
+      expect(tags.map((t) => t.name)).toEqual(["Bug", "Feature"]);
+      const tag = expectData(
+        await client.createTag("mock-project", { name: "Docs" })
+      );
+      expect(expectData(await client.deleteTag(tag.oid))).toEqual({
+        oid: tag.oid,
+      });
+
+      const status = expectData(
+        await client.createStatus("mock-project", {
+          name: "Doing",
+          value: 50,
+        })
+      );
+      expect(expectData(await client.getStatus("mock-project", 50)).name).toBe(
+        status.name
+      );
+      expect(
+        expectData(await client.listStatuses(projectOid)).map((s) => s.value)
+      ).toEqual([0, 50, 100]);
+
+      const task = mock.store.children(projectOid, undefined)[0]!;
+      const comment = expectData(
+        await client.addTaskComment(task.oid, { description: "Hello" })
+      );
+      expect(
+        expectData(await client.listTaskComments("mock-project", task.id))
+      ).toEqual([comment]);
+    });
+
+    it("should serve documents, storage, notifications and attachments", async () => {
+      const doc = expectData(
+        await client.createDocument("project", "mock-project", {
+          name: "Spec",
+          id: "spec",
+        })
+      );
+      expect(
+        expectData(await client.getDocument("project", "mock-project", "spec"))
+          .oid
+      ).toBe(doc.oid);
+      expect(
+        expectData(await client.listDocuments("project", projectOid))
+      ).toHaveLength(1);
+
+      expect(
+        expectData(await client.putStorageValue("app.key", { a: 1 }))
+      ).toEqual({ name: "app.key", value: { a: 1 } });
+      expect(expectData(await client.listStorageEntries("app."))).toHaveLength(
+        1
+      );
+
+      expect(
+        expectData(await client.sendNotification({ message: "Hi" }))
+      ).toEqual({ success: true });
+      expect(mock.store.notifications).toEqual([{ message: "Hi" }]);
+
+      const task = mock.store.children(projectOid, undefined)[0]!;
+      const attachment = expectData(
+        await client.uploadTaskAttachment(task.oid, "notes.txt", "hello")
+      );
+      expect(attachment.length).toBe(5);
+    });
+
+    it("should return 404 for unknown endpoints", async () => {
+      const response = await fetch(`${mock.apiBaseUrl}/nope`, {
+        headers: { Authorization: `Bearer ${mock.accessToken}` },
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should serve every ID and OID route variant", async () => {
+      const { store } = mock;
+      const orgOid = store.findOrganization("mock-org")?.oid ?? "";
+      const [design] = store.children(projectOid, undefined);
+      const taskOid = design?.oid ?? "";
+      const tagOid = store.projectTags(projectOid)[0]?.oid ?? "";
+      const partner = store.addPartner(projectOid, "Partner");
+      const chat = store.addOwned(store.chats, "H", "project", projectOid, {
+        name: "Chat",
+        id: "chat",
+      });
+      const comment = store.addComment(taskOid, "Existing");
+      const owned = {
+        doc: store.addOwned(store.documents, "D", "project", projectOid, {
+          name: "Doc",
+          id: "existing",
+        }).oid,
+        sublist: store.addOwned(store.sublists, "S", "project", projectOid, {
+          name: "Sublist",
+          id: "existing",
+        }).oid,
+        chat: store.addOwned(store.chats, "H", "project", projectOid, {
+          name: "Other chat",
+          id: "existing",
+        }).oid,
+      };
+      const p = projectOid;
+
+      const cases: [string, string, number, unknown?][] = [
+        // Users
+        ["GET", "/user/list/project/id/mock-project", 200],
+        ["GET", `/user/list/project/${p}`, 200],
+        ["GET", "/user/list/project/id/nope", 404],
+        ["GET", "/user/id/mock_user", 200],
+        ["GET", "/user/nope.x", 404],
+        // Organizations
+        ["GET", `/organization/${orgOid}`, 200],
+        ["GET", "/organization/id/nope", 404],
+        ["PUT", "/organization/id/mock-org", 200, { followers: ["mock_user"] }],
+        ["PUT", `/organization/${orgOid}`, 200, {}],
+        // Projects
+        ["GET", "/project/list?archived=false", 200],
+        ["GET", `/project/list/${orgOid}`, 200],
+        ["GET", "/project/list/id/nope", 404],
+        ["GET", `/project/${p}`, 200],
+        ["GET", "/project/id/nope", 404],
+        ["PUT", `/project/${p}`, 200, { description: "D", archived: false }],
+        ["GET", "/project/export-json/id/mock-project?status=active", 200],
+        ["GET", `/project/export-json/${p}?status=completed`, 200],
+        ["GET", "/project/export-csv/id/nope", 404],
+        // Tasks
+        ["GET", `/task/list/${p}`, 200],
+        ["GET", `/task/list/${taskOid}`, 200],
+        ["GET", "/task/list/nope.x", 404],
+        ["GET", "/task/list/id/nope", 404],
+        [
+          "GET",
+          `/task/search/${p}?text=&status=0&priority=0&assignee=mock_user&tag=1`,
+          200,
+        ],
+        ["GET", "/task/search/id/nope?text=a", 404],
+        ["GET", "/task/search-folder/id/folder?text=a", 200],
+        ["GET", "/task/search-organization/id/mock-org?text=a", 200],
+        ["GET", `/task/search-organization/${orgOid}?text=a`, 200],
+        ["GET", "/task/search-organization/id/nope?text=a", 404],
+        ["GET", `/task/${p}/1`, 200],
+        ["GET", "/task/id/mock-project/99", 404],
+        ["GET", `/task/${taskOid}`, 200],
+        ["POST", "/task/id/mock-project", 200, { name: "A" }],
+        ["POST", "/task/id/nope", 404, { name: "A" }],
+        ["POST", "/task/id/mock-project", 400, {}],
+        ["POST", `/task/before/${taskOid}`, 200, { name: "Before" }],
+        ["POST", "/task/after/nope.x", 404, { name: "After" }],
+        ["POST", `/task/${p}`, 200, { name: "Root" }],
+        ["POST", `/task/${taskOid}`, 200, { name: "Sub" }],
+        ["POST", "/task/nope.x", 404, { name: "Lost" }],
+        ["PUT", "/task/id/mock-project/1", 200, { name: "Design 2" }],
+        ["PUT", `/task/${p}/1`, 200, {}],
+        ["PUT", `/task/${taskOid}`, 200, { description: "Desc" }],
+        ["PUT", "/task/nope.x", 404, {}],
+        ["DELETE", "/task/nope.x", 404],
+        ["POST", "/task/attach/nope.x/file.txt", 404, "raw"],
+        // Tags
+        ["GET", `/tag/list/${p}`, 200],
+        ["GET", "/tag/list/id/nope", 404],
+        ["POST", `/tag/${p}`, 200, { name: "New", color: "blue" }],
+        ["POST", "/tag/id/nope", 404, { name: "New" }],
+        ["POST", "/tag/id/mock-project", 400, {}],
+        ["GET", `/tag/${tagOid}`, 200],
+        ["GET", "/tag/nope.x", 404],
+        ["PUT", `/tag/${tagOid}`, 200, { name: "Bugs", color: "red" }],
+        ["PUT", "/tag/nope.x", 404, {}],
+        ["DELETE", "/tag/nope.x", 404],
+        // Comments
+        ["GET", `/comment/list/task/${taskOid}`, 200],
+        ["GET", "/comment/list/task/nope.x", 404],
+        ["GET", `/comment/list/${p}/task/1`, 200],
+        ["GET", `/comment/list/chat/${chat.oid}`, 200],
+        ["GET", "/comment/list/id/mock-project/chat/chat", 200],
+        ["GET", `/comment/list/${p}/chat/chat`, 200],
+        ["GET", "/comment/list/id/nope/chat/chat", 404],
+        ["POST", `/comment/task/${taskOid}`, 200, { description: "A" }],
+        ["POST", "/comment/id/mock-project/task/1", 400, {}],
+        ["POST", `/comment/${p}/task/1`, 200, { description: "B" }],
+        ["POST", `/comment/chat/${chat.oid}`, 200, { description: "C" }],
+        [
+          "POST",
+          "/comment/id/mock-project/chat/chat",
+          200,
+          { description: "D" },
+        ],
+        ["POST", `/comment/${p}/chat/chat`, 200, { description: "E" }],
+        ["POST", "/comment/task/nope.x", 404, { description: "F" }],
+        ["POST", `/comment/attach/${comment.oid}/file.txt`, 200, "raw"],
+        ["POST", "/comment/attach/nope.x/file.txt", 404, "raw"],
+        ["PUT", `/comment/${comment.oid}`, 200, { description: "Edited" }],
+        ["PUT", "/comment/nope.x", 404, {}],
+        ["DELETE", `/comment/${comment.oid}`, 200],
+        ["DELETE", "/comment/nope.x", 404],
+        // Statuses
+        ["GET", "/status/list/id/mock-project", 200],
+        ["GET", `/status/list/${p}`, 200],
+        ["GET", "/status/list/id/nope", 404],
+        ["GET", `/status/${p}/0`, 200],
+        ["GET", "/status/id/mock-project/42", 404],
+        ["PUT", "/status/id/mock-project/0", 200, { name: "Todo", color: "1" }],
+        ["POST", `/status/${p}`, 200, { name: "Mid", value: 10, color: "2" }],
+        ["POST", "/status/id/mock-project", 400, {}],
+        ["DELETE", `/status/${p}/10`, 200],
+        // Partners
+        ["GET", "/partner/list/id/mock-project", 200],
+        ["GET", `/partner/list/${p}`, 200],
+        ["GET", "/partner/list/id/nope", 404],
+        ["GET", `/partner/${partner.oid}`, 200],
+        ["GET", "/partner/nope.x", 404],
+        // Storage & notifications
+        ["GET", "/storage/key", 404],
+        ["PUT", "/storage/key", 200, { value: 1 }],
+        ["GET", "/storage/key", 200],
+        ["DELETE", "/storage/key", 200],
+        ["DELETE", "/storage/key", 404],
+        ["POST", "/notification", 400, {}],
+      ];
+
+      for (const [prefix, oid] of Object.entries(owned)) {
+        cases.push(
+          [
+            "POST",
+            `/${prefix}/id/project/mock-project`,
+            200,
+            { name: "N", id: "n" },
+          ],
+          ["POST", `/${prefix}/organization/${orgOid}`, 200, { name: "Org" }],
+          ["POST", `/${prefix}/id/folder/x`, 404, { name: "N" }],
+          ["POST", `/${prefix}/id/project/mock-project`, 400, {}],
+          ["GET", `/${prefix}/list/id/project/mock-project`, 200],
+          ["GET", `/${prefix}/list/organization/${orgOid}`, 200],
+          ["GET", `/${prefix}/list/id/project/nope`, 404],
+          ["GET", `/${prefix}/id/project/mock-project/n`, 200],
+          ["GET", `/${prefix}/project/${p}/n`, 200],
+          ["GET", `/${prefix}/folder/${p}/n`, 404],
+          [
+            "PUT",
+            `/${prefix}/id/project/mock-project/n`,
+            200,
+            {
+              description: "D",
+              iconColor: "1",
+              image: "i",
+              start: "s",
+              due: "d",
+            },
+          ],
+          ["GET", `/${prefix}/${oid}`, 200],
+          ["PUT", `/${prefix}/${oid}`, 200, { name: "Renamed" }],
+          ["DELETE", `/${prefix}/id/project/mock-project/n`, 200],
+          ["DELETE", `/${prefix}/project/${p}/missing`, 404],
+          ["GET", `/${prefix}/nope.x`, 404],
+          ["DELETE", `/${prefix}/${oid}`, 200]
+        );
+      }
+
+      const mismatches: string[] = [];
+      for (const [method, path, expected, body] of cases) {
+        const headers: Record<string, string> = {
+          Authorization: `Bearer ${mock.accessToken}`,
+        };
+        let payload: string | undefined;
+        if (body === "raw") {
+          headers["Content-Type"] = "text/plain";
+          payload = "content";
+        } else if (body !== undefined) {
+          headers["Content-Type"] = "application/json";
+          payload = JSON.stringify(body);
+        }
+        const response = await fetch(`${mock.apiBaseUrl}${path}`, {
+          method,
+          headers,
+          ...(payload !== undefined ? { body: payload } : {}),
+        });
+        await response.arrayBuffer();
+        if (response.status !== expected) {
+          mismatches.push(`${method} ${path}: ${response.status}`);
+        }
+      }
+
+      expect(mismatches).toEqual([]);
+    });
+
+    it("should omit Retry-After for injected server errors", async () => {
+      mock.failNext(500);
+
+      const response = await fetch(`${mock.apiBaseUrl}/user/id/me`, {
+        headers: { Authorization: `Bearer ${mock.accessToken}` },
+      });
+
+      expect(response.status).toBe(500);
+      expect(response.headers.get("Retry-After")).toBeNull();
+    });
+
+    it("should reject unsupported OAuth grants", async () => {
+      const response = await fetch(`${mock.url}/oauth/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "grant_type=password",
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,1257 @@
+/**
+ * Mock Quire Server
+ *
+ * In-process fake of the Quire API and OAuth endpoints for offline
+ * end-to-end testing. Serves every endpoint QuireClient calls from a
+ * MockQuireStore, so full MCP sessions can run without network access.
+ *
+ * Point the MCP server at it with QUIRE_BASE_URL (see quire/endpoints.ts):
+ *
+ * ```ts
+ * const mock = await startMockQuireServer();
+ * process.env["QUIRE_BASE_URL"] = mock.url;
+ * process.env["QUIRE_ACCESS_TOKEN"] = mock.accessToken;
+ * // ... run the MCP session ...
+ * await mock.close();
+ * ```
+ *
+ * Behaviour is intentionally simplified: folders are not modelled (folder
+ * search covers every project), and the OAuth authorize endpoint approves
+ * every request immediately.
+ */
+
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express, { type Express, type Response } from "express";
+import type { QuireTask, QuireDocument } from "../quire/types.js";
+import {
+  createDefaultMockStore,
+  type MockOwned,
+  type MockOwnedParams,
+  type MockOwnerType,
+  type MockQuireStore,
+} from "./store.js";
+
+/** Access token accepted by default */
+const DEFAULT_ACCESS_TOKEN = "mock-access-token";
+
+/** Lifetime reported for issued OAuth tokens (30 days) */
+const TOKEN_EXPIRES_IN_SECONDS = 30 * 24 * 60 * 60;
+
+/** Column layout of the CSV export */
+export const MOCK_EXPORT_CSV_COLUMNS = [
+  "ID",
+  "Name",
+  "Description",
+  "Status",
+  "Priority",
+  "Start",
+  "Due",
+  "Assignees",
+  "Tags",
+  "Parent ID",
+] as const;
+
+export interface MockQuireServerOptions {
+  /** Store to serve (defaults to `createDefaultMockStore()`) */
+  store?: MockQuireStore;
+  /** Bearer token accepted by the API (defaults to "mock-access-token") */
+  accessToken?: string;
+  /** Host to bind to (defaults to 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (defaults to a random free port) */
+  port?: number;
+}
+
+/**
+ * A request received by the mock API
+ */
+export interface MockRequestLogEntry {
+  method: string;
+  /** Path relative to the API base URL, including the query string */
+  path: string;
+}
+
+/**
+ * A running mock Quire server
+ */
+export interface MockQuireServer {
+  /** Origin of the server; use as QUIRE_BASE_URL */
+  url: string;
+  /** API base URL (url + "/api") */
+  apiBaseUrl: string;
+  /** Token accepted by the API */
+  accessToken: string;
+  store: MockQuireStore;
+  /** Every API request received, in order */
+  requests: MockRequestLogEntry[];
+  /**
+   * Make the next `count` API requests fail with the given status.
+   * Rate limit failures include a `Retry-After` header.
+   */
+  failNext(status: number, count?: number, retryAfterSeconds?: number): void;
+  close(): Promise<void>;
+}
+
+interface MockAppState {
+  store: MockQuireStore;
+  tokens: Set<string>;
+  refreshTokens: Set<string>;
+  codes: Set<string>;
+  requests: MockRequestLogEntry[];
+  failures: { status: number; retryAfterSeconds: number }[];
+  issued: number;
+}
+
+/**
+ * Narrow an unknown request body to a record
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Read an optional numeric query parameter
+ */
+function queryNumber(value: unknown): number | undefined {
+  if (typeof value !== "string" || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function notFound(res: Response, what = "Resource"): void {
+  res.status(404).json({ message: `${what} not found` });
+}
+
+function badRequest(res: Response, message: string): void {
+  res.status(400).json({ message });
+}
+
+/**
+ * Quote a CSV field when needed
+ */
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize tasks in the mock CSV export layout
+ */
+function tasksToCsv(tasks: QuireTask[]): string {
+  const rows = tasks.map((task) =>
+    [
+      String(task.id),
+      task.name,
+      task.description ?? "",
+      task.status?.name ?? "",
+      task.priority?.name ?? "",
+      task.start ?? "",
+      task.due ?? "",
+      (task.assignees ?? []).map((a) => a.id).join(";"),
+      (task.tags ?? []).map((t) => t.name).join(";"),
+      task.parent ? String(task.parent.id) : "",
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [MOCK_EXPORT_CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Create the Express app serving the mock API and OAuth endpoints
+ */
+function createMockQuireApp(state: MockAppState): Express {
+  const { store } = state;
+  const app = express();
+  const api = express.Router();
+
+  // -------------------------------------------------------------------------
+  // OAuth
+  // -------------------------------------------------------------------------
+
+  app.get("/oauth", (req, res) => {
+    const redirectUri = req.query["redirect_uri"];
+    if (typeof redirectUri !== "string" || !req.query["client_id"]) {
+      badRequest(res, "client_id and redirect_uri are required");
+      return;
+    }
+    state.issued += 1;
+    const code = `mock-code-${state.issued}`;
+    state.codes.add(code);
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", code);
+    const oauthState = req.query["state"];
+    if (typeof oauthState === "string") {
+      target.searchParams.set("state", oauthState);
+    }
+    res.redirect(target.toString());
+  });
+
+  app.post(
+    "/oauth/token",
+    express.urlencoded({ extended: false }),
+    (req, res) => {
+      const body = asRecord(req.body);
+      const grantType = body["grant_type"];
+      let valid = false;
+      if (grantType === "authorization_code") {
+        valid = state.codes.delete(String(body["code"]));
+      } else if (grantType === "refresh_token") {
+        valid = state.refreshTokens.delete(String(body["refresh_token"]));
+      }
+      if (!valid) {
+        res.status(400).json({ error: "invalid_grant" });
+        return;
+      }
+      state.issued += 1;
+      const accessToken = `mock-access-${state.issued}`;
+      const refreshToken = `mock-refresh-${state.issued}`;
+      state.tokens.add(accessToken);
+      state.refreshTokens.add(refreshToken);
+      res.json({
+        access_token: accessToken,
+        token_type: "Bearer",
+        expires_in: TOKEN_EXPIRES_IN_SECONDS,
+        refresh_token: refreshToken,
+      });
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // API middleware: logging, failure injection, authentication
+  // -------------------------------------------------------------------------
+
+  api.use((req, res, next) => {
+    state.requests.push({ method: req.method, path: req.url });
+
+    const failure = state.failures.shift();
+    if (failure) {
+      if (failure.status === 429) {
+        res.setHeader("Retry-After", String(failure.retryAfterSeconds));
+      }
+      res.status(failure.status).json({ message: "Injected failure" });
+      return;
+    }
+
+    const auth = req.headers.authorization ?? "";
+    const token = auth.startsWith("Bearer ") ? auth.slice(7) : "";
+    if (!state.tokens.has(token)) {
+      res.status(401).json({ message: "Invalid or expired token" });
+      return;
+    }
+    next();
+  });
+
+  // Attachment uploads carry raw file content, so they are registered
+  // before the JSON body parser.
+  const raw = express.raw({ type: () => true, limit: "10mb" });
+  const recordAttachment = (
+    ownerOid: string,
+    filename: string,
+    body: unknown,
+    res: Response
+  ): void => {
+    const attachment = {
+      name: filename,
+      length: Buffer.isBuffer(body) ? body.length : 0,
+      url: `https://quire.io/att/${ownerOid}/${encodeURIComponent(filename)}`,
+    };
+    store.attachments.push({ ownerOid, attachment });
+    res.json(attachment);
+  };
+  api.post("/task/attach/:oid/:filename", raw, (req, res) => {
+    if (!store.tasks.has(req.params.oid)) {
+      notFound(res, "Task");
+      return;
+    }
+    recordAttachment(req.params.oid, req.params.filename, req.body, res);
+  });
+  api.post("/comment/attach/:oid/:filename", raw, (req, res) => {
+    if (!store.comments.has(req.params.oid)) {
+      notFound(res, "Comment");
+      return;
+    }
+    recordAttachment(req.params.oid, req.params.filename, req.body, res);
+  });
+
+  api.use(express.json());
+
+  // -------------------------------------------------------------------------
+  // Users
+  // -------------------------------------------------------------------------
+
+  api.get("/user/id/me", (_req, res) => {
+    res.json(store.me);
+  });
+  api.get("/user/list", (_req, res) => {
+    res.json([...store.users.values()]);
+  });
+  const listMembers = (projectIdOrOid: string, res: Response): void => {
+    const project = store.findProject(projectIdOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    const members = (store.members.get(project.oid) ?? [])
+      .map((oid) => store.users.get(oid))
+      .filter((u) => u !== undefined);
+    res.json(members);
+  };
+  api.get("/user/list/project/id/:id", (req, res) => {
+    listMembers(req.params.id, res);
+  });
+  api.get("/user/list/project/:oid", (req, res) => {
+    listMembers(req.params.oid, res);
+  });
+  const getUser = (idOrOid: string, res: Response): void => {
+    const user = store.findUser(idOrOid);
+    if (user) res.json(user);
+    else notFound(res, "User");
+  };
+  api.get("/user/id/:id", (req, res) => {
+    getUser(req.params.id, res);
+  });
+  api.get("/user/:oid", (req, res) => {
+    getUser(req.params.oid, res);
+  });
+
+  // -------------------------------------------------------------------------
+  // Organizations
+  // -------------------------------------------------------------------------
+
+  api.get("/organization/list", (_req, res) => {
+    res.json([...store.organizations.values()]);
+  });
+  const organizationRoute = (
+    idOrOid: string,
+    body: unknown,
+    res: Response
+  ): void => {
+    const org = store.findOrganization(idOrOid);
+    if (!org) {
+      notFound(res, "Organization");
+      return;
+    }
+    if (body !== undefined) {
+      const followers = asRecord(body)["followers"];
+      if (Array.isArray(followers)) {
+        org.followers = followers
+          .map((f) => store.findUser(String(f)))
+          .filter((u) => u !== undefined)
+          .map((u) => store.toSimpleUser(u));
+      }
+    }
+    res.json(org);
+  };
+  api.get("/organization/id/:id", (req, res) => {
+    organizationRoute(req.params.id, undefined, res);
+  });
+  api.get("/organization/:oid", (req, res) => {
+    organizationRoute(req.params.oid, undefined, res);
+  });
+  api.put("/organization/id/:id", (req, res) => {
+    organizationRoute(req.params.id, req.body, res);
+  });
+  api.put("/organization/:oid", (req, res) => {
+    organizationRoute(req.params.oid, req.body, res);
+  });
+
+  // -------------------------------------------------------------------------
+  // Projects
+  // -------------------------------------------------------------------------
+
+  const listProjects = (
+    orgIdOrOid: string | undefined,
+    query: Record<string, unknown>,
+    res: Response
+  ): void => {
+    let projects = [...store.projects.values()];
+    if (orgIdOrOid !== undefined) {
+      const org = store.findOrganization(orgIdOrOid);
+      if (!org) {
+        notFound(res, "Organization");
+        return;
+      }
+      projects = projects.filter((p) => p.organization?.oid === org.oid);
+    }
+    const archived = query["archived"];
+    if (archived !== undefined) {
+      projects = projects.filter(
+        (p) => String(p.archived === true) === archived
+      );
+    }
+    res.json(projects.map((p) => store.serializeProject(p)));
+  };
+  api.get("/project/list", (req, res) => {
+    listProjects(undefined, req.query, res);
+  });
+  api.get("/project/list/id/:id", (req, res) => {
+    listProjects(req.params.id, req.query, res);
+  });
+  api.get("/project/list/:oid", (req, res) => {
+    listProjects(req.params.oid, req.query, res);
+  });
+
+  const exportProject = (
+    format: "json" | "csv",
+    idOrOid: string,
+    query: Record<string, unknown>,
+    res: Response
+  ): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    const status = query["status"] ?? "all";
+    const tasks = store
+      .projectTasks(project.oid)
+      .filter((t) => {
+        const completed = (t.status?.value ?? 0) >= 100;
+        if (status === "active") return !completed;
+        if (status === "completed") return completed;
+        return true;
+      })
+      .sort((a, b) => a.id - b.id)
+      .map((t) => store.serializeTask(t));
+    if (format === "csv") {
+      res.type("text/csv").send(tasksToCsv(tasks));
+    } else {
+      res.json(tasks);
+    }
+  };
+  for (const format of ["json", "csv"] as const) {
+    api.get(`/project/export-${format}/id/:id`, (req, res) => {
+      exportProject(format, req.params.id, req.query, res);
+    });
+    api.get(`/project/export-${format}/:oid`, (req, res) => {
+      exportProject(format, req.params.oid, req.query, res);
+    });
+  }
+
+  const projectRoute = (
+    idOrOid: string,
+    body: unknown,
+    res: Response
+  ): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    if (body !== undefined) {
+      const params = asRecord(body);
+      if (typeof params["name"] === "string") {
+        project.name = params["name"];
+        project.nameText = params["name"];
+      }
+      if (typeof params["description"] === "string") {
+        project.description = params["description"];
+        project.descriptionText = params["description"];
+      }
+      if (typeof params["archived"] === "boolean") {
+        project.archived = params["archived"];
+      }
+    }
+    res.json(store.serializeProject(project));
+  };
+  api.get("/project/id/:id", (req, res) => {
+    projectRoute(req.params.id, undefined, res);
+  });
+  api.get("/project/:oid", (req, res) => {
+    projectRoute(req.params.oid, undefined, res);
+  });
+  api.put("/project/id/:id", (req, res) => {
+    projectRoute(req.params.id, req.body, res);
+  });
+  api.put("/project/:oid", (req, res) => {
+    projectRoute(req.params.oid, req.body, res);
+  });
+
+  // -------------------------------------------------------------------------
+  // Tasks
+  // -------------------------------------------------------------------------
+
+  api.get("/task/list/id/:id", (req, res) => {
+    const project = store.findProject(req.params.id);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    res.json(
+      store.children(project.oid, undefined).map((t) => store.serializeTask(t))
+    );
+  });
+  api.get("/task/list/:oid", (req, res) => {
+    // Either a project OID (root tasks) or a task OID (subtasks)
+    const project = store.projects.get(req.params.oid);
+    const parent = store.tasks.get(req.params.oid);
+    if (project) {
+      res.json(
+        store
+          .children(project.oid, undefined)
+          .map((t) => store.serializeTask(t))
+      );
+    } else if (parent?.project) {
+      res.json(
+        store
+          .children(parent.project.oid, parent.oid)
+          .map((t) => store.serializeTask(t))
+      );
+    } else {
+      notFound(res, "Project or task");
+    }
+  });
+
+  const search = (
+    projectOids: string[],
+    query: Record<string, unknown>,
+    res: Response
+  ): void => {
+    const filters = {
+      keyword: typeof query["text"] === "string" ? query["text"] : "",
+      status: queryNumber(query["status"]),
+      priority: queryNumber(query["priority"]),
+      assignee:
+        typeof query["assignee"] === "string" ? query["assignee"] : undefined,
+      tag: queryNumber(query["tag"]),
+    };
+    const defined = Object.fromEntries(
+      Object.entries(filters).filter(([, v]) => v !== undefined)
+    ) as { keyword: string };
+    res.json(store.searchTasks(projectOids, defined));
+  };
+  const searchProject = (
+    idOrOid: string,
+    query: Record<string, unknown>,
+    res: Response
+  ): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    search([project.oid], query, res);
+  };
+  api.get("/task/search/id/:id", (req, res) => {
+    searchProject(req.params.id, req.query, res);
+  });
+  api.get("/task/search/:oid", (req, res) => {
+    searchProject(req.params.oid, req.query, res);
+  });
+  // Folders are not modelled: folder search covers every project
+  api.get(
+    ["/task/search-folder/id/:id", "/task/search-folder/:oid"],
+    (req, res) => {
+      search([...store.projects.keys()], req.query, res);
+    }
+  );
+  const searchOrganization = (
+    idOrOid: string,
+    query: Record<string, unknown>,
+    res: Response
+  ): void => {
+    const org = store.findOrganization(idOrOid);
+    if (!org) {
+      notFound(res, "Organization");
+      return;
+    }
+    const projectOids = [...store.projects.values()]
+      .filter((p) => p.organization?.oid === org.oid)
+      .map((p) => p.oid);
+    search(projectOids, query, res);
+  };
+  api.get("/task/search-organization/id/:id", (req, res) => {
+    searchOrganization(req.params.id, req.query, res);
+  });
+  api.get("/task/search-organization/:oid", (req, res) => {
+    searchOrganization(req.params.oid, req.query, res);
+  });
+
+  const findTaskByProject = (
+    projectIdOrOid: string,
+    taskId: string
+  ): QuireTask | undefined => {
+    const project = store.findProject(projectIdOrOid);
+    return project
+      ? store.findTaskById(project.oid, Number(taskId))
+      : undefined;
+  };
+  const respondTask = (task: QuireTask | undefined, res: Response): void => {
+    if (task) res.json(store.serializeTask(task));
+    else notFound(res, "Task");
+  };
+  const updateTask = (
+    task: QuireTask | undefined,
+    body: unknown,
+    res: Response
+  ): void => {
+    if (task) store.applyTaskUpdate(task, asRecord(body));
+    respondTask(task, res);
+  };
+
+  api.get("/task/id/:projectId/:taskId", (req, res) => {
+    respondTask(
+      findTaskByProject(req.params.projectId, req.params.taskId),
+      res
+    );
+  });
+  api.get("/task/:projectOid/:taskId", (req, res) => {
+    respondTask(
+      findTaskByProject(req.params.projectOid, req.params.taskId),
+      res
+    );
+  });
+  api.get("/task/:oid", (req, res) => {
+    respondTask(store.tasks.get(req.params.oid), res);
+  });
+
+  const createTask = (
+    projectOid: string,
+    parentOid: string | undefined,
+    body: unknown,
+    res: Response,
+    position?: { relativeTo: QuireTask; placement: "after" | "before" }
+  ): void => {
+    const params = asRecord(body);
+    if (typeof params["name"] !== "string" || params["name"] === "") {
+      badRequest(res, "name is required");
+      return;
+    }
+    const created = store.addTask(
+      projectOid,
+      {
+        ...(params as { name: string }),
+        ...(parentOid ? { parentOid } : {}),
+      },
+      position
+    );
+    res.json(store.serializeTask(created));
+  };
+  api.post("/task/id/:projectId", (req, res) => {
+    const project = store.findProject(req.params.projectId);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    createTask(project.oid, undefined, req.body, res);
+  });
+  for (const placement of ["after", "before"] as const) {
+    api.post(`/task/${placement}/:oid`, (req, res) => {
+      const ref = store.tasks.get(req.params.oid);
+      if (!ref?.project) {
+        notFound(res, "Task");
+        return;
+      }
+      createTask(ref.project.oid, ref.parent?.oid, req.body, res, {
+        relativeTo: ref,
+        placement,
+      });
+    });
+  }
+  api.post("/task/:oid", (req, res) => {
+    // Either a project OID (root task) or a task OID (subtask)
+    const project = store.projects.get(req.params.oid);
+    const parent = store.tasks.get(req.params.oid);
+    if (project) {
+      createTask(project.oid, undefined, req.body, res);
+    } else if (parent?.project) {
+      createTask(parent.project.oid, parent.oid, req.body, res);
+    } else {
+      notFound(res, "Project or task");
+    }
+  });
+
+  api.put("/task/id/:projectId/:taskId", (req, res) => {
+    updateTask(
+      findTaskByProject(req.params.projectId, req.params.taskId),
+      req.body,
+      res
+    );
+  });
+  api.put("/task/:projectOid/:taskId", (req, res) => {
+    updateTask(
+      findTaskByProject(req.params.projectOid, req.params.taskId),
+      req.body,
+      res
+    );
+  });
+  api.put("/task/:oid", (req, res) => {
+    updateTask(store.tasks.get(req.params.oid), req.body, res);
+  });
+  api.delete("/task/:oid", (req, res) => {
+    const task = store.tasks.get(req.params.oid);
+    if (!task) {
+      notFound(res, "Task");
+      return;
+    }
+    store.deleteTask(task);
+    res.json({ oid: task.oid });
+  });
+
+  // -------------------------------------------------------------------------
+  // Tags
+  // -------------------------------------------------------------------------
+
+  const listTags = (idOrOid: string, res: Response): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    res.json(store.projectTags(project.oid));
+  };
+  api.get("/tag/list/id/:id", (req, res) => {
+    listTags(req.params.id, res);
+  });
+  api.get("/tag/list/:oid", (req, res) => {
+    listTags(req.params.oid, res);
+  });
+  const createTag = (idOrOid: string, body: unknown, res: Response): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    const params = asRecord(body);
+    if (typeof params["name"] !== "string") {
+      badRequest(res, "name is required");
+      return;
+    }
+    res.json(store.addTag(project.oid, params as { name: string }));
+  };
+  api.post("/tag/id/:id", (req, res) => {
+    createTag(req.params.id, req.body, res);
+  });
+  api.post("/tag/:oid", (req, res) => {
+    createTag(req.params.oid, req.body, res);
+  });
+  api.get("/tag/:oid", (req, res) => {
+    const entry = store.tags.get(req.params.oid);
+    if (entry) res.json(entry.tag);
+    else notFound(res, "Tag");
+  });
+  api.put("/tag/:oid", (req, res) => {
+    const entry = store.tags.get(req.params.oid);
+    if (!entry) {
+      notFound(res, "Tag");
+      return;
+    }
+    store.updateTag(entry.tag, asRecord(req.body));
+    res.json(entry.tag);
+  });
+  api.delete("/tag/:oid", (req, res) => {
+    if (!store.tags.delete(req.params.oid)) {
+      notFound(res, "Tag");
+      return;
+    }
+    res.json({ oid: req.params.oid });
+  });
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  const findChatByProject = (
+    projectIdOrOid: string,
+    chatId: string
+  ): string | undefined => {
+    const project = store.findProject(projectIdOrOid);
+    return project
+      ? store.findOwned(
+          store.chats,
+          { ownerType: "project", ownerOid: project.oid },
+          chatId
+        )?.oid
+      : undefined;
+  };
+  const listComments = (ownerOid: string | undefined, res: Response): void => {
+    if (!ownerOid) {
+      notFound(res, "Owner");
+      return;
+    }
+    res.json(store.commentsFor(ownerOid));
+  };
+  const addComment = (
+    ownerOid: string | undefined,
+    body: unknown,
+    res: Response
+  ): void => {
+    if (!ownerOid) {
+      notFound(res, "Owner");
+      return;
+    }
+    const description = asRecord(body)["description"];
+    if (typeof description !== "string") {
+      badRequest(res, "description is required");
+      return;
+    }
+    res.json(store.addComment(ownerOid, description));
+  };
+  const taskOid = (oid: string): string | undefined =>
+    store.tasks.has(oid) ? oid : undefined;
+  const chatOid = (oid: string): string | undefined =>
+    store.chats.has(oid) ? oid : undefined;
+
+  api.get("/comment/list/task/:oid", (req, res) => {
+    listComments(taskOid(req.params.oid), res);
+  });
+  api.get("/comment/list/id/:projectId/task/:taskId", (req, res) => {
+    listComments(
+      findTaskByProject(req.params.projectId, req.params.taskId)?.oid,
+      res
+    );
+  });
+  api.get("/comment/list/:projectOid/task/:taskId", (req, res) => {
+    listComments(
+      findTaskByProject(req.params.projectOid, req.params.taskId)?.oid,
+      res
+    );
+  });
+  api.get("/comment/list/chat/:oid", (req, res) => {
+    listComments(chatOid(req.params.oid), res);
+  });
+  api.get("/comment/list/id/:projectId/chat/:chatId", (req, res) => {
+    listComments(
+      findChatByProject(req.params.projectId, req.params.chatId),
+      res
+    );
+  });
+  api.get("/comment/list/:projectOid/chat/:chatId", (req, res) => {
+    listComments(
+      findChatByProject(req.params.projectOid, req.params.chatId),
+      res
+    );
+  });
+  api.post("/comment/task/:oid", (req, res) => {
+    addComment(taskOid(req.params.oid), req.body, res);
+  });
+  api.post("/comment/id/:projectId/task/:taskId", (req, res) => {
+    addComment(
+      findTaskByProject(req.params.projectId, req.params.taskId)?.oid,
+      req.body,
+      res
+    );
+  });
+  api.post("/comment/:projectOid/task/:taskId", (req, res) => {
+    addComment(
+      findTaskByProject(req.params.projectOid, req.params.taskId)?.oid,
+      req.body,
+      res
+    );
+  });
+  api.post("/comment/chat/:oid", (req, res) => {
+    addComment(chatOid(req.params.oid), req.body, res);
+  });
+  api.post("/comment/id/:projectId/chat/:chatId", (req, res) => {
+    addComment(
+      findChatByProject(req.params.projectId, req.params.chatId),
+      req.body,
+      res
+    );
+  });
+  api.post("/comment/:projectOid/chat/:chatId", (req, res) => {
+    addComment(
+      findChatByProject(req.params.projectOid, req.params.chatId),
+      req.body,
+      res
+    );
+  });
+  api.put("/comment/:oid", (req, res) => {
+    const entry = store.comments.get(req.params.oid);
+    if (!entry) {
+      notFound(res, "Comment");
+      return;
+    }
+    const description = asRecord(req.body)["description"];
+    if (typeof description === "string") {
+      entry.comment.description = description;
+      entry.comment.descriptionText = description;
+      entry.comment.editedAt = new Date().toISOString();
+      entry.comment.editedBy = store.toSimpleUser(store.me);
+    }
+    res.json(entry.comment);
+  });
+  api.delete("/comment/:oid", (req, res) => {
+    if (!store.comments.delete(req.params.oid)) {
+      notFound(res, "Comment");
+      return;
+    }
+    res.json({ oid: req.params.oid });
+  });
+
+  // -------------------------------------------------------------------------
+  // Statuses
+  // -------------------------------------------------------------------------
+
+  const withStatuses = (
+    idOrOid: string,
+    res: Response,
+    fn: (projectOid: string) => void
+  ): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    fn(project.oid);
+  };
+  const statusRoute = (
+    method: "get" | "put" | "delete",
+    idOrOid: string,
+    value: string,
+    body: unknown,
+    res: Response
+  ): void => {
+    withStatuses(idOrOid, res, (projectOid) => {
+      const list = store.statuses.get(projectOid) ?? [];
+      const index = list.findIndex((s) => s.value === Number(value));
+      const status = list[index];
+      if (!status) {
+        notFound(res, "Status");
+        return;
+      }
+      if (method === "delete") {
+        list.splice(index, 1);
+        res.json({ value: status.value });
+        return;
+      }
+      if (method === "put") {
+        store.updateStatus(status, asRecord(body));
+      }
+      res.json(status);
+    });
+  };
+  const createStatus = (
+    idOrOid: string,
+    body: unknown,
+    res: Response
+  ): void => {
+    withStatuses(idOrOid, res, (projectOid) => {
+      const params = asRecord(body);
+      if (
+        typeof params["name"] !== "string" ||
+        typeof params["value"] !== "number"
+      ) {
+        badRequest(res, "name and value are required");
+        return;
+      }
+      res.json(
+        store.addStatus(projectOid, params as { name: string; value: number })
+      );
+    });
+  };
+  api.get("/status/list/id/:id", (req, res) => {
+    withStatuses(req.params.id, res, (oid) =>
+      res.json(store.statuses.get(oid) ?? [])
+    );
+  });
+  api.get("/status/list/:oid", (req, res) => {
+    withStatuses(req.params.oid, res, (oid) =>
+      res.json(store.statuses.get(oid) ?? [])
+    );
+  });
+  for (const method of ["get", "put", "delete"] as const) {
+    api[method]("/status/id/:projectId/:value", (req, res) => {
+      statusRoute(
+        method,
+        req.params.projectId,
+        req.params.value,
+        req.body,
+        res
+      );
+    });
+    api[method]("/status/:projectOid/:value", (req, res) => {
+      statusRoute(
+        method,
+        req.params.projectOid,
+        req.params.value,
+        req.body,
+        res
+      );
+    });
+  }
+  api.post("/status/id/:id", (req, res) => {
+    createStatus(req.params.id, req.body, res);
+  });
+  api.post("/status/:oid", (req, res) => {
+    createStatus(req.params.oid, req.body, res);
+  });
+
+  // -------------------------------------------------------------------------
+  // Partners
+  // -------------------------------------------------------------------------
+
+  const listPartners = (idOrOid: string, res: Response): void => {
+    const project = store.findProject(idOrOid);
+    if (!project) {
+      notFound(res, "Project");
+      return;
+    }
+    res.json(
+      [...store.partners.values()]
+        .filter((entry) => entry.projectOid === project.oid)
+        .map((entry) => entry.partner)
+    );
+  };
+  api.get("/partner/list/id/:id", (req, res) => {
+    listPartners(req.params.id, res);
+  });
+  api.get("/partner/list/:oid", (req, res) => {
+    listPartners(req.params.oid, res);
+  });
+  api.get("/partner/:oid", (req, res) => {
+    const entry = store.partners.get(req.params.oid);
+    if (entry) res.json(entry.partner);
+    else notFound(res, "Partner");
+  });
+
+  // -------------------------------------------------------------------------
+  // Documents, Sublists & Chats
+  // -------------------------------------------------------------------------
+
+  registerOwnedRoutes(api, store, "doc", "D", store.documents);
+  registerOwnedRoutes(api, store, "sublist", "S", store.sublists);
+  registerOwnedRoutes(api, store, "chat", "H", store.chats);
+
+  // -------------------------------------------------------------------------
+  // Storage
+  // -------------------------------------------------------------------------
+
+  api.get("/storage/list/:prefix", (req, res) => {
+    res.json(
+      [...store.storage.entries()]
+        .filter(([name]) => name.startsWith(req.params.prefix))
+        .map(([name, value]) => ({ name, value }))
+    );
+  });
+  api.get("/storage/:name", (req, res) => {
+    const { name } = req.params;
+    if (!store.storage.has(name)) {
+      notFound(res, "Storage entry");
+      return;
+    }
+    res.json({ name, value: store.storage.get(name) });
+  });
+  api.put("/storage/:name", (req, res) => {
+    const { name } = req.params;
+    const value = asRecord(req.body)["value"];
+    store.storage.set(name, value);
+    res.json({ name, value });
+  });
+  api.delete("/storage/:name", (req, res) => {
+    const { name } = req.params;
+    if (!store.storage.delete(name)) {
+      notFound(res, "Storage entry");
+      return;
+    }
+    res.json({ name });
+  });
+
+  // -------------------------------------------------------------------------
+  // Notifications
+  // -------------------------------------------------------------------------
+
+  api.post("/notification", (req, res) => {
+    const body = asRecord(req.body);
+    if (typeof body["message"] !== "string") {
+      badRequest(res, "message is required");
+      return;
+    }
+    store.notifications.push(body as { message: string });
+    res.json({ success: true });
+  });
+
+  api.use((_req, res) => {
+    notFound(res, "Endpoint");
+  });
+
+  app.use("/api", api);
+  return app;
+}
+
+/**
+ * Register create/get/list/update/delete routes for documents, sublists
+ * or chats. All three share the same URL layout under different prefixes.
+ */
+function registerOwnedRoutes<T extends QuireDocument>(
+  api: express.Router,
+  store: MockQuireStore,
+  prefix: "doc" | "sublist" | "chat",
+  oidPrefix: string,
+  collection: Map<string, MockOwned<T>>
+): void {
+  const label = prefix === "doc" ? "Document" : prefix;
+  const resolveOwner = (
+    ownerType: string,
+    idOrOid: string
+  ): { ownerType: MockOwnerType; ownerOid: string } | undefined => {
+    if (ownerType !== "organization" && ownerType !== "project") {
+      return undefined;
+    }
+    const owner = store.findOwner(ownerType, idOrOid);
+    return owner ? { ownerType, ownerOid: owner.oid } : undefined;
+  };
+  const respond = (entity: T | undefined, res: Response): void => {
+    if (entity) res.json(entity);
+    else notFound(res, label);
+  };
+  const update = (
+    entity: T | undefined,
+    body: unknown,
+    res: Response
+  ): void => {
+    if (entity) store.applyOwnedUpdate(entity, asRecord(body));
+    respond(entity, res);
+  };
+  const remove = (entity: T | undefined, res: Response): void => {
+    if (!entity) {
+      notFound(res, label);
+      return;
+    }
+    collection.delete(entity.oid);
+    res.json({ oid: entity.oid });
+  };
+  const findByOwner = (
+    ownerType: string,
+    ownerIdOrOid: string,
+    id: string
+  ): T | undefined => {
+    const owner = resolveOwner(ownerType, ownerIdOrOid);
+    return owner ? store.findOwned(collection, owner, id) : undefined;
+  };
+  const list = (ownerType: string, idOrOid: string, res: Response): void => {
+    const owner = resolveOwner(ownerType, idOrOid);
+    if (!owner) {
+      notFound(res, "Owner");
+      return;
+    }
+    res.json(
+      [...collection.values()]
+        .filter(
+          (entry) =>
+            entry.ownerType === owner.ownerType &&
+            entry.ownerOid === owner.ownerOid
+        )
+        .map((entry) => entry.entity)
+    );
+  };
+  const create = (
+    ownerType: string,
+    idOrOid: string,
+    body: unknown,
+    res: Response
+  ): void => {
+    const owner = resolveOwner(ownerType, idOrOid);
+    if (!owner) {
+      notFound(res, "Owner");
+      return;
+    }
+    const params = asRecord(body) as MockOwnedParams;
+    if (typeof params.name !== "string") {
+      badRequest(res, "name is required");
+      return;
+    }
+    res.json(
+      store.addOwned(collection, oidPrefix, owner.ownerType, owner.ownerOid, {
+        ...params,
+        name: params.name,
+      })
+    );
+  };
+
+  api.get(`/${prefix}/list/id/:type/:id`, (req, res) => {
+    list(req.params.type, req.params.id, res);
+  });
+  api.get(`/${prefix}/list/:type/:oid`, (req, res) => {
+    list(req.params.type, req.params.oid, res);
+  });
+  api.post(`/${prefix}/id/:type/:id`, (req, res) => {
+    create(req.params.type, req.params.id, req.body, res);
+  });
+  api.post(`/${prefix}/:type/:oid`, (req, res) => {
+    create(req.params.type, req.params.oid, req.body, res);
+  });
+
+  const byOwnerId = `/${prefix}/id/:type/:ownerId/:id`;
+  const byOwnerOid = `/${prefix}/:type/:ownerOid/:id`;
+  const ownerParams = (params: Record<string, unknown>): T | undefined =>
+    findByOwner(
+      String(params["type"]),
+      String(params["ownerId"] ?? params["ownerOid"]),
+      String(params["id"])
+    );
+  for (const path of [byOwnerId, byOwnerOid]) {
+    api.get(path, (req, res) => {
+      respond(ownerParams(req.params), res);
+    });
+    api.put(path, (req, res) => {
+      update(ownerParams(req.params), req.body, res);
+    });
+    api.delete(path, (req, res) => {
+      remove(ownerParams(req.params), res);
+    });
+  }
+  api.get(`/${prefix}/:oid`, (req, res) => {
+    respond(store.findOwned(collection, req.params.oid), res);
+  });
+  api.put(`/${prefix}/:oid`, (req, res) => {
+    update(store.findOwned(collection, req.params.oid), req.body, res);
+  });
+  api.delete(`/${prefix}/:oid`, (req, res) => {
+    remove(store.findOwned(collection, req.params.oid), res);
+  });
+}
+
+/**
+ * Start a mock Quire server on a local port
+ */
+export async function startMockQuireServer(
+  options?: MockQuireServerOptions
+): Promise<MockQuireServer> {
+  const accessToken = options?.accessToken ?? DEFAULT_ACCESS_TOKEN;
+  const state: MockAppState = {
+    store: options?.store ?? createDefaultMockStore(),
+    tokens: new Set([accessToken]),
+    refreshTokens: new Set(),
+    codes: new Set(),
+    requests: [],
+    failures: [],
+    issued: 0,
+  };
+  const app = createMockQuireApp(state);
+  const host = options?.host ?? "127.0.0.1";
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listener = app.listen(options?.port ?? 0, host, (error?: Error) => {
+      if (error) reject(error);
+      else resolve(listener);
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${host}:${port}`;
+
+  return {
+    url,
+    apiBaseUrl: `${url}/api`,
+    accessToken,
+    store: state.store,
+    requests: state.requests,
+    failNext(status, count = 1, retryAfterSeconds = 1) {
+      for (let i = 0; i < count; i++) {
+        state.failures.push({ status, retryAfterSeconds });
+      }
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => {
+          if (error) reject(error);
+          else resolve();
+        });
+        server.closeAllConnections();
+      });
+    },
+  };
+}
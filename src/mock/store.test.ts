@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  MockQuireStore,
+  createDefaultMockStore,
+  type MockTaskSearch,
+} from "./store.js";
+
+describe("MockQuireStore", () => {
+  let store: MockQuireStore;
+  let projectOid: string;
+
+  beforeEach(() => {
+    store = createDefaultMockStore();
+    projectOid = store.findProject("mock-project")?.oid ?? "";
+  });
+
+  describe("users", () => {
+    it("should treat the first user as the authenticated user", () => {
+      store.addUser({ id: "second", name: "Second" });
+
+      expect(store.me.id).toBe("mock_user");
+    });
+
+    it("should find users by OID, ID or email", () => {
+      const me = store.me;
+
+      expect(store.findUser(me.oid)).toBe(me);
+      expect(store.findUser("mock_user")).toBe(me);
+      expect(store.findUser("mock@example.com")).toBe(me);
+      expect(store.findUser("missing")).toBeUndefined();
+    });
+
+    it("should throw when no user exists", () => {
+      expect(() => new MockQuireStore().me).toThrow();
+    });
+  });
+
+  describe("default fixture", () => {
+    it("should contain a project with a task tree", () => {
+      const roots = store.children(projectOid, undefined);
+
+      expect(roots.map((t) => t.name)).toEqual(["Design", "Build"]);
+      expect(store.serializeTask(roots[0]!).childCount).toBe(1);
+      expect(store.serializeProject(store.projects.get(projectOid)!)).toEqual(
+        expect.objectContaining({ taskCount: 3, rootCount: 2 })
+      );
+    });
+
+    it("should generate OIDs that contain a dot", () => {
+      for (const oid of store.tasks.keys()) {
+        expect(oid).toContain(".");
+      }
+    });
+  });
+
+  describe("tasks", () => {
+    it("should assign sequential IDs per project", () => {
+      const task = store.addTask(projectOid, { name: "Next" });
+
+      expect(task.id).toBe(4);
+    });
+
+    it("should place tasks relative to a sibling", () => {
+      const [design] = store.children(projectOid, undefined);
+      store.addTask(
+        projectOid,
+        { name: "Before Design" },
+        { relativeTo: design!, placement: "before" }
+      );
+      store.addTask(
+        projectOid,
+        { name: "After Design" },
+        { relativeTo: design!, placement: "after" }
+      );
+
+      expect(store.children(projectOid, undefined).map((t) => t.name)).toEqual([
+        "Before Design",
+        "Design",
+        "After Design",
+        "Build",
+      ]);
+    });
+
+    it("should map priority, status, assignees and tags", () => {
+      const task = store.addTask(projectOid, {
+        name: "Mapped",
+        priority: 2,
+        status: 100,
+        assignees: ["mock_user"],
+        tags: [1],
+      });
+
+      expect(task.priority?.name).toBe("Urgent");
+      expect(task.status?.name).toBe("Completed");
+      expect(task.completedAt).toBeDefined();
+      expect(task.assignees?.map((a) => a.id)).toEqual(["mock_user"]);
+      expect(task.tags?.map((t) => t.name)).toEqual(["Bug"]);
+
+      store.applyTaskUpdate(task, {
+        status: 0,
+        removeAssignees: ["mock_user"],
+        addTags: [2],
+        removeTags: [1],
+      });
+
+      expect(task.completedAt).toBeUndefined();
+      expect(task.assignees).toEqual([]);
+      expect(task.tags?.map((t) => t.name)).toEqual(["Feature"]);
+    });
+
+    it("should delete descendants with their parent", () => {
+      const [design] = store.children(projectOid, undefined);
+      store.deleteTask(design!);
+
+      expect(store.projectTasks(projectOid).map((t) => t.name)).toEqual([
+        "Build",
+      ]);
+    });
+
+    it("should search by keyword and filters", () => {
+      const build = store.children(projectOid, undefined)[1]!;
+      store.applyTaskUpdate(build, { priority: 1, tags: [2] });
+
+      expect(
+        store.searchTasks([projectOid], { keyword: "wire" }).map((t) => t.name)
+      ).toEqual(["Wireframes"]);
+      expect(
+        store
+          .searchTasks([projectOid], { keyword: "", priority: 1, tag: 2 })
+          .map((t) => t.name)
+      ).toEqual(["Build"]);
+      expect(
+        store.searchTasks([projectOid], { keyword: "", assignee: "mock_user" })
+      ).toEqual([]);
+    });
+  });
+
+  describe("edge cases", () => {
+    it("should reject tasks for unknown projects", () => {
+      expect(() => store.addTask("nope.x", { name: "Lost" })).toThrow();
+    });
+
+    it("should fall back for unknown priorities and statuses", () => {
+      const task = store.addTask(projectOid, {
+        name: "Odd",
+        priority: 7,
+        status: 150,
+      });
+
+      expect(task.priority?.name).toBe("Medium");
+      expect(task.status?.name).toBe("Completed");
+
+      store.applyTaskUpdate(task, { status: 20 });
+      expect(task.status?.name).toBe("To-Do");
+    });
+
+    it("should ignore unknown assignees and tags", () => {
+      const second = store.addUser({ id: "second", name: "Second" });
+      const task = store.addTask(projectOid, {
+        name: "People",
+        assignees: ["ghost", "mock_user", second.oid],
+        tags: [99],
+      });
+
+      expect(task.assignees?.map((a) => a.id)).toEqual(["mock_user", "second"]);
+      expect(task.tags).toBeUndefined();
+
+      store.applyTaskUpdate(task, {
+        addAssignees: ["mock_user"],
+        removeAssignees: [second.oid, "ghost"],
+      });
+      expect(task.assignees?.map((a) => a.id)).toEqual(["mock_user"]);
+    });
+
+    it("should apply status, priority and assignee search filters", () => {
+      const task = store.addTask(projectOid, {
+        name: "Filtered",
+        status: 100,
+        priority: -1,
+        assignees: ["mock_user"],
+      });
+
+      const names = (filters: MockTaskSearch): string[] =>
+        store.searchTasks([projectOid], filters).map((t) => t.name);
+
+      expect(names({ keyword: "", status: 100 })).toEqual([task.name]);
+      expect(names({ keyword: "", priority: -1 })).toEqual([task.name]);
+      expect(names({ keyword: "", assignee: "mock_user" })).toEqual([
+        task.name,
+      ]);
+      expect(names({ keyword: "", tag: 1 })).toEqual([]);
+    });
+
+    it("should resolve organization owners and generate IDs", () => {
+      const orgOid = store.findOrganization("mock-org")?.oid ?? "";
+      const sublist = store.addOwned(
+        store.sublists,
+        "S",
+        "organization",
+        orgOid,
+        { name: "Backlog" }
+      );
+
+      expect(sublist.owner?.id).toBe("mock-org");
+      expect(sublist.id).toContain("s");
+      expect(
+        store.findOwned(
+          store.sublists,
+          { ownerType: "organization", ownerOid: orgOid },
+          "missing"
+        )
+      ).toBeUndefined();
+    });
+
+    it("should create projects outside organizations", () => {
+      const empty = new MockQuireStore();
+      const project = empty.addProject({ id: "solo", name: "Solo" });
+
+      expect(project.organization).toBeUndefined();
+      expect(empty.members.get(project.oid)).toEqual([]);
+    });
+  });
+
+  describe("documents, sublists and chats", () => {
+    it("should create and find owned entities", () => {
+      const doc = store.addOwned(store.documents, "D", "project", projectOid, {
+        name: "Spec",
+        id: "spec",
+      });
+
+      expect(store.findOwned(store.documents, doc.oid)).toBe(doc);
+      expect(
+        store.findOwned(
+          store.documents,
+          { ownerType: "project", ownerOid: projectOid },
+          "spec"
+        )
+      ).toBe(doc);
+
+      store.applyOwnedUpdate(doc, { archived: true });
+      expect(doc.archivedAt).toBeDefined();
+      store.applyOwnedUpdate(doc, { archived: false });
+      expect(doc.archivedAt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,703 @@
+/**
+ * Mock Quire Store
+ *
+ * In-memory data model backing the mock Quire server. Holds users,
+ * organizations, projects, tasks, tags, statuses, comments, documents,
+ * sublists, chats, storage entries and attachments, and implements the
+ * small amount of behaviour the API exposes (task hierarchy, ordering,
+ * search, status/priority/tag mapping).
+ *
+ * IDs and OIDs are deterministic so tests can assert on them. OIDs always
+ * contain a dot, which keeps them distinguishable from IDs for `isOid()`.
+ */
+
+import type {
+  QuireUser,
+  QuireSimpleUser,
+  QuireOrganization,
+  QuireProject,
+  QuireTask,
+  QuireTag,
+  QuireComment,
+  QuireStatus,
+  QuirePartner,
+  QuireDocument,
+  QuireSublist,
+  QuireChat,
+  QuireAttachment,
+  CreateTaskParams,
+  UpdateTaskParams,
+  CreateTagParams,
+  UpdateTagParams,
+  CreateStatusParams,
+  UpdateStatusParams,
+  SendNotificationParams,
+} from "../quire/types.js";
+
+export type MockOwnerType = "organization" | "project";
+
+/**
+ * An entity owned by an organization or project (document, sublist, chat)
+ */
+export interface MockOwned<T> {
+  ownerType: MockOwnerType;
+  ownerOid: string;
+  entity: T;
+}
+
+/**
+ * Fields accepted when creating or updating documents, sublists and chats
+ */
+export interface MockOwnedParams {
+  name?: string;
+  id?: string;
+  description?: string;
+  iconColor?: string;
+  image?: string;
+  start?: string;
+  due?: string;
+  archived?: boolean;
+}
+
+/**
+ * Filters supported by the task search endpoints
+ */
+export interface MockTaskSearch {
+  keyword: string;
+  status?: number;
+  priority?: number;
+  assignee?: string;
+  tag?: number;
+}
+
+/** Priority names by value, as returned by Quire */
+const PRIORITY_NAMES: Record<string, string> = {
+  "-1": "Low",
+  "0": "Medium",
+  "1": "High",
+  "2": "Urgent",
+};
+
+/** Status value Quire treats as complete */
+const COMPLETED_STATUS = 100;
+
+/** Statuses every new mock project starts with */
+const DEFAULT_STATUSES: QuireStatus[] = [
+  { value: 0, name: "To-Do", nameText: "To-Do", color: "35" },
+  { value: COMPLETED_STATUS, name: "Completed", nameText: "Completed" },
+];
+
+/**
+ * In-memory Quire data store
+ */
+export class MockQuireStore {
+  readonly users = new Map<string, QuireUser>();
+  readonly organizations = new Map<string, QuireOrganization>();
+  readonly projects = new Map<string, QuireProject>();
+  readonly tasks = new Map<string, QuireTask>();
+  readonly tags = new Map<string, { projectOid: string; tag: QuireTag }>();
+  readonly statuses = new Map<string, QuireStatus[]>();
+  readonly members = new Map<string, string[]>();
+  readonly comments = new Map<
+    string,
+    { ownerOid: string; comment: QuireComment }
+  >();
+  readonly partners = new Map<
+    string,
+    { projectOid: string; partner: QuirePartner }
+  >();
+  readonly documents = new Map<string, MockOwned<QuireDocument>>();
+  readonly sublists = new Map<string, MockOwned<QuireSublist>>();
+  readonly chats = new Map<string, MockOwned<QuireChat>>();
+  readonly storage = new Map<string, unknown>();
+  readonly attachments: { ownerOid: string; attachment: QuireAttachment }[] =
+    [];
+  readonly notifications: SendNotificationParams[] = [];
+
+  private readonly nextTaskId = new Map<string, number>();
+  private nextTagId = 1;
+  private counter = 0;
+  private meOid: string | undefined;
+
+  /**
+   * Generate a deterministic OID (always contains a dot)
+   */
+  nextOid(prefix: string): string {
+    this.counter += 1;
+    return `${prefix}${this.counter}.mock`;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Users
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Add a user. The first user added becomes the authenticated user.
+   */
+  addUser(user: { id: string; name: string; email?: string }): QuireUser {
+    const oid = this.nextOid("U");
+    const created: QuireUser = {
+      ...user,
+      oid,
+      nameText: user.name,
+      url: `https://quire.io/u/${user.id}`,
+    };
+    this.users.set(oid, created);
+    this.meOid ??= oid;
+    return created;
+  }
+
+  /**
+   * The authenticated user
+   */
+  get me(): QuireUser {
+    const me = this.meOid ? this.users.get(this.meOid) : undefined;
+    if (!me) {
+      throw new Error("Mock store has no users");
+    }
+    return me;
+  }
+
+  /**
+   * Find a user by OID, ID or email
+   */
+  findUser(idOidOrEmail: string): QuireUser | undefined {
+    const byOid = this.users.get(idOidOrEmail);
+    if (byOid) return byOid;
+    for (const user of this.users.values()) {
+      if (user.id === idOidOrEmail || user.email === idOidOrEmail) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  toSimpleUser(user: QuireUser): QuireSimpleUser {
+    return { id: user.id, oid: user.oid, name: user.name };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Organizations & Projects
+  // ---------------------------------------------------------------------------
+
+  addOrganization(org: { id: string; name: string }): QuireOrganization {
+    const oid = this.nextOid("O");
+    const created: QuireOrganization = {
+      ...org,
+      oid,
+      nameText: org.name,
+      url: `https://quire.io/c/${org.id}`,
+    };
+    this.organizations.set(oid, created);
+    return created;
+  }
+
+  findOrganization(idOrOid: string): QuireOrganization | undefined {
+    return (
+      this.organizations.get(idOrOid) ??
+      [...this.organizations.values()].find((o) => o.id === idOrOid)
+    );
+  }
+
+  /**
+   * Add a project with the default statuses and the authenticated user
+   * as its only member.
+   */
+  addProject(project: {
+    id: string;
+    name: string;
+    organizationOid?: string;
+    description?: string;
+  }): QuireProject {
+    const oid = this.nextOid("P");
+    const { organizationOid, ...fields } = project;
+    const created: QuireProject = {
+      ...fields,
+      oid,
+      nameText: project.name,
+      url: `https://quire.io/w/${project.id}`,
+    };
+    const org = organizationOid
+      ? this.organizations.get(organizationOid)
+      : undefined;
+    if (org) {
+      created.organization = {
+        oid: org.oid,
+        id: org.id,
+        name: org.name,
+        nameText: org.name,
+      };
+    }
+    this.projects.set(oid, created);
+    this.statuses.set(
+      oid,
+      DEFAULT_STATUSES.map((s) => ({ ...s }))
+    );
+    this.members.set(oid, this.meOid ? [this.meOid] : []);
+    this.nextTaskId.set(oid, 1);
+    return created;
+  }
+
+  findProject(idOrOid: string): QuireProject | undefined {
+    return (
+      this.projects.get(idOrOid) ??
+      [...this.projects.values()].find((p) => p.id === idOrOid)
+    );
+  }
+
+  /**
+   * Serialize a project with computed task counts
+   */
+  serializeProject(project: QuireProject): QuireProject {
+    const tasks = this.projectTasks(project.oid);
+    return {
+      ...project,
+      taskCount: tasks.length,
+      rootCount: tasks.filter((t) => !t.parent).length,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tasks
+  // ---------------------------------------------------------------------------
+
+  /**
+   * All tasks in a project, in no particular order
+   */
+  projectTasks(projectOid: string): QuireTask[] {
+    return [...this.tasks.values()].filter(
+      (t) => t.project?.oid === projectOid
+    );
+  }
+
+  /**
+   * Direct children of a task, or root tasks when parentOid is undefined
+   */
+  children(projectOid: string, parentOid: string | undefined): QuireTask[] {
+    return this.projectTasks(projectOid)
+      .filter((t) => t.parent?.oid === parentOid)
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+
+  findTaskById(projectOid: string, id: number): QuireTask | undefined {
+    return this.projectTasks(projectOid).find((t) => t.id === id);
+  }
+
+  /**
+   * Serialize a task with its computed child count
+   */
+  serializeTask(task: QuireTask): QuireTask {
+    const projectOid = task.project?.oid ?? "";
+    return {
+      ...task,
+      childCount: this.children(projectOid, task.oid).length,
+    };
+  }
+
+  /**
+   * Create a task in a project, optionally as a subtask.
+   * When `position` is given, the task is placed relative to that sibling.
+   */
+  addTask(
+    projectOid: string,
+    params: CreateTaskParams & { parentOid?: string },
+    position?: { relativeTo: QuireTask; placement: "after" | "before" }
+  ): QuireTask {
+    const project = this.projects.get(projectOid);
+    if (!project) {
+      throw new Error(`Unknown project: ${projectOid}`);
+    }
+    const id = this.nextTaskId.get(projectOid) ?? 1;
+    this.nextTaskId.set(projectOid, id + 1);
+
+    const parent = params.parentOid
+      ? this.tasks.get(params.parentOid)
+      : undefined;
+    const task: QuireTask = {
+      oid: this.nextOid("T"),
+      id,
+      name: params.name,
+      nameText: params.name,
+      url: `https://quire.io/w/${project.id}?t=${id}`,
+      project: {
+        oid: project.oid,
+        id: project.id,
+        name: project.name,
+        nameText: project.name,
+      },
+      createdAt: new Date().toISOString(),
+      createdBy: this.toSimpleUser(this.me),
+    };
+    if (parent) {
+      task.parent = { oid: parent.oid, id: parent.id };
+    }
+
+    const siblings = this.children(projectOid, parent?.oid);
+    let index = siblings.length;
+    if (position) {
+      const refIndex = siblings.findIndex(
+        (s) => s.oid === position.relativeTo.oid
+      );
+      index = position.placement === "after" ? refIndex + 1 : refIndex;
+    }
+    siblings.splice(index, 0, task);
+    siblings.forEach((sibling, order) => {
+      sibling.order = order;
+    });
+
+    this.tasks.set(task.oid, task);
+    const { name: _name, parentOid: _parentOid, ...rest } = params;
+    this.applyTaskUpdate(task, rest);
+    return task;
+  }
+
+  /**
+   * Apply update parameters to a task in place
+   */
+  applyTaskUpdate(task: QuireTask, params: UpdateTaskParams): void {
+    const projectOid = task.project?.oid ?? "";
+
+    if (params.name !== undefined) {
+      task.name = params.name;
+      task.nameText = params.name;
+    }
+    if (params.description !== undefined) {
+      task.description = params.description;
+      task.descriptionText = params.description;
+    }
+    if (params.priority !== undefined) {
+      const name = PRIORITY_NAMES[String(params.priority)] ?? "Medium";
+      task.priority = { value: params.priority, name, nameText: name };
+    }
+    if (params.status !== undefined) {
+      const status = this.statuses
+        .get(projectOid)
+        ?.find((s) => s.value === params.status);
+      const name =
+        status?.name ??
+        (params.status >= COMPLETED_STATUS ? "Completed" : "To-Do");
+      task.status = { value: params.status, name, nameText: name };
+      if (params.status >= COMPLETED_STATUS) {
+        task.completedAt ??= new Date().toISOString();
+        task.completedBy ??= this.toSimpleUser(this.me);
+      } else {
+        delete task.completedAt;
+        delete task.completedBy;
+      }
+    }
+    if (params.due !== undefined) task.due = params.due;
+    if (params.start !== undefined) task.start = params.start;
+
+    let assignees = (task.assignees ?? []).map((a) => a.id);
+    if (params.assignees !== undefined) assignees = [...params.assignees];
+    if (params.addAssignees) assignees.push(...params.addAssignees);
+    if (params.removeAssignees) {
+      const removed = params.removeAssignees;
+      assignees = assignees.filter((a) => {
+        const user = this.findUser(a);
+        return !removed.some((r) => r === a || r === user?.oid);
+      });
+    }
+    const resolvedAssignees = [
+      ...new Map(
+        assignees
+          .map((a) => this.findUser(a))
+          .filter((u): u is QuireUser => u !== undefined)
+          .map((u) => [u.oid, this.toSimpleUser(u)])
+      ).values(),
+    ];
+    if (resolvedAssignees.length > 0 || task.assignees) {
+      task.assignees = resolvedAssignees;
+    }
+
+    let tagIds = (task.tags ?? []).map((t) => t.id);
+    if (params.tags !== undefined) tagIds = [...params.tags];
+    if (params.addTags) tagIds.push(...params.addTags);
+    if (params.removeTags) {
+      const removed = params.removeTags;
+      tagIds = tagIds.filter((t) => !removed.includes(t));
+    }
+    const projectTags = this.projectTags(projectOid);
+    const resolvedTags = [...new Set(tagIds)]
+      .map((id) => projectTags.find((t) => t.id === id))
+      .filter((t): t is QuireTag => t !== undefined)
+      .map((t) => {
+        const ref: NonNullable<QuireTask["tags"]>[number] = {
+          id: t.id ?? 0,
+          name: t.name,
+          nameText: t.name,
+        };
+        if (t.color) ref.color = t.color;
+        return ref;
+      });
+    if (resolvedTags.length > 0 || task.tags) {
+      task.tags = resolvedTags;
+    }
+  }
+
+  /**
+   * Delete a task and all of its descendants
+   */
+  deleteTask(task: QuireTask): void {
+    const projectOid = task.project?.oid ?? "";
+    for (const child of this.children(projectOid, task.oid)) {
+      this.deleteTask(child);
+    }
+    this.tasks.delete(task.oid);
+  }
+
+  /**
+   * Search tasks across the given projects
+   */
+  searchTasks(projectOids: string[], filters: MockTaskSearch): QuireTask[] {
+    const keyword = filters.keyword.toLowerCase();
+    return projectOids
+      .flatMap((oid) => this.projectTasks(oid))
+      .filter((task) => {
+        const text = `${task.name} ${task.description ?? ""}`.toLowerCase();
+        if (keyword && !text.includes(keyword)) return false;
+        if (
+          filters.status !== undefined &&
+          (task.status?.value ?? 0) !== filters.status
+        ) {
+          return false;
+        }
+        if (
+          filters.priority !== undefined &&
+          (task.priority?.value ?? 0) !== filters.priority
+        ) {
+          return false;
+        }
+        if (
+          filters.assignee !== undefined &&
+          !task.assignees?.some(
+            (a) => a.id === filters.assignee || a.oid === filters.assignee
+          )
+        ) {
+          return false;
+        }
+        if (
+          filters.tag !== undefined &&
+          !task.tags?.some((t) => t.id === filters.tag)
+        ) {
+          return false;
+        }
+        return true;
+      })
+      .map((task) => this.serializeTask(task));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tags & Statuses
+  // ---------------------------------------------------------------------------
+
+  projectTags(projectOid: string): QuireTag[] {
+    return [...this.tags.values()]
+      .filter((entry) => entry.projectOid === projectOid)
+      .map((entry) => entry.tag);
+  }
+
+  addTag(projectOid: string, params: CreateTagParams): QuireTag {
+    const tag: QuireTag = {
+      oid: this.nextOid("G"),
+      id: this.nextTagId,
+      name: params.name,
+      nameText: params.name,
+    };
+    this.nextTagId += 1;
+    if (params.color !== undefined) tag.color = params.color;
+    if (params.global !== undefined) tag.global = params.global;
+    this.tags.set(tag.oid, { projectOid, tag });
+    return tag;
+  }
+
+  updateTag(tag: QuireTag, params: UpdateTagParams): void {
+    if (params.name !== undefined) {
+      tag.name = params.name;
+      tag.nameText = params.name;
+    }
+    if (params.color !== undefined) tag.color = params.color;
+    if (params.global !== undefined) tag.global = params.global;
+  }
+
+  addStatus(projectOid: string, params: CreateStatusParams): QuireStatus {
+    const status: QuireStatus = {
+      value: params.value,
+      name: params.name,
+      nameText: params.name,
+    };
+    if (params.color !== undefined) status.color = params.color;
+    const list = this.statuses.get(projectOid) ?? [];
+    list.push(status);
+    list.sort((a, b) => a.value - b.value);
+    this.statuses.set(projectOid, list);
+    return status;
+  }
+
+  updateStatus(status: QuireStatus, params: UpdateStatusParams): void {
+    if (params.name !== undefined) {
+      status.name = params.name;
+      status.nameText = params.name;
+    }
+    if (params.value !== undefined) status.value = params.value;
+    if (params.color !== undefined) status.color = params.color;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Comments
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Add a comment to a task or chat
+   */
+  addComment(ownerOid: string, description: string): QuireComment {
+    const comment: QuireComment = {
+      oid: this.nextOid("C"),
+      description,
+      descriptionText: description,
+      createdAt: new Date().toISOString(),
+      createdBy: this.toSimpleUser(this.me),
+    };
+    this.comments.set(comment.oid, { ownerOid, comment });
+    return comment;
+  }
+
+  commentsFor(ownerOid: string): QuireComment[] {
+    return [...this.comments.values()]
+      .filter((entry) => entry.ownerOid === ownerOid)
+      .map((entry) => entry.comment);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Partners
+  // ---------------------------------------------------------------------------
+
+  addPartner(projectOid: string, name: string): QuirePartner {
+    const partner: QuirePartner = { oid: this.nextOid("X"), name };
+    this.partners.set(partner.oid, { projectOid, partner });
+    return partner;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Documents, Sublists & Chats
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Resolve an owner (organization or project) by ID or OID
+   */
+  findOwner(
+    ownerType: MockOwnerType,
+    idOrOid: string
+  ): { oid: string; id: string; name: string } | undefined {
+    return ownerType === "organization"
+      ? this.findOrganization(idOrOid)
+      : this.findProject(idOrOid);
+  }
+
+  /**
+   * Create a document, sublist or chat for an owner
+   */
+  addOwned<T extends QuireDocument | QuireSublist | QuireChat>(
+    collection: Map<string, MockOwned<T>>,
+    prefix: string,
+    ownerType: MockOwnerType,
+    ownerOid: string,
+    params: MockOwnedParams & { name: string }
+  ): T {
+    const owner = this.findOwner(ownerType, ownerOid);
+    const oid = this.nextOid(prefix);
+    const entity = {
+      oid,
+      id: params.id ?? oid.replace(".mock", "").toLowerCase(),
+      name: params.name,
+      nameText: params.name,
+      createdAt: new Date().toISOString(),
+      createdBy: this.toSimpleUser(this.me),
+      owner: {
+        type: ownerType,
+        oid: ownerOid,
+        id: owner?.id ?? ownerOid,
+        name: owner?.name ?? ownerOid,
+      },
+    } as T;
+    this.applyOwnedUpdate(entity, params);
+    collection.set(oid, { ownerType, ownerOid, entity });
+    return entity;
+  }
+
+  /**
+   * Apply update parameters to a document, sublist or chat in place
+   */
+  applyOwnedUpdate(
+    entity: QuireDocument | QuireSublist | QuireChat,
+    params: MockOwnedParams
+  ): void {
+    if (params.name !== undefined) {
+      entity.name = params.name;
+      entity.nameText = params.name;
+    }
+    if (params.id !== undefined) entity.id = params.id;
+    if (params.description !== undefined) {
+      entity.description = params.description;
+      entity.descriptionText = params.description;
+    }
+    if (params.iconColor !== undefined) entity.iconColor = params.iconColor;
+    if (params.image !== undefined) entity.image = params.image;
+    if (params.start !== undefined) entity.start = params.start;
+    if (params.due !== undefined) entity.due = params.due;
+    if (params.archived === true) {
+      entity.archivedAt = new Date().toISOString();
+    } else if (params.archived === false) {
+      delete entity.archivedAt;
+    }
+  }
+
+  /**
+   * Find a document, sublist or chat by OID, or by owner and ID
+   */
+  findOwned<T extends { oid: string; id: string }>(
+    collection: Map<string, MockOwned<T>>,
+    oidOrOwner: string | { ownerType: MockOwnerType; ownerOid: string },
+    id?: string
+  ): T | undefined {
+    if (typeof oidOrOwner === "string") {
+      return collection.get(oidOrOwner)?.entity;
+    }
+    for (const entry of collection.values()) {
+      if (
+        entry.ownerType === oidOrOwner.ownerType &&
+        entry.ownerOid === oidOrOwner.ownerOid &&
+        entry.entity.id === id
+      ) {
+        return entry.entity;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Create a store populated with a small default fixture:
+ * one user, one organization, and one project with tags and a task tree.
+ */
+export function createDefaultMockStore(): MockQuireStore {
+  const store = new MockQuireStore();
+  store.addUser({
+    id: "mock_user",
+    name: "Mock User",
+    email: "mock@example.com",
+  });
+  const org = store.addOrganization({ id: "mock-org", name: "Mock Org" });
+  const project = store.addProject({
+    id: "mock-project",
+    name: "Mock Project",
+    organizationOid: org.oid,
+  });
+  store.addTag(project.oid, { name: "Bug", color: "red" });
+  store.addTag(project.oid, { name: "Feature", color: "green" });
+
+  const design = store.addTask(project.oid, { name: "Design" });
+  store.addTask(project.oid, { name: "Wireframes", parentOid: design.oid });
+  store.addTask(project.oid, { name: "Build" });
+  return store;
+}
@@ -24,7 +24,8 @@ import {
   type QuireTokenData,
 } from "./oauth.js";
 import { clearTokens, loadTokens, saveTokens } from "./token-store.js";
-import { QUIRE_API_BASE_URL, FETCH_TIMEOUT_MS } from "../constants.js";
+import { FETCH_TIMEOUT_MS } from "../constants.js";
+import { getQuireApiBaseUrl } from "./endpoints.js";
 import { escapeHtml } from "../utils/html.js";
 
 // ---------------------------------------------------------------------------
@@ -68,7 +69,7 @@ async function verifyToken(token: string): Promise<boolean> {
     }, FETCH_TIMEOUT_MS);
     /* v8 ignore stop */
 
-    const response = await fetch(`${QUIRE_API_BASE_URL}/user/id/me`, {
+    const response = await fetch(`${getQuireApiBaseUrl()}/user/id/me`, {
       method: "GET",
       headers: {
         Authorization: `Bearer ${token}`,
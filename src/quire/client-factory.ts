@@ -10,7 +10,11 @@ import type {
   ServerRequest,
   ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
-import { QuireClient, createClientFromAuth } from "./client.js";
+import {
+  type QuireClient,
+  createClientForToken,
+  createClientFromAuth,
+} from "./client.js";
 
 /**
  * Result type for getQuireClient - allows callers to handle errors gracefully
@@ -35,7 +39,7 @@ export async function getQuireClient(
   const quireToken = extra.authInfo?.extra?.["quireToken"];
 
   if (typeof quireToken === "string" && quireToken.length > 0) {
-    return { success: true, client: new QuireClient({ token: quireToken }) };
+    return { success: true, client: createClientForToken(quireToken) };
   }
 
   // Fallback to stdio mode auth (env var or interactive OAuth)
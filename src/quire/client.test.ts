@@ -1,10 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   QuireClient,
+  createClientForToken,
   createClientFromEnv,
   createClientFromAuth as _createClientFromAuth,
 } from "./client.js";
 import { QuireClientError } from "./types.js";
+import { QuireRateLimiter } from "./rate-limiter.js";
+import {
+  QuireResponseCache,
+  clearSharedResponseCaches,
+} from "./response-cache.js";
+import {
+  RequestCoalescer,
+  clearSharedRequestCoalescers,
+} from "./request-coalescer.js";
 
 // Helper to create mock responses
 function mockResponse(body: unknown, status = 200): Response {
@@ -38,6 +48,444 @@ describe("QuireClient", () => {
     });
   });
 
+  describe("rate limiting", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.stubGlobal("fetch", vi.fn());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    it("should return undefined budget without a rate limiter", () => {
+      const client = new QuireClient({ token: "test-token" });
+      expect(client.getRateLimitBudget()).toBeUndefined();
+    });
+
+    it("should report the rate limiter's budget", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse({ id: "u", oid: "o", name: "User" }))
+      );
+      const rateLimiter = new QuireRateLimiter({
+        windows: [{ limit: 5, windowMs: 60_000 }],
+      });
+      const client = new QuireClient({ token: "test-token", rateLimiter });
+
+      await client.getMe();
+
+      expect(client.getRateLimitBudget()?.windows[0]?.remaining).toBe(4);
+    });
+
+    it("should queue requests until budget is available", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse({ id: "u", oid: "o", name: "User" }))
+      );
+      const rateLimiter = new QuireRateLimiter({
+        windows: [{ limit: 1, windowMs: 60_000 }],
+      });
+      const client = new QuireClient({ token: "test-token", rateLimiter });
+
+      await client.getMe();
+      const pending = client.getMe();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      const result = await pending;
+
+      expect(result.success).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share budget between clients using the same limiter", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse({ id: "u", oid: "o", name: "User" }))
+      );
+      const rateLimiter = new QuireRateLimiter({
+        windows: [{ limit: 2, windowMs: 60_000 }],
+      });
+      const first = new QuireClient({ token: "test-token", rateLimiter });
+      const second = new QuireClient({ token: "test-token", rateLimiter });
+
+      await first.getMe();
+      await second.getMe();
+
+      expect(first.getRateLimitBudget()?.windows[0]?.remaining).toBe(0);
+    });
+
+    it("should throttle CSV exports and attachment uploads", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockTextResponse("a,b"))
+        .mockResolvedValueOnce(
+          mockResponse({ name: "f.txt", length: 1, url: "https://x" })
+        )
+        .mockResolvedValueOnce(
+          mockResponse({ name: "f.txt", length: 1, url: "https://x" })
+        );
+      const rateLimiter = new QuireRateLimiter({
+        windows: [{ limit: 10, windowMs: 60_000 }],
+      });
+      const client = new QuireClient({ token: "test-token", rateLimiter });
+
+      await client.exportProject("my-project", "csv");
+      await client.uploadTaskAttachment("TaskOid.x", "f.txt", "x");
+      await client.uploadCommentAttachment("CommentOid.x", "f.txt", "x");
+
+      expect(client.getRateLimitBudget()?.windows[0]?.remaining).toBe(7);
+    });
+  });
+
+  describe("response caching", () => {
+    const project = { id: "my-project", oid: "ProjOid", name: "Project" };
+    const tag = { id: 1, oid: "TagOid", name: "urgent" };
+
+    beforeEach(() => {
+      vi.stubGlobal("fetch", vi.fn());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should not cache without a response cache", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse(project))
+      );
+      const client = new QuireClient({ token: "test-token" });
+
+      await client.getProject("my-project");
+      await client.getProject("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(client.getCacheStats()).toBeUndefined();
+    });
+
+    it("should serve repeated reads from the cache", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse(project))
+      );
+      const cache = new QuireResponseCache();
+      const client = new QuireClient({ token: "test-token", cache });
+
+      const first = await client.getProject("my-project");
+      const second = await client.getProject("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+      expect(client.getCacheStats()?.resources.project).toMatchObject({
+        hits: 1,
+        misses: 1,
+        entries: 1,
+      });
+    });
+
+    it("should not cache failed reads", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse({ message: "Not found" }, 404))
+        .mockResolvedValueOnce(mockResponse(project));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      expect((await client.getProject("my-project")).success).toBe(false);
+      expect((await client.getProject("my-project")).success).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should bypass and refresh the cache for fresh reads", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse(project))
+        .mockResolvedValueOnce(mockResponse({ ...project, name: "Renamed" }));
+      const cache = new QuireResponseCache();
+      const client = new QuireClient({ token: "test-token", cache });
+
+      await client.getProject("my-project");
+      const fresh = await client.fresh().getProject("my-project");
+      const cached = await client.getProject("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fresh.success && fresh.data.name).toBe("Renamed");
+      expect(cached.success && cached.data.name).toBe("Renamed");
+      expect(cache.getStats().bypassed).toBe(1);
+    });
+
+    it("should invalidate cached tags after a tag write", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse([tag]))
+        .mockResolvedValueOnce(mockResponse({ ...tag, oid: "NewOid" }))
+        .mockResolvedValueOnce(mockResponse([tag, { ...tag, oid: "NewOid" }]));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      await client.listTags("my-project");
+      await client.createTag("my-project", { name: "urgent" });
+      const tags = await client.listTags("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(tags.success && tags.data).toHaveLength(2);
+    });
+
+    it("should not cache reads answered before a write in flight", async () => {
+      let answerRead = (): void => undefined;
+      vi.mocked(fetch)
+        .mockImplementationOnce(
+          () =>
+            new Promise((resolve) => {
+              answerRead = () => {
+                resolve(mockResponse([tag]));
+              };
+            })
+        )
+        .mockResolvedValueOnce(mockResponse({ ...tag, oid: "NewOid" }))
+        .mockResolvedValueOnce(mockResponse([tag, { ...tag, oid: "NewOid" }]));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      const read = client.listTags("my-project");
+      await client.createTag("my-project", { name: "urgent" });
+      answerRead();
+      await read;
+      const tags = await client.listTags("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(tags.success && tags.data).toHaveLength(2);
+    });
+
+    it("should invalidate after failed writes", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse([{ value: 0, name: "To-Do" }]))
+        .mockResolvedValueOnce(mockResponse({ message: "Forbidden" }, 403))
+        .mockResolvedValueOnce(mockResponse([{ value: 0, name: "To-Do" }]));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      await client.listStatuses("my-project");
+      await client.deleteStatus("my-project", 0);
+      await client.listStatuses("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it.each<[string, (client: QuireClient) => Promise<unknown>]>([
+      [
+        "uploadTaskAttachment",
+        (client) => client.uploadTaskAttachment("TaskOid.x", "f.txt", "x"),
+      ],
+      [
+        "uploadCommentAttachment",
+        (client) =>
+          client.uploadCommentAttachment("CommentOid.x", "f.txt", "x"),
+      ],
+      [
+        "addTaskComment",
+        (client) => client.addTaskComment("TaskOid.x", { description: "Hi" }),
+      ],
+      [
+        "addTaskComment by task ID",
+        (client) =>
+          client.addTaskComment("my-project", 1, { description: "Hi" }),
+      ],
+      [
+        "updateComment",
+        (client) => client.updateComment("CommentOid.x", { description: "Hi" }),
+      ],
+      ["deleteComment", (client) => client.deleteComment("CommentOid.x")],
+    ])("should invalidate cached tasks after %s", async (_, write) => {
+      const task = { id: 1, oid: "TaskOid.x", name: "Task" };
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse(task))
+        .mockResolvedValueOnce(
+          mockResponse({ name: "f.txt", length: 1, url: "https://x" })
+        )
+        .mockResolvedValueOnce(mockResponse(task));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      await client.getTask("TaskOid.x");
+      await write(client);
+      await client.getTask("TaskOid.x");
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should invalidate cached tasks after a failed attachment upload", async () => {
+      const task = { id: 1, oid: "TaskOid.x", name: "Task" };
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse(task))
+        .mockRejectedValueOnce(new Error("socket hang up"))
+        .mockResolvedValueOnce(mockResponse(task));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      await client.getTask("TaskOid.x");
+      const upload = await client.uploadTaskAttachment("TaskOid.x", "f", "x");
+      await client.getTask("TaskOid.x");
+
+      expect(upload.success).toBe(false);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should leave other resources cached after a write", async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockResponse(project))
+        .mockResolvedValueOnce(mockResponse(tag));
+      const client = new QuireClient({
+        token: "test-token",
+        cache: new QuireResponseCache(),
+      });
+
+      await client.getProject("my-project");
+      await client.updateTag("TagOid", { name: "later" });
+      await client.getProject("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("request coalescing", () => {
+    const project = { id: "my-project", oid: "ProjOid", name: "Project" };
+
+    beforeEach(() => {
+      vi.stubGlobal("fetch", vi.fn());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should share one fetch between identical concurrent GETs", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse(project))
+      );
+      const coalescer = new RequestCoalescer();
+      const client = new QuireClient({ token: "test-token", coalescer });
+      const other = new QuireClient({ token: "test-token", coalescer });
+
+      const [first, second] = await Promise.all([
+        client.getProject("my-project"),
+        other.getProject("my-project"),
+      ]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(second);
+      expect(coalescer.size).toBe(0);
+      // Each caller gets its own copy
+      if (first.success && second.success) {
+        expect(first.data).not.toBe(second.data);
+      }
+    });
+
+    it("should share failures between identical concurrent GETs", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse({ message: "Not found" }, 404))
+      );
+      const client = new QuireClient({
+        token: "test-token",
+        coalescer: new RequestCoalescer(),
+      });
+
+      const results = await Promise.all([
+        client.getProject("missing"),
+        client.getProject("missing"),
+      ]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.success)).toEqual([false, false]);
+    });
+
+    it("should not coalesce different endpoints or settled requests", async () => {
+      vi.mocked(fetch).mockImplementation(() =>
+        Promise.resolve(mockResponse(project))
+      );
+      const client = new QuireClient({
+        token: "test-token",
+        coalescer: new RequestCoalescer(),
+      });
+
+      await Promise.all([
+        client.getProject("my-project"),
+        client.getProject("other-project"),
+      ]);
+      await client.getProject("my-project");
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not share GETs sent before a write", async () => {
+      let respond: (response: Response) => void = () => undefined;
+      vi.mocked(fetch)
+        .mockImplementationOnce(
+          () =>
+            new Promise((resolve) => {
+              respond = resolve;
+            })
+        )
+        .mockImplementation(() => Promise.resolve(mockResponse(project)));
+      const client = new QuireClient({
+        token: "test-token",
+        coalescer: new RequestCoalescer(),
+      });
+
+      const before = client.getProject("my-project");
+      await vi.waitFor(() => {
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+      await client.updateProject("my-project", { name: "Renamed" });
+      const after = client.getProject("my-project");
+      respond(mockResponse(project));
+      await Promise.all([before, after]);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not share GETs sent before a write still in flight", async () => {
+      const pending: ((response: Response) => void)[] = [];
+      vi.mocked(fetch).mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            pending.push(resolve);
+          })
+      );
+      const client = new QuireClient({
+        token: "test-token",
+        coalescer: new RequestCoalescer(),
+      });
+
+      const before = client.getProject("my-project");
+      await vi.waitFor(() => {
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+      const write = client.updateProject("my-project", { name: "Renamed" });
+      await vi.waitFor(() => {
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+      const during = client.getProject("my-project");
+      await vi.waitFor(() => {
+        expect(fetch).toHaveBeenCalledTimes(3);
+      });
+      for (const respond of pending) {
+        respond(mockResponse(project));
+      }
+      await Promise.all([before, write, during]);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe("getMe", () => {
     beforeEach(() => {
       vi.stubGlobal("fetch", vi.fn());
@@ -876,6 +1324,219 @@ describe("QuireClient", () => {
       });
     });
 
+    describe("getTaskTree", () => {
+      /**
+       * Serve subtask lists from a parent OID -> children map.
+       * The project root list is keyed by "root".
+       */
+      function mockTree(
+        tree: Record<string, { oid: string; childCount?: number }[]>
+      ): void {
+        vi.mocked(fetch).mockImplementation((input) => {
+          const url = input as string;
+          const key = url.includes("/task/list/id/")
+            ? "root"
+            : (url.split("/task/list/")[1] ?? "");
+          const children = (tree[key] ?? []).map((task, index) => ({
+            id: index + 1,
+            name: task.oid,
+            ...task,
+          }));
+          return Promise.resolve(mockResponse(children));
+        });
+      }
+
+      const fetchedUrls = (): string[] =>
+        vi.mocked(fetch).mock.calls.map(([url]) => url as string);
+
+      it("should nest subtasks breadth-first", async () => {
+        mockTree({
+          root: [
+            { oid: "a.1", childCount: 1 },
+            { oid: "b.1", childCount: 0 },
+          ],
+          "a.1": [{ oid: "a.2" }],
+        });
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project");
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.nodeCount).toBe(3);
+          expect(result.data.truncated).toBe(false);
+          expect(result.data.roots[0]?.children[0]?.oid).toBe("a.2");
+          expect(result.data.roots[1]?.children).toEqual([]);
+        }
+        // b.1 has no children and a.2 returned none: 3 requests in total
+        expect(fetchedUrls()).toEqual([
+          expect.stringContaining("/task/list/id/my-project"),
+          expect.stringContaining("/task/list/a.1"),
+          expect.stringContaining("/task/list/a.2"),
+        ]);
+      });
+
+      it("should start from a task's subtasks", async () => {
+        mockTree({ "p.1": [{ oid: "c.1", childCount: 0 }] });
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project", {
+          rootTaskOid: "p.1",
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.roots.map((t) => t.oid)).toEqual(["c.1"]);
+        }
+      });
+
+      it("should stop at the depth limit", async () => {
+        mockTree({
+          root: [{ oid: "a.1", childCount: 1 }],
+          "a.1": [{ oid: "a.2", childCount: 1 }],
+        });
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project", { maxDepth: 2 });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.truncated).toBe(true);
+          expect(result.data.limitReached).toBe("maxDepth");
+          expect(result.data.nodeCount).toBe(2);
+        }
+        expect(fetchedUrls()).toHaveLength(2);
+      });
+
+      it("should stop at the node limit", async () => {
+        mockTree({
+          root: [
+            { oid: "a.1", childCount: 2 },
+            { oid: "b.1", childCount: 2 },
+          ],
+          "a.1": [{ oid: "a.2" }, { oid: "a.3" }],
+          "b.1": [{ oid: "b.2" }, { oid: "b.3" }],
+        });
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project", { maxNodes: 3 });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.limitReached).toBe("maxNodes");
+          expect(result.data.nodeCount).toBe(3);
+          expect(result.data.roots[0]?.children.map((t) => t.oid)).toEqual([
+            "a.2",
+          ]);
+          expect(result.data.roots[1]?.children).toEqual([]);
+        }
+      });
+
+      it("should stop when the first level exceeds the node limit", async () => {
+        mockTree({
+          root: [
+            { oid: "a.1", childCount: 1 },
+            { oid: "b.1", childCount: 1 },
+          ],
+        });
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project", { maxNodes: 1 });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.limitReached).toBe("maxNodes");
+        }
+        expect(fetchedUrls()).toHaveLength(1);
+      });
+
+      it("should stop when shouldContinue returns false", async () => {
+        mockTree({
+          root: [
+            { oid: "a.1", childCount: 1 },
+            { oid: "b.1", childCount: 1 },
+          ],
+          "a.1": [{ oid: "a.2", childCount: 0 }],
+        });
+        const shouldContinue = vi
+          .fn()
+          .mockReturnValueOnce(true)
+          .mockReturnValue(false);
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project", {
+          concurrency: 1,
+          shouldContinue,
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.truncated).toBe(true);
+          expect(result.data.limitReached).toBe("stopped");
+          expect(result.data.nodeCount).toBe(3);
+        }
+        expect(fetchedUrls()).toEqual([
+          expect.stringContaining("/task/list/id/my-project"),
+          expect.stringContaining("/task/list/a.1"),
+        ]);
+      });
+
+      it("should limit parallel subtask requests", async () => {
+        let active = 0;
+        let peak = 0;
+        vi.mocked(fetch).mockImplementation(async (input) => {
+          const url = input as string;
+          if (url.includes("/task/list/id/")) {
+            return mockResponse(
+              Array.from({ length: 6 }, (_, i) => ({
+                oid: `t.${i}`,
+                id: i,
+                name: `Task ${i}`,
+                childCount: 1,
+              }))
+            );
+          }
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          active--;
+          return mockResponse([]);
+        });
+
+        const client = new QuireClient({ token: "test-token" });
+        await client.getTaskTree("my-project", { concurrency: 2 });
+
+        expect(peak).toBe(2);
+      });
+
+      it("should return errors from the first level", async () => {
+        vi.mocked(fetch).mockResolvedValueOnce(
+          mockResponse({ message: "Not found" }, 404)
+        );
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("missing");
+
+        expect(result.success).toBe(false);
+      });
+
+      it("should return errors from subtask requests", async () => {
+        vi.mocked(fetch)
+          .mockResolvedValueOnce(
+            mockResponse([{ oid: "a.1", id: 1, name: "A", childCount: 1 }])
+          )
+          .mockResolvedValueOnce(mockResponse({ message: "Forbidden" }, 403));
+
+        const client = new QuireClient({ token: "test-token" });
+        const result = await client.getTaskTree("my-project");
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.code).toBe("FORBIDDEN");
+        }
+      });
+    });
+
     describe("getTask", () => {
       it("should get task by project ID and task number", async () => {
         vi.mocked(fetch).mockResolvedValueOnce(
@@ -3149,6 +3810,79 @@ describe("QuireClient", () => {
   });
 });
 
+describe("createClientForToken", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    clearSharedResponseCaches();
+    clearSharedRequestCoalescers();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should coalesce concurrent GETs across clients of a token", async () => {
+    process.env["QUIRE_CACHE"] = "off";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() =>
+        Promise.resolve(mockResponse({ id: "u", oid: "o", name: "User" }))
+      )
+    );
+
+    await Promise.all([
+      createClientForToken("test-token").getMe(),
+      createClientForToken("test-token").getMe(),
+      createClientForToken("other-token").getMe(),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    vi.unstubAllGlobals();
+  });
+
+  it("should share one response cache per token", async () => {
+    delete process.env["QUIRE_CACHE"];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() =>
+        Promise.resolve(mockResponse({ id: "u", oid: "o", name: "User" }))
+      )
+    );
+
+    await createClientForToken("test-token").getMe();
+    await createClientForToken("test-token").getMe();
+    await createClientForToken("other-token").getMe();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    vi.unstubAllGlobals();
+  });
+
+  it("should share one search index cache per token", () => {
+    delete process.env["QUIRE_CACHE"];
+
+    const indexes = createClientForToken("test-token").getSearchIndexCache();
+
+    expect(indexes).toBeDefined();
+    expect(
+      createClientForToken("test-token").fresh().getSearchIndexCache()
+    ).toBe(indexes);
+    expect(createClientForToken("other-token").getSearchIndexCache()).not.toBe(
+      indexes
+    );
+  });
+
+  it("should not cache when QUIRE_CACHE=off", () => {
+    process.env["QUIRE_CACHE"] = "off";
+
+    expect(createClientForToken("test-token").getCacheStats()).toBeUndefined();
+    expect(
+      createClientForToken("test-token").getSearchIndexCache()
+    ).toBeUndefined();
+  });
+});
+
 describe("createClientFromEnv", () => {
   const originalEnv = process.env;
 
@@ -6,6 +6,10 @@
  * - Retry/backoff on 429/503
  * - Consistent error mapping
  * - Runtime response validation with Zod schemas
+ * - Optional client-side rate limit governor shared per token
+ * - Optional response cache shared per token, invalidated by writes
+ * - Optional coalescing of identical in-flight GETs shared per token
+ * - Optional search index cache shared per token
  *
  * Rate Limits (Free plan):
  * - 25 requests per minute
@@ -21,6 +25,9 @@ import type {
   QuireOrganization,
   QuireProject,
   QuireTask,
+  QuireTaskTree,
+  QuireTaskTreeNode,
+  TaskTreeOptions,
   QuireTag,
   QuireComment,
   QuireStatus,
@@ -68,8 +75,34 @@ import {
   DeleteNameResponseSchema,
   SuccessResponseSchema,
 } from "./schemas.js";
+import {
+  getSharedRateLimiter,
+  type QuireRateLimiter,
+  type RateLimitBudget,
+} from "./rate-limiter.js";
+import {
+  getSharedResponseCache,
+  isResponseCacheEnabled,
+  type CachedResource,
+  type QuireResponseCache,
+  type ResponseCacheStats,
+} from "./response-cache.js";
+import {
+  getSharedSearchIndexCache,
+  type SearchIndexCache,
+} from "./search-index.js";
+import {
+  getSharedRequestCoalescer,
+  type RequestCoalescer,
+} from "./request-coalescer.js";
+import { getQuireApiBaseUrl } from "./endpoints.js";
+import {
+  DEFAULT_TASK_TREE_CONCURRENCY,
+  DEFAULT_TASK_TREE_MAX_DEPTH,
+  DEFAULT_TASK_TREE_MAX_NODES,
+} from "../constants.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
 
-const QUIRE_API_BASE_URL = "https://quire.io/api";
 const DEFAULT_TIMEOUT_MS = 30000;
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
@@ -103,6 +136,32 @@ interface ClientOptions {
   token: string;
   timeoutMs?: number;
   maxRetries?: number;
+  /** API base URL (defaults to the configured Quire API endpoint) */
+  baseUrl?: string;
+  /** Rate limit governor; requests wait for budget before being sent */
+  rateLimiter?: QuireRateLimiter;
+  /** Response cache for GET requests of cacheable resources */
+  cache?: QuireResponseCache;
+  /** Skip cache lookups (responses still refresh the cache) */
+  freshReads?: boolean;
+  /** Shares in-flight GETs between identical concurrent requests */
+  coalescer?: RequestCoalescer;
+  /** Keeps project search indexes between quire.search calls */
+  searchIndexes?: SearchIndexCache;
+}
+
+/**
+ * Options for a single API request
+ */
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: Record<string, unknown>;
+  /** Zod schema for runtime response validation (uses ZodType<unknown> to avoid exactOptionalPropertyTypes conflicts) */
+  schema?: ZodType;
+  /** Resource type to cache a GET response under */
+  cache?: CachedResource;
+  /** Resource types whose cached responses a write makes stale */
+  invalidates?: readonly CachedResource[];
 }
 
 /**
@@ -150,36 +209,164 @@ export function parseErrorCode(
  */
 export class QuireClient {
   private readonly token: string;
+  private readonly baseUrl: string;
   private readonly timeoutMs: number;
   private readonly maxRetries: number;
+  private readonly rateLimiter: QuireRateLimiter | undefined;
+  private readonly cache: QuireResponseCache | undefined;
+  private readonly freshReads: boolean;
+  private readonly coalescer: RequestCoalescer | undefined;
+  private readonly searchIndexes: SearchIndexCache | undefined;
+  private readonly options: ClientOptions;
 
   constructor(options: ClientOptions) {
+    this.options = options;
     this.token = options.token;
+    this.baseUrl = options.baseUrl ?? getQuireApiBaseUrl();
     this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
     this.maxRetries = options.maxRetries ?? MAX_RETRIES;
+    this.rateLimiter = options.rateLimiter;
+    this.cache = options.cache;
+    this.freshReads = options.freshReads ?? false;
+    this.coalescer = options.coalescer;
+    this.searchIndexes = options.searchIndexes;
+  }
+
+  /**
+   * Get a client whose reads bypass the response cache.
+   * Responses still refresh the cache for later reads.
+   */
+  fresh(): QuireClient {
+    return new QuireClient({ ...this.options, freshReads: true });
+  }
+
+  /**
+   * Get response cache hit/miss statistics for this client's token.
+   * Returns undefined when the client has no response cache.
+   */
+  getCacheStats(): ResponseCacheStats | undefined {
+    return this.cache?.getStats();
+  }
+
+  /**
+   * Get the remaining rate limit budget for this client's token.
+   * Returns undefined when the client has no rate limit governor.
+   */
+  getRateLimitBudget(): RateLimitBudget | undefined {
+    return this.rateLimiter?.getBudget();
+  }
+
+  /**
+   * Get the project search indexes kept for this client's token.
+   * Returns undefined when the client does not keep indexes.
+   */
+  getSearchIndexCache(): SearchIndexCache | undefined {
+    return this.searchIndexes;
+  }
+
+  /**
+   * Wait for rate limit budget before sending a request
+   */
+  private async throttle(): Promise<void> {
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire();
+    }
+  }
+
+  /**
+   * Make an authenticated request to the Quire API, using the response
+   * cache for cacheable GETs and invalidating it after writes
+   *
+   * @param endpoint - API endpoint path
+   * @param options - Request options (method, body, schema, caching)
+   */
+  private async request<T>(
+    endpoint: string,
+    options?: RequestOptions
+  ): Promise<QuireResult<T>> {
+    const cache = this.cache;
+    const resource = options?.cache;
+    if (!cache || !resource) {
+      const result = await this.sendShared<T>(endpoint, options);
+      if (cache && options?.invalidates) {
+        // Also on failure: a timed-out write may still have been applied
+        cache.invalidate(options.invalidates);
+      }
+      return result;
+    }
+
+    if (this.freshReads) {
+      cache.recordBypass(resource);
+    } else {
+      const cached = cache.get(resource, endpoint);
+      if (cached !== undefined) {
+        return { success: true, data: cached as T };
+      }
+    }
+
+    // A write invalidating the resource while the GET is in flight may
+    // have been applied after Quire answered it, so the answer is not kept
+    const generation = cache.getGeneration(resource);
+    const result = await this.sendShared<T>(endpoint, options);
+    if (result.success && cache.getGeneration(resource) === generation) {
+      cache.set(resource, endpoint, result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Send a request, sharing the response of an identical GET already in
+   * flight. Writes end sharing of GETs sent before them, since those may
+   * not reflect the write.
+   *
+   * @param endpoint - API endpoint path
+   * @param options - Request options (method, body, schema)
+   */
+  private async sendShared<T>(
+    endpoint: string,
+    options?: RequestOptions
+  ): Promise<QuireResult<T>> {
+    const coalescer = this.coalescer;
+    if (!coalescer) {
+      return this.send<T>(endpoint, options);
+    }
+    if (options?.method && options.method !== "GET") {
+      // GETs sent before the write may miss it, and GETs sent while it is
+      // in flight may or may not see it, so neither is shared afterwards
+      coalescer.reset();
+      const result = await this.send<T>(endpoint, options);
+      coalescer.reset();
+      return result;
+    }
+
+    const result = await coalescer.run(`${this.baseUrl}${endpoint}`, () =>
+      this.send<T>(endpoint, options)
+    );
+    // Callers share one response; give each its own copy to mutate
+    return result.success
+      ? { success: true, data: structuredClone(result.data) }
+      : result;
   }
 
   /**
-   * Make an authenticated request to the Quire API
+   * Send a request to the Quire API with retries
    *
    * @param endpoint - API endpoint path
    * @param options - Request options (method, body, schema)
    * @param retryCount - Current retry count (internal use)
    */
-  private async request<T>(
+  private async send<T>(
     endpoint: string,
-    options?: {
-      method?: "GET" | "POST" | "PUT" | "DELETE";
-      body?: Record<string, unknown>;
-      /** Zod schema for runtime response validation (uses ZodType<unknown> to avoid exactOptionalPropertyTypes conflicts) */
-      schema?: ZodType;
-    },
+    options?: RequestOptions,
     retryCount = 0
   ): Promise<QuireResult<T>> {
-    const url = `${QUIRE_API_BASE_URL}${endpoint}`;
+    const url = `${this.baseUrl}${endpoint}`;
     const method = options?.method ?? "GET";
 
     try {
+      // Wait for budget before the timeout signal starts counting
+      await this.throttle();
+
       const headers: Record<string, string> = {
         Authorization: `Bearer ${this.token}`,
         Accept: "application/json",
@@ -247,7 +434,7 @@ export class QuireClient {
           `[quire-mcp] Request failed with ${response.status}, retrying in ${delay}ms (attempt ${retryCount + 1}/${this.maxRetries})`
         );
         await sleep(delay);
-        return await this.request<T>(endpoint, options, retryCount + 1);
+        return await this.send<T>(endpoint, options, retryCount + 1);
       }
 
       // Parse error body if available
@@ -305,6 +492,7 @@ export class QuireClient {
    */
   async getMe(): Promise<QuireResult<QuireUser>> {
     return this.request<QuireUser>("/user/id/me", {
+      cache: "user",
       schema: QuireUserSchema,
     });
   }
@@ -320,6 +508,7 @@ export class QuireClient {
    */
   async listOrganizations(): Promise<QuireResult<QuireOrganization[]>> {
     return this.request<QuireOrganization[]>("/organization/list", {
+      cache: "organization",
       schema: QuireOrganizationSchema.array(),
     });
   }
@@ -336,6 +525,7 @@ export class QuireClient {
       ? `/organization/${idOrOid}`
       : `/organization/id/${idOrOid}`;
     return this.request<QuireOrganization>(endpoint, {
+      cache: "organization",
       schema: QuireOrganizationSchema,
     });
   }
@@ -353,6 +543,7 @@ export class QuireClient {
       ? `/organization/${idOrOid}`
       : `/organization/id/${idOrOid}`;
     return this.request<QuireOrganization>(endpoint, {
+      invalidates: ["organization", "project"],
       method: "PUT",
       body: params as Record<string, unknown>,
       schema: QuireOrganizationSchema,
@@ -388,10 +579,12 @@ export class QuireClient {
         ? `/project/list/${organizationId}${suffix}`
         : `/project/list/id/${organizationId}${suffix}`;
       return this.request<QuireProject[]>(endpoint, {
+        cache: "project",
         schema: QuireProjectSchema.array(),
       });
     }
     return this.request<QuireProject[]>(`/project/list${suffix}`, {
+      cache: "project",
       schema: QuireProjectSchema.array(),
     });
   }
@@ -406,6 +599,7 @@ export class QuireClient {
       ? `/project/${idOrOid}`
       : `/project/id/${idOrOid}`;
     return this.request<QuireProject>(endpoint, {
+      cache: "project",
       schema: QuireProjectSchema,
     });
   }
@@ -423,6 +617,7 @@ export class QuireClient {
       ? `/project/${idOrOid}`
       : `/project/id/${idOrOid}`;
     return this.request<QuireProject>(endpoint, {
+      invalidates: ["project"],
       method: "PUT",
       body: params as Record<string, unknown>,
       schema: QuireProjectSchema,
@@ -458,8 +653,9 @@ export class QuireClient {
 
     if (format === "csv") {
       // For CSV, we need to handle the response as text
-      const url = `${QUIRE_API_BASE_URL}${endpoint}`;
+      const url = `${this.baseUrl}${endpoint}`;
       try {
+        await this.throttle();
         const response = await fetch(url, {
           method: "GET",
           headers: {
@@ -516,6 +712,7 @@ export class QuireClient {
     if (parentTaskOid) {
       // Subtask listing endpoint uses task OID directly
       return this.request<QuireTask[]>(`/task/list/${parentTaskOid}`, {
+        cache: "task",
         schema: QuireTaskSchema.array(),
       });
     }
@@ -523,10 +720,119 @@ export class QuireClient {
       ? `/task/list/${projectIdOrOid}`
       : `/task/list/id/${projectIdOrOid}`;
     return this.request<QuireTask[]>(endpoint, {
+      cache: "task",
       schema: QuireTaskSchema.array(),
     });
   }
 
+  /**
+   * Fetch a task hierarchy breadth-first.
+   *
+   * Starts from the project's root tasks (or a task's subtasks) and lists
+   * subtasks level by level, with at most `concurrency` requests in flight.
+   * Tasks whose `childCount` is 0 are not queried. The walk stops at
+   * `maxDepth` levels or `maxNodes` tasks, whichever comes first, or when
+   * `shouldContinue` returns false, and the result reports which limit was
+   * hit.
+   */
+  async getTaskTree(
+    projectIdOrOid: string,
+    options?: TaskTreeOptions
+  ): Promise<QuireResult<QuireTaskTree>> {
+    const maxDepth = options?.maxDepth ?? DEFAULT_TASK_TREE_MAX_DEPTH;
+    const maxNodes = options?.maxNodes ?? DEFAULT_TASK_TREE_MAX_NODES;
+    const concurrency = options?.concurrency ?? DEFAULT_TASK_TREE_CONCURRENCY;
+
+    const firstLevel = await this.listTasks(
+      projectIdOrOid,
+      options?.rootTaskOid
+    );
+    if (!firstLevel.success) {
+      return firstLevel;
+    }
+
+    // Mutated by attach(); an object keeps TypeScript from narrowing it away
+    const walk: Pick<QuireTaskTree, "nodeCount" | "limitReached"> = {
+      nodeCount: 0,
+    };
+
+    /** Add tasks to a child list until the node limit is reached */
+    const attach = (
+      tasks: QuireTask[],
+      target: QuireTaskTreeNode[]
+    ): QuireTaskTreeNode[] => {
+      const added: QuireTaskTreeNode[] = [];
+      for (const task of tasks) {
+        if (walk.nodeCount >= maxNodes) {
+          walk.limitReached = "maxNodes";
+          break;
+        }
+        const node: QuireTaskTreeNode = { ...task, children: [] };
+        target.push(node);
+        added.push(node);
+        walk.nodeCount++;
+      }
+      return added;
+    };
+
+    const roots: QuireTaskTreeNode[] = [];
+    let level = attach(firstLevel.data, roots);
+
+    for (let depth = 1; level.length > 0 && !walk.limitReached; depth++) {
+      // childCount is only a hint: fetch when it is missing
+      const parents = level.filter((node) => node.childCount !== 0);
+      if (parents.length === 0) {
+        break;
+      }
+      if (depth >= maxDepth) {
+        walk.limitReached = "maxDepth";
+        break;
+      }
+
+      const fetched = await mapWithConcurrency(
+        parents,
+        concurrency,
+        async (parent) => {
+          if (options?.shouldContinue?.() === false) {
+            walk.limitReached = "stopped";
+            return { parent, result: undefined };
+          }
+          return {
+            parent,
+            result: await this.listTasks(projectIdOrOid, parent.oid),
+          };
+        }
+      );
+
+      const nextLevel: QuireTaskTreeNode[] = [];
+      for (const { parent, result } of fetched) {
+        if (!result) {
+          continue;
+        }
+        if (!result.success) {
+          return result;
+        }
+        const children = attach(result.data, parent.children);
+        nextLevel.push(...children);
+        if (children.length < result.data.length) {
+          // Node limit reached
+          break;
+        }
+      }
+      level = nextLevel;
+    }
+
+    return {
+      success: true,
+      data: {
+        roots,
+        nodeCount: walk.nodeCount,
+        truncated: walk.limitReached !== undefined,
+        ...(walk.limitReached ? { limitReached: walk.limitReached } : {}),
+      },
+    };
+  }
+
   /**
    * Get a task by project ID and task ID, or by OID
    *
@@ -542,11 +848,13 @@ export class QuireClient {
         ? `/task/${projectIdOrOid}/${taskId}`
         : `/task/id/${projectIdOrOid}/${taskId}`;
       return this.request<QuireTask>(endpoint, {
+        cache: "task",
         schema: QuireTaskSchema,
       });
     }
     // If no taskId provided, assume projectIdOrOid is actually the task OID
     return this.request<QuireTask>(`/task/${projectIdOrOid}`, {
+      cache: "task",
       schema: QuireTaskSchema,
     });
   }
@@ -571,6 +879,7 @@ export class QuireClient {
       ? `/task/${projectIdOrOid}`
       : `/task/id/${projectIdOrOid}`;
     return this.request<QuireTask>(endpoint, {
+      invalidates: ["task", "project"],
       method: "POST",
       body,
       schema: QuireTaskSchema,
@@ -593,6 +902,7 @@ export class QuireClient {
         ? `/task/${projectIdOrOid}/${taskIdOrParams}`
         : `/task/id/${projectIdOrOid}/${taskIdOrParams}`;
       return this.request<QuireTask>(endpoint, {
+        invalidates: ["task"],
         method: "PUT",
         body: (params ?? {}) as Record<string, unknown>,
         schema: QuireTaskSchema,
@@ -600,6 +910,7 @@ export class QuireClient {
     }
     // Called with OID and params - OID is for the task itself
     return this.request<QuireTask>(`/task/${projectIdOrOid}`, {
+      invalidates: ["task"],
       method: "PUT",
       body: taskIdOrParams as Record<string, unknown>,
       schema: QuireTaskSchema,
@@ -613,6 +924,7 @@ export class QuireClient {
    */
   async deleteTask(oid: string): Promise<QuireResult<{ oid: string }>> {
     return this.request<{ oid: string }>(`/task/${oid}`, {
+      invalidates: ["task", "project"],
       method: "DELETE",
       schema: DeleteOidResponseSchema,
     });
@@ -670,6 +982,7 @@ export class QuireClient {
       }
     }
     return this.request<QuireTask>(`/task/after/${taskOid}`, {
+      invalidates: ["task", "project"],
       method: "POST",
       body,
       schema: QuireTaskSchema,
@@ -692,6 +1005,7 @@ export class QuireClient {
       }
     }
     return this.request<QuireTask>(`/task/before/${taskOid}`, {
+      invalidates: ["task", "project"],
       method: "POST",
       body,
       schema: QuireTaskSchema,
@@ -784,6 +1098,7 @@ export class QuireClient {
       ? `/tag/list/${projectIdOrOid}`
       : `/tag/list/id/${projectIdOrOid}`;
     return this.request<QuireTag[]>(endpoint, {
+      cache: "tag",
       schema: QuireTagSchema.array(),
     });
   }
@@ -795,6 +1110,7 @@ export class QuireClient {
    */
   async getTag(oid: string): Promise<QuireResult<QuireTag>> {
     return this.request<QuireTag>(`/tag/${oid}`, {
+      cache: "tag",
       schema: QuireTagSchema,
     });
   }
@@ -818,6 +1134,7 @@ export class QuireClient {
       ? `/tag/${projectIdOrOid}`
       : `/tag/id/${projectIdOrOid}`;
     return this.request<QuireTag>(endpoint, {
+      invalidates: ["tag"],
       method: "POST",
       body,
       schema: QuireTagSchema,
@@ -834,6 +1151,7 @@ export class QuireClient {
     params: UpdateTagParams
   ): Promise<QuireResult<QuireTag>> {
     return this.request<QuireTag>(`/tag/${oid}`, {
+      invalidates: ["tag", "task"],
       method: "PUT",
       body: params as Record<string, unknown>,
       schema: QuireTagSchema,
@@ -847,6 +1165,7 @@ export class QuireClient {
    */
   async deleteTag(oid: string): Promise<QuireResult<{ oid: string }>> {
     return this.request<{ oid: string }>(`/tag/${oid}`, {
+      invalidates: ["tag", "task"],
       method: "DELETE",
       schema: DeleteOidResponseSchema,
     });
@@ -905,6 +1224,7 @@ export class QuireClient {
         ? `/comment/${taskOidOrProjectId}/task/${paramsOrTaskId}`
         : `/comment/id/${taskOidOrProjectId}/task/${paramsOrTaskId}`;
       return this.request<QuireComment>(endpoint, {
+        invalidates: ["task"],
         method: "POST",
         body,
         schema: QuireCommentSchema,
@@ -918,6 +1238,7 @@ export class QuireClient {
       }
     }
     return this.request<QuireComment>(`/comment/task/${taskOidOrProjectId}`, {
+      invalidates: ["task"],
       method: "POST",
       body,
       schema: QuireCommentSchema,
@@ -940,6 +1261,7 @@ export class QuireClient {
       }
     }
     return this.request<QuireComment>(`/comment/${commentOid}`, {
+      invalidates: ["task"],
       method: "PUT",
       body,
       schema: QuireCommentSchema,
@@ -955,6 +1277,7 @@ export class QuireClient {
     commentOid: string
   ): Promise<QuireResult<{ oid: string }>> {
     return this.request<{ oid: string }>(`/comment/${commentOid}`, {
+      invalidates: ["task"],
       method: "DELETE",
       schema: DeleteOidResponseSchema,
     });
@@ -1047,6 +1370,7 @@ export class QuireClient {
       ? `/user/${idOrOid}`
       : `/user/id/${idOrOid}`;
     return this.request<QuireUser>(endpoint, {
+      cache: "user",
       schema: QuireUserSchema,
     });
   }
@@ -1058,6 +1382,7 @@ export class QuireClient {
    */
   async listUsers(): Promise<QuireResult<QuireUser[]>> {
     return this.request<QuireUser[]>("/user/list", {
+      cache: "user",
       schema: QuireUserSchema.array(),
     });
   }
@@ -1074,6 +1399,7 @@ export class QuireClient {
       ? `/user/list/project/${projectIdOrOid}`
       : `/user/list/project/id/${projectIdOrOid}`;
     return this.request<QuireUser[]>(endpoint, {
+      cache: "user",
       schema: QuireUserSchema.array(),
     });
   }
@@ -1094,6 +1420,7 @@ export class QuireClient {
       ? `/status/list/${projectIdOrOid}`
       : `/status/list/id/${projectIdOrOid}`;
     return this.request<QuireStatus[]>(endpoint, {
+      cache: "status",
       schema: QuireStatusSchema.array(),
     });
   }
@@ -1111,6 +1438,7 @@ export class QuireClient {
       ? `/status/${projectIdOrOid}/${value}`
       : `/status/id/${projectIdOrOid}/${value}`;
     return this.request<QuireStatus>(endpoint, {
+      cache: "status",
       schema: QuireStatusSchema,
     });
   }
@@ -1134,6 +1462,7 @@ export class QuireClient {
       ? `/status/${projectIdOrOid}`
       : `/status/id/${projectIdOrOid}`;
     return this.request<QuireStatus>(endpoint, {
+      invalidates: ["status"],
       method: "POST",
       body,
       schema: QuireStatusSchema,
@@ -1154,6 +1483,7 @@ export class QuireClient {
       ? `/status/${projectIdOrOid}/${value}`
       : `/status/id/${projectIdOrOid}/${value}`;
     return this.request<QuireStatus>(endpoint, {
+      invalidates: ["status", "task"],
       method: "PUT",
       body: params as Record<string, unknown>,
       schema: QuireStatusSchema,
@@ -1173,6 +1503,7 @@ export class QuireClient {
       ? `/status/${projectIdOrOid}/${value}`
       : `/status/id/${projectIdOrOid}/${value}`;
     return this.request<{ value: number }>(endpoint, {
+      invalidates: ["status", "task"],
       method: "DELETE",
       schema: DeleteValueResponseSchema,
     });
@@ -1750,9 +2081,12 @@ export class QuireClient {
     content: string,
     mimeType = "application/octet-stream"
   ): Promise<QuireResult<QuireAttachment>> {
-    const url = `${QUIRE_API_BASE_URL}/task/attach/${taskOid}/${encodeURIComponent(filename)}`;
+    const url = `${this.baseUrl}/task/attach/${taskOid}/${encodeURIComponent(filename)}`;
 
     try {
+      await this.throttle();
+      // Task reads sent before the upload may miss the attachment
+      this.coalescer?.reset();
       const response = await fetch(url, {
         method: "POST",
         headers: {
@@ -1761,6 +2095,11 @@ export class QuireClient {
         },
         body: content,
         signal: createTimeoutSignal(this.timeoutMs),
+      }).finally(() => {
+        // Cached and in-flight task reads list their attachments. Also on
+        // failure: a timed-out upload may still have been applied
+        this.cache?.invalidate(["task"]);
+        this.coalescer?.reset();
       });
 
       if (response.ok) {
@@ -1839,9 +2178,12 @@ export class QuireClient {
     content: string,
     mimeType = "application/octet-stream"
   ): Promise<QuireResult<QuireAttachment>> {
-    const url = `${QUIRE_API_BASE_URL}/comment/attach/${commentOid}/${encodeURIComponent(filename)}`;
+    const url = `${this.baseUrl}/comment/attach/${commentOid}/${encodeURIComponent(filename)}`;
 
     try {
+      await this.throttle();
+      // Task reads sent before the upload may miss the attachment
+      this.coalescer?.reset();
       const response = await fetch(url, {
         method: "POST",
         headers: {
@@ -1850,6 +2192,10 @@ export class QuireClient {
         },
         body: content,
         signal: createTimeoutSignal(this.timeoutMs),
+      }).finally(() => {
+        // Cached and in-flight task reads may include the comment's files
+        this.cache?.invalidate(["task"]);
+        this.coalescer?.reset();
       });
 
       if (response.ok) {
@@ -1918,6 +2264,24 @@ export class QuireClient {
   }
 }
 
+/**
+ * Create a QuireClient for a token, using the rate limiter, request
+ * coalescer and (unless QUIRE_CACHE=off) response cache and search index
+ * cache shared by all clients of that token
+ */
+export function createClientForToken(token: string): QuireClient {
+  const options: ClientOptions = {
+    token,
+    rateLimiter: getSharedRateLimiter(token),
+    coalescer: getSharedRequestCoalescer(token),
+  };
+  if (isResponseCacheEnabled()) {
+    options.cache = getSharedResponseCache(token);
+    options.searchIndexes = getSharedSearchIndexCache(token);
+  }
+  return new QuireClient(options);
+}
+
 /**
  * Create a QuireClient from environment variables (synchronous).
  * Only checks QUIRE_ACCESS_TOKEN; does not support OAuth flow.
@@ -1940,10 +2304,7 @@ export function createClientFromEnv(): QuireResult<QuireClient> {
     };
   }
 
-  return {
-    success: true,
-    data: new QuireClient({ token }),
-  };
+  return { success: true, data: createClientForToken(token) };
 }
 
 /**
@@ -1963,10 +2324,7 @@ export async function createClientFromAuth(): Promise<
 
   try {
     const result = await getQuireAccessToken();
-    return {
-      success: true,
-      data: new QuireClient({ token: result.accessToken }),
-    };
+    return { success: true, data: createClientForToken(result.accessToken) };
   } catch (err) {
     if (err instanceof QuireAuthError) {
       return {
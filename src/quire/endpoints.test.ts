@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  getQuireApiBaseUrl,
+  getQuireOAuthAuthorizeUrl,
+  getQuireOAuthTokenUrl,
+  getQuireWebBaseUrl,
+} from "./endpoints.js";
+
+describe("Quire endpoints", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function clearEndpointEnv(): void {
+    vi.stubEnv("QUIRE_BASE_URL", "");
+    vi.stubEnv("QUIRE_API_BASE_URL", "");
+    vi.stubEnv("QUIRE_OAUTH_AUTHORIZE_URL", "");
+    vi.stubEnv("QUIRE_OAUTH_TOKEN_URL", "");
+  }
+
+  it("should default to quire.io", () => {
+    clearEndpointEnv();
+
+    expect(getQuireApiBaseUrl()).toBe("https://quire.io/api");
+    expect(getQuireOAuthAuthorizeUrl()).toBe("https://quire.io/oauth");
+    expect(getQuireOAuthTokenUrl()).toBe("https://quire.io/oauth/token");
+    expect(getQuireWebBaseUrl()).toBe("https://quire.io");
+  });
+
+  it("should derive every endpoint from QUIRE_BASE_URL", () => {
+    clearEndpointEnv();
+    vi.stubEnv("QUIRE_BASE_URL", "http://127.0.0.1:4000/");
+
+    expect(getQuireApiBaseUrl()).toBe("http://127.0.0.1:4000/api");
+    expect(getQuireOAuthAuthorizeUrl()).toBe("http://127.0.0.1:4000/oauth");
+    expect(getQuireOAuthTokenUrl()).toBe("http://127.0.0.1:4000/oauth/token");
+    expect(getQuireWebBaseUrl()).toBe("http://127.0.0.1:4000");
+  });
+
+  it("should prefer endpoint-specific variables over QUIRE_BASE_URL", () => {
+    clearEndpointEnv();
+    vi.stubEnv("QUIRE_BASE_URL", "http://base.example");
+    vi.stubEnv("QUIRE_API_BASE_URL", "http://api.example/v1/");
+    vi.stubEnv("QUIRE_OAUTH_AUTHORIZE_URL", "http://auth.example/authorize");
+    vi.stubEnv("QUIRE_OAUTH_TOKEN_URL", "http://auth.example/token");
+
+    expect(getQuireApiBaseUrl()).toBe("http://api.example/v1");
+    expect(getQuireOAuthAuthorizeUrl()).toBe("http://auth.example/authorize");
+    expect(getQuireOAuthTokenUrl()).toBe("http://auth.example/token");
+  });
+
+  it("should resolve at call time", () => {
+    clearEndpointEnv();
+    expect(getQuireApiBaseUrl()).toBe("https://quire.io/api");
+
+    vi.stubEnv("QUIRE_BASE_URL", "http://later.example");
+    expect(getQuireApiBaseUrl()).toBe("http://later.example/api");
+  });
+});
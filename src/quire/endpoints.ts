@@ -0,0 +1,86 @@
+/**
+ * Quire Endpoint Configuration
+ *
+ * Resolves the Quire API and OAuth URLs at call time. Defaults point at
+ * quire.io; environment variables redirect the server elsewhere, such as
+ * the bundled mock Quire server used for offline end-to-end tests.
+ *
+ * Resolution order for each endpoint:
+ *   1. The endpoint-specific variable (e.g., QUIRE_API_BASE_URL)
+ *   2. QUIRE_BASE_URL + the standard path (/api, /oauth, /oauth/token)
+ *   3. The quire.io default
+ */
+
+import {
+  DEFAULT_QUIRE_API_BASE_URL,
+  DEFAULT_QUIRE_OAUTH_AUTHORIZE_URL,
+  DEFAULT_QUIRE_OAUTH_TOKEN_URL,
+  DEFAULT_QUIRE_WEB_BASE_URL,
+} from "../constants.js";
+
+/**
+ * Remove trailing slashes so paths can be appended directly
+ */
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Resolve an endpoint from its override variable, the shared base URL,
+ * or the built-in default.
+ */
+function resolveEndpoint(
+  overrideVar: string,
+  path: string,
+  fallback: string
+): string {
+  const override = process.env[overrideVar];
+  if (override) {
+    return trimTrailingSlash(override);
+  }
+  const baseUrl = process.env["QUIRE_BASE_URL"];
+  if (baseUrl) {
+    return `${trimTrailingSlash(baseUrl)}${path}`;
+  }
+  return fallback;
+}
+
+/**
+ * Get the Quire web app URL (e.g., "https://quire.io")
+ */
+export function getQuireWebBaseUrl(): string {
+  return resolveEndpoint("QUIRE_BASE_URL", "", DEFAULT_QUIRE_WEB_BASE_URL);
+}
+
+/**
+ * Get the Quire API base URL (e.g., "https://quire.io/api")
+ */
+export function getQuireApiBaseUrl(): string {
+  return resolveEndpoint(
+    "QUIRE_API_BASE_URL",
+    "/api",
+    DEFAULT_QUIRE_API_BASE_URL
+  );
+}
+
+/**
+ * Get the Quire OAuth authorization endpoint
+ */
+export function getQuireOAuthAuthorizeUrl(): string {
+  return resolveEndpoint(
+    "QUIRE_OAUTH_AUTHORIZE_URL",
+    "/oauth",
+    DEFAULT_QUIRE_OAUTH_AUTHORIZE_URL
+  );
+}
+
+/**
+ * Get the Quire OAuth token endpoint
+ */
+export function getQuireOAuthTokenUrl(): string {
+  return resolveEndpoint(
+    "QUIRE_OAUTH_TOKEN_URL",
+    "/oauth/token",
+    DEFAULT_QUIRE_OAUTH_TOKEN_URL
+  );
+}
@@ -108,4 +108,12 @@ describe("Quire Module Exports", () => {
       expect(typeof quireModule.getTokenStorePath).toBe("function");
     });
   });
+
+  describe("endpoint exports", () => {
+    it("should export the endpoint getters", () => {
+      expect(typeof quireModule.getQuireApiBaseUrl).toBe("function");
+      expect(typeof quireModule.getQuireOAuthAuthorizeUrl).toBe("function");
+      expect(typeof quireModule.getQuireOAuthTokenUrl).toBe("function");
+    });
+  });
 });
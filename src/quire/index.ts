@@ -14,6 +14,12 @@ export {
   getQuireClientOrThrow,
   type QuireClientResult,
 } from "./client-factory.js";
+export {
+  QuireRateLimiter,
+  getSharedRateLimiter,
+  type RateLimitBudget,
+  type RateLimitWindow,
+} from "./rate-limiter.js";
 export type { QuireUser, QuireResult, QuireErrorCode } from "./types.js";
 export { QuireClientError } from "./types.js";
 
@@ -40,3 +46,19 @@ export {
   clearTokens,
   getTokenStorePath,
 } from "./token-store.js";
+
+// Endpoint exports
+export {
+  getQuireApiBaseUrl,
+  getQuireOAuthAuthorizeUrl,
+  getQuireOAuthTokenUrl,
+  getQuireWebBaseUrl,
+} from "./endpoints.js";
+
+// Web URL exports
+export {
+  parseQuireUrl,
+  getUrlProjectId,
+  projectIdFromUriVariable,
+} from "./urls.js";
+export type { QuireUrl } from "./urls.js";
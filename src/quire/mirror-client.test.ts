@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DatabaseSync } from "node:sqlite";
+import { createClientForToken, type QuireClient } from "./client.js";
+import {
+  createMirrorClient,
+  getMirrorFreshness,
+  toMirrorFreshness,
+} from "./mirror-client.js";
+import { QuireMirror } from "./mirror.js";
+import type { QuireComment, QuireProject, QuireTaskTreeNode } from "./types.js";
+
+const web = { oid: "P1", id: "web", name: "Website" } as QuireProject;
+const api = { oid: "P2", id: "api", name: "API" } as QuireProject;
+
+function node(
+  oid: string,
+  id: number,
+  children: QuireTaskTreeNode[] = []
+): QuireTaskTreeNode {
+  return {
+    oid,
+    id,
+    name: `Task ${String(id)}`,
+    childCount: children.length,
+    project: { oid: "P1", id: "web", name: "Website" },
+    children,
+  };
+}
+
+describe("toMirrorFreshness", () => {
+  it("should give the age in whole minutes", () => {
+    const now = new Date("2026-10-19T10:00:00Z");
+    expect(toMirrorFreshness("2026-10-19T09:30:30.000Z", now)).toEqual({
+      syncedAt: "2026-10-19T09:30:30.000Z",
+      ageMinutes: 29,
+    });
+    expect(toMirrorFreshness("2026-10-19T10:05:00.000Z", now).ageMinutes).toBe(
+      0
+    );
+  });
+});
+
+describe("createMirrorClient", () => {
+  const now = (): Date => new Date("2026-10-19T10:00:00Z");
+  let mirror: QuireMirror;
+  let live: QuireClient;
+  let client: QuireClient;
+
+  beforeEach(() => {
+    mirror = new QuireMirror(new DatabaseSync(":memory:"));
+    mirror.saveOrganizations([{ oid: "O1", id: "acme", name: "Acme" }]);
+    mirror.saveProjects([web, api]);
+    mirror.saveProjectData(
+      "P1",
+      {
+        roots: [node("T1", 1, [node("T3", 3)]), node("T2", 2)],
+        truncated: false,
+        tags: [{ oid: "G1", id: 7, name: "bug" }],
+        statuses: [{ value: 0, name: "To-Do" }],
+        documents: [{ oid: "D1", id: "plan", name: "Plan" }],
+      },
+      new Date("2026-10-19T09:00:00Z")
+    );
+    mirror.saveOrganizationDocuments("O1", [
+      { oid: "D2", id: "handbook", name: "Handbook" },
+    ]);
+    mirror.saveComments("T1", [
+      { oid: "C1", descriptionText: "Ship it" } as QuireComment,
+    ]);
+    mirror.setSyncedAt(new Date("2026-10-19T09:40:00Z"));
+
+    live = createClientForToken("token");
+    client = createMirrorClient(live, mirror, now);
+  });
+
+  afterEach(() => {
+    mirror.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should read organizations and projects from the mirror", async () => {
+    const request = vi.spyOn(live, "listProjects");
+
+    expect(await client.listOrganizations()).toMatchObject({
+      data: [{ id: "acme" }],
+    });
+    expect(await client.getOrganization("acme")).toMatchObject({
+      data: { oid: "O1" },
+    });
+    expect(await client.listProjects()).toMatchObject({
+      data: [{ id: "web" }, { id: "api" }],
+    });
+    expect(await client.getProject("P2")).toMatchObject({
+      data: { id: "api" },
+    });
+    expect(await client.getProject("nope")).toMatchObject({
+      success: false,
+      error: { code: "NOT_MIRRORED" },
+    });
+    expect(await client.getOrganization("nope")).toMatchObject({
+      success: false,
+    });
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should walk task trees over mirrored task lists", async () => {
+    const tree = await client.getTaskTree("web");
+
+    expect(tree).toMatchObject({
+      success: true,
+      data: {
+        roots: [
+          { oid: "T1", children: [{ oid: "T3", children: [] }] },
+          { oid: "T2", children: [] },
+        ],
+        nodeCount: 3,
+        truncated: false,
+      },
+    });
+    expect(await client.listTasks("web", "T1")).toMatchObject({
+      data: [{ oid: "T3" }],
+    });
+    expect(client.fresh()).toBe(client);
+  });
+
+  it("should read tasks, tags, statuses, comments and documents", async () => {
+    expect(await client.getTask("web", 2)).toMatchObject({
+      data: { oid: "T2" },
+    });
+    expect(await client.getTask("T3")).toMatchObject({ data: { id: 3 } });
+    const missingTask = await client.getTask("web", 9);
+    expect(missingTask.success || missingTask.error.message).toContain(
+      "Task #9"
+    );
+    expect(await client.getTask("T9")).toMatchObject({ success: false });
+    expect(await client.listTags("P1")).toMatchObject({
+      data: [{ name: "bug" }],
+    });
+    expect(await client.listStatuses("web")).toMatchObject({
+      data: [{ value: 0 }],
+    });
+    expect(await client.listTaskComments("T1")).toMatchObject({
+      data: [{ oid: "C1" }],
+    });
+    const unsynced = await client.listTaskComments("web", 2);
+    expect(unsynced.success || unsynced.error.message).toContain(
+      "Comments of task #2"
+    );
+    expect(await client.listTaskComments("T9")).toMatchObject({
+      success: false,
+    });
+    expect(await client.listDocuments("project", "web")).toMatchObject({
+      data: [{ id: "plan" }],
+    });
+    expect(await client.listDocuments("organization", "acme")).toMatchObject({
+      data: [{ id: "handbook" }],
+    });
+    expect(await client.listDocuments("organization", "nope")).toMatchObject({
+      success: false,
+    });
+  });
+
+  it("should fail for projects that were never synced", async () => {
+    const results = await Promise.all([
+      client.listTasks("api"),
+      client.getTask("api", 1),
+      client.listTags("api"),
+      client.listStatuses("api"),
+      client.listDocuments("project", "api"),
+    ]);
+
+    for (const result of results) {
+      expect(result).toMatchObject({
+        success: false,
+        error: {
+          code: "NOT_MIRRORED",
+          message:
+            "Project api has not been synced to the local mirror. " +
+            "Run quire.syncMirror, or read live data instead.",
+        },
+      });
+    }
+  });
+
+  it("should pass other calls to the live client", async () => {
+    const getMe = vi
+      .spyOn(live, "getMe")
+      .mockResolvedValue({ success: true, data: { id: "ann" } as never });
+
+    expect(await client.getMe()).toMatchObject({ data: { id: "ann" } });
+    expect(getMe).toHaveBeenCalledOnce();
+  });
+
+  it("should report the oldest sync time of the projects read", async () => {
+    expect(getMirrorFreshness(live)).toBeUndefined();
+    // Nothing read yet: the time of the last sync
+    expect(getMirrorFreshness(client)).toEqual({
+      syncedAt: "2026-10-19T09:40:00.000Z",
+      ageMinutes: 20,
+    });
+
+    await client.listTasks("web");
+    expect(getMirrorFreshness(client)).toEqual({
+      syncedAt: "2026-10-19T09:00:00.000Z",
+      ageMinutes: 60,
+    });
+  });
+
+  it("should treat a mirror that never synced as current", () => {
+    const empty = new QuireMirror(new DatabaseSync(":memory:"));
+
+    expect(getMirrorFreshness(createMirrorClient(live, empty, now))).toEqual({
+      syncedAt: "2026-10-19T10:00:00.000Z",
+      ageMinutes: 0,
+    });
+    empty.close();
+  });
+});
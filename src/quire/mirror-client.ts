@@ -0,0 +1,250 @@
+/**
+ * Mirror Client
+ *
+ * A QuireClient whose project, task, tag, status, comment and document
+ * reads are answered from the local mirror instead of the Quire API, so
+ * tools run unchanged against mirrored data. Task trees are walked with
+ * the inherited getTaskTree over the mirror's task lists. Reads the mirror
+ * does not hold (users, members, chats, ...) and all writes still go to
+ * the API.
+ *
+ * The client remembers which projects it read, so tools can report how
+ * fresh the answer is: the oldest sync time among them.
+ */
+
+import type { QuireClient } from "./client.js";
+import type { QuireMirror } from "./mirror.js";
+import {
+  QuireClientError,
+  type QuireComment,
+  type QuireDocument,
+  type QuireOrganization,
+  type QuireProject,
+  type QuireResult,
+  type QuireStatus,
+  type QuireTag,
+  type QuireTask,
+} from "./types.js";
+
+/**
+ * How current an answer from the mirror is
+ */
+export interface MirrorFreshness {
+  /** When the oldest of the projects read was synced */
+  syncedAt: string;
+  /** Whole minutes since then */
+  ageMinutes: number;
+}
+
+/** Freshness of each mirror client's reads so far */
+const freshnessByClient = new WeakMap<QuireClient, () => MirrorFreshness>();
+
+/**
+ * Freshness of data synced at a time
+ */
+export function toMirrorFreshness(
+  syncedAt: string,
+  now: Date = new Date()
+): MirrorFreshness {
+  const ageMs = now.getTime() - Date.parse(syncedAt);
+  return { syncedAt, ageMinutes: Math.max(0, Math.floor(ageMs / 60000)) };
+}
+
+function ok<T>(data: T): QuireResult<T> {
+  return { success: true, data };
+}
+
+function notMirrored<T>(message: string): QuireResult<T> {
+  return {
+    success: false,
+    error: new QuireClientError(
+      `${message}. Run quire.syncMirror, or read live data instead.`,
+      "NOT_MIRRORED"
+    ),
+  };
+}
+
+/**
+ * Create a client that reads from the mirror. Calls it does not override
+ * go to `client`.
+ *
+ * @param client - Client for the calls the mirror cannot answer
+ * @param mirror - The local mirror
+ * @param now - Clock for freshness ages
+ */
+export function createMirrorClient(
+  client: QuireClient,
+  mirror: QuireMirror,
+  now: () => Date = () => new Date()
+): QuireClient {
+  /** Sync times of the projects read so far */
+  const readSyncTimes = new Set<string>();
+
+  /** Look up a synced project by ID or OID and note that it was read */
+  const syncedProject = (idOrOid: string): QuireProject | undefined => {
+    const project = mirror.getProject(idOrOid);
+    const sync = project && mirror.getProjectSync(project.oid);
+    if (!project || !sync) {
+      return undefined;
+    }
+    readSyncTimes.add(sync.syncedAt);
+    return project;
+  };
+
+  const projectNotMirrored = <T>(idOrOid: string): QuireResult<T> =>
+    notMirrored(`Project ${idOrOid} has not been synced to the local mirror`);
+
+  const overrides = {
+    fresh(): QuireClient {
+      // The mirror has no cache to bypass
+      return mirrorClient;
+    },
+
+    listOrganizations(): Promise<QuireResult<QuireOrganization[]>> {
+      return Promise.resolve(ok(mirror.listOrganizations()));
+    },
+
+    getOrganization(idOrOid: string): Promise<QuireResult<QuireOrganization>> {
+      const organization = mirror
+        .listOrganizations()
+        .find((org) => org.oid === idOrOid || org.id === idOrOid);
+      return Promise.resolve(
+        organization
+          ? ok(organization)
+          : notMirrored(`Organization ${idOrOid} is not in the local mirror`)
+      );
+    },
+
+    listProjects(
+      organizationId?: string
+    ): Promise<QuireResult<QuireProject[]>> {
+      return Promise.resolve(ok(mirror.listProjects(organizationId)));
+    },
+
+    getProject(idOrOid: string): Promise<QuireResult<QuireProject>> {
+      const project = mirror.getProject(idOrOid);
+      return Promise.resolve(
+        project
+          ? ok(project)
+          : notMirrored(`Project ${idOrOid} is not in the local mirror`)
+      );
+    },
+
+    listTasks(
+      projectIdOrOid: string,
+      parentTaskOid?: string
+    ): Promise<QuireResult<QuireTask[]>> {
+      const project = syncedProject(projectIdOrOid);
+      return Promise.resolve(
+        project
+          ? ok(mirror.listTasks(project.oid, parentTaskOid))
+          : projectNotMirrored(projectIdOrOid)
+      );
+    },
+
+    getTask(
+      projectIdOrOid: string,
+      taskId?: number
+    ): Promise<QuireResult<QuireTask>> {
+      let task: QuireTask | undefined;
+      if (taskId === undefined) {
+        task = mirror.getTask(projectIdOrOid);
+        if (task?.project) {
+          syncedProject(task.project.oid);
+        }
+      } else {
+        const project = syncedProject(projectIdOrOid);
+        if (!project) {
+          return Promise.resolve(projectNotMirrored(projectIdOrOid));
+        }
+        task = mirror.getTask(project.oid, taskId);
+      }
+      return Promise.resolve(
+        task
+          ? ok(task)
+          : notMirrored(
+              `Task ${taskId === undefined ? projectIdOrOid : `#${String(taskId)}`} is not in the local mirror`
+            )
+      );
+    },
+
+    listTags(projectIdOrOid: string): Promise<QuireResult<QuireTag[]>> {
+      const project = syncedProject(projectIdOrOid);
+      return Promise.resolve(
+        project
+          ? ok(mirror.listTags(project.oid))
+          : projectNotMirrored(projectIdOrOid)
+      );
+    },
+
+    listStatuses(projectIdOrOid: string): Promise<QuireResult<QuireStatus[]>> {
+      const project = syncedProject(projectIdOrOid);
+      return Promise.resolve(
+        project
+          ? ok(mirror.listStatuses(project.oid))
+          : projectNotMirrored(projectIdOrOid)
+      );
+    },
+
+    async listTaskComments(
+      taskOidOrProjectId: string,
+      taskId?: number
+    ): Promise<QuireResult<QuireComment[]>> {
+      const task = await overrides.getTask(taskOidOrProjectId, taskId);
+      if (!task.success) {
+        return task;
+      }
+      const comments = mirror.listComments(task.data.oid);
+      return comments
+        ? ok(comments)
+        : notMirrored(
+            `Comments of task #${String(task.data.id)} have not been synced yet`
+          );
+    },
+
+    listDocuments(
+      ownerType: "organization" | "project",
+      ownerIdOrOid: string
+    ): Promise<QuireResult<QuireDocument[]>> {
+      if (ownerType === "project") {
+        const project = syncedProject(ownerIdOrOid);
+        return Promise.resolve(
+          project
+            ? ok(mirror.listDocuments(project.oid))
+            : projectNotMirrored(ownerIdOrOid)
+        );
+      }
+      return overrides
+        .getOrganization(ownerIdOrOid)
+        .then((organization) =>
+          organization.success
+            ? ok(mirror.listDocuments(organization.data.oid))
+            : organization
+        );
+    },
+  } satisfies Partial<QuireClient>;
+
+  const mirrorClient = Object.assign(
+    Object.create(client) as QuireClient,
+    overrides
+  );
+  freshnessByClient.set(mirrorClient, () =>
+    toMirrorFreshness(
+      [...readSyncTimes].sort()[0] ??
+        mirror.getSyncedAt() ??
+        now().toISOString(),
+      now()
+    )
+  );
+  return mirrorClient;
+}
+
+/**
+ * How fresh the data a mirror client has read so far is; undefined for
+ * clients that read from the API
+ */
+export function getMirrorFreshness(
+  client: QuireClient
+): MirrorFreshness | undefined {
+  return freshnessByClient.get(client)?.();
+}
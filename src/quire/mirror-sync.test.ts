@@ -0,0 +1,534 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import type { QuireClient } from "./client.js";
+import type { RateLimitBudget } from "./rate-limiter.js";
+import { getSharedMirror, QuireMirror, setSharedMirror } from "./mirror.js";
+import {
+  enableMirror,
+  getMirrorConfig,
+  runScheduledMirrorSync,
+  startMirrorSync,
+  syncMirror,
+} from "./mirror-sync.js";
+import {
+  QuireClientError,
+  type QuireTaskTree,
+  type QuireTaskTreeNode,
+} from "./types.js";
+
+const ok = <T>(data: T): { success: true; data: T } => ({
+  success: true,
+  data,
+});
+const serverError = {
+  success: false,
+  error: new QuireClientError("Server error", "SERVER_ERROR", 500),
+} as const;
+
+const web = { oid: "P1", id: "web", name: "Website" };
+const api = { oid: "P2", id: "api", name: "API" };
+
+function node(
+  oid: string,
+  id: number,
+  name = `Task ${String(id)}`
+): QuireTaskTreeNode {
+  return { oid, id, name, children: [] };
+}
+
+function tree(
+  roots: QuireTaskTreeNode[],
+  truncated = false
+): ReturnType<typeof ok<QuireTaskTree>> {
+  return ok({ roots, nodeCount: roots.length, truncated });
+}
+
+describe("getMirrorConfig", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should be disabled without a path", () => {
+    vi.stubEnv("QUIRE_MIRROR_PATH", "");
+    expect(getMirrorConfig()).toBeUndefined();
+  });
+
+  it("should read the path, projects and interval", () => {
+    vi.stubEnv("QUIRE_MIRROR_PATH", "/data/mirror.db");
+    expect(getMirrorConfig()).toEqual({
+      path: "/data/mirror.db",
+      intervalMinutes: 30,
+    });
+
+    vi.stubEnv("QUIRE_MIRROR_PROJECTS", "web, api");
+    vi.stubEnv("QUIRE_MIRROR_INTERVAL", "5");
+    expect(getMirrorConfig()).toEqual({
+      path: "/data/mirror.db",
+      projects: ["web", "api"],
+      intervalMinutes: 5,
+    });
+  });
+
+  it("should reject invalid intervals", () => {
+    vi.stubEnv("QUIRE_MIRROR_PATH", "/data/mirror.db");
+    vi.stubEnv("QUIRE_MIRROR_INTERVAL", "soon");
+
+    expect(getMirrorConfig()).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid QUIRE_MIRROR_INTERVAL")
+    );
+  });
+});
+
+describe("syncMirror", () => {
+  const now = new Date("2026-10-19T10:00:00Z");
+  let mirror: QuireMirror;
+  let client: Record<string, Mock<(...args: never[]) => Promise<unknown>>>;
+
+  beforeEach(() => {
+    mirror = new QuireMirror(new DatabaseSync(":memory:"));
+    client = {
+      listOrganizations: vi.fn().mockResolvedValue(ok([{ oid: "O1" }])),
+      listProjects: vi.fn().mockResolvedValue(ok([web, api])),
+      getTaskTree: vi
+        .fn()
+        .mockImplementation((projectOid: string) =>
+          Promise.resolve(tree([node(`${projectOid}-T1`, 1)]))
+        ),
+      listTags: vi.fn().mockResolvedValue(ok([])),
+      listStatuses: vi.fn().mockResolvedValue(ok([])),
+      listDocuments: vi.fn().mockResolvedValue(ok([])),
+      listTaskComments: vi.fn().mockResolvedValue(ok([])),
+      getRateLimitBudget: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    mirror.close();
+  });
+
+  function sync(
+    options: Parameters<typeof syncMirror>[2] = {}
+  ): ReturnType<typeof syncMirror> {
+    return syncMirror(client as unknown as QuireClient, mirror, options, now);
+  }
+
+  it("should mirror every project and fetch comments of new tasks", async () => {
+    client["getTaskTree"]
+      ?.mockResolvedValueOnce(tree([node("T1", 1), node("T2", 2)], true))
+      .mockResolvedValueOnce(tree([node("T8", 8)]));
+    client["listTaskComments"]?.mockImplementation((oid: string) =>
+      Promise.resolve(
+        oid === "T2"
+          ? serverError
+          : ok([{ oid: `C-${oid}`, descriptionText: "Looks good" }])
+      )
+    );
+
+    const result = await sync();
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        syncedAt: "2026-10-19T10:00:00.000Z",
+        partial: false,
+        organizations: 1,
+        projects: [
+          {
+            projectId: "web",
+            name: "Website",
+            changes: { created: 2, updated: 0, deleted: 0 },
+            truncated: true,
+          },
+          {
+            projectId: "api",
+            name: "API",
+            changes: { created: 1, updated: 0, deleted: 0 },
+            truncated: false,
+          },
+        ],
+        unknownProjects: [],
+        deferredProjects: [],
+        commentsFetched: 2,
+        // Failed fetches are retried by the next sync
+        commentsPending: 1,
+      },
+    });
+    expect(client["getTaskTree"]).toHaveBeenCalledWith(
+      "P1",
+      expect.objectContaining({ maxNodes: 20000, maxDepth: 20 })
+    );
+    expect(client["listDocuments"]).toHaveBeenCalledWith("organization", "O1");
+    expect(mirror.listComments("T1")).toMatchObject([{ oid: "C-T1" }]);
+    expect(mirror.getSyncedAt()).toBe("2026-10-19T10:00:00.000Z");
+  });
+
+  it("should only fetch comments of changed tasks unless full", async () => {
+    await sync();
+    client["listTaskComments"]?.mockClear();
+
+    const unchanged = await sync();
+    expect(unchanged.success && unchanged.data.commentsFetched).toBe(0);
+    expect(client["listTaskComments"]).not.toHaveBeenCalled();
+
+    const full = await sync({ full: true });
+    expect(full.success && full.data.commentsFetched).toBe(2);
+  });
+
+  it("should sync selected projects and report unknown ones", async () => {
+    const result = await sync({ projects: ["website", "P9"] });
+
+    expect(result).toMatchObject({
+      data: {
+        projects: [{ projectId: "web" }],
+        unknownProjects: ["P9"],
+        commentsFetched: 1,
+      },
+    });
+    expect(client["getTaskTree"]).toHaveBeenCalledOnce();
+    expect(mirror.getProject("api")).toBeDefined();
+  });
+
+  it("should stop at the rate limit reserve and resume with deferred projects", async () => {
+    const budget = (remaining: number): RateLimitBudget => ({
+      windows: [{ limit: 10, windowMs: 60_000, remaining, fullResetMs: 0 }],
+      queued: 0,
+    });
+    // Enough budget for the organization's documents and one project
+    client["getRateLimitBudget"]
+      ?.mockReturnValueOnce(budget(10) as never)
+      .mockReturnValueOnce(budget(9) as never)
+      .mockReturnValue(budget(5) as never);
+
+    const stopped = await sync();
+
+    expect(stopped).toMatchObject({
+      data: {
+        partial: true,
+        projects: [{ projectId: "web" }],
+        deferredProjects: ["api"],
+        commentsFetched: 0,
+        commentsPending: 1,
+      },
+    });
+    expect(client["listTaskComments"]).not.toHaveBeenCalled();
+    expect(mirror.getSyncedAt()).toBeUndefined();
+
+    client["getRateLimitBudget"]?.mockReturnValue(undefined as never);
+    const resumed = await sync();
+
+    expect(resumed).toMatchObject({
+      data: {
+        partial: false,
+        projects: [{ projectId: "api" }, { projectId: "web" }],
+        deferredProjects: [],
+        commentsFetched: 2,
+      },
+    });
+    expect(mirror.getSyncedAt()).toBe("2026-10-19T10:00:00.000Z");
+  });
+
+  it("should defer a project whose task tree walk ran out of budget", async () => {
+    await sync({ projects: ["web"] });
+    client["listTags"]?.mockClear();
+    client["getTaskTree"]?.mockResolvedValueOnce({
+      success: true,
+      data: {
+        roots: [],
+        nodeCount: 0,
+        truncated: true,
+        limitReached: "stopped",
+      },
+    });
+
+    const result = await sync({ projects: ["web"] });
+
+    expect(result).toMatchObject({
+      data: { partial: true, projects: [], deferredProjects: ["web"] },
+    });
+    expect(client["listTags"]).not.toHaveBeenCalled();
+    expect(mirror.listTasks("P1")).toHaveLength(1);
+  });
+
+  it("should report a partial sync when comments are left for budget", async () => {
+    // Enough budget for the organization's documents and the project
+    client["getRateLimitBudget"]
+      ?.mockReturnValueOnce(undefined as never)
+      .mockReturnValueOnce(undefined as never)
+      .mockReturnValue({
+        windows: [{ limit: 10, windowMs: 60_000, remaining: 1 }],
+        queued: 0,
+      } as never);
+
+    const result = await sync({ projects: ["web"] });
+
+    expect(result).toMatchObject({
+      data: { partial: true, deferredProjects: [], commentsFetched: 0 },
+    });
+    expect(mirror.getSyncedAt()).toBeUndefined();
+  });
+
+  it("should keep earlier data of projects that fail to sync", async () => {
+    await sync({ projects: ["web"] });
+    const failures = ["getTaskTree", "listTags", "listStatuses"];
+
+    for (const method of failures) {
+      client[method]?.mockResolvedValueOnce(serverError);
+      const result = await sync({ projects: ["web"] });
+      expect(result).toMatchObject({
+        data: { projects: [{ projectId: "web", error: "Server error" }] },
+      });
+    }
+    client["listDocuments"]
+      ?.mockResolvedValueOnce(ok([]))
+      .mockResolvedValueOnce(serverError);
+    const documents = await sync({ projects: ["web"] });
+
+    expect(documents).toMatchObject({
+      data: { projects: [{ error: "Server error" }] },
+    });
+    expect(mirror.getTask("P1-T1")).toBeDefined();
+  });
+
+  it("should report projects it cannot write and sync the others", async () => {
+    await sync();
+    client["getTaskTree"]?.mockResolvedValueOnce(
+      tree([node("P1-T1", 1, "Renamed"), node("P1-T2", null as never)])
+    );
+
+    const result = await sync();
+
+    const projects = result.success ? result.data.projects : [];
+    expect(projects[0]?.error).toMatch(/^Failed to write the mirror: /);
+    expect(projects[1]).toMatchObject({
+      projectId: "api",
+      changes: { created: 0 },
+    });
+    expect(mirror.getTask("P1-T1")?.name).toBe("Task 1");
+  });
+
+  it("should skip organization documents it cannot list", async () => {
+    client["listDocuments"]?.mockResolvedValueOnce(serverError);
+
+    const result = await sync();
+
+    expect(result.success).toBe(true);
+    expect(mirror.listDocuments("O1")).toEqual([]);
+  });
+
+  it("should fail when organizations or projects cannot be listed", async () => {
+    client["listOrganizations"]?.mockResolvedValueOnce(serverError);
+    expect(await sync()).toEqual(serverError);
+
+    client["listProjects"]?.mockResolvedValueOnce(serverError);
+    expect(await sync()).toEqual(serverError);
+    expect(mirror.getSyncedAt()).toBeUndefined();
+  });
+});
+
+describe("runScheduledMirrorSync", () => {
+  const config = { path: "mirror.db", intervalMinutes: 30 };
+  let mirror: QuireMirror;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mirror = new QuireMirror(new DatabaseSync(":memory:"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    mirror.close();
+  });
+
+  function clientWith(overrides: Record<string, unknown>): () => Promise<{
+    success: true;
+    data: QuireClient;
+  }> {
+    return () =>
+      Promise.resolve({
+        success: true,
+        data: {
+          listOrganizations: vi.fn().mockResolvedValue(ok([])),
+          listProjects: vi.fn().mockResolvedValue(ok([web])),
+          getTaskTree: vi.fn().mockResolvedValue(serverError),
+          listTags: vi.fn().mockResolvedValue(ok([])),
+          listStatuses: vi.fn().mockResolvedValue(ok([])),
+          listDocuments: vi.fn().mockResolvedValue(ok([])),
+          getRateLimitBudget: () => undefined,
+          ...overrides,
+        } as unknown as QuireClient,
+      });
+  }
+
+  it("should log projects that failed and projects not found", async () => {
+    await runScheduledMirrorSync(
+      { ...config, projects: ["web", "gone"] },
+      mirror,
+      clientWith({})
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Mirror sync of web failed: Server error"
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Mirror projects not found: gone"
+    );
+    expect(mirror.getSyncedAt()).toBeDefined();
+  });
+
+  it("should log projects deferred for the rate limit reserve", async () => {
+    await runScheduledMirrorSync(
+      config,
+      mirror,
+      clientWith({
+        getRateLimitBudget: () => ({
+          windows: [{ limit: 10, windowMs: 60_000, remaining: 1 }],
+          queued: 0,
+        }),
+      })
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Mirror sync of web deferred to keep rate limit budget for tool calls"
+    );
+  });
+
+  it("should log a sync that failed", async () => {
+    await runScheduledMirrorSync(
+      config,
+      mirror,
+      clientWith({ listOrganizations: vi.fn().mockResolvedValue(serverError) })
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Mirror sync failed: Server error"
+    );
+  });
+
+  it("should log a mirror that cannot be written", async () => {
+    mirror.close();
+
+    await runScheduledMirrorSync(config, mirror, clientWith({}));
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Failed to write the local mirror:",
+      expect.any(Error)
+    );
+    mirror = new QuireMirror(new DatabaseSync(":memory:"));
+  });
+
+  it("should skip the run when there is no token", async () => {
+    await runScheduledMirrorSync(config, mirror, () =>
+      Promise.resolve({
+        success: false,
+        error: new QuireClientError("No token", "MISSING_TOKEN"),
+      })
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Mirror sync skipped: No token"
+    );
+  });
+
+  it("should run now and on every interval, one sync at a time", async () => {
+    vi.useFakeTimers();
+    let finish = (): void => undefined;
+    const listOrganizations = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finish = () => {
+              resolve(serverError);
+            };
+          })
+      )
+      .mockResolvedValue(serverError);
+
+    const stop = startMirrorSync(
+      config,
+      mirror,
+      clientWith({ listOrganizations })
+    );
+    // The first sync is still running
+    await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+    expect(listOrganizations).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+    expect(listOrganizations).toHaveBeenCalledTimes(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+    expect(listOrganizations).toHaveBeenCalledTimes(2);
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Mirroring all projects to mirror.db every 30 minutes"
+    );
+  });
+});
+
+describe("enableMirror", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    dir = mkdtempSync(join(tmpdir(), "quire-mirror-"));
+  });
+
+  afterEach(() => {
+    getSharedMirror()?.close();
+    setSharedMirror(undefined);
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const noToken = (): Promise<{ success: false; error: QuireClientError }> =>
+    Promise.resolve({
+      success: false,
+      error: new QuireClientError("No token", "MISSING_TOKEN"),
+    });
+
+  it("should open the mirror for tools and start syncing", async () => {
+    const stop = await enableMirror(
+      { path: join(dir, "mirror.db"), intervalMinutes: 30 },
+      noToken
+    );
+
+    expect(getSharedMirror()).toBeInstanceOf(QuireMirror);
+    stop?.();
+  });
+
+  it("should log a mirror that cannot be opened", async () => {
+    const file = join(dir, "file");
+    writeFileSync(file, "");
+
+    const stop = await enableMirror(
+      { path: join(file, "mirror.db"), intervalMinutes: 30 },
+      noToken
+    );
+
+    expect(stop).toBeUndefined();
+    expect(getSharedMirror()).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to open the local mirror"),
+      expect.any(Error)
+    );
+  });
+});
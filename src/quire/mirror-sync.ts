@@ -0,0 +1,431 @@
+/**
+ * Mirror Sync
+ *
+ * Fills and refreshes the local mirror. Each sync lists organizations and
+ * projects, then fetches the task tree, tags, statuses and documents of
+ * every mirrored project. Quire's API cannot list what changed since a
+ * time, so task trees are fetched whole, but only tasks whose data changed
+ * are rewritten, and comments are only fetched for new and changed tasks:
+ * at most MIRROR_COMMENT_FETCHES_PER_SYNC per sync, the rest by later ones.
+ * Like subscription polls, a sync stops sending requests while the rate
+ * limit budget is down to the share kept for tool calls, checking before
+ * every request, task tree walks included. A project whose walk is cut
+ * short keeps its earlier data; it and the projects not reached are
+ * synced first by the next sync, and the sync is reported as partial.
+ *
+ * Enabled in stdio mode by QUIRE_MIRROR_PATH. The mirror then syncs at
+ * startup and every QUIRE_MIRROR_INTERVAL minutes (default: 30), limited
+ * to the projects in QUIRE_MIRROR_PROJECTS if set, using the stdio
+ * authentication chain.
+ */
+
+import {
+  MIRROR_COMMENT_FETCHES_PER_SYNC,
+  MIRROR_DEFAULT_INTERVAL_MINUTES,
+  MIRROR_MAX_DEPTH,
+  MIRROR_MAX_TASKS,
+  MIRROR_SYNC_CONCURRENCY,
+} from "../constants.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { createClientFromAuth, type QuireClient } from "./client.js";
+import { hasBackgroundBudget } from "./rate-limiter.js";
+import {
+  QuireMirror,
+  setSharedMirror,
+  type MirrorTaskChanges,
+} from "./mirror.js";
+import type { QuireClientError, QuireProject, QuireResult } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Where the mirror is kept, what it holds and how often it syncs
+ */
+export interface MirrorConfig {
+  path: string;
+  /** Projects to mirror (IDs, OIDs or names); all projects if undefined */
+  projects?: string[];
+  intervalMinutes: number;
+}
+
+/**
+ * Load the mirror configuration from environment variables.
+ * Returns undefined if QUIRE_MIRROR_PATH is not set or the interval is
+ * invalid.
+ */
+export function getMirrorConfig(): MirrorConfig | undefined {
+  const path = process.env["QUIRE_MIRROR_PATH"];
+  if (!path) {
+    return undefined;
+  }
+
+  const interval = process.env["QUIRE_MIRROR_INTERVAL"];
+  const intervalMinutes =
+    interval === undefined ? MIRROR_DEFAULT_INTERVAL_MINUTES : Number(interval);
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1) {
+    console.error(
+      `[quire-mcp] ERROR: Invalid QUIRE_MIRROR_INTERVAL "${String(interval)}". Use a whole number of minutes.`
+    );
+    return undefined;
+  }
+
+  const projects = (process.env["QUIRE_MIRROR_PROJECTS"] ?? "")
+    .split(",")
+    .map((project) => project.trim())
+    .filter(Boolean);
+  return {
+    path,
+    ...(projects.length > 0 && { projects }),
+    intervalMinutes,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sync
+// ---------------------------------------------------------------------------
+
+/**
+ * What to sync
+ */
+export interface MirrorSyncOptions {
+  /** Projects to sync (IDs, OIDs or names); all projects if undefined */
+  projects?: string[];
+  /** Refetch the comments of every task, not only new and changed ones */
+  full?: boolean;
+}
+
+/**
+ * Outcome of syncing one project
+ */
+export interface MirrorProjectReport {
+  projectId: string;
+  name: string;
+  /** Tasks added, changed and removed; undefined if the sync failed */
+  changes?: MirrorTaskChanges;
+  /** True if the task tree hit a size or depth limit */
+  truncated?: boolean;
+  /** Why the project could not be synced */
+  error?: string;
+}
+
+/**
+ * Outcome of a sync
+ */
+export interface MirrorSyncReport {
+  syncedAt: string;
+  /**
+   * True if anything was left for the next sync to keep rate limit budget
+   * for tools; the mirror's sync time is then not advanced
+   */
+  partial: boolean;
+  organizations: number;
+  projects: MirrorProjectReport[];
+  /** Requested projects that are not accessible */
+  unknownProjects: string[];
+  /** Projects left for the next sync to keep rate limit budget for tools */
+  deferredProjects: string[];
+  /** Tasks whose comments were fetched */
+  commentsFetched: number;
+  /** Tasks whose comments are left for later syncs */
+  commentsPending: number;
+}
+
+function matchesProject(project: QuireProject, ref: string): boolean {
+  return (
+    project.oid === ref ||
+    project.id === ref ||
+    project.name.toLowerCase() === ref.toLowerCase()
+  );
+}
+
+/**
+ * Sync one project. Returns undefined, leaving the project's data as it
+ * was, when the budget ran out during the task tree walk.
+ */
+async function syncProject(
+  client: QuireClient,
+  mirror: QuireMirror,
+  project: QuireProject,
+  syncedAt: Date,
+  hasBudget: () => boolean
+): Promise<MirrorProjectReport | undefined> {
+  const report = { projectId: project.id, name: project.name };
+  const failed = (error: QuireClientError): MirrorProjectReport => ({
+    ...report,
+    error: error.message,
+  });
+  const tree = await client.getTaskTree(project.oid, {
+    maxNodes: MIRROR_MAX_TASKS,
+    maxDepth: MIRROR_MAX_DEPTH,
+    shouldContinue: hasBudget,
+  });
+  if (!tree.success) {
+    return failed(tree.error);
+  }
+  if (tree.data.limitReached === "stopped") {
+    return undefined;
+  }
+  const [tags, statuses, documents] = await Promise.all([
+    client.listTags(project.oid),
+    client.listStatuses(project.oid),
+    client.listDocuments("project", project.oid),
+  ]);
+  if (!tags.success) {
+    return failed(tags.error);
+  }
+  if (!statuses.success) {
+    return failed(statuses.error);
+  }
+  if (!documents.success) {
+    return failed(documents.error);
+  }
+
+  let changes: MirrorTaskChanges;
+  try {
+    changes = mirror.saveProjectData(
+      project.oid,
+      {
+        roots: tree.data.roots,
+        truncated: tree.data.truncated,
+        tags: tags.data,
+        statuses: statuses.data,
+        documents: documents.data,
+      },
+      syncedAt
+    );
+  } catch (err) {
+    // The write was rolled back, so the project keeps its earlier data
+    return {
+      ...report,
+      error: `Failed to write the mirror: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  return { ...report, changes, truncated: tree.data.truncated };
+}
+
+/**
+ * Bring the mirror up to date. Fails only if organizations or projects
+ * cannot be listed; a project that fails to sync keeps its earlier data
+ * and is reported with the error, and projects not reached before the rate
+ * limit reserve are reported as deferred. The mirror's sync time only
+ * advances when nothing was deferred.
+ */
+export async function syncMirror(
+  client: QuireClient,
+  mirror: QuireMirror,
+  options: MirrorSyncOptions = {},
+  now: Date = new Date()
+): Promise<QuireResult<MirrorSyncReport>> {
+  const organizations = await client.listOrganizations();
+  if (!organizations.success) {
+    return organizations;
+  }
+  const projects = await client.listProjects();
+  if (!projects.success) {
+    return projects;
+  }
+  mirror.saveOrganizations(organizations.data);
+  mirror.saveProjects(projects.data);
+
+  const refs = options.projects;
+  const selected = refs
+    ? projects.data.filter((project) =>
+        refs.some((ref) => matchesProject(project, ref))
+      )
+    : projects.data;
+  const unknownProjects = (refs ?? []).filter(
+    (ref) => !projects.data.some((project) => matchesProject(project, ref))
+  );
+
+  const hasBudget = (): boolean =>
+    hasBackgroundBudget(client.getRateLimitBudget());
+
+  let partial = false;
+  for (const organization of organizations.data) {
+    if (!hasBudget()) {
+      partial = true;
+      break;
+    }
+    const documents = await client.listDocuments(
+      "organization",
+      organization.oid
+    );
+    // Not every member may list an organization's documents
+    if (documents.success) {
+      mirror.saveOrganizationDocuments(organization.oid, documents.data);
+    }
+  }
+
+  // Projects synced longest ago (or never) go first, so projects deferred
+  // by one sync are not deferred again by the next
+  const lastSynced = (project: QuireProject): string =>
+    mirror.getProjectSync(project.oid)?.syncedAt ?? "";
+  const ordered = [...selected].sort((a, b) =>
+    lastSynced(a).localeCompare(lastSynced(b))
+  );
+  const reports: MirrorProjectReport[] = [];
+  const deferredProjects: string[] = [];
+  for (const project of ordered) {
+    const report =
+      deferredProjects.length === 0 && hasBudget()
+        ? await syncProject(client, mirror, project, now, hasBudget)
+        : undefined;
+    if (report) {
+      reports.push(report);
+    } else {
+      deferredProjects.push(project.id);
+    }
+  }
+
+  const projectOids = selected.map((project) => project.oid);
+  if (options.full) {
+    mirror.resetComments(projectOids);
+  }
+  const pending = mirror.pendingCommentTasks(
+    projectOids,
+    MIRROR_COMMENT_FETCHES_PER_SYNC
+  );
+  const fetched = await mapWithConcurrency(
+    pending,
+    MIRROR_SYNC_CONCURRENCY,
+    async (task) => {
+      if (!hasBudget()) {
+        partial = true;
+        return false;
+      }
+      const comments = await client.listTaskComments(task.oid);
+      if (comments.success) {
+        mirror.saveComments(task.oid, comments.data);
+      }
+      return comments.success;
+    }
+  );
+
+  partial ||= deferredProjects.length > 0;
+  if (!partial) {
+    mirror.setSyncedAt(now);
+  }
+  return {
+    success: true,
+    data: {
+      syncedAt: now.toISOString(),
+      partial,
+      organizations: organizations.data.length,
+      projects: reports,
+      unknownProjects,
+      deferredProjects,
+      commentsFetched: fetched.filter(Boolean).length,
+      commentsPending: mirror.getStatus().pendingComments,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Schedule
+// ---------------------------------------------------------------------------
+
+/**
+ * Run one scheduled sync, logging what failed
+ */
+/** @internal Exported for testing */
+export async function runScheduledMirrorSync(
+  config: MirrorConfig,
+  mirror: QuireMirror,
+  createClient: () => Promise<QuireResult<QuireClient>>
+): Promise<void> {
+  const client = await createClient();
+  if (!client.success) {
+    console.error(`[quire-mcp] Mirror sync skipped: ${client.error.message}`);
+    return;
+  }
+  try {
+    const report = await syncMirror(
+      client.data,
+      mirror,
+      config.projects ? { projects: config.projects } : {}
+    );
+    if (!report.success) {
+      console.error(`[quire-mcp] Mirror sync failed: ${report.error.message}`);
+      return;
+    }
+    for (const project of report.data.projects) {
+      if (project.error !== undefined) {
+        console.error(
+          `[quire-mcp] Mirror sync of ${project.projectId} failed: ${project.error}`
+        );
+      }
+    }
+    if (report.data.unknownProjects.length > 0) {
+      console.error(
+        `[quire-mcp] Mirror projects not found: ${report.data.unknownProjects.join(", ")}`
+      );
+    }
+    if (report.data.deferredProjects.length > 0) {
+      console.error(
+        `[quire-mcp] Mirror sync of ${report.data.deferredProjects.join(", ")} deferred to keep rate limit budget for tool calls`
+      );
+    } else if (report.data.partial) {
+      console.error(
+        "[quire-mcp] Mirror sync left some documents or comments for the next sync to keep rate limit budget for tool calls"
+      );
+    }
+  } catch (err) {
+    console.error("[quire-mcp] Failed to write the local mirror:", err);
+  }
+}
+
+/**
+ * Sync now and then on every interval, skipping a run while the previous
+ * one is still going. The timer does not keep the process alive. Returns
+ * a function that stops the schedule.
+ */
+export function startMirrorSync(
+  config: MirrorConfig,
+  mirror: QuireMirror,
+  createClient: () => Promise<QuireResult<QuireClient>> = createClientFromAuth
+): () => void {
+  let running = false;
+  const run = (): void => {
+    if (running) {
+      return;
+    }
+    running = true;
+    void runScheduledMirrorSync(config, mirror, createClient).finally(() => {
+      running = false;
+    });
+  };
+  run();
+  const timer = setInterval(run, config.intervalMinutes * 60 * 1000);
+  timer.unref();
+  console.error(
+    `[quire-mcp] Mirroring ${config.projects?.join(", ") ?? "all projects"} to ${config.path} every ${String(config.intervalMinutes)} minutes`
+  );
+  return () => {
+    clearInterval(timer);
+  };
+}
+
+/**
+ * Open the mirror, make it available to tools and start syncing it.
+ * Returns a function that stops the schedule, or undefined if the mirror
+ * could not be opened.
+ */
+export async function enableMirror(
+  config: MirrorConfig,
+  createClient: () => Promise<QuireResult<QuireClient>> = createClientFromAuth
+): Promise<(() => void) | undefined> {
+  let mirror: QuireMirror;
+  try {
+    mirror = await QuireMirror.open(config.path);
+  } catch (err) {
+    console.error(
+      `[quire-mcp] Failed to open the local mirror at ${config.path}:`,
+      err
+    );
+    return undefined;
+  }
+  setSharedMirror(mirror);
+  return startMirrorSync(config, mirror, createClient);
+}
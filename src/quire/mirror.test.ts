@@ -0,0 +1,394 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import {
+  getSharedMirror,
+  QuireMirror,
+  setSharedMirror,
+  toFtsQuery,
+  type MirrorProjectData,
+} from "./mirror.js";
+import type { QuireProject, QuireTaskTreeNode } from "./types.js";
+
+const web = {
+  oid: "P1",
+  id: "web",
+  name: "Website",
+  organization: { oid: "O1", id: "acme", name: "Acme" },
+} as QuireProject;
+const api = { oid: "P2", id: "api", name: "API" } as QuireProject;
+
+function node(
+  oid: string,
+  id: number,
+  name: string,
+  fields: Partial<QuireTaskTreeNode> = {}
+): QuireTaskTreeNode {
+  return { oid, id, name, children: [], ...fields };
+}
+
+function projectData(
+  roots: QuireTaskTreeNode[],
+  fields: Partial<MirrorProjectData> = {}
+): MirrorProjectData {
+  return {
+    roots,
+    truncated: false,
+    tags: [],
+    statuses: [],
+    documents: [],
+    ...fields,
+  };
+}
+
+const comment = (oid: string, text: string): never =>
+  ({
+    oid,
+    description: text,
+    descriptionText: text,
+    createdAt: "2026-10-18T10:00:00Z",
+    createdBy: { id: "ann", name: "Ann" },
+  }) as never;
+
+describe("toFtsQuery", () => {
+  it("should quote each word and keep prefix stars", () => {
+    expect(toFtsQuery('  launch pl* "beta" OR ')).toBe(
+      '"launch" "pl"* """beta""" "OR"'
+    );
+    expect(toFtsQuery(" * ")).toBe("");
+  });
+});
+
+describe("QuireMirror", () => {
+  let mirror: QuireMirror;
+  const syncedAt = new Date("2026-10-19T09:30:00Z");
+
+  beforeEach(() => {
+    mirror = new QuireMirror(new DatabaseSync(":memory:"));
+    mirror.saveOrganizations([{ oid: "O1", id: "acme", name: "Acme" }]);
+    mirror.saveProjects([web, api]);
+  });
+
+  afterEach(() => {
+    mirror.close();
+  });
+
+  it("should store organizations and projects", () => {
+    expect(mirror.listOrganizations().map((org) => org.id)).toEqual(["acme"]);
+    expect(mirror.listProjects().map((p) => p.id)).toEqual(["web", "api"]);
+    expect(mirror.listProjects("acme").map((p) => p.id)).toEqual(["web"]);
+    expect(mirror.getProject("P2")?.name).toBe("API");
+    expect(mirror.getProject("api")?.oid).toBe("P2");
+    expect(mirror.getProject("nope")).toBeUndefined();
+    expect(mirror.getProjectSync("P1")).toBeUndefined();
+  });
+
+  it("should store a project's task tree, tags, statuses and documents", () => {
+    const changes = mirror.saveProjectData(
+      "P1",
+      projectData(
+        [
+          node("T1", 1, "Launch", {
+            children: [node("T3", 3, "Press kit"), node("T4", 4, "Blog post")],
+          }),
+          node("T2", 2, "Retro"),
+        ],
+        {
+          truncated: true,
+          tags: [{ oid: "G1", id: 7, name: "bug" }],
+          statuses: [
+            { value: 100, name: "Done" },
+            { value: 0, name: "To-Do" },
+          ],
+          documents: [{ oid: "D1", id: "plan", name: "Plan" }],
+        }
+      ),
+      syncedAt
+    );
+
+    expect(changes).toEqual({ created: 4, updated: 0, deleted: 0 });
+    expect(mirror.listTasks("P1").map((t) => t.id)).toEqual([1, 2]);
+    expect(mirror.listTasks("P1", "T1").map((t) => t.id)).toEqual([3, 4]);
+    expect(mirror.listTasks("P1", "T1")[0]).toEqual({
+      oid: "T3",
+      id: 3,
+      name: "Press kit",
+    });
+    expect(mirror.getTask("T4")?.name).toBe("Blog post");
+    expect(mirror.getTask("P1", 2)?.oid).toBe("T2");
+    expect(mirror.getTask("P1", 9)).toBeUndefined();
+    expect(mirror.listTags("P1").map((t) => t.name)).toEqual(["bug"]);
+    expect(mirror.listStatuses("P1").map((s) => s.value)).toEqual([0, 100]);
+    expect(mirror.listDocuments("P1").map((d) => d.id)).toEqual(["plan"]);
+    expect(mirror.getProjectSync("P1")).toEqual({
+      syncedAt: "2026-10-19T09:30:00.000Z",
+      truncated: true,
+    });
+  });
+
+  it("should only rewrite changed tasks and remove deleted ones", () => {
+    mirror.saveProjectData(
+      "P1",
+      projectData([
+        node("T1", 1, "Launch", { children: [node("T3", 3, "Press kit")] }),
+        node("T2", 2, "Retro"),
+      ]),
+      syncedAt
+    );
+    mirror.saveComments("T1", [comment("C1", "Ship it")]);
+    mirror.saveComments("T2", [comment("C2", "Good retro")]);
+    mirror.saveComments("T3", [comment("C3", "Draft ready")]);
+
+    const changes = mirror.saveProjectData(
+      "P1",
+      projectData([
+        node("T1", 1, "Launch v2"),
+        node("T2", 2, "Retro", { children: [node("T5", 5, "Notes")] }),
+      ]),
+      syncedAt
+    );
+
+    expect(changes).toEqual({ created: 1, updated: 1, deleted: 1 });
+    expect(mirror.getTask("T3")).toBeUndefined();
+    expect(mirror.listComments("T3")).toBeUndefined();
+    expect(mirror.search("draft", { limit: 10 }).total).toBe(0);
+    // Changed and new tasks need their comments fetched again
+    expect(mirror.pendingCommentTasks(["P1"], 10)).toEqual([
+      { oid: "T1", projectOid: "P1" },
+      { oid: "T5", projectOid: "P1" },
+    ]);
+    expect(mirror.listComments("T1")).toBeUndefined();
+    expect(mirror.listComments("T2")).toMatchObject([{ oid: "C2" }]);
+    expect(mirror.search("launch", { limit: 10 }).hits).toMatchObject([
+      { kind: "task", oid: "T1", task: { name: "Launch v2" } },
+    ]);
+  });
+
+  it("should keep tasks missing from a truncated tree", () => {
+    mirror.saveProjectData(
+      "P1",
+      projectData([
+        node("T1", 1, "Launch", { children: [node("T3", 3, "Press kit")] }),
+        node("T2", 2, "Retro"),
+      ]),
+      syncedAt
+    );
+    mirror.saveComments("T3", [comment("C3", "Draft ready")]);
+
+    const changes = mirror.saveProjectData(
+      "P1",
+      projectData([node("T1", 1, "Launch")], { truncated: true }),
+      syncedAt
+    );
+
+    expect(changes).toEqual({ created: 0, updated: 0, deleted: 0 });
+    expect(mirror.getTask("T2")).toBeDefined();
+    expect(mirror.listComments("T3")).toMatchObject([{ oid: "C3" }]);
+    expect(mirror.search("draft", { limit: 10 }).total).toBe(1);
+  });
+
+  it("should store comments and mark tasks for refetching", () => {
+    mirror.saveProjectData(
+      "P1",
+      projectData([node("T1", 1, "Launch"), node("T2", 2, "Retro")]),
+      syncedAt
+    );
+    mirror.saveComments("T1", [
+      comment("C1", "First"),
+      comment("C2", "Second"),
+    ]);
+    // Tasks that are not mirrored are ignored
+    mirror.saveComments("T9", [comment("C9", "Lost")]);
+
+    expect(mirror.listComments("T1")?.map((c) => c.oid)).toEqual(["C1", "C2"]);
+    expect(mirror.listComments("T9")).toBeUndefined();
+    expect(mirror.pendingCommentTasks(["P1"], 10)).toEqual([
+      { oid: "T2", projectOid: "P1" },
+    ]);
+
+    mirror.resetComments(["P1"]);
+    expect(mirror.pendingCommentTasks(["P1"], 1)).toHaveLength(1);
+    expect(mirror.pendingCommentTasks(["P1"], 10)).toHaveLength(2);
+    expect(mirror.pendingCommentTasks(["P2"], 10)).toEqual([]);
+  });
+
+  it("should search task names, descriptions and comments", () => {
+    mirror.saveProjectData(
+      "P1",
+      projectData([
+        node("T1", 1, "Launch website", {
+          descriptionText: "Coordinate the release",
+        }),
+        node("T2", 2, "Café menu"),
+      ]),
+      syncedAt
+    );
+    mirror.saveProjectData(
+      "P2",
+      projectData([node("T8", 8, "Release API")]),
+      syncedAt
+    );
+    mirror.saveComments("T1", [comment("C1", "Release notes are drafted")]);
+
+    const release = mirror.search("release", { limit: 10 });
+    expect(release.total).toBe(3);
+    expect(release.hits.map((hit) => [hit.kind, hit.oid]).sort()).toEqual([
+      ["comment", "C1"],
+      ["task", "T1"],
+      ["task", "T8"],
+    ]);
+    expect(release.hits.find((hit) => hit.oid === "C1")?.snippet).toContain(
+      "**Release**"
+    );
+
+    const inWeb = mirror.search("releas*", { projectOids: ["P1"], limit: 1 });
+    expect(inWeb.total).toBe(2);
+    expect(inWeb.hits).toHaveLength(1);
+
+    // Diacritics are ignored, operators taken literally
+    expect(mirror.search("cafe", { limit: 10 }).hits[0]?.oid).toBe("T2");
+    expect(mirror.search("launch OR retro", { limit: 10 }).total).toBe(0);
+    expect(mirror.search("  ", { limit: 10 })).toEqual({ hits: [], total: 0 });
+  });
+
+  it("should drop the data of projects no longer listed", () => {
+    mirror.saveProjectData(
+      "P2",
+      projectData([node("T8", 8, "Release API")], {
+        documents: [{ oid: "D2", id: "spec", name: "Spec" }],
+      }),
+      syncedAt
+    );
+    mirror.saveOrganizationDocuments("O1", [
+      { oid: "D1", id: "handbook", name: "Handbook" },
+    ]);
+
+    mirror.saveProjects([web]);
+
+    expect(mirror.getProject("api")).toBeUndefined();
+    expect(mirror.getTask("T8")).toBeUndefined();
+    expect(mirror.listDocuments("P2")).toEqual([]);
+    expect(mirror.listDocuments("O1").map((d) => d.id)).toEqual(["handbook"]);
+    expect(mirror.search("release", { limit: 10 }).total).toBe(0);
+  });
+
+  it("should report what it holds", () => {
+    expect(mirror.getStatus()).toEqual({
+      organizations: 1,
+      projects: 2,
+      syncedProjects: 0,
+      tasks: 0,
+      comments: 0,
+      documents: 0,
+      pendingComments: 0,
+    });
+
+    mirror.saveProjectData(
+      "P1",
+      projectData([node("T1", 1, "Launch"), node("T2", 2, "Retro")]),
+      syncedAt
+    );
+    mirror.saveComments("T1", [comment("C1", "Ship it")]);
+    mirror.setSyncedAt(syncedAt);
+
+    expect(mirror.getSyncedAt()).toBe("2026-10-19T09:30:00.000Z");
+    expect(mirror.getStatus()).toMatchObject({
+      syncedAt: "2026-10-19T09:30:00.000Z",
+      syncedProjects: 1,
+      tasks: 2,
+      comments: 1,
+      pendingComments: 1,
+    });
+  });
+
+  it("should take over the rows of tasks moved from another project", () => {
+    mirror.saveProjectData(
+      "P1",
+      projectData([node("T1", 1, "Launch")]),
+      syncedAt
+    );
+    mirror.saveComments("T1", [comment("C1", "Ship it")]);
+
+    const changes = mirror.saveProjectData(
+      "P2",
+      projectData([node("T1", 7, "Launch")]),
+      syncedAt
+    );
+
+    expect(changes).toEqual({ created: 1, updated: 0, deleted: 0 });
+    expect(mirror.listTasks("P2").map((t) => t.id)).toEqual([7]);
+    expect(mirror.listTasks("P1")).toEqual([]);
+    expect(
+      mirror.search("ship", { projectOids: ["P2"], limit: 10 }).total
+    ).toBe(1);
+    expect(mirror.pendingCommentTasks(["P2"], 10)).toEqual([
+      { oid: "T1", projectOid: "P2" },
+    ]);
+
+    // The old project no longer lists the task, and leaves it alone
+    expect(mirror.saveProjectData("P1", projectData([]), syncedAt)).toEqual({
+      created: 0,
+      updated: 0,
+      deleted: 0,
+    });
+    expect(mirror.getTask("T1")?.id).toBe(7);
+  });
+
+  it("should roll back a write that fails", () => {
+    mirror.saveProjectData(
+      "P1",
+      projectData([node("T1", 1, "Launch")]),
+      syncedAt
+    );
+
+    expect(() =>
+      mirror.saveProjectData(
+        "P1",
+        projectData([
+          node("T1", 1, "Launch v2"),
+          node("T2", null as never, "No ID"),
+        ]),
+        syncedAt
+      )
+    ).toThrow();
+    expect(mirror.getTask("T1")?.name).toBe("Launch");
+  });
+});
+
+describe("QuireMirror.open", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "quire-mirror-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create the database file readable only by its owner", async () => {
+    const path = join(dir, "nested", "mirror.db");
+    const mirror = await QuireMirror.open(path);
+    mirror.saveProjects([web]);
+    mirror.close();
+
+    const reopened = await QuireMirror.open(path);
+    expect(reopened.listProjects().map((p) => p.id)).toEqual(["web"]);
+    reopened.close();
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe("getSharedMirror", () => {
+  it("should return the mirror that was set", () => {
+    const mirror = new QuireMirror(new DatabaseSync(":memory:"));
+    setSharedMirror(mirror);
+    expect(getSharedMirror()).toBe(mirror);
+
+    setSharedMirror(undefined);
+    expect(getSharedMirror()).toBeUndefined();
+    mirror.close();
+  });
+});
@@ -0,0 +1,784 @@
+/**
+ * Local Mirror
+ *
+ * An opt-in SQLite copy of the organizations, projects, tasks, tags,
+ * statuses, comments and documents the user can access, kept in the
+ * database at QUIRE_MIRROR_PATH. Analytical tools can read from it instead
+ * of refetching whole projects over the rate-limited API, and an FTS5
+ * index over task names, descriptions and comments backs
+ * quire.localSearch.
+ *
+ * Each item is stored as the JSON the API returned. Writes compare it with
+ * the stored copy, so a sync only rewrites what changed and knows which
+ * tasks need their comments fetched again. Uses Node's built-in
+ * node:sqlite module, loaded only when the mirror is opened.
+ */
+
+import { chmodSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { DatabaseSync, SQLOutputValue } from "node:sqlite";
+import type {
+  QuireComment,
+  QuireDocument,
+  QuireOrganization,
+  QuireProject,
+  QuireStatus,
+  QuireTag,
+  QuireTask,
+  QuireTaskTreeNode,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * A project's tasks and settings as fetched by a sync
+ */
+export interface MirrorProjectData {
+  roots: QuireTaskTreeNode[];
+  /** True if the task tree hit a size or depth limit */
+  truncated: boolean;
+  tags: QuireTag[];
+  statuses: QuireStatus[];
+  documents: QuireDocument[];
+}
+
+/**
+ * Number of tasks a sync added, changed and removed
+ */
+export interface MirrorTaskChanges {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+/**
+ * When a project's data was last synced
+ */
+export interface MirrorProjectSync {
+  syncedAt: string;
+  truncated: boolean;
+}
+
+/**
+ * A task that still needs its comments fetched
+ */
+export interface MirrorPendingTask {
+  oid: string;
+  projectOid: string;
+}
+
+/**
+ * A full-text search match: a task, or a comment on one
+ */
+export interface MirrorSearchHit {
+  kind: "task" | "comment";
+  /** The comment's OID for comment matches, else the task's */
+  oid: string;
+  projectOid: string;
+  task: QuireTask;
+  /** Matching text with the matched words in bold */
+  snippet: string;
+}
+
+/**
+ * What the mirror holds
+ */
+export interface MirrorStatus {
+  /** When the last sync finished; undefined if it never ran */
+  syncedAt?: string;
+  organizations: number;
+  projects: number;
+  /** Projects whose tasks have been synced */
+  syncedProjects: number;
+  tasks: number;
+  comments: number;
+  documents: number;
+  /** Tasks whose comments have not been fetched since they changed */
+  pendingComments: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseRows<T>(rows: Record<string, SQLOutputValue>[]): T[] {
+  return rows.map((row) => JSON.parse(String(row["data"])) as T);
+}
+
+function placeholders(values: readonly unknown[]): string {
+  return values.map(() => "?").join(", ");
+}
+
+/**
+ * Turn search text into an FTS5 query that matches documents containing
+ * every word. Words are quoted so FTS5 operators in the text are taken
+ * literally; a trailing '*' keeps its prefix-match meaning.
+ */
+/** @internal Exported for testing */
+export function toFtsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .filter((word) => word.replace(/\*+$/, "") !== "")
+    .map((word) => {
+      const prefix = word.endsWith("*");
+      const quoted = `"${word.replace(/\*+$/, "").replaceAll('"', '""')}"`;
+      return prefix ? `${quoted}*` : quoted;
+    })
+    .join(" ");
+}
+
+/** Task data without children, as stored */
+function taskData(node: QuireTaskTreeNode): string {
+  const { children: _children, ...task } = node;
+  return JSON.stringify(task);
+}
+
+// ---------------------------------------------------------------------------
+// Mirror
+// ---------------------------------------------------------------------------
+
+/**
+ * The local mirror database
+ */
+export class QuireMirror {
+  private readonly db: DatabaseSync;
+
+  /**
+   * Use an open database, creating the mirror's tables if needed
+   */
+  constructor(db: DatabaseSync) {
+    this.db = db;
+    db.exec(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS organizations (
+        oid TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS projects (
+        oid TEXT PRIMARY KEY,
+        id TEXT NOT NULL,
+        organization_oid TEXT,
+        data TEXT NOT NULL,
+        synced_at TEXT,
+        truncated INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE TABLE IF NOT EXISTS tasks (
+        oid TEXT PRIMARY KEY,
+        project_oid TEXT NOT NULL,
+        id INTEGER NOT NULL,
+        parent_oid TEXT,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        comments_synced INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS tasks_parent
+        ON tasks (project_oid, parent_oid, position);
+      CREATE TABLE IF NOT EXISTS tags (
+        project_oid TEXT NOT NULL,
+        oid TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (project_oid, oid)
+      );
+      CREATE TABLE IF NOT EXISTS statuses (
+        project_oid TEXT NOT NULL,
+        value INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (project_oid, value)
+      );
+      CREATE TABLE IF NOT EXISTS comments (
+        oid TEXT PRIMARY KEY,
+        task_oid TEXT NOT NULL,
+        project_oid TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS comments_task ON comments (task_oid);
+      CREATE TABLE IF NOT EXISTS documents (
+        owner_oid TEXT NOT NULL,
+        oid TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (owner_oid, oid)
+      );
+      CREATE VIRTUAL TABLE IF NOT EXISTS search USING fts5(
+        name,
+        body,
+        kind UNINDEXED,
+        oid UNINDEXED,
+        task_oid UNINDEXED,
+        project_oid UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+  }
+
+  /**
+   * Open (or create) the mirror database at a path. The file is only
+   * readable by the current user.
+   */
+  static async open(path: string): Promise<QuireMirror> {
+    const { DatabaseSync } = await import("node:sqlite");
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+    const db = new DatabaseSync(path);
+    chmodSync(path, 0o600);
+    return new QuireMirror(db);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // -------------------------------------------------------------------------
+  // Writes
+  // -------------------------------------------------------------------------
+
+  /**
+   * Run writes in one transaction, rolling back if any of them fails
+   */
+  private transaction<T>(write: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = write();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  /**
+   * Replace the stored organizations
+   */
+  saveOrganizations(organizations: QuireOrganization[]): void {
+    this.transaction(() => {
+      this.db.exec("DELETE FROM organizations");
+      const insert = this.db.prepare(
+        "INSERT OR REPLACE INTO organizations (oid, data) VALUES (?, ?)"
+      );
+      for (const organization of organizations) {
+        insert.run(organization.oid, JSON.stringify(organization));
+      }
+    });
+  }
+
+  /**
+   * Replace the stored project list. Projects no longer listed are removed
+   * along with their tasks, comments, tags, statuses and documents;
+   * the synced data of the others is kept.
+   */
+  saveProjects(projects: QuireProject[]): void {
+    this.transaction(() => {
+      const listed = new Set(projects.map((project) => project.oid));
+      const stored = this.db
+        .prepare("SELECT oid FROM projects")
+        .all()
+        .map((row) => String(row["oid"]));
+      for (const oid of stored.filter((oid) => !listed.has(oid))) {
+        this.deleteProject(oid);
+      }
+
+      const upsert = this.db.prepare(
+        "INSERT INTO projects (oid, id, organization_oid, data) " +
+          "VALUES (?, ?, ?, ?) ON CONFLICT (oid) DO UPDATE SET " +
+          "id = excluded.id, organization_oid = excluded.organization_oid, " +
+          "data = excluded.data"
+      );
+      for (const project of projects) {
+        upsert.run(
+          project.oid,
+          project.id,
+          project.organization?.oid ?? null,
+          JSON.stringify(project)
+        );
+      }
+    });
+  }
+
+  private deleteProject(oid: string): void {
+    this.db.prepare("DELETE FROM projects WHERE oid = ?").run(oid);
+    for (const table of ["tasks", "tags", "statuses", "comments", "search"]) {
+      this.db.prepare(`DELETE FROM ${table} WHERE project_oid = ?`).run(oid);
+    }
+    this.db.prepare("DELETE FROM documents WHERE owner_oid = ?").run(oid);
+  }
+
+  /**
+   * Store a project's synced tasks, tags, statuses and documents. Tasks
+   * that are new or whose data changed are marked as needing their
+   * comments fetched; tasks no longer in the tree are removed with their
+   * comments, unless the tree was truncated and so may lack them.
+   */
+  saveProjectData(
+    projectOid: string,
+    data: MirrorProjectData,
+    syncedAt: Date
+  ): MirrorTaskChanges {
+    return this.transaction(() => {
+      const changes = this.saveTasks(projectOid, data.roots, data.truncated);
+
+      this.db.prepare("DELETE FROM tags WHERE project_oid = ?").run(projectOid);
+      const insertTag = this.db.prepare(
+        "INSERT OR REPLACE INTO tags (project_oid, oid, position, data) " +
+          "VALUES (?, ?, ?, ?)"
+      );
+      data.tags.forEach((tag, position) => {
+        insertTag.run(projectOid, tag.oid, position, JSON.stringify(tag));
+      });
+
+      this.db
+        .prepare("DELETE FROM statuses WHERE project_oid = ?")
+        .run(projectOid);
+      const insertStatus = this.db.prepare(
+        "INSERT OR REPLACE INTO statuses (project_oid, value, data) " +
+          "VALUES (?, ?, ?)"
+      );
+      for (const status of data.statuses) {
+        insertStatus.run(projectOid, status.value, JSON.stringify(status));
+      }
+
+      this.writeDocuments(projectOid, data.documents);
+      this.db
+        .prepare(
+          "UPDATE projects SET synced_at = ?, truncated = ? WHERE oid = ?"
+        )
+        .run(syncedAt.toISOString(), data.truncated ? 1 : 0, projectOid);
+      return changes;
+    });
+  }
+
+  private saveTasks(
+    projectOid: string,
+    roots: QuireTaskTreeNode[],
+    truncated: boolean
+  ): MirrorTaskChanges {
+    const stored = new Map(
+      this.db
+        .prepare("SELECT oid, data FROM tasks WHERE project_oid = ?")
+        .all(projectOid)
+        .map((row) => [String(row["oid"]), String(row["data"])])
+    );
+    // A task moved here from another project is still stored under that
+    // project until it syncs, so take its row over
+    const insert = this.db.prepare(
+      "INSERT INTO tasks (oid, project_oid, id, parent_oid, position, data) " +
+        "VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(oid) DO UPDATE SET " +
+        "project_oid = excluded.project_oid, id = excluded.id, " +
+        "parent_oid = excluded.parent_oid, position = excluded.position, " +
+        "data = excluded.data, comments_synced = 0"
+    );
+    const moveComments = this.db.prepare(
+      "UPDATE comments SET project_oid = ? WHERE task_oid = ?"
+    );
+    const moveSearch = this.db.prepare(
+      "UPDATE search SET project_oid = ? WHERE task_oid = ?"
+    );
+    const update = this.db.prepare(
+      "UPDATE tasks SET parent_oid = ?, position = ?, data = ?, " +
+        "comments_synced = 0 WHERE oid = ?"
+    );
+    const move = this.db.prepare(
+      "UPDATE tasks SET parent_oid = ?, position = ? WHERE oid = ?"
+    );
+    const changes: MirrorTaskChanges = { created: 0, updated: 0, deleted: 0 };
+
+    const walk = (
+      nodes: QuireTaskTreeNode[],
+      parentOid: string | null
+    ): void => {
+      nodes.forEach((node, position) => {
+        const data = taskData(node);
+        const previous = stored.get(node.oid);
+        stored.delete(node.oid);
+        if (previous === undefined) {
+          insert.run(node.oid, projectOid, node.id, parentOid, position, data);
+          moveComments.run(projectOid, node.oid);
+          moveSearch.run(projectOid, node.oid);
+          this.indexTask(node, projectOid);
+          changes.created++;
+        } else if (previous !== data) {
+          update.run(parentOid, position, data, node.oid);
+          this.indexTask(node, projectOid);
+          changes.updated++;
+        } else {
+          move.run(parentOid, position, node.oid);
+        }
+        walk(node.children, node.oid);
+      });
+    };
+    walk(roots, null);
+
+    // Whatever was not in the tree has been deleted, unless the tree was
+    // cut short by a size or depth limit
+    if (truncated) {
+      return changes;
+    }
+    for (const oid of stored.keys()) {
+      this.db.prepare("DELETE FROM tasks WHERE oid = ?").run(oid);
+      this.db.prepare("DELETE FROM comments WHERE task_oid = ?").run(oid);
+      this.db.prepare("DELETE FROM search WHERE task_oid = ?").run(oid);
+      changes.deleted++;
+    }
+    return changes;
+  }
+
+  private indexTask(task: QuireTask, projectOid: string): void {
+    this.db
+      .prepare("DELETE FROM search WHERE kind = 'task' AND oid = ?")
+      .run(task.oid);
+    this.db
+      .prepare(
+        "INSERT INTO search (name, body, kind, oid, task_oid, project_oid) " +
+          "VALUES (?, ?, 'task', ?, ?, ?)"
+      )
+      .run(
+        task.nameText ?? task.name,
+        task.descriptionText ?? task.description ?? "",
+        task.oid,
+        task.oid,
+        projectOid
+      );
+  }
+
+  /**
+   * Replace the stored documents of an organization
+   */
+  saveOrganizationDocuments(
+    organizationOid: string,
+    documents: QuireDocument[]
+  ): void {
+    this.transaction(() => {
+      this.writeDocuments(organizationOid, documents);
+    });
+  }
+
+  private writeDocuments(ownerOid: string, documents: QuireDocument[]): void {
+    this.db.prepare("DELETE FROM documents WHERE owner_oid = ?").run(ownerOid);
+    const insert = this.db.prepare(
+      "INSERT OR REPLACE INTO documents (owner_oid, oid, position, data) " +
+        "VALUES (?, ?, ?, ?)"
+    );
+    documents.forEach((document, position) => {
+      insert.run(ownerOid, document.oid, position, JSON.stringify(document));
+    });
+  }
+
+  /**
+   * Replace a task's stored comments and mark them as fetched
+   */
+  saveComments(taskOid: string, comments: QuireComment[]): void {
+    this.transaction(() => {
+      const row = this.db
+        .prepare("SELECT project_oid FROM tasks WHERE oid = ?")
+        .get(taskOid);
+      if (!row) {
+        return;
+      }
+      const projectOid = String(row["project_oid"]);
+
+      this.db.prepare("DELETE FROM comments WHERE task_oid = ?").run(taskOid);
+      this.db
+        .prepare("DELETE FROM search WHERE kind = 'comment' AND task_oid = ?")
+        .run(taskOid);
+      const insert = this.db.prepare(
+        "INSERT OR REPLACE INTO comments " +
+          "(oid, task_oid, project_oid, position, data) VALUES (?, ?, ?, ?, ?)"
+      );
+      const index = this.db.prepare(
+        "INSERT INTO search (name, body, kind, oid, task_oid, project_oid) " +
+          "VALUES ('', ?, 'comment', ?, ?, ?)"
+      );
+      comments.forEach((comment, position) => {
+        insert.run(
+          comment.oid,
+          taskOid,
+          projectOid,
+          position,
+          JSON.stringify(comment)
+        );
+        index.run(comment.descriptionText, comment.oid, taskOid, projectOid);
+      });
+      this.db
+        .prepare("UPDATE tasks SET comments_synced = 1 WHERE oid = ?")
+        .run(taskOid);
+    });
+  }
+
+  /**
+   * Mark every task of some projects as needing its comments fetched
+   */
+  resetComments(projectOids: string[]): void {
+    this.db
+      .prepare(
+        "UPDATE tasks SET comments_synced = 0 " +
+          `WHERE project_oid IN (${placeholders(projectOids)})`
+      )
+      .run(...projectOids);
+  }
+
+  /**
+   * Tasks of some projects whose comments need fetching, oldest first
+   */
+  pendingCommentTasks(
+    projectOids: string[],
+    limit: number
+  ): MirrorPendingTask[] {
+    return this.db
+      .prepare(
+        "SELECT oid, project_oid FROM tasks WHERE comments_synced = 0 " +
+          `AND project_oid IN (${placeholders(projectOids)}) ` +
+          "ORDER BY rowid LIMIT ?"
+      )
+      .all(...projectOids, limit)
+      .map((row) => ({
+        oid: String(row["oid"]),
+        projectOid: String(row["project_oid"]),
+      }));
+  }
+
+  /**
+   * Record when a sync finished
+   */
+  setSyncedAt(syncedAt: Date): void {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO meta (key, value) VALUES ('synced_at', ?)"
+      )
+      .run(syncedAt.toISOString());
+  }
+
+  // -------------------------------------------------------------------------
+  // Reads
+  // -------------------------------------------------------------------------
+
+  /**
+   * When the last sync finished, if one has
+   */
+  getSyncedAt(): string | undefined {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'synced_at'")
+      .get();
+    return row ? String(row["value"]) : undefined;
+  }
+
+  listOrganizations(): QuireOrganization[] {
+    return parseRows(
+      this.db.prepare("SELECT data FROM organizations ORDER BY rowid").all()
+    );
+  }
+
+  /**
+   * List stored projects, optionally only those of one organization
+   * (by ID or OID)
+   */
+  listProjects(organizationIdOrOid?: string): QuireProject[] {
+    if (organizationIdOrOid === undefined) {
+      return parseRows(
+        this.db.prepare("SELECT data FROM projects ORDER BY rowid").all()
+      );
+    }
+    return this.listProjects().filter(
+      (project) =>
+        project.organization?.oid === organizationIdOrOid ||
+        project.organization?.id === organizationIdOrOid
+    );
+  }
+
+  /**
+   * Get a stored project by ID or OID
+   */
+  getProject(idOrOid: string): QuireProject | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM projects WHERE oid = ? OR id = ?")
+      .get(idOrOid, idOrOid);
+    return row ? parseRows<QuireProject>([row])[0] : undefined;
+  }
+
+  /**
+   * When a project's data was last synced; undefined if it never was
+   */
+  getProjectSync(projectOid: string): MirrorProjectSync | undefined {
+    const row = this.db
+      .prepare("SELECT synced_at, truncated FROM projects WHERE oid = ?")
+      .get(projectOid);
+    if (typeof row?.["synced_at"] !== "string") {
+      return undefined;
+    }
+    return { syncedAt: row["synced_at"], truncated: row["truncated"] === 1 };
+  }
+
+  /**
+   * List a project's root tasks, or the subtasks of a task, in order
+   */
+  listTasks(projectOid: string, parentOid?: string): QuireTask[] {
+    return parseRows(
+      this.db
+        .prepare(
+          "SELECT data FROM tasks WHERE project_oid = ? " +
+            "AND parent_oid IS ? ORDER BY position"
+        )
+        .all(projectOid, parentOid ?? null)
+    );
+  }
+
+  /**
+   * Get a task by OID, or by project OID and task ID
+   */
+  getTask(oidOrProjectOid: string, taskId?: number): QuireTask | undefined {
+    const row =
+      taskId === undefined
+        ? this.db
+            .prepare("SELECT data FROM tasks WHERE oid = ?")
+            .get(oidOrProjectOid)
+        : this.db
+            .prepare("SELECT data FROM tasks WHERE project_oid = ? AND id = ?")
+            .get(oidOrProjectOid, taskId);
+    return row ? parseRows<QuireTask>([row])[0] : undefined;
+  }
+
+  listTags(projectOid: string): QuireTag[] {
+    return parseRows(
+      this.db
+        .prepare(
+          "SELECT data FROM tags WHERE project_oid = ? ORDER BY position"
+        )
+        .all(projectOid)
+    );
+  }
+
+  listStatuses(projectOid: string): QuireStatus[] {
+    return parseRows(
+      this.db
+        .prepare(
+          "SELECT data FROM statuses WHERE project_oid = ? ORDER BY value"
+        )
+        .all(projectOid)
+    );
+  }
+
+  /**
+   * List a task's comments; undefined if they have not been fetched
+   */
+  listComments(taskOid: string): QuireComment[] | undefined {
+    const task = this.db
+      .prepare("SELECT comments_synced FROM tasks WHERE oid = ?")
+      .get(taskOid);
+    if (task?.["comments_synced"] !== 1) {
+      return undefined;
+    }
+    return parseRows(
+      this.db
+        .prepare(
+          "SELECT data FROM comments WHERE task_oid = ? ORDER BY position"
+        )
+        .all(taskOid)
+    );
+  }
+
+  /**
+   * List the documents of a project or organization (by OID)
+   */
+  listDocuments(ownerOid: string): QuireDocument[] {
+    return parseRows(
+      this.db
+        .prepare(
+          "SELECT data FROM documents WHERE owner_oid = ? ORDER BY position"
+        )
+        .all(ownerOid)
+    );
+  }
+
+  /**
+   * Full-text search of task names, descriptions and comments, best
+   * matches first. Every word must match; a trailing '*' matches words
+   * starting with it.
+   */
+  search(
+    text: string,
+    options: { projectOids?: string[]; limit: number }
+  ): { hits: MirrorSearchHit[]; total: number } {
+    const query = toFtsQuery(text);
+    if (query === "") {
+      return { hits: [], total: 0 };
+    }
+    const projectOids = options.projectOids;
+    const projectFilter = projectOids
+      ? `AND search.project_oid IN (${placeholders(projectOids)})`
+      : "";
+    const params = [query, ...(projectOids ?? [])];
+
+    const total = this.db
+      .prepare(
+        `SELECT COUNT(*) AS total FROM search WHERE search MATCH ? ${projectFilter}`
+      )
+      .get(...params);
+    const hits = this.db
+      .prepare(
+        "SELECT search.kind, search.oid, search.project_oid, tasks.data, " +
+          "snippet(search, -1, '**', '**', '…', 16) AS snippet " +
+          "FROM search JOIN tasks ON tasks.oid = search.task_oid " +
+          `WHERE search MATCH ? ${projectFilter} ` +
+          "ORDER BY bm25(search, 2.0, 1.0) LIMIT ?"
+      )
+      .all(...params, options.limit)
+      .map((row) => ({
+        kind:
+          row["kind"] === "comment" ? ("comment" as const) : ("task" as const),
+        oid: String(row["oid"]),
+        projectOid: String(row["project_oid"]),
+        task: JSON.parse(String(row["data"])) as QuireTask,
+        snippet: String(row["snippet"]),
+      }));
+    return { hits, total: Number(total?.["total"] ?? 0) };
+  }
+
+  /**
+   * Count what the mirror holds
+   */
+  getStatus(): MirrorStatus {
+    const count = (sql: string): number =>
+      Number(this.db.prepare(sql).get()?.["n"] ?? 0);
+    const syncedAt = this.getSyncedAt();
+    return {
+      ...(syncedAt !== undefined && { syncedAt }),
+      organizations: count("SELECT COUNT(*) AS n FROM organizations"),
+      projects: count("SELECT COUNT(*) AS n FROM projects"),
+      syncedProjects: count(
+        "SELECT COUNT(*) AS n FROM projects WHERE synced_at IS NOT NULL"
+      ),
+      tasks: count("SELECT COUNT(*) AS n FROM tasks"),
+      comments: count("SELECT COUNT(*) AS n FROM comments"),
+      documents: count("SELECT COUNT(*) AS n FROM documents"),
+      pendingComments: count(
+        "SELECT COUNT(*) AS n FROM tasks WHERE comments_synced = 0"
+      ),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared Mirror
+// ---------------------------------------------------------------------------
+
+let sharedMirror: QuireMirror | undefined;
+
+/**
+ * Get the mirror opened at startup; undefined when it is not enabled
+ */
+export function getSharedMirror(): QuireMirror | undefined {
+  return sharedMirror;
+}
+
+/**
+ * Set (or clear) the mirror that tools read from
+ */
+export function setSharedMirror(mirror: QuireMirror | undefined): void {
+  sharedMirror = mirror;
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { QuireClient } from "./client.js";
+import { bucketByDue, collectMyTasks, type MyTask } from "./my-tasks.js";
+import { QuireClientError, type QuireTask } from "./types.js";
+import type { DateInputOptions } from "../utils/dates.js";
+
+// Monday 19 October 2026, 12:00 in Paris
+const options: DateInputOptions = {
+  timeZone: "Europe/Paris",
+  weekStart: 1,
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+const project = { oid: "P1", id: "web", name: "Web Site" };
+
+function myTask(id: number, due?: string): MyTask {
+  return {
+    oid: `t${String(id)}`,
+    id,
+    name: `Task ${String(id)}`,
+    ...(due && { due }),
+    project,
+    url: `https://quire.io/w/web?t=${String(id)}`,
+  };
+}
+
+describe("bucketByDue", () => {
+  it("should sort tasks into due buckets in the time zone", () => {
+    const { today, buckets } = bucketByDue(
+      [
+        myTask(1),
+        myTask(2, "2026-11-02"),
+        myTask(3, "2026-10-25"),
+        myTask(4, "2026-10-19"),
+        myTask(5, "2026-10-18T23:30:00Z"),
+        myTask(6, "2026-10-18"),
+      ],
+      options
+    );
+    const ids = (tasks: MyTask[]): number[] => tasks.map((t) => t.id);
+
+    expect(today).toBe("2026-10-19");
+    expect(ids(buckets.overdue)).toEqual([6]);
+    // 23:30 UTC on the 18th is already the 19th in Paris
+    expect(ids(buckets.today)).toEqual([5, 4]);
+    expect(ids(buckets.thisWeek)).toEqual([3]);
+    expect(ids(buckets.later)).toEqual([2]);
+    expect(ids(buckets.noDate)).toEqual([1]);
+  });
+
+  it("should order tasks due the same day by project then ID", () => {
+    const other = {
+      ...myTask(1, "2026-10-20"),
+      project: { ...project, name: "API" },
+    };
+
+    const { buckets } = bucketByDue(
+      [myTask(3, "2026-10-20"), myTask(2, "2026-10-20"), other],
+      options
+    );
+
+    expect(buckets.thisWeek.map((t) => t.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("collectMyTasks", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const task = (id: number, fields: Partial<QuireTask> = {}): QuireTask => ({
+    oid: `t${String(id)}`,
+    id,
+    name: `Task ${String(id)}`,
+    ...fields,
+  });
+
+  const organizations = [
+    { oid: "O1", id: "acme", name: "Acme" },
+    { oid: "O2", id: "labs", name: "Labs" },
+  ];
+
+  function createClient(overrides: Partial<QuireClient> = {}): QuireClient {
+    return {
+      getMe: vi.fn().mockResolvedValue({
+        success: true,
+        data: { oid: "U1", id: "ann", name: "Ann" },
+      }),
+      listOrganizations: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: organizations }),
+      searchOrganizationTasks: vi.fn((organizationOid: string) =>
+        Promise.resolve(
+          organizationOid === "O1"
+            ? {
+                success: true,
+                data: [
+                  task(1, {
+                    due: "2026-10-19",
+                    status: { value: 0, name: "To-Do" },
+                    url: "https://quire.io/w/web/1",
+                    project: { ...project, nameText: "Web Site" },
+                  }),
+                  task(2, { status: { value: 100, name: "Completed" } }),
+                ],
+              }
+            : {
+                success: false,
+                error: new QuireClientError("Forbidden", "FORBIDDEN", 403),
+              }
+        )
+      ),
+      ...overrides,
+    } as unknown as QuireClient;
+  }
+
+  it("should search each organization once for open tasks assigned to the user", async () => {
+    const client = createClient();
+
+    const result = await collectMyTasks(client, options);
+
+    expect(client.searchOrganizationTasks).toHaveBeenCalledTimes(2);
+    expect(client.searchOrganizationTasks).toHaveBeenCalledWith("O1", "", {
+      assigneeId: "ann",
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        user: { id: "ann", name: "Ann" },
+        timeZone: "Europe/Paris",
+        today: "2026-10-19",
+        total: 1,
+        buckets: {
+          overdue: [],
+          today: [
+            {
+              oid: "t1",
+              id: 1,
+              name: "Task 1",
+              status: { value: 0, name: "To-Do" },
+              due: "2026-10-19",
+              project,
+              url: "https://quire.io/w/web/1",
+            },
+          ],
+          thisWeek: [],
+          later: [],
+          noDate: [],
+        },
+        organizationCount: 2,
+        failedOrganizations: [
+          { organizationId: "labs", code: "FORBIDDEN", message: "Forbidden" },
+        ],
+        skippedOrganizations: [],
+      },
+    });
+  });
+
+  it("should build task links from the project when the API gives none", async () => {
+    vi.stubEnv("QUIRE_BASE_URL", "https://quire.example");
+    const client = createClient({
+      listOrganizations: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: [organizations[0]] }),
+      searchOrganizationTasks: vi.fn().mockResolvedValue({
+        success: true,
+        data: [task(7, { project }), task(8)],
+      }),
+    });
+
+    const result = await collectMyTasks(client, options);
+
+    expect(result.success && result.data.buckets.noDate).toEqual([
+      // Without a project there is no link either
+      { oid: "t8", id: 8, name: "Task 8" },
+      { ...myTask(7), url: "https://quire.example/w/web?t=7" },
+    ]);
+  });
+
+  it("should search only the first organizations", async () => {
+    const many = Array.from({ length: 7 }, (_, i) => ({
+      oid: `O${String(i + 1)}`,
+      id: `o${String(i + 1)}`,
+      name: `Org ${String(i + 1)}`,
+    }));
+    const client = createClient({
+      listOrganizations: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: many }),
+      searchOrganizationTasks: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: [] }),
+    });
+
+    const result = await collectMyTasks(client, options);
+
+    expect(client.searchOrganizationTasks).toHaveBeenCalledTimes(5);
+    expect(result).toMatchObject({
+      data: { organizationCount: 5, skippedOrganizations: ["o6", "o7"] },
+    });
+  });
+
+  it("should fail when the user or organizations cannot be loaded", async () => {
+    const error = {
+      success: false,
+      error: new QuireClientError("Invalid token", "UNAUTHORIZED", 401),
+    };
+
+    expect(
+      await collectMyTasks(
+        createClient({ getMe: vi.fn().mockResolvedValue(error) }),
+        options
+      )
+    ).toBe(error);
+    expect(
+      await collectMyTasks(
+        createClient({ listOrganizations: vi.fn().mockResolvedValue(error) }),
+        options
+      )
+    ).toBe(error);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * My Tasks Aggregation
+ *
+ * Collects the open tasks assigned to the current user with one search per
+ * organization, grouped by when they are due. Shared by the
+ * quire.myTasks tool and the quire://user/me/tasks resource.
+ */
+
+import {
+  MY_TASKS_CONCURRENCY,
+  MY_TASKS_MAX_ORGANIZATIONS,
+} from "../constants.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  parseDateInput,
+  toLocalDate,
+  type DateInputOptions,
+} from "../utils/dates.js";
+import type { QuireClient } from "./client.js";
+import { getQuireWebBaseUrl } from "./endpoints.js";
+import type { QuireResult, QuireTask } from "./types.js";
+
+/**
+ * Due date buckets, in display order
+ */
+export const DUE_BUCKETS = [
+  "overdue",
+  "today",
+  "thisWeek",
+  "later",
+  "noDate",
+] as const;
+
+export type DueBucket = (typeof DUE_BUCKETS)[number];
+
+/**
+ * An open task assigned to the current user
+ */
+export interface MyTask {
+  oid: string;
+  id: number;
+  name: string;
+  status?: { value: number; name: string };
+  priority?: { value: number; name: string };
+  start?: string;
+  due?: string;
+  /** Omitted when the search result does not name the project */
+  project?: { oid: string; id: string; name: string };
+  /** Link to the task in the Quire web app, when known */
+  url?: string;
+}
+
+/**
+ * The current user's open tasks across the searched organizations
+ */
+export interface MyTasksReport {
+  user: { id: string; name: string };
+  /** Time zone the buckets were computed in */
+  timeZone: string;
+  today: string;
+  total: number;
+  buckets: Record<DueBucket, MyTask[]>;
+  /** Number of organizations searched */
+  organizationCount: number;
+  /** Organizations whose search failed; their tasks are missing */
+  failedOrganizations: {
+    organizationId: string;
+    code: string;
+    message: string;
+  }[];
+  /** Organizations past MY_TASKS_MAX_ORGANIZATIONS, not searched */
+  skippedOrganizations: string[];
+}
+
+/**
+ * Link to a task, built from its project when the API gave none
+ */
+function taskUrl(task: QuireTask): string | undefined {
+  return (
+    task.url ??
+    (task.project &&
+      `${getQuireWebBaseUrl()}/w/${task.project.id}?t=${String(task.id)}`)
+  );
+}
+
+function toMyTask(task: QuireTask): MyTask {
+  const { oid, id, name, status, priority, start, due, project } = task;
+  const url = taskUrl(task);
+  return {
+    oid,
+    id,
+    name,
+    ...(status && { status }),
+    ...(priority && { priority }),
+    ...(start && { start }),
+    ...(due && { due }),
+    ...(project && {
+      project: { oid: project.oid, id: project.id, name: project.name },
+    }),
+    ...(url !== undefined && { url }),
+  };
+}
+
+/**
+ * Resolve a relative date that is known to parse
+ */
+function resolveDay(input: string, options: DateInputOptions): string {
+  const result = parseDateInput(input, options);
+  return result.success ? result.value : input;
+}
+
+/**
+ * Sort tasks into due buckets by their due day in the time zone. "This
+ * week" runs from tomorrow to the end of the current week.
+ */
+/** @internal Exported for testing */
+export function bucketByDue(
+  tasks: MyTask[],
+  options: DateInputOptions
+): { today: string; buckets: Record<DueBucket, MyTask[]> } {
+  const today = resolveDay("today", options);
+  const endOfWeek = resolveDay("end of week", options);
+  const buckets: Record<DueBucket, MyTask[]> = {
+    overdue: [],
+    today: [],
+    thisWeek: [],
+    later: [],
+    noDate: [],
+  };
+
+  const sorted = [...tasks].sort(
+    (a, b) =>
+      (a.due ?? "").localeCompare(b.due ?? "") ||
+      (a.project?.name ?? "").localeCompare(b.project?.name ?? "") ||
+      a.id - b.id
+  );
+  for (const task of sorted) {
+    const day = task.due && toLocalDate(task.due, options.timeZone);
+    if (!day) {
+      buckets.noDate.push(task);
+    } else if (day < today) {
+      buckets.overdue.push(task);
+    } else if (day === today) {
+      buckets.today.push(task);
+    } else if (day <= endOfWeek) {
+      buckets.thisWeek.push(task);
+    } else {
+      buckets.later.push(task);
+    }
+  }
+  return { today, buckets };
+}
+
+/**
+ * Collect the current user's open tasks from their organizations.
+ *
+ * Each of the first MY_TASKS_MAX_ORGANIZATIONS organizations is searched
+ * once for tasks assigned to the user, with at most MY_TASKS_CONCURRENCY
+ * searches in flight; the rest are listed in `skippedOrganizations`. A
+ * failed search does not fail the whole report; the organization is listed
+ * in `failedOrganizations`.
+ */
+export async function collectMyTasks(
+  client: QuireClient,
+  options: DateInputOptions
+): Promise<QuireResult<MyTasksReport>> {
+  const me = await client.getMe();
+  if (!me.success) {
+    return me;
+  }
+  const organizations = await client.listOrganizations();
+  if (!organizations.success) {
+    return organizations;
+  }
+  const searched = organizations.data.slice(0, MY_TASKS_MAX_ORGANIZATIONS);
+
+  const tasks: MyTask[] = [];
+  const failedOrganizations: MyTasksReport["failedOrganizations"] = [];
+  const searches = await mapWithConcurrency(
+    searched,
+    MY_TASKS_CONCURRENCY,
+    async (organization) => ({
+      organization,
+      result: await client.searchOrganizationTasks(organization.oid, "", {
+        assigneeId: me.data.id,
+      }),
+    })
+  );
+  for (const { organization, result } of searches) {
+    if (!result.success) {
+      failedOrganizations.push({
+        organizationId: organization.id,
+        code: result.error.code,
+        message: result.error.message,
+      });
+      continue;
+    }
+    for (const task of result.data) {
+      if ((task.status?.value ?? 0) < 100) {
+        tasks.push(toMyTask(task));
+      }
+    }
+  }
+
+  const { today, buckets } = bucketByDue(tasks, options);
+  return {
+    success: true,
+    data: {
+      user: { id: me.data.id, name: me.data.name },
+      timeZone: options.timeZone,
+      today,
+      total: tasks.length,
+      buckets,
+      organizationCount: searched.length,
+      failedOrganizations,
+      skippedOrganizations: organizations.data
+        .slice(MY_TASKS_MAX_ORGANIZATIONS)
+        .map((organization) => organization.id),
+    },
+  };
+}
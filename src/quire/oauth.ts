@@ -3,7 +3,7 @@
  *
  * OAuth 2.0 authorization code flow for Quire API.
  *
- * Endpoints:
+ * Endpoints (configurable, see endpoints.ts):
  * - Authorization: https://quire.io/oauth
  * - Token:         https://quire.io/oauth/token
  *
@@ -13,12 +13,14 @@
 import { z } from "zod";
 import { randomBytes } from "node:crypto";
 import {
-  QUIRE_OAUTH_AUTHORIZE_URL,
-  QUIRE_OAUTH_TOKEN_URL,
   FETCH_TIMEOUT_MS,
   TOKEN_EXPIRY_BUFFER_MS,
   DEFAULT_REDIRECT_URI,
 } from "../constants.js";
+import {
+  getQuireOAuthAuthorizeUrl,
+  getQuireOAuthTokenUrl,
+} from "./endpoints.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -93,7 +95,7 @@ export function buildAuthorizeUrl(
   config: QuireOAuthConfig,
   state: string
 ): string {
-  const url = new URL(QUIRE_OAUTH_AUTHORIZE_URL);
+  const url = new URL(getQuireOAuthAuthorizeUrl());
   url.searchParams.set("response_type", "code");
   url.searchParams.set("client_id", config.clientId);
   url.searchParams.set("redirect_uri", config.redirectUri);
@@ -124,7 +126,7 @@ export async function exchangeCodeForToken(
 
   let response: Response;
   try {
-    response = await fetch(QUIRE_OAUTH_TOKEN_URL, {
+    response = await fetch(getQuireOAuthTokenUrl(), {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body: body.toString(),
@@ -185,7 +187,7 @@ export async function refreshAccessToken(
 
   let response: Response;
   try {
-    response = await fetch(QUIRE_OAUTH_TOKEN_URL, {
+    response = await fetch(getQuireOAuthTokenUrl(), {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body: body.toString(),
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  QuireRateLimiter,
+  getDefaultRateLimitWindows,
+  getSharedRateLimiter,
+  clearSharedRateLimiters,
+  hasBackgroundBudget,
+  type RateLimitBudget,
+} from "./rate-limiter.js";
+
+describe("QuireRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve immediately while budget is available", async () => {
+    const limiter = new QuireRateLimiter({
+      windows: [{ limit: 3, windowMs: 60_000 }],
+    });
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const budget = limiter.getBudget();
+    expect(budget.windows[0]?.remaining).toBe(1);
+    expect(budget.queued).toBe(0);
+  });
+
+  it("should queue requests once a window is exhausted", async () => {
+    const limiter = new QuireRateLimiter({
+      windows: [{ limit: 2, windowMs: 60_000 }],
+    });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const released = vi.fn();
+    void limiter.acquire().then(released);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(released).not.toHaveBeenCalled();
+    expect(limiter.getBudget().queued).toBe(1);
+
+    // One token refills every 30 seconds (2 per minute)
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(released).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(released).toHaveBeenCalledTimes(1);
+    expect(limiter.getBudget().queued).toBe(0);
+  });
+
+  it("should release queued requests in FIFO order", async () => {
+    const limiter = new QuireRateLimiter({
+      windows: [{ limit: 1, windowMs: 1_000 }],
+    });
+    await limiter.acquire();
+
+    const order: number[] = [];
+    void limiter.acquire().then(() => order.push(1));
+    void limiter.acquire().then(() => order.push(2));
+    void limiter.acquire().then(() => order.push(3));
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(order).toEqual([1]);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("should wait for the most constrained window", async () => {
+    const limiter = new QuireRateLimiter({
+      windows: [
+        { limit: 10, windowMs: 1_000 },
+        { limit: 2, windowMs: 10_000 },
+      ],
+    });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const released = vi.fn();
+    void limiter.acquire().then(released);
+
+    // The short window has budget, but the long window refills every 5s
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(released).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(released).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report remaining budget and time to full refill", async () => {
+    const limiter = new QuireRateLimiter({
+      windows: [
+        { limit: 25, windowMs: 60_000 },
+        { limit: 120, windowMs: 3_600_000 },
+      ],
+    });
+
+    for (let i = 0; i < 5; i++) {
+      await limiter.acquire();
+    }
+
+    const budget = limiter.getBudget();
+    expect(budget.windows).toEqual([
+      { limit: 25, windowMs: 60_000, remaining: 20, fullResetMs: 12_000 },
+      {
+        limit: 120,
+        windowMs: 3_600_000,
+        remaining: 115,
+        fullResetMs: 150_000,
+      },
+    ]);
+  });
+
+  it("should refill but never exceed the window limit", async () => {
+    const limiter = new QuireRateLimiter({
+      windows: [{ limit: 2, windowMs: 1_000 }],
+    });
+    await limiter.acquire();
+
+    vi.advanceTimersByTime(10_000);
+
+    expect(limiter.getBudget().windows[0]).toMatchObject({
+      remaining: 2,
+      fullResetMs: 0,
+    });
+  });
+});
+
+describe("getDefaultRateLimitWindows", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should default to Quire's free plan limits", () => {
+    delete process.env["QUIRE_RATE_LIMIT_PER_MINUTE"];
+    delete process.env["QUIRE_RATE_LIMIT_PER_HOUR"];
+
+    expect(getDefaultRateLimitWindows()).toEqual([
+      { limit: 25, windowMs: 60_000 },
+      { limit: 120, windowMs: 3_600_000 },
+    ]);
+  });
+
+  it("should read limits from environment variables", () => {
+    process.env["QUIRE_RATE_LIMIT_PER_MINUTE"] = "50";
+    process.env["QUIRE_RATE_LIMIT_PER_HOUR"] = "1000";
+
+    expect(getDefaultRateLimitWindows()).toEqual([
+      { limit: 50, windowMs: 60_000 },
+      { limit: 1000, windowMs: 3_600_000 },
+    ]);
+  });
+
+  it("should ignore invalid environment values", () => {
+    process.env["QUIRE_RATE_LIMIT_PER_MINUTE"] = "abc";
+    process.env["QUIRE_RATE_LIMIT_PER_HOUR"] = "0";
+
+    expect(getDefaultRateLimitWindows()).toEqual([
+      { limit: 25, windowMs: 60_000 },
+      { limit: 120, windowMs: 3_600_000 },
+    ]);
+  });
+});
+
+describe("hasBackgroundBudget", () => {
+  it("should keep half of every window for tool calls", () => {
+    const budget = (remaining: number): RateLimitBudget => ({
+      windows: [
+        { limit: 120, windowMs: 3_600_000, remaining: 100, fullResetMs: 0 },
+        { limit: 20, windowMs: 60_000, remaining, fullResetMs: 0 },
+      ],
+      queued: 0,
+    });
+
+    expect(hasBackgroundBudget(undefined)).toBe(true);
+    expect(hasBackgroundBudget(budget(11))).toBe(true);
+    expect(hasBackgroundBudget(budget(10))).toBe(false);
+  });
+});
+
+describe("getSharedRateLimiter", () => {
+  afterEach(() => {
+    clearSharedRateLimiters();
+  });
+
+  it("should return the same limiter for the same token", () => {
+    expect(getSharedRateLimiter("token-a")).toBe(
+      getSharedRateLimiter("token-a")
+    );
+  });
+
+  it("should return different limiters for different tokens", () => {
+    expect(getSharedRateLimiter("token-a")).not.toBe(
+      getSharedRateLimiter("token-b")
+    );
+  });
+
+  it("should create fresh limiters after clearing", () => {
+    const first = getSharedRateLimiter("token-a");
+    clearSharedRateLimiters();
+
+    expect(getSharedRateLimiter("token-a")).not.toBe(first);
+  });
+});
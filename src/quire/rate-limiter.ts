@@ -0,0 +1,258 @@
+/**
+ * Quire Rate Limit Governor
+ *
+ * Client-side token-bucket scheduler that keeps requests within Quire's
+ * per-minute and per-hour limits. Instead of firing requests and reacting to
+ * 429 responses, callers await `acquire()`, which resolves once every window
+ * has budget left. Requests are released in FIFO order.
+ *
+ * Limiters are shared per Quire token via `getSharedRateLimiter()`, so every
+ * QuireClient created for the same user draws from the same budget.
+ *
+ * @see https://quire.io/dev/api/
+ */
+
+import { createHash } from "node:crypto";
+import {
+  BACKGROUND_BUDGET_RESERVE,
+  QUIRE_RATE_LIMIT_PER_HOUR,
+  QUIRE_RATE_LIMIT_PER_MINUTE,
+} from "../constants.js";
+import { LRUCache } from "../utils/lru-cache.js";
+
+/**
+ * Maximum number of distinct tokens tracked by the shared limiter registry.
+ * Bounds memory in HTTP mode where many users may connect.
+ */
+const MAX_SHARED_LIMITERS = 1000;
+
+/**
+ * A single rate limit window (e.g., 25 requests per 60 seconds)
+ */
+export interface RateLimitWindow {
+  /** Maximum number of requests allowed within the window */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Remaining budget for a single rate limit window
+ */
+export interface RateLimitWindowBudget extends RateLimitWindow {
+  /** Whole requests that can be sent right now without waiting */
+  remaining: number;
+  /** Milliseconds until the window's budget is completely refilled */
+  fullResetMs: number;
+}
+
+/**
+ * Snapshot of a limiter's remaining budget across all windows
+ */
+export interface RateLimitBudget {
+  windows: RateLimitWindowBudget[];
+  /** Number of requests currently waiting for budget */
+  queued: number;
+}
+
+export interface RateLimiterOptions {
+  /** Rate limit windows to enforce (defaults to Quire's free plan limits) */
+  windows?: RateLimitWindow[];
+  /** Clock used for refill calculations (injectable for testing) */
+  now?: () => number;
+}
+
+/**
+ * Token bucket that refills continuously at `limit / windowMs` tokens per ms
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+
+  constructor(
+    readonly window: RateLimitWindow,
+    now: number
+  ) {
+    this.tokens = window.limit;
+    this.lastRefill = now;
+    this.refillPerMs = window.limit / window.windowMs;
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.window.limit,
+        this.tokens + elapsed * this.refillPerMs
+      );
+      this.lastRefill = now;
+    }
+  }
+
+  /**
+   * Milliseconds until at least one whole token is available
+   */
+  waitMs(now: number): number {
+    this.refill(now);
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  budget(now: number): RateLimitWindowBudget {
+    this.refill(now);
+    return {
+      limit: this.window.limit,
+      windowMs: this.window.windowMs,
+      remaining: Math.floor(this.tokens),
+      fullResetMs: Math.ceil(
+        (this.window.limit - this.tokens) / this.refillPerMs
+      ),
+    };
+  }
+}
+
+/**
+ * Get the default rate limit windows.
+ * QUIRE_RATE_LIMIT_PER_MINUTE / QUIRE_RATE_LIMIT_PER_HOUR override the
+ * free plan defaults for accounts on paid plans.
+ */
+export function getDefaultRateLimitWindows(): RateLimitWindow[] {
+  return [
+    {
+      limit: parseLimit(
+        process.env["QUIRE_RATE_LIMIT_PER_MINUTE"],
+        QUIRE_RATE_LIMIT_PER_MINUTE
+      ),
+      windowMs: 60 * 1000,
+    },
+    {
+      limit: parseLimit(
+        process.env["QUIRE_RATE_LIMIT_PER_HOUR"],
+        QUIRE_RATE_LIMIT_PER_HOUR
+      ),
+      windowMs: 60 * 60 * 1000,
+    },
+  ];
+}
+
+/**
+ * Parse a positive integer limit, falling back to the default when invalid
+ */
+function parseLimit(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Whether every rate limit window has more than the share reserved for tool
+ * calls left, so background work may send a request.
+ * Clients without a limiter always have budget.
+ */
+export function hasBackgroundBudget(
+  budget: RateLimitBudget | undefined
+): boolean {
+  return (budget?.windows ?? []).every(
+    (window) => window.remaining > window.limit * BACKGROUND_BUDGET_RESERVE
+  );
+}
+
+/**
+ * Rate limit governor enforcing several token-bucket windows at once
+ */
+export class QuireRateLimiter {
+  private readonly buckets: TokenBucket[];
+  private readonly now: () => number;
+  private readonly queue: (() => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options?: RateLimiterOptions) {
+    this.now = options?.now ?? Date.now;
+    const windows = options?.windows ?? getDefaultRateLimitWindows();
+    const start = this.now();
+    this.buckets = windows.map((window) => new TokenBucket(window, start));
+  }
+
+  /**
+   * Wait until every window has budget, then consume one request from each.
+   * Resolves immediately when budget is available and nothing is queued.
+   */
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Get the remaining budget for each window
+   */
+  getBudget(): RateLimitBudget {
+    const now = this.now();
+    return {
+      windows: this.buckets.map((bucket) => bucket.budget(now)),
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Release queued requests while budget allows, scheduling the next
+   * attempt for when the most constrained window refills.
+   */
+  private drain(): void {
+    // A wake-up is already scheduled; it will pick up new entries
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      const now = this.now();
+      const wait = Math.max(0, ...this.buckets.map((b) => b.waitMs(now)));
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, wait);
+        return;
+      }
+
+      for (const bucket of this.buckets) {
+        bucket.take();
+      }
+      const next = this.queue.shift();
+      next?.();
+    }
+  }
+}
+
+/**
+ * Shared limiters keyed by a hash of the Quire token
+ */
+const sharedLimiters = new LRUCache<QuireRateLimiter>({
+  maxSize: MAX_SHARED_LIMITERS,
+});
+
+/**
+ * Get the rate limiter shared by every client using the given Quire token.
+ * Tokens are hashed so raw credentials are not kept as map keys.
+ */
+export function getSharedRateLimiter(token: string): QuireRateLimiter {
+  const key = createHash("sha256").update(token).digest("hex");
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new QuireRateLimiter();
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Clear all shared limiters.
+ * Useful for testing.
+ */
+export function clearSharedRateLimiters(): void {
+  sharedLimiters.clear();
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  RequestCoalescer,
+  clearSharedRequestCoalescers,
+  getSharedRequestCoalescer,
+} from "./request-coalescer.js";
+
+/**
+ * Create a promise that settles when the test says so
+ */
+function deferred<T>(): {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+} {
+  let resolve: (value: T) => void = () => undefined;
+  let reject: (error: Error) => void = () => undefined;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("RequestCoalescer", () => {
+  let coalescer: RequestCoalescer;
+
+  beforeEach(() => {
+    coalescer = new RequestCoalescer();
+  });
+
+  it("should share an in-flight request with the same key", async () => {
+    const request = deferred<string>();
+    let sent = 0;
+    const send = (): Promise<string> => {
+      sent++;
+      return request.promise;
+    };
+
+    const first = coalescer.run("/project/list", send);
+    const second = coalescer.run("/project/list", send);
+    expect(coalescer.size).toBe(1);
+    request.resolve("projects");
+
+    expect(await first).toBe("projects");
+    expect(await second).toBe("projects");
+    expect(sent).toBe(1);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it("should send requests with different keys separately", async () => {
+    const results = await Promise.all([
+      coalescer.run("/a", () => Promise.resolve("a")),
+      coalescer.run("/b", () => Promise.resolve("b")),
+    ]);
+
+    expect(results).toEqual(["a", "b"]);
+  });
+
+  it("should send a new request once the previous one settles", async () => {
+    await coalescer.run("/a", () => Promise.resolve(1));
+
+    expect(await coalescer.run("/a", () => Promise.resolve(2))).toBe(2);
+  });
+
+  it("should share rejections and then forget the request", async () => {
+    const request = deferred<string>();
+    const first = coalescer.run("/a", () => request.promise);
+    const second = coalescer.run("/a", () => Promise.resolve("unused"));
+    request.reject(new Error("Network down"));
+
+    await expect(first).rejects.toThrow("Network down");
+    await expect(second).rejects.toThrow("Network down");
+    expect(coalescer.size).toBe(0);
+  });
+
+  it("should not share requests sent before a reset", async () => {
+    const stale = deferred<string>();
+    const first = coalescer.run("/a", () => stale.promise);
+    coalescer.reset();
+    const fresh = deferred<string>();
+    const second = coalescer.run("/a", () => fresh.promise);
+
+    stale.resolve("stale");
+    expect(await first).toBe("stale");
+    // The newer request stays shareable after the stale one settles
+    expect(coalescer.size).toBe(1);
+    fresh.resolve("fresh");
+    expect(await second).toBe("fresh");
+    expect(coalescer.size).toBe(0);
+  });
+});
+
+describe("getSharedRequestCoalescer", () => {
+  beforeEach(() => {
+    clearSharedRequestCoalescers();
+  });
+
+  it("should share a coalescer per token", () => {
+    const first = getSharedRequestCoalescer("token-a");
+
+    expect(getSharedRequestCoalescer("token-a")).toBe(first);
+    expect(getSharedRequestCoalescer("token-b")).not.toBe(first);
+  });
+
+  it("should start over after clearing", () => {
+    const first = getSharedRequestCoalescer("token-a");
+    clearSharedRequestCoalescers();
+
+    expect(getSharedRequestCoalescer("token-a")).not.toBe(first);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Quire Request Coalescer
+ *
+ * Shares one in-flight request between identical concurrent callers. When a
+ * model reads the same project through a tool and a resource in parallel, or
+ * several HTTP sessions of one user ask for the same list, only the first
+ * caller sends a request; the others await its result.
+ *
+ * Coalescers are shared per Quire token via `getSharedRequestCoalescer()`,
+ * like rate limiters, so requests made through the separate QuireClient
+ * instances created for each tool call are coalesced too.
+ */
+
+import { createHash } from "node:crypto";
+import { LRUCache } from "../utils/lru-cache.js";
+
+/**
+ * Maximum number of distinct tokens tracked by the shared coalescer registry.
+ * Bounds memory in HTTP mode where many users may connect.
+ */
+const MAX_SHARED_COALESCERS = 1000;
+
+/**
+ * Tracks in-flight requests by key so identical requests can share them
+ */
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `send` unless a request with the same key is already in flight,
+   * in which case its promise is returned instead. The entry is dropped
+   * once the request settles, so later calls send a new request.
+   */
+  run<T>(key: string, send: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = send().finally(() => {
+      // A reset() may have replaced the entry with a newer request
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Stop sharing the requests currently in flight. Callers already waiting
+   * still get their results, but later calls send new requests. Used after
+   * writes, whose effects a request sent before them may not include.
+   */
+  reset(): void {
+    this.inFlight.clear();
+  }
+
+  /**
+   * Number of distinct requests currently in flight
+   */
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
+
+/**
+ * Shared coalescers keyed by a hash of the Quire token
+ */
+const sharedCoalescers = new LRUCache<RequestCoalescer>({
+  maxSize: MAX_SHARED_COALESCERS,
+});
+
+/**
+ * Get the request coalescer shared by every client using the given Quire
+ * token. Tokens are hashed so raw credentials are not kept as map keys.
+ */
+export function getSharedRequestCoalescer(token: string): RequestCoalescer {
+  const key = createHash("sha256").update(token).digest("hex");
+  let coalescer = sharedCoalescers.get(key);
+  if (!coalescer) {
+    coalescer = new RequestCoalescer();
+    sharedCoalescers.set(key, coalescer);
+  }
+  return coalescer;
+}
+
+/**
+ * Clear all shared coalescers.
+ * Useful for testing.
+ */
+export function clearSharedRequestCoalescers(): void {
+  sharedCoalescers.clear();
+}
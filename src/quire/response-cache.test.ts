@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  QuireResponseCache,
+  clearSharedResponseCaches,
+  getSharedResponseCache,
+  invalidateSharedResponseCaches,
+  isResponseCacheEnabled,
+} from "./response-cache.js";
+
+describe("QuireResponseCache", () => {
+  let now: number;
+  let cache: QuireResponseCache;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new QuireResponseCache({ now: () => now });
+  });
+
+  it("should count misses and hits", () => {
+    expect(cache.get("project", "/project/id/p")).toBeUndefined();
+    cache.set("project", "/project/id/p", { id: "p" });
+
+    expect(cache.get("project", "/project/id/p")).toEqual({ id: "p" });
+    expect(cache.getStats()).toMatchObject({
+      entries: 1,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it("should return copies of cached values", () => {
+    const value = { id: "p", tags: ["a"] };
+    cache.set("project", "/project/id/p", value);
+    value.tags.push("b");
+
+    const first = cache.get("project", "/project/id/p") as typeof value;
+    first.tags.push("c");
+
+    expect(cache.get("project", "/project/id/p")).toEqual({
+      id: "p",
+      tags: ["a"],
+    });
+  });
+
+  it("should expire entries after the resource type's TTL", () => {
+    cache.set("task", "/task/T", { oid: "T" });
+    cache.set("project", "/project/P", { oid: "P" });
+
+    now = 29_999;
+    expect(cache.get("task", "/task/T")).toBeDefined();
+    now = 30_000;
+    expect(cache.get("task", "/task/T")).toBeUndefined();
+    expect(cache.get("project", "/project/P")).toBeDefined();
+    expect(cache.getStats().resources.task.entries).toBe(0);
+  });
+
+  it("should accept TTL overrides", () => {
+    cache = new QuireResponseCache({ now: () => now, ttlMs: { tag: 10 } });
+    cache.set("tag", "/tag/T", {});
+
+    now = 10;
+    expect(cache.get("tag", "/tag/T")).toBeUndefined();
+    expect(cache.getStats().resources.tag.ttlMs).toBe(10);
+    expect(cache.getStats().resources.status.ttlMs).toBe(300_000);
+  });
+
+  it("should not return an entry stored under another resource type", () => {
+    cache.set("tag", "/shared", {});
+
+    expect(cache.get("status", "/shared")).toBeUndefined();
+  });
+
+  it("should invalidate only the given resource types", () => {
+    cache.set("tag", "/tag/list/id/p", []);
+    cache.set("tag", "/tag/T", {});
+    cache.set("project", "/project/id/p", {});
+
+    cache.invalidate(["tag"]);
+
+    expect(cache.get("tag", "/tag/T")).toBeUndefined();
+    expect(cache.get("project", "/project/id/p")).toBeDefined();
+    expect(cache.getStats().resources.tag.invalidated).toBe(2);
+    expect(cache.getStats().invalidated).toBe(2);
+    expect(cache.getGeneration("tag")).toBe(1);
+    expect(cache.getGeneration("project")).toBe(0);
+  });
+
+  it("should count bypassed reads", () => {
+    cache.recordBypass("user");
+
+    expect(cache.getStats().resources.user.bypassed).toBe(1);
+    expect(cache.getStats().hitRate).toBe(0);
+  });
+
+  it("should evict the least recently used entries beyond maxEntries", () => {
+    cache = new QuireResponseCache({ maxEntries: 2 });
+    cache.set("tag", "/a", 1);
+    cache.set("tag", "/b", 2);
+    cache.set("tag", "/c", 3);
+
+    expect(cache.get("tag", "/a")).toBeUndefined();
+    expect(cache.getStats().entries).toBe(2);
+  });
+
+  it("should clear entries but keep counters", () => {
+    cache.set("tag", "/a", 1);
+    cache.get("tag", "/a");
+    cache.clear();
+
+    expect(cache.getStats()).toMatchObject({ entries: 0, hits: 1 });
+  });
+});
+
+describe("isResponseCacheEnabled", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should be enabled by default", () => {
+    delete process.env["QUIRE_CACHE"];
+    expect(isResponseCacheEnabled()).toBe(true);
+  });
+
+  it.each(["off", "OFF", "false", "0"])("should be disabled by %s", (value) => {
+    process.env["QUIRE_CACHE"] = value;
+    expect(isResponseCacheEnabled()).toBe(false);
+  });
+});
+
+describe("getSharedResponseCache", () => {
+  beforeEach(() => {
+    clearSharedResponseCaches();
+  });
+
+  it("should share a cache per token", () => {
+    const first = getSharedResponseCache("token-a");
+
+    expect(getSharedResponseCache("token-a")).toBe(first);
+    expect(getSharedResponseCache("token-b")).not.toBe(first);
+  });
+
+  it("should start over after clearing", () => {
+    const first = getSharedResponseCache("token-a");
+    clearSharedResponseCaches();
+
+    expect(getSharedResponseCache("token-a")).not.toBe(first);
+  });
+
+  it("should invalidate resource types in every cache", () => {
+    const a = getSharedResponseCache("token-a");
+    const b = getSharedResponseCache("token-b");
+    a.set("task", "/task/list/p", []);
+    b.set("task", "/task/list/p", []);
+    b.set("project", "/project/id/p", { id: "p" });
+
+    invalidateSharedResponseCaches(["task"]);
+
+    expect(a.get("task", "/task/list/p")).toBeUndefined();
+    expect(b.get("task", "/task/list/p")).toBeUndefined();
+    expect(b.get("project", "/project/id/p")).toEqual({ id: "p" });
+  });
+});
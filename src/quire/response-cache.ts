@@ -0,0 +1,287 @@
+/**
+ * Quire Response Cache
+ *
+ * In-memory cache for GET responses that agents read repeatedly within a
+ * conversation (the current user, organizations, projects, tags, statuses,
+ * tasks). Each resource type has its own TTL. Writes made through a
+ * QuireClient invalidate every cached entry of the resource types they
+ * affect, so reads after a write through the same token never see stale
+ * data from before it. Changes made elsewhere (the Quire web app, other
+ * integrations) are picked up when entries expire, or immediately with a
+ * fresh read.
+ *
+ * Caches are shared per Quire token via `getSharedResponseCache()`, like
+ * rate limiters. Set QUIRE_CACHE=off to disable caching.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  QUIRE_CACHE_MAX_ENTRIES,
+  QUIRE_CACHE_TTL_SECONDS,
+} from "../constants.js";
+import { LRUCache } from "../utils/lru-cache.js";
+
+/**
+ * Maximum number of distinct tokens tracked by the shared cache registry.
+ * Bounds memory in HTTP mode where many users may connect.
+ */
+const MAX_SHARED_CACHES = 1000;
+
+/**
+ * Resource types whose GET responses are cached
+ */
+export type CachedResource = keyof typeof QUIRE_CACHE_TTL_SECONDS;
+
+const CACHED_RESOURCES = Object.keys(
+  QUIRE_CACHE_TTL_SECONDS
+) as CachedResource[];
+
+/**
+ * Options for a response cache
+ */
+export interface ResponseCacheOptions {
+  /** TTL per resource type in milliseconds (defaults from constants) */
+  ttlMs?: Partial<Record<CachedResource, number>>;
+  /** Maximum number of cached responses before LRU eviction */
+  maxEntries?: number;
+  /** Clock, injectable for tests */
+  now?: () => number;
+}
+
+/**
+ * Lookup counters for one resource type
+ */
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  /** Reads that skipped the cache because fresh data was requested */
+  bypassed: number;
+  /** Entries dropped because a write changed the resource */
+  invalidated: number;
+}
+
+/**
+ * Counters and live entry count for one resource type
+ */
+export interface ResourceCacheStats extends CacheCounters {
+  ttlMs: number;
+  entries: number;
+}
+
+/**
+ * Snapshot of cache activity
+ */
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  bypassed: number;
+  invalidated: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+  resources: Record<CachedResource, ResourceCacheStats>;
+}
+
+interface CacheEntry {
+  resource: CachedResource;
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Response cache with per-resource TTLs and hit/miss counters
+ */
+export class QuireResponseCache {
+  private readonly entries: LRUCache<CacheEntry>;
+  private readonly ttlMs: Record<CachedResource, number>;
+  private readonly now: () => number;
+  private readonly counters: Record<CachedResource, CacheCounters>;
+  /** Number of invalidations per resource type */
+  private readonly generations: Record<CachedResource, number>;
+
+  constructor(options?: ResponseCacheOptions) {
+    this.now = options?.now ?? Date.now;
+    this.entries = new LRUCache({
+      maxSize: options?.maxEntries ?? QUIRE_CACHE_MAX_ENTRIES,
+    });
+    this.ttlMs = Object.fromEntries(
+      CACHED_RESOURCES.map((resource) => [
+        resource,
+        options?.ttlMs?.[resource] ?? QUIRE_CACHE_TTL_SECONDS[resource] * 1000,
+      ])
+    ) as Record<CachedResource, number>;
+    this.counters = Object.fromEntries(
+      CACHED_RESOURCES.map((resource) => [
+        resource,
+        { hits: 0, misses: 0, bypassed: 0, invalidated: 0 },
+      ])
+    ) as Record<CachedResource, CacheCounters>;
+    this.generations = Object.fromEntries(
+      CACHED_RESOURCES.map((resource) => [resource, 0])
+    ) as Record<CachedResource, number>;
+  }
+
+  /**
+   * Look up a cached response. Returns a copy, so callers may mutate it.
+   * Returns undefined (and counts a miss) if absent or expired.
+   */
+  get(resource: CachedResource, key: string): unknown {
+    const counter = this.counters[resource];
+    const entry = this.entries.get(key);
+    if (entry?.resource !== resource) {
+      counter.misses++;
+      return undefined;
+    }
+    if (this.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      counter.misses++;
+      return undefined;
+    }
+    counter.hits++;
+    return structuredClone(entry.value);
+  }
+
+  /**
+   * Count a read that skipped the cache on purpose
+   */
+  recordBypass(resource: CachedResource): void {
+    this.counters[resource].bypassed++;
+  }
+
+  /**
+   * Store a response (a copy of it) for the resource type's TTL
+   */
+  set(resource: CachedResource, key: string, value: unknown): void {
+    this.entries.set(key, {
+      resource,
+      value: structuredClone(value),
+      expiresAt: this.now() + this.ttlMs[resource],
+    });
+  }
+
+  /**
+   * Get the number of times a resource type was invalidated. A response
+   * to a request sent before the count changed may predate a write, so
+   * callers compare it before and after a request and only store the
+   * response if it is unchanged.
+   */
+  getGeneration(resource: CachedResource): number {
+    return this.generations[resource];
+  }
+
+  /**
+   * Drop every cached response of the given resource types
+   */
+  invalidate(resources: readonly CachedResource[]): void {
+    for (const resource of resources) {
+      this.generations[resource]++;
+    }
+    const keys: string[] = [];
+    for (const [key, entry] of this.entries.entries()) {
+      if (resources.includes(entry.resource)) {
+        keys.push(key);
+        this.counters[entry.resource].invalidated++;
+      }
+    }
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Get hit/miss counters and entry counts, overall and per resource type
+   */
+  getStats(): ResponseCacheStats {
+    const now = this.now();
+    const live = new Map<CachedResource, number>();
+    for (const [, entry] of this.entries.entries()) {
+      if (now < entry.expiresAt) {
+        live.set(entry.resource, (live.get(entry.resource) ?? 0) + 1);
+      }
+    }
+
+    const resources = Object.fromEntries(
+      CACHED_RESOURCES.map((resource) => [
+        resource,
+        {
+          ttlMs: this.ttlMs[resource],
+          entries: live.get(resource) ?? 0,
+          ...this.counters[resource],
+        },
+      ])
+    ) as Record<CachedResource, ResourceCacheStats>;
+
+    const totals = Object.values(resources).reduce(
+      (sum, stats) => ({
+        entries: sum.entries + stats.entries,
+        hits: sum.hits + stats.hits,
+        misses: sum.misses + stats.misses,
+        bypassed: sum.bypassed + stats.bypassed,
+        invalidated: sum.invalidated + stats.invalidated,
+      }),
+      { entries: 0, hits: 0, misses: 0, bypassed: 0, invalidated: 0 }
+    );
+    const lookups = totals.hits + totals.misses;
+    return {
+      ...totals,
+      hitRate: lookups === 0 ? 0 : totals.hits / lookups,
+      resources,
+    };
+  }
+
+  /**
+   * Drop all cached responses (counters are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Whether response caching is enabled (QUIRE_CACHE=off disables it)
+ */
+export function isResponseCacheEnabled(): boolean {
+  const setting = process.env["QUIRE_CACHE"]?.toLowerCase();
+  return setting !== "off" && setting !== "false" && setting !== "0";
+}
+
+/**
+ * Shared caches keyed by a hash of the Quire token
+ */
+const sharedCaches = new LRUCache<QuireResponseCache>({
+  maxSize: MAX_SHARED_CACHES,
+});
+
+/**
+ * Get the response cache shared by every client using the given Quire token.
+ * Tokens are hashed so raw credentials are not kept as map keys.
+ */
+export function getSharedResponseCache(token: string): QuireResponseCache {
+  const key = createHash("sha256").update(token).digest("hex");
+  let cache = sharedCaches.get(key);
+  if (!cache) {
+    cache = new QuireResponseCache();
+    sharedCaches.set(key, cache);
+  }
+  return cache;
+}
+
+/**
+ * Drop the given resource types from every shared cache, for changes
+ * learned about outside any one token (e.g., webhook deliveries)
+ */
+export function invalidateSharedResponseCaches(
+  resources: readonly CachedResource[]
+): void {
+  for (const [, cache] of sharedCaches.entries()) {
+    cache.invalidate(resources);
+  }
+}
+
+/**
+ * Clear all shared caches.
+ * Useful for testing.
+ */
+export function clearSharedResponseCaches(): void {
+  sharedCaches.clear();
+}
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { QuireClient } from "./client.js";
+import {
+  buildProjectSearchIndex,
+  clearSharedSearchIndexCaches,
+  getSharedSearchIndexCache,
+  SearchIndexCache,
+  type ProjectSearchIndex,
+} from "./search-index.js";
+import { Bm25Index } from "../utils/bm25.js";
+import { QuireClientError, type QuireTaskTreeNode } from "./types.js";
+
+const project = { oid: "P1", id: "web", name: "Website" };
+const serverError = {
+  success: false,
+  error: new QuireClientError("Server error", "SERVER_ERROR", 500),
+} as const;
+const ok = <T>(data: T): { success: true; data: T } => ({
+  success: true,
+  data,
+});
+
+function node(
+  oid: string,
+  id: number,
+  name: string,
+  fields: Partial<QuireTaskTreeNode> = {}
+): QuireTaskTreeNode {
+  return { oid, id, name, children: [], ...fields };
+}
+
+function search(index: ProjectSearchIndex, query: string): string[] {
+  return Bm25Index.search([index.index], query, { limit: 10 }).hits.map(
+    (hit) => `${hit.document.type}:${hit.document.oid}`
+  );
+}
+
+describe("buildProjectSearchIndex", () => {
+  let client: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    client = {
+      getTaskTree: vi.fn().mockResolvedValue(
+        ok({
+          roots: [
+            node("T1", 1, "Launch website", {
+              status: { value: 100, name: "Done" },
+              descriptionText: "Coordinate the release",
+              url: "https://quire.io/w/web/1",
+              children: [node("T2", 2, "Press kit")],
+            }),
+          ],
+          nodeCount: 2,
+          truncated: true,
+        })
+      ),
+      listDocuments: vi.fn().mockResolvedValue(
+        ok([
+          {
+            oid: "D1",
+            id: "plan",
+            name: "Release plan",
+            descriptionText: "Steps",
+            url: "https://quire.io/w/web/doc/plan",
+          },
+          { oid: "D2", id: "notes", name: "Notes" },
+        ])
+      ),
+      listChats: vi
+        .fn()
+        .mockResolvedValue(ok([{ oid: "C1", id: "general", name: "General" }])),
+      listTaskComments: vi.fn((oid: string) =>
+        Promise.resolve(
+          ok([{ oid: `M-${oid}`, descriptionText: "Release slipped" }])
+        )
+      ),
+      listChatComments: vi.fn(() =>
+        Promise.resolve(
+          ok([
+            {
+              oid: "M-C1",
+              descriptionText: "Release party at 5",
+              url: "https://quire.io/w/web/chat/general",
+            },
+          ])
+        )
+      ),
+    };
+  });
+
+  async function build(): Promise<ProjectSearchIndex> {
+    const result = await buildProjectSearchIndex(
+      client as unknown as QuireClient,
+      project,
+      new Date("2026-10-19T10:00:00Z")
+    );
+    if (!result.success) throw new Error(result.error.message);
+    return result.data;
+  }
+
+  it("should index tasks and documents", async () => {
+    const index = await build();
+
+    expect(client["getTaskTree"]).toHaveBeenCalledWith("P1", {
+      maxNodes: 5000,
+    });
+    expect(index.truncated).toBe(true);
+    expect(index.builtAt.toISOString()).toBe("2026-10-19T10:00:00.000Z");
+    expect(index.getStats()).toEqual({
+      tasks: 2,
+      comments: 0,
+      documents: 2,
+      pendingComments: 3,
+      failedComments: 0,
+    });
+    expect(search(index, "release")).toEqual(["document:D1", "task:T1"]);
+    expect(
+      Bm25Index.search([index.index], "kit", { limit: 1 }).hits[0]?.document
+    ).toEqual({
+      type: "task",
+      oid: "T2",
+      project,
+      title: "Press kit",
+      text: "",
+      task: { oid: "T2", id: 2, name: "Press kit" },
+    });
+  });
+
+  it("should add comments of chats and open tasks first", async () => {
+    const index = await build();
+
+    expect(await index.addComments(client as unknown as QuireClient, 2)).toBe(
+      2
+    );
+    expect(client["listChatComments"]).toHaveBeenCalledWith("C1");
+    expect(client["listTaskComments"]).toHaveBeenCalledWith("T2");
+    expect(search(index, "party")).toEqual(["comment:M-C1"]);
+    expect(
+      Bm25Index.search([index.index], "slipped", { limit: 1 }).hits[0]?.document
+    ).toMatchObject({
+      type: "comment",
+      task: { oid: "T2", id: 2, name: "Press kit" },
+    });
+
+    client["listTaskComments"]?.mockResolvedValueOnce(serverError);
+    expect(await index.addComments(client as unknown as QuireClient, 5)).toBe(
+      1
+    );
+    expect(await index.addComments(client as unknown as QuireClient, 5)).toBe(
+      0
+    );
+    expect(index.getStats()).toMatchObject({
+      comments: 2,
+      pendingComments: 0,
+      failedComments: 1,
+    });
+  });
+
+  it("should take over comments of tasks and chats that still exist", async () => {
+    const earlier = await build();
+    await earlier.addComments(client as unknown as QuireClient, 2);
+    client["getTaskTree"]?.mockResolvedValueOnce(
+      ok({
+        roots: [node("T2", 2, "Press pack"), node("T3", 3, "Retro")],
+        nodeCount: 2,
+        truncated: false,
+      })
+    );
+    client["listChats"]?.mockResolvedValueOnce(ok([]));
+
+    const rebuilt = await build();
+    rebuilt.takeComments(earlier);
+
+    expect(rebuilt.getStats()).toMatchObject({
+      comments: 1,
+      pendingComments: 1,
+    });
+    expect(search(rebuilt, "party")).toEqual([]);
+    expect(
+      Bm25Index.search([rebuilt.index], "slipped", { limit: 1 }).hits[0]
+        ?.document
+    ).toMatchObject({ oid: "M-T2", task: { name: "Press pack" } });
+
+    client["listTaskComments"]?.mockClear();
+    await rebuilt.addComments(client as unknown as QuireClient, 5);
+    expect(client["listTaskComments"]).toHaveBeenCalledExactlyOnceWith("T3");
+
+    // Nothing to take over from an index without comments
+    const empty = await build();
+    empty.takeComments(await build());
+    expect(empty.getStats().pendingComments).toBe(3);
+  });
+
+  it("should fail if the project cannot be read", async () => {
+    for (const method of ["getTaskTree", "listDocuments", "listChats"]) {
+      client[method]?.mockResolvedValueOnce(serverError);
+      expect(
+        await buildProjectSearchIndex(client as unknown as QuireClient, project)
+      ).toEqual(serverError);
+    }
+  });
+});
+
+describe("SearchIndexCache", () => {
+  async function index(
+    builtAt: string,
+    projectOid = "P1"
+  ): Promise<ProjectSearchIndex> {
+    const client = {
+      getTaskTree: () =>
+        Promise.resolve(ok({ roots: [], nodeCount: 0, truncated: false })),
+      listDocuments: () => Promise.resolve(ok([])),
+      listChats: () => Promise.resolve(ok([])),
+    } as unknown as QuireClient;
+    const result = await buildProjectSearchIndex(
+      client,
+      { ...project, oid: projectOid },
+      new Date(builtAt)
+    );
+    if (!result.success) throw new Error(result.error.message);
+    return result.data;
+  }
+
+  it("should reuse indexes until they expire", async () => {
+    let now = Date.parse("2026-10-19T10:00:00Z");
+    const cache = new SearchIndexCache({ ttlMs: 60_000, now: () => now });
+    const built = await index("2026-10-19T10:00:00Z");
+
+    cache.set(built);
+    expect(cache.get("P1")).toBe(built);
+    expect(cache.get("P2")).toBeUndefined();
+
+    expect(cache.getExpired("P1")).toBeUndefined();
+
+    now += 60_000;
+    expect(cache.get("P1")).toBeUndefined();
+    expect(cache.getExpired("P1")).toBe(built);
+    expect(cache.size).toBe(1);
+  });
+
+  it("should keep a bounded number of projects", async () => {
+    const cache = new SearchIndexCache({ maxProjects: 1 });
+
+    cache.set(await index(new Date().toISOString()));
+    cache.set(await index(new Date().toISOString(), "P2"));
+
+    expect(cache.size).toBe(1);
+    expect(cache.get("P1")).toBeUndefined();
+  });
+});
+
+describe("getSharedSearchIndexCache", () => {
+  it("should share one cache per token", () => {
+    clearSharedSearchIndexCaches();
+    const cache = getSharedSearchIndexCache("token");
+
+    expect(getSharedSearchIndexCache("token")).toBe(cache);
+    expect(getSharedSearchIndexCache("other")).not.toBe(cache);
+
+    clearSharedSearchIndexCaches();
+    expect(getSharedSearchIndexCache("token")).not.toBe(cache);
+  });
+});
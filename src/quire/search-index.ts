@@ -0,0 +1,390 @@
+/**
+ * Project Search Indexes
+ *
+ * BM25 indexes over a project's task names and descriptions, task
+ * comments, document descriptions and chat messages, used by quire.search.
+ * Quire's search endpoints only match keywords in tasks and return results
+ * unranked.
+ *
+ * Task trees, documents and chats are fetched when an index is built.
+ * Comments take one request per task or chat, so each search adds at most
+ * SEARCH_COMMENT_FETCHES_PER_CALL comment lists to its indexes, chats and
+ * open tasks first, and later searches add the rest. An index rebuilt
+ * after expiring takes over the comments of the expired one.
+ *
+ * Indexes are shared per Quire token via `getSharedSearchIndexCache()`,
+ * like response caches, and reused for SEARCH_INDEX_TTL_SECONDS.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  SEARCH_INDEX_CONCURRENCY,
+  SEARCH_INDEX_MAX_PROJECTS,
+  SEARCH_INDEX_TTL_SECONDS,
+  SEARCH_MAX_TASKS,
+} from "../constants.js";
+import { Bm25Index, type Bm25Document } from "../utils/bm25.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { LRUCache } from "../utils/lru-cache.js";
+import type { QuireClient } from "./client.js";
+import type { QuireComment, QuireResult, QuireTaskTreeNode } from "./types.js";
+
+/**
+ * Maximum number of distinct tokens tracked by the shared index registry.
+ * Bounds memory in HTTP mode where many users may connect.
+ */
+const MAX_SHARED_INDEX_CACHES = 100;
+
+/** Status value of completed tasks */
+const COMPLETED_STATUS = 100;
+
+/**
+ * Kind of indexed item
+ */
+export type SearchHitType = "task" | "comment" | "document";
+
+/**
+ * Project an index belongs to
+ */
+export interface SearchIndexProject {
+  oid: string;
+  id: string;
+  name: string;
+}
+
+/**
+ * An indexed task, comment or document
+ */
+export interface SearchEntry extends Bm25Document {
+  type: SearchHitType;
+  /** OID of the task, comment or document */
+  oid: string;
+  project: SearchIndexProject;
+  url?: string;
+  /** The task, or the task a comment was posted on */
+  task?: { oid: string; id: number; name: string };
+  /** The chat channel a comment (chat message) was posted in */
+  chat?: { oid: string; id: string; name: string };
+  document?: { oid: string; id: string; name: string };
+}
+
+/**
+ * A task or chat whose comments are not indexed yet
+ */
+type CommentSource =
+  | { task: NonNullable<SearchEntry["task"]> }
+  | { chat: NonNullable<SearchEntry["chat"]> };
+
+function sourceOid(source: CommentSource): string {
+  return "task" in source ? source.task.oid : source.chat.oid;
+}
+
+/**
+ * Search index of one project
+ */
+export class ProjectSearchIndex {
+  readonly project: SearchIndexProject;
+  readonly builtAt: Date;
+  /** True if the task tree hit SEARCH_MAX_TASKS */
+  readonly truncated: boolean;
+  private readonly entries: SearchEntry[];
+  private readonly pending: CommentSource[];
+  /** OIDs of the tasks and chats whose comments are indexed */
+  private readonly commented = new Set<string>();
+  private failed = 0;
+  private bm25: Bm25Index<SearchEntry>;
+
+  constructor(
+    project: SearchIndexProject,
+    entries: SearchEntry[],
+    pending: CommentSource[],
+    truncated: boolean,
+    builtAt: Date
+  ) {
+    this.project = project;
+    this.entries = entries;
+    this.pending = pending;
+    this.truncated = truncated;
+    this.builtAt = builtAt;
+    this.bm25 = new Bm25Index(entries);
+  }
+
+  /**
+   * The index to search
+   */
+  get index(): Bm25Index<SearchEntry> {
+    return this.bm25;
+  }
+
+  /**
+   * Number of indexed tasks, comments and documents, and of tasks and
+   * chats whose comments are not indexed: pending ones are added by later
+   * searches, failed ones could not be fetched
+   */
+  getStats(): {
+    tasks: number;
+    comments: number;
+    documents: number;
+    pendingComments: number;
+    failedComments: number;
+  } {
+    const count = (type: SearchHitType): number =>
+      this.entries.filter((entry) => entry.type === type).length;
+    return {
+      tasks: count("task"),
+      comments: count("comment"),
+      documents: count("document"),
+      pendingComments: this.pending.length,
+      failedComments: this.failed,
+    };
+  }
+
+  /**
+   * Fetch and index the comments of up to `limit` more tasks and chats.
+   * Returns the number of comment lists requested, including failed ones.
+   */
+  async addComments(client: QuireClient, limit: number): Promise<number> {
+    const batch = this.pending.splice(0, limit);
+    if (batch.length === 0) {
+      return 0;
+    }
+    const fetched = await mapWithConcurrency(
+      batch,
+      SEARCH_INDEX_CONCURRENCY,
+      async (source) => {
+        const comments =
+          "task" in source
+            ? await client.listTaskComments(source.task.oid)
+            : await client.listChatComments(source.chat.oid);
+        return comments.success
+          ? comments.data.map((comment) =>
+              toCommentEntry(comment, this.project, source)
+            )
+          : undefined;
+      }
+    );
+    for (const [i, entries] of fetched.entries()) {
+      const source = batch[i];
+      if (entries && source) {
+        this.entries.push(...entries);
+        this.commented.add(sourceOid(source));
+      } else {
+        this.failed++;
+      }
+    }
+    this.bm25 = new Bm25Index(this.entries);
+    return batch.length;
+  }
+
+  /**
+   * Take over the comments an earlier index of the project has indexed,
+   * for tasks and chats that still exist, instead of fetching them again.
+   * Comments posted since are only found after a fresh search.
+   */
+  takeComments(earlier: ProjectSearchIndex): void {
+    const taken = this.pending.filter((source) =>
+      earlier.commented.has(sourceOid(source))
+    );
+    if (taken.length === 0) {
+      return;
+    }
+    const sources = new Map(taken.map((source) => [sourceOid(source), source]));
+    for (const entry of earlier.entries) {
+      const source = sources.get(entry.task?.oid ?? entry.chat?.oid ?? "");
+      if (entry.type === "comment" && source) {
+        // The task or chat may have been renamed since
+        this.entries.push({ ...entry, project: this.project, ...source });
+      }
+    }
+    for (const oid of sources.keys()) {
+      this.commented.add(oid);
+    }
+    this.pending.splice(
+      0,
+      this.pending.length,
+      ...this.pending.filter((source) => !sources.has(sourceOid(source)))
+    );
+    this.bm25 = new Bm25Index(this.entries);
+  }
+}
+
+function toCommentEntry(
+  comment: QuireComment,
+  project: SearchIndexProject,
+  source: CommentSource
+): SearchEntry {
+  return {
+    type: "comment",
+    oid: comment.oid,
+    project,
+    title: "",
+    text: comment.descriptionText,
+    ...(comment.url !== undefined && { url: comment.url }),
+    ...source,
+  };
+}
+
+function flatten(nodes: QuireTaskTreeNode[]): QuireTaskTreeNode[] {
+  return nodes.flatMap((node) => [node, ...flatten(node.children)]);
+}
+
+/**
+ * Fetch a project's tasks, documents and chats and index them. Comments
+ * are left for `addComments()`.
+ */
+export async function buildProjectSearchIndex(
+  client: QuireClient,
+  project: SearchIndexProject,
+  now: Date = new Date()
+): Promise<QuireResult<ProjectSearchIndex>> {
+  const [tree, documents, chats] = await Promise.all([
+    client.getTaskTree(project.oid, { maxNodes: SEARCH_MAX_TASKS }),
+    client.listDocuments("project", project.oid),
+    client.listChats("project", project.oid),
+  ]);
+  if (!tree.success) {
+    return tree;
+  }
+  if (!documents.success) {
+    return documents;
+  }
+  if (!chats.success) {
+    return chats;
+  }
+
+  const tasks = flatten(tree.data.roots);
+  const entries: SearchEntry[] = [
+    ...tasks.map((task) => ({
+      type: "task" as const,
+      oid: task.oid,
+      project,
+      title: task.name,
+      text: task.descriptionText ?? "",
+      ...(task.url !== undefined && { url: task.url }),
+      task: { oid: task.oid, id: task.id, name: task.name },
+    })),
+    ...documents.data.map((document) => ({
+      type: "document" as const,
+      oid: document.oid,
+      project,
+      title: document.name,
+      text: document.descriptionText ?? "",
+      ...(document.url !== undefined && { url: document.url }),
+      document: { oid: document.oid, id: document.id, name: document.name },
+    })),
+  ];
+  const isOpen = (task: QuireTaskTreeNode): boolean =>
+    (task.status?.value ?? 0) < COMPLETED_STATUS;
+  const pending: CommentSource[] = [
+    ...chats.data.map((chat) => ({
+      chat: { oid: chat.oid, id: chat.id, name: chat.name },
+    })),
+    ...[...tasks.filter(isOpen), ...tasks.filter((task) => !isOpen(task))].map(
+      (task) => ({ task: { oid: task.oid, id: task.id, name: task.name } })
+    ),
+  ];
+
+  return {
+    success: true,
+    data: new ProjectSearchIndex(
+      project,
+      entries,
+      pending,
+      tree.data.truncated,
+      now
+    ),
+  };
+}
+
+/**
+ * Options for a search index cache
+ */
+export interface SearchIndexCacheOptions {
+  /** How long an index is reused in milliseconds */
+  ttlMs?: number;
+  /** Maximum number of project indexes before LRU eviction */
+  maxProjects?: number;
+  /** Clock, injectable for tests */
+  now?: () => number;
+}
+
+/**
+ * Project search indexes of one token, by project OID
+ */
+export class SearchIndexCache {
+  private readonly indexes: LRUCache<ProjectSearchIndex>;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor(options: SearchIndexCacheOptions = {}) {
+    this.indexes = new LRUCache({
+      maxSize: options.maxProjects ?? SEARCH_INDEX_MAX_PROJECTS,
+    });
+    this.ttlMs = options.ttlMs ?? SEARCH_INDEX_TTL_SECONDS * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Get a project's index unless it has expired
+   */
+  get(projectOid: string): ProjectSearchIndex | undefined {
+    const index = this.indexes.get(projectOid);
+    return index && !this.isExpired(index) ? index : undefined;
+  }
+
+  /**
+   * Get a project's index if it has expired, for its replacement to take
+   * over its comments. Expired indexes are kept until replaced or evicted.
+   */
+  getExpired(projectOid: string): ProjectSearchIndex | undefined {
+    const index = this.indexes.get(projectOid);
+    return index && this.isExpired(index) ? index : undefined;
+  }
+
+  private isExpired(index: ProjectSearchIndex): boolean {
+    return this.now() - index.builtAt.getTime() >= this.ttlMs;
+  }
+
+  /**
+   * Keep a project's index, replacing any earlier one
+   */
+  set(index: ProjectSearchIndex): void {
+    this.indexes.set(index.project.oid, index);
+  }
+
+  /**
+   * Number of kept indexes, including expired ones not yet replaced
+   */
+  get size(): number {
+    return this.indexes.size;
+  }
+}
+
+/**
+ * Shared index caches keyed by a hash of the Quire token
+ */
+const sharedCaches = new LRUCache<SearchIndexCache>({
+  maxSize: MAX_SHARED_INDEX_CACHES,
+});
+
+/**
+ * Get the search index cache shared by every client using the given Quire
+ * token. Tokens are hashed so raw credentials are not kept as map keys.
+ */
+export function getSharedSearchIndexCache(token: string): SearchIndexCache {
+  const key = createHash("sha256").update(token).digest("hex");
+  let cache = sharedCaches.get(key);
+  if (!cache) {
+    cache = new SearchIndexCache();
+    sharedCaches.set(key, cache);
+  }
+  return cache;
+}
+
+/**
+ * Clear all shared index caches.
+ * Useful for testing.
+ */
+export function clearSharedSearchIndexCaches(): void {
+  sharedCaches.clear();
+}
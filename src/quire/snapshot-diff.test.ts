@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { diffSnapshotTasks } from "./snapshot-diff.js";
+import type { SnapshotTask } from "./snapshots.js";
+
+const ann = { id: "ann", name: "Ann" };
+const bob = { id: "bob", name: "Bob" };
+
+function task(id: number, fields: Partial<SnapshotTask> = {}): SnapshotTask {
+  return {
+    oid: `T${String(id)}`,
+    id,
+    name: `Task ${String(id)}`,
+    assignees: [],
+    ...fields,
+  };
+}
+
+describe("diffSnapshotTasks", () => {
+  it("should report no changes for identical tasks", () => {
+    const tasks = [task(1, { assignees: [ann], due: "2026-10-20" })];
+
+    expect(diffSnapshotTasks(tasks, tasks)).toEqual({
+      created: [],
+      completed: [],
+      deleted: [],
+      renamed: [],
+      reassigned: [],
+      reprioritized: [],
+      redated: [],
+    });
+  });
+
+  it("should report created, completed and deleted tasks", () => {
+    const changes = diffSnapshotTasks(
+      [
+        task(1, { status: { value: 0, name: "To-Do" } }),
+        task(2),
+        task(4, { status: { value: 100, name: "Done" } }),
+      ],
+      [
+        task(1, { status: { value: 100, name: "Done" } }),
+        task(3),
+        task(4, { status: { value: 100, name: "Done" } }),
+      ]
+    );
+
+    expect(changes.completed).toEqual([{ oid: "T1", id: 1, name: "Task 1" }]);
+    expect(changes.created).toEqual([{ oid: "T3", id: 3, name: "Task 3" }]);
+    expect(changes.deleted).toEqual([{ oid: "T2", id: 2, name: "Task 2" }]);
+  });
+
+  it("should report renamed, reassigned, re-prioritized and re-dated tasks", () => {
+    const changes = diffSnapshotTasks(
+      [
+        task(1, {
+          name: "Draft",
+          assignees: [ann],
+          priority: { value: 0, name: "Medium" },
+          start: "2026-10-19",
+        }),
+      ],
+      [
+        task(1, {
+          name: "Final",
+          assignees: [bob],
+          due: "2026-10-30",
+          start: "2026-10-19",
+        }),
+      ]
+    );
+
+    const ref = { oid: "T1", id: 1, name: "Final" };
+    expect(changes.renamed).toEqual([{ ...ref, from: "Draft" }]);
+    expect(changes.reassigned).toEqual([
+      { ...ref, added: ["Bob"], removed: ["Ann"] },
+    ]);
+    expect(changes.reprioritized).toEqual([
+      { ...ref, from: "Medium", to: null },
+    ]);
+    expect(changes.redated).toEqual([
+      { ...ref, field: "due", from: null, to: "2026-10-30" },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Snapshot Diff
+ *
+ * Compares two snapshots of a project's tasks and lists what changed
+ * between them: tasks created, completed, deleted, renamed, reassigned,
+ * re-prioritized and re-dated. Tasks are matched by OID.
+ */
+
+import type { SnapshotTask } from "./snapshots.js";
+
+/**
+ * A task named in a change report, with its latest name
+ */
+export interface ChangedTask {
+  oid: string;
+  id: number;
+  name: string;
+}
+
+/**
+ * Changes between two snapshots
+ */
+export interface ProjectChanges {
+  created: ChangedTask[];
+  completed: ChangedTask[];
+  deleted: ChangedTask[];
+  renamed: (ChangedTask & { from: string })[];
+  /** Assignee names added and removed */
+  reassigned: (ChangedTask & { added: string[]; removed: string[] })[];
+  /** Priority names before and after */
+  reprioritized: (ChangedTask & { from: string | null; to: string | null })[];
+  /** One entry per changed date field */
+  redated: (ChangedTask & {
+    field: "start" | "due";
+    from: string | null;
+    to: string | null;
+  })[];
+}
+
+/**
+ * Change categories, in report order
+ */
+export const CHANGE_KINDS = [
+  "created",
+  "completed",
+  "deleted",
+  "renamed",
+  "reassigned",
+  "reprioritized",
+  "redated",
+] as const satisfies readonly (keyof ProjectChanges)[];
+
+function isDone(task: SnapshotTask): boolean {
+  return (task.status?.value ?? 0) >= 100;
+}
+
+function ref(task: SnapshotTask): ChangedTask {
+  return { oid: task.oid, id: task.id, name: task.name };
+}
+
+/**
+ * List the changes from one snapshot's tasks to another's
+ */
+export function diffSnapshotTasks(
+  before: SnapshotTask[],
+  after: SnapshotTask[]
+): ProjectChanges {
+  const changes: ProjectChanges = {
+    created: [],
+    completed: [],
+    deleted: [],
+    renamed: [],
+    reassigned: [],
+    reprioritized: [],
+    redated: [],
+  };
+  const previous = new Map(before.map((task) => [task.oid, task]));
+
+  for (const task of after) {
+    const old = previous.get(task.oid);
+    previous.delete(task.oid);
+    if (!old) {
+      changes.created.push(ref(task));
+      continue;
+    }
+
+    if (isDone(task) && !isDone(old)) {
+      changes.completed.push(ref(task));
+    }
+    if (task.name !== old.name) {
+      changes.renamed.push({ ...ref(task), from: old.name });
+    }
+
+    const ids = new Set(task.assignees.map((u) => u.id));
+    const oldIds = new Set(old.assignees.map((u) => u.id));
+    const added = task.assignees.filter((u) => !oldIds.has(u.id));
+    const removed = old.assignees.filter((u) => !ids.has(u.id));
+    if (added.length > 0 || removed.length > 0) {
+      changes.reassigned.push({
+        ...ref(task),
+        added: added.map((u) => u.name),
+        removed: removed.map((u) => u.name),
+      });
+    }
+
+    if (task.priority?.value !== old.priority?.value) {
+      changes.reprioritized.push({
+        ...ref(task),
+        from: old.priority?.name ?? null,
+        to: task.priority?.name ?? null,
+      });
+    }
+    for (const field of ["start", "due"] as const) {
+      if (task[field] !== old[field]) {
+        changes.redated.push({
+          ...ref(task),
+          field,
+          from: old[field] ?? null,
+          to: task[field] ?? null,
+        });
+      }
+    }
+  }
+
+  changes.deleted = [...previous.values()].map(ref);
+  return changes;
+}
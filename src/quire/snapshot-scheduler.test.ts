@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { QuireClient } from "./client.js";
+import {
+  getSnapshotScheduleConfig,
+  startSnapshotSchedule,
+  takeScheduledSnapshots,
+} from "./snapshot-scheduler.js";
+import type { SnapshotStore } from "./snapshots.js";
+import { QuireClientError } from "./types.js";
+
+describe("getSnapshotScheduleConfig", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should be disabled without projects", () => {
+    vi.stubEnv("QUIRE_SNAPSHOT_PROJECTS", " , ");
+    expect(getSnapshotScheduleConfig()).toBeUndefined();
+  });
+
+  it("should read projects and the interval", () => {
+    vi.stubEnv("QUIRE_SNAPSHOT_PROJECTS", "web, api");
+    expect(getSnapshotScheduleConfig()).toEqual({
+      projects: ["web", "api"],
+      intervalMinutes: 60,
+    });
+
+    vi.stubEnv("QUIRE_SNAPSHOT_INTERVAL", "15");
+    expect(getSnapshotScheduleConfig()?.intervalMinutes).toBe(15);
+  });
+
+  it("should reject invalid intervals", () => {
+    vi.stubEnv("QUIRE_SNAPSHOT_PROJECTS", "web");
+    vi.stubEnv("QUIRE_SNAPSHOT_INTERVAL", "0.5");
+
+    expect(getSnapshotScheduleConfig()).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid QUIRE_SNAPSHOT_INTERVAL")
+    );
+  });
+});
+
+describe("takeScheduledSnapshots", () => {
+  const tree = {
+    success: true,
+    data: { roots: [], nodeCount: 0, truncated: false },
+  };
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    store = { save: vi.fn() } as unknown as SnapshotStore;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function clientWith(getTaskTree: unknown): () => Promise<{
+    success: true;
+    data: QuireClient;
+  }> {
+    return () =>
+      Promise.resolve({
+        success: true,
+        data: {
+          getProject: (idOrOid: string) =>
+            Promise.resolve({
+              success: true,
+              data: {
+                oid: idOrOid.toUpperCase(),
+                id: idOrOid.toLowerCase(),
+                name: idOrOid,
+              },
+            }),
+          getTaskTree,
+        } as unknown as QuireClient,
+      });
+  }
+
+  it("should save a snapshot of each project under its ID", async () => {
+    await takeScheduledSnapshots(
+      ["web", "API"],
+      store,
+      clientWith(vi.fn().mockResolvedValue(tree))
+    );
+
+    expect(store.save).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: "web" })
+    );
+    expect(store.save).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: "api" })
+    );
+  });
+
+  it("should log failures and carry on with the other projects", async () => {
+    const getTaskTree = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: false,
+        error: new QuireClientError("Not found", "NOT_FOUND", 404),
+      })
+      .mockResolvedValue(tree);
+    vi.mocked(store.save)
+      .mockImplementationOnce(() => {
+        throw new Error("Disk full");
+      })
+      .mockImplementation((snapshot) => snapshot);
+
+    await takeScheduledSnapshots(
+      ["gone", "web", "api"],
+      store,
+      clientWith(getTaskTree)
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Snapshot of gone failed: Not found"
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Failed to save snapshot of web:",
+      expect.any(Error)
+    );
+    expect(store.save).toHaveBeenCalledTimes(2);
+  });
+
+  it("should skip the run when there is no token", async () => {
+    await takeScheduledSnapshots(["web"], store, () =>
+      Promise.resolve({
+        success: false,
+        error: new QuireClientError("No token", "MISSING_TOKEN"),
+      })
+    );
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Scheduled snapshots skipped: No token"
+    );
+    expect(store.save).not.toHaveBeenCalled();
+  });
+
+  it("should run now and on every interval until stopped", async () => {
+    vi.useFakeTimers();
+    const getTaskTree = vi.fn().mockResolvedValue(tree);
+
+    const stop = startSnapshotSchedule(
+      { projects: ["web"], intervalMinutes: 10 },
+      store,
+      clientWith(getTaskTree)
+    );
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(getTaskTree).toHaveBeenCalledTimes(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(getTaskTree).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Snapshot Schedule
+ *
+ * Takes snapshots of the projects listed in QUIRE_SNAPSHOT_PROJECTS every
+ * QUIRE_SNAPSHOT_INTERVAL minutes (default: 60), so changes can be reported
+ * without anyone remembering to take a snapshot first. Uses the stdio
+ * authentication chain (QUIRE_ACCESS_TOKEN or the cached OAuth token).
+ */
+
+import { SNAPSHOT_DEFAULT_INTERVAL_MINUTES } from "../constants.js";
+import { createClientFromAuth, type QuireClient } from "./client.js";
+import { captureProjectSnapshot, SnapshotStore } from "./snapshots.js";
+import type { QuireResult } from "./types.js";
+
+/**
+ * Projects to snapshot and how often
+ */
+export interface SnapshotScheduleConfig {
+  /** Project IDs or OIDs; snapshots are stored under the project ID */
+  projects: string[];
+  intervalMinutes: number;
+}
+
+/**
+ * Load the snapshot schedule from environment variables.
+ * Returns undefined if no projects are listed or the interval is invalid.
+ */
+export function getSnapshotScheduleConfig():
+  | SnapshotScheduleConfig
+  | undefined {
+  const projects = (process.env["QUIRE_SNAPSHOT_PROJECTS"] ?? "")
+    .split(",")
+    .map((project) => project.trim())
+    .filter(Boolean);
+  if (projects.length === 0) {
+    return undefined;
+  }
+
+  const interval = process.env["QUIRE_SNAPSHOT_INTERVAL"];
+  const intervalMinutes =
+    interval === undefined
+      ? SNAPSHOT_DEFAULT_INTERVAL_MINUTES
+      : Number(interval);
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1) {
+    console.error(
+      `[quire-mcp] ERROR: Invalid QUIRE_SNAPSHOT_INTERVAL "${String(interval)}". Use a whole number of minutes.`
+    );
+    return undefined;
+  }
+  return { projects, intervalMinutes };
+}
+
+/**
+ * Snapshot each project in turn. Failures are logged and do not stop the
+ * other projects.
+ */
+/** @internal Exported for testing */
+export async function takeScheduledSnapshots(
+  projects: string[],
+  store: SnapshotStore,
+  createClient: () => Promise<QuireResult<QuireClient>>
+): Promise<void> {
+  const client = await createClient();
+  if (!client.success) {
+    console.error(
+      `[quire-mcp] Scheduled snapshots skipped: ${client.error.message}`
+    );
+    return;
+  }
+  for (const projectId of projects) {
+    const snapshot = await captureProjectSnapshot(client.data, projectId);
+    if (!snapshot.success) {
+      console.error(
+        `[quire-mcp] Snapshot of ${projectId} failed: ${snapshot.error.message}`
+      );
+      continue;
+    }
+    try {
+      store.save(snapshot.data);
+    } catch (err) {
+      console.error(
+        `[quire-mcp] Failed to save snapshot of ${projectId}:`,
+        err
+      );
+    }
+  }
+}
+
+/**
+ * Take snapshots now and then on every interval. The timer does not keep
+ * the process alive. Returns a function that stops the schedule.
+ */
+export function startSnapshotSchedule(
+  config: SnapshotScheduleConfig,
+  store: SnapshotStore = new SnapshotStore(),
+  createClient: () => Promise<QuireResult<QuireClient>> = createClientFromAuth
+): () => void {
+  const run = (): void => {
+    void takeScheduledSnapshots(config.projects, store, createClient);
+  };
+  run();
+  const timer = setInterval(run, config.intervalMinutes * 60 * 1000);
+  timer.unref();
+  console.error(
+    `[quire-mcp] Snapshotting ${config.projects.join(", ")} every ${String(config.intervalMinutes)} minutes`
+  );
+  return () => {
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SNAPSHOT_MAX_NODES, SNAPSHOT_MAX_PER_PROJECT } from "../constants.js";
+import type { QuireClient } from "./client.js";
+import {
+  captureProjectSnapshot,
+  getSnapshotDir,
+  SnapshotStore,
+  type ProjectSnapshot,
+} from "./snapshots.js";
+import { getDefaultStoreDir } from "./token-store.js";
+import { QuireClientError } from "./types.js";
+
+function snapshot(
+  id: string,
+  tasks: ProjectSnapshot["tasks"] = []
+): ProjectSnapshot {
+  return {
+    id,
+    projectId: "web",
+    takenAt: "2026-10-19T10:00:00.000Z",
+    truncated: false,
+    tasks,
+  };
+}
+
+describe("getSnapshotDir", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should default to a directory next to the token store", () => {
+    vi.stubEnv("QUIRE_SNAPSHOT_DIR", undefined);
+    expect(getSnapshotDir()).toBe(join(getDefaultStoreDir(), "snapshots"));
+  });
+
+  it("should respect QUIRE_SNAPSHOT_DIR", () => {
+    vi.stubEnv("QUIRE_SNAPSHOT_DIR", "/tmp/snapshots");
+    expect(getSnapshotDir()).toBe("/tmp/snapshots");
+  });
+});
+
+describe("captureProjectSnapshot", () => {
+  const getProject = vi.fn().mockResolvedValue({
+    success: true,
+    data: { oid: "P1", id: "web", name: "Website" },
+  });
+
+  it("should keep the reported fields of every task in the tree", async () => {
+    const getTaskTree = vi.fn().mockResolvedValue({
+      success: true,
+      data: {
+        roots: [
+          {
+            oid: "T1",
+            id: 1,
+            name: "Launch",
+            description: "Not kept",
+            status: { value: 0, name: "To-Do", color: "red" },
+            priority: { value: 1, name: "High" },
+            assignees: [{ oid: "U1", id: "ann", name: "Ann" }],
+            due: "2026-10-30",
+            children: [
+              {
+                oid: "T2",
+                id: 2,
+                name: "Write docs",
+                start: "2026-10-20",
+                children: [],
+              },
+            ],
+          },
+        ],
+        nodeCount: 2,
+        truncated: false,
+      },
+    });
+    const client = { getProject, getTaskTree } as unknown as QuireClient;
+
+    const result = await captureProjectSnapshot(
+      client,
+      "P1",
+      new Date("2026-10-19T10:00:00.123Z")
+    );
+
+    expect(getProject).toHaveBeenCalledWith("P1");
+    expect(getTaskTree).toHaveBeenCalledWith("P1", {
+      maxNodes: SNAPSHOT_MAX_NODES,
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        id: "2026-10-19T100000123Z",
+        projectId: "web",
+        takenAt: "2026-10-19T10:00:00.123Z",
+        truncated: false,
+        tasks: [
+          {
+            oid: "T1",
+            id: 1,
+            name: "Launch",
+            status: { value: 0, name: "To-Do" },
+            priority: { value: 1, name: "High" },
+            assignees: [{ id: "ann", name: "Ann" }],
+            due: "2026-10-30",
+          },
+          {
+            oid: "T2",
+            id: 2,
+            name: "Write docs",
+            assignees: [],
+            start: "2026-10-20",
+          },
+        ],
+      },
+    });
+  });
+
+  it("should return project and task tree errors", async () => {
+    const error = {
+      success: false,
+      error: new QuireClientError("Not found", "NOT_FOUND", 404),
+    };
+    const getTaskTree = vi.fn().mockResolvedValue(error);
+
+    expect(
+      await captureProjectSnapshot(
+        { getProject, getTaskTree } as unknown as QuireClient,
+        "web"
+      )
+    ).toBe(error);
+    expect(
+      await captureProjectSnapshot(
+        {
+          getProject: vi.fn().mockResolvedValue(error),
+          getTaskTree,
+        } as unknown as QuireClient,
+        "web"
+      )
+    ).toBe(error);
+  });
+});
+
+describe("SnapshotStore", () => {
+  let dir: string;
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "quire-mcp-snapshots-"));
+    store = new SnapshotStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should save, list and load snapshots", () => {
+    const task = { oid: "T1", id: 1, name: "Launch", assignees: [] };
+    store.save(snapshot("2026-10-19T100000Z", [task]));
+    store.save(snapshot("2026-10-18T100000Z"));
+
+    expect(store.list("web")).toEqual([
+      {
+        id: "2026-10-18T100000Z",
+        projectId: "web",
+        takenAt: "2026-10-19T10:00:00.000Z",
+        taskCount: 0,
+        truncated: false,
+      },
+      expect.objectContaining({ id: "2026-10-19T100000Z", taskCount: 1 }),
+    ]);
+    expect(store.load("web", "2026-10-19T100000Z")?.tasks).toEqual([task]);
+  });
+
+  it("should never overwrite a snapshot taken with the same ID", () => {
+    const first = store.save(snapshot("2026-10-19T100000000Z"));
+    const second = store.save(
+      snapshot("2026-10-19T100000000Z", [
+        { oid: "T1", id: 1, name: "Launch", assignees: [] },
+      ])
+    );
+
+    expect(first.id).toBe("2026-10-19T100000000Z");
+    expect(second.id).toBe("2026-10-19T100000000Z-1");
+    expect(store.list("web").map((s) => [s.id, s.taskCount])).toEqual([
+      ["2026-10-19T100000000Z", 0],
+      ["2026-10-19T100000000Z-1", 1],
+    ]);
+  });
+
+  it("should make snapshots readable by the owner only", () => {
+    store.save(snapshot("2026-10-19T100000000Z"));
+
+    if (process.platform !== "win32") {
+      expect(statSync(join(dir, "web")).mode & 0o777).toBe(0o700);
+      expect(
+        statSync(join(dir, "web", "2026-10-19T100000000Z.json")).mode & 0o777
+      ).toBe(0o600);
+    }
+  });
+
+  it("should return nothing for unknown projects and snapshots", () => {
+    store.save(snapshot("2026-10-19T100000Z"));
+
+    expect(store.list("api")).toEqual([]);
+    expect(store.load("web", "2026-10-20T100000Z")).toBeUndefined();
+    expect(store.load("web", "../web/2026-10-19T100000Z")).toBeUndefined();
+  });
+
+  it("should skip unreadable snapshot files", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    store.save(snapshot("2026-10-19T100000Z"));
+    writeFileSync(join(dir, "web", "2026-10-17T100000Z.json"), "{}");
+    writeFileSync(join(dir, "web", "2026-10-18T100000Z.json"), "{");
+    writeFileSync(join(dir, "web", "notes.txt"), "");
+
+    expect(store.list("web").map((s) => s.id)).toEqual(["2026-10-19T100000Z"]);
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep only the most recent snapshots of a project", () => {
+    for (let day = 1; day <= SNAPSHOT_MAX_PER_PROJECT + 2; day++) {
+      const id = `2026-10-${String(day).padStart(2, "0")}T100000Z`;
+      store.save(snapshot(id));
+    }
+
+    const files = readdirSync(join(dir, "web")).sort();
+    expect(files).toHaveLength(SNAPSHOT_MAX_PER_PROJECT);
+    expect(files[0]).toBe("2026-10-03T100000Z.json");
+  });
+});
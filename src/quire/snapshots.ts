@@ -0,0 +1,256 @@
+/**
+ * Project Snapshots
+ *
+ * Quire's API has no activity feed, so changes are found by comparing
+ * copies of a project's task tree taken at different times. Snapshots are
+ * kept as JSON files, one directory per project ID (never OID or name, so
+ * every way of naming a project finds the same snapshots):
+ *   <QUIRE_SNAPSHOT_DIR or the token store directory/snapshots>/<project>/<id>.json
+ *
+ * Only the task fields that changes are reported on are kept. Each project
+ * keeps its SNAPSHOT_MAX_PER_PROJECT most recent snapshots.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import { SNAPSHOT_MAX_NODES, SNAPSHOT_MAX_PER_PROJECT } from "../constants.js";
+import type { QuireClient } from "./client.js";
+import { getDefaultStoreDir } from "./token-store.js";
+import type { QuireResult, QuireTaskTreeNode } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const NamedValueSchema = z.object({ value: z.number(), name: z.string() });
+
+const SnapshotTaskSchema = z.object({
+  oid: z.string(),
+  id: z.number(),
+  name: z.string(),
+  status: NamedValueSchema.optional(),
+  priority: NamedValueSchema.optional(),
+  assignees: z.array(z.object({ id: z.string(), name: z.string() })),
+  start: z.string().optional(),
+  due: z.string().optional(),
+});
+
+const ProjectSnapshotSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  takenAt: z.string(),
+  /** True if the task tree hit a size or depth limit */
+  truncated: z.boolean(),
+  tasks: z.array(SnapshotTaskSchema),
+});
+
+/**
+ * The fields of a task that snapshots keep
+ */
+export type SnapshotTask = z.infer<typeof SnapshotTaskSchema>;
+
+/**
+ * A project's tasks at one point in time
+ */
+export type ProjectSnapshot = z.infer<typeof ProjectSnapshotSchema>;
+
+/**
+ * A stored snapshot without its tasks
+ */
+export interface SnapshotInfo {
+  id: string;
+  projectId: string;
+  takenAt: string;
+  taskCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Summarize a snapshot without its tasks
+ */
+export function toSnapshotInfo(snapshot: ProjectSnapshot): SnapshotInfo {
+  return {
+    id: snapshot.id,
+    projectId: snapshot.projectId,
+    takenAt: snapshot.takenAt,
+    taskCount: snapshot.tasks.length,
+    truncated: snapshot.truncated,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Path Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the snapshot directory.
+ * Respects QUIRE_SNAPSHOT_DIR env var if set.
+ */
+export function getSnapshotDir(): string {
+  return (
+    process.env["QUIRE_SNAPSHOT_DIR"] ?? join(getDefaultStoreDir(), "snapshots")
+  );
+}
+
+/**
+ * Snapshot ID for a capture time: the UTC time to the millisecond, without
+ * characters that are not allowed in file names ("2026-10-19T100000123Z")
+ */
+function snapshotId(takenAt: Date): string {
+  return takenAt.toISOString().replace(/[:.]/g, "");
+}
+
+// ---------------------------------------------------------------------------
+// Capture
+// ---------------------------------------------------------------------------
+
+function toSnapshotTasks(nodes: QuireTaskTreeNode[]): SnapshotTask[] {
+  return nodes.flatMap((node) => {
+    const { oid, id, name, status, priority, start, due } = node;
+    const task: SnapshotTask = {
+      oid,
+      id,
+      name,
+      ...(status && { status: { value: status.value, name: status.name } }),
+      ...(priority && {
+        priority: { value: priority.value, name: priority.name },
+      }),
+      assignees: (node.assignees ?? []).map((u) => ({
+        id: u.id,
+        name: u.name,
+      })),
+      ...(start && { start }),
+      ...(due && { due }),
+    };
+    return [task, ...toSnapshotTasks(node.children)];
+  });
+}
+
+/**
+ * Fetch a project's task tree (up to SNAPSHOT_MAX_NODES tasks) as a
+ * snapshot. The project may be given by ID or OID; the snapshot always
+ * records its ID. The snapshot is not stored.
+ */
+export async function captureProjectSnapshot(
+  client: QuireClient,
+  projectIdOrOid: string,
+  now: Date = new Date()
+): Promise<QuireResult<ProjectSnapshot>> {
+  const project = await client.getProject(projectIdOrOid);
+  if (!project.success) {
+    return project;
+  }
+  const tree = await client.getTaskTree(project.data.oid, {
+    maxNodes: SNAPSHOT_MAX_NODES,
+  });
+  if (!tree.success) {
+    return tree;
+  }
+  return {
+    success: true,
+    data: {
+      id: snapshotId(now),
+      projectId: project.data.id,
+      takenAt: now.toISOString(),
+      truncated: tree.data.truncated,
+      tasks: toSnapshotTasks(tree.data.roots),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot Store
+// ---------------------------------------------------------------------------
+
+/**
+ * Snapshot files in a directory, one subdirectory per project
+ */
+export class SnapshotStore {
+  constructor(private readonly dir: string = getSnapshotDir()) {}
+
+  private projectDir(projectId: string): string {
+    return join(this.dir, encodeURIComponent(projectId));
+  }
+
+  /**
+   * Store a snapshot, then delete the project's oldest snapshots beyond
+   * SNAPSHOT_MAX_PER_PROJECT. An existing snapshot is never overwritten: if
+   * the ID is taken, a "-1", "-2"... suffix is added. Returns the snapshot
+   * as stored.
+   */
+  save(snapshot: ProjectSnapshot): ProjectSnapshot {
+    const dir = this.projectDir(snapshot.projectId);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    let id = snapshot.id;
+    for (let n = 1; existsSync(join(dir, `${id}.json`)); n++) {
+      id = `${snapshot.id}-${String(n)}`;
+    }
+    const stored = { ...snapshot, id };
+    // "wx" fails rather than overwrite a file created since the check
+    writeFileSync(join(dir, `${id}.json`), JSON.stringify(stored), {
+      encoding: "utf-8",
+      mode: 0o600, // Owner read/write only
+      flag: "wx",
+    });
+
+    const ids = this.ids(snapshot.projectId);
+    for (const old of ids.slice(0, -SNAPSHOT_MAX_PER_PROJECT)) {
+      rmSync(join(dir, `${old}.json`), { force: true });
+    }
+    return stored;
+  }
+
+  /**
+   * Load a snapshot. Returns undefined if it doesn't exist or is invalid.
+   */
+  load(projectId: string, id: string): ProjectSnapshot | undefined {
+    const path = join(this.projectDir(projectId), `${id}.json`);
+    if (!/^[\w-]+$/.test(id) || !existsSync(path)) {
+      return undefined;
+    }
+    try {
+      const parsed = ProjectSnapshotSchema.safeParse(
+        JSON.parse(readFileSync(path, "utf-8"))
+      );
+      if (parsed.success) {
+        return parsed.data;
+      }
+      console.error(`[quire-mcp] Snapshot file ${path} has invalid structure`);
+    } catch (err) {
+      console.error(`[quire-mcp] Failed to load snapshot ${path}:`, err);
+    }
+    return undefined;
+  }
+
+  /**
+   * The project's stored snapshots, oldest first
+   */
+  list(projectId: string): SnapshotInfo[] {
+    return this.ids(projectId).flatMap((id) => {
+      const snapshot = this.load(projectId, id);
+      return snapshot ? [toSnapshotInfo(snapshot)] : [];
+    });
+  }
+
+  /** Snapshot IDs of a project, oldest first (IDs sort by time) */
+  private ids(projectId: string): string[] {
+    const dir = this.projectDir(projectId);
+    if (!existsSync(dir)) {
+      return [];
+    }
+    return readdirSync(dir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .sort();
+  }
+}
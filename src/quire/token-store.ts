@@ -18,9 +18,10 @@ import type { QuireTokenData } from "./oauth.js";
 // ---------------------------------------------------------------------------
 
 /**
- * Get the default token store directory based on platform conventions.
+ * Get the default directory for local files (tokens, snapshots) based on
+ * platform conventions.
  */
-function getDefaultStoreDir(): string {
+export function getDefaultStoreDir(): string {
   const platform = process.platform;
 
   if (platform === "win32") {
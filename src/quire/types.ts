@@ -180,6 +180,45 @@ export interface CreateTaskParams {
   tags?: number[];
 }
 
+/**
+ * Task with its fetched subtasks, as returned by getTaskTree
+ */
+export interface QuireTaskTreeNode extends QuireTask {
+  children: QuireTaskTreeNode[];
+}
+
+/**
+ * Options for fetching a task tree
+ */
+export interface TaskTreeOptions {
+  /** Start from this task's subtasks instead of the project's root tasks */
+  rootTaskOid?: string;
+  /** Number of levels to fetch; the first level counts as 1 */
+  maxDepth?: number;
+  /** Maximum number of tasks to include */
+  maxNodes?: number;
+  /** Maximum number of subtask lists fetched in parallel */
+  concurrency?: number;
+  /**
+   * Checked before each subtask list request; the walk stops when it
+   * returns false
+   */
+  shouldContinue?: () => boolean;
+}
+
+/**
+ * Result of a task tree fetch
+ */
+export interface QuireTaskTree {
+  roots: QuireTaskTreeNode[];
+  /** Number of tasks included in the tree */
+  nodeCount: number;
+  /** True when a limit stopped the walk before the whole tree was fetched */
+  truncated: boolean;
+  /** The limit that stopped the walk, when truncated */
+  limitReached?: "maxDepth" | "maxNodes" | "stopped";
+}
+
 /**
  * Task update parameters
  */
@@ -253,6 +292,7 @@ export type QuireErrorCode =
   | "SERVER_ERROR"
   | "NETWORK_ERROR"
   | "TIMEOUT"
+  | "NOT_MIRRORED"
   | "UNKNOWN";
 
 // =====================
@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  getUrlProjectId,
+  parseQuireUrl,
+  projectIdFromUriVariable,
+} from "./urls.js";
+
+describe("parseQuireUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should parse project links", () => {
+    expect(parseQuireUrl("https://quire.io/w/my-project")).toEqual({
+      kind: "project",
+      projectId: "my-project",
+    });
+    expect(parseQuireUrl("https://www.quire.io/w/my-project/")).toEqual({
+      kind: "project",
+      projectId: "my-project",
+    });
+  });
+
+  it("should parse task links in path and query form", () => {
+    expect(parseQuireUrl("https://quire.io/w/my-project/42")).toEqual({
+      kind: "task",
+      projectId: "my-project",
+      taskId: 42,
+    });
+    expect(
+      parseQuireUrl("https://quire.io/w/my-project/42/fix-login-bug")
+    ).toEqual({ kind: "task", projectId: "my-project", taskId: 42 });
+    expect(parseQuireUrl("https://quire.io/w/my-project?t=7")).toEqual({
+      kind: "task",
+      projectId: "my-project",
+      taskId: 7,
+    });
+  });
+
+  it("should ignore a non-numeric task query", () => {
+    expect(parseQuireUrl("https://quire.io/w/my-project?t=abc")).toEqual({
+      kind: "project",
+      projectId: "my-project",
+    });
+  });
+
+  it("should parse document, sublist and chat links", () => {
+    expect(parseQuireUrl("https://quire.io/w/p/doc/specs")).toEqual({
+      kind: "document",
+      projectId: "p",
+      documentId: "specs",
+    });
+    expect(parseQuireUrl("https://quire.io/w/p/document/specs")).toEqual({
+      kind: "document",
+      projectId: "p",
+      documentId: "specs",
+    });
+    expect(parseQuireUrl("https://quire.io/w/p?doc=specs")).toEqual({
+      kind: "document",
+      projectId: "p",
+      documentId: "specs",
+    });
+    expect(parseQuireUrl("https://quire.io/w/p/sublist/sprint-1")).toEqual({
+      kind: "sublist",
+      projectId: "p",
+      sublistId: "sprint-1",
+    });
+    expect(parseQuireUrl("https://quire.io/w/p?chat=general")).toEqual({
+      kind: "chat",
+      projectId: "p",
+      chatId: "general",
+    });
+  });
+
+  it("should parse organization and user links", () => {
+    expect(parseQuireUrl("https://quire.io/c/acme")).toEqual({
+      kind: "organization",
+      organizationId: "acme",
+    });
+    expect(parseQuireUrl("https://quire.io/o/acme")).toEqual({
+      kind: "organization",
+      organizationId: "acme",
+    });
+    expect(parseQuireUrl("https://quire.io/u/alice")).toEqual({
+      kind: "user",
+      userId: "alice",
+    });
+  });
+
+  it("should decode path segments and trim whitespace", () => {
+    expect(parseQuireUrl("  https://quire.io/w/caf%C3%A9  ")).toEqual({
+      kind: "project",
+      projectId: "café",
+    });
+  });
+
+  it("should accept the host of QUIRE_BASE_URL", () => {
+    vi.stubEnv("QUIRE_BASE_URL", "http://127.0.0.1:4000");
+
+    expect(parseQuireUrl("http://127.0.0.1:4000/w/local")).toEqual({
+      kind: "project",
+      projectId: "local",
+    });
+  });
+
+  it("should ignore an unparseable QUIRE_BASE_URL", () => {
+    vi.stubEnv("QUIRE_BASE_URL", "not a url");
+
+    expect(parseQuireUrl("https://example.com/w/p")).toBeUndefined();
+    expect(parseQuireUrl("https://quire.io/w/p")).toEqual({
+      kind: "project",
+      projectId: "p",
+    });
+  });
+
+  it("should return undefined for values that are not Quire links", () => {
+    expect(parseQuireUrl("my-project")).toBeUndefined();
+    expect(parseQuireUrl("TaskOid.123")).toBeUndefined();
+    expect(parseQuireUrl("https://example.com/w/p")).toBeUndefined();
+    expect(parseQuireUrl("ftp://quire.io/w/p")).toBeUndefined();
+    expect(parseQuireUrl("https://quire.io/")).toBeUndefined();
+    expect(parseQuireUrl("https://quire.io/w")).toBeUndefined();
+    expect(parseQuireUrl("https://quire.io/blog/post")).toBeUndefined();
+    expect(parseQuireUrl("https://quire.io/w/%E0%A4%A")).toBeUndefined();
+  });
+});
+
+describe("getUrlProjectId", () => {
+  it("should return the project of project-scoped links", () => {
+    expect(getUrlProjectId({ kind: "task", projectId: "p", taskId: 1 })).toBe(
+      "p"
+    );
+    expect(
+      getUrlProjectId({ kind: "organization", organizationId: "acme" })
+    ).toBeUndefined();
+  });
+});
+
+describe("projectIdFromUriVariable", () => {
+  it("should extract the project from a percent-encoded link", () => {
+    expect(
+      projectIdFromUriVariable(
+        encodeURIComponent("https://quire.io/w/my-project/12")
+      )
+    ).toBe("my-project");
+  });
+
+  it("should return other values unchanged", () => {
+    expect(projectIdFromUriVariable("my-project")).toBe("my-project");
+    expect(projectIdFromUriVariable("%E0%A4%A")).toBe("%E0%A4%A");
+    expect(
+      projectIdFromUriVariable(encodeURIComponent("https://quire.io/u/alice"))
+    ).toBe(encodeURIComponent("https://quire.io/u/alice"));
+  });
+});
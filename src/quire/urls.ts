@@ -0,0 +1,152 @@
+/**
+ * Quire Web URL Parsing
+ *
+ * Turns links copied from the Quire web app into the identifiers the API
+ * takes. Recognized forms (on quire.io or the configured QUIRE_BASE_URL):
+ *
+ *   /w/{projectId}                          project
+ *   /w/{projectId}/{taskId}[/{slug}]        task
+ *   /w/{projectId}?t={taskId}               task
+ *   /w/{projectId}/doc/{documentId}         document (also ?doc=)
+ *   /w/{projectId}/sublist/{sublistId}      sublist (also ?sublist=)
+ *   /w/{projectId}/chat/{chatId}            chat channel (also ?chat=)
+ *   /c/{organizationId}, /o/{organizationId} organization
+ *   /u/{userId}                             user
+ */
+
+import { getQuireWebBaseUrl } from "./endpoints.js";
+
+/**
+ * What a Quire web URL points at
+ */
+export type QuireUrl =
+  | { kind: "project"; projectId: string }
+  | { kind: "task"; projectId: string; taskId: number }
+  | { kind: "document"; projectId: string; documentId: string }
+  | { kind: "sublist"; projectId: string; sublistId: string }
+  | { kind: "chat"; projectId: string; chatId: string }
+  | { kind: "organization"; organizationId: string }
+  | { kind: "user"; userId: string };
+
+/** Project-scoped URL kinds whose item ID follows a path segment or query key */
+const PROJECT_ITEM_KINDS = {
+  doc: "document",
+  document: "document",
+  sublist: "sublist",
+  chat: "chat",
+} as const;
+
+/**
+ * Hosts whose links are parsed: quire.io and the configured web base URL
+ */
+function isQuireHost(host: string): boolean {
+  if (host === "quire.io" || host === "www.quire.io") {
+    return true;
+  }
+  try {
+    return new URL(getQuireWebBaseUrl()).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the path and query of a project URL (/w/{projectId}/...)
+ */
+function parseProjectUrl(
+  projectId: string,
+  rest: string[],
+  query: URLSearchParams
+): QuireUrl {
+  const [first, second] = rest;
+  if (first && /^\d+$/.test(first)) {
+    return { kind: "task", projectId, taskId: Number(first) };
+  }
+  const taskParam = query.get("t");
+  if (taskParam && /^\d+$/.test(taskParam)) {
+    return { kind: "task", projectId, taskId: Number(taskParam) };
+  }
+
+  for (const [key, kind] of Object.entries(PROJECT_ITEM_KINDS)) {
+    const id = first === key ? second : (query.get(key) ?? undefined);
+    if (id) {
+      switch (kind) {
+        case "document":
+          return { kind, projectId, documentId: id };
+        case "sublist":
+          return { kind, projectId, sublistId: id };
+        case "chat":
+          return { kind, projectId, chatId: id };
+      }
+    }
+  }
+  return { kind: "project", projectId };
+}
+
+/**
+ * Parse a Quire web URL. Returns undefined for anything that is not a
+ * recognized link to a Quire project, task, document, sublist, chat,
+ * organization or user, including plain IDs and OIDs.
+ */
+export function parseQuireUrl(value: string): QuireUrl | undefined {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return undefined;
+  }
+  if (
+    (url.protocol !== "https:" && url.protocol !== "http:") ||
+    !isQuireHost(url.host)
+  ) {
+    return undefined;
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    return undefined;
+  }
+
+  const [section, id, ...rest] = segments;
+  if (!id) {
+    return undefined;
+  }
+  switch (section) {
+    case "w":
+      return parseProjectUrl(id, rest, url.searchParams);
+    case "c":
+    case "o":
+      return { kind: "organization", organizationId: id };
+    case "u":
+      return { kind: "user", userId: id };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The project a URL belongs to, if it is project-scoped
+ */
+export function getUrlProjectId(url: QuireUrl): string | undefined {
+  return "projectId" in url ? url.projectId : undefined;
+}
+
+/**
+ * The project ID named by a resource URI variable, which may hold a
+ * percent-encoded Quire link. Other values are returned unchanged.
+ */
+export function projectIdFromUriVariable(value: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+  const url = parseQuireUrl(decoded);
+  return (url && getUrlProjectId(url)) ?? value;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getQuireEventLog,
+  normalizeWebhookEvent,
+  QuireEventLog,
+  resetQuireEventLog,
+  type WebhookPayload,
+} from "./webhook-events.js";
+
+function payload(
+  type: number,
+  data: Partial<WebhookPayload["data"]> = {}
+): WebhookPayload {
+  return {
+    type: "notification",
+    data: {
+      type,
+      project: { oid: "P1", id: "web", name: "Website" },
+      task: { oid: "T1", id: 12, name: "Launch" },
+      ...data,
+    },
+  };
+}
+
+describe("normalizeWebhookEvent", () => {
+  it("should map notification types to event kinds", () => {
+    const kinds = [0, 3, 8, 5].map(
+      (type) => normalizeWebhookEvent(payload(type), 1)?.kind
+    );
+
+    expect(kinds).toEqual([
+      "task.created",
+      "task.completed",
+      "task.commented",
+      "task.updated",
+    ]);
+  });
+
+  it("should keep the project, task, user and description", () => {
+    const event = normalizeWebhookEvent(
+      payload(3, {
+        user: { id: "ann", name: "Ann" },
+        text: "Ann completed Launch",
+        url: "https://quire.io/w/web/12",
+      }),
+      7,
+      new Date("2026-10-19T10:00:00Z")
+    );
+
+    expect(event).toEqual({
+      seq: 7,
+      kind: "task.completed",
+      receivedAt: "2026-10-19T10:00:00.000Z",
+      project: { oid: "P1", id: "web", name: "Website" },
+      task: { oid: "T1", id: 12, name: "Launch" },
+      user: "Ann",
+      text: "Ann completed Launch",
+      url: "https://quire.io/w/web/12",
+    });
+  });
+
+  it("should ignore notifications that are not about a task", () => {
+    expect(
+      normalizeWebhookEvent(payload(20, { task: undefined }), 1)
+    ).toBeUndefined();
+  });
+});
+
+describe("QuireEventLog", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should keep the most recent events in order", () => {
+    const log = new QuireEventLog(2);
+
+    log.add(payload(0));
+    log.add(payload(5, { task: undefined }));
+    log.add(payload(3));
+    log.add(payload(8));
+
+    expect(log.list().map((event) => [event.seq, event.kind])).toEqual([
+      [2, "task.completed"],
+      [3, "task.commented"],
+    ]);
+  });
+
+  it("should tell listeners about new events until they stop listening", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const log = new QuireEventLog();
+    const listener = vi.fn();
+    const stop = log.onEvent(listener);
+    log.onEvent(() => {
+      throw new Error("Listener failed");
+    });
+
+    const event = log.add(payload(0));
+    stop();
+    log.add(payload(3));
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith(event);
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Webhook event listener failed:",
+      expect.any(Error)
+    );
+  });
+});
+
+describe("getQuireEventLog", () => {
+  it("should share one log until reset", () => {
+    const log = getQuireEventLog();
+    expect(getQuireEventLog()).toBe(log);
+
+    resetQuireEventLog();
+    expect(getQuireEventLog()).not.toBe(log);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Quire Webhook Events
+ *
+ * Normalizes Quire webhook deliveries into task events (created, updated,
+ * completed, commented) and keeps the most recent ones in a bounded,
+ * in-memory log. Listeners on the log, such as resource subscriptions,
+ * hear about each event as it arrives.
+ *
+ * @see https://quire.io/dev/api/#webhook
+ */
+
+import { z } from "zod";
+import { WEBHOOK_EVENT_BUFFER_SIZE } from "../constants.js";
+
+export const QUIRE_EVENT_KINDS = [
+  "task.created",
+  "task.updated",
+  "task.completed",
+  "task.commented",
+] as const;
+
+export type QuireEventKind = (typeof QUIRE_EVENT_KINDS)[number];
+
+/**
+ * Quire notification types with their own event kind. Every other
+ * notification about a task (assignments, date and status changes, edits)
+ * is reported as task.updated.
+ */
+const NOTIFICATION_KINDS: Partial<Record<number, QuireEventKind>> = {
+  0: "task.created",
+  3: "task.completed",
+  8: "task.commented",
+};
+
+/**
+ * A webhook delivery as sent by Quire. Only the fields used for routing
+ * and display are validated; the rest is ignored.
+ */
+export const WebhookPayloadSchema = z.object({
+  type: z.string(),
+  token: z.string().optional(),
+  data: z.object({
+    type: z.number(),
+    text: z.string().optional(),
+    url: z.string().optional(),
+    user: z.object({ id: z.string().optional(), name: z.string() }).optional(),
+    project: z
+      .object({ oid: z.string(), id: z.string(), name: z.string() })
+      .optional(),
+    task: z
+      .object({ oid: z.string(), id: z.number(), name: z.string() })
+      .optional(),
+  }),
+});
+
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+/**
+ * A normalized task event
+ */
+export interface QuireEvent {
+  /** Sequence number, increasing in arrival order */
+  seq: number;
+  kind: QuireEventKind;
+  receivedAt: string;
+  project: { oid: string; id: string; name: string };
+  task: { oid: string; id: number; name: string };
+  /** Who made the change, when Quire reports it */
+  user?: string;
+  /** Quire's description of the change, e.g. "Ann completed Launch" */
+  text?: string;
+  url?: string;
+}
+
+/**
+ * Turn a webhook delivery into an event. Returns undefined for
+ * notifications that are not about a task in a project.
+ */
+export function normalizeWebhookEvent(
+  payload: WebhookPayload,
+  seq: number,
+  receivedAt: Date = new Date()
+): QuireEvent | undefined {
+  const { data } = payload;
+  if (!data.project || !data.task) {
+    return undefined;
+  }
+  return {
+    seq,
+    kind: NOTIFICATION_KINDS[data.type] ?? "task.updated",
+    receivedAt: receivedAt.toISOString(),
+    project: data.project,
+    task: data.task,
+    ...(data.user && { user: data.user.name }),
+    ...(data.text !== undefined && { text: data.text }),
+    ...(data.url !== undefined && { url: data.url }),
+  };
+}
+
+export type QuireEventListener = (event: QuireEvent) => void;
+
+/**
+ * Bounded log of recent events. The oldest events are dropped once the
+ * log is full.
+ */
+export class QuireEventLog {
+  private readonly events: QuireEvent[] = [];
+  private readonly listeners = new Set<QuireEventListener>();
+  private nextSeq = 1;
+
+  constructor(private readonly maxSize: number = WEBHOOK_EVENT_BUFFER_SIZE) {}
+
+  /**
+   * Normalize and record a delivery, then tell every listener.
+   * Returns the event, or undefined if the delivery was ignored.
+   */
+  add(payload: WebhookPayload): QuireEvent | undefined {
+    const event = normalizeWebhookEvent(payload, this.nextSeq);
+    if (!event) {
+      return undefined;
+    }
+    this.nextSeq++;
+    this.events.push(event);
+    if (this.events.length > this.maxSize) {
+      this.events.shift();
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error("[quire-mcp] Webhook event listener failed:", err);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Recorded events, oldest first
+   */
+  list(): QuireEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Call a listener for every new event. Returns a function that removes
+   * the listener.
+   */
+  onEvent(listener: QuireEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+let sharedLog = new QuireEventLog();
+
+/**
+ * Get the event log shared by the webhook receiver, resource
+ * subscriptions and tools
+ */
+export function getQuireEventLog(): QuireEventLog {
+  return sharedLog;
+}
+
+/**
+ * Replace the shared event log with an empty one.
+ * Useful for testing.
+ */
+export function resetQuireEventLog(): void {
+  sharedLog = new QuireEventLog();
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerChatResource } from "./chat.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClientOrThrow: vi.fn(),
+}));
+
+vi.mock("./completions.js", () => ({
+  createChatOidCompleter: vi.fn(() => vi.fn()),
+}));
+
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+
+describe("registerChatResource", () => {
+  let server: McpServer;
+  let registeredResources: Map<
+    string,
+    {
+      template: unknown;
+      description: string;
+      handler: (
+        uri: URL,
+        variables: Record<string, string>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredResources = new Map();
+    server = {
+      registerResource: vi.fn(
+        (
+          name: string,
+          template: unknown,
+          config: { description: string },
+          handler: (
+            uri: URL,
+            variables: Record<string, string>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredResources.set(name, {
+            template,
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerChatResource(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function getHandler(): (
+    uri: URL,
+    variables: Record<string, string>,
+    extra: unknown
+  ) => Promise<unknown> {
+    const resource = registeredResources.get("chat");
+    if (!resource) throw new Error("Resource not found");
+    return resource.handler;
+  }
+
+  function message(minute: number): { oid: string; createdAt: string } {
+    return {
+      oid: `message-${String(minute)}`,
+      createdAt: `2026-10-19T10:${String(minute).padStart(2, "0")}:00.000Z`,
+    };
+  }
+
+  it("should register chat resource template", () => {
+    expect(server.registerResource).toHaveBeenCalledWith(
+      "chat",
+      expect.any(Object), // ResourceTemplate
+      expect.objectContaining({
+        description: expect.any(String) as unknown as string,
+      }),
+      expect.any(Function)
+    );
+    expect(registeredResources.has("chat")).toBe(true);
+  });
+
+  describe("resource handler", () => {
+    it("should return the chat with its recent messages, oldest first", async () => {
+      // Newest first, one more than the resource includes
+      const messages = Array.from({ length: 51 }, (_, i) => message(50 - i));
+      const mockClient = {
+        getChat: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: { oid: "chat-oid-1", id: "general", name: "General" },
+        }),
+        listChatComments: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: messages,
+        }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const result = (await getHandler()(
+        new URL("quire://chat/chat-oid-1"),
+        { oid: "chat-oid-1" },
+        {}
+      )) as {
+        contents: { uri: string; mimeType: string; text: string }[];
+      };
+
+      const data = JSON.parse(result.contents[0]?.text ?? "") as {
+        name: string;
+        messages: { oid: string }[];
+        messageCount: number;
+      };
+      expect(result.contents[0]?.uri).toBe("quire://chat/chat-oid-1");
+      expect(data.name).toBe("General");
+      expect(data.messageCount).toBe(51);
+      expect(data.messages).toHaveLength(50);
+      expect(data.messages[0]?.oid).toBe("message-1");
+      expect(data.messages[49]?.oid).toBe("message-50");
+      expect(mockClient.getChat).toHaveBeenCalledWith("chat-oid-1");
+      expect(mockClient.listChatComments).toHaveBeenCalledWith("chat-oid-1");
+    });
+
+    it("should throw error when chat OID is missing", async () => {
+      await expect(
+        getHandler()(new URL("quire://chat/"), { oid: "" }, {})
+      ).rejects.toThrow("Chat OID is required");
+    });
+
+    it("should throw error on client failure", async () => {
+      const notFound = {
+        success: false,
+        error: { code: "NOT_FOUND", message: "Chat not found" },
+      };
+      const ok = { success: true, data: [] };
+
+      for (const [chat, messages, error] of [
+        [notFound, ok, "Failed to fetch chat: NOT_FOUND"],
+        [ok, notFound, "Failed to fetch chat messages: NOT_FOUND"],
+      ] as const) {
+        const mockClient = {
+          getChat: vi.fn().mockResolvedValueOnce(chat),
+          listChatComments: vi.fn().mockResolvedValueOnce(messages),
+        };
+
+        vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+          mockClient as unknown as Awaited<
+            ReturnType<typeof getQuireClientOrThrow>
+          >
+        );
+
+        await expect(
+          getHandler()(
+            new URL("quire://chat/chat-oid-1"),
+            { oid: "chat-oid-1" },
+            {}
+          )
+        ).rejects.toThrow(error);
+      }
+    });
+
+    it("should propagate getQuireClientOrThrow errors", async () => {
+      vi.mocked(getQuireClientOrThrow).mockRejectedValueOnce(
+        new Error("Authentication required")
+      );
+
+      await expect(
+        getHandler()(
+          new URL("quire://chat/chat-oid-1"),
+          { oid: "chat-oid-1" },
+          {}
+        )
+      ).rejects.toThrow("Authentication required");
+    });
+  });
+});
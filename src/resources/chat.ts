@@ -0,0 +1,84 @@
+/**
+ * quire://chat/{oid} Resource Template
+ *
+ * Provides a chat channel with its most recent messages.
+ * This allows clients to attach a conversation as context.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CHAT_RESOURCE_RECENT_MESSAGES } from "../constants.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { createChatOidCompleter } from "./completions.js";
+
+/**
+ * Register the quire://chat/{oid} resource template
+ */
+export function registerChatResource(server: McpServer): void {
+  const template = new ResourceTemplate("quire://chat/{oid}", {
+    list: undefined, // Chats are listed per-project
+    complete: {
+      oid: createChatOidCompleter(),
+    },
+  });
+
+  server.registerResource(
+    "chat",
+    template,
+    {
+      description:
+        "A Quire chat channel with its " +
+        `${String(CHAT_RESOURCE_RECENT_MESSAGES)} most recent messages, ` +
+        "oldest first. The {oid} parameter is the chat OID.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      const oid = variables["oid"] as string;
+      if (!oid) {
+        throw new Error("Chat OID is required");
+      }
+
+      // Fetch the chat and its messages
+      const [chat, messages] = await Promise.all([
+        client.getChat(oid),
+        client.listChatComments(oid),
+      ]);
+      if (!chat.success) {
+        throw new Error(
+          `Failed to fetch chat: ${chat.error.code} - ${chat.error.message}`
+        );
+      }
+      if (!messages.success) {
+        throw new Error(
+          `Failed to fetch chat messages: ${messages.error.code} - ${messages.error.message}`
+        );
+      }
+
+      // ISO timestamps sort chronologically as strings
+      const recent = [...messages.data]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(-CHAT_RESOURCE_RECENT_MESSAGES);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                ...chat.data,
+                messages: recent,
+                messageCount: messages.data.length,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
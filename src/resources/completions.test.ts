@@ -11,6 +11,10 @@ import type { QuireClient } from "../quire/client.js";
 import {
   createProjectIdCompleter,
   createOrganizationIdCompleter,
+  createTaskOidCompleter,
+  createDocumentOidCompleter,
+  createSublistOidCompleter,
+  createChatOidCompleter,
   clearCompletionCache,
 } from "./completions.js";
 
@@ -32,6 +36,10 @@ describe("Resource Completions", () => {
     mockClient = {
       listProjects: vi.fn(),
       listOrganizations: vi.fn(),
+      searchOrganizationTasks: vi.fn(),
+      listDocuments: vi.fn(),
+      listSublists: vi.fn(),
+      listChats: vi.fn(),
     };
 
     mockCreateClientFromAuth = createClientFromAuth as Mock;
@@ -446,6 +454,190 @@ describe("Resource Completions", () => {
     });
   });
 
+  describe("createTaskOidCompleter", () => {
+    beforeEach(() => {
+      mockCreateClientFromAuth.mockResolvedValue({
+        success: true,
+        data: mockClient,
+      });
+      (mockClient.listOrganizations as Mock).mockResolvedValue({
+        success: true,
+        data: [
+          { id: "org-1", name: "Acme" },
+          { id: "org-2", name: "Side" },
+        ],
+      });
+    });
+
+    it("should search every organization for matching tasks", async () => {
+      (mockClient.searchOrganizationTasks as Mock)
+        .mockResolvedValueOnce({
+          success: true,
+          data: [
+            { oid: "task-1", name: "Launch" },
+            { oid: "task-2", name: "Launch party" },
+          ],
+        })
+        .mockResolvedValueOnce({
+          success: false,
+          error: { code: "FORBIDDEN", message: "No access" },
+        });
+
+      const completer = createTaskOidCompleter();
+      const result = await completer(" launch ");
+
+      expect(result).toEqual(["task-1", "task-2"]);
+      expect(mockClient.searchOrganizationTasks).toHaveBeenCalledWith(
+        "org-1",
+        "launch"
+      );
+      expect(mockClient.searchOrganizationTasks).toHaveBeenCalledWith(
+        "org-2",
+        "launch"
+      );
+    });
+
+    it("should narrow down cached searches as the input grows", async () => {
+      (mockClient.searchOrganizationTasks as Mock).mockResolvedValue({
+        success: true,
+        data: [
+          { oid: "task-1", name: "Launch" },
+          { oid: "task-2", name: "Lab setup" },
+        ],
+      });
+      const completer = createTaskOidCompleter();
+
+      expect(await completer("la")).toEqual(["task-1", "task-2"]);
+      expect(await completer("La")).toEqual(["task-1", "task-2"]);
+      expect(await completer("lau")).toEqual(["task-1"]);
+      expect(mockClient.searchOrganizationTasks).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep a bounded number of cached searches", async () => {
+      (mockClient.searchOrganizationTasks as Mock).mockResolvedValue({
+        success: true,
+        data: [{ oid: "task-1", name: "Launch" }],
+      });
+      const completer = createTaskOidCompleter();
+
+      await completer("la");
+      for (let i = 0; i < 200; i++) {
+        await completer(`k${String(i).padStart(3, "0")}`);
+      }
+      vi.mocked(mockClient.searchOrganizationTasks!).mockClear();
+      await completer("la");
+
+      expect(mockClient.searchOrganizationTasks).toHaveBeenCalledTimes(2);
+    });
+
+    it("should search at most 5 organizations", async () => {
+      (mockClient.listOrganizations as Mock).mockResolvedValue({
+        success: true,
+        data: Array.from({ length: 7 }, (_, i) => ({
+          id: `org-${String(i)}`,
+          name: `Org ${String(i)}`,
+        })),
+      });
+      (mockClient.searchOrganizationTasks as Mock).mockResolvedValue({
+        success: true,
+        data: [],
+      });
+
+      await createTaskOidCompleter()("launch");
+
+      expect(mockClient.searchOrganizationTasks).toHaveBeenCalledTimes(5);
+    });
+
+    it("should not search for short input", async () => {
+      const completer = createTaskOidCompleter();
+
+      expect(await completer("l")).toEqual([]);
+      expect(mockCreateClientFromAuth).not.toHaveBeenCalled();
+    });
+
+    it("should return empty array when auth fails", async () => {
+      mockCreateClientFromAuth.mockResolvedValue({
+        success: false,
+        error: { code: "UNAUTHORIZED", message: "No auth" },
+      });
+
+      const completer = createTaskOidCompleter();
+
+      expect(await completer("launch")).toEqual([]);
+      expect(mockClient.searchOrganizationTasks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe.each([
+    ["createDocumentOidCompleter", createDocumentOidCompleter, "listDocuments"],
+    ["createSublistOidCompleter", createSublistOidCompleter, "listSublists"],
+    ["createChatOidCompleter", createChatOidCompleter, "listChats"],
+  ] as const)("%s", (_name, createCompleter, method) => {
+    it("should suggest items of the first 10 projects by name", async () => {
+      const projects = Array.from({ length: 12 }, (_, i) => ({
+        oid: `project-${String(i)}`,
+        id: `proj-${String(i)}`,
+        name: `Project ${String(i)}`,
+      }));
+      mockCreateClientFromAuth.mockResolvedValue({
+        success: true,
+        data: mockClient,
+      });
+      (mockClient.listProjects as Mock).mockResolvedValue({
+        success: true,
+        data: projects,
+      });
+      (mockClient[method] as Mock).mockImplementation(
+        (_ownerType: string, projectOid: string) =>
+          Promise.resolve(
+            projectOid === "project-1"
+              ? { success: false, error: { code: "FORBIDDEN", message: "" } }
+              : {
+                  success: true,
+                  data: [
+                    { oid: `${projectOid}-a`, name: "Roadmap" },
+                    { oid: `${projectOid}-b`, name: "Notes" },
+                  ],
+                }
+          )
+      );
+
+      const completer = createCompleter();
+      const result = await completer("road");
+
+      expect(result).toHaveLength(9);
+      expect(result[0]).toBe("project-0-a");
+      expect(result).not.toContain("project-10-a");
+      expect(mockClient[method]).toHaveBeenCalledTimes(10);
+      expect(mockClient[method]).toHaveBeenCalledWith("project", "project-0");
+
+      // Listed items are cached
+      await completer("notes");
+      expect(mockClient[method]).toHaveBeenCalledTimes(10);
+    });
+
+    it("should return empty array when auth or the project list fails", async () => {
+      mockCreateClientFromAuth.mockResolvedValueOnce({
+        success: false,
+        error: { code: "UNAUTHORIZED", message: "No auth" },
+      });
+      mockCreateClientFromAuth.mockResolvedValueOnce({
+        success: true,
+        data: mockClient,
+      });
+      (mockClient.listProjects as Mock).mockResolvedValue({
+        success: false,
+        error: { code: "SERVER_ERROR", message: "API error" },
+      });
+
+      const completer = createCompleter();
+
+      expect(await completer("")).toEqual([]);
+      expect(await completer("")).toEqual([]);
+      expect(mockClient[method]).not.toHaveBeenCalled();
+    });
+  });
+
   describe("clearCompletionCache", () => {
     it("should clear cache and force fresh fetch", async () => {
       const projects = [{ id: "proj-1", name: "Project 1" }];
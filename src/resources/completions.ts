@@ -11,22 +11,53 @@
  */
 
 import type { CompleteResourceTemplateCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { createClientFromAuth } from "../quire/client.js";
+import { createClientFromAuth, type QuireClient } from "../quire/client.js";
+import type { QuireResult } from "../quire/types.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { LRUCache } from "../utils/lru-cache.js";
 
 /**
  * Maximum number of suggestions to return
  */
 const MAX_SUGGESTIONS = 20;
 
+/**
+ * Maximum number of projects whose documents, sublists or chats are
+ * listed for suggestions. Each project takes one request.
+ */
+const MAX_ITEM_PROJECTS = 10;
+
+/**
+ * Number of list or search requests sent in parallel
+ */
+const COMPLETION_CONCURRENCY = 4;
+
+/**
+ * Minimum input length before tasks are searched
+ */
+const MIN_TASK_SEARCH_LENGTH = 2;
+
+/**
+ * Maximum number of organizations searched for task suggestions. Each
+ * organization takes one request per search.
+ */
+const MAX_TASK_SEARCH_ORGANIZATIONS = 5;
+
+/**
+ * Maximum number of cached completion lists. Each task search keyword
+ * takes an entry, so the least recently used ones are evicted.
+ */
+const MAX_COMPLETION_CACHE_ENTRIES = 200;
+
 /**
  * Cache for completion results to reduce API calls.
  * Key is cache type (e.g., "projects", "organizations")
  * Value is { data: string[], timestamp: number }
  */
-const completionCache = new Map<
-  string,
-  { data: { id: string; name: string }[]; timestamp: number }
->();
+const completionCache = new LRUCache<{
+  data: { id: string; name: string }[];
+  timestamp: number;
+}>({ maxSize: MAX_COMPLETION_CACHE_ENTRIES });
 
 /**
  * Cache TTL in milliseconds (30 seconds)
@@ -79,6 +110,29 @@ function filterSuggestions(
     .map((item) => item.id);
 }
 
+/**
+ * Suggestions from a fresh cached task search for the keyword, or for one
+ * of its prefixes. A search for a prefix finds every task the keyword
+ * would, so its results are narrowed down by name.
+ */
+function getCachedTaskSuggestions(keyword: string): string[] | undefined {
+  const now = Date.now();
+  for (
+    let length = keyword.length;
+    length >= MIN_TASK_SEARCH_LENGTH;
+    length--
+  ) {
+    const cached = completionCache.get(`tasks:${keyword.slice(0, length)}`);
+    if (!cached || now - cached.timestamp >= CACHE_TTL_MS) {
+      continue;
+    }
+    return length === keyword.length
+      ? cached.data.slice(0, MAX_SUGGESTIONS).map((task) => task.id)
+      : filterSuggestions(cached.data, keyword);
+  }
+  return undefined;
+}
+
 /**
  * Create a completion callback for project IDs.
  * Suggests project IDs based on the user's accessible projects.
@@ -123,6 +177,123 @@ export function createOrganizationIdCompleter(): CompleteResourceTemplateCallbac
   };
 }
 
+/**
+ * Create a completion callback for task OIDs.
+ * Searches the first MAX_TASK_SEARCH_ORGANIZATIONS organizations for tasks
+ * matching the input, since there are too many tasks to list; suggests
+ * nothing for shorter input. Results are cached per keyword, and longer
+ * input typed after a search is matched against its results.
+ */
+export function createTaskOidCompleter(): CompleteResourceTemplateCallback {
+  return async (value: string): Promise<string[]> => {
+    const keyword = value.trim().toLowerCase();
+    if (keyword.length < MIN_TASK_SEARCH_LENGTH) {
+      return [];
+    }
+    const cached = getCachedTaskSuggestions(keyword);
+    if (cached) {
+      return cached;
+    }
+    const clientResult = await createClientFromAuth();
+    if (!clientResult.success) {
+      // Auth not available - return empty suggestions
+      return [];
+    }
+    const client = clientResult.data;
+
+    const organizations = await getCachedOrFetch("organizations", async () => {
+      const result = await client.listOrganizations();
+      if (!result.success) return [];
+      return result.data.map((o) => ({ id: o.id, name: o.name }));
+    });
+    const tasks = await getCachedOrFetch(`tasks:${keyword}`, async () => {
+      const results = await mapWithConcurrency(
+        organizations.slice(0, MAX_TASK_SEARCH_ORGANIZATIONS),
+        COMPLETION_CONCURRENCY,
+        (organization) =>
+          client.searchOrganizationTasks(organization.id, keyword)
+      );
+      const found = new Map<string, { id: string; name: string }>();
+      for (const result of results) {
+        if (!result.success) continue;
+        for (const task of result.data) {
+          found.set(task.oid, { id: task.oid, name: task.name });
+        }
+      }
+      return [...found.values()];
+    });
+    return tasks.slice(0, MAX_SUGGESTIONS).map((task) => task.id);
+  };
+}
+
+/**
+ * Create a completion callback for the OIDs of documents, sublists or
+ * chats, listed from the first MAX_ITEM_PROJECTS accessible projects
+ */
+function createProjectItemOidCompleter(
+  cacheKey: string,
+  listItems: (
+    client: QuireClient,
+    projectOid: string
+  ) => Promise<QuireResult<{ oid: string; name: string }[]>>
+): CompleteResourceTemplateCallback {
+  return async (value: string): Promise<string[]> => {
+    const clientResult = await createClientFromAuth();
+    if (!clientResult.success) {
+      // Auth not available - return empty suggestions
+      return [];
+    }
+    const client = clientResult.data;
+
+    const items = await getCachedOrFetch(cacheKey, async () => {
+      const projects = await client.listProjects();
+      if (!projects.success) return [];
+      const results = await mapWithConcurrency(
+        projects.data.slice(0, MAX_ITEM_PROJECTS),
+        COMPLETION_CONCURRENCY,
+        (project) => listItems(client, project.oid)
+      );
+      return results.flatMap((result) =>
+        result.success
+          ? result.data.map((item) => ({ id: item.oid, name: item.name }))
+          : []
+      );
+    });
+
+    return filterSuggestions(items, value);
+  };
+}
+
+/**
+ * Create a completion callback for document OIDs.
+ * Suggests documents whose name matches the input.
+ */
+export function createDocumentOidCompleter(): CompleteResourceTemplateCallback {
+  return createProjectItemOidCompleter("documents", (client, projectOid) =>
+    client.listDocuments("project", projectOid)
+  );
+}
+
+/**
+ * Create a completion callback for sublist OIDs.
+ * Suggests sublists whose name matches the input.
+ */
+export function createSublistOidCompleter(): CompleteResourceTemplateCallback {
+  return createProjectItemOidCompleter("sublists", (client, projectOid) =>
+    client.listSublists("project", projectOid)
+  );
+}
+
+/**
+ * Create a completion callback for chat OIDs.
+ * Suggests chat channels whose name matches the input.
+ */
+export function createChatOidCompleter(): CompleteResourceTemplateCallback {
+  return createProjectItemOidCompleter("chats", (client, projectOid) =>
+    client.listChats("project", projectOid)
+  );
+}
+
 /**
  * Clear the completion cache.
  * Useful for testing or when data is known to have changed.
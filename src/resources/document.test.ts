@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerDocumentResource } from "./document.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClientOrThrow: vi.fn(),
+}));
+
+vi.mock("./completions.js", () => ({
+  createDocumentOidCompleter: vi.fn(() => vi.fn()),
+}));
+
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+
+describe("registerDocumentResource", () => {
+  let server: McpServer;
+  let registeredResources: Map<
+    string,
+    {
+      template: unknown;
+      description: string;
+      handler: (
+        uri: URL,
+        variables: Record<string, string>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredResources = new Map();
+    server = {
+      registerResource: vi.fn(
+        (
+          name: string,
+          template: unknown,
+          config: { description: string },
+          handler: (
+            uri: URL,
+            variables: Record<string, string>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredResources.set(name, {
+            template,
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerDocumentResource(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should register document resource template", () => {
+    expect(server.registerResource).toHaveBeenCalledWith(
+      "document",
+      expect.any(Object), // ResourceTemplate
+      expect.objectContaining({
+        description: expect.any(String) as unknown as string,
+      }),
+      expect.any(Function)
+    );
+    expect(registeredResources.has("document")).toBe(true);
+  });
+
+  describe("resource handler", () => {
+    it("should return document data on success", async () => {
+      const mockDocument = {
+        oid: "doc-oid-1",
+        id: "spec",
+        name: "Spec",
+        description: "Goals and scope",
+      };
+
+      const mockClient = {
+        getDocument: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: mockDocument,
+        }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const resource = registeredResources.get("document");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://document/document-oid-1");
+      const result = (await resource.handler(
+        mockUri,
+        { oid: "document-oid-1" },
+        {}
+      )) as {
+        contents: { uri: string; mimeType: string; text: string }[];
+      };
+
+      expect(result.contents).toHaveLength(1);
+      expect(result.contents[0]?.uri).toBe("quire://document/document-oid-1");
+      expect(result.contents[0]?.mimeType).toBe("application/json");
+      expect(JSON.parse(result.contents[0]?.text ?? "")).toEqual(mockDocument);
+      expect(mockClient.getDocument).toHaveBeenCalledWith("document-oid-1");
+    });
+
+    it("should throw error when document OID is missing", async () => {
+      const resource = registeredResources.get("document");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://document/");
+
+      await expect(resource.handler(mockUri, { oid: "" }, {})).rejects.toThrow(
+        "Document OID is required"
+      );
+    });
+
+    it("should throw error on client failure", async () => {
+      const mockClient = {
+        getDocument: vi.fn().mockResolvedValueOnce({
+          success: false,
+          error: { code: "NOT_FOUND", message: "Document not found" },
+        }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const resource = registeredResources.get("document");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://document/document-oid-1");
+
+      await expect(
+        resource.handler(mockUri, { oid: "document-oid-1" }, {})
+      ).rejects.toThrow(
+        "Failed to fetch document: NOT_FOUND - Document not found"
+      );
+    });
+
+    it("should propagate getQuireClientOrThrow errors", async () => {
+      vi.mocked(getQuireClientOrThrow).mockRejectedValueOnce(
+        new Error("Authentication required")
+      );
+
+      const resource = registeredResources.get("document");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://document/document-oid-1");
+
+      await expect(
+        resource.handler(mockUri, { oid: "document-oid-1" }, {})
+      ).rejects.toThrow("Authentication required");
+    });
+  });
+});
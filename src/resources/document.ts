@@ -0,0 +1,61 @@
+/**
+ * quire://document/{oid} Resource Template
+ *
+ * Provides a document's name, content and metadata.
+ * This allows clients to attach a Quire document as context.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { createDocumentOidCompleter } from "./completions.js";
+
+/**
+ * Register the quire://document/{oid} resource template
+ */
+export function registerDocumentResource(server: McpServer): void {
+  const template = new ResourceTemplate("quire://document/{oid}", {
+    list: undefined, // Documents are listed per-project
+    complete: {
+      oid: createDocumentOidCompleter(),
+    },
+  });
+
+  server.registerResource(
+    "document",
+    template,
+    {
+      description:
+        "A Quire document with its content and metadata. " +
+        "The {oid} parameter is the document OID.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      const oid = variables["oid"] as string;
+      if (!oid) {
+        throw new Error("Document OID is required");
+      }
+
+      // Fetch document details
+      const result = await client.getDocument(oid);
+      if (!result.success) {
+        throw new Error(
+          `Failed to fetch document: ${result.error.code} - ${result.error.message}`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -6,6 +6,10 @@ vi.mock("./user-me.js", () => ({
   registerUserMeResource: vi.fn(),
 }));
 
+vi.mock("./user-me-tasks.js", () => ({
+  registerUserMeTasksResource: vi.fn(),
+}));
+
 vi.mock("./organizations.js", () => ({
   registerOrganizationsResource: vi.fn(),
 }));
@@ -30,20 +34,65 @@ vi.mock("./project-statuses.js", () => ({
   registerProjectStatusesResource: vi.fn(),
 }));
 
+vi.mock("./project-members.js", () => ({
+  registerProjectMembersResource: vi.fn(),
+}));
+
+vi.mock("./project-documents.js", () => ({
+  registerProjectDocumentsResource: vi.fn(),
+}));
+
+vi.mock("./task.js", () => ({
+  registerTaskResource: vi.fn(),
+}));
+
+vi.mock("./document.js", () => ({
+  registerDocumentResource: vi.fn(),
+}));
+
+vi.mock("./sublist.js", () => ({
+  registerSublistResource: vi.fn(),
+}));
+
+vi.mock("./chat.js", () => ({
+  registerChatResource: vi.fn(),
+}));
+
+vi.mock("./subscriptions.js", () => ({
+  enableResourceSubscriptions: vi.fn(),
+}));
+
 import { registerUserMeResource } from "./user-me.js";
+import { registerUserMeTasksResource } from "./user-me-tasks.js";
 import { registerOrganizationsResource } from "./organizations.js";
 import { registerProjectsResource } from "./projects.js";
 import { registerProjectResource } from "./project.js";
 import { registerProjectTasksResource } from "./project-tasks.js";
 import { registerProjectTagsResource } from "./project-tags.js";
 import { registerProjectStatusesResource } from "./project-statuses.js";
+import { registerProjectMembersResource } from "./project-members.js";
+import { registerProjectDocumentsResource } from "./project-documents.js";
+import { registerTaskResource } from "./task.js";
+import { registerDocumentResource } from "./document.js";
+import { registerSublistResource } from "./sublist.js";
+import { registerChatResource } from "./chat.js";
+import { enableResourceSubscriptions } from "./subscriptions.js";
 
 describe("registerResources", () => {
   let mockServer: McpServer;
+  let subscribableServer: McpServer;
 
   beforeEach(() => {
     vi.clearAllMocks();
     mockServer = {} as McpServer;
+    subscribableServer = {} as McpServer;
+    vi.mocked(enableResourceSubscriptions).mockReturnValue(subscribableServer);
+  });
+
+  it("should register resources through the subscription wrapper", () => {
+    registerResources(mockServer);
+
+    expect(enableResourceSubscriptions).toHaveBeenCalledWith(mockServer);
   });
 
   afterEach(() => {
@@ -53,29 +102,57 @@ describe("registerResources", () => {
   it("should register all static resources", () => {
     registerResources(mockServer);
 
-    expect(registerUserMeResource).toHaveBeenCalledWith(mockServer);
-    expect(registerOrganizationsResource).toHaveBeenCalledWith(mockServer);
-    expect(registerProjectsResource).toHaveBeenCalledWith(mockServer);
+    expect(registerUserMeResource).toHaveBeenCalledWith(subscribableServer);
+    expect(registerUserMeTasksResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerOrganizationsResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerProjectsResource).toHaveBeenCalledWith(subscribableServer);
   });
 
   it("should register all resource templates", () => {
     registerResources(mockServer);
 
-    expect(registerProjectResource).toHaveBeenCalledWith(mockServer);
-    expect(registerProjectTasksResource).toHaveBeenCalledWith(mockServer);
-    expect(registerProjectTagsResource).toHaveBeenCalledWith(mockServer);
-    expect(registerProjectStatusesResource).toHaveBeenCalledWith(mockServer);
+    expect(registerProjectResource).toHaveBeenCalledWith(subscribableServer);
+    expect(registerProjectTasksResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerProjectTagsResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerProjectStatusesResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerProjectMembersResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerProjectDocumentsResource).toHaveBeenCalledWith(
+      subscribableServer
+    );
+    expect(registerTaskResource).toHaveBeenCalledWith(subscribableServer);
+    expect(registerDocumentResource).toHaveBeenCalledWith(subscribableServer);
+    expect(registerSublistResource).toHaveBeenCalledWith(subscribableServer);
+    expect(registerChatResource).toHaveBeenCalledWith(subscribableServer);
   });
 
-  it("should register all 7 resources exactly once", () => {
+  it("should register all 14 resources exactly once", () => {
     registerResources(mockServer);
 
     expect(registerUserMeResource).toHaveBeenCalledTimes(1);
+    expect(registerUserMeTasksResource).toHaveBeenCalledTimes(1);
     expect(registerOrganizationsResource).toHaveBeenCalledTimes(1);
     expect(registerProjectsResource).toHaveBeenCalledTimes(1);
     expect(registerProjectResource).toHaveBeenCalledTimes(1);
     expect(registerProjectTasksResource).toHaveBeenCalledTimes(1);
     expect(registerProjectTagsResource).toHaveBeenCalledTimes(1);
     expect(registerProjectStatusesResource).toHaveBeenCalledTimes(1);
+    expect(registerProjectMembersResource).toHaveBeenCalledTimes(1);
+    expect(registerProjectDocumentsResource).toHaveBeenCalledTimes(1);
+    expect(registerTaskResource).toHaveBeenCalledTimes(1);
+    expect(registerDocumentResource).toHaveBeenCalledTimes(1);
+    expect(registerSublistResource).toHaveBeenCalledTimes(1);
+    expect(registerChatResource).toHaveBeenCalledTimes(1);
   });
 });
@@ -6,25 +6,43 @@
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerUserMeResource } from "./user-me.js";
+import { registerUserMeTasksResource } from "./user-me-tasks.js";
 import { registerOrganizationsResource } from "./organizations.js";
 import { registerProjectsResource } from "./projects.js";
 import { registerProjectResource } from "./project.js";
 import { registerProjectTasksResource } from "./project-tasks.js";
 import { registerProjectTagsResource } from "./project-tags.js";
 import { registerProjectStatusesResource } from "./project-statuses.js";
+import { registerProjectMembersResource } from "./project-members.js";
+import { registerProjectDocumentsResource } from "./project-documents.js";
+import { registerTaskResource } from "./task.js";
+import { registerDocumentResource } from "./document.js";
+import { registerSublistResource } from "./sublist.js";
+import { registerChatResource } from "./chat.js";
+import { enableResourceSubscriptions } from "./subscriptions.js";
 
 /**
  * Register all resources with the MCP server
  */
 export function registerResources(server: McpServer): void {
+  // Every resource registered below can be subscribed to
+  const resources = enableResourceSubscriptions(server);
+
   // Static resources
-  registerUserMeResource(server);
-  registerOrganizationsResource(server);
-  registerProjectsResource(server);
+  registerUserMeResource(resources);
+  registerUserMeTasksResource(resources);
+  registerOrganizationsResource(resources);
+  registerProjectsResource(resources);
 
   // Resource templates
-  registerProjectResource(server);
-  registerProjectTasksResource(server);
-  registerProjectTagsResource(server);
-  registerProjectStatusesResource(server);
+  registerProjectResource(resources);
+  registerProjectTasksResource(resources);
+  registerProjectTagsResource(resources);
+  registerProjectStatusesResource(resources);
+  registerProjectMembersResource(resources);
+  registerProjectDocumentsResource(resources);
+  registerTaskResource(resources);
+  registerDocumentResource(resources);
+  registerSublistResource(resources);
+  registerChatResource(resources);
 }
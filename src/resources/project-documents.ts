@@ -0,0 +1,70 @@
+/**
+ * quire://project/{projectId}/documents Resource Template
+ *
+ * Provides the documents of a specific project.
+ * This allows LLMs to find specs and notes kept next to the tasks.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { projectIdFromUriVariable } from "../quire/urls.js";
+import { createProjectIdCompleter } from "./completions.js";
+
+/**
+ * Register the quire://project/{projectId}/documents resource template
+ */
+export function registerProjectDocumentsResource(server: McpServer): void {
+  const template = new ResourceTemplate(
+    "quire://project/{projectId}/documents",
+    {
+      list: undefined, // Documents are accessed per-project
+      complete: {
+        projectId: createProjectIdCompleter(),
+      },
+    }
+  );
+
+  server.registerResource(
+    "project-documents",
+    template,
+    {
+      description:
+        "List of documents in a specific Quire project. " +
+        "Includes document names, descriptions and links. " +
+        "The {projectId} parameter can be the project ID (slug), OID, " +
+        "or a percent-encoded Quire project URL.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      // The variable may also be a percent-encoded Quire project link
+      const projectId = projectIdFromUriVariable(
+        variables["projectId"] as string
+      );
+      if (!projectId) {
+        throw new Error("Project ID is required");
+      }
+
+      // Fetch documents
+      const result = await client.listDocuments("project", projectId);
+      if (!result.success) {
+        throw new Error(
+          `Failed to fetch documents: ${result.error.code} - ${result.error.message}`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
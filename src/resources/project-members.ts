@@ -0,0 +1,67 @@
+/**
+ * quire://project/{projectId}/members Resource Template
+ *
+ * Provides the members of a specific project.
+ * This allows LLMs to see who can be assigned tasks.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { projectIdFromUriVariable } from "../quire/urls.js";
+import { createProjectIdCompleter } from "./completions.js";
+
+/**
+ * Register the quire://project/{projectId}/members resource template
+ */
+export function registerProjectMembersResource(server: McpServer): void {
+  const template = new ResourceTemplate("quire://project/{projectId}/members", {
+    list: undefined, // Members are accessed per-project
+    complete: {
+      projectId: createProjectIdCompleter(),
+    },
+  });
+
+  server.registerResource(
+    "project-members",
+    template,
+    {
+      description:
+        "List of members of a specific Quire project. " +
+        "Includes user IDs, names and emails. " +
+        "The {projectId} parameter can be the project ID (slug), OID, " +
+        "or a percent-encoded Quire project URL.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      // The variable may also be a percent-encoded Quire project link
+      const projectId = projectIdFromUriVariable(
+        variables["projectId"] as string
+      );
+      if (!projectId) {
+        throw new Error("Project ID is required");
+      }
+
+      // Fetch members
+      const result = await client.listProjectMembers(projectId);
+      if (!result.success) {
+        throw new Error(
+          `Failed to fetch members: ${result.error.code} - ${result.error.message}`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
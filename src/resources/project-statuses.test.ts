@@ -110,6 +110,32 @@ describe("registerProjectStatusesResource", () => {
       expect(mockClient.listStatuses).toHaveBeenCalledWith("proj1");
     });
 
+    it("should accept a percent-encoded Quire project URL", async () => {
+      const mockClient = {
+        listStatuses: vi
+          .fn()
+          .mockResolvedValueOnce({ success: true, data: [] }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const resource = registeredResources.get("project-statuses");
+      if (!resource) throw new Error("Resource not found");
+
+      const link = encodeURIComponent("https://quire.io/w/proj1/12");
+      await resource.handler(
+        new URL(`quire://project/${link}/statuses`),
+        { projectId: link },
+        {}
+      );
+
+      expect(mockClient.listStatuses).toHaveBeenCalledWith("proj1");
+    });
+
     it("should throw error when project ID is missing", async () => {
       const resource = registeredResources.get("project-statuses");
       expect(resource).toBeDefined();
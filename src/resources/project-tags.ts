@@ -8,6 +8,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { projectIdFromUriVariable } from "../quire/urls.js";
 import { createProjectIdCompleter } from "./completions.js";
 
 /**
@@ -28,14 +29,18 @@ export function registerProjectTagsResource(server: McpServer): void {
       description:
         "List of tags in a specific Quire project. " +
         "Includes tag names, colors, and other metadata. " +
-        "The {projectId} parameter can be either the project ID (slug) or OID.",
+        "The {projectId} parameter can be the project ID (slug), OID, " +
+        "or a percent-encoded Quire project URL.",
       mimeType: "application/json",
     },
     async (uri, variables, extra) => {
       // Get client using HTTP auth or fallback to stdio auth
       const client = await getQuireClientOrThrow(extra);
 
-      const projectId = variables["projectId"] as string;
+      // The variable may also be a percent-encoded Quire project link
+      const projectId = projectIdFromUriVariable(
+        variables["projectId"] as string
+      );
       if (!projectId) {
         throw new Error("Project ID is required");
       }
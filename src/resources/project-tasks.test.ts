@@ -110,6 +110,30 @@ describe("registerProjectTasksResource", () => {
       expect(mockClient.listTasks).toHaveBeenCalledWith("proj1");
     });
 
+    it("should accept a percent-encoded Quire project URL", async () => {
+      const mockClient = {
+        listTasks: vi.fn().mockResolvedValueOnce({ success: true, data: [] }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const resource = registeredResources.get("project-tasks");
+      if (!resource) throw new Error("Resource not found");
+
+      const link = encodeURIComponent("https://quire.io/w/proj1/12");
+      await resource.handler(
+        new URL(`quire://project/${link}/tasks`),
+        { projectId: link },
+        {}
+      );
+
+      expect(mockClient.listTasks).toHaveBeenCalledWith("proj1");
+    });
+
     it("should throw error when project ID is missing", async () => {
       const resource = registeredResources.get("project-tasks");
       expect(resource).toBeDefined();
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerSublistResource } from "./sublist.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClientOrThrow: vi.fn(),
+}));
+
+vi.mock("./completions.js", () => ({
+  createSublistOidCompleter: vi.fn(() => vi.fn()),
+}));
+
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+
+describe("registerSublistResource", () => {
+  let server: McpServer;
+  let registeredResources: Map<
+    string,
+    {
+      template: unknown;
+      description: string;
+      handler: (
+        uri: URL,
+        variables: Record<string, string>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredResources = new Map();
+    server = {
+      registerResource: vi.fn(
+        (
+          name: string,
+          template: unknown,
+          config: { description: string },
+          handler: (
+            uri: URL,
+            variables: Record<string, string>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredResources.set(name, {
+            template,
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerSublistResource(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should register sublist resource template", () => {
+    expect(server.registerResource).toHaveBeenCalledWith(
+      "sublist",
+      expect.any(Object), // ResourceTemplate
+      expect.objectContaining({
+        description: expect.any(String) as unknown as string,
+      }),
+      expect.any(Function)
+    );
+    expect(registeredResources.has("sublist")).toBe(true);
+  });
+
+  describe("resource handler", () => {
+    it("should return sublist data on success", async () => {
+      const mockSublist = {
+        oid: "sub-oid-1",
+        id: "sprint-1",
+        name: "Sprint 1",
+        description: "First sprint",
+      };
+
+      const mockClient = {
+        getSublist: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: mockSublist,
+        }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const resource = registeredResources.get("sublist");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://sublist/sublist-oid-1");
+      const result = (await resource.handler(
+        mockUri,
+        { oid: "sublist-oid-1" },
+        {}
+      )) as {
+        contents: { uri: string; mimeType: string; text: string }[];
+      };
+
+      expect(result.contents).toHaveLength(1);
+      expect(result.contents[0]?.uri).toBe("quire://sublist/sublist-oid-1");
+      expect(result.contents[0]?.mimeType).toBe("application/json");
+      expect(JSON.parse(result.contents[0]?.text ?? "")).toEqual(mockSublist);
+      expect(mockClient.getSublist).toHaveBeenCalledWith("sublist-oid-1");
+    });
+
+    it("should throw error when sublist OID is missing", async () => {
+      const resource = registeredResources.get("sublist");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://sublist/");
+
+      await expect(resource.handler(mockUri, { oid: "" }, {})).rejects.toThrow(
+        "Sublist OID is required"
+      );
+    });
+
+    it("should throw error on client failure", async () => {
+      const mockClient = {
+        getSublist: vi.fn().mockResolvedValueOnce({
+          success: false,
+          error: { code: "NOT_FOUND", message: "Sublist not found" },
+        }),
+      };
+
+      vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+        mockClient as unknown as Awaited<
+          ReturnType<typeof getQuireClientOrThrow>
+        >
+      );
+
+      const resource = registeredResources.get("sublist");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://sublist/sublist-oid-1");
+
+      await expect(
+        resource.handler(mockUri, { oid: "sublist-oid-1" }, {})
+      ).rejects.toThrow(
+        "Failed to fetch sublist: NOT_FOUND - Sublist not found"
+      );
+    });
+
+    it("should propagate getQuireClientOrThrow errors", async () => {
+      vi.mocked(getQuireClientOrThrow).mockRejectedValueOnce(
+        new Error("Authentication required")
+      );
+
+      const resource = registeredResources.get("sublist");
+      expect(resource).toBeDefined();
+      if (!resource) throw new Error("Resource not found");
+
+      const mockUri = new URL("quire://sublist/sublist-oid-1");
+
+      await expect(
+        resource.handler(mockUri, { oid: "sublist-oid-1" }, {})
+      ).rejects.toThrow("Authentication required");
+    });
+  });
+});
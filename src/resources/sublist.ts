@@ -0,0 +1,61 @@
+/**
+ * quire://sublist/{oid} Resource Template
+ *
+ * Provides a sublist's name, description and metadata.
+ * This allows clients to attach a Quire sublist as context.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { createSublistOidCompleter } from "./completions.js";
+
+/**
+ * Register the quire://sublist/{oid} resource template
+ */
+export function registerSublistResource(server: McpServer): void {
+  const template = new ResourceTemplate("quire://sublist/{oid}", {
+    list: undefined, // Sublists are listed per-project
+    complete: {
+      oid: createSublistOidCompleter(),
+    },
+  });
+
+  server.registerResource(
+    "sublist",
+    template,
+    {
+      description:
+        "A Quire sublist with its description and metadata. " +
+        "The {oid} parameter is the sublist OID.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      const oid = variables["oid"] as string;
+      if (!oid) {
+        throw new Error("Sublist OID is required");
+      }
+
+      // Fetch sublist details
+      const result = await client.getSublist(oid);
+      if (!result.success) {
+        throw new Error(
+          `Failed to fetch sublist: ${result.error.code} - ${result.error.message}`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,398 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  McpError,
+  ResourceUpdatedNotificationSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { SUBSCRIPTION_POLL_INTERVAL_SECONDS } from "../constants.js";
+import type { QuireClient } from "../quire/client.js";
+import type { RateLimitBudget } from "../quire/rate-limiter.js";
+import { QuireEventLog } from "../quire/webhook-events.js";
+import { createMockExtra } from "../tools/__test-utils__.js";
+import {
+  enableResourceSubscriptions,
+  getPollIntervalMs,
+  ResourceSubscriptions,
+} from "./subscriptions.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+function budget(remaining: number): RateLimitBudget {
+  return {
+    windows: [{ limit: 20, windowMs: 60_000, remaining, fullResetMs: 0 }],
+    queued: 0,
+  };
+}
+
+function clientWithBudget(value: RateLimitBudget | undefined): {
+  success: true;
+  client: QuireClient;
+} {
+  return {
+    success: true,
+    client: {
+      getRateLimitBudget: () => value,
+    } as unknown as QuireClient,
+  };
+}
+
+function mockBudget(value: RateLimitBudget | undefined): void {
+  vi.mocked(getQuireClient).mockResolvedValue(clientWithBudget(value));
+}
+
+function text(value: string): ReadResourceResult {
+  return { contents: [{ uri: "quire://test", text: value }] };
+}
+
+describe("getPollIntervalMs", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should default to the configured interval", () => {
+    vi.stubEnv("QUIRE_POLL_INTERVAL", undefined);
+    expect(getPollIntervalMs()).toBe(SUBSCRIPTION_POLL_INTERVAL_SECONDS * 1000);
+  });
+
+  it("should read QUIRE_POLL_INTERVAL in seconds", () => {
+    vi.stubEnv("QUIRE_POLL_INTERVAL", "15");
+    expect(getPollIntervalMs()).toBe(15_000);
+  });
+
+  it("should fall back to the default for invalid values", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.stubEnv("QUIRE_POLL_INTERVAL", "0");
+
+    expect(getPollIntervalMs()).toBe(SUBSCRIPTION_POLL_INTERVAL_SECONDS * 1000);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid QUIRE_POLL_INTERVAL "0"')
+    );
+  });
+});
+
+describe("ResourceSubscriptions", () => {
+  const extra = createMockExtra({ quireToken: "token" });
+  let notify: ReturnType<typeof vi.fn<(uri: string) => Promise<void>>>;
+  let subscriptions: ResourceSubscriptions;
+  let events: QuireEventLog;
+  let content: Record<string, string>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mockBudget(undefined);
+    notify = vi.fn<(uri: string) => Promise<void>>().mockResolvedValue();
+    events = new QuireEventLog();
+    subscriptions = new ResourceSubscriptions(notify, 60_000, events);
+    content = { web: "v1", api: "v1", "oid-api": "v1" };
+
+    subscriptions.addResource("quire://user/me", () => text("me"));
+    subscriptions.addResource(
+      new ResourceTemplate("quire://project/{projectId}/tasks", {
+        list: undefined,
+      }),
+      (_uri, variables) => {
+        const value = content[String(variables["projectId"])];
+        if (value === undefined) throw new Error("Project not found");
+        return text(value);
+      }
+    );
+  });
+
+  afterEach(() => {
+    subscriptions.close();
+    vi.useRealTimers();
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should reject unknown and unreadable resources", async () => {
+    await expect(
+      subscriptions.subscribe("quire://nothing", extra)
+    ).rejects.toThrow(McpError);
+    await expect(
+      subscriptions.subscribe("quire://project/gone/tasks", extra)
+    ).rejects.toThrow("Project not found");
+  });
+
+  it("should notify only about resources whose content changed", async () => {
+    await subscriptions.subscribe("quire://user/me", extra);
+    await subscriptions.subscribe("quire://project/web/tasks", extra);
+    await subscriptions.subscribe("quire://project/api/tasks", extra);
+
+    await subscriptions.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    content["web"] = "v2";
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(notify).toHaveBeenCalledExactlyOnceWith("quire://project/web/tasks");
+
+    // The new content is the baseline for the next poll
+    await subscriptions.poll();
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop polling once every resource is unsubscribed", async () => {
+    await subscriptions.subscribe("quire://project/web/tasks", extra);
+    await subscriptions.subscribe("quire://project/api/tasks", extra);
+    subscriptions.unsubscribe("quire://project/api/tasks");
+    expect(vi.getTimerCount()).toBe(1);
+
+    subscriptions.unsubscribe("quire://project/web/tasks");
+    content["web"] = "v2";
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(notify).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should skip polls while the rate limit budget is low", async () => {
+    await subscriptions.subscribe("quire://project/web/tasks", extra);
+    content["web"] = "v2";
+
+    mockBudget(budget(5));
+    await subscriptions.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    mockBudget(budget(20));
+    await subscriptions.poll();
+    expect(notify).toHaveBeenCalledOnce();
+  });
+
+  it("should resume where a round cut short by the budget stopped", async () => {
+    await subscriptions.subscribe("quire://project/web/tasks", extra);
+    await subscriptions.subscribe("quire://project/api/tasks", extra);
+    content["web"] = "v2";
+    content["api"] = "v2";
+
+    vi.mocked(getQuireClient)
+      .mockResolvedValueOnce(clientWithBudget(budget(20)))
+      .mockResolvedValueOnce(clientWithBudget(budget(5)));
+    await subscriptions.poll();
+    expect(notify).toHaveBeenCalledExactlyOnceWith("quire://project/web/tasks");
+
+    content["web"] = "v3";
+    vi.mocked(getQuireClient)
+      .mockResolvedValueOnce(clientWithBudget(budget(20)))
+      .mockResolvedValueOnce(clientWithBudget(budget(5)));
+    await subscriptions.poll();
+    expect(notify).toHaveBeenLastCalledWith("quire://project/api/tasks");
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop subscriptions that can no longer be authorized", async () => {
+    const expiring = createMockExtra({ quireToken: "token" });
+    if (expiring.authInfo) {
+      expiring.authInfo.expiresAt = Math.floor(Date.now() / 1000) + 30;
+    }
+    await subscriptions.subscribe("quire://project/web/tasks", expiring);
+    await subscriptions.subscribe("quire://project/api/tasks", extra);
+    content["web"] = "v2";
+    content["api"] = "v2";
+
+    vi.advanceTimersByTime(30_000);
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+    await subscriptions.poll();
+
+    expect(notify).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Dropped subscription to quire://project/web/tasks: " +
+        "Authorization expired"
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Dropped subscription to quire://project/api/tasks: No token"
+    );
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should not start a poll while one is running", async () => {
+    await subscriptions.subscribe("quire://project/web/tasks", extra);
+    content["web"] = "v2";
+
+    await Promise.all([subscriptions.poll(), subscriptions.poll()]);
+
+    expect(getQuireClient).toHaveBeenCalledOnce();
+  });
+
+  it("should log failed polls and carry on with the other resources", async () => {
+    await subscriptions.subscribe("quire://project/web/tasks", extra);
+    await subscriptions.subscribe("quire://project/api/tasks", extra);
+    delete content["web"];
+    content["api"] = "v2";
+
+    await subscriptions.poll();
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[quire-mcp] Failed to poll quire://project/web/tasks: Project not found"
+    );
+    expect(notify).toHaveBeenCalledExactlyOnceWith("quire://project/api/tasks");
+  });
+
+  describe("webhook events", () => {
+    function taskEvent(projectId: string): void {
+      events.add({
+        type: "notification",
+        data: {
+          type: 3,
+          project: { oid: `oid-${projectId}`, id: projectId, name: projectId },
+          task: { oid: "T1", id: 1, name: "Launch" },
+        },
+      });
+    }
+
+    it("should notify subscribers of the event's project", async () => {
+      await subscriptions.subscribe("quire://user/me", extra);
+      await subscriptions.subscribe("quire://project/web/tasks", extra);
+      await subscriptions.subscribe("quire://project/oid-api/tasks", extra);
+
+      taskEvent("web");
+      taskEvent("api");
+
+      expect(notify.mock.calls).toEqual([
+        ["quire://project/web/tasks"],
+        ["quire://project/oid-api/tasks"],
+      ]);
+    });
+
+    it("should not report the change again on the next poll", async () => {
+      await subscriptions.subscribe("quire://project/web/tasks", extra);
+      taskEvent("web");
+      content["web"] = "v2";
+
+      await subscriptions.poll();
+      expect(notify).toHaveBeenCalledOnce();
+
+      content["web"] = "v3";
+      await subscriptions.poll();
+      expect(notify).toHaveBeenCalledTimes(2);
+    });
+
+    it("should log failed notifications and stop listening when closed", async () => {
+      notify.mockRejectedValueOnce(new Error("Not connected"));
+      await subscriptions.subscribe("quire://project/web/tasks", extra);
+
+      taskEvent("web");
+      await vi.waitFor(() => {
+        expect(console.error).toHaveBeenCalledWith(
+          "[quire-mcp] Failed to notify quire://project/web/tasks:",
+          expect.any(Error)
+        );
+      });
+
+      subscriptions.close();
+      taskEvent("web");
+      expect(notify).toHaveBeenCalledOnce();
+    });
+  });
+});
+
+describe("enableResourceSubscriptions", () => {
+  let server: McpServer;
+  let client: Client;
+  let content: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    vi.stubEnv("QUIRE_POLL_INTERVAL", "30");
+    mockBudget(undefined);
+    content = "v1";
+
+    server = new McpServer({ name: "test", version: "0.0.0" });
+    const resources = enableResourceSubscriptions(server);
+    resources.registerResource(
+      "user-me",
+      "quire://user/me",
+      { mimeType: "text/plain" },
+      () => text("me")
+    );
+    resources.registerResource(
+      "project-tasks",
+      new ResourceTemplate("quire://project/{projectId}/tasks", {
+        list: undefined,
+      }),
+      { mimeType: "text/plain" },
+      () => text(content)
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  it("should advertise subscriptions and keep resources readable", async () => {
+    expect(client.getServerCapabilities()?.resources).toMatchObject({
+      subscribe: true,
+      listChanged: true,
+    });
+
+    const result = await client.readResource({
+      uri: "quire://project/web/tasks",
+    });
+    expect(result.contents).toEqual(text("v1").contents);
+    const me = await client.readResource({ uri: "quire://user/me" });
+    expect(me.contents).toEqual(text("me").contents);
+  });
+
+  it("should send updates for subscribed resources until unsubscribed", async () => {
+    const updated = vi.fn();
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updated(notification.params.uri);
+      }
+    );
+    const uri = "quire://project/web/tasks";
+
+    await client.subscribeResource({ uri });
+    content = "v2";
+    await vi.advanceTimersByTimeAsync(30_000);
+    await vi.waitFor(() => {
+      expect(updated).toHaveBeenCalledWith(uri);
+    });
+
+    await client.unsubscribeResource({ uri });
+    content = "v3";
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(updated).toHaveBeenCalledOnce();
+  });
+
+  it("should reject subscriptions to unknown resources", async () => {
+    await expect(
+      client.subscribeResource({ uri: "quire://nothing" })
+    ).rejects.toThrow("Resource quire://nothing not found");
+  });
+
+  it("should stop polling when the connection closes", async () => {
+    await client.subscribeResource({ uri: "quire://project/web/tasks" });
+    expect(vi.getTimerCount()).toBe(1);
+
+    await client.close();
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Resource Subscriptions
+ *
+ * Lets clients subscribe to resources with resources/subscribe. Quire does
+ * not push changes, so subscribed resources are read again every
+ * QUIRE_POLL_INTERVAL seconds (default: 60) and
+ * notifications/resources/updated is sent when the content hash changes.
+ * Polling pauses while the token's rate limit budget is low, so it never
+ * crowds out tool calls, and the next round resumes where it stopped.
+ * Subscriptions whose authorization has expired are dropped. Quire webhook
+ * events (HTTP mode) notify subscribers of the affected project right away.
+ */
+
+import { createHash } from "node:crypto";
+import type {
+  McpServer,
+  ReadResourceCallback,
+  ReadResourceTemplateCallback,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  ResourceMetadata,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { SUBSCRIPTION_POLL_INTERVAL_SECONDS } from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import { hasBackgroundBudget } from "../quire/rate-limiter.js";
+import { projectIdFromUriVariable } from "../quire/urls.js";
+import {
+  getQuireEventLog,
+  type QuireEvent,
+  type QuireEventLog,
+} from "../quire/webhook-events.js";
+
+type ResourceExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Reads one resource on behalf of a subscriber */
+type ResourceReader = (extra: ResourceExtra) => Promise<ReadResourceResult>;
+
+interface ResourceMatch {
+  read: ResourceReader;
+  /** Project ID or OID from the URI, for project resources */
+  project?: string;
+}
+
+interface Subscription extends ResourceMatch {
+  /**
+   * Request context of the subscribe call, reused to authenticate polls
+   * until its access token expires
+   */
+  extra: ResourceExtra;
+  /**
+   * Hash of the contents last seen; undefined after a webhook event, until
+   * the next poll takes a new baseline
+   */
+  hash: string | undefined;
+}
+
+/**
+ * Load the poll interval from QUIRE_POLL_INTERVAL (seconds).
+ * Falls back to the default if the value is invalid.
+ */
+export function getPollIntervalMs(): number {
+  const interval = process.env["QUIRE_POLL_INTERVAL"];
+  if (interval === undefined) {
+    return SUBSCRIPTION_POLL_INTERVAL_SECONDS * 1000;
+  }
+  const seconds = Number(interval);
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    console.error(
+      `[quire-mcp] ERROR: Invalid QUIRE_POLL_INTERVAL "${interval}". Using ${String(SUBSCRIPTION_POLL_INTERVAL_SECONDS)} seconds.`
+    );
+    return SUBSCRIPTION_POLL_INTERVAL_SECONDS * 1000;
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Whether the access token a request was authorized with has expired.
+ * Requests without an expiry (stdio mode) are authorized again by each poll.
+ */
+function isAuthExpired(extra: ResourceExtra): boolean {
+  const expiresAt = extra.authInfo?.expiresAt;
+  return expiresAt !== undefined && expiresAt * 1000 <= Date.now();
+}
+
+function hashContents(result: ReadResourceResult): string {
+  return createHash("sha256")
+    .update(JSON.stringify(result.contents))
+    .digest("hex");
+}
+
+/**
+ * Tracks readable resources and subscriptions, and polls subscribed
+ * resources for changes.
+ */
+/** @internal Exported for testing */
+export class ResourceSubscriptions {
+  private readonly matchers: ((uri: string) => ResourceMatch | undefined)[] =
+    [];
+  private readonly subscriptions = new Map<string, Subscription>();
+  private timer: NodeJS.Timeout | undefined;
+  private stopListening: (() => void) | undefined;
+  private polling = false;
+  /** Subscription the last round stopped at for lack of budget */
+  private resumeAt: string | undefined;
+
+  constructor(
+    private readonly notify: (uri: string) => Promise<void>,
+    private readonly intervalMs: number = getPollIntervalMs(),
+    private readonly events: QuireEventLog = getQuireEventLog()
+  ) {}
+
+  /**
+   * Record how to read a resource or the resources of a template
+   */
+  addResource(uri: string, callback: ReadResourceCallback): void;
+  addResource(
+    template: ResourceTemplate,
+    callback: ReadResourceTemplateCallback
+  ): void;
+  addResource(
+    uriOrTemplate: string | ResourceTemplate,
+    callback: ReadResourceCallback | ReadResourceTemplateCallback
+  ): void {
+    if (typeof uriOrTemplate === "string") {
+      const read = callback as ReadResourceCallback;
+      this.matchers.push((uri) =>
+        uri === uriOrTemplate
+          ? { read: async (extra) => read(new URL(uri), extra) }
+          : undefined
+      );
+      return;
+    }
+    const read = callback as ReadResourceTemplateCallback;
+    this.matchers.push((uri) => {
+      const variables = uriOrTemplate.uriTemplate.match(uri);
+      if (!variables) {
+        return undefined;
+      }
+      const project = variables["projectId"] ?? variables["id"];
+      return {
+        read: async (extra) => read(new URL(uri), variables, extra),
+        ...(typeof project === "string" && {
+          project: projectIdFromUriVariable(project),
+        }),
+      };
+    });
+  }
+
+  /**
+   * Subscribe to a resource. Reads it once to get the baseline to compare
+   * polls against, so unknown or unreadable resources fail here.
+   */
+  async subscribe(uri: string, extra: ResourceExtra): Promise<void> {
+    const match = this.match(uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+    const hash = hashContents(await match.read(extra));
+    this.subscriptions.set(uri, { ...match, extra, hash });
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.poll();
+      }, this.intervalMs);
+      this.timer.unref();
+      this.stopListening = this.events.onEvent((event) => {
+        this.projectChanged(event);
+      });
+    }
+  }
+
+  /**
+   * Stop watching a resource. Unknown URIs are ignored.
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.close();
+    }
+  }
+
+  /**
+   * Read every subscribed resource and notify about the ones that changed.
+   * A round is skipped while another is running, and cut short when the
+   * rate limit budget runs low; the next round starts where it stopped, so
+   * every resource gets its turn. Subscriptions that can no longer be
+   * authorized are dropped.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const entries = [...this.subscriptions];
+      const start = Math.max(
+        0,
+        entries.findIndex(([uri]) => uri === this.resumeAt)
+      );
+      this.resumeAt = undefined;
+      for (const [uri, subscription] of [
+        ...entries.slice(start),
+        ...entries.slice(0, start),
+      ]) {
+        if (this.subscriptions.get(uri) !== subscription) {
+          continue;
+        }
+        const client = isAuthExpired(subscription.extra)
+          ? { success: false as const, error: "Authorization expired" }
+          : await getQuireClient(subscription.extra);
+        if (!client.success) {
+          console.error(
+            `[quire-mcp] Dropped subscription to ${uri}: ${client.error}`
+          );
+          this.unsubscribe(uri);
+          continue;
+        }
+        if (!hasBackgroundBudget(client.client.getRateLimitBudget())) {
+          this.resumeAt = uri;
+          return;
+        }
+        await this.check(uri, subscription);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Notify subscribers of the resources of the event's project. The
+   * webhook already says the project changed, so nothing is read; the next
+   * poll takes a new baseline instead of reporting the change again.
+   */
+  projectChanged(event: QuireEvent): void {
+    const { id, oid } = event.project;
+    for (const [uri, subscription] of this.subscriptions) {
+      if (subscription.project !== id && subscription.project !== oid) {
+        continue;
+      }
+      subscription.hash = undefined;
+      this.notify(uri).catch((err: unknown) => {
+        console.error(`[quire-mcp] Failed to notify ${uri}:`, err);
+      });
+    }
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   */
+  close(): void {
+    this.subscriptions.clear();
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.stopListening?.();
+    this.stopListening = undefined;
+  }
+
+  private match(uri: string): ResourceMatch | undefined {
+    for (const matcher of this.matchers) {
+      const match = matcher(uri);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  private async check(uri: string, subscription: Subscription): Promise<void> {
+    try {
+      const hash = hashContents(await subscription.read(subscription.extra));
+      const previous = subscription.hash;
+      subscription.hash = hash;
+      // The client may have unsubscribed while the resource was read
+      if (
+        previous === undefined ||
+        previous === hash ||
+        !this.subscriptions.has(uri)
+      ) {
+        return;
+      }
+      await this.notify(uri);
+    } catch (err) {
+      console.error(
+        `[quire-mcp] Failed to poll ${uri}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+}
+
+/**
+ * Advertise resource subscriptions and handle resources/subscribe and
+ * resources/unsubscribe. Returns a server whose registerResource also
+ * makes the resource subscribable; register resources through it.
+ */
+export function enableResourceSubscriptions(server: McpServer): McpServer {
+  const subscriptions = new ResourceSubscriptions((uri) =>
+    server.server.sendResourceUpdated({ uri })
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request, extra) => {
+      await subscriptions.subscribe(request.params.uri, extra);
+      return {};
+    }
+  );
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = (): void => {
+    subscriptions.close();
+    onclose?.();
+  };
+
+  const registerResource = ((
+    name: string,
+    uriOrTemplate: string | ResourceTemplate,
+    config: ResourceMetadata,
+    callback: ReadResourceCallback & ReadResourceTemplateCallback
+  ): RegisteredResource | RegisteredResourceTemplate => {
+    if (typeof uriOrTemplate === "string") {
+      subscriptions.addResource(uriOrTemplate, callback);
+      return server.registerResource(name, uriOrTemplate, config, callback);
+    }
+    subscriptions.addResource(uriOrTemplate, callback);
+    return server.registerResource(name, uriOrTemplate, config, callback);
+  }) as McpServer["registerResource"];
+
+  return Object.assign(Object.create(server) as McpServer, {
+    registerResource,
+  });
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTaskResource } from "./task.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClientOrThrow: vi.fn(),
+}));
+
+vi.mock("./completions.js", () => ({
+  createTaskOidCompleter: vi.fn(() => vi.fn()),
+}));
+
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+
+describe("registerTaskResource", () => {
+  let server: McpServer;
+  let registeredResources: Map<
+    string,
+    {
+      template: unknown;
+      description: string;
+      handler: (
+        uri: URL,
+        variables: Record<string, string>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredResources = new Map();
+    server = {
+      registerResource: vi.fn(
+        (
+          name: string,
+          template: unknown,
+          config: { description: string },
+          handler: (
+            uri: URL,
+            variables: Record<string, string>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredResources.set(name, {
+            template,
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerTaskResource(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockClient(
+    overrides: Record<string, ReturnType<typeof vi.fn>> = {}
+  ): Record<string, ReturnType<typeof vi.fn>> {
+    const client = {
+      getTask: vi.fn().mockResolvedValue({
+        success: true,
+        data: { oid: "task-oid-1", id: 1, name: "Launch" },
+      }),
+      getTaskTree: vi.fn().mockResolvedValue({
+        success: true,
+        data: {
+          roots: [
+            { oid: "task-oid-2", id: 2, name: "Press kit", children: [] },
+          ],
+          nodeCount: 1,
+          truncated: false,
+        },
+      }),
+      listTaskComments: vi.fn().mockResolvedValue({
+        success: true,
+        data: [{ oid: "comment-oid-1", descriptionText: "Ready" }],
+      }),
+      ...overrides,
+    };
+    vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+      client as unknown as Awaited<ReturnType<typeof getQuireClientOrThrow>>
+    );
+    return client;
+  }
+
+  function getHandler(): (
+    uri: URL,
+    variables: Record<string, string>,
+    extra: unknown
+  ) => Promise<unknown> {
+    const resource = registeredResources.get("task");
+    if (!resource) throw new Error("Resource not found");
+    return resource.handler;
+  }
+
+  it("should register task resource template", () => {
+    expect(server.registerResource).toHaveBeenCalledWith(
+      "task",
+      expect.any(Object), // ResourceTemplate
+      expect.objectContaining({
+        description: expect.any(String) as unknown as string,
+      }),
+      expect.any(Function)
+    );
+    expect(registeredResources.has("task")).toBe(true);
+  });
+
+  describe("resource handler", () => {
+    it("should return the task with subtasks and comments", async () => {
+      const client = mockClient();
+
+      const result = (await getHandler()(
+        new URL("quire://task/task-oid-1"),
+        { oid: "task-oid-1" },
+        {}
+      )) as {
+        contents: { uri: string; mimeType: string; text: string }[];
+      };
+
+      expect(result.contents).toHaveLength(1);
+      expect(result.contents[0]?.uri).toBe("quire://task/task-oid-1");
+      expect(JSON.parse(result.contents[0]?.text ?? "")).toEqual({
+        oid: "task-oid-1",
+        id: 1,
+        name: "Launch",
+        subtasks: [
+          { oid: "task-oid-2", id: 2, name: "Press kit", children: [] },
+        ],
+        subtasksTruncated: false,
+        comments: [{ oid: "comment-oid-1", descriptionText: "Ready" }],
+      });
+      expect(client["getTask"]).toHaveBeenCalledWith("task-oid-1");
+      expect(client["getTaskTree"]).toHaveBeenCalledWith("task-oid-1", {
+        rootTaskOid: "task-oid-1",
+        maxNodes: 200,
+      });
+      expect(client["listTaskComments"]).toHaveBeenCalledWith("task-oid-1");
+    });
+
+    it("should throw error when task OID is missing", async () => {
+      await expect(
+        getHandler()(new URL("quire://task/"), { oid: "" }, {})
+      ).rejects.toThrow("Task OID is required");
+    });
+
+    it("should name the request that failed", async () => {
+      const notFound = {
+        success: false,
+        error: { code: "NOT_FOUND", message: "Task not found" },
+      };
+
+      for (const [method, what] of [
+        ["getTask", "task"],
+        ["getTaskTree", "subtasks"],
+        ["listTaskComments", "comments"],
+      ] as const) {
+        mockClient({ [method]: vi.fn().mockResolvedValue(notFound) });
+
+        await expect(
+          getHandler()(
+            new URL("quire://task/task-oid-1"),
+            { oid: "task-oid-1" },
+            {}
+          )
+        ).rejects.toThrow(
+          `Failed to fetch ${what}: NOT_FOUND - Task not found`
+        );
+      }
+    });
+
+    it("should propagate getQuireClientOrThrow errors", async () => {
+      vi.mocked(getQuireClientOrThrow).mockRejectedValueOnce(
+        new Error("Authentication required")
+      );
+
+      await expect(
+        getHandler()(
+          new URL("quire://task/task-oid-1"),
+          { oid: "task-oid-1" },
+          {}
+        )
+      ).rejects.toThrow("Authentication required");
+    });
+  });
+});
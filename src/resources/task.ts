@@ -0,0 +1,91 @@
+/**
+ * quire://task/{oid} Resource Template
+ *
+ * Provides a task together with its subtasks and comments.
+ * This allows clients to attach a whole task as context.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TASK_RESOURCE_MAX_SUBTASKS } from "../constants.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import type { QuireResult } from "../quire/types.js";
+import { createTaskOidCompleter } from "./completions.js";
+
+/**
+ * Get the data of a result, or throw its error naming what was fetched
+ */
+function unwrap<T>(result: QuireResult<T>, what: string): T {
+  if (!result.success) {
+    throw new Error(
+      `Failed to fetch ${what}: ${result.error.code} - ${result.error.message}`
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Register the quire://task/{oid} resource template
+ */
+export function registerTaskResource(server: McpServer): void {
+  const template = new ResourceTemplate("quire://task/{oid}", {
+    list: undefined, // Tasks are listed per-project
+    complete: {
+      oid: createTaskOidCompleter(),
+    },
+  });
+
+  server.registerResource(
+    "task",
+    template,
+    {
+      description:
+        "A Quire task with its subtasks and comments. Subtasks are " +
+        `nested, up to ${String(TASK_RESOURCE_MAX_SUBTASKS)} in total. ` +
+        "The {oid} parameter is the task OID.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      const oid = variables["oid"] as string;
+      if (!oid) {
+        throw new Error("Task OID is required");
+      }
+
+      // Fetch the task, its subtask tree and its comments; the tree
+      // starts from the task, so no project is needed
+      const [task, tree, comments] = await Promise.all([
+        client.getTask(oid),
+        client.getTaskTree(oid, {
+          rootTaskOid: oid,
+          maxNodes: TASK_RESOURCE_MAX_SUBTASKS,
+        }),
+        client.listTaskComments(oid),
+      ]);
+      const data = unwrap(task, "task");
+      const subtasks = unwrap(tree, "subtasks");
+      const taskComments = unwrap(comments, "comments");
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                ...data,
+                subtasks: subtasks.roots,
+                subtasksTruncated: subtasks.truncated,
+                comments: taskComments,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
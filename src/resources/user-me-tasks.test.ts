@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerUserMeTasksResource } from "./user-me-tasks.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClientOrThrow: vi.fn(),
+}));
+
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+
+type ResourceHandler = (uri: string, extra: unknown) => Promise<unknown>;
+
+describe("registerUserMeTasksResource", () => {
+  let server: McpServer;
+  let handler: ResourceHandler | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("QUIRE_TIMEZONE", "UTC");
+
+    server = {
+      registerResource: vi.fn(
+        (
+          _name: string,
+          _uri: string,
+          _config: unknown,
+          callback: ResourceHandler
+        ) => {
+          handler = callback;
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerUserMeTasksResource(server);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  function mockClient(client: object): void {
+    vi.mocked(getQuireClientOrThrow).mockResolvedValueOnce(
+      client as unknown as Awaited<ReturnType<typeof getQuireClientOrThrow>>
+    );
+  }
+
+  it("should register the user-me-tasks resource", () => {
+    expect(server.registerResource).toHaveBeenCalledWith(
+      "user-me-tasks",
+      "quire://user/me/tasks",
+      expect.objectContaining({ mimeType: "application/json" }),
+      expect.any(Function)
+    );
+  });
+
+  it("should return the current user's tasks by due bucket", async () => {
+    mockClient({
+      getMe: vi.fn().mockResolvedValue({
+        success: true,
+        data: { oid: "U1", id: "ann", name: "Ann" },
+      }),
+      listOrganizations: vi.fn().mockResolvedValue({
+        success: true,
+        data: [{ oid: "O1", id: "acme", name: "Acme" }],
+      }),
+      searchOrganizationTasks: vi.fn().mockResolvedValue({
+        success: true,
+        data: [{ oid: "t1", id: 1, name: "Write docs" }],
+      }),
+    });
+
+    const result = (await handler?.("quire://user/me/tasks", {})) as {
+      contents: { uri: string; text: string }[];
+    };
+
+    expect(result.contents[0]?.uri).toBe("quire://user/me/tasks");
+    expect(JSON.parse(result.contents[0]?.text ?? "")).toMatchObject({
+      user: { id: "ann" },
+      timeZone: "UTC",
+      total: 1,
+      buckets: { noDate: [{ name: "Write docs" }] },
+    });
+  });
+
+  it("should throw on client failure", async () => {
+    mockClient({
+      getMe: vi.fn().mockResolvedValue({
+        success: false,
+        error: { code: "UNAUTHORIZED", message: "Invalid token" },
+      }),
+    });
+
+    await expect(handler?.("quire://user/me/tasks", {})).rejects.toThrow(
+      "Failed to fetch tasks: UNAUTHORIZED - Invalid token"
+    );
+  });
+});
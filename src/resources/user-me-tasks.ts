@@ -0,0 +1,51 @@
+/**
+ * quire://user/me/tasks Resource
+ *
+ * Provides the current user's open tasks across their organizations,
+ * grouped by due date, so clients can attach "my work" as context.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuireClientOrThrow } from "../quire/client-factory.js";
+import { collectMyTasks } from "../quire/my-tasks.js";
+import { getDateInputOptions } from "../utils/dates.js";
+
+const RESOURCE_URI = "quire://user/me/tasks";
+
+/**
+ * Register the quire://user/me/tasks resource
+ */
+export function registerUserMeTasksResource(server: McpServer): void {
+  server.registerResource(
+    "user-me-tasks",
+    RESOURCE_URI,
+    {
+      description:
+        "Open tasks assigned to the current Quire user across their " +
+        "organizations, grouped into overdue, today, this week, " +
+        "later and no-date buckets. Includes project names and task links.",
+      mimeType: "application/json",
+    },
+    async (_uri, extra) => {
+      // Get client using HTTP auth or fallback to stdio auth
+      const client = await getQuireClientOrThrow(extra);
+
+      const result = await collectMyTasks(client, getDateInputOptions());
+      if (!result.success) {
+        throw new Error(
+          `Failed to fetch tasks: ${result.error.code} - ${result.error.message}`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: RESOURCE_URI,
+            mimeType: "application/json",
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { getHttpServerConfig } from "./config.js";
+import { getHttpServerConfig, getStorageConfig } from "./config.js";
 
 describe("getHttpServerConfig", () => {
   const originalEnv = process.env;
@@ -65,6 +65,14 @@ describe("getHttpServerConfig", () => {
       );
     });
 
+    it("should enable webhooks only with QUIRE_WEBHOOK_SECRET", () => {
+      delete process.env["QUIRE_WEBHOOK_SECRET"];
+      expect(getHttpServerConfig()).not.toHaveProperty("webhookSecret");
+
+      process.env["QUIRE_WEBHOOK_SECRET"] = "hook-secret";
+      expect(getHttpServerConfig()?.webhookSecret).toBe("hook-secret");
+    });
+
     it("should respect custom MCP_SERVER_HOST", () => {
       process.env["MCP_SERVER_HOST"] = "0.0.0.0";
 
@@ -180,3 +188,88 @@ describe("getHttpServerConfig", () => {
     });
   });
 });
+
+describe("getStorageConfig", () => {
+  const originalEnv = process.env;
+  const consoleErrorSpy = vi
+    .spyOn(console, "error")
+    .mockImplementation(vi.fn());
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env["MCP_TOKEN_STORE"];
+    delete process.env["MCP_TOKEN_STORE_PATH"];
+    delete process.env["MCP_TOKEN_STORE_KEY"];
+    consoleErrorSpy.mockClear();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should default to memory storage", () => {
+    expect(getStorageConfig()).toEqual({ type: "memory" });
+  });
+
+  it("should configure the encrypted file store", () => {
+    process.env["MCP_TOKEN_STORE"] = "file";
+    process.env["MCP_TOKEN_STORE_PATH"] = "/data/tokens.enc";
+    process.env["MCP_TOKEN_STORE_KEY"] = "server-key";
+
+    expect(getStorageConfig()).toEqual({
+      type: "file",
+      path: "/data/tokens.enc",
+      key: "server-key",
+    });
+  });
+
+  it("should configure the SQLite store", () => {
+    process.env["MCP_TOKEN_STORE"] = "sqlite";
+    process.env["MCP_TOKEN_STORE_PATH"] = "/data/tokens.db";
+    process.env["MCP_TOKEN_STORE_KEY"] = "server-key";
+
+    expect(getStorageConfig()).toEqual({
+      type: "sqlite",
+      path: "/data/tokens.db",
+      key: "server-key",
+    });
+  });
+
+  it("should reject unknown store types", () => {
+    process.env["MCP_TOKEN_STORE"] = "redis";
+
+    expect(getStorageConfig()).toBeUndefined();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown MCP_TOKEN_STORE")
+    );
+  });
+
+  it("should require a path for persistent stores", () => {
+    process.env["MCP_TOKEN_STORE"] = "sqlite";
+
+    expect(getStorageConfig()).toBeUndefined();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("MCP_TOKEN_STORE_PATH")
+    );
+  });
+
+  it("should require a key for persistent stores", () => {
+    process.env["MCP_TOKEN_STORE"] = "file";
+    process.env["MCP_TOKEN_STORE_PATH"] = "/data/tokens.enc";
+    expect(getStorageConfig()).toBeUndefined();
+
+    process.env["MCP_TOKEN_STORE"] = "sqlite";
+    expect(getStorageConfig()).toBeUndefined();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("MCP_TOKEN_STORE_KEY")
+    );
+  });
+
+  it("should make the HTTP server config invalid", () => {
+    process.env["QUIRE_OAUTH_CLIENT_ID"] = "test-client-id";
+    process.env["QUIRE_OAUTH_CLIENT_SECRET"] = "test-client-secret";
+    process.env["MCP_TOKEN_STORE"] = "file";
+
+    expect(getHttpServerConfig()).toBeUndefined();
+  });
+});
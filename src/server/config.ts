@@ -5,6 +5,7 @@
  */
 
 import { DEFAULT_SERVER_PORT } from "../constants.js";
+import type { StorageConfig } from "./storage-backend.js";
 
 /**
  * Configuration for the HTTP server
@@ -22,6 +23,10 @@ export interface HttpServerConfig {
   quireClientSecret: string;
   /** Callback URL for Quire OAuth (our server's callback endpoint) */
   quireRedirectUri: string;
+  /** Where OAuth tokens and registered clients are kept (default: memory) */
+  storage?: StorageConfig;
+  /** Token expected in Quire webhook deliveries; enables /webhooks/quire */
+  webhookSecret?: string;
 }
 
 /**
@@ -43,6 +48,41 @@ export function isLocalhost(urlString: string): boolean {
   }
 }
 
+/**
+ * Load token storage config from environment variables.
+ * Returns undefined (after logging why) if the settings are incomplete.
+ */
+/** @internal Exported for testing */
+export function getStorageConfig(): StorageConfig | undefined {
+  const type = process.env["MCP_TOKEN_STORE"] ?? "memory";
+  const path = process.env["MCP_TOKEN_STORE_PATH"];
+
+  if (type === "memory") {
+    return { type };
+  }
+  if (type !== "file" && type !== "sqlite") {
+    console.error(
+      `[quire-mcp] ERROR: Unknown MCP_TOKEN_STORE "${type}". Use memory, file or sqlite.`
+    );
+    return undefined;
+  }
+  if (!path) {
+    console.error(
+      `[quire-mcp] ERROR: MCP_TOKEN_STORE=${type} requires MCP_TOKEN_STORE_PATH.`
+    );
+    return undefined;
+  }
+
+  const key = process.env["MCP_TOKEN_STORE_KEY"];
+  if (!key) {
+    console.error(
+      `[quire-mcp] ERROR: MCP_TOKEN_STORE=${type} requires MCP_TOKEN_STORE_KEY to encrypt the store.`
+    );
+    return undefined;
+  }
+  return { type, path, key };
+}
+
 /**
  * Load HTTP server config from environment variables.
  * Returns undefined if required OAuth credentials are not set.
@@ -79,6 +119,13 @@ export function getHttpServerConfig(): HttpServerConfig | undefined {
     return undefined;
   }
 
+  const storage = getStorageConfig();
+  if (!storage) {
+    return undefined;
+  }
+
+  const webhookSecret = process.env["QUIRE_WEBHOOK_SECRET"];
+
   return {
     host,
     port,
@@ -86,5 +133,7 @@ export function getHttpServerConfig(): HttpServerConfig | undefined {
     quireClientId,
     quireClientSecret,
     quireRedirectUri,
+    storage,
+    ...(webhookSecret && { webhookSecret }),
   };
 }
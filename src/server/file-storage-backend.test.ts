@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileStorageBackend } from "./file-storage-backend.js";
+
+describe("FileStorageBackend", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "quire-mcp-storage-"));
+    path = join(dir, "nested", "tokens.enc");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should not create a file until something is stored", () => {
+    new FileStorageBackend(path, "server-key");
+
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("should persist entries across instances", () => {
+    const first = new FileStorageBackend(path, "server-key");
+    first.set("accessTokens", "token", { quireAccessToken: "secret-token" });
+    first.set("clients", "client", { client_id: "client" });
+    first.close();
+
+    const second = new FileStorageBackend(path, "server-key");
+    expect(second.get("accessTokens", "token")).toEqual({
+      quireAccessToken: "secret-token",
+    });
+    expect(second.get("clients", "client")).toEqual({ client_id: "client" });
+  });
+
+  it("should encrypt the file and restrict its permissions", () => {
+    const storage = new FileStorageBackend(path, "server-key");
+    storage.set("accessTokens", "token", { quireAccessToken: "secret-token" });
+
+    const contents = readFileSync(path, "utf-8");
+    expect(contents).not.toContain("secret-token");
+    expect(JSON.parse(contents)).toMatchObject({ version: 1 });
+    if (process.platform !== "win32") {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("should reject a file encrypted with a different key", () => {
+    new FileStorageBackend(path, "server-key").set("clients", "client", {});
+
+    expect(() => new FileStorageBackend(path, "other-key")).toThrow(
+      /wrong key or corrupted file/
+    );
+  });
+
+  it("should reject files in an unknown format", () => {
+    new FileStorageBackend(path, "server-key").set("clients", "client", {});
+    writeFileSync(path, JSON.stringify({ version: 99 }));
+
+    expect(() => new FileStorageBackend(path, "server-key")).toThrow(
+      /Unrecognized token store file/
+    );
+  });
+
+  it("should persist deletes and expiry purges", () => {
+    vi.useFakeTimers();
+    const storage = new FileStorageBackend(path, "server-key");
+    storage.set("authCodes", "code", {}, Date.now() + 1000);
+    storage.set("refreshTokens", "token", {}, Date.now() + 5000);
+    storage.set("clients", "client", {});
+
+    expect(storage.delete("clients", "client")).toBe(true);
+    expect(storage.delete("clients", "client")).toBe(false);
+    vi.advanceTimersByTime(2000);
+    storage.purgeExpired();
+
+    const reopened = new FileStorageBackend(path, "server-key");
+    expect(reopened.delete("authCodes", "code")).toBe(false);
+    expect(reopened.get("clients", "client")).toBeUndefined();
+    expect(reopened.get("refreshTokens", "token")).toEqual({});
+  });
+
+  it("should not rewrite the file when nothing expired", () => {
+    const storage = new FileStorageBackend(path, "server-key");
+    storage.set("clients", "client", {});
+    const contents = readFileSync(path, "utf-8");
+
+    storage.purgeExpired();
+
+    // Every save uses a fresh IV, so a rewrite would change the file
+    expect(readFileSync(path, "utf-8")).toBe(contents);
+  });
+});
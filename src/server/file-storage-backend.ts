@@ -0,0 +1,175 @@
+/**
+ * File Storage Backend
+ *
+ * Keeps entries in memory and writes all of them to a single file after
+ * every change. The file is encrypted with AES-256-GCM using a key derived
+ * from the server key (scrypt, with a random salt stored in the file), so
+ * tokens are never written to disk in plain text.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { z } from "zod";
+import {
+  MemoryStorageBackend,
+  type StoredEntry,
+} from "./memory-storage-backend.js";
+import type { StorageNamespace } from "./storage-backend.js";
+import {
+  createStorageSalt,
+  deriveStorageKey,
+  openSealedText,
+  sealText,
+} from "./storage-encryption.js";
+
+// ---------------------------------------------------------------------------
+// File Format
+// ---------------------------------------------------------------------------
+
+const FILE_FORMAT_VERSION = 1;
+
+/**
+ * Encrypted file contents. Binary fields are base64.
+ */
+const EncryptedFileSchema = z.object({
+  version: z.literal(FILE_FORMAT_VERSION),
+  salt: z.string(),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+});
+
+/**
+ * Decrypted contents: entries indexed by namespace, then key
+ */
+const StoredEntriesSchema = z.record(
+  z.string(),
+  z.record(
+    z.string(),
+    z.object({ value: z.unknown(), expiresAt: z.number().optional() })
+  )
+);
+
+// ---------------------------------------------------------------------------
+// File Storage Backend
+// ---------------------------------------------------------------------------
+
+/**
+ * Encrypted file storage backend
+ */
+export class FileStorageBackend extends MemoryStorageBackend {
+  private readonly path: string;
+  private readonly salt: Buffer;
+  private readonly key: Buffer;
+
+  /**
+   * Open the store, loading existing entries.
+   * Throws if the file exists but cannot be decrypted with this key.
+   */
+  constructor(path: string, serverKey: string) {
+    super();
+    this.path = path;
+
+    if (!existsSync(path)) {
+      this.salt = createStorageSalt();
+      this.key = deriveStorageKey(serverKey, this.salt);
+      return;
+    }
+
+    const parsed = EncryptedFileSchema.safeParse(
+      JSON.parse(readFileSync(path, "utf-8"))
+    );
+    if (!parsed.success) {
+      throw new Error(`Unrecognized token store file: ${path}`);
+    }
+    this.salt = Buffer.from(parsed.data.salt, "base64");
+    this.key = deriveStorageKey(serverKey, this.salt);
+    this.load(parsed.data);
+  }
+
+  override set(
+    namespace: StorageNamespace,
+    key: string,
+    value: unknown,
+    expiresAt?: number
+  ): void {
+    super.set(namespace, key, value, expiresAt);
+    this.save();
+  }
+
+  override delete(namespace: StorageNamespace, key: string): boolean {
+    const deleted = super.delete(namespace, key);
+    if (deleted) {
+      this.save();
+    }
+    return deleted;
+  }
+
+  override purgeExpired(): void {
+    const before = this.countEntries();
+    super.purgeExpired();
+    if (this.countEntries() < before) {
+      this.save();
+    }
+  }
+
+  /**
+   * Number of entries in memory, expired or not
+   */
+  private countEntries(): number {
+    let count = 0;
+    for (const entries of this.entries.values()) {
+      count += entries.size;
+    }
+    return count;
+  }
+
+  /**
+   * Decrypt file contents into memory
+   */
+  private load(file: z.infer<typeof EncryptedFileSchema>): void {
+    let plaintext: string;
+    try {
+      plaintext = openSealedText(this.key, file);
+    } catch {
+      throw new Error(
+        `Cannot decrypt token store file ${this.path}: wrong key or corrupted file`
+      );
+    }
+
+    const namespaces = StoredEntriesSchema.parse(JSON.parse(plaintext));
+    for (const [namespace, entries] of Object.entries(namespaces)) {
+      this.entries.set(
+        namespace as StorageNamespace,
+        new Map(Object.entries(entries) as [string, StoredEntry][])
+      );
+    }
+  }
+
+  /**
+   * Encrypt all entries and replace the file atomically
+   */
+  private save(): void {
+    const namespaces: Record<string, Record<string, StoredEntry>> = {};
+    for (const [namespace, entries] of this.entries) {
+      namespaces[namespace] = Object.fromEntries(entries);
+    }
+
+    const file: z.infer<typeof EncryptedFileSchema> = {
+      version: FILE_FORMAT_VERSION,
+      salt: this.salt.toString("base64"),
+      ...sealText(this.key, JSON.stringify(namespaces)),
+    };
+
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file), { mode: 0o600 });
+    renameSync(tempPath, this.path);
+  }
+}
@@ -118,6 +118,7 @@ vi.mock("./quire-oauth-provider.js", () => ({
 }));
 
 vi.mock("./server-token-store.js", () => ({
+  initServerTokenStore: vi.fn(),
   getServerTokenStore: vi.fn(() => ({
     cleanup: vi.fn(),
     getPendingRequest: vi.fn(),
@@ -387,6 +387,7 @@ vi.mock("./quire-oauth-provider.js", () => ({
 }));
 
 vi.mock("./server-token-store.js", () => ({
+  initServerTokenStore: vi.fn(),
   getServerTokenStore: vi.fn(() => ({
     cleanup: vi.fn(),
   })),
@@ -407,6 +408,8 @@ vi.mock("./cors.js", () => ({
 // Import after mocking
 import { startHttpServer } from "./http-server.js";
 import { handleQuireOAuthCallback } from "./quire-oauth-provider.js";
+import { initServerTokenStore } from "./server-token-store.js";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
 import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
 import type { HttpServerConfig } from "./config.js";
 
@@ -474,6 +477,17 @@ describe("HTTP Server", () => {
       );
     });
 
+    it("should register the webhook route only with a webhook secret", async () => {
+      await startHttpServer(mockGetServer, mockConfig);
+      expect(registeredRoutes.get("POST")?.has("/webhooks/quire")).toBe(false);
+
+      await startHttpServer(mockGetServer, {
+        ...mockConfig,
+        webhookSecret: "hook-secret",
+      });
+      expect(registeredRoutes.get("POST")?.has("/webhooks/quire")).toBe(true);
+    });
+
     it("should listen on configured host and port", async () => {
       await startHttpServer(mockGetServer, mockConfig);
 
@@ -1287,6 +1301,14 @@ describe("HTTP Server", () => {
       processExitSpy.mockRestore();
     });
 
+    it("should open the configured token storage", async () => {
+      await startHttpServer(mockGetServer, mockConfig);
+
+      expect(initServerTokenStore).toHaveBeenCalledWith(
+        expect.any(MemoryStorageBackend)
+      );
+    });
+
     it("should register SIGTERM handler", async () => {
       const processOnSpy = vi.spyOn(process, "on");
 
@@ -26,8 +26,13 @@ import {
   QuireProxyOAuthProvider,
   handleQuireOAuthCallback,
 } from "./quire-oauth-provider.js";
-import { getServerTokenStore } from "./server-token-store.js";
+import {
+  getServerTokenStore,
+  initServerTokenStore,
+} from "./server-token-store.js";
+import { createStorageBackend } from "./storage-backend.js";
 import { isCorsAllowedPath } from "./cors.js";
+import { createWebhookHandler } from "./webhooks.js";
 import {
   SESSION_ID_DISPLAY_LENGTH,
   JSONRPC_ERROR_INVALID_REQUEST,
@@ -74,8 +79,12 @@ export async function startHttpServer(
 ): Promise<void> {
   const { host, port, issuerUrl } = config;
 
+  // Open token and client storage
+  const storage = await createStorageBackend(config.storage);
+  initServerTokenStore(storage);
+
   // Create OAuth provider
-  const provider = new QuireProxyOAuthProvider(config);
+  const provider = new QuireProxyOAuthProvider(config, storage);
 
   // Create Express app with DNS rebinding protection
   const app = createMcpExpressApp({ host });
@@ -179,6 +188,12 @@ export async function startHttpServer(
     })
   );
 
+  // Quire webhook deliveries, authenticated by the webhook token rather
+  // than a bearer token
+  if (config.webhookSecret) {
+    app.post("/webhooks/quire", createWebhookHandler(config.webhookSecret));
+  }
+
   // Handle OAuth callback from Quire
   app.get("/oauth/callback", async (req, res) => {
     const { code, state, error, error_description } = req.query;
@@ -544,6 +559,7 @@ export async function startHttpServer(
 
       // Give connections time to close gracefully, then force exit
       setTimeout(() => {
+        storage.close();
         console.error("[quire-mcp] Shutdown complete");
         process.exit(0);
       }, 5000);
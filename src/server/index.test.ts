@@ -28,5 +28,15 @@ describe("Server Module Exports", () => {
       expect(serverModule.getServerTokenStore).toBeDefined();
       expect(typeof serverModule.getServerTokenStore).toBe("function");
     });
+
+    it("should export initServerTokenStore", () => {
+      expect(typeof serverModule.initServerTokenStore).toBe("function");
+    });
+  });
+
+  describe("storage-backend exports", () => {
+    it("should export createStorageBackend", () => {
+      expect(typeof serverModule.createStorageBackend).toBe("function");
+    });
   });
 });
@@ -9,8 +9,15 @@ export { startHttpServer } from "./http-server.js";
 export { QuireProxyOAuthProvider } from "./quire-oauth-provider.js";
 export {
   getServerTokenStore,
+  initServerTokenStore,
   type AuthCodeEntry,
   type TokenEntry,
   type PendingAuthRequest,
   type RefreshTokenEntry,
 } from "./server-token-store.js";
+export {
+  createStorageBackend,
+  type StorageBackend,
+  type StorageConfig,
+  type StorageNamespace,
+} from "./storage-backend.js";
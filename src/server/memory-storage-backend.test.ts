@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
+
+describe("MemoryStorageBackend", () => {
+  let storage: MemoryStorageBackend;
+
+  beforeEach(() => {
+    storage = new MemoryStorageBackend();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should store and get values by namespace", () => {
+    storage.set("accessTokens", "token", { clientId: "a" });
+    storage.set("refreshTokens", "token", { clientId: "b" });
+
+    expect(storage.get("accessTokens", "token")).toEqual({ clientId: "a" });
+    expect(storage.get("refreshTokens", "token")).toEqual({ clientId: "b" });
+    expect(storage.get("authCodes", "token")).toBeUndefined();
+  });
+
+  it("should hide entries once they expire", () => {
+    storage.set("authCodes", "code", { clientId: "a" }, Date.now() + 1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(storage.get("authCodes", "code")).toEqual({ clientId: "a" });
+
+    vi.advanceTimersByTime(1);
+    expect(storage.get("authCodes", "code")).toBeUndefined();
+    expect(storage.delete("authCodes", "code")).toBe(false);
+  });
+
+  it("should keep entries without expiry", () => {
+    storage.set("clients", "client", { client_id: "client" });
+
+    vi.advanceTimersByTime(365 * 24 * 60 * 60 * 1000);
+    storage.purgeExpired();
+
+    expect(storage.get("clients", "client")).toEqual({ client_id: "client" });
+  });
+
+  it("should report whether delete removed an entry", () => {
+    storage.set("clients", "client", {});
+
+    expect(storage.delete("clients", "client")).toBe(true);
+    expect(storage.delete("clients", "client")).toBe(false);
+  });
+
+  it("should purge only expired entries", () => {
+    storage.set("authCodes", "old", {}, Date.now() + 1000);
+    storage.set("authCodes", "new", {}, Date.now() + 5000);
+
+    vi.advanceTimersByTime(2000);
+    storage.purgeExpired();
+
+    expect(storage.delete("authCodes", "old")).toBe(false);
+    expect(storage.get("authCodes", "new")).toEqual({});
+    storage.close();
+  });
+});
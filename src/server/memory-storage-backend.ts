@@ -0,0 +1,79 @@
+/**
+ * Memory Storage Backend
+ *
+ * Keeps entries in process memory. Everything is lost on restart.
+ */
+
+import type { StorageBackend, StorageNamespace } from "./storage-backend.js";
+
+/**
+ * Stored value with its optional expiry time (ms since epoch)
+ */
+export interface StoredEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * Whether an entry with this expiry time has expired
+ */
+function isExpired(expiresAt: number | undefined): boolean {
+  return expiresAt !== undefined && Date.now() > expiresAt;
+}
+
+/**
+ * In-memory storage backend
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  /** Entries indexed by namespace, then key */
+  protected entries = new Map<StorageNamespace, Map<string, StoredEntry>>();
+
+  get(namespace: StorageNamespace, key: string): unknown {
+    const entry = this.entries.get(namespace)?.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (isExpired(entry.expiresAt)) {
+      this.entries.get(namespace)?.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(
+    namespace: StorageNamespace,
+    key: string,
+    value: unknown,
+    expiresAt?: number
+  ): void {
+    let namespaceEntries = this.entries.get(namespace);
+    if (!namespaceEntries) {
+      namespaceEntries = new Map();
+      this.entries.set(namespace, namespaceEntries);
+    }
+    namespaceEntries.set(
+      key,
+      expiresAt === undefined ? { value } : { value, expiresAt }
+    );
+  }
+
+  delete(namespace: StorageNamespace, key: string): boolean {
+    return this.entries.get(namespace)?.delete(key) ?? false;
+  }
+
+  purgeExpired(): void {
+    for (const namespaceEntries of this.entries.values()) {
+      for (const [key, entry] of namespaceEntries) {
+        if (isExpired(entry.expiresAt)) {
+          namespaceEntries.delete(key);
+        }
+      }
+    }
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -8,6 +8,7 @@ import {
 } from "./quire-oauth-provider.js";
 import type { HttpServerConfig } from "./config.js";
 import { ServerTokenStore } from "./server-token-store.js";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
 
 vi.mock("./server-token-store.js", async (importOriginal) => {
   const original = await importOriginal<
@@ -34,6 +35,17 @@ describe("QuireClientsStore", () => {
     store = new QuireClientsStore();
   });
 
+  it("should keep clients in the given storage backend", () => {
+    const storage = new MemoryStorageBackend();
+    const client = new QuireClientsStore(storage).registerClient({
+      redirect_uris: ["http://localhost/callback"],
+    });
+
+    expect(new QuireClientsStore(storage).getClient(client.client_id)).toEqual(
+      client
+    );
+  });
+
   describe("registerClient", () => {
     it("should register a client with generated client_id", () => {
       const metadata = {
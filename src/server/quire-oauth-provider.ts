@@ -35,11 +35,13 @@ import {
   type PendingAuthRequest,
   type ServerTokenStore,
 } from "./server-token-store.js";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
+import type { StorageBackend } from "./storage-backend.js";
+import { FETCH_TIMEOUT_MS } from "../constants.js";
 import {
-  QUIRE_OAUTH_AUTHORIZE_URL,
-  QUIRE_OAUTH_TOKEN_URL,
-  FETCH_TIMEOUT_MS,
-} from "../constants.js";
+  getQuireOAuthAuthorizeUrl,
+  getQuireOAuthTokenUrl,
+} from "../quire/endpoints.js";
 import { saveTokens } from "../quire/token-store.js";
 
 // ---------------------------------------------------------------------------
@@ -47,14 +49,20 @@ import { saveTokens } from "../quire/token-store.js";
 // ---------------------------------------------------------------------------
 
 /**
- * In-memory store for registered OAuth clients.
+ * Store for registered OAuth clients.
  * Supports dynamic client registration per RFC 7591.
  */
 export class QuireClientsStore implements OAuthRegisteredClientsStore {
-  private clients = new Map<string, OAuthClientInformationFull>();
+  private readonly storage: StorageBackend;
+
+  constructor(storage: StorageBackend = new MemoryStorageBackend()) {
+    this.storage = storage;
+  }
 
   getClient(clientId: string): OAuthClientInformationFull | undefined {
-    return this.clients.get(clientId);
+    return this.storage.get("clients", clientId) as
+      | OAuthClientInformationFull
+      | undefined;
   }
 
   registerClient(
@@ -68,7 +76,7 @@ export class QuireClientsStore implements OAuthRegisteredClientsStore {
       client_id: crypto.randomUUID(),
       client_id_issued_at: Math.floor(Date.now() / 1000),
     };
-    this.clients.set(client.client_id, client);
+    this.storage.set("clients", client.client_id, client);
     return client;
   }
 }
@@ -86,10 +94,13 @@ export class QuireProxyOAuthProvider implements OAuthServerProvider {
   private readonly tokenStore: ServerTokenStore;
   readonly clientsStore: QuireClientsStore;
 
-  constructor(config: HttpServerConfig) {
+  /**
+   * @param storage - Backend for registered clients (default: in-memory)
+   */
+  constructor(config: HttpServerConfig, storage?: StorageBackend) {
     this.config = config;
     this.tokenStore = getServerTokenStore();
-    this.clientsStore = new QuireClientsStore();
+    this.clientsStore = new QuireClientsStore(storage);
   }
 
   /**
@@ -128,7 +139,7 @@ export class QuireProxyOAuthProvider implements OAuthServerProvider {
     const quireState = this.tokenStore.storePendingRequest(pendingRequest);
 
     // Build Quire OAuth URL (no PKCE)
-    const quireAuthUrl = new URL(QUIRE_OAUTH_AUTHORIZE_URL);
+    const quireAuthUrl = new URL(getQuireOAuthAuthorizeUrl());
     quireAuthUrl.searchParams.set("response_type", "code");
     quireAuthUrl.searchParams.set("client_id", this.config.quireClientId);
     quireAuthUrl.searchParams.set("redirect_uri", this.config.quireRedirectUri);
@@ -247,7 +258,7 @@ export class QuireProxyOAuthProvider implements OAuthServerProvider {
 
     let response: Response;
     try {
-      response = await fetch(QUIRE_OAUTH_TOKEN_URL, {
+      response = await fetch(getQuireOAuthTokenUrl(), {
         method: "POST",
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body: body.toString(),
@@ -413,7 +424,7 @@ export async function handleQuireOAuthCallback(
   try {
     let response: Response;
     try {
-      response = await fetch(QUIRE_OAUTH_TOKEN_URL, {
+      response = await fetch(getQuireOAuthTokenUrl(), {
         method: "POST",
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body: body.toString(),
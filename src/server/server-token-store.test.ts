@@ -3,7 +3,9 @@ import {
   ServerTokenStore,
   verifyPkceChallenge,
   getServerTokenStore,
+  initServerTokenStore,
 } from "./server-token-store.js";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
 
 describe("ServerTokenStore", () => {
   let store: ServerTokenStore;
@@ -276,6 +278,58 @@ describe("ServerTokenStore", () => {
     });
   });
 
+  describe("Storage Backend", () => {
+    it("should keep tokens in the given backend", () => {
+      const storage = new MemoryStorageBackend();
+      const { accessToken } = new ServerTokenStore(storage).storeAccessToken({
+        quireAccessToken: "quire-token",
+        quireRefreshToken: undefined,
+        clientId: "test-client",
+        scope: undefined,
+      });
+
+      // A new store on the same backend, as after a restart
+      const reopened = new ServerTokenStore(storage);
+      expect(reopened.getAccessToken(accessToken)?.quireAccessToken).toBe(
+        "quire-token"
+      );
+    });
+
+    it("should store tokens under their hash", () => {
+      const storage = new MemoryStorageBackend();
+      const set = vi.spyOn(storage, "set");
+      const store = new ServerTokenStore(storage);
+
+      const { accessToken } = store.storeAccessToken({
+        quireAccessToken: "quire-token",
+        quireRefreshToken: undefined,
+        clientId: "test-client",
+        scope: undefined,
+      });
+      const refreshToken = store.storeRefreshToken({
+        quireRefreshToken: "quire-refresh",
+        clientId: "test-client",
+        scope: undefined,
+      });
+
+      const keys = set.mock.calls.map(([, key]) => key);
+      expect(keys).toHaveLength(2);
+      expect(keys).not.toContain(accessToken);
+      expect(keys).not.toContain(refreshToken);
+      expect(store.revokeAccessToken(accessToken)).toBe(true);
+      expect(store.revokeRefreshToken(refreshToken)).toBe(true);
+    });
+
+    it("should purge expired entries from the backend on cleanup", () => {
+      const storage = new MemoryStorageBackend();
+      const purge = vi.spyOn(storage, "purgeExpired");
+
+      new ServerTokenStore(storage).cleanup();
+
+      expect(purge).toHaveBeenCalledOnce();
+    });
+  });
+
   describe("cleanup", () => {
     it("should remove expired pending requests", () => {
       store.storePendingRequest({
@@ -467,3 +521,25 @@ describe("getServerTokenStore", () => {
     expect(store).toBeInstanceOf(ServerTokenStore);
   });
 });
+
+describe("initServerTokenStore", () => {
+  it("should replace the singleton with a store on the given backend", () => {
+    const storage = new MemoryStorageBackend();
+    const store = initServerTokenStore(storage);
+
+    expect(getServerTokenStore()).toBe(store);
+    const code = store.storeAuthCode({
+      clientId: "test-client",
+      codeChallenge: "challenge",
+      codeChallengeMethod: "S256",
+      redirectUri: "http://localhost/callback",
+      quireAccessToken: "quire-token",
+      quireRefreshToken: undefined,
+      scope: undefined,
+    });
+    expect(store.getAuthCode(code)).toMatchObject({
+      clientId: "test-client",
+    });
+    expect(storage.get("authCodes", code)).toBeUndefined();
+  });
+});
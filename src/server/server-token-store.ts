@@ -1,14 +1,20 @@
 /**
  * Server Token Store
  *
- * In-memory storage for OAuth authorization codes and tokens.
+ * Storage for OAuth authorization codes and tokens.
  * This is used by the proxy OAuth provider to store:
  * - Pending authorization requests (PKCE challenges, redirect URIs)
  * - Authorization codes mapped to Quire tokens
  * - Access tokens issued by our server that wrap Quire tokens
+ *
+ * Entries live in a StorageBackend, which also enforces their expiry.
+ * The default backend is in-memory. Codes and tokens are stored under their
+ * SHA-256 hash, so a leaked store does not reveal usable bearer tokens.
  */
 
 import { randomBytes, createHash } from "node:crypto";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
+import type { StorageBackend } from "./storage-backend.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -90,20 +96,21 @@ const REFRESH_TOKEN_EXPIRY_SECONDS = 30 * 24 * 60 * 60;
 // ---------------------------------------------------------------------------
 
 /**
- * In-memory token store for the OAuth proxy server
+ * Storage key of a code or token
  */
-export class ServerTokenStore {
-  /** Pending auth requests indexed by state */
-  private pendingRequests = new Map<string, PendingAuthRequest>();
-
-  /** Authorization codes indexed by code */
-  private authCodes = new Map<string, AuthCodeEntry>();
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
 
-  /** Access tokens indexed by token */
-  private accessTokens = new Map<string, TokenEntry>();
+/**
+ * Token store for the OAuth proxy server
+ */
+export class ServerTokenStore {
+  private readonly storage: StorageBackend;
 
-  /** Refresh tokens indexed by token */
-  private refreshTokens = new Map<string, RefreshTokenEntry>();
+  constructor(storage: StorageBackend = new MemoryStorageBackend()) {
+    this.storage = storage;
+  }
 
   // -------------------------------------------------------------------------
   // Pending Authorization Requests
@@ -115,10 +122,13 @@ export class ServerTokenStore {
    */
   storePendingRequest(request: Omit<PendingAuthRequest, "createdAt">): string {
     const state = this.generateSecureToken();
-    this.pendingRequests.set(state, {
-      ...request,
-      createdAt: Date.now(),
-    });
+    const now = Date.now();
+    this.storage.set(
+      "pendingRequests",
+      hashToken(state),
+      { ...request, createdAt: now },
+      now + PENDING_REQUEST_EXPIRY_SECONDS * 1000
+    );
     return state;
   }
 
@@ -127,19 +137,10 @@ export class ServerTokenStore {
    * Returns undefined if not found or expired.
    */
   consumePendingRequest(state: string): PendingAuthRequest | undefined {
-    const request = this.pendingRequests.get(state);
-    if (!request) {
-      return undefined;
-    }
-
-    this.pendingRequests.delete(state);
-
-    // Check if expired
-    const expiresAt = request.createdAt + PENDING_REQUEST_EXPIRY_SECONDS * 1000;
-    if (Date.now() > expiresAt) {
-      return undefined;
-    }
-
+    const request = this.storage.get("pendingRequests", hashToken(state)) as
+      | PendingAuthRequest
+      | undefined;
+    this.storage.delete("pendingRequests", hashToken(state));
     return request;
   }
 
@@ -154,11 +155,13 @@ export class ServerTokenStore {
   storeAuthCode(data: Omit<AuthCodeEntry, "createdAt" | "expiresAt">): string {
     const code = this.generateSecureToken();
     const now = Date.now();
-    this.authCodes.set(code, {
-      ...data,
-      createdAt: now,
-      expiresAt: now + AUTH_CODE_EXPIRY_SECONDS * 1000,
-    });
+    const expiresAt = now + AUTH_CODE_EXPIRY_SECONDS * 1000;
+    this.storage.set(
+      "authCodes",
+      hashToken(code),
+      { ...data, createdAt: now, expiresAt },
+      expiresAt
+    );
     return code;
   }
 
@@ -167,18 +170,9 @@ export class ServerTokenStore {
    * Used for PKCE challenge lookup.
    */
   getAuthCode(code: string): AuthCodeEntry | undefined {
-    const entry = this.authCodes.get(code);
-    if (!entry) {
-      return undefined;
-    }
-
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.authCodes.delete(code);
-      return undefined;
-    }
-
-    return entry;
+    return this.storage.get("authCodes", hashToken(code)) as
+      | AuthCodeEntry
+      | undefined;
   }
 
   /**
@@ -188,7 +182,7 @@ export class ServerTokenStore {
   consumeAuthCode(code: string): AuthCodeEntry | undefined {
     const entry = this.getAuthCode(code);
     if (entry) {
-      this.authCodes.delete(code);
+      this.storage.delete("authCodes", hashToken(code));
     }
     return entry;
   }
@@ -207,11 +201,13 @@ export class ServerTokenStore {
   } {
     const token = this.generateSecureToken();
     const now = Date.now();
-    this.accessTokens.set(token, {
-      ...data,
-      createdAt: now,
-      expiresAt: now + ACCESS_TOKEN_EXPIRY_SECONDS * 1000,
-    });
+    const expiresAt = now + ACCESS_TOKEN_EXPIRY_SECONDS * 1000;
+    this.storage.set(
+      "accessTokens",
+      hashToken(token),
+      { ...data, createdAt: now, expiresAt },
+      expiresAt
+    );
     return { accessToken: token, expiresIn: ACCESS_TOKEN_EXPIRY_SECONDS };
   }
 
@@ -220,25 +216,16 @@ export class ServerTokenStore {
    * Returns undefined if not found or expired.
    */
   getAccessToken(token: string): TokenEntry | undefined {
-    const entry = this.accessTokens.get(token);
-    if (!entry) {
-      return undefined;
-    }
-
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.accessTokens.delete(token);
-      return undefined;
-    }
-
-    return entry;
+    return this.storage.get("accessTokens", hashToken(token)) as
+      | TokenEntry
+      | undefined;
   }
 
   /**
    * Revoke an access token
    */
   revokeAccessToken(token: string): boolean {
-    return this.accessTokens.delete(token);
+    return this.storage.delete("accessTokens", hashToken(token));
   }
 
   // -------------------------------------------------------------------------
@@ -254,11 +241,13 @@ export class ServerTokenStore {
   ): string {
     const token = this.generateSecureToken();
     const now = Date.now();
-    this.refreshTokens.set(token, {
-      ...data,
-      createdAt: now,
-      expiresAt: now + REFRESH_TOKEN_EXPIRY_SECONDS * 1000,
-    });
+    const expiresAt = now + REFRESH_TOKEN_EXPIRY_SECONDS * 1000;
+    this.storage.set(
+      "refreshTokens",
+      hashToken(token),
+      { ...data, createdAt: now, expiresAt },
+      expiresAt
+    );
     return token;
   }
 
@@ -267,25 +256,16 @@ export class ServerTokenStore {
    * Returns undefined if not found or expired.
    */
   getRefreshToken(token: string): RefreshTokenEntry | undefined {
-    const entry = this.refreshTokens.get(token);
-    if (!entry) {
-      return undefined;
-    }
-
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.refreshTokens.delete(token);
-      return undefined;
-    }
-
-    return entry;
+    return this.storage.get("refreshTokens", hashToken(token)) as
+      | RefreshTokenEntry
+      | undefined;
   }
 
   /**
    * Revoke a refresh token
    */
   revokeRefreshToken(token: string): boolean {
-    return this.refreshTokens.delete(token);
+    return this.storage.delete("refreshTokens", hashToken(token));
   }
 
   // -------------------------------------------------------------------------
@@ -303,37 +283,7 @@ export class ServerTokenStore {
    * Clean up expired entries (call periodically)
    */
   cleanup(): void {
-    const now = Date.now();
-
-    // Clean pending requests
-    for (const [state, request] of this.pendingRequests) {
-      const expiresAt =
-        request.createdAt + PENDING_REQUEST_EXPIRY_SECONDS * 1000;
-      if (now > expiresAt) {
-        this.pendingRequests.delete(state);
-      }
-    }
-
-    // Clean auth codes
-    for (const [code, entry] of this.authCodes) {
-      if (now > entry.expiresAt) {
-        this.authCodes.delete(code);
-      }
-    }
-
-    // Clean access tokens
-    for (const [token, entry] of this.accessTokens) {
-      if (now > entry.expiresAt) {
-        this.accessTokens.delete(token);
-      }
-    }
-
-    // Clean refresh tokens
-    for (const [token, entry] of this.refreshTokens) {
-      if (now > entry.expiresAt) {
-        this.refreshTokens.delete(token);
-      }
-    }
+    this.storage.purgeExpired();
   }
 }
 
@@ -370,9 +320,20 @@ export function verifyPkceChallenge(
 let storeInstance: ServerTokenStore | undefined;
 
 /**
- * Get the singleton token store instance
+ * Get the singleton token store instance.
+ * Uses in-memory storage unless initServerTokenStore was called first.
  */
 export function getServerTokenStore(): ServerTokenStore {
   storeInstance ??= new ServerTokenStore();
   return storeInstance;
 }
+
+/**
+ * Replace the singleton token store with one using the given backend
+ */
+export function initServerTokenStore(
+  storage: StorageBackend
+): ServerTokenStore {
+  storeInstance = new ServerTokenStore(storage);
+  return storeInstance;
+}
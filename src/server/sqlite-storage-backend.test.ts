@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DatabaseSync } from "node:sqlite";
+import { SqliteStorageBackend } from "./sqlite-storage-backend.js";
+
+describe("SqliteStorageBackend", () => {
+  let db: DatabaseSync;
+  let storage: SqliteStorageBackend;
+
+  beforeEach(() => {
+    db = new DatabaseSync(":memory:");
+    storage = new SqliteStorageBackend(db, "server-key");
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    if (db.isOpen) {
+      storage.close();
+    }
+  });
+
+  it("should store and get values by namespace", () => {
+    storage.set("accessTokens", "token", { clientId: "a" });
+    storage.set("refreshTokens", "token", { clientId: "b" });
+
+    expect(storage.get("accessTokens", "token")).toEqual({ clientId: "a" });
+    expect(storage.get("refreshTokens", "token")).toEqual({ clientId: "b" });
+    expect(storage.get("authCodes", "token")).toBeUndefined();
+  });
+
+  it("should replace existing values", () => {
+    storage.set("clients", "client", { name: "old" });
+    storage.set("clients", "client", { name: "new" });
+
+    expect(storage.get("clients", "client")).toEqual({ name: "new" });
+  });
+
+  it("should hide entries once they expire", () => {
+    storage.set("authCodes", "code", { clientId: "a" }, Date.now() + 1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(storage.get("authCodes", "code")).toEqual({ clientId: "a" });
+
+    vi.advanceTimersByTime(1);
+    expect(storage.get("authCodes", "code")).toBeUndefined();
+  });
+
+  it("should report whether delete removed an entry", () => {
+    storage.set("clients", "client", {});
+
+    expect(storage.delete("clients", "client")).toBe(true);
+    expect(storage.delete("clients", "client")).toBe(false);
+  });
+
+  it("should purge only expired rows", () => {
+    storage.set("authCodes", "old", {}, Date.now() + 1000);
+    storage.set("authCodes", "new", {}, Date.now() + 5000);
+    storage.set("clients", "client", {});
+
+    vi.advanceTimersByTime(2000);
+    storage.purgeExpired();
+
+    const rows = db
+      .prepare("SELECT key FROM entries ORDER BY key")
+      .all()
+      .map((row) => row["key"]);
+    expect(rows).toEqual(["client", "new"]);
+  });
+
+  it("should encrypt stored values", () => {
+    storage.set("accessTokens", "token", { quireAccessToken: "secret-token" });
+
+    const [row] = db.prepare("SELECT value FROM entries").all();
+    expect(String(row?.["value"])).not.toContain("secret-token");
+    expect(storage.get("accessTokens", "token")).toEqual({
+      quireAccessToken: "secret-token",
+    });
+  });
+
+  it("should reopen with the same key and reject a different one", () => {
+    storage.set("clients", "client", { client_id: "client" });
+
+    const reopened = new SqliteStorageBackend(db, "server-key");
+    expect(reopened.get("clients", "client")).toEqual({
+      client_id: "client",
+    });
+    expect(() => new SqliteStorageBackend(db, "other-key")).toThrow(
+      "wrong key"
+    );
+  });
+
+  it("should refuse entries written without encryption and keep them", () => {
+    db.exec("DELETE FROM meta");
+    db.prepare(
+      "INSERT INTO entries (namespace, key, value) VALUES (?, ?, ?)"
+    ).run("clients", "client", '{"client_id":"client"}');
+
+    expect(() => new SqliteStorageBackend(db, "server-key")).toThrow(
+      "no key check"
+    );
+    expect(db.prepare("SELECT value FROM entries").get()).toEqual({
+      value: '{"client_id":"client"}',
+    });
+  });
+
+  it("should set up a new key for an empty database without a key check", () => {
+    db.exec("DELETE FROM meta");
+
+    const reopened = new SqliteStorageBackend(db, "server-key");
+    reopened.set("clients", "client", { client_id: "client" });
+
+    expect(reopened.get("clients", "client")).toEqual({
+      client_id: "client",
+    });
+    expect(() => new SqliteStorageBackend(db, "other-key")).toThrow(
+      "wrong key"
+    );
+  });
+
+  it("should close the database", () => {
+    storage.close();
+
+    expect(db.isOpen).toBe(false);
+  });
+});
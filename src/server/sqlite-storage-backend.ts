@@ -0,0 +1,150 @@
+/**
+ * SQLite Storage Backend
+ *
+ * Stores entries in one table of a SQLite database, using Node's built-in
+ * node:sqlite module. Values are encrypted with AES-256-GCM under a key
+ * derived from the server key; the salt and a value to check the key
+ * against are kept in a meta table. Expired rows are filtered out by every
+ * read and removed by purgeExpired.
+ */
+
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import type { StorageBackend, StorageNamespace } from "./storage-backend.js";
+import {
+  createStorageSalt,
+  deriveStorageKey,
+  openSealedText,
+  sealText,
+  type SealedText,
+} from "./storage-encryption.js";
+
+/** Plaintext of the key check value */
+const KEY_CHECK = "quire-mcp";
+
+/**
+ * SQLite storage backend
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  private readonly db: DatabaseSync;
+  private readonly key: Buffer;
+  private readonly selectStatement: StatementSync;
+  private readonly upsertStatement: StatementSync;
+  private readonly deleteStatement: StatementSync;
+  private readonly purgeStatement: StatementSync;
+
+  /**
+   * Use an open database, creating its tables if needed.
+   * Throws if the database was encrypted with a different key.
+   */
+  constructor(db: DatabaseSync, serverKey: string) {
+    this.db = db;
+    db.exec(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        expires_at INTEGER,
+        PRIMARY KEY (namespace, key)
+      );
+      CREATE INDEX IF NOT EXISTS entries_expires_at ON entries (expires_at);
+      CREATE TABLE IF NOT EXISTS meta (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+    this.key = this.openKey(serverKey);
+
+    this.selectStatement = db.prepare(
+      "SELECT value FROM entries WHERE namespace = ? AND key = ? " +
+        "AND (expires_at IS NULL OR expires_at >= ?)"
+    );
+    this.upsertStatement = db.prepare(
+      "INSERT OR REPLACE INTO entries (namespace, key, value, expires_at) " +
+        "VALUES (?, ?, ?, ?)"
+    );
+    this.deleteStatement = db.prepare(
+      "DELETE FROM entries WHERE namespace = ? AND key = ?"
+    );
+    this.purgeStatement = db.prepare(
+      "DELETE FROM entries WHERE expires_at < ?"
+    );
+  }
+
+  get(namespace: StorageNamespace, key: string): unknown {
+    const row = this.selectStatement.get(namespace, key, Date.now());
+    const value = row?.["value"];
+    return typeof value === "string"
+      ? JSON.parse(openSealedText(this.key, JSON.parse(value) as SealedText))
+      : undefined;
+  }
+
+  set(
+    namespace: StorageNamespace,
+    key: string,
+    value: unknown,
+    expiresAt?: number
+  ): void {
+    this.upsertStatement.run(
+      namespace,
+      key,
+      JSON.stringify(sealText(this.key, JSON.stringify(value))),
+      expiresAt ?? null
+    );
+  }
+
+  delete(namespace: StorageNamespace, key: string): boolean {
+    return Number(this.deleteStatement.run(namespace, key).changes) > 0;
+  }
+
+  purgeExpired(): void {
+    this.purgeStatement.run(Date.now());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Derive the key from the stored salt and check it, or set up a new salt
+   * for an empty database. Throws rather than touch entries it cannot read.
+   */
+  private openKey(serverKey: string): Buffer {
+    const meta = new Map(
+      this.db
+        .prepare("SELECT name, value FROM meta")
+        .all()
+        .map((row) => [String(row["name"]), String(row["value"])])
+    );
+    const salt = meta.get("salt");
+    const check = meta.get("check");
+
+    if (salt === undefined || check === undefined) {
+      if (this.db.prepare("SELECT 1 FROM entries LIMIT 1").get()) {
+        throw new Error(
+          "Cannot decrypt token store database: it has entries but no key " +
+            "check, so it was written without encryption or is corrupted. " +
+            "Move it aside to start a new token store."
+        );
+      }
+      const newSalt = createStorageSalt();
+      const key = deriveStorageKey(serverKey, newSalt);
+      const insert = this.db.prepare(
+        "INSERT OR REPLACE INTO meta (name, value) VALUES (?, ?)"
+      );
+      insert.run("salt", newSalt.toString("base64"));
+      insert.run("check", JSON.stringify(sealText(key, KEY_CHECK)));
+      return key;
+    }
+
+    const key = deriveStorageKey(serverKey, Buffer.from(salt, "base64"));
+    try {
+      openSealedText(key, JSON.parse(check) as SealedText);
+    } catch {
+      throw new Error(
+        "Cannot decrypt token store database: wrong key or corrupted database"
+      );
+    }
+    return key;
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createStorageBackend } from "./storage-backend.js";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
+import { FileStorageBackend } from "./file-storage-backend.js";
+import { SqliteStorageBackend } from "./sqlite-storage-backend.js";
+
+describe("createStorageBackend", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "quire-mcp-storage-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should default to memory storage", async () => {
+    expect(await createStorageBackend()).toBeInstanceOf(MemoryStorageBackend);
+  });
+
+  it("should create an encrypted file backend", async () => {
+    const storage = await createStorageBackend({
+      type: "file",
+      path: join(dir, "tokens.enc"),
+      key: "server-key",
+    });
+
+    expect(storage).toBeInstanceOf(FileStorageBackend);
+  });
+
+  it("should create a SQLite backend that persists across instances", async () => {
+    const path = join(dir, "nested", "tokens.db");
+    const first = await createStorageBackend({
+      type: "sqlite",
+      path,
+      key: "server-key",
+    });
+    expect(first).toBeInstanceOf(SqliteStorageBackend);
+    first.set("clients", "client", { client_id: "client" });
+    first.close();
+
+    if (process.platform !== "win32") {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+    }
+    const second = await createStorageBackend({
+      type: "sqlite",
+      path,
+      key: "server-key",
+    });
+    expect(second.get("clients", "client")).toEqual({ client_id: "client" });
+    second.close();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Storage Backends
+ *
+ * Pluggable key-value storage for the OAuth proxy's token and client stores.
+ * Backends:
+ *   - memory: in-process maps, lost on restart (default)
+ *   - file:   a single file encrypted with a server key
+ *   - sqlite: a SQLite database (Node's built-in node:sqlite) with
+ *             values encrypted with a server key
+ *
+ * Entries may carry an expiry time. Backends never return an expired entry,
+ * so callers don't need to check expiry themselves.
+ */
+
+import { chmodSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { MemoryStorageBackend } from "./memory-storage-backend.js";
+import { FileStorageBackend } from "./file-storage-backend.js";
+import { SqliteStorageBackend } from "./sqlite-storage-backend.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Separate key spaces for each kind of stored entry
+ */
+export type StorageNamespace =
+  | "pendingRequests"
+  | "authCodes"
+  | "accessTokens"
+  | "refreshTokens"
+  | "clients";
+
+/**
+ * Synchronous key-value storage with per-entry expiry.
+ * Values must be JSON-serializable.
+ */
+export interface StorageBackend {
+  /** Get a value. Returns undefined if missing or expired. */
+  get(namespace: StorageNamespace, key: string): unknown;
+  /** Store a value, replacing any existing one. `expiresAt` is in ms. */
+  set(
+    namespace: StorageNamespace,
+    key: string,
+    value: unknown,
+    expiresAt?: number
+  ): void;
+  /** Delete a value. Returns true if it existed. */
+  delete(namespace: StorageNamespace, key: string): boolean;
+  /** Remove all expired entries */
+  purgeExpired(): void;
+  /** Flush and release resources */
+  close(): void;
+}
+
+/**
+ * Backend selection for the HTTP server
+ */
+export type StorageConfig =
+  | { type: "memory" }
+  | { type: "file"; path: string; key: string }
+  | { type: "sqlite"; path: string; key: string };
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the configured storage backend.
+ * node:sqlite is only loaded when the SQLite backend is selected.
+ */
+export async function createStorageBackend(
+  config: StorageConfig = { type: "memory" }
+): Promise<StorageBackend> {
+  switch (config.type) {
+    case "memory":
+      return new MemoryStorageBackend();
+    case "file":
+      return new FileStorageBackend(config.path, config.key);
+    case "sqlite": {
+      const { DatabaseSync } = await import("node:sqlite");
+      mkdirSync(dirname(config.path), { recursive: true, mode: 0o700 });
+      const db = new DatabaseSync(config.path);
+      chmodSync(config.path, 0o600);
+      return new SqliteStorageBackend(db, config.key);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Storage Encryption
+ *
+ * AES-256-GCM encryption shared by the persistent storage backends. Keys
+ * are derived from the server key with scrypt and a random salt that the
+ * backend stores next to the data.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+
+/**
+ * Encrypted text. Binary fields are base64.
+ */
+export interface SealedText {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Create a random salt for deriveStorageKey
+ */
+export function createStorageSalt(): Buffer {
+  return randomBytes(16);
+}
+
+/**
+ * Derive the encryption key from the server key and a stored salt
+ */
+export function deriveStorageKey(serverKey: string, salt: Buffer): Buffer {
+  return scryptSync(serverKey, salt, 32);
+}
+
+/**
+ * Encrypt text with a fresh IV
+ */
+export function sealText(key: Buffer, plaintext: string): SealedText {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt text. Throws if the key is wrong or the data was altered.
+ */
+export function openSealedText(key: Buffer, sealed: SealedText): string {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(sealed.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(sealed.data, "base64")),
+    decipher.final(),
+  ]).toString("utf-8");
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { getSharedResponseCache } from "../quire/response-cache.js";
+import { QuireEventLog } from "../quire/webhook-events.js";
+import { createWebhookHandler, isValidWebhookToken } from "./webhooks.js";
+
+const delivery = {
+  type: "notification",
+  token: "hook-secret",
+  data: {
+    type: 3,
+    text: "Ann completed Launch",
+    user: { id: "ann", name: "Ann" },
+    project: { oid: "P1", id: "web", name: "Website" },
+    task: { oid: "T1", id: 12, name: "Launch" },
+  },
+};
+
+describe("isValidWebhookToken", () => {
+  it("should accept only the configured secret", () => {
+    expect(isValidWebhookToken("hook-secret", "hook-secret")).toBe(true);
+    expect(isValidWebhookToken("hook-secrets", "hook-secret")).toBe(false);
+    expect(isValidWebhookToken(undefined, "hook-secret")).toBe(false);
+  });
+});
+
+describe("createWebhookHandler", () => {
+  let log: QuireEventLog;
+  let app: express.Express;
+
+  beforeEach(() => {
+    log = new QuireEventLog();
+    app = express();
+    app.use(express.json());
+    app.post("/webhooks/quire", createWebhookHandler("hook-secret", log));
+  });
+
+  it("should record task events", async () => {
+    const cache = getSharedResponseCache("user-token");
+    cache.set("task", "/task/list/id/web", []);
+
+    const response = await request(app).post("/webhooks/quire").send(delivery);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true });
+    expect(log.list()).toMatchObject([
+      { kind: "task.completed", task: { oid: "T1" } },
+    ]);
+    expect(cache.get("task", "/task/list/id/web")).toBeUndefined();
+  });
+
+  it("should reject deliveries without the webhook token", async () => {
+    const wrong = await request(app)
+      .post("/webhooks/quire")
+      .send({ ...delivery, token: "guess" });
+    const missing = await request(app).post("/webhooks/quire").send("hello");
+
+    expect(wrong.status).toBe(401);
+    expect(missing.status).toBe(401);
+    expect(log.list()).toEqual([]);
+  });
+
+  it("should reject malformed deliveries", async () => {
+    const response = await request(app)
+      .post("/webhooks/quire")
+      .send({ token: "hook-secret", data: {} });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: "Invalid webhook payload" });
+  });
+
+  it("should acknowledge but skip notifications without a task", async () => {
+    const response = await request(app)
+      .post("/webhooks/quire")
+      .send({ ...delivery, data: { type: 20, text: "Ann joined Website" } });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: false });
+    expect(log.list()).toEqual([]);
+  });
+});
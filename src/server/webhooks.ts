@@ -0,0 +1,65 @@
+/**
+ * Quire Webhook Receiver
+ *
+ * Handles POST /webhooks/quire. Quire includes the webhook token in each
+ * delivery's `token` field; deliveries whose token does not match
+ * QUIRE_WEBHOOK_SECRET are rejected. Accepted task events go to the shared
+ * event log, which tells subscribed sessions about the affected project,
+ * and cached tasks are dropped so the next read sees the change.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type express from "express";
+import { invalidateSharedResponseCaches } from "../quire/response-cache.js";
+import {
+  getQuireEventLog,
+  WebhookPayloadSchema,
+  type QuireEventLog,
+} from "../quire/webhook-events.js";
+
+/**
+ * Compare a delivery's token with the secret in constant time
+ */
+/** @internal Exported for testing */
+export function isValidWebhookToken(token: unknown, secret: string): boolean {
+  if (typeof token !== "string") {
+    return false;
+  }
+  const digest = (value: string): Buffer =>
+    createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/**
+ * Create the request handler for Quire webhook deliveries.
+ * Responds 401 for a missing or wrong token, 400 for a malformed body, and
+ * 200 with `received: false` for notifications that are not task events.
+ */
+export function createWebhookHandler(
+  secret: string,
+  log: QuireEventLog = getQuireEventLog()
+): express.RequestHandler {
+  return (req, res) => {
+    const body: unknown = req.body;
+    const token =
+      typeof body === "object" && body !== null && "token" in body
+        ? body.token
+        : undefined;
+    if (!isValidWebhookToken(token, secret)) {
+      res.status(401).json({ error: "Invalid webhook token" });
+      return;
+    }
+
+    const payload = WebhookPayloadSchema.safeParse(body);
+    if (!payload.success) {
+      res.status(400).json({ error: "Invalid webhook payload" });
+      return;
+    }
+
+    const event = log.add(payload.data);
+    if (event) {
+      invalidateSharedResponseCaches(["task"]);
+    }
+    res.status(200).json({ received: event !== undefined });
+  };
+}
@@ -160,6 +160,16 @@ describe("Test Utilities", () => {
         }
       });
 
+      it("getTaskTree should return an empty tree", async () => {
+        const client = createMockClient();
+        const result = await client.getTaskTree("proj");
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.nodeCount).toBe(0);
+        }
+      });
+
       it("getTask should return success", async () => {
         const client = createMockClient();
         const result = await client.getTask("proj", 1);
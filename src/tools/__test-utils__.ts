@@ -152,6 +152,11 @@ export function createMockClient(
         success: true,
         data: [],
       }),
+    getTaskTree: () =>
+      Promise.resolve({
+        success: true,
+        data: { roots: [], nodeCount: 0, truncated: false },
+      }),
     getTask: () =>
       Promise.resolve({
         success: true,
@@ -161,6 +166,11 @@ export function createMockClient(
           name: "Test Task",
           nameText: "Test Task",
           url: "https://quire.io/w/test-project?t=1",
+          project: {
+            oid: "project-oid",
+            id: "test-project",
+            name: "Test Project",
+          },
         },
       }),
     createTask: () =>
@@ -568,9 +578,24 @@ export function createMockClient(
           url: "https://quire.io/attachments/test-file.txt",
         },
       }),
+
+    // Rate limit methods
+    getRateLimitBudget: () => undefined,
+
+    // Response cache methods
+    getCacheStats: () => undefined,
+
+    // Search index methods
+    getSearchIndexCache: () => undefined,
   };
 
-  return { ...defaultClient, ...overrides } as QuireClient;
+  // Fresh reads go through the same mock unless a test overrides fresh()
+  const client: QuireClient = {
+    ...defaultClient,
+    fresh: () => client,
+    ...overrides,
+  } as QuireClient;
+  return client;
 }
 
 /**
@@ -7,6 +7,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { QuireAttachmentSchema } from "../quire/schemas.js";
 
 interface ToolTextContent {
   type: "text";
@@ -86,6 +87,7 @@ export function registerAttachmentTools(server: McpServer): void {
               "Defaults to 'application/octet-stream'"
           ),
       }),
+      outputSchema: QuireAttachmentSchema,
     },
     async ({ taskOid, filename, content, mimeType }, extra) => {
       const clientResult = await getQuireClient(extra);
@@ -118,6 +120,7 @@ export function registerAttachmentTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
@@ -147,6 +150,7 @@ export function registerAttachmentTools(server: McpServer): void {
               "Defaults to 'application/octet-stream'"
           ),
       }),
+      outputSchema: QuireAttachmentSchema,
     },
     async ({ commentOid, filename, content, mimeType }, extra) => {
       const clientResult = await getQuireClient(extra);
@@ -179,6 +183,7 @@ export function registerAttachmentTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
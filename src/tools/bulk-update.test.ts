@@ -0,0 +1,431 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerBulkUpdateTool } from "./bulk-update.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { QuireProject } from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+interface ToolResult {
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+}
+
+interface BulkReport {
+  dryRun: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: {
+    oid: string;
+    success: boolean;
+    name?: string;
+    changes?: Record<string, { from: unknown; to: unknown }>;
+    error?: { code: string };
+  }[];
+}
+
+describe("quire.bulkUpdateTasks tool", () => {
+  let server: McpServer;
+  let registeredTools: Map<
+    string,
+    {
+      description: string;
+      handler: (
+        params: Record<string, unknown>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredTools = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          config: { description: string },
+          handler: (
+            params: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredTools.set(name, {
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerBulkUpdateTool(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): Promise<ToolResult> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient(overrides),
+    });
+    const tool = registeredTools.get("quire.bulkUpdateTasks");
+    if (!tool) throw new Error("quire.bulkUpdateTasks not registered");
+    return (await tool.handler(
+      params,
+      createMockExtra({ quireToken: "token" })
+    )) as ToolResult;
+  }
+
+  function parseReport(result: ToolResult): BulkReport {
+    return JSON.parse(extractTextContent(result)) as BulkReport;
+  }
+
+  const task = (oid: string, extra?: Record<string, unknown>): unknown => ({
+    oid,
+    id: Number(oid.replace(/\D/g, "")),
+    name: `Task ${oid}`,
+    ...extra,
+  });
+
+  it("should register the quire.bulkUpdateTasks tool", () => {
+    expect(server.registerTool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has("quire.bulkUpdateTasks")).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const tool = registeredTools.get("quire.bulkUpdateTasks");
+    if (!tool) return;
+    const result = (await tool.handler(
+      { taskOids: ["t1"], patch: { status: 100 } },
+      createMockExtra()
+    )) as ToolResult;
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+
+  it("should require exactly one of taskOids or filter", async () => {
+    const neither = await callTool({ patch: { status: 100 } });
+    expect(isErrorResponse(neither)).toBe(true);
+    expect(extractTextContent(neither)).toContain("exactly one");
+
+    const both = await callTool({
+      taskOids: ["t1"],
+      filter: { projectId: "p" },
+      patch: { status: 100 },
+    });
+    expect(isErrorResponse(both)).toBe(true);
+  });
+
+  it("should require a non-empty patch", async () => {
+    const result = await callTool({ taskOids: ["t1"], patch: {} });
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("at least one field");
+  });
+
+  it("should update each task and report per-task results", async () => {
+    const updateTask = vi.fn((oid: string) =>
+      Promise.resolve(
+        oid === "t2"
+          ? mockErrors.forbidden()
+          : { success: true, data: task(oid) }
+      )
+    );
+
+    const result = await callTool(
+      { taskOids: ["t1", "t2", "t3", "t1"], patch: { status: 100 } },
+      { updateTask } as unknown as Partial<QuireClient>
+    );
+    const report = parseReport(result);
+
+    expect(updateTask).toHaveBeenCalledTimes(3);
+    expect(updateTask).toHaveBeenCalledWith("t1", { status: 100 });
+    expect(report).toMatchObject({
+      dryRun: false,
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+    });
+    expect(report.results.map((r) => r.oid)).toEqual(["t1", "t2", "t3"]);
+    expect(report.results[1]).toMatchObject({
+      success: false,
+      error: { code: "FORBIDDEN" },
+    });
+    expect(report.results[0]?.changes).toBeUndefined();
+  });
+
+  it("should select tasks with a search filter", async () => {
+    const searchTasks = vi.fn().mockResolvedValueOnce({
+      success: true,
+      data: [task("t1"), task("t2")],
+    });
+    const updateTask = vi.fn((oid: string) =>
+      Promise.resolve({ success: true, data: task(oid) })
+    );
+
+    const result = await callTool(
+      {
+        filter: { projectId: "my-project", tagId: 3, status: 0 },
+        patch: { priority: 2 },
+      },
+      { searchTasks, updateTask } as unknown as Partial<QuireClient>
+    );
+
+    expect(searchTasks).toHaveBeenCalledWith("my-project", "", {
+      tagId: 3,
+      status: 0,
+    });
+    expect(parseReport(result).succeeded).toBe(2);
+  });
+
+  it("should resolve names in the filter and patch in the project", async () => {
+    const searchTasks = vi.fn().mockResolvedValueOnce({
+      success: true,
+      data: [task("t1")],
+    });
+    const updateTask = vi.fn((oid: string) =>
+      Promise.resolve({ success: true, data: task(oid) })
+    );
+
+    const result = await callTool(
+      {
+        filter: {
+          projectId: "Website",
+          status: "To-Do",
+          tagId: "#bug",
+          assigneeId: "me",
+        },
+        patch: { status: "In Review", addTags: ["Urgent"] },
+      },
+      {
+        getProject: () => Promise.resolve(mockErrors.notFound()),
+        listProjects: () =>
+          Promise.resolve({
+            success: true,
+            data: [{ oid: "P1", id: "web", name: "Website" } as QuireProject],
+          }),
+        listStatuses: () =>
+          Promise.resolve({
+            success: true,
+            data: [
+              { value: 0, name: "To-Do" },
+              { value: 50, name: "In Review" },
+            ],
+          }),
+        listTags: () =>
+          Promise.resolve({
+            success: true,
+            data: [
+              { oid: "G1", id: 3, name: "Bug" },
+              { oid: "G2", id: 4, name: "Urgent" },
+            ],
+          }),
+        searchTasks,
+        updateTask,
+      } as unknown as Partial<QuireClient>
+    );
+
+    expect(searchTasks).toHaveBeenCalledWith("web", "", {
+      status: 0,
+      assigneeId: "test-user",
+      tagId: 3,
+    });
+    expect(updateTask).toHaveBeenCalledWith("t1", {
+      status: 50,
+      addTags: [4],
+    });
+    expect(parseReport(result).succeeded).toBe(1);
+  });
+
+  it("should resolve names in the project of each task given by OID", async () => {
+    const projects: Record<string, QuireProject> = {
+      "T.1": { oid: "P1", id: "web", name: "Website" } as QuireProject,
+      "T.2": { oid: "P2", id: "api", name: "API" } as QuireProject,
+    };
+    const listStatuses = vi.fn((projectOid: string) =>
+      Promise.resolve({
+        success: true,
+        data: [{ value: projectOid === "P1" ? 50 : 60, name: "In Review" }],
+      })
+    );
+    const updateTask = vi.fn((oid: string) =>
+      Promise.resolve({ success: true, data: task(oid) })
+    );
+
+    await callTool(
+      { taskOids: ["T.1", "T.2", "T.3"], patch: { status: "in review" } },
+      {
+        getProject: () => Promise.resolve(mockErrors.notFound()),
+        getTask: (oid: string) =>
+          Promise.resolve({
+            success: true,
+            data: {
+              ...(task(oid) as object),
+              project: projects[oid === "T.3" ? "T.1" : oid],
+            },
+          }),
+        listStatuses,
+        updateTask,
+      } as unknown as Partial<QuireClient>
+    );
+
+    expect(updateTask).toHaveBeenCalledWith("T.1", { status: 50 });
+    expect(updateTask).toHaveBeenCalledWith("T.2", { status: 60 });
+    expect(updateTask).toHaveBeenCalledWith("T.3", { status: 50 });
+    expect(listStatuses).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not write anything when a name cannot be resolved", async () => {
+    const updateTask = vi.fn();
+
+    const result = await callTool(
+      { taskOids: ["t1", "t2"], patch: { addTags: ["Nope"] } },
+      {
+        listTags: () => Promise.resolve({ success: true, data: [] }),
+        updateTask,
+      } as unknown as Partial<QuireClient>
+    );
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+
+  it("should return search errors", async () => {
+    const result = await callTool(
+      { filter: { projectId: "missing", keyword: "x" }, patch: { status: 0 } },
+      { searchTasks: vi.fn().mockResolvedValueOnce(mockErrors.notFound()) }
+    );
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("project was not found");
+  });
+
+  it("should reject filters matching too many tasks", async () => {
+    const many = Array.from({ length: 201 }, (_, i) => task(`t${i}`));
+
+    const result = await callTool(
+      { filter: { projectId: "p" }, patch: { status: 100 } },
+      {
+        searchTasks: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: many,
+        }),
+      }
+    );
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("201 tasks");
+  });
+
+  describe("dryRun", () => {
+    it("should preview changes without writing", async () => {
+      const updateTask = vi.fn();
+      const getTask = vi.fn().mockResolvedValueOnce({
+        success: true,
+        data: task("t1", {
+          status: { value: 0, name: "To-Do" },
+          priority: { value: 1, name: "High" },
+          assignees: [{ id: "alice", oid: "u1", name: "Alice" }],
+          tags: [{ id: 1, name: "Bug" }],
+        }),
+      });
+
+      const result = await callTool(
+        {
+          taskOids: ["t1"],
+          dryRun: true,
+          patch: {
+            status: 100,
+            priority: 1,
+            addAssignees: ["bob"],
+            removeTags: [1],
+          },
+        },
+        { getTask, updateTask } as unknown as Partial<QuireClient>
+      );
+      const report = parseReport(result);
+
+      expect(updateTask).not.toHaveBeenCalled();
+      expect(getTask).toHaveBeenCalledWith("t1");
+      expect(report.dryRun).toBe(true);
+      expect(report.results[0]?.changes).toEqual({
+        status: { from: 0, to: 100 },
+        assignees: { from: ["alice"], to: ["alice", "bob"] },
+        tags: { from: [1], to: [] },
+      });
+    });
+
+    it("should preview every field type", async () => {
+      const searchTasks = vi.fn().mockResolvedValueOnce({
+        success: true,
+        data: [task("t1", { name: "Old", due: "2025-01-01" })],
+      });
+      const getTask = vi.fn();
+
+      const result = await callTool(
+        {
+          filter: { projectId: "p" },
+          dryRun: true,
+          patch: {
+            name: "New",
+            description: "Desc",
+            due: "2025-02-01",
+            start: "2025-01-15",
+            assignees: ["carol"],
+            removeAssignees: ["dave"],
+            tags: [2],
+            addTags: [3],
+          },
+        },
+        { searchTasks, getTask } as unknown as Partial<QuireClient>
+      );
+
+      // Search results are used as-is for the preview
+      expect(getTask).not.toHaveBeenCalled();
+      expect(parseReport(result).results[0]?.changes).toEqual({
+        name: { from: "Old", to: "New" },
+        description: { to: "Desc" },
+        due: { from: "2025-01-01", to: "2025-02-01" },
+        start: { to: "2025-01-15" },
+        assignees: { from: [], to: ["carol"] },
+        tags: { from: [], to: [2, 3] },
+      });
+    });
+
+    it("should report tasks that cannot be fetched", async () => {
+      const result = await callTool(
+        { taskOids: ["gone"], dryRun: true, patch: { status: 100 } },
+        { getTask: vi.fn().mockResolvedValueOnce(mockErrors.notFound()) }
+      );
+
+      expect(parseReport(result)).toMatchObject({
+        failed: 1,
+        results: [{ oid: "gone", success: false }],
+      });
+    });
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * quire.bulkUpdateTasks Tool
+ *
+ * Apply one update patch to many tasks in a single tool call. Targets are
+ * given as task OIDs or selected with a project search filter. Status, tag
+ * and user names are resolved in each task's project before anything is
+ * written. Updates run with bounded concurrency and every task gets its own
+ * success/error entry, so one failure does not hide the others.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { QuireClient } from "../quire/client.js";
+import type {
+  QuireResult,
+  QuireTask,
+  UpdateTaskParams,
+} from "../quire/types.js";
+import {
+  BULK_OPERATION_CONCURRENCY,
+  BULK_UPDATE_MAX_TASKS,
+} from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  formatError,
+  formatAuthError,
+  formatSuccess,
+  formatValidationError,
+  buildParams,
+} from "./utils.js";
+import { DATE_INPUT_HINT } from "./date-input.js";
+import {
+  NameResolver,
+  statusRefSchema,
+  tagRefSchema,
+  type ResolveResult,
+  type StatusRef,
+  type TagRef,
+  type TaskFieldRefs,
+} from "./resolver.js";
+
+/**
+ * A single field change: the current value and the value after the patch
+ */
+interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Structured output: the per-task report returned by the tool
+ */
+const BulkUpdateOutputSchema = z.object({
+  dryRun: z.boolean(),
+  total: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(
+    z.union([
+      z.object({
+        oid: z.string(),
+        id: z.number().optional(),
+        name: z.string().optional(),
+        success: z.literal(true),
+        changes: z
+          .record(
+            z.string(),
+            z.object({
+              from: z.unknown().optional(),
+              to: z.unknown().optional(),
+            })
+          )
+          .optional(),
+      }),
+      z.object({
+        oid: z.string(),
+        success: z.literal(false),
+        error: z.object({ code: z.string(), message: z.string() }),
+      }),
+    ])
+  ),
+});
+
+/**
+ * Outcome for one task in a bulk update
+ */
+type BulkUpdateItemResult =
+  | {
+      oid: string;
+      id?: number;
+      name?: string;
+      success: true;
+      /** Fields the patch changes (dry run only) */
+      changes?: Record<string, FieldChange>;
+    }
+  | {
+      oid: string;
+      success: false;
+      error: { code: string; message: string };
+    };
+
+/**
+ * Apply add/replace/remove list operations the way Quire does
+ */
+function applyListPatch<T>(
+  current: T[],
+  replace: T[] | undefined,
+  add: T[] | undefined,
+  remove: T[] | undefined
+): T[] {
+  const next = [...(replace ?? current), ...(add ?? [])];
+  return [...new Set(next)].filter((item) => !remove?.includes(item));
+}
+
+/**
+ * Compute the fields a patch would change on a task, without writing
+ */
+function previewTaskUpdate(
+  task: QuireTask,
+  patch: UpdateTaskParams
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const record = (field: string, from: unknown, to: unknown): void => {
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  };
+
+  if (patch.name !== undefined) record("name", task.name, patch.name);
+  if (patch.description !== undefined) {
+    record("description", task.description, patch.description);
+  }
+  if (patch.priority !== undefined) {
+    record("priority", task.priority?.value, patch.priority);
+  }
+  if (patch.status !== undefined) {
+    record("status", task.status?.value, patch.status);
+  }
+  if (patch.due !== undefined) record("due", task.due, patch.due);
+  if (patch.start !== undefined) record("start", task.start, patch.start);
+
+  if (
+    patch.assignees !== undefined ||
+    patch.addAssignees !== undefined ||
+    patch.removeAssignees !== undefined
+  ) {
+    const current = (task.assignees ?? []).map((a) => a.id);
+    record(
+      "assignees",
+      current,
+      applyListPatch(
+        current,
+        patch.assignees,
+        patch.addAssignees,
+        patch.removeAssignees
+      )
+    );
+  }
+  if (
+    patch.tags !== undefined ||
+    patch.addTags !== undefined ||
+    patch.removeTags !== undefined
+  ) {
+    const current = (task.tags ?? []).map((t) => t.id);
+    record(
+      "tags",
+      current,
+      applyListPatch(current, patch.tags, patch.addTags, patch.removeTags)
+    );
+  }
+  return changes;
+}
+
+/**
+ * Convert a client result into a per-task report entry
+ */
+function toItemResult(
+  oid: string,
+  result: QuireResult<QuireTask>,
+  patch?: UpdateTaskParams
+): BulkUpdateItemResult {
+  if (!result.success) {
+    return {
+      oid,
+      success: false,
+      error: { code: result.error.code, message: result.error.message },
+    };
+  }
+  const task = result.data;
+  return {
+    oid,
+    id: task.id,
+    name: task.name,
+    success: true,
+    ...(patch ? { changes: previewTaskUpdate(task, patch) } : {}),
+  };
+}
+
+/**
+ * A task to update and the update for it, with names resolved in the
+ * task's project
+ */
+interface BulkUpdateTarget {
+  oid: string;
+  /** Current task data, when the search already returned it */
+  task?: QuireTask;
+  params: UpdateTaskParams;
+}
+
+/**
+ * Resolve the tasks targeted by a search filter. Names in the filter and
+ * the patch are resolved in the filter's project.
+ */
+async function findTargets(
+  client: QuireClient,
+  resolver: NameResolver,
+  filter: {
+    projectId: string;
+    keyword?: string | undefined;
+    status?: StatusRef | undefined;
+    priority?: number | undefined;
+    assigneeId?: string | undefined;
+    tagId?: TagRef | undefined;
+  },
+  fields: UpdateTaskParams,
+  patchRefs: TaskFieldRefs
+): Promise<ResolveResult<BulkUpdateTarget[]>> {
+  const project = await resolver.project(filter.projectId);
+  if (!project.success) {
+    return project;
+  }
+  const filterRefs = await resolver.taskFields(project.data, {
+    status: filter.status,
+    assignees:
+      filter.assigneeId === undefined ? undefined : [filter.assigneeId],
+    tags: filter.tagId === undefined ? undefined : [filter.tagId],
+  });
+  if (!filterRefs.success) {
+    return filterRefs;
+  }
+  const refs = await resolver.taskFields(project.data, patchRefs);
+  if (!refs.success) {
+    return refs;
+  }
+
+  const found = await client.searchTasks(
+    project.data,
+    filter.keyword ?? "",
+    buildParams({
+      status: filterRefs.data.status,
+      priority: filter.priority,
+      assigneeId: filterRefs.data.assignees?.[0],
+      tagId: filterRefs.data.tags?.[0],
+    })
+  );
+  if (!found.success) {
+    return { success: false, response: formatError(found.error, "project") };
+  }
+  if (found.data.length > BULK_UPDATE_MAX_TASKS) {
+    return {
+      success: false,
+      response: formatValidationError(
+        `The filter matches ${found.data.length} tasks; ` +
+          `narrow it to at most ${BULK_UPDATE_MAX_TASKS}`
+      ),
+    };
+  }
+  const params = buildParams({ ...fields, ...refs.data });
+  return {
+    success: true,
+    data: found.data.map((task) => ({ oid: task.oid, task, params })),
+  };
+}
+
+/**
+ * Resolve the patch for tasks given by OID, in each task's project. Tasks
+ * of the same project share the lookups.
+ */
+async function resolveTaskOids(
+  resolver: NameResolver,
+  taskOids: string[],
+  fields: UpdateTaskParams,
+  patchRefs: TaskFieldRefs
+): Promise<ResolveResult<BulkUpdateTarget[]>> {
+  const resolved = await mapWithConcurrency(
+    [...new Set(taskOids)],
+    BULK_OPERATION_CONCURRENCY,
+    async (oid) => ({ oid, refs: await resolver.taskFields(oid, patchRefs) })
+  );
+  const targets: BulkUpdateTarget[] = [];
+  for (const { oid, refs } of resolved) {
+    if (!refs.success) {
+      return refs;
+    }
+    targets.push({ oid, params: buildParams({ ...fields, ...refs.data }) });
+  }
+  return { success: true, data: targets };
+}
+
+/**
+ * Register the quire.bulkUpdateTasks tool
+ */
+export function registerBulkUpdateTool(server: McpServer): void {
+  server.registerTool(
+    "quire.bulkUpdateTasks",
+    {
+      description:
+        "Apply the same update to many tasks in one call. Select tasks by " +
+        "OID list or by a project search filter (exactly one), and provide " +
+        "the fields to change in 'patch'. Returns a per-task success/error " +
+        `report. At most ${BULK_UPDATE_MAX_TASKS} tasks per call. ` +
+        "Set dryRun to preview each task's changes without writing.",
+      inputSchema: z.object({
+        taskOids: z
+          .array(z.string())
+          .min(1)
+          .max(BULK_UPDATE_MAX_TASKS)
+          .optional()
+          .describe("OIDs of the tasks to update"),
+        filter: z
+          .object({
+            projectId: z
+              .string()
+              .describe("The project ID (e.g., 'my-project') or OID"),
+            keyword: z
+              .string()
+              .optional()
+              .describe("Keyword to match against task names and descriptions"),
+            status: statusRefSchema
+              .optional()
+              .describe("Only tasks with this status (value or name)"),
+            priority: z
+              .number()
+              .min(-1)
+              .max(2)
+              .optional()
+              .describe("Only tasks with this priority"),
+            assigneeId: z
+              .string()
+              .optional()
+              .describe(
+                "Only tasks assigned to this user: ID, email, name, or 'me'"
+              ),
+            tagId: tagRefSchema
+              .optional()
+              .describe("Only tasks with this tag (ID or name)"),
+          })
+          .optional()
+          .describe("Search filter selecting the tasks to update"),
+        patch: z
+          .object({
+            name: z.string().optional().describe("New task name/title"),
+            description: z
+              .string()
+              .optional()
+              .describe("New task description in markdown format"),
+            priority: z
+              .number()
+              .min(-1)
+              .max(2)
+              .optional()
+              .describe("Priority: -1 (low), 0 (medium), 1 (high), 2 (urgent)"),
+            status: statusRefSchema
+              .optional()
+              .describe(
+                "Status value from 0 (to-do) to 100 (complete), or status " +
+                  "name (e.g., 'In Review')"
+              ),
+            due: z.string().optional().describe(`Due date: ${DATE_INPUT_HINT}`),
+            start: z
+              .string()
+              .optional()
+              .describe(`Start date: ${DATE_INPUT_HINT}`),
+            assignees: z
+              .array(z.string())
+              .optional()
+              .describe(
+                "Replace all assignees with these users: user IDs, '@id', " +
+                  "emails, names, or 'me'"
+              ),
+            addAssignees: z
+              .array(z.string())
+              .optional()
+              .describe("Users to add as assignees (IDs, emails or names)"),
+            removeAssignees: z
+              .array(z.string())
+              .optional()
+              .describe(
+                "Users to remove from assignees (IDs, emails or names)"
+              ),
+            tags: z
+              .array(tagRefSchema)
+              .optional()
+              .describe("Replace all tags with these tag IDs or names"),
+            addTags: z
+              .array(tagRefSchema)
+              .optional()
+              .describe("Tag IDs or names to add"),
+            removeTags: z
+              .array(tagRefSchema)
+              .optional()
+              .describe("Tag IDs or names to remove"),
+          })
+          .describe("Fields to change on every selected task"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Preview the changes for each task without updating (default: false)"
+          ),
+      }),
+      outputSchema: BulkUpdateOutputSchema,
+      annotations: {
+        idempotentHint: true,
+      },
+    },
+    async ({ taskOids, filter, patch, dryRun }, extra) => {
+      if ((taskOids === undefined) === (filter === undefined)) {
+        return formatValidationError(
+          "Provide exactly one of 'taskOids' or 'filter'"
+        );
+      }
+      if (Object.keys(buildParams(patch)).length === 0) {
+        return formatValidationError("'patch' must contain at least one field");
+      }
+      const {
+        status,
+        assignees,
+        addAssignees,
+        removeAssignees,
+        tags,
+        addTags,
+        removeTags,
+        ...rest
+      } = patch;
+      const fields: UpdateTaskParams = buildParams(rest);
+      const patchRefs: TaskFieldRefs = {
+        status,
+        assignees,
+        addAssignees,
+        removeAssignees,
+        tags,
+        addTags,
+        removeTags,
+      };
+
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const { client } = clientResult;
+
+      // Resolve targets and names before writing anything. Search results
+      // already carry the current values needed for a dry run, so those
+      // tasks are not fetched again.
+      const resolver = new NameResolver(client);
+      const targets = filter
+        ? await findTargets(client, resolver, filter, fields, patchRefs)
+        : await resolveTaskOids(resolver, taskOids ?? [], fields, patchRefs);
+      if (!targets.success) {
+        return targets.response;
+      }
+
+      const results = await mapWithConcurrency(
+        targets.data,
+        BULK_OPERATION_CONCURRENCY,
+        async ({ oid, task, params }): Promise<BulkUpdateItemResult> => {
+          if (dryRun) {
+            const current: QuireResult<QuireTask> = task
+              ? { success: true, data: task }
+              : await client.getTask(oid);
+            return toItemResult(oid, current, params);
+          }
+          return toItemResult(oid, await client.updateTask(oid, params));
+        }
+      );
+
+      const succeeded = results.filter((r) => r.success).length;
+      return formatSuccess({
+        dryRun: dryRun === true,
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    }
+  );
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerCacheTool } from "./cache.js";
+import { QuireResponseCache } from "../quire/response-cache.js";
+import {
+  createMockExtra,
+  createMockClient,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+describe("quire.getCacheStats tool", () => {
+  let server: McpServer;
+  let registeredTools: Map<
+    string,
+    {
+      description: string;
+      handler: (
+        params: Record<string, unknown>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredTools = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          config: { description: string },
+          handler: (
+            params: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredTools.set(name, {
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerCacheTool(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should register the quire.getCacheStats tool", () => {
+    expect(server.registerTool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has("quire.getCacheStats")).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const tool = registeredTools.get("quire.getCacheStats");
+    expect(tool).toBeDefined();
+    if (!tool) return;
+    const result = (await tool.handler({}, createMockExtra())) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    };
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+
+  it("should return cache statistics", async () => {
+    const cache = new QuireResponseCache();
+    cache.set("project", "/project/id/p", {});
+    cache.get("project", "/project/id/p");
+    const mockClient = createMockClient({
+      getCacheStats: vi.fn(() => cache.getStats()),
+    });
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: mockClient,
+    });
+
+    const tool = registeredTools.get("quire.getCacheStats");
+    expect(tool).toBeDefined();
+    if (!tool) return;
+    const result = (await tool.handler(
+      {},
+      createMockExtra({ quireToken: "token" })
+    )) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+      structuredContent?: Record<string, unknown>;
+    };
+
+    expect(isErrorResponse(result)).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      enabled: true,
+      entries: 1,
+      hits: 1,
+      hitRate: 1,
+    });
+  });
+
+  it("should report when caching is disabled", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient(),
+    });
+
+    const tool = registeredTools.get("quire.getCacheStats");
+    expect(tool).toBeDefined();
+    if (!tool) return;
+    const result = (await tool.handler(
+      {},
+      createMockExtra({ quireToken: "token" })
+    )) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+      structuredContent?: Record<string, unknown>;
+    };
+
+    expect(isErrorResponse(result)).toBe(false);
+    expect(extractTextContent(result)).toContain("disabled");
+    expect(result.structuredContent).toMatchObject({ enabled: false });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * quire.getCacheStats Tool
+ *
+ * Report response cache activity for the current token: entries held,
+ * hits, misses and invalidations per resource type.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getQuireClient } from "../quire/client-factory.js";
+import { CacheStatsOutputSchema } from "./output-schemas.js";
+import { formatAuthError, formatMessage, formatSuccess } from "./utils.js";
+
+/**
+ * Register the quire.getCacheStats tool
+ */
+export function registerCacheTool(server: McpServer): void {
+  server.registerTool(
+    "quire.getCacheStats",
+    {
+      description:
+        "Get response cache statistics for the current token. Reports " +
+        "cached entries, hits, misses, fresh reads that bypassed the cache " +
+        "and entries invalidated by writes, overall and per resource type " +
+        "(user, organization, project, tag, status, task), with each TTL. " +
+        "Does not call the Quire API.",
+      inputSchema: z.object({}),
+      outputSchema: CacheStatsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async (_args, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+
+      const stats = clientResult.client.getCacheStats();
+      if (!stats) {
+        return formatMessage(
+          "Response caching is disabled (QUIRE_CACHE=off).",
+          {
+            enabled: false,
+            entries: 0,
+            hits: 0,
+            misses: 0,
+            bypassed: 0,
+            invalidated: 0,
+            hitRate: 0,
+            resources: {},
+          }
+        );
+      }
+
+      return formatSuccess({ enabled: true, ...stats });
+    }
+  );
+}
@@ -7,14 +7,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { DeleteOidResponseSchema, QuireChatSchema } from "../quire/schemas.js";
+import { ChatOutputSchema, ChatListOutputSchema } from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  formatProjected,
+  responseShapeSchema,
   formatMessage,
   formatValidationError,
   buildParams,
 } from "./utils.js";
+import { DATE_INPUT_HINT } from "./date-input.js";
 
 /**
  * Register all chat tools with the MCP server
@@ -63,12 +68,13 @@ export function registerChatTools(server: McpServer): void {
         start: z
           .string()
           .optional()
-          .describe("Target start date (ISO 8601 format, e.g., '2024-01-02')"),
+          .describe(`Target start date: ${DATE_INPUT_HINT}`),
         due: z
           .string()
           .optional()
-          .describe("Target due date (ISO 8601 format, e.g., '2024-05-25')"),
+          .describe(`Target due date: ${DATE_INPUT_HINT}`),
       }),
+      outputSchema: QuireChatSchema,
     },
     async (
       {
@@ -138,12 +144,14 @@ export function registerChatTools(server: McpServer): void {
           .optional()
           .describe("The owner ID or OID (required when using chatId)"),
         chatId: z.string().optional().describe("The chat ID within the owner"),
+        ...responseShapeSchema,
       }),
+      outputSchema: ChatOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ oid, ownerType, ownerId, chatId }, extra) => {
+    async ({ oid, ownerType, ownerId, chatId, format, fields }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -165,7 +173,7 @@ export function registerChatTools(server: McpServer): void {
         return formatError(result.error, "chat channel");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(result.data, "chat", { format, fields });
     }
   );
 
@@ -184,12 +192,14 @@ export function registerChatTools(server: McpServer): void {
         ownerId: z
           .string()
           .describe("The owner ID (e.g., 'my-project') or OID"),
+        ...responseShapeSchema,
       }),
+      outputSchema: ChatListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ ownerType, ownerId }, extra) => {
+    async ({ ownerType, ownerId, format, fields }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -200,7 +210,12 @@ export function registerChatTools(server: McpServer): void {
         return formatError(result.error, "chat channel");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(
+        result.data,
+        "chat",
+        { format, fields },
+        (chats) => ({ chats })
+      );
     }
   );
 
@@ -247,11 +262,11 @@ export function registerChatTools(server: McpServer): void {
         start: z
           .string()
           .optional()
-          .describe("Target start date (ISO 8601 format, e.g., '2024-01-02')"),
+          .describe(`Target start date: ${DATE_INPUT_HINT}`),
         due: z
           .string()
           .optional()
-          .describe("Target due date (ISO 8601 format, e.g., '2024-05-25')"),
+          .describe(`Target due date: ${DATE_INPUT_HINT}`),
         image: z
           .string()
           .optional()
@@ -259,6 +274,7 @@ export function registerChatTools(server: McpServer): void {
             "Icon image identifier (e.g., 'icon-view-list', 'icon-briefcase-o', etc.)"
           ),
       }),
+      outputSchema: QuireChatSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -349,6 +365,7 @@ export function registerChatTools(server: McpServer): void {
           .optional()
           .describe("The chat ID within the owner to delete"),
       }),
+      outputSchema: DeleteOidResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -380,7 +397,10 @@ export function registerChatTools(server: McpServer): void {
       }
 
       const identifier = oid ?? `${ownerType}/${ownerId}/${chatId}`;
-      return formatMessage(`Chat channel ${identifier} deleted successfully.`);
+      return formatMessage(
+        `Chat channel ${identifier} deleted successfully.`,
+        result.data
+      );
     }
   );
 }
@@ -0,0 +1,512 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerCloneProjectTool } from "./clone-project.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { QuireTaskTreeNode } from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+interface ToolResult {
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+}
+
+interface CloneReport {
+  dateShiftDays: number;
+  statuses: { created: number; existing: number };
+  tags: { created: number; reused: number };
+  tasks: {
+    total: number;
+    created: number;
+    failed: number;
+    skipped: number;
+    pending: number;
+  };
+  stoppedEarly: boolean;
+  stopReason?: string;
+  oidMap: { tasks: Record<string, string>; tags: Record<string, string> };
+  failures: { oid: string; error: string }[];
+  warnings: string[];
+}
+
+const node = (
+  oid: string,
+  extra?: Partial<QuireTaskTreeNode>
+): QuireTaskTreeNode => ({
+  oid,
+  id: Number(oid.replace(/\D/g, "")),
+  name: `Task ${oid}`,
+  children: [],
+  ...extra,
+});
+
+describe("quire.cloneProject tool", () => {
+  let server: McpServer;
+  let registeredTools: Map<
+    string,
+    {
+      description: string;
+      handler: (
+        params: Record<string, unknown>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredTools = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          config: { description: string },
+          handler: (
+            params: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredTools.set(name, {
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerCloneProjectTool(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>,
+    extra = createMockExtra({ quireToken: "token" })
+  ): Promise<ToolResult> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient(overrides),
+    });
+    const tool = registeredTools.get("quire.cloneProject");
+    if (!tool) throw new Error("quire.cloneProject not registered");
+    return (await tool.handler(
+      { sourceProjectId: "template", targetProjectId: "q3", ...params },
+      extra
+    )) as ToolResult;
+  }
+
+  function parseReport(result: ToolResult): CloneReport {
+    return JSON.parse(extractTextContent(result)) as CloneReport;
+  }
+
+  function treeMock(roots: QuireTaskTreeNode[]): QuireClient["getTaskTree"] {
+    return vi.fn().mockResolvedValueOnce({
+      success: true,
+      data: { roots, nodeCount: roots.length, truncated: false },
+    });
+  }
+
+  /** createTask mock that returns "new-<source name>" OIDs */
+  function createTaskMock(): ReturnType<typeof vi.fn> {
+    return vi.fn((_parent: string, params: { name: string }) =>
+      Promise.resolve({
+        success: true,
+        data: { oid: `new-${params.name}`, id: 1, name: params.name },
+      })
+    );
+  }
+
+  it("should register the quire.cloneProject tool", () => {
+    expect(server.registerTool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has("quire.cloneProject")).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const tool = registeredTools.get("quire.cloneProject");
+    if (!tool) return;
+    const result = (await tool.handler(
+      { sourceProjectId: "a", targetProjectId: "b" },
+      createMockExtra()
+    )) as ToolResult;
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+
+  it("should validate anchor dates", async () => {
+    const invalid = await callTool({ anchorDate: "next week" });
+    expect(isErrorResponse(invalid)).toBe(true);
+    expect(extractTextContent(invalid)).toContain("'anchorDate'");
+
+    const orphan = await callTool({ sourceAnchorDate: "2025-01-01" });
+    expect(isErrorResponse(orphan)).toBe(true);
+    expect(extractTextContent(orphan)).toContain("requires 'anchorDate'");
+  });
+
+  it("should copy statuses, tags and the task tree", async () => {
+    const createTask = createTaskMock();
+    const createStatus = vi.fn().mockResolvedValue({
+      success: true,
+      data: { value: 50, name: "Doing" },
+    });
+    const createTag = vi.fn().mockResolvedValueOnce({
+      success: true,
+      data: { oid: "tag-new", id: 20, name: "Feature" },
+    });
+    const listStatuses = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: [
+          { value: 0, name: "To-Do" },
+          { value: 50, name: "Doing", color: "#ff0" },
+        ],
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: [{ value: 0, name: "To-Do" }],
+      });
+    const listTags = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: [
+          { oid: "tag-bug", id: 1, name: "Bug" },
+          { oid: "tag-feat", id: 2, name: "Feature", color: "#00f" },
+        ],
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: [{ oid: "tag-bug-q3", id: 10, name: "bug" }],
+      });
+    const getTaskTree = treeMock([
+      node("t1", {
+        name: "Design",
+        description: "Mockups",
+        status: { value: 50, name: "Doing" },
+        priority: { value: 1, name: "High" },
+        tags: [
+          { id: 1, name: "Bug" },
+          { id: 2, name: "Feature" },
+        ],
+        assignees: [
+          { id: "alice", oid: "u1", name: "Alice" },
+          { id: "bob", oid: "u2", name: "Bob" },
+          { id: "carol", oid: "u3", name: "Carol" },
+        ],
+        children: [node("t2", { name: "Wireframes" })],
+      }),
+      node("t3", { name: "Build" }),
+    ]);
+
+    const result = await callTool({ assigneeMap: { alice: "dave", bob: "" } }, {
+      createTask,
+      createStatus,
+      createTag,
+      listStatuses,
+      listTags,
+      getTaskTree,
+    } as unknown as Partial<QuireClient>);
+    const report = parseReport(result);
+
+    expect(getTaskTree).toHaveBeenCalledWith("template", {
+      maxDepth: 20,
+      maxNodes: 500,
+    });
+    expect(createStatus).toHaveBeenCalledTimes(1);
+    expect(createStatus).toHaveBeenCalledWith("q3", {
+      name: "Doing",
+      value: 50,
+      color: "#ff0",
+    });
+    expect(createTag).toHaveBeenCalledTimes(1);
+    expect(createTag).toHaveBeenCalledWith("q3", {
+      name: "Feature",
+      color: "#00f",
+    });
+    expect(createTask).toHaveBeenNthCalledWith(1, "q3", {
+      name: "Design",
+      description: "Mockups",
+      status: 50,
+      priority: 1,
+      assignees: ["dave", "carol"],
+      tags: [10, 20],
+    });
+    expect(createTask).toHaveBeenNthCalledWith(2, "new-Design", {
+      name: "Wireframes",
+    });
+    expect(createTask).toHaveBeenNthCalledWith(3, "q3", { name: "Build" });
+    expect(report).toMatchObject({
+      dateShiftDays: 0,
+      statuses: { created: 1, existing: 1 },
+      tags: { created: 1, reused: 1 },
+      tasks: { total: 3, created: 3, failed: 0, skipped: 0, pending: 0 },
+      stoppedEarly: false,
+      warnings: [],
+    });
+    expect(report.oidMap).toEqual({
+      tasks: { t1: "new-Design", t2: "new-Wireframes", t3: "new-Build" },
+      tags: { "tag-bug": "tag-bug-q3", "tag-feat": "tag-new" },
+    });
+  });
+
+  it("should shift dates relative to the anchor date", async () => {
+    const createTask = createTaskMock();
+    const getTaskTree = treeMock([
+      node("t1", { name: "Kickoff", start: "2025-01-06", due: "2025-01-10" }),
+      node("t2", { name: "Review", due: "2025-02-03T09:30:00.000Z" }),
+      node("t3", { name: "Odd", due: "someday" }),
+    ]);
+
+    const result = await callTool({ anchorDate: "2025-04-07" }, {
+      createTask,
+      getTaskTree,
+    } as unknown as Partial<QuireClient>);
+
+    expect(parseReport(result).dateShiftDays).toBe(91);
+    expect(createTask).toHaveBeenNthCalledWith(1, "q3", {
+      name: "Kickoff",
+      start: "2025-04-07",
+      due: "2025-04-11",
+    });
+    expect(createTask).toHaveBeenNthCalledWith(2, "q3", {
+      name: "Review",
+      due: "2025-05-05T09:30:00.000Z",
+    });
+    expect(createTask).toHaveBeenNthCalledWith(3, "q3", {
+      name: "Odd",
+      due: "someday",
+    });
+  });
+
+  it("should use sourceAnchorDate when given", async () => {
+    const createTask = createTaskMock();
+
+    const result = await callTool(
+      { anchorDate: "2025-01-11", sourceAnchorDate: "2025-01-01" },
+      {
+        createTask,
+        getTaskTree: treeMock([node("t1", { due: "2025-01-05" })]),
+      } as unknown as Partial<QuireClient>
+    );
+
+    expect(parseReport(result).dateShiftDays).toBe(10);
+    expect(createTask).toHaveBeenCalledWith("q3", {
+      name: "Task t1",
+      due: "2025-01-15",
+    });
+  });
+
+  it("should not shift when the source has no dates", async () => {
+    const result = await callTool({ anchorDate: "2025-01-11" }, {
+      createTask: createTaskMock(),
+      getTaskTree: treeMock([node("t1")]),
+    } as unknown as Partial<QuireClient>);
+
+    expect(parseReport(result).dateShiftDays).toBe(0);
+  });
+
+  it("should drop assignees and skip completed subtrees", async () => {
+    const createTask = createTaskMock();
+    const getTaskTree = treeMock([
+      node("t1", {
+        assignees: [{ id: "alice", oid: "u1", name: "Alice" }],
+      }),
+      node("t2", {
+        status: { value: 100, name: "Completed" },
+        children: [node("t3"), node("t4")],
+      }),
+    ]);
+
+    const result = await callTool(
+      { dropAssignees: true, skipCompleted: true },
+      { createTask, getTaskTree } as unknown as Partial<QuireClient>
+    );
+
+    expect(createTask).toHaveBeenCalledTimes(1);
+    expect(createTask).toHaveBeenCalledWith("q3", { name: "Task t1" });
+    expect(parseReport(result).tasks).toEqual({
+      total: 4,
+      created: 1,
+      failed: 0,
+      skipped: 3,
+      pending: 0,
+    });
+  });
+
+  it("should skip subtasks of tasks that failed", async () => {
+    const createTask = vi
+      .fn()
+      .mockResolvedValueOnce(mockErrors.forbidden())
+      .mockResolvedValueOnce({
+        success: true,
+        data: { oid: "new-t3", id: 3, name: "Task t3" },
+      });
+
+    const result = await callTool({}, {
+      createTask,
+      getTaskTree: treeMock([
+        node("t1", { children: [node("t2")] }),
+        node("t3"),
+      ]),
+    } as unknown as Partial<QuireClient>);
+    const report = parseReport(result);
+
+    expect(createTask).toHaveBeenCalledTimes(2);
+    expect(report.tasks).toMatchObject({ created: 1, failed: 1, skipped: 1 });
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0]?.oid).toBe("t1");
+    expect(report.failures[0]?.error).toContain("FORBIDDEN");
+  });
+
+  it("should stop at a rate limit and report pending tasks", async () => {
+    const createTask = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: { oid: "new-t1", id: 1, name: "Task t1" },
+      })
+      .mockResolvedValueOnce(mockErrors.rateLimited());
+
+    const result = await callTool({}, {
+      createTask,
+      getTaskTree: treeMock([node("t1"), node("t2"), node("t3")]),
+    } as unknown as Partial<QuireClient>);
+    const report = parseReport(result);
+
+    expect(createTask).toHaveBeenCalledTimes(2);
+    expect(report.tasks).toMatchObject({ created: 1, pending: 2 });
+    expect(report.stoppedEarly).toBe(true);
+    expect(report.stopReason).toContain("rate limit");
+    expect(report.oidMap.tasks).toEqual({ t1: "new-t1" });
+  });
+
+  it("should warn when tags or statuses cannot be created", async () => {
+    const result = await callTool({}, {
+      listStatuses: vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          data: [{ value: 30, name: "Blocked" }],
+        })
+        .mockResolvedValueOnce({ success: true, data: [] }),
+      listTags: vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          data: [{ oid: "tag-x", id: 5, name: "X" }],
+        })
+        .mockResolvedValueOnce({ success: true, data: [] }),
+      createStatus: vi.fn().mockResolvedValueOnce(mockErrors.forbidden()),
+      createTag: vi.fn().mockResolvedValueOnce(mockErrors.forbidden()),
+      getTaskTree: treeMock([]),
+    } as unknown as Partial<QuireClient>);
+    const report = parseReport(result);
+
+    expect(report.statuses).toEqual({ created: 0, existing: 0 });
+    expect(report.tags).toEqual({ created: 0, reused: 0 });
+    expect(report.warnings).toHaveLength(2);
+    expect(report.warnings[0]).toContain("Status 'Blocked' (30) not created");
+    expect(report.warnings[1]).toContain("Tag 'X' not created");
+  });
+
+  it("should refuse truncated source trees", async () => {
+    const result = await callTool({}, {
+      getTaskTree: vi.fn().mockResolvedValueOnce({
+        success: true,
+        data: {
+          roots: [],
+          nodeCount: 500,
+          truncated: true,
+          limitReached: "maxNodes",
+        },
+      }),
+    } as unknown as Partial<QuireClient>);
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("more than 500 tasks");
+  });
+
+  it.each([
+    ["source tags", "listTags", 0],
+    ["source statuses", "listStatuses", 0],
+    ["target tags", "listTags", 1],
+    ["target statuses", "listStatuses", 1],
+  ] as const)(
+    "should return errors loading %s",
+    async (_label, method, failingCall) => {
+      const mock = vi.fn();
+      for (let call = 0; call < 2; call++) {
+        mock.mockResolvedValueOnce(
+          call === failingCall
+            ? mockErrors.notFound()
+            : { success: true, data: [] }
+        );
+      }
+
+      const result = await callTool({}, {
+        [method]: mock,
+        getTaskTree: treeMock([]),
+      } as unknown as Partial<QuireClient>);
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain("project was not found");
+    }
+  );
+
+  it("should return task tree errors", async () => {
+    const result = await callTool(
+      {},
+      { getTaskTree: vi.fn().mockResolvedValueOnce(mockErrors.notFound()) }
+    );
+
+    expect(isErrorResponse(result)).toBe(true);
+  });
+
+  it("should send progress notifications when progressToken is provided", async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const extra = createMockExtra({ quireToken: "token" });
+    extra._meta = { progressToken: "clone-progress" };
+    extra.sendNotification = sendNotification;
+
+    await callTool(
+      {},
+      {
+        createTask: createTaskMock(),
+        getTaskTree: treeMock([node("t1"), node("t2")]),
+      } as unknown as Partial<QuireClient>,
+      extra
+    );
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(sendNotification).toHaveBeenLastCalledWith({
+      method: "notifications/progress",
+      params: {
+        progressToken: "clone-progress",
+        progress: 2,
+        total: 2,
+        message: "Processed 2 of 2 tasks",
+      },
+    });
+  });
+});
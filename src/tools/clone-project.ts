@@ -0,0 +1,525 @@
+/**
+ * quire.cloneProject Tool
+ *
+ * Copy a template project's tags, custom statuses and task tree into another
+ * existing project. Dates can be shifted so the template lines up with a new
+ * anchor date, assignees can be remapped or dropped, and completed tasks can
+ * be left behind.
+ *
+ * Tasks are created one at a time, parents before children, so sibling
+ * order matches the source. If Quire reports a rate limit partway, the clone
+ * stops and the report lists what was already copied.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { QuireClient } from "../quire/client.js";
+import type {
+  CreateTaskParams,
+  QuireResult,
+  QuireStatus,
+  QuireTag,
+  QuireTaskTreeNode,
+} from "../quire/types.js";
+import {
+  CLONE_PROJECT_MAX_DEPTH,
+  CLONE_PROJECT_MAX_TASKS,
+} from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import {
+  formatError,
+  formatAuthError,
+  formatSuccess,
+  formatValidationError,
+} from "./utils.js";
+
+/** Status value Quire treats as complete */
+const COMPLETED_STATUS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Structured output: counts, the old-to-new OID mapping and any problems
+ */
+const CloneProjectOutputSchema = z.object({
+  sourceProjectId: z.string(),
+  targetProjectId: z.string(),
+  dateShiftDays: z.number(),
+  statuses: z.object({ created: z.number(), existing: z.number() }),
+  tags: z.object({ created: z.number(), reused: z.number() }),
+  tasks: z.object({
+    total: z.number(),
+    created: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    pending: z.number(),
+  }),
+  stoppedEarly: z.boolean(),
+  stopReason: z.string().optional(),
+  oidMap: z.object({
+    tasks: z.record(z.string(), z.string()),
+    tags: z.record(z.string(), z.string()),
+  }),
+  failures: z.array(
+    z.object({ oid: z.string(), name: z.string(), error: z.string() })
+  ),
+  warnings: z.array(z.string()),
+});
+
+/**
+ * Options controlling how source tasks are copied
+ */
+interface CloneOptions {
+  dateShiftDays: number;
+  assigneeMap: Record<string, string>;
+  dropAssignees: boolean;
+  tagIds: Map<number, number>;
+}
+
+/**
+ * A source task scheduled for creation, in parent-before-child order
+ */
+interface ClonePlanEntry {
+  task: QuireTaskTreeNode;
+  parentOid?: string;
+}
+
+/**
+ * Day number (days since the epoch) of an ISO date or date-time
+ */
+function toDayNumber(value: string): number {
+  return Math.floor(Date.parse(value.slice(0, 10)) / DAY_MS);
+}
+
+/**
+ * Shift an ISO date or date-time by whole days, keeping date-only values
+ * date-only. Values that do not parse are returned unchanged.
+ */
+function shiftDate(value: string, days: number): string {
+  const date = new Date(value);
+  if (days === 0 || Number.isNaN(date.getTime())) {
+    return value;
+  }
+  date.setUTCDate(date.getUTCDate() + days);
+  const iso = date.toISOString();
+  return value.length <= 10 ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * Flatten the source tree depth-first. Completed tasks (and everything
+ * under them) are left out when skipCompleted is set.
+ */
+function planClone(
+  roots: QuireTaskTreeNode[],
+  skipCompleted: boolean
+): { plan: ClonePlanEntry[]; skipped: number } {
+  const plan: ClonePlanEntry[] = [];
+  let skipped = 0;
+  const countSubtree = (node: QuireTaskTreeNode): number =>
+    1 + node.children.reduce((sum, child) => sum + countSubtree(child), 0);
+
+  const visit = (node: QuireTaskTreeNode, parentOid?: string): void => {
+    if (skipCompleted && (node.status?.value ?? 0) >= COMPLETED_STATUS) {
+      skipped += countSubtree(node);
+      return;
+    }
+    plan.push({ task: node, ...(parentOid && { parentOid }) });
+    for (const child of node.children) visit(child, node.oid);
+  };
+  for (const root of roots) visit(root);
+  return { plan, skipped };
+}
+
+/**
+ * Days between the earliest start/due date in the plan and the anchor
+ */
+function computeDateShift(
+  plan: ClonePlanEntry[],
+  anchorDate: string,
+  sourceAnchorDate: string | undefined
+): number {
+  let from: number | undefined;
+  if (sourceAnchorDate) {
+    from = toDayNumber(sourceAnchorDate);
+  } else {
+    const days = plan
+      .flatMap(({ task }) => [task.start, task.due])
+      .filter((value): value is string => value !== undefined)
+      .map(toDayNumber)
+      .filter((day) => !Number.isNaN(day));
+    from = days.length > 0 ? Math.min(...days) : undefined;
+  }
+  return from === undefined ? 0 : toDayNumber(anchorDate) - from;
+}
+
+/**
+ * Map a source task to createTask parameters for the target project
+ */
+function toCreateParams(
+  task: QuireTaskTreeNode,
+  options: CloneOptions
+): CreateTaskParams {
+  const params: CreateTaskParams = { name: task.name };
+  if (task.description) params.description = task.description;
+  if (task.priority) params.priority = task.priority.value;
+  if (task.status) params.status = task.status.value;
+  if (task.start) params.start = shiftDate(task.start, options.dateShiftDays);
+  if (task.due) params.due = shiftDate(task.due, options.dateShiftDays);
+
+  if (!options.dropAssignees && task.assignees) {
+    const assignees = task.assignees
+      .map((user) => options.assigneeMap[user.id] ?? user.id)
+      .filter((id) => id.length > 0);
+    if (assignees.length > 0) params.assignees = [...new Set(assignees)];
+  }
+
+  const tags = (task.tags ?? [])
+    .map((tag) => options.tagIds.get(tag.id))
+    .filter((id): id is number => id !== undefined);
+  if (tags.length > 0) params.tags = tags;
+
+  return params;
+}
+
+/**
+ * Create the source's custom statuses that the target does not have yet
+ */
+async function cloneStatuses(
+  client: QuireClient,
+  targetProjectId: string,
+  source: QuireStatus[],
+  target: QuireStatus[],
+  warnings: string[]
+): Promise<{ created: number; existing: number }> {
+  const existingValues = new Set(target.map((status) => status.value));
+  let created = 0;
+  let existing = 0;
+  for (const status of source) {
+    if (existingValues.has(status.value)) {
+      existing++;
+      continue;
+    }
+    const result = await client.createStatus(targetProjectId, {
+      name: status.name,
+      value: status.value,
+      ...(status.color && { color: status.color }),
+    });
+    if (result.success) {
+      created++;
+    } else {
+      warnings.push(
+        `Status '${status.name}' (${status.value}) not created: ${result.error.message}`
+      );
+    }
+  }
+  return { created, existing };
+}
+
+/**
+ * Reuse target tags with the same name and create the rest. Returns the
+ * source-to-target tag ID and OID mappings.
+ */
+async function cloneTags(
+  client: QuireClient,
+  targetProjectId: string,
+  source: QuireTag[],
+  target: QuireTag[],
+  warnings: string[]
+): Promise<{
+  created: number;
+  reused: number;
+  ids: Map<number, number>;
+  oids: Record<string, string>;
+}> {
+  const byName = new Map(target.map((tag) => [tag.name.toLowerCase(), tag]));
+  const ids = new Map<number, number>();
+  const oids: Record<string, string> = {};
+  let created = 0;
+  let reused = 0;
+
+  for (const tag of source) {
+    let match = byName.get(tag.name.toLowerCase());
+    if (match) {
+      reused++;
+    } else {
+      const result = await client.createTag(targetProjectId, {
+        name: tag.name,
+        ...(tag.color && { color: tag.color }),
+      });
+      if (!result.success) {
+        warnings.push(`Tag '${tag.name}' not created: ${result.error.message}`);
+        continue;
+      }
+      match = result.data;
+      created++;
+    }
+    oids[tag.oid] = match.oid;
+    if (tag.id !== undefined && match.id !== undefined) {
+      ids.set(tag.id, match.id);
+    }
+  }
+  return { created, reused, ids, oids };
+}
+
+/**
+ * Load the source project's tags, statuses and task tree plus the target's
+ * existing tags and statuses
+ */
+async function loadProjects(
+  client: QuireClient,
+  sourceProjectId: string,
+  targetProjectId: string
+): Promise<
+  QuireResult<{
+    sourceTags: QuireTag[];
+    sourceStatuses: QuireStatus[];
+    roots: QuireTaskTreeNode[];
+    truncated: boolean;
+    targetTags: QuireTag[];
+    targetStatuses: QuireStatus[];
+  }>
+> {
+  const [sourceTags, sourceStatuses, tree] = await Promise.all([
+    client.listTags(sourceProjectId),
+    client.listStatuses(sourceProjectId),
+    client.getTaskTree(sourceProjectId, {
+      maxDepth: CLONE_PROJECT_MAX_DEPTH,
+      maxNodes: CLONE_PROJECT_MAX_TASKS,
+    }),
+  ]);
+  if (!sourceTags.success) return sourceTags;
+  if (!sourceStatuses.success) return sourceStatuses;
+  if (!tree.success) return tree;
+
+  const [targetTags, targetStatuses] = await Promise.all([
+    client.listTags(targetProjectId),
+    client.listStatuses(targetProjectId),
+  ]);
+  if (!targetTags.success) return targetTags;
+  if (!targetStatuses.success) return targetStatuses;
+
+  return {
+    success: true,
+    data: {
+      sourceTags: sourceTags.data,
+      sourceStatuses: sourceStatuses.data,
+      roots: tree.data.roots,
+      truncated: tree.data.truncated,
+      targetTags: targetTags.data,
+      targetStatuses: targetStatuses.data,
+    },
+  };
+}
+
+/**
+ * Register the quire.cloneProject tool
+ */
+export function registerCloneProjectTool(server: McpServer): void {
+  server.registerTool(
+    "quire.cloneProject",
+    {
+      description:
+        "Copy a project's tags, custom statuses and full task tree into " +
+        "another existing project, e.g. to rebuild a template. Tags with the " +
+        "same name in the target are reused. Optionally shift start/due " +
+        "dates so the earliest date lands on 'anchorDate', remap or drop " +
+        "assignees, and skip completed tasks. Returns counts plus the " +
+        "old-to-new OID mapping for tasks and tags. " +
+        `At most ${CLONE_PROJECT_MAX_TASKS} tasks per call.`,
+      inputSchema: z.object({
+        sourceProjectId: z
+          .string()
+          .describe("The project ID (e.g., 'template') or OID to copy from"),
+        targetProjectId: z
+          .string()
+          .describe("The project ID or OID to copy into"),
+        anchorDate: z
+          .string()
+          .optional()
+          .describe(
+            "New anchor date (YYYY-MM-DD). Dates shift by the same number " +
+              "of days so the source anchor lands here."
+          ),
+        sourceAnchorDate: z
+          .string()
+          .optional()
+          .describe(
+            "Date in the source that maps to anchorDate " +
+              "(default: the earliest start or due date)"
+          ),
+        assigneeMap: z
+          .record(z.string(), z.string())
+          .optional()
+          .describe(
+            "Map of source user ID to target user ID. Map a user to '' to " +
+              "drop them; unmapped assignees are kept."
+          ),
+        dropAssignees: z
+          .boolean()
+          .optional()
+          .describe("Create tasks without any assignees (default: false)"),
+        skipCompleted: z
+          .boolean()
+          .optional()
+          .describe(
+            "Leave out completed tasks and their subtasks (default: false)"
+          ),
+      }),
+      outputSchema: CloneProjectOutputSchema,
+    },
+    async (
+      {
+        sourceProjectId,
+        targetProjectId,
+        anchorDate,
+        sourceAnchorDate,
+        assigneeMap,
+        dropAssignees,
+        skipCompleted,
+      },
+      extra
+    ) => {
+      for (const [field, value] of [
+        ["anchorDate", anchorDate],
+        ["sourceAnchorDate", sourceAnchorDate],
+      ] as const) {
+        if (value !== undefined && Number.isNaN(toDayNumber(value))) {
+          return formatValidationError(
+            `'${field}' must be an ISO date (YYYY-MM-DD)`
+          );
+        }
+      }
+      if (sourceAnchorDate !== undefined && anchorDate === undefined) {
+        return formatValidationError(
+          "'sourceAnchorDate' requires 'anchorDate'"
+        );
+      }
+
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const { client } = clientResult;
+
+      const loaded = await loadProjects(
+        client,
+        sourceProjectId,
+        targetProjectId
+      );
+      if (!loaded.success) {
+        return formatError(loaded.error, "project");
+      }
+      const projects = loaded.data;
+      if (projects.truncated) {
+        return formatValidationError(
+          `The source project has more than ${CLONE_PROJECT_MAX_TASKS} tasks ` +
+            `or is nested deeper than ${CLONE_PROJECT_MAX_DEPTH} levels; ` +
+            "it cannot be cloned in one call"
+        );
+      }
+
+      const { plan, skipped } = planClone(
+        projects.roots,
+        skipCompleted === true
+      );
+      const dateShiftDays = anchorDate
+        ? computeDateShift(plan, anchorDate, sourceAnchorDate)
+        : 0;
+
+      const warnings: string[] = [];
+      const statuses = await cloneStatuses(
+        client,
+        targetProjectId,
+        projects.sourceStatuses,
+        projects.targetStatuses,
+        warnings
+      );
+      const tags = await cloneTags(
+        client,
+        targetProjectId,
+        projects.sourceTags,
+        projects.targetTags,
+        warnings
+      );
+      const options: CloneOptions = {
+        dateShiftDays,
+        assigneeMap: assigneeMap ?? {},
+        dropAssignees: dropAssignees === true,
+        tagIds: tags.ids,
+      };
+
+      const progressToken = extra._meta?.progressToken;
+      const sendProgress = async (progress: number): Promise<void> => {
+        if (progressToken) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress,
+              total: plan.length,
+              message: `Processed ${progress} of ${plan.length} tasks`,
+            },
+          });
+        }
+      };
+
+      const taskOids: Record<string, string> = {};
+      const failures: { oid: string; name: string; error: string }[] = [];
+      let skippedUnderFailed = 0;
+      let stopReason: string | undefined;
+      let processed = 0;
+
+      for (const { task, parentOid } of plan) {
+        const target =
+          parentOid === undefined ? targetProjectId : taskOids[parentOid];
+        if (target === undefined) {
+          // The parent failed, or was itself skipped
+          skippedUnderFailed++;
+          continue;
+        }
+        const created = await client.createTask(
+          target,
+          toCreateParams(task, options)
+        );
+        if (created.success) {
+          taskOids[task.oid] = created.data.oid;
+        } else if (created.error.code === "RATE_LIMITED") {
+          stopReason =
+            "Quire rate limit reached; remaining tasks were not cloned. " +
+            "Wait, then clone again into an empty project.";
+          break;
+        } else {
+          failures.push({
+            oid: task.oid,
+            name: task.name,
+            error: `${created.error.code}: ${created.error.message}`,
+          });
+        }
+        processed++;
+        await sendProgress(processed);
+      }
+
+      const createdCount = Object.keys(taskOids).length;
+      return formatSuccess({
+        sourceProjectId,
+        targetProjectId,
+        dateShiftDays,
+        statuses,
+        tags: { created: tags.created, reused: tags.reused },
+        tasks: {
+          total: plan.length + skipped,
+          created: createdCount,
+          failed: failures.length,
+          skipped: skipped + skippedUnderFailed,
+          pending:
+            plan.length - createdCount - failures.length - skippedUnderFailed,
+        },
+        stoppedEarly: stopReason !== undefined,
+        ...(stopReason && { stopReason }),
+        oidMap: { tasks: taskOids, tags: tags.oids },
+        failures,
+        warnings,
+      });
+    }
+  );
+}
@@ -7,10 +7,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import {
+  DeleteOidResponseSchema,
+  QuireCommentSchema,
+} from "../quire/schemas.js";
+import { CommentListOutputSchema } from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  responseShapeSchema,
+  paginationSchema,
+  paginate,
+  formatPage,
   formatMessage,
   formatValidationError,
   buildParams,
@@ -44,12 +53,18 @@ export function registerCommentTools(server: McpServer): void {
           .number()
           .optional()
           .describe("The task ID number within the project"),
+        ...responseShapeSchema,
+        ...paginationSchema,
       }),
+      outputSchema: CommentListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ taskOid, projectId, taskId }, extra) => {
+    async (
+      { taskOid, projectId, taskId, format, fields, limit, cursor },
+      extra
+    ) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -71,7 +86,16 @@ export function registerCommentTools(server: McpServer): void {
         return formatError(result.error, "comment");
       }
 
-      return formatSuccess(result.data);
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        { tool: "listTaskComments", taskOid, projectId, taskId }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return formatPage(paged.page, "comments", "comment", { format, fields });
     }
   );
 
@@ -111,6 +135,7 @@ export function registerCommentTools(server: McpServer): void {
           .optional()
           .describe("Whether to pin this comment. Default: false."),
       }),
+      outputSchema: QuireCommentSchema,
     },
     async (
       { taskOid, projectId, taskId, description, asUser, pinned },
@@ -167,6 +192,7 @@ export function registerCommentTools(server: McpServer): void {
           .optional()
           .describe("Whether the comment is pinned"),
       }),
+      outputSchema: QuireCommentSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -198,6 +224,7 @@ export function registerCommentTools(server: McpServer): void {
           .string()
           .describe("The comment OID (unique identifier) to delete"),
       }),
+      outputSchema: DeleteOidResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -213,7 +240,7 @@ export function registerCommentTools(server: McpServer): void {
         return formatError(result.error, "comment");
       }
 
-      return formatMessage(`Comment ${oid} deleted successfully.`);
+      return formatMessage(`Comment ${oid} deleted successfully.`, result.data);
     }
   );
 
@@ -238,12 +265,18 @@ export function registerCommentTools(server: McpServer): void {
           .string()
           .optional()
           .describe("The chat ID within the project"),
+        ...responseShapeSchema,
+        ...paginationSchema,
       }),
+      outputSchema: CommentListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ chatOid, projectId, chatId }, extra) => {
+    async (
+      { chatOid, projectId, chatId, format, fields, limit, cursor },
+      extra
+    ) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -265,7 +298,16 @@ export function registerCommentTools(server: McpServer): void {
         return formatError(result.error, "comment");
       }
 
-      return formatSuccess(result.data);
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        { tool: "listChatComments", chatOid, projectId, chatId }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return formatPage(paged.page, "comments", "comment", { format, fields });
     }
   );
 
@@ -302,6 +344,7 @@ export function registerCommentTools(server: McpServer): void {
           .optional()
           .describe("Whether to pin this comment. Default: false."),
       }),
+      outputSchema: QuireCommentSchema,
     },
     async (
       { chatOid, projectId, chatId, description, asUser, pinned },
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  acceptDateInput,
+  formatResolvedDates,
+  resolveDateArgs,
+} from "./date-input.js";
+import {
+  createMockExtra,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { DateInputOptions } from "../utils/dates.js";
+
+const options: DateInputOptions = {
+  timeZone: "Europe/Paris",
+  weekStart: 1,
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+describe("resolveDateArgs", () => {
+  it("should resolve relative dates in date fields", () => {
+    const result = resolveDateArgs(
+      { name: "tomorrow", due: "tomorrow", start: "2026-10-01" },
+      options
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        args: { name: "tomorrow", due: "2026-10-20", start: "2026-10-01" },
+        resolved: [{ field: "due", input: "tomorrow", value: "2026-10-20" }],
+      },
+    });
+  });
+
+  it("should resolve date fields in nested objects", () => {
+    const result = resolveDateArgs(
+      { taskOids: ["a"], patch: { start: "+3d", priority: 1 } },
+      options
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        args: { taskOids: ["a"], patch: { start: "2026-10-22", priority: 1 } },
+        resolved: [{ field: "patch.start", input: "+3d", value: "2026-10-22" }],
+      },
+    });
+  });
+
+  it("should return a validation error naming the field", () => {
+    const result = resolveDateArgs({ patch: { due: "someday" } }, options);
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(isErrorResponse(result.response)).toBe(true);
+    expect(extractTextContent(result.response)).toContain(
+      `'patch.due': Unrecognized date "someday"`
+    );
+  });
+});
+
+describe("formatResolvedDates", () => {
+  it("should list each resolved date", () => {
+    expect(
+      formatResolvedDates(
+        [
+          { field: "due", input: "friday 5pm", value: "2026-10-23T15:00:00Z" },
+          { field: "start", input: "today", value: "2026-10-19" },
+        ],
+        "Europe/Paris"
+      )
+    ).toBe(
+      "Resolved dates (Europe/Paris):\n" +
+        '- due: "friday 5pm" → 2026-10-23T15:00:00Z\n' +
+        '- start: "today" → 2026-10-19'
+    );
+  });
+});
+
+describe("acceptDateInput", () => {
+  let server: McpServer;
+  let handlers: Map<
+    string,
+    (args: Record<string, unknown>, extra: unknown) => Promise<unknown>
+  >;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+    handlers = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          _config: unknown,
+          handler: (
+            args: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          handlers.set(name, handler);
+        }
+      ),
+    } as unknown as McpServer;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  function register(
+    callback: (args: Record<string, unknown>) => unknown
+  ): (args: Record<string, unknown>) => Promise<unknown> {
+    acceptDateInput(server).registerTool(
+      "quire.createTask",
+      {
+        description: "Create a task",
+        inputSchema: z.object({ name: z.string(), due: z.string() }),
+      },
+      callback as never
+    );
+    const handler = handlers.get("quire.createTask");
+    if (!handler) throw new Error("Tool not registered");
+    return (args) => handler(args, createMockExtra());
+  }
+
+  it("should pass resolved dates and echo them in the result", async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: "text", text: "{}" }],
+    });
+    const handler = register(callback);
+
+    const result = (await handler({ name: "Ship", due: "tomorrow 5pm" })) as {
+      content: { type: string; text: string }[];
+    };
+
+    expect(callback).toHaveBeenCalledWith(
+      { name: "Ship", due: "2026-10-20T15:00:00Z" },
+      expect.anything()
+    );
+    expect(result.content).toHaveLength(2);
+    expect(result.content[1]?.text).toBe(
+      "Resolved dates (Europe/Paris):\n" +
+        '- due: "tomorrow 5pm" → 2026-10-20T15:00:00Z'
+    );
+  });
+
+  it("should not echo ISO dates or error results", async () => {
+    const ok = { content: [{ type: "text", text: "{}" }] };
+    const error = { isError: true, content: [{ type: "text", text: "no" }] };
+    const callback = vi
+      .fn()
+      .mockResolvedValueOnce(ok)
+      .mockResolvedValueOnce(error);
+    const handler = register(callback);
+
+    expect(await handler({ name: "A", due: "2026-12-31" })).toBe(ok);
+    expect(await handler({ name: "B", due: "friday" })).toBe(error);
+  });
+
+  it("should reject unrecognized dates without calling the tool", async () => {
+    const callback = vi.fn();
+    const handler = register(callback);
+
+    const result = await handler({ name: "A", due: "whenever" });
+
+    expect(isErrorResponse(result as { isError?: boolean })).toBe(true);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("should register tools without input fields unchanged", () => {
+    const callback = vi.fn();
+    acceptDateInput(server).registerTool(
+      "quire.whoami",
+      { description: "Who am I" },
+      callback
+    );
+
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.whoami",
+      { description: "Who am I" },
+      callback
+    );
+  });
+});
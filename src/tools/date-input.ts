@@ -0,0 +1,133 @@
+/**
+ * Date Input
+ *
+ * Lets every tool take natural-language and relative dates ("tomorrow",
+ * "next Friday 5pm", "+3d", "end of month") in its `due` and `start`
+ * fields, including nested ones such as a bulk update patch.
+ * `acceptDateInput()` wraps the server's registerTool so handlers see ISO
+ * dates, and successful results gain a note echoing what each relative
+ * date resolved to, so the model can confirm it.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  getDateInputOptions,
+  parseDateInput,
+  type DateInputOptions,
+} from "../utils/dates.js";
+import { withToolMiddleware, type ToolArgs } from "./middleware.js";
+import type { ResolveResult } from "./resolver.js";
+import { formatValidationError } from "./utils.js";
+
+/** Input fields holding dates */
+const DATE_FIELDS = new Set(["due", "start"]);
+
+/**
+ * Description of the accepted date forms, for date field schemas
+ */
+export const DATE_INPUT_HINT =
+  "ISO 8601 (e.g., '2024-12-31') or a relative date such as 'tomorrow', " +
+  "'next Friday 5pm', '+3d' or 'end of month'";
+
+/**
+ * A date input that resolved to a different value
+ */
+interface ResolvedDate {
+  /** Field path, e.g. "due" or "patch.start" */
+  field: string;
+  input: string;
+  value: string;
+}
+
+function isPlainObject(value: unknown): value is ToolArgs {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve the date fields of tool arguments, descending into nested
+ * objects. Values that are already ISO dates are kept as given.
+ */
+/** @internal Exported for testing */
+export function resolveDateArgs(
+  args: ToolArgs,
+  options: DateInputOptions,
+  path = ""
+): ResolveResult<{ args: ToolArgs; resolved: ResolvedDate[] }> {
+  const resolvedArgs: ToolArgs = { ...args };
+  const resolved: ResolvedDate[] = [];
+
+  for (const [key, value] of Object.entries(args)) {
+    const field = `${path}${key}`;
+    if (isPlainObject(value)) {
+      const nested = resolveDateArgs(value, options, `${field}.`);
+      if (!nested.success) return nested;
+      resolvedArgs[key] = nested.data.args;
+      resolved.push(...nested.data.resolved);
+      continue;
+    }
+    if (!DATE_FIELDS.has(key) || typeof value !== "string") continue;
+
+    const result = parseDateInput(value, options);
+    if (!result.success) {
+      return {
+        success: false,
+        response: formatValidationError(`'${field}': ${result.error}`),
+      };
+    }
+    if (result.value !== value) {
+      resolvedArgs[key] = result.value;
+      resolved.push({ field, input: value, value: result.value });
+    }
+  }
+
+  return { success: true, data: { args: resolvedArgs, resolved } };
+}
+
+/**
+ * Note listing what each relative date resolved to
+ */
+/** @internal Exported for testing */
+export function formatResolvedDates(
+  resolved: ResolvedDate[],
+  timeZone: string
+): string {
+  const lines = resolved.map(
+    ({ field, input, value }) => `- ${field}: "${input}" → ${value}`
+  );
+  return [`Resolved dates (${timeZone}):`, ...lines].join("\n");
+}
+
+/**
+ * Wrap a server so tools registered through it accept relative dates in
+ * their date fields
+ */
+export function acceptDateInput(server: McpServer): McpServer {
+  return withToolMiddleware(server, (handler, fields) => {
+    // Tools without input fields are called without arguments
+    if (fields.length === 0) {
+      return undefined;
+    }
+    return async (args, extra) => {
+      const options = getDateInputOptions();
+      const dates = resolveDateArgs(args, options);
+      if (!dates.success) {
+        return dates.response;
+      }
+
+      const result = await handler(dates.data.args, extra);
+      if (result.isError || dates.data.resolved.length === 0) {
+        return result;
+      }
+      return {
+        ...result,
+        content: [
+          ...result.content,
+          {
+            type: "text" as const,
+            text: formatResolvedDates(dates.data.resolved, options.timeZone),
+          },
+        ],
+      };
+    };
+  });
+}
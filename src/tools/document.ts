@@ -7,14 +7,25 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import {
+  DeleteOidResponseSchema,
+  QuireDocumentSchema,
+} from "../quire/schemas.js";
+import {
+  DocumentOutputSchema,
+  DocumentListOutputSchema,
+} from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  formatProjected,
+  responseShapeSchema,
   formatMessage,
   formatValidationError,
   buildParams,
 } from "./utils.js";
+import { DATE_INPUT_HINT } from "./date-input.js";
 
 /**
  * Register all document tools with the MCP server
@@ -62,12 +73,13 @@ export function registerDocumentTools(server: McpServer): void {
         start: z
           .string()
           .optional()
-          .describe("Target start date (ISO 8601 format, e.g., '2024-01-02')"),
+          .describe(`Target start date: ${DATE_INPUT_HINT}`),
         due: z
           .string()
           .optional()
-          .describe("Target due date (ISO 8601 format, e.g., '2024-05-25')"),
+          .describe(`Target due date: ${DATE_INPUT_HINT}`),
       }),
+      outputSchema: QuireDocumentSchema,
     },
     async (
       {
@@ -138,12 +150,14 @@ export function registerDocumentTools(server: McpServer): void {
           .string()
           .optional()
           .describe("The document ID within the owner"),
+        ...responseShapeSchema,
       }),
+      outputSchema: DocumentOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ oid, ownerType, ownerId, documentId }, extra) => {
+    async ({ oid, ownerType, ownerId, documentId, format, fields }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -169,7 +183,7 @@ export function registerDocumentTools(server: McpServer): void {
         return formatError(result.error, "document");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(result.data, "document", { format, fields });
     }
   );
 
@@ -188,12 +202,14 @@ export function registerDocumentTools(server: McpServer): void {
         ownerId: z
           .string()
           .describe("The owner ID (e.g., 'my-org' or 'my-project') or OID"),
+        ...responseShapeSchema,
       }),
+      outputSchema: DocumentListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ ownerType, ownerId }, extra) => {
+    async ({ ownerType, ownerId, format, fields }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -207,7 +223,12 @@ export function registerDocumentTools(server: McpServer): void {
         return formatError(result.error, "document");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(
+        result.data,
+        "document",
+        { format, fields },
+        (documents) => ({ documents })
+      );
     }
   );
 
@@ -255,11 +276,11 @@ export function registerDocumentTools(server: McpServer): void {
         start: z
           .string()
           .optional()
-          .describe("Target start date (ISO 8601 format, e.g., '2024-01-02')"),
+          .describe(`Target start date: ${DATE_INPUT_HINT}`),
         due: z
           .string()
           .optional()
-          .describe("Target due date (ISO 8601 format, e.g., '2024-05-25')"),
+          .describe(`Target due date: ${DATE_INPUT_HINT}`),
         image: z
           .string()
           .optional()
@@ -267,6 +288,7 @@ export function registerDocumentTools(server: McpServer): void {
             "Icon image identifier (e.g., 'icon-view-list', 'icon-briefcase-o', etc.)"
           ),
       }),
+      outputSchema: QuireDocumentSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -355,6 +377,7 @@ export function registerDocumentTools(server: McpServer): void {
           .optional()
           .describe("The document ID within the owner to delete"),
       }),
+      outputSchema: DeleteOidResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -386,7 +409,10 @@ export function registerDocumentTools(server: McpServer): void {
       }
 
       const identifier = oid ?? `${ownerType}/${ownerId}/${documentId}`;
-      return formatMessage(`Document ${identifier} deleted successfully.`);
+      return formatMessage(
+        `Document ${identifier} deleted successfully.`,
+        result.data
+      );
     }
   );
 }
@@ -0,0 +1,481 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerImportTool } from "./import.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+interface ToolResult {
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+}
+
+interface ImportReport {
+  projectId: string;
+  total: number;
+  created: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+  stoppedEarly: boolean;
+  stopReason?: string;
+  warnings: string[];
+  rows: {
+    row: number;
+    sourceId?: string;
+    name: string;
+    parentRow?: number;
+    result: string;
+    oid?: string;
+    error?: string;
+  }[];
+}
+
+describe("quire.importTasks tool", () => {
+  let server: McpServer;
+  let registeredTools: Map<
+    string,
+    {
+      description: string;
+      handler: (
+        params: Record<string, unknown>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredTools = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          config: { description: string },
+          handler: (
+            params: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredTools.set(name, {
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerImportTool(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>,
+    extra = createMockExtra({ quireToken: "token" })
+  ): Promise<ToolResult> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient(overrides),
+    });
+    const tool = registeredTools.get("quire.importTasks");
+    if (!tool) throw new Error("quire.importTasks not registered");
+    return (await tool.handler(params, extra)) as ToolResult;
+  }
+
+  function parseReport(result: ToolResult): ImportReport {
+    return JSON.parse(extractTextContent(result)) as ImportReport;
+  }
+
+  /** createTask mock that numbers created tasks in call order */
+  function createTaskMock(): ReturnType<typeof vi.fn> {
+    let next = 0;
+    return vi.fn((_parent: string, params: { name: string }) => {
+      next++;
+      return Promise.resolve({
+        success: true,
+        data: { oid: `oid-${next}`, id: next, name: params.name },
+      });
+    });
+  }
+
+  it("should register the quire.importTasks tool", () => {
+    expect(server.registerTool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has("quire.importTasks")).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const tool = registeredTools.get("quire.importTasks");
+    if (!tool) return;
+    const result = (await tool.handler(
+      { projectId: "p", format: "markdown", content: "- Task" },
+      createMockExtra()
+    )) as ToolResult;
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+
+  it("should reject content without tasks", async () => {
+    const markdown = await callTool({
+      projectId: "p",
+      format: "markdown",
+      content: "# Just a heading\n",
+    });
+    expect(isErrorResponse(markdown)).toBe(true);
+    expect(extractTextContent(markdown)).toContain("No tasks found");
+
+    const csv = await callTool({ projectId: "p", format: "csv", content: "" });
+    expect(isErrorResponse(csv)).toBe(true);
+    expect(extractTextContent(csv)).toContain("CSV content is empty");
+  });
+
+  it("should reject content with too many tasks", async () => {
+    const content = Array.from({ length: 501 }, (_, i) => `- Task ${i}`).join(
+      "\n"
+    );
+
+    const result = await callTool({
+      projectId: "p",
+      format: "markdown",
+      content,
+    });
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("501 tasks");
+  });
+
+  describe("markdown", () => {
+    it("should create nested tasks under their parents", async () => {
+      const createTask = createTaskMock();
+      const content = [
+        "# Launch plan",
+        "- [ ] Design due:2025-03-01 !high",
+        "  Initial mockups",
+        "  - [x] Wireframes @alice",
+        "  - Review start:2025-02-01 priority:low",
+        "",
+        "Notes that belong to no task",
+        "## Build phase",
+        "More loose notes",
+        "* Build status:50",
+        "\t+ Backend",
+      ].join("\n");
+
+      const result = await callTool(
+        { projectId: "my-project", format: "markdown", content },
+        { createTask } as unknown as Partial<QuireClient>
+      );
+      const report = parseReport(result);
+
+      expect(createTask).toHaveBeenNthCalledWith(1, "my-project", {
+        name: "Design",
+        description: "Initial mockups",
+        due: "2025-03-01",
+        priority: 1,
+      });
+      expect(createTask).toHaveBeenNthCalledWith(2, "oid-1", {
+        name: "Wireframes",
+        status: 100,
+        assignees: ["alice"],
+      });
+      expect(createTask).toHaveBeenNthCalledWith(3, "oid-1", {
+        name: "Review",
+        start: "2025-02-01",
+        priority: -1,
+      });
+      expect(createTask).toHaveBeenNthCalledWith(4, "my-project", {
+        name: "Build",
+        status: 50,
+      });
+      expect(createTask).toHaveBeenNthCalledWith(5, "oid-4", {
+        name: "Backend",
+      });
+      expect(report).toMatchObject({
+        projectId: "my-project",
+        total: 5,
+        created: 5,
+        stoppedEarly: false,
+        warnings: [],
+      });
+      expect(report.rows[1]).toMatchObject({
+        row: 4,
+        name: "Wireframes",
+        parentRow: 2,
+        result: "created",
+        oid: "oid-2",
+      });
+    });
+
+    it("should import under parentTaskOid when given", async () => {
+      const createTask = createTaskMock();
+
+      await callTool(
+        {
+          projectId: "p",
+          format: "markdown",
+          content: "- One\n  - Two",
+          parentTaskOid: "parent-oid",
+        },
+        { createTask } as unknown as Partial<QuireClient>
+      );
+
+      expect(createTask).toHaveBeenNthCalledWith(1, "parent-oid", {
+        name: "One",
+      });
+      expect(createTask).toHaveBeenNthCalledWith(2, "oid-1", { name: "Two" });
+    });
+
+    it("should map status and tag names to project values", async () => {
+      const createTask = createTaskMock();
+      const listStatuses = vi.fn().mockResolvedValueOnce({
+        success: true,
+        data: [{ value: 50, name: "Doing", color: "" }],
+      });
+      const listTags = vi.fn().mockResolvedValueOnce({
+        success: true,
+        data: [
+          { id: 7, oid: "t7", name: "Bug" },
+          { oid: "t-none", name: "NoId" },
+        ],
+      });
+
+      const result = await callTool(
+        {
+          projectId: "p",
+          format: "markdown",
+          content:
+            "- Fix login status:doing #bug #missing\n- Other status:Unknown priority:huge",
+        },
+        {
+          createTask,
+          listStatuses,
+          listTags,
+        } as unknown as Partial<QuireClient>
+      );
+
+      expect(listStatuses).toHaveBeenCalledWith("p");
+      expect(listTags).toHaveBeenCalledWith("p");
+      expect(createTask).toHaveBeenNthCalledWith(1, "p", {
+        name: "Fix login",
+        status: 50,
+        tags: [7],
+      });
+      expect(createTask).toHaveBeenNthCalledWith(2, "p", { name: "Other" });
+      expect(parseReport(result).warnings).toEqual([
+        "Row 1: tag 'missing' not found in project",
+        "Row 2: unknown status 'Unknown'",
+        "Row 2: unknown priority 'huge'",
+      ]);
+    });
+
+    it("should not fetch lookups when no row needs them", async () => {
+      const listStatuses = vi.fn();
+      const listTags = vi.fn();
+
+      await callTool(
+        { projectId: "p", format: "markdown", content: "- A status:100" },
+        { listStatuses, listTags } as unknown as Partial<QuireClient>
+      );
+
+      expect(listStatuses).not.toHaveBeenCalled();
+      expect(listTags).not.toHaveBeenCalled();
+    });
+
+    it("should return lookup errors", async () => {
+      const statuses = await callTool(
+        { projectId: "gone", format: "markdown", content: "- A status:Doing" },
+        { listStatuses: vi.fn().mockResolvedValueOnce(mockErrors.notFound()) }
+      );
+      expect(isErrorResponse(statuses)).toBe(true);
+      expect(extractTextContent(statuses)).toContain("project was not found");
+
+      const tags = await callTool(
+        { projectId: "gone", format: "markdown", content: "- A #bug" },
+        { listTags: vi.fn().mockResolvedValueOnce(mockErrors.forbidden()) }
+      );
+      expect(isErrorResponse(tags)).toBe(true);
+    });
+  });
+
+  describe("csv", () => {
+    it("should resolve Parent ID references in any row order", async () => {
+      const createTask = createTaskMock();
+      const content = [
+        "ID,Name,Description,Status,Priority,Start,Due,Assignees,Tags,Parent ID",
+        '2,Wireframes,"Low, then high fidelity",100,,,,alice;bob,,1',
+        "1,Design,,,urgent,2025-01-01,2025-03-01,,,",
+        ",,,,,,,,,",
+        "3,Orphan,,,,,,,,99",
+      ].join("\n");
+
+      const result = await callTool(
+        { projectId: "p", format: "csv", content },
+        { createTask } as unknown as Partial<QuireClient>
+      );
+      const report = parseReport(result);
+
+      expect(createTask).toHaveBeenNthCalledWith(1, "p", {
+        name: "Design",
+        start: "2025-01-01",
+        due: "2025-03-01",
+        priority: 2,
+      });
+      expect(createTask).toHaveBeenNthCalledWith(2, "oid-1", {
+        name: "Wireframes",
+        description: "Low, then high fidelity",
+        status: 100,
+        assignees: ["alice", "bob"],
+      });
+      expect(createTask).toHaveBeenNthCalledWith(3, "p", { name: "Orphan" });
+      expect(report.created).toBe(3);
+      expect(report.rows.map((r) => r.sourceId)).toEqual(["2", "1", "3"]);
+      expect(report.warnings).toEqual([
+        "Row 3: skipped, no name",
+        "Row 4: parent '99' not found, imported as a root task",
+      ]);
+    });
+
+    it("should match columns by header name", async () => {
+      const createTask = createTaskMock();
+
+      await callTool(
+        { projectId: "p", format: "csv", content: "Due,NAME\n2025-05-05,Ship" },
+        { createTask } as unknown as Partial<QuireClient>
+      );
+
+      expect(createTask).toHaveBeenCalledWith("p", {
+        name: "Ship",
+        due: "2025-05-05",
+      });
+    });
+
+    it("should import rows in a parent cycle as root tasks", async () => {
+      const createTask = createTaskMock();
+
+      const result = await callTool(
+        {
+          projectId: "p",
+          format: "csv",
+          content: "ID,Name,Parent ID\na,A,b\nb,B,a\nc,C,c",
+        },
+        { createTask } as unknown as Partial<QuireClient>
+      );
+
+      expect(createTask).toHaveBeenNthCalledWith(1, "p", { name: "C" });
+      expect(createTask).toHaveBeenNthCalledWith(2, "p", { name: "A" });
+      expect(createTask).toHaveBeenNthCalledWith(3, "oid-2", { name: "B" });
+      expect(parseReport(result).warnings).toEqual([
+        "Row 3: parent 'c' not found, imported as a root task",
+      ]);
+    });
+
+    it("should require a Name column", async () => {
+      const result = await callTool({
+        projectId: "p",
+        format: "csv",
+        content: "ID,Title\n1,Task",
+      });
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain("'Name' column");
+    });
+  });
+
+  it("should skip children of tasks that failed", async () => {
+    const createTask = vi
+      .fn()
+      .mockResolvedValueOnce(mockErrors.forbidden())
+      .mockResolvedValueOnce({
+        success: true,
+        data: { oid: "oid-b", id: 2, name: "B" },
+      });
+
+    const result = await callTool(
+      { projectId: "p", format: "markdown", content: "- A\n  - A1\n- B" },
+      { createTask } as unknown as Partial<QuireClient>
+    );
+    const report = parseReport(result);
+
+    expect(createTask).toHaveBeenCalledTimes(2);
+    expect(report).toMatchObject({ created: 1, failed: 1, skipped: 1 });
+    expect(report.rows[0]?.error).toContain("FORBIDDEN");
+    expect(report.rows[1]).toMatchObject({
+      result: "skipped",
+      error: "Parent row 1 was not created",
+    });
+  });
+
+  it("should stop at a rate limit and report pending rows", async () => {
+    const createTask = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: { oid: "oid-1", id: 1, name: "A" },
+      })
+      .mockResolvedValueOnce(mockErrors.rateLimited());
+
+    const result = await callTool(
+      { projectId: "p", format: "markdown", content: "- A\n- B\n- C" },
+      { createTask } as unknown as Partial<QuireClient>
+    );
+    const report = parseReport(result);
+
+    expect(createTask).toHaveBeenCalledTimes(2);
+    expect(report).toMatchObject({
+      created: 1,
+      pending: 2,
+      stoppedEarly: true,
+    });
+    expect(report.stopReason).toContain("rate limit");
+    expect(report.rows.map((r) => r.result)).toEqual([
+      "created",
+      "pending",
+      "pending",
+    ]);
+  });
+
+  it("should send progress notifications when progressToken is provided", async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const extra = createMockExtra({ quireToken: "token" });
+    extra._meta = { progressToken: "import-progress" };
+    extra.sendNotification = sendNotification;
+
+    await callTool(
+      { projectId: "p", format: "markdown", content: "- A\n- B" },
+      { createTask: createTaskMock() } as unknown as Partial<QuireClient>,
+      extra
+    );
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(sendNotification).toHaveBeenLastCalledWith({
+      method: "notifications/progress",
+      params: {
+        progressToken: "import-progress",
+        progress: 2,
+        total: 2,
+        message: "Processed 2 of 2 tasks",
+      },
+    });
+  });
+});
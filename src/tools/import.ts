@@ -0,0 +1,552 @@
+/**
+ * quire.importTasks Tool
+ *
+ * Create a task hierarchy from a nested markdown checklist or from CSV in
+ * the layout produced by `quire.exportProject`. Status, priority, tag and
+ * date fields are mapped onto the project's real status values and tag IDs.
+ *
+ * Tasks are created one at a time, parents before children, so sibling
+ * order matches the source. If Quire reports a rate limit partway, the
+ * import stops and reports which rows were created and which are pending.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { QuireClient } from "../quire/client.js";
+import type { CreateTaskParams, QuireResult } from "../quire/types.js";
+import { IMPORT_MAX_TASKS } from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import { parseCsv } from "../utils/csv.js";
+import {
+  formatError,
+  formatAuthError,
+  formatSuccess,
+  formatValidationError,
+} from "./utils.js";
+
+/**
+ * A task parsed from the import source
+ */
+interface ImportRow {
+  /** Source position: line number (markdown) or data row number (CSV) */
+  row: number;
+  /** Value of the CSV ID column, used to resolve Parent ID references */
+  sourceId?: string;
+  parentRow?: number;
+  name: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  start?: string;
+  due?: string;
+  assignees: string[];
+  tags: string[];
+}
+
+/**
+ * Import outcome for one source row
+ */
+interface ImportRowResult {
+  row: number;
+  sourceId?: string;
+  name: string;
+  parentRow?: number;
+  result: "created" | "failed" | "skipped" | "pending";
+  oid?: string;
+  id?: number;
+  error?: string;
+}
+
+/**
+ * Structured output: totals plus the outcome of every source row
+ */
+const ImportOutputSchema = z.object({
+  projectId: z.string(),
+  total: z.number(),
+  created: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  pending: z.number(),
+  stoppedEarly: z.boolean(),
+  stopReason: z.string().optional(),
+  warnings: z.array(z.string()),
+  rows: z.array(
+    z.object({
+      row: z.number(),
+      sourceId: z.string().optional(),
+      name: z.string(),
+      parentRow: z.number().optional(),
+      result: z.enum(["created", "failed", "skipped", "pending"]),
+      oid: z.string().optional(),
+      id: z.number().optional(),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+/** Priority names accepted in import sources */
+const PRIORITY_VALUES: Record<string, number> = {
+  low: -1,
+  medium: 0,
+  high: 1,
+  urgent: 2,
+};
+
+/** Status value Quire treats as complete */
+const COMPLETED_STATUS = 100;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a list cell such as "alice;bob" into trimmed values
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(/[;,]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Extract inline metadata tokens from a markdown item:
+ * `due:2025-01-31`, `start:…`, `status:Doing`, `priority:high` or `!high`,
+ * `@assignee` and `#tag`. Returns the remaining text as the task name.
+ */
+function parseInlineTokens(
+  text: string
+): Omit<ImportRow, "row" | "sourceId" | "parentRow"> {
+  const fields: Omit<ImportRow, "row" | "sourceId" | "parentRow" | "name"> = {
+    assignees: [],
+    tags: [],
+  };
+  const name = text
+    .replace(
+      /(^|\s)(due|start|status|priority):(\S+)/gi,
+      (_match, lead: string, key: string, value: string) => {
+        const field = key.toLowerCase() as
+          | "due"
+          | "start"
+          | "status"
+          | "priority";
+        fields[field] = value;
+        return lead;
+      }
+    )
+    .replace(
+      /(^|\s)!(low|medium|high|urgent)\b/gi,
+      (_match, lead: string, value: string) => {
+        fields.priority = value;
+        return lead;
+      }
+    )
+    .replace(/(^|\s)@(\S+)/g, (_match, lead: string, value: string) => {
+      fields.assignees.push(value);
+      return lead;
+    })
+    .replace(/(^|\s)#(\S+)/g, (_match, lead: string, value: string) => {
+      fields.tags.push(value);
+      return lead;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return { ...fields, name };
+}
+
+/**
+ * Parse a nested markdown list. Nesting follows indentation; `[x]` marks a
+ * completed task. Non-list lines right under an item become its description;
+ * blank lines and headings end it.
+ */
+function parseMarkdownOutline(content: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  const stack: { indent: number; row: number }[] = [];
+  let last: ImportRow | undefined;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const item = /^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/.exec(line);
+    if (!item) {
+      const text = line.trim();
+      if (!text || text.startsWith("#")) {
+        // Blank lines and headings end the description of the last item
+        last = undefined;
+      } else if (last) {
+        last.description = last.description
+          ? `${last.description}\n${text}`
+          : text;
+      }
+      return;
+    }
+
+    const indent = (item[1] ?? "").replace(/\t/g, "    ").length;
+    while (stack.length > 0 && (stack.at(-1)?.indent ?? 0) >= indent) {
+      stack.pop();
+    }
+
+    const parsed = parseInlineTokens(item[3] ?? "");
+    const row: ImportRow = { ...parsed, row: index + 1 };
+    const parent = stack.at(-1);
+    if (parent) row.parentRow = parent.row;
+    if (item[2]?.toLowerCase() === "x") row.status = String(COMPLETED_STATUS);
+
+    stack.push({ indent, row: row.row });
+    rows.push(row);
+    last = row;
+  });
+
+  return rows.filter((row) => row.name.length > 0);
+}
+
+/**
+ * Parse CSV in the exportProject layout. Columns are matched by header name
+ * (case-insensitive), so extra or reordered columns are tolerated.
+ */
+function parseCsvRows(
+  content: string,
+  warnings: string[]
+): ImportRow[] | string {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    return "CSV content is empty";
+  }
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const nameIndex = columns.indexOf("name");
+  if (nameIndex < 0) {
+    return "CSV header must include a 'Name' column";
+  }
+  const cell = (record: string[], column: string): string | undefined => {
+    const index = columns.indexOf(column);
+    const value = index >= 0 ? record[index]?.trim() : undefined;
+    return value === "" ? undefined : value;
+  };
+
+  const rows: ImportRow[] = [];
+  const parentIds = new Map<ImportRow, string>();
+  records.forEach((record, index) => {
+    const name = cell(record, "name");
+    if (!name) {
+      warnings.push(`Row ${index + 1}: skipped, no name`);
+      return;
+    }
+    const sourceId = cell(record, "id");
+    const description = cell(record, "description");
+    const status = cell(record, "status");
+    const priority = cell(record, "priority");
+    const start = cell(record, "start");
+    const due = cell(record, "due");
+    const row: ImportRow = {
+      row: index + 1,
+      name,
+      assignees: splitList(cell(record, "assignees")),
+      tags: splitList(cell(record, "tags")),
+      ...(sourceId !== undefined && { sourceId }),
+      ...(description !== undefined && { description }),
+      ...(status !== undefined && { status }),
+      ...(priority !== undefined && { priority }),
+      ...(start !== undefined && { start }),
+      ...(due !== undefined && { due }),
+    };
+    const parentId = cell(record, "parent id");
+    if (parentId) parentIds.set(row, parentId);
+    rows.push(row);
+  });
+
+  // Resolve Parent ID references once every row's ID is known
+  const bySourceId = new Map(
+    rows
+      .filter((row) => row.sourceId !== undefined)
+      .map((row) => [row.sourceId, row])
+  );
+  for (const [row, parentId] of parentIds) {
+    const parent = bySourceId.get(parentId);
+    if (parent && parent !== row) {
+      row.parentRow = parent.row;
+    } else {
+      warnings.push(
+        `Row ${row.row}: parent '${parentId}' not found, imported as a root task`
+      );
+    }
+  }
+  return rows;
+}
+
+/**
+ * Order rows so every parent is created before its children, keeping
+ * source order among siblings. Rows in a parent cycle are imported as roots.
+ */
+function orderForCreation(rows: ImportRow[]): ImportRow[] {
+  const byRow = new Map(rows.map((row) => [row.row, row]));
+  const children = new Map<number | undefined, ImportRow[]>();
+  for (const row of rows) {
+    const key =
+      row.parentRow !== undefined && byRow.has(row.parentRow)
+        ? row.parentRow
+        : undefined;
+    children.set(key, [...(children.get(key) ?? []), row]);
+  }
+
+  const ordered: ImportRow[] = [];
+  const visited = new Set<number>();
+  const visit = (row: ImportRow): void => {
+    if (visited.has(row.row)) return;
+    visited.add(row.row);
+    ordered.push(row);
+    for (const child of children.get(row.row) ?? []) visit(child);
+  };
+  for (const root of children.get(undefined) ?? []) visit(root);
+  // Anything unreached is part of a cycle
+  for (const row of rows) {
+    if (!visited.has(row.row)) {
+      delete row.parentRow;
+      visit(row);
+    }
+  }
+  return ordered;
+}
+
+// ---------------------------------------------------------------------------
+// Field Mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Lookup tables for the target project's statuses and tags
+ */
+interface ProjectLookups {
+  statuses: Map<string, number>;
+  tags: Map<string, number>;
+}
+
+/**
+ * Fetch the project's statuses and tags, only when some row needs them
+ */
+async function loadLookups(
+  client: QuireClient,
+  projectId: string,
+  rows: ImportRow[]
+): Promise<QuireResult<ProjectLookups>> {
+  const lookups: ProjectLookups = { statuses: new Map(), tags: new Map() };
+
+  if (rows.some((row) => row.status && !/^\d+$/.test(row.status))) {
+    const result = await client.listStatuses(projectId);
+    if (!result.success) return result;
+    for (const status of result.data) {
+      lookups.statuses.set(status.name.toLowerCase(), status.value);
+    }
+  }
+  if (rows.some((row) => row.tags.length > 0)) {
+    const result = await client.listTags(projectId);
+    if (!result.success) return result;
+    for (const tag of result.data) {
+      if (tag.id !== undefined) {
+        lookups.tags.set(tag.name.toLowerCase(), tag.id);
+      }
+    }
+  }
+  return { success: true, data: lookups };
+}
+
+/**
+ * Map a parsed row to createTask parameters, collecting warnings for
+ * values that do not match the project
+ */
+function toCreateParams(
+  row: ImportRow,
+  lookups: ProjectLookups,
+  warnings: string[]
+): CreateTaskParams {
+  const params: CreateTaskParams = { name: row.name };
+  if (row.description) params.description = row.description;
+  if (row.start) params.start = row.start;
+  if (row.due) params.due = row.due;
+  if (row.assignees.length > 0) params.assignees = row.assignees;
+
+  if (row.status) {
+    const value = /^\d+$/.test(row.status)
+      ? Number(row.status)
+      : lookups.statuses.get(row.status.toLowerCase());
+    if (value !== undefined && value >= 0 && value <= COMPLETED_STATUS) {
+      params.status = value;
+    } else {
+      warnings.push(`Row ${row.row}: unknown status '${row.status}'`);
+    }
+  }
+
+  if (row.priority) {
+    const value = /^-?\d+$/.test(row.priority)
+      ? Number(row.priority)
+      : PRIORITY_VALUES[row.priority.toLowerCase()];
+    if (value !== undefined && value >= -1 && value <= 2) {
+      params.priority = value;
+    } else {
+      warnings.push(`Row ${row.row}: unknown priority '${row.priority}'`);
+    }
+  }
+
+  const tagIds: number[] = [];
+  for (const tag of row.tags) {
+    const id = lookups.tags.get(tag.toLowerCase());
+    if (id === undefined) {
+      warnings.push(`Row ${row.row}: tag '${tag}' not found in project`);
+    } else {
+      tagIds.push(id);
+    }
+  }
+  if (tagIds.length > 0) params.tags = tagIds;
+
+  return params;
+}
+
+// ---------------------------------------------------------------------------
+// Tool Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Register the quire.importTasks tool
+ */
+export function registerImportTool(server: McpServer): void {
+  server.registerTool(
+    "quire.importTasks",
+    {
+      description:
+        "Import tasks into a project from a nested markdown checklist or CSV. " +
+        "Markdown: one '- [ ] Task' per line, nested by indentation; '[x]' " +
+        "marks a task completed and inline tokens set fields " +
+        "(due:2025-01-31, start:…, status:Name, !high, @userId, #tag). " +
+        "CSV: the layout produced by quire.exportProject (ID, Name, " +
+        "Description, Status, Priority, Start, Due, Assignees, Tags, " +
+        "Parent ID). Status and tag names are mapped to the project's " +
+        "values. Returns each source row with its created task OID. " +
+        `At most ${IMPORT_MAX_TASKS} tasks per call.`,
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe(
+            "The project ID (e.g., 'my-project') or OID to import into"
+          ),
+        format: z.enum(["markdown", "csv"]).describe("Format of the content"),
+        content: z.string().describe("The markdown outline or CSV text"),
+        parentTaskOid: z
+          .string()
+          .optional()
+          .describe(
+            "Task OID to import under (optional). " +
+              "If not provided, top-level rows become root tasks."
+          ),
+      }),
+      outputSchema: ImportOutputSchema,
+    },
+    async ({ projectId, format, content, parentTaskOid }, extra) => {
+      const warnings: string[] = [];
+      const parsed =
+        format === "csv"
+          ? parseCsvRows(content, warnings)
+          : parseMarkdownOutline(content);
+      if (typeof parsed === "string") {
+        return formatValidationError(parsed);
+      }
+      if (parsed.length === 0) {
+        return formatValidationError("No tasks found in content");
+      }
+      if (parsed.length > IMPORT_MAX_TASKS) {
+        return formatValidationError(
+          `Content has ${parsed.length} tasks; import at most ${IMPORT_MAX_TASKS} per call`
+        );
+      }
+
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const { client } = clientResult;
+
+      const lookupResult = await loadLookups(client, projectId, parsed);
+      if (!lookupResult.success) {
+        return formatError(lookupResult.error, "project");
+      }
+      const lookups = lookupResult.data;
+
+      const progressToken = extra._meta?.progressToken;
+      const sendProgress = async (progress: number): Promise<void> => {
+        if (progressToken) {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress,
+              total: parsed.length,
+              message: `Processed ${progress} of ${parsed.length} tasks`,
+            },
+          });
+        }
+      };
+
+      const rows = orderForCreation(parsed);
+      const entries = rows.map((row) => {
+        const entry: ImportRowResult = {
+          row: row.row,
+          ...(row.sourceId !== undefined && { sourceId: row.sourceId }),
+          name: row.name,
+          ...(row.parentRow !== undefined && { parentRow: row.parentRow }),
+          result: "pending",
+        };
+        return { row, entry };
+      });
+      const results = new Map(
+        entries.map(({ row, entry }) => [row.row, entry])
+      );
+
+      let stopReason: string | undefined;
+      let processed = 0;
+      for (const { row, entry } of entries) {
+        const parent =
+          row.parentRow !== undefined ? results.get(row.parentRow) : undefined;
+        if (parent && !parent.oid) {
+          entry.result = "skipped";
+          entry.error = `Parent row ${parent.row} was not created`;
+          continue;
+        }
+
+        const target = parent?.oid ?? parentTaskOid ?? projectId;
+        const created = await client.createTask(
+          target,
+          toCreateParams(row, lookups, warnings)
+        );
+        if (created.success) {
+          entry.result = "created";
+          entry.oid = created.data.oid;
+          entry.id = created.data.id;
+        } else if (created.error.code === "RATE_LIMITED") {
+          stopReason =
+            "Quire rate limit reached; remaining rows were not imported. " +
+            "Wait, then import the pending rows.";
+          break;
+        } else {
+          entry.result = "failed";
+          entry.error = `${created.error.code}: ${created.error.message}`;
+        }
+        processed++;
+        await sendProgress(processed);
+      }
+
+      const report = entries
+        .map(({ entry }) => entry)
+        .sort((a, b) => a.row - b.row);
+      const count = (result: ImportRowResult["result"]): number =>
+        report.filter((r) => r.result === result).length;
+
+      return formatSuccess({
+        projectId,
+        total: report.length,
+        created: count("created"),
+        failed: count("failed"),
+        skipped: count("skipped"),
+        pending: count("pending"),
+        stoppedEarly: stopReason !== undefined,
+        ...(stopReason && { stopReason }),
+        warnings,
+        rows: report,
+      });
+    }
+  );
+}
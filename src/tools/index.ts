@@ -20,24 +20,56 @@ import { registerChatTools } from "./chat.js";
 import { registerStorageTools } from "./storage.js";
 import { registerNotificationTools } from "./notification.js";
 import { registerAttachmentTools } from "./attachment.js";
+import { registerRateLimitTool } from "./rate-limit.js";
+import { registerCacheTool } from "./cache.js";
+import { registerBulkUpdateTool } from "./bulk-update.js";
+import { registerImportTool } from "./import.js";
+import { registerCloneProjectTool } from "./clone-project.js";
+import { registerQueryTasksTool } from "./query-tasks.js";
+import { registerMyTasksTool } from "./my-tasks.js";
+import { registerWorkloadReportTool } from "./workload.js";
+import { registerProjectMetricsTool } from "./project-metrics.js";
+import { registerSnapshotTools } from "./snapshot.js";
+import { registerRecentEventsTool } from "./recent-events.js";
+import { registerMirrorTools } from "./mirror.js";
+import { registerSearchTool } from "./search.js";
+import { acceptQuireUrls } from "./url-input.js";
+import { acceptDateInput } from "./date-input.js";
 
 /**
  * Register all tools with the MCP server
  */
 export function registerTools(server: McpServer): void {
-  registerWhoamiTool(server);
-  registerOrganizationTools(server);
-  registerProjectTools(server);
-  registerTaskTools(server);
-  registerTagTools(server);
-  registerCommentTools(server);
-  registerUserTools(server);
-  registerStatusTools(server);
-  registerPartnerTools(server);
-  registerDocumentTools(server);
-  registerSublistTools(server);
-  registerChatTools(server);
-  registerStorageTools(server);
-  registerNotificationTools(server);
-  registerAttachmentTools(server);
+  // Every tool accepts Quire web links in its ID and OID fields and
+  // relative dates in its date fields
+  const tools = acceptDateInput(acceptQuireUrls(server));
+
+  registerWhoamiTool(tools);
+  registerOrganizationTools(tools);
+  registerProjectTools(tools);
+  registerTaskTools(tools);
+  registerTagTools(tools);
+  registerCommentTools(tools);
+  registerUserTools(tools);
+  registerStatusTools(tools);
+  registerPartnerTools(tools);
+  registerDocumentTools(tools);
+  registerSublistTools(tools);
+  registerChatTools(tools);
+  registerStorageTools(tools);
+  registerNotificationTools(tools);
+  registerAttachmentTools(tools);
+  registerRateLimitTool(tools);
+  registerCacheTool(tools);
+  registerBulkUpdateTool(tools);
+  registerImportTool(tools);
+  registerCloneProjectTool(tools);
+  registerQueryTasksTool(tools);
+  registerMyTasksTool(tools);
+  registerWorkloadReportTool(tools);
+  registerProjectMetricsTool(tools);
+  registerSnapshotTools(tools);
+  registerRecentEventsTool(tools);
+  registerMirrorTools(tools);
+  registerSearchTool(tools);
 }
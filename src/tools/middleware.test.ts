@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { withToolMiddleware } from "./middleware.js";
+
+function createServer(): McpServer {
+  return {
+    registerTool: vi.fn(),
+    registerResource: vi.fn(),
+  } as unknown as McpServer;
+}
+
+describe("withToolMiddleware", () => {
+  it("should pass the input field names and tool name and register the wrapped handler", () => {
+    const server = createServer();
+    const wrapped = vi.fn();
+    const middleware = vi.fn(() => wrapped);
+    const callback = vi.fn();
+
+    withToolMiddleware(server, middleware).registerTool(
+      "quire.getTask",
+      {
+        inputSchema: z.object({ projectId: z.string(), taskId: z.number() }),
+      },
+      callback
+    );
+
+    expect(middleware).toHaveBeenCalledWith(
+      callback,
+      ["projectId", "taskId"],
+      "quire.getTask"
+    );
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.getTask",
+      expect.any(Object),
+      wrapped
+    );
+  });
+
+  it("should read raw shapes and tools without an input schema", () => {
+    const server = createServer();
+    const middleware = vi.fn(() => undefined);
+    const tools = withToolMiddleware(server, middleware);
+    const callback = vi.fn();
+
+    tools.registerTool(
+      "quire.deleteTask",
+      { inputSchema: { oid: z.string() } },
+      callback
+    );
+    tools.registerTool("quire.whoami", {}, callback);
+
+    expect(middleware).toHaveBeenNthCalledWith(
+      1,
+      callback,
+      ["oid"],
+      "quire.deleteTask"
+    );
+    expect(middleware).toHaveBeenNthCalledWith(2, callback, [], "quire.whoami");
+    expect(server.registerTool).toHaveBeenLastCalledWith(
+      "quire.whoami",
+      {},
+      callback
+    );
+  });
+
+  it("should inherit other server methods", () => {
+    const server = createServer();
+    const tools = withToolMiddleware(server, () => undefined);
+
+    expect(tools.registerResource).toBe(server.registerResource);
+  });
+});
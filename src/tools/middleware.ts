@@ -0,0 +1,70 @@
+/**
+ * Tool Middleware
+ *
+ * Wraps a server's registerTool so every handler registered through it can
+ * be wrapped in shared argument preprocessing, such as Quire link or date
+ * input handling. Tool modules register against the wrapped server and
+ * stay unaware of it.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+export type ToolHandler = (
+  args: ToolArgs,
+  extra: ToolExtra
+) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Wrap a tool handler given the tool's input field names and tool name.
+ * Returning undefined registers the handler unchanged.
+ */
+export type ToolMiddleware = (
+  handler: ToolHandler,
+  fields: string[],
+  name: string
+) => ToolHandler | undefined;
+
+/**
+ * Input field names of a tool's input schema
+ */
+function schemaFields(inputSchema: unknown): string[] {
+  if (inputSchema instanceof z.ZodObject) {
+    return Object.keys(inputSchema.shape);
+  }
+  return inputSchema && typeof inputSchema === "object"
+    ? Object.keys(inputSchema)
+    : [];
+}
+
+/**
+ * Wrap a server so tools registered through it have their handlers passed
+ * through `middleware`. Other server methods are inherited unchanged.
+ */
+export function withToolMiddleware(
+  server: McpServer,
+  middleware: ToolMiddleware
+): McpServer {
+  const registerTool: McpServer["registerTool"] = (name, config, callback) => {
+    const handler = middleware(
+      callback as unknown as ToolHandler,
+      schemaFields(config.inputSchema),
+      name
+    );
+    return server.registerTool(
+      name,
+      config,
+      (handler ?? callback) as typeof callback
+    );
+  };
+
+  return Object.assign(Object.create(server) as McpServer, { registerTool });
+}
@@ -0,0 +1,338 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { DatabaseSync } from "node:sqlite";
+import { registerMirrorTools } from "./mirror.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import { QuireMirror, setSharedMirror } from "../quire/mirror.js";
+import type {
+  QuireComment,
+  QuireProject,
+  QuireTaskTreeNode,
+} from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+type ToolHandler = (
+  params: Record<string, unknown>,
+  extra: unknown
+) => Promise<{
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+  structuredContent?: Record<string, unknown>;
+}>;
+
+const web = { oid: "P1", id: "web", name: "Website" } as QuireProject;
+const api = { oid: "P2", id: "api", name: "API" } as QuireProject;
+
+function node(oid: string, id: number, name: string): QuireTaskTreeNode {
+  return { oid, id, name, descriptionText: "", children: [] };
+}
+
+describe("mirror tools", () => {
+  let handlers: Map<string, ToolHandler>;
+  let mirror: QuireMirror;
+  let getTaskTree: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+
+    handlers = new Map();
+    const server = {
+      registerTool: vi.fn(
+        (name: string, _config: unknown, callback: ToolHandler) => {
+          handlers.set(name, callback);
+        }
+      ),
+    } as unknown as McpServer;
+    registerMirrorTools(server);
+
+    mirror = new QuireMirror(new DatabaseSync(":memory:"));
+    setSharedMirror(mirror);
+    getTaskTree = vi.fn().mockImplementation((projectOid: string) =>
+      Promise.resolve({
+        success: true,
+        data: {
+          roots:
+            projectOid === "P1"
+              ? [node("T1", 1, "Launch website"), node("T2", 2, "Retro")]
+              : [node("T8", 8, "Release API")],
+          nodeCount: 2,
+          truncated: projectOid === "P2",
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    setSharedMirror(undefined);
+    mirror.close();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    name: string,
+    params: Record<string, unknown> = {},
+    overrides?: Partial<QuireClient>
+  ): ReturnType<ToolHandler> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        listProjects: () =>
+          Promise.resolve({ success: true, data: [web, api] }),
+        getTaskTree: getTaskTree as QuireClient["getTaskTree"],
+        listTaskComments: (oid: string) =>
+          Promise.resolve({
+            success: true,
+            data: [
+              {
+                oid: `C-${oid}`,
+                descriptionText: `Release notes for ${oid}`,
+              } as QuireComment,
+            ],
+          }),
+        ...overrides,
+      }),
+    });
+    const handler = handlers.get(name);
+    if (!handler) throw new Error(`${name} not registered`);
+    return handler(params, createMockExtra({ quireToken: "token" }));
+  }
+
+  it("should register the mirror tools", () => {
+    expect([...handlers.keys()]).toEqual([
+      "quire.syncMirror",
+      "quire.localSearch",
+    ]);
+  });
+
+  it("should explain that the mirror is not enabled", async () => {
+    setSharedMirror(undefined);
+
+    const sync = await callTool("quire.syncMirror");
+    const search = await callTool("quire.localSearch", { query: "launch" });
+
+    for (const result of [sync, search]) {
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(
+        "The local mirror is not enabled"
+      );
+    }
+  });
+
+  describe("quire.syncMirror", () => {
+    it("should sync every project and report the changes", async () => {
+      const result = await callTool("quire.syncMirror");
+
+      expect(extractTextContent(result)).toBe(
+        "Synced the local mirror at 2026-10-19T10:00:00.000Z:\n" +
+          "- web (Website): 2 new, 0 changed, 0 removed tasks\n" +
+          "- api (API): 1 new, 0 changed, 0 removed tasks (truncated)\n\n" +
+          "Fetched the comments of 3 tasks."
+      );
+      expect(result.structuredContent).toMatchObject({
+        organizations: 0,
+        commentsFetched: 3,
+        commentsPending: 0,
+      });
+      expect(mirror.getTask("T8")?.name).toBe("Release API");
+    });
+
+    it("should sync the configured projects and report failures", async () => {
+      vi.stubEnv("QUIRE_MIRROR_PATH", "/data/mirror.db");
+      vi.stubEnv("QUIRE_MIRROR_PROJECTS", "web,gone");
+      getTaskTree.mockResolvedValueOnce(mockErrors.serverError());
+
+      const result = await callTool("quire.syncMirror", {});
+
+      expect(extractTextContent(result)).toMatch(
+        /- web \(Website\): failed: .+\n\nFetched the comments of 0 tasks\.\nProjects not found: gone$/
+      );
+      expect(getTaskTree).toHaveBeenCalledOnce();
+    });
+
+    it("should refetch all comments and note those left over", async () => {
+      await callTool("quire.syncMirror", { projects: ["web"] });
+      const listTaskComments = vi
+        .fn()
+        .mockResolvedValue(mockErrors.serverError());
+
+      const result = await callTool(
+        "quire.syncMirror",
+        { projects: ["web"], full: true },
+        { listTaskComments }
+      );
+
+      expect(extractTextContent(result)).toContain(
+        "- web (Website): 0 new, 0 changed, 0 removed tasks\n\n" +
+          "Fetched the comments of 0 tasks; 2 are left for later syncs."
+      );
+      expect(listTaskComments).toHaveBeenCalledTimes(2);
+    });
+
+    it("should note when no projects were synced", async () => {
+      const result = await callTool("quire.syncMirror", {
+        projects: ["gone"],
+      });
+
+      expect(extractTextContent(result)).toContain("- (no projects)");
+    });
+
+    it("should note projects deferred for the rate limit reserve", async () => {
+      const result = await callTool(
+        "quire.syncMirror",
+        {},
+        {
+          getRateLimitBudget: () => ({
+            windows: [
+              { limit: 25, windowMs: 60_000, remaining: 3, fullResetMs: 0 },
+            ],
+            queued: 0,
+          }),
+        }
+      );
+
+      expect(extractTextContent(result)).toMatch(
+        /^Partly synced the local mirror at /
+      );
+      expect(extractTextContent(result)).toContain(
+        "Deferred to keep rate limit budget for other calls: web, api"
+      );
+      expect(getTaskTree).not.toHaveBeenCalled();
+    });
+
+    it("should return errors", async () => {
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: false,
+        error: "No token",
+      });
+      const handler = handlers.get("quire.syncMirror");
+      const unauthorized = await handler?.({}, createMockExtra());
+      const failed = await callTool(
+        "quire.syncMirror",
+        {},
+        { listProjects: () => Promise.resolve(mockErrors.serverError()) }
+      );
+
+      expect(unauthorized && isErrorResponse(unauthorized)).toBe(true);
+      expect(isErrorResponse(failed)).toBe(true);
+    });
+  });
+
+  describe("quire.localSearch", () => {
+    beforeEach(async () => {
+      vi.setSystemTime(new Date("2026-10-19T09:00:00Z"));
+      await callTool("quire.syncMirror");
+      vi.setSystemTime(new Date("2026-10-19T10:00:00Z"));
+      vi.mocked(getQuireClient).mockClear();
+    });
+
+    it("should find tasks and comments without calling the API", async () => {
+      const result = await callTool("quire.localSearch", {
+        query: "release",
+        limit: 3,
+      });
+
+      const text = extractTextContent(result);
+      expect(text).toMatch(
+        /^Found 4 matches for "release" in the local mirror:/
+      );
+      expect(text).toContain("- #8 Release API (api): **Release** API");
+      expect(text).toContain(
+        "- Comment on #1 Launch website (web): **Release** notes for T1"
+      );
+      expect(text).toContain("_1 more matches not shown._");
+      expect(text).toContain(
+        "_From the local mirror, synced 2026-10-19T09:00:00.000Z (60 minutes ago)._"
+      );
+      expect(result.structuredContent).toMatchObject({
+        total: 4,
+        mirror: { syncedAt: "2026-10-19T09:00:00.000Z", ageMinutes: 60 },
+      });
+      expect(getQuireClient).not.toHaveBeenCalled();
+    });
+
+    it("should search one project by name", async () => {
+      const result = await callTool("quire.localSearch", {
+        query: "launch",
+        projectId: "website",
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        results: [
+          {
+            kind: "task",
+            oid: "T1",
+            projectId: "web",
+            task: { oid: "T1", id: 1, name: "Launch website" },
+          },
+        ],
+        total: 1,
+      });
+    });
+
+    it("should say when nothing matches", async () => {
+      const result = await callTool("quire.localSearch", { query: "budget" });
+
+      expect(extractTextContent(result)).toBe(
+        'No matches for "budget" in the local mirror.\n\n' +
+          "_From the local mirror, synced 2026-10-19T09:00:00.000Z (60 minutes ago)._"
+      );
+    });
+
+    it("should reject unknown, ambiguous and unsynced projects", async () => {
+      mirror.saveProjects([
+        web,
+        api,
+        { oid: "P3", id: "api-v2", name: "API" } as QuireProject,
+      ]);
+
+      const unknown = await callTool("quire.localSearch", {
+        query: "launch",
+        projectId: "gone",
+      });
+      const ambiguous = await callTool("quire.localSearch", {
+        query: "launch",
+        projectId: "API",
+      });
+      const unsynced = await callTool("quire.localSearch", {
+        query: "launch",
+        projectId: "api-v2",
+      });
+
+      expect(extractTextContent(unknown)).toContain(
+        'Project "gone" is not in the local mirror.'
+      );
+      expect(extractTextContent(ambiguous)).toContain(
+        'Several mirrored projects are named "API"'
+      );
+      expect(extractTextContent(unsynced)).toContain(
+        "Project api-v2 has not been synced yet."
+      );
+    });
+
+    it("should reject a mirror that never synced", async () => {
+      setSharedMirror(new QuireMirror(new DatabaseSync(":memory:")));
+
+      const result = await callTool("quire.localSearch", { query: "launch" });
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(
+        "The local mirror has not been synced yet."
+      );
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Local Mirror Tools
+ *
+ * Tools for the local SQLite mirror (enabled by QUIRE_MIRROR_PATH):
+ * - quire.syncMirror: Bring the mirror up to date now
+ * - quire.localSearch: Full-text search of mirrored task names,
+ *   descriptions and comments, without calling the Quire API
+ *
+ * Read tools that accept `source: "mirror"` also answer from the mirror.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  LOCAL_SEARCH_DEFAULT_LIMIT,
+  LOCAL_SEARCH_MAX_LIMIT,
+} from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import type { QuireMirror } from "../quire/mirror.js";
+import { toMirrorFreshness } from "../quire/mirror-client.js";
+import {
+  syncMirror,
+  getMirrorConfig,
+  type MirrorProjectReport,
+} from "../quire/mirror-sync.js";
+import type { ResolveResult } from "./resolver.js";
+import { mirrorOutputFields } from "./output-schemas.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMessage,
+  formatMirrorFreshness,
+  formatValidationError,
+  requireMirror,
+} from "./utils.js";
+
+const MirrorSyncOutputSchema = z.object({
+  syncedAt: z.string(),
+  partial: z.boolean(),
+  organizations: z.number(),
+  projects: z.array(
+    z.object({
+      projectId: z.string(),
+      name: z.string(),
+      changes: z
+        .object({
+          created: z.number(),
+          updated: z.number(),
+          deleted: z.number(),
+        })
+        .optional(),
+      truncated: z.boolean().optional(),
+      error: z.string().optional(),
+    })
+  ),
+  unknownProjects: z.array(z.string()),
+  deferredProjects: z.array(z.string()),
+  commentsFetched: z.number(),
+  commentsPending: z.number(),
+});
+
+const LocalSearchOutputSchema = z.object({
+  results: z.array(
+    z.object({
+      kind: z.enum(["task", "comment"]),
+      /** The comment's OID for comment matches, else the task's */
+      oid: z.string(),
+      projectId: z.string(),
+      task: z.object({ oid: z.string(), id: z.number(), name: z.string() }),
+      snippet: z.string(),
+    })
+  ),
+  total: z.number(),
+  ...mirrorOutputFields,
+});
+
+/**
+ * Find a mirrored project by ID, OID or name
+ */
+function findMirroredProject(
+  mirror: QuireMirror,
+  ref: string
+): ResolveResult<{ oid: string; id: string }> {
+  const byName = mirror
+    .listProjects()
+    .filter((project) => project.name.toLowerCase() === ref.toLowerCase());
+  const project = mirror.getProject(ref) ?? byName[0];
+  if (!project || byName.length > 1) {
+    return {
+      success: false,
+      response: formatValidationError(
+        byName.length > 1
+          ? `Several mirrored projects are named "${ref}"; use a project ID.`
+          : `Project "${ref}" is not in the local mirror.`
+      ),
+    };
+  }
+  return { success: true, data: project };
+}
+
+function formatProjectReport(report: MirrorProjectReport): string {
+  const name = `${report.projectId} (${report.name})`;
+  if (report.error !== undefined) {
+    return `- ${name}: failed: ${report.error}`;
+  }
+  const changes = report.changes;
+  const summary = changes
+    ? `${String(changes.created)} new, ${String(changes.updated)} changed, ` +
+      `${String(changes.deleted)} removed tasks`
+    : "no changes";
+  return `- ${name}: ${summary}${report.truncated ? " (truncated)" : ""}`;
+}
+
+/**
+ * Register the local mirror tools with the MCP server
+ */
+export function registerMirrorTools(server: McpServer): void {
+  // quire.syncMirror
+  server.registerTool(
+    "quire.syncMirror",
+    {
+      description:
+        "Bring the local SQLite mirror up to date now instead of waiting " +
+        "for the next scheduled sync. Task trees are refetched, but only " +
+        "changed tasks are rewritten and only their comments fetched. " +
+        "Stops early when half the rate limit budget is used, leaving the " +
+        "remaining projects for later syncs. Requires QUIRE_MIRROR_PATH.",
+      inputSchema: z.object({
+        projects: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Projects to sync (IDs, OIDs or names); default: " +
+              "QUIRE_MIRROR_PROJECTS, or all projects"
+          ),
+        full: z
+          .boolean()
+          .optional()
+          .describe(
+            "Also refetch the comments of unchanged tasks (default: false)"
+          ),
+      }),
+      outputSchema: MirrorSyncOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ projects, full }, extra) => {
+      const enabled = requireMirror();
+      if (!enabled.success) {
+        return enabled.response;
+      }
+      const { mirror } = enabled;
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+
+      const selected = projects ?? getMirrorConfig()?.projects;
+      const report = await syncMirror(clientResult.client.fresh(), mirror, {
+        ...(selected !== undefined && { projects: selected }),
+        ...(full !== undefined && { full }),
+      });
+      if (!report.success) {
+        return formatError(report.error, "project");
+      }
+
+      const { data } = report;
+      const lines = [
+        `${data.partial ? "Partly synced" : "Synced"} the local mirror at ${data.syncedAt}:`,
+        ...data.projects.map(formatProjectReport),
+      ];
+      if (data.projects.length === 0) {
+        lines.push("- (no projects)");
+      }
+      lines.push(
+        "",
+        `Fetched the comments of ${String(data.commentsFetched)} tasks` +
+          (data.commentsPending > 0
+            ? `; ${String(data.commentsPending)} are left for later syncs.`
+            : ".")
+      );
+      if (data.unknownProjects.length > 0) {
+        lines.push(`Projects not found: ${data.unknownProjects.join(", ")}`);
+      }
+      if (data.deferredProjects.length > 0) {
+        lines.push(
+          `Deferred to keep rate limit budget for other calls: ${data.deferredProjects.join(", ")}`
+        );
+      } else if (data.partial) {
+        lines.push(
+          "Some organization documents or comments were left for the next " +
+            "sync to keep rate limit budget for other calls."
+        );
+      }
+      return formatMessage(lines.join("\n"), data);
+    }
+  );
+
+  // quire.localSearch
+  server.registerTool(
+    "quire.localSearch",
+    {
+      description:
+        "Full-text search of task names, descriptions and comments in the " +
+        "local SQLite mirror, best matches first. Answers without calling " +
+        "the Quire API and reports when the mirror was synced. Every word " +
+        "must match; end a word with '*' to match words starting with it. " +
+        "Requires QUIRE_MIRROR_PATH.",
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Words to search for"),
+        projectId: z
+          .string()
+          .optional()
+          .describe("Only search this project (ID, OID or name)"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(LOCAL_SEARCH_MAX_LIMIT)
+          .optional()
+          .describe(
+            `Maximum number of matches (default: ${String(LOCAL_SEARCH_DEFAULT_LIMIT)})`
+          ),
+      }),
+      outputSchema: LocalSearchOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    ({ query, projectId, limit }) => {
+      const enabled = requireMirror();
+      if (!enabled.success) {
+        return enabled.response;
+      }
+      const { mirror } = enabled;
+      let project: { oid: string; id: string } | undefined;
+      if (projectId !== undefined) {
+        const found = findMirroredProject(mirror, projectId);
+        if (!found.success) {
+          return found.response;
+        }
+        project = found.data;
+      }
+      const syncedAt = project
+        ? mirror.getProjectSync(project.oid)?.syncedAt
+        : mirror.getSyncedAt();
+      if (syncedAt === undefined) {
+        return formatValidationError(
+          `${project ? `Project ${project.id}` : "The local mirror"} has ` +
+            "not been synced yet. Run quire.syncMirror first."
+        );
+      }
+
+      const projectIds = new Map(
+        mirror.listProjects().map((p) => [p.oid, p.id])
+      );
+      const { hits, total } = mirror.search(query, {
+        ...(project && { projectOids: [project.oid] }),
+        limit: limit ?? LOCAL_SEARCH_DEFAULT_LIMIT,
+      });
+      const results = hits.map((hit) => ({
+        kind: hit.kind,
+        oid: hit.oid,
+        projectId: projectIds.get(hit.projectOid) ?? hit.projectOid,
+        task: { oid: hit.task.oid, id: hit.task.id, name: hit.task.name },
+        snippet: hit.snippet,
+      }));
+      const freshness = toMirrorFreshness(syncedAt);
+      const structured = { results, total, mirror: freshness };
+
+      const note = formatMirrorFreshness(freshness);
+      if (results.length === 0) {
+        return formatMessage(
+          `No matches for "${query}" in the local mirror.\n\n${note}`,
+          structured
+        );
+      }
+      const lines = results.map((result) => {
+        const task = `#${String(result.task.id)} ${result.task.name} (${result.projectId})`;
+        const where = result.kind === "comment" ? `Comment on ${task}` : task;
+        return `- ${where}: ${result.snippet.replaceAll("\n", " ")}`;
+      });
+      const more =
+        total > results.length
+          ? `\n\n_${String(total - results.length)} more matches not shown._`
+          : "";
+      return formatMessage(
+        `Found ${String(total)} matches for "${query}" in the local mirror:\n` +
+          lines.join("\n") +
+          more +
+          `\n\n${note}`,
+        structured
+      );
+    }
+  );
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { formatMyTasksOutline, registerMyTasksTool } from "./my-tasks.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { MyTasksReport } from "../quire/my-tasks.js";
+import type { QuireOrganization } from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+interface ToolResult {
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+  structuredContent?: MyTasksReport;
+}
+
+const project = { oid: "P1", id: "web", name: "Web Site" };
+
+describe("formatMyTasksOutline", () => {
+  const report: MyTasksReport = {
+    user: { id: "ann", name: "Ann" },
+    timeZone: "Europe/Paris",
+    today: "2026-10-19",
+    total: 2,
+    buckets: {
+      overdue: [
+        {
+          oid: "t1",
+          id: 1,
+          name: "Fix login",
+          status: { value: 0, name: "To-Do" },
+          due: "2026-10-12",
+          project,
+          url: "https://quire.io/w/web?t=1",
+        },
+      ],
+      today: [],
+      thisWeek: [],
+      later: [],
+      noDate: [
+        {
+          oid: "t2",
+          id: 2,
+          name: "Write docs",
+          project,
+          url: "https://quire.io/w/web?t=2",
+        },
+      ],
+    },
+    organizationCount: 2,
+    failedOrganizations: [
+      {
+        organizationId: "acme",
+        code: "FORBIDDEN",
+        message: "Permission denied",
+      },
+    ],
+    skippedOrganizations: [],
+  };
+
+  it("should list non-empty buckets with linked tasks", () => {
+    expect(formatMyTasksOutline(report)).toBe(
+      "# Tasks assigned to Ann\n\n" +
+        "2 open tasks in 2 organizations " +
+        "(today is 2026-10-19, Europe/Paris).\n\n" +
+        "## Overdue (1)\n" +
+        "- [Fix login](https://quire.io/w/web?t=1) " +
+        "(Web Site, due 2026-10-12, To-Do)\n\n" +
+        "## No due date (1)\n" +
+        "- [Write docs](https://quire.io/w/web?t=2) (Web Site)\n\n" +
+        "_Could not search: acme (Permission denied)._"
+    );
+  });
+
+  it("should show tasks without a project or link and skipped organizations", () => {
+    const outline = formatMyTasksOutline({
+      ...report,
+      total: 1,
+      buckets: {
+        ...report.buckets,
+        overdue: [],
+        noDate: [{ oid: "t3", id: 3, name: "Plan sprint" }],
+      },
+      failedOrganizations: [],
+      skippedOrganizations: ["o6", "o7"],
+    });
+
+    expect(outline).toContain("## No due date (1)\n- Plan sprint\n\n");
+    expect(outline).toMatch(
+      /_Not searched: o6, o7 \(only the first 5 organizations are searched\)\._$/
+    );
+  });
+});
+
+describe("quire.myTasks tool", () => {
+  let server: McpServer;
+  let handler: (
+    params: Record<string, unknown>,
+    extra: unknown
+  ) => Promise<unknown>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+
+    server = {
+      registerTool: vi.fn(
+        (_name: string, _config: unknown, callback: typeof handler) => {
+          handler = callback;
+        }
+      ),
+    } as unknown as McpServer;
+    registerMyTasksTool(server);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): Promise<ToolResult> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        listOrganizations: () =>
+          Promise.resolve({
+            success: true,
+            data: [
+              { oid: "O1", id: "acme", name: "Acme" } as QuireOrganization,
+            ],
+          }),
+        searchOrganizationTasks: () =>
+          Promise.resolve({
+            success: true,
+            data: [
+              {
+                oid: "t1",
+                id: 1,
+                name: "Fix login",
+                due: "2026-10-21",
+                project,
+              },
+            ],
+          }),
+        ...overrides,
+      }),
+    });
+    return (await handler(
+      params,
+      createMockExtra({ quireToken: "token" })
+    )) as ToolResult;
+  }
+
+  it("should register the quire.myTasks tool", () => {
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.myTasks",
+      expect.objectContaining({ annotations: { readOnlyHint: true } }),
+      expect.any(Function)
+    );
+  });
+
+  it("should return the bucketed report as JSON", async () => {
+    const result = await callTool({});
+
+    expect(result.structuredContent).toMatchObject({
+      user: { id: "test-user" },
+      today: "2026-10-19",
+      total: 1,
+      buckets: { thisWeek: [{ name: "Fix login", project }] },
+    });
+    expect(JSON.parse(extractTextContent(result))).toEqual(
+      result.structuredContent
+    );
+  });
+
+  it("should return an outline", async () => {
+    const result = await callTool({ format: "outline" });
+
+    expect(extractTextContent(result)).toContain("## This week (1)");
+    expect(result.structuredContent?.total).toBe(1);
+  });
+
+  it("should return errors from Quire", async () => {
+    const result = await callTool(
+      {},
+      { listOrganizations: () => Promise.resolve(mockErrors.unauthorized()) }
+    );
+
+    expect(isErrorResponse(result)).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const result = (await handler({}, createMockExtra())) as ToolResult;
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * quire.myTasks Tool
+ *
+ * Answers "what is assigned to me?" in one call: the current user's open
+ * tasks from their organizations, grouped into due buckets with
+ * project names and links.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { MY_TASKS_MAX_ORGANIZATIONS } from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import {
+  DUE_BUCKETS,
+  collectMyTasks,
+  type DueBucket,
+  type MyTasksReport,
+} from "../quire/my-tasks.js";
+import { getDateInputOptions } from "../utils/dates.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMessage,
+  formatSuccess,
+  freshReadSchema,
+  readClient,
+} from "./utils.js";
+
+const MyTaskSchema = z.object({
+  oid: z.string(),
+  id: z.number(),
+  name: z.string(),
+  status: z.object({ value: z.number(), name: z.string() }).optional(),
+  priority: z.object({ value: z.number(), name: z.string() }).optional(),
+  start: z.string().optional(),
+  due: z.string().optional(),
+  project: z
+    .object({ oid: z.string(), id: z.string(), name: z.string() })
+    .optional(),
+  url: z.string().optional(),
+});
+
+/**
+ * Structured output: the bucketed report
+ */
+const MyTasksOutputSchema = z.object({
+  user: z.object({ id: z.string(), name: z.string() }),
+  timeZone: z.string(),
+  today: z.string(),
+  total: z.number(),
+  buckets: z.object({
+    overdue: z.array(MyTaskSchema),
+    today: z.array(MyTaskSchema),
+    thisWeek: z.array(MyTaskSchema),
+    later: z.array(MyTaskSchema),
+    noDate: z.array(MyTaskSchema),
+  }),
+  organizationCount: z.number(),
+  failedOrganizations: z.array(
+    z.object({
+      organizationId: z.string(),
+      code: z.string(),
+      message: z.string(),
+    })
+  ),
+  skippedOrganizations: z.array(z.string()),
+});
+
+const BUCKET_TITLES: Record<DueBucket, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  thisWeek: "This week",
+  later: "Later",
+  noDate: "No due date",
+};
+
+/**
+ * Render the report as Markdown sections, one linked task per line
+ */
+/** @internal Exported for testing */
+export function formatMyTasksOutline(report: MyTasksReport): string {
+  const sections = [
+    `# Tasks assigned to ${report.user.name}\n\n` +
+      `${String(report.total)} open tasks in ` +
+      `${String(report.organizationCount)} organizations ` +
+      `(today is ${report.today}, ${report.timeZone}).`,
+  ];
+  for (const bucket of DUE_BUCKETS) {
+    const tasks = report.buckets[bucket];
+    if (tasks.length === 0) continue;
+    const lines = tasks.map((task) => {
+      const details = [
+        task.project?.name,
+        task.due && `due ${task.due}`,
+        task.status?.name,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      const title = task.url ? `[${task.name}](${task.url})` : task.name;
+      return details ? `- ${title} (${details})` : `- ${title}`;
+    });
+    sections.push(
+      [`## ${BUCKET_TITLES[bucket]} (${String(tasks.length)})`, ...lines].join(
+        "\n"
+      )
+    );
+  }
+  if (report.failedOrganizations.length > 0) {
+    const failed = report.failedOrganizations
+      .map(({ organizationId, message }) => `${organizationId} (${message})`)
+      .join(", ");
+    sections.push(`_Could not search: ${failed}._`);
+  }
+  if (report.skippedOrganizations.length > 0) {
+    sections.push(
+      `_Not searched: ${report.skippedOrganizations.join(", ")} ` +
+        `(only the first ${String(MY_TASKS_MAX_ORGANIZATIONS)} ` +
+        "organizations are searched)._"
+    );
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Register the quire.myTasks tool with the MCP server
+ */
+export function registerMyTasksTool(server: McpServer): void {
+  server.registerTool(
+    "quire.myTasks",
+    {
+      description:
+        "Get the open tasks assigned to the current user in their first " +
+        `${String(MY_TASKS_MAX_ORGANIZATIONS)} organizations, grouped by ` +
+        "due date: overdue, today, this " +
+        "week, later and no date. Each task includes its project and a " +
+        "link to it in Quire. Buckets use QUIRE_TIMEZONE.",
+      inputSchema: z.object({
+        format: z
+          .enum(["json", "outline"])
+          .optional()
+          .describe(
+            "'json' returns the buckets as JSON (default); " +
+              "'outline' returns Markdown sections with linked tasks"
+          ),
+        ...freshReadSchema,
+      }),
+      outputSchema: MyTasksOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ format, fresh }, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const client = readClient(clientResult.client, fresh);
+
+      const result = await collectMyTasks(client, getDateInputOptions());
+      if (!result.success) {
+        return formatError(result.error, "task");
+      }
+
+      if (format === "outline") {
+        return formatMessage(formatMyTasksOutline(result.data), result.data);
+      }
+      return formatSuccess(result.data);
+    }
+  );
+}
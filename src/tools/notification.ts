@@ -7,6 +7,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { SuccessResponseSchema } from "../quire/schemas.js";
 
 interface ToolTextContent {
   type: "text";
@@ -77,6 +78,7 @@ export function registerNotificationTools(server: McpServer): void {
           .optional()
           .describe("Optional URL to include in the notification"),
       }),
+      outputSchema: SuccessResponseSchema,
     },
     async ({ message, url }, extra) => {
       const clientResult = await getQuireClient(extra);
@@ -109,6 +111,7 @@ export function registerNotificationTools(server: McpServer): void {
             text: `Notification sent successfully.`,
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
@@ -7,11 +7,15 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { QuireOrganizationSchema } from "../quire/schemas.js";
+import { OrganizationListOutputSchema } from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
   buildParams,
+  freshReadSchema,
+  readClient,
 } from "./utils.js";
 
 /**
@@ -25,23 +29,25 @@ export function registerOrganizationTools(server: McpServer): void {
       description:
         "List all organizations accessible to the current user. " +
         "Returns an array of organization objects with basic information.",
-      inputSchema: z.object({}),
+      inputSchema: z.object({ ...freshReadSchema }),
+      outputSchema: OrganizationListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async (_args, extra) => {
+    async ({ fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.listOrganizations();
+      const result = await client.listOrganizations();
       if (!result.success) {
         return formatError(result.error, "organization");
       }
 
-      return formatSuccess(result.data);
+      return formatSuccess(result.data, { organizations: result.data });
     }
   );
 
@@ -58,18 +64,21 @@ export function registerOrganizationTools(server: McpServer): void {
           .describe(
             "The organization ID (e.g., 'my-organization') or OID (unique identifier)"
           ),
+        ...freshReadSchema,
       }),
+      outputSchema: QuireOrganizationSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ id }, extra) => {
+    async ({ id, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.getOrganization(id);
+      const result = await client.getOrganization(id);
       if (!result.success) {
         return formatError(result.error, "organization");
       }
@@ -106,6 +115,7 @@ export function registerOrganizationTools(server: McpServer): void {
           .optional()
           .describe("User IDs to remove from followers (optional)"),
       }),
+      outputSchema: QuireOrganizationSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  projectable,
+  TaskListOutputSchema,
+  TaskTreeOutputSchema,
+} from "./output-schemas.js";
+
+describe("Tool Output Schemas", () => {
+  it("should validate nested task trees", () => {
+    const tree = {
+      roots: [
+        {
+          oid: "a",
+          id: 1,
+          name: "Design",
+          children: [{ oid: "b", id: 2, name: "Wireframes", children: [] }],
+        },
+      ],
+      nodeCount: 2,
+      truncated: false,
+    };
+
+    expect(TaskTreeOutputSchema.parse(tree)).toEqual(tree);
+    expect(
+      TaskTreeOutputSchema.safeParse({
+        ...tree,
+        roots: [{ ...tree.roots[0], children: [{ oid: "b" }] }],
+      }).success
+    ).toBe(false);
+  });
+
+  it("should accept any projection of projectable results", () => {
+    const schema = projectable(
+      z.object({
+        id: z.number(),
+        status: z.object({ value: z.number(), name: z.string() }),
+        assignees: z.array(z.object({ id: z.string(), name: z.string() })),
+        due: z.string().nullable().optional(),
+      })
+    );
+
+    expect(
+      schema.safeParse({ status: { name: "Done" }, assignees: [{ id: "a" }] })
+        .success
+    ).toBe(true);
+    expect(schema.safeParse({ due: null }).success).toBe(true);
+    expect(schema.safeParse({ id: "1" }).success).toBe(false);
+    expect(schema.safeParse({ assignees: [{ id: 1 }] }).success).toBe(false);
+  });
+
+  it("should convert to JSON Schema objects", () => {
+    for (const schema of [TaskListOutputSchema, TaskTreeOutputSchema]) {
+      expect(z.toJSONSchema(schema, { io: "output" })).toMatchObject({
+        type: "object",
+      });
+    }
+  });
+});
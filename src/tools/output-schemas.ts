@@ -0,0 +1,203 @@
+/**
+ * Tool Output Schemas
+ *
+ * `outputSchema` declarations for tool registrations, built from the Quire
+ * API response schemas. Single-object results use the API schema as-is.
+ * Structured content must be a JSON object, so list results are wrapped in
+ * an object with one named array. Paginated lists also carry the total
+ * item count and the cursor for the next page. Results that `format` and
+ * `fields` may shrink use projectable() schemas.
+ */
+
+import { z } from "zod";
+import {
+  QuireUserSchema,
+  QuireOrganizationSchema,
+  QuireProjectSchema,
+  QuireTaskSchema,
+  QuireTagSchema,
+  QuireCommentSchema,
+  QuireStatusSchema,
+  QuirePartnerSchema,
+  QuireDocumentSchema,
+  QuireSublistSchema,
+  QuireChatSchema,
+  QuireStorageEntrySchema,
+} from "../quire/schemas.js";
+
+// ---------------------------------------------------------------------------
+// Projectable Outputs
+// ---------------------------------------------------------------------------
+
+/**
+ * Recursive step of projectable(), for any schema
+ */
+function optionalFields(schema: z.ZodType): z.ZodType {
+  if (schema instanceof z.ZodObject) {
+    return projectable(schema);
+  }
+  if (schema instanceof z.ZodArray) {
+    return z.array(optionalFields(schema.element as z.ZodType));
+  }
+  if (schema instanceof z.ZodOptional) {
+    return optionalFields(schema.unwrap() as z.ZodType).optional();
+  }
+  if (schema instanceof z.ZodNullable) {
+    return optionalFields(schema.unwrap() as z.ZodType).nullable();
+  }
+  return schema;
+}
+
+/**
+ * Make every field of an object schema optional, down through nested
+ * objects and arrays, for results of tools that take `format` and
+ * `fields`: a projection such as `status.name` keeps any subset of them.
+ */
+export function projectable(schema: z.ZodObject): z.ZodObject {
+  return z.object(
+    Object.fromEntries(
+      Object.entries(schema.shape).map(([key, field]) => [
+        key,
+        optionalFields(field as z.ZodType).optional(),
+      ])
+    )
+  );
+}
+
+export const ProjectOutputSchema = projectable(QuireProjectSchema);
+export const TaskOutputSchema = projectable(QuireTaskSchema);
+export const TagOutputSchema = projectable(QuireTagSchema);
+export const DocumentOutputSchema = projectable(QuireDocumentSchema);
+export const SublistOutputSchema = projectable(QuireSublistSchema);
+export const ChatOutputSchema = projectable(QuireChatSchema);
+
+// ---------------------------------------------------------------------------
+// List Outputs
+// ---------------------------------------------------------------------------
+
+/**
+ * Fields added to the output of paginated list and search tools
+ */
+const pageOutputFields = {
+  total: z.number(),
+  nextCursor: z.string().optional(),
+};
+
+/**
+ * Field added to the output of read tools answered from the local mirror
+ */
+export const mirrorOutputFields = {
+  mirror: z.object({ syncedAt: z.string(), ageMinutes: z.number() }).optional(),
+};
+
+export const OrganizationListOutputSchema = z.object({
+  organizations: z.array(QuireOrganizationSchema),
+});
+
+export const ProjectListOutputSchema = z.object({
+  projects: z.array(ProjectOutputSchema),
+  ...pageOutputFields,
+});
+
+export const TaskListOutputSchema = z.object({
+  tasks: z.array(TaskOutputSchema),
+  ...pageOutputFields,
+});
+
+export const TagListOutputSchema = z.object({
+  tags: z.array(TagOutputSchema),
+});
+
+export const CommentListOutputSchema = z.object({
+  comments: z.array(projectable(QuireCommentSchema)),
+  ...pageOutputFields,
+});
+
+export const UserListOutputSchema = z.object({
+  users: z.array(QuireUserSchema),
+});
+
+export const StatusListOutputSchema = z.object({
+  statuses: z.array(QuireStatusSchema),
+});
+
+export const PartnerListOutputSchema = z.object({
+  partners: z.array(QuirePartnerSchema),
+});
+
+export const DocumentListOutputSchema = z.object({
+  documents: z.array(DocumentOutputSchema),
+});
+
+export const SublistListOutputSchema = z.object({
+  sublists: z.array(SublistOutputSchema),
+});
+
+export const ChatListOutputSchema = z.object({
+  chats: z.array(ChatOutputSchema),
+});
+
+export const StorageEntryListOutputSchema = z.object({
+  entries: z.array(QuireStorageEntrySchema),
+});
+
+// ---------------------------------------------------------------------------
+// Task Outputs
+// ---------------------------------------------------------------------------
+
+/**
+ * Task with nested subtasks, as returned by getTaskTree
+ */
+export const TaskTreeNodeOutputSchema = QuireTaskSchema.extend({
+  get children(): z.ZodArray<typeof TaskTreeNodeOutputSchema> {
+    return z.array(TaskTreeNodeOutputSchema);
+  },
+});
+
+export const TaskTreeOutputSchema = z.object({
+  roots: z.array(TaskTreeNodeOutputSchema),
+  nodeCount: z.number(),
+  truncated: z.boolean(),
+  limitReached: z.enum(["maxDepth", "maxNodes", "stopped"]).optional(),
+});
+
+/**
+ * exportProject result: parsed tasks for JSON, raw text for CSV
+ */
+export const ProjectExportOutputSchema = z.object({
+  tasks: z.array(QuireTaskSchema).optional(),
+  csv: z.string().optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Other Outputs
+// ---------------------------------------------------------------------------
+
+export const RateLimitBudgetOutputSchema = z.object({
+  windows: z.array(
+    z.object({
+      limit: z.number(),
+      windowMs: z.number(),
+      remaining: z.number(),
+      fullResetMs: z.number(),
+    })
+  ),
+  queued: z.number(),
+});
+
+const CacheCountersOutputSchema = z.object({
+  entries: z.number(),
+  hits: z.number(),
+  misses: z.number(),
+  bypassed: z.number(),
+  invalidated: z.number(),
+});
+
+export const CacheStatsOutputSchema = CacheCountersOutputSchema.extend({
+  enabled: z.boolean(),
+  hitRate: z.number(),
+  resources: z.record(
+    z.string(),
+    CacheCountersOutputSchema.extend({ ttlMs: z.number() })
+  ),
+});
@@ -174,11 +174,13 @@ describe("Partner Tools", () => {
       )) as {
         isError?: boolean;
         content: { type: string; text?: string }[];
+        structuredContent?: unknown;
       };
 
       expect(isErrorResponse(result)).toBe(false);
       expect(extractTextContent(result)).toContain("Team A");
       expect(extractTextContent(result)).toContain("Team B");
+      expect(result.structuredContent).toEqual({ partners: mockPartners });
       expect(mockClient.listPartners).toHaveBeenCalledWith("my-project");
     });
 
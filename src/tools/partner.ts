@@ -7,6 +7,8 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { QuirePartnerSchema } from "../quire/schemas.js";
+import { PartnerListOutputSchema } from "./output-schemas.js";
 
 interface ToolTextContent {
   type: "text";
@@ -71,6 +73,7 @@ export function registerPartnerTools(server: McpServer): void {
       inputSchema: z.object({
         oid: z.string().describe("The partner OID (unique identifier)"),
       }),
+      outputSchema: QuirePartnerSchema,
       annotations: {
         readOnlyHint: true,
       },
@@ -101,6 +104,7 @@ export function registerPartnerTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
@@ -115,6 +119,7 @@ export function registerPartnerTools(server: McpServer): void {
           .string()
           .describe("The project ID (e.g., 'my-project') or OID"),
       }),
+      outputSchema: PartnerListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
@@ -145,6 +150,7 @@ export function registerPartnerTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { partners: result.data },
       };
     }
   );
@@ -0,0 +1,363 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  computeProjectMetrics,
+  formatMermaidXyChart,
+  periodStarts,
+  registerProjectMetricsTool,
+} from "./project-metrics.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { QuireTask, QuireTaskTreeNode } from "../quire/types.js";
+import type { DateInputOptions } from "../utils/dates.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+// Monday 19 October 2026
+const options: DateInputOptions = {
+  timeZone: "Europe/Paris",
+  weekStart: 1,
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+const ann = { id: "ann", name: "Ann" };
+const bob = { id: "bob", name: "Bob" };
+const bug = { id: 5, name: "bug" };
+
+function task(id: number, fields: Partial<QuireTask> = {}): QuireTask {
+  return { oid: `t${String(id)}`, id, name: `Task ${String(id)}`, ...fields };
+}
+
+describe("periodStarts", () => {
+  it("should list each day of the range", () => {
+    expect(periodStarts("2026-10-30", "2026-11-02", "day", 1)).toEqual([
+      "2026-10-30",
+      "2026-10-31",
+      "2026-11-01",
+      "2026-11-02",
+    ]);
+  });
+
+  it("should align weeks to the week start", () => {
+    // Wednesday 7 October to Monday 19 October
+    expect(periodStarts("2026-10-07", "2026-10-19", "week", 1)).toEqual([
+      "2026-10-07",
+      "2026-10-12",
+      "2026-10-19",
+    ]);
+    expect(periodStarts("2026-10-05", "2026-10-11", "week", 1)).toEqual([
+      "2026-10-05",
+    ]);
+    expect(periodStarts("2026-10-05", "2026-10-11", "week", 0)).toEqual([
+      "2026-10-05",
+      "2026-10-11",
+    ]);
+  });
+});
+
+describe("computeProjectMetrics", () => {
+  const tasks = [
+    // Created before the range, completed in the first week
+    task(1, {
+      createdAt: "2026-09-30T08:00:00Z",
+      completedAt: "2026-10-06T08:00:00Z",
+      assignees: [ann, bob],
+      tags: [bug],
+    }),
+    // Created and completed in the second week
+    task(2, {
+      createdAt: "2026-10-12T08:00:00Z",
+      completedAt: "2026-10-14T20:00:00Z",
+      assignees: [ann],
+    }),
+    // Created in the first week, still open
+    task(3, { createdAt: "2026-10-05T08:00:00Z", tags: [bug] }),
+    // No creation date: open since before the range
+    task(4),
+    // Completed at 23:30 UTC on the 18th, the 19th in Paris
+    task(5, {
+      createdAt: "2026-10-13T08:00:00Z",
+      completedAt: "2026-10-18T23:30:00Z",
+    }),
+    // Completed before the range
+    task(6, {
+      createdAt: "2026-09-01T08:00:00Z",
+      completedAt: "2026-09-02T08:00:00Z",
+    }),
+  ];
+
+  it("should count created, completed and open tasks per period", () => {
+    const metrics = computeProjectMetrics(
+      tasks,
+      { from: "2026-10-05", to: "2026-10-19", interval: "week" },
+      options
+    );
+
+    expect(metrics.series).toEqual([
+      { start: "2026-10-05", created: 1, completed: 1, open: 2 },
+      { start: "2026-10-12", created: 2, completed: 1, open: 3 },
+      { start: "2026-10-19", created: 0, completed: 1, open: 2 },
+    ]);
+    expect(metrics.totals).toEqual({ created: 3, completed: 3 });
+  });
+
+  it("should compute lead time and throughput of completed tasks", () => {
+    const metrics = computeProjectMetrics(
+      tasks,
+      { from: "2026-10-05", to: "2026-10-19", interval: "week" },
+      options
+    );
+
+    // 6, 2.5 and 5.6 days
+    expect(metrics.leadTime).toEqual({ averageDays: 4.7, tasks: 3 });
+    expect(metrics.throughput).toEqual({
+      byAssignee: [
+        { id: "ann", name: "Ann", completed: 2 },
+        { id: "bob", name: "Bob", completed: 1 },
+      ],
+      byTag: [{ id: 5, name: "bug", completed: 1 }],
+      unassigned: 1,
+    });
+  });
+
+  it("should report no lead time when nothing was completed", () => {
+    const metrics = computeProjectMetrics(
+      [task(1), task(2, { completedAt: "2026-10-19" })],
+      { from: "2026-10-19", to: "2026-10-19", interval: "day" },
+      options
+    );
+
+    expect(metrics.series).toEqual([
+      { start: "2026-10-19", created: 0, completed: 1, open: 1 },
+    ]);
+    expect(metrics.leadTime).toEqual({ averageDays: null, tasks: 0 });
+  });
+});
+
+describe("formatMermaidXyChart", () => {
+  it("should render bar and line series", () => {
+    expect(
+      formatMermaidXyChart(
+        "Flow",
+        ["2026-10-12", "2026-10-19"],
+        [
+          { kind: "bar", values: [3, 1] },
+          { kind: "line", values: [2, 0] },
+        ]
+      )
+    ).toBe(
+      [
+        "xychart-beta",
+        '  title "Flow"',
+        '  x-axis ["10-12", "10-19"]',
+        '  y-axis "Tasks"',
+        "  bar [3, 1]",
+        "  line [2, 0]",
+      ].join("\n")
+    );
+  });
+});
+
+describe("quire.projectMetrics tool", () => {
+  let server: McpServer;
+  let handler: (
+    params: Record<string, unknown>,
+    extra: unknown
+  ) => Promise<unknown>;
+  let getTaskTree: ReturnType<typeof vi.fn>;
+
+  const roots: QuireTaskTreeNode[] = [
+    {
+      ...task(1, {
+        createdAt: "2026-10-01T08:00:00Z",
+        completedAt: "2026-10-15T08:00:00Z",
+        assignees: [ann],
+        tags: [bug],
+      }),
+      children: [
+        {
+          ...task(2, {
+            createdAt: "2026-10-16T08:00:00Z",
+            completedAt: "2026-10-17T08:00:00Z",
+          }),
+          children: [],
+        },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+    vi.stubEnv("QUIRE_WEEK_START", "monday");
+
+    server = {
+      registerTool: vi.fn(
+        (_name: string, _config: unknown, callback: typeof handler) => {
+          handler = callback;
+        }
+      ),
+    } as unknown as McpServer;
+    registerProjectMetricsTool(server);
+
+    getTaskTree = vi.fn().mockResolvedValue({
+      success: true,
+      data: { roots, nodeCount: 2, truncated: false },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): Promise<{
+    isError?: boolean;
+    content: { type: string; text?: string }[];
+    structuredContent?: Record<string, unknown>;
+  }> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        getTaskTree: getTaskTree as QuireClient["getTaskTree"],
+        ...overrides,
+      }),
+    });
+    return (await handler(
+      { projectId: "web", ...params },
+      createMockExtra({ quireToken: "token" })
+    )) as Awaited<ReturnType<typeof callTool>>;
+  }
+
+  it("should register the quire.projectMetrics tool", () => {
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.projectMetrics",
+      expect.objectContaining({ annotations: { readOnlyHint: true } }),
+      expect.any(Function)
+    );
+  });
+
+  it("should report the last four weeks by default", async () => {
+    const result = await callTool({});
+
+    expect(getTaskTree).toHaveBeenCalledWith("web", undefined);
+    expect(result.structuredContent).toMatchObject({
+      projectId: "web",
+      timeZone: "Europe/Paris",
+      from: "2026-09-21",
+      to: "2026-10-19",
+      interval: "week",
+      totals: { created: 2, completed: 2 },
+      leadTime: { averageDays: 7.5, tasks: 2 },
+      scanned: 2,
+      truncated: false,
+    });
+    const text = extractTextContent(result);
+    expect(text).toContain("## web: 2026-09-21 to 2026-10-19 by week");
+    expect(text).toContain("average lead time: 7.5 days");
+    expect(text).toContain("```mermaid\nxychart-beta");
+    expect(text).toContain("| Ann | 1 |");
+    expect(text).toContain("| (unassigned) | 1 |");
+    expect(text).toContain("### Completed by tag");
+  });
+
+  it("should take a relative range and daily interval", async () => {
+    const result = await callTool({
+      from: "-2d",
+      to: "yesterday",
+      interval: "day",
+      maxNodes: 50,
+    });
+
+    expect(getTaskTree).toHaveBeenCalledWith("web", { maxNodes: 50 });
+    expect(result.structuredContent).toMatchObject({
+      from: "2026-10-17",
+      to: "2026-10-18",
+      series: [
+        { start: "2026-10-17", created: 0, completed: 1, open: 0 },
+        { start: "2026-10-18", created: 0, completed: 0, open: 0 },
+      ],
+    });
+    expect(
+      (result.structuredContent?.["mermaid"] as { burndown: string }).burndown
+    ).toContain("line [0, 0]");
+  });
+
+  it("should leave out empty throughput tables", async () => {
+    const result = await callTool({ from: "2026-01-01", to: "2026-01-31" });
+
+    const text = extractTextContent(result);
+    expect(text).toContain("Created: 0, completed: 0\n");
+    expect(text).not.toContain("### Completed");
+  });
+
+  it("should note truncated task trees", async () => {
+    getTaskTree.mockResolvedValueOnce({
+      success: true,
+      data: { roots, nodeCount: 2, truncated: true, limitReached: "maxNodes" },
+    });
+
+    const result = await callTool({});
+
+    expect(extractTextContent(result)).toContain(
+      "Only the first 2 tasks were scanned"
+    );
+  });
+
+  it("should reject invalid ranges", async () => {
+    const cases = [
+      [{ from: "someday" }, "'from': Unrecognized date"],
+      [{ to: "someday" }, "'to': Unrecognized date"],
+      [{ from: "tomorrow" }, "'from' (2026-10-20) is after 'to' (2026-10-19)"],
+      [
+        { from: "2026-01-01", interval: "day" },
+        "The range has 292 days; at most 120",
+      ],
+    ] as const;
+
+    for (const [params, message] of cases) {
+      const result = await callTool(params);
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(message);
+    }
+    expect(getQuireClient).not.toHaveBeenCalled();
+  });
+
+  it("should return errors from Quire", async () => {
+    const result = await callTool(
+      {},
+      { getTaskTree: () => Promise.resolve(mockErrors.serverError()) }
+    );
+
+    expect(isErrorResponse(result)).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const result = (await handler({ projectId: "web" }, createMockExtra())) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    };
+
+    expect(isErrorResponse(result)).toBe(true);
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * quire.projectMetrics Tool
+ *
+ * Delivery analytics for a project over a date range, computed from the
+ * `createdAt` and `completedAt` of its tasks: tasks created and completed
+ * per day or week, the number of open tasks at the end of each period
+ * (burndown), average lead time, and completed tasks per assignee and
+ * tag. Series are returned as structured data and as Mermaid xychart
+ * snippets that clients can render.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { METRICS_DEFAULT_FROM, METRICS_MAX_POINTS } from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import type { QuireTask } from "../quire/types.js";
+import {
+  getDateInputOptions,
+  parseDateInput,
+  toLocalDate,
+  type DateInputOptions,
+} from "../utils/dates.js";
+import { DATE_INPUT_HINT } from "./date-input.js";
+import { NameResolver, type ResolveResult } from "./resolver.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMarkdownTable,
+  formatMessage,
+  formatValidationError,
+  flattenTaskTree,
+  sourceReadSchema,
+  sourceReadClient,
+  withMirrorFreshness,
+} from "./utils.js";
+import { mirrorOutputFields } from "./output-schemas.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MetricsInterval = "day" | "week";
+
+/**
+ * Counts for one day or week of the range
+ */
+interface MetricsPoint {
+  /** First day of the period (the range start for a partial first week) */
+  start: string;
+  created: number;
+  completed: number;
+  /** Open tasks at the end of the period */
+  open: number;
+}
+
+interface ThroughputRow<Id> {
+  id: Id;
+  name: string;
+  completed: number;
+}
+
+/**
+ * Metrics of a set of tasks over a date range
+ */
+interface ProjectMetrics {
+  from: string;
+  to: string;
+  interval: MetricsInterval;
+  series: MetricsPoint[];
+  totals: { created: number; completed: number };
+  /** Average days from creation to completion of the tasks completed */
+  leadTime: { averageDays: number | null; tasks: number };
+  throughput: {
+    byAssignee: ThroughputRow<string>[];
+    byTag: ThroughputRow<number>[];
+    unassigned: number;
+  };
+}
+
+const ThroughputRowSchema = z.object({
+  name: z.string(),
+  completed: z.number(),
+});
+
+/**
+ * Structured output: series, summary figures and charts
+ */
+const ProjectMetricsOutputSchema = z.object({
+  projectId: z.string(),
+  timeZone: z.string(),
+  from: z.string(),
+  to: z.string(),
+  interval: z.enum(["day", "week"]),
+  series: z.array(
+    z.object({
+      start: z.string(),
+      created: z.number(),
+      completed: z.number(),
+      open: z.number(),
+    })
+  ),
+  totals: z.object({ created: z.number(), completed: z.number() }),
+  leadTime: z.object({
+    averageDays: z.number().nullable(),
+    tasks: z.number(),
+  }),
+  throughput: z.object({
+    byAssignee: z.array(ThroughputRowSchema.extend({ id: z.string() })),
+    byTag: z.array(ThroughputRowSchema.extend({ id: z.number() })),
+    unassigned: z.number(),
+  }),
+  mermaid: z.object({
+    flow: z.string().describe("Created (bars) vs completed (line) chart"),
+    burndown: z.string().describe("Open tasks chart"),
+  }),
+  scanned: z.number(),
+  truncated: z.boolean(),
+  ...mirrorOutputFields,
+});
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * First day of each period from `from` to `to`. Weeks are aligned to the
+ * week start, so a range starting mid-week begins with a partial week.
+ */
+/** @internal Exported for testing */
+export function periodStarts(
+  from: string,
+  to: string,
+  interval: MetricsInterval,
+  weekStart: number
+): string[] {
+  const starts = [from];
+  let next = addDays(from, 1);
+  if (interval === "week") {
+    const weekday = new Date(Date.parse(from)).getUTCDay();
+    next = addDays(from, 7 - ((weekday - weekStart + 7) % 7));
+  }
+  const step = interval === "week" ? 7 : 1;
+  for (; next <= to; next = addDays(next, step)) {
+    starts.push(next);
+  }
+  return starts;
+}
+
+function addThroughput<Id>(
+  rows: Map<Id, ThroughputRow<Id>>,
+  id: Id,
+  name: string
+): void {
+  const row = rows.get(id) ?? { id, name, completed: 0 };
+  row.completed++;
+  rows.set(id, row);
+}
+
+function sortThroughput<Id>(
+  rows: Map<Id, ThroughputRow<Id>>
+): ThroughputRow<Id>[] {
+  return [...rows.values()].sort(
+    (a, b) => b.completed - a.completed || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Compute created/completed series, burndown, lead time and throughput
+ * for tasks between two dates (inclusive), by day in the time zone.
+ * Tasks without a creation date count as created before the range.
+ */
+/** @internal Exported for testing */
+export function computeProjectMetrics(
+  tasks: QuireTask[],
+  range: { from: string; to: string; interval: MetricsInterval },
+  options: DateInputOptions
+): ProjectMetrics {
+  const { from, to, interval } = range;
+  const starts = periodStarts(from, to, interval, options.weekStart);
+  const ends = starts.map((_, i) => {
+    const next = starts[i + 1];
+    return next === undefined ? to : addDays(next, -1);
+  });
+  const series: MetricsPoint[] = starts.map((start) => ({
+    start,
+    created: 0,
+    completed: 0,
+    open: 0,
+  }));
+  const periodOf = (day: string): MetricsPoint | undefined =>
+    day < from || day > to
+      ? undefined
+      : series[ends.findIndex((end) => day <= end)];
+
+  const byAssignee = new Map<string, ThroughputRow<string>>();
+  const byTag = new Map<number, ThroughputRow<number>>();
+  let unassigned = 0;
+  let leadTimeDays = 0;
+  let leadTimeTasks = 0;
+
+  for (const task of tasks) {
+    const created =
+      task.createdAt && toLocalDate(task.createdAt, options.timeZone);
+    const completed =
+      task.completedAt && toLocalDate(task.completedAt, options.timeZone);
+
+    const createdIn = created ? periodOf(created) : undefined;
+    if (createdIn) createdIn.created++;
+    series.forEach((point, i) => {
+      const end = ends[i] ?? to;
+      if ((!created || created <= end) && !(completed && completed <= end)) {
+        point.open++;
+      }
+    });
+
+    const completedIn = completed ? periodOf(completed) : undefined;
+    if (!completedIn) continue;
+    completedIn.completed++;
+
+    if (task.createdAt && task.completedAt) {
+      leadTimeDays +=
+        (Date.parse(task.completedAt) - Date.parse(task.createdAt)) / DAY_MS;
+      leadTimeTasks++;
+    }
+    const assignees = task.assignees ?? [];
+    if (assignees.length === 0) unassigned++;
+    for (const user of assignees) {
+      addThroughput(byAssignee, user.id, user.name);
+    }
+    for (const tag of task.tags ?? []) {
+      addThroughput(byTag, tag.id, tag.name);
+    }
+  }
+
+  return {
+    from,
+    to,
+    interval,
+    series,
+    totals: {
+      created: series.reduce((sum, point) => sum + point.created, 0),
+      completed: series.reduce((sum, point) => sum + point.completed, 0),
+    },
+    leadTime: {
+      averageDays:
+        leadTimeTasks > 0
+          ? Math.round((leadTimeDays / leadTimeTasks) * 10) / 10
+          : null,
+      tasks: leadTimeTasks,
+    },
+    throughput: {
+      byAssignee: sortThroughput(byAssignee),
+      byTag: sortThroughput(byTag),
+      unassigned,
+    },
+  };
+}
+
+/**
+ * Render series as a Mermaid xychart, labelling each point by its
+ * month and day
+ */
+/** @internal Exported for testing */
+export function formatMermaidXyChart(
+  title: string,
+  starts: string[],
+  lines: { kind: "bar" | "line"; values: number[] }[]
+): string {
+  const labels = starts.map((start) => `"${start.slice(5)}"`);
+  return [
+    "xychart-beta",
+    `  title "${title}"`,
+    `  x-axis [${labels.join(", ")}]`,
+    `  y-axis "Tasks"`,
+    ...lines.map(({ kind, values }) => `  ${kind} [${values.join(", ")}]`),
+  ].join("\n");
+}
+
+/**
+ * Summarize the metrics as Markdown with the charts in mermaid blocks
+ */
+function formatMetricsReport(
+  projectId: string,
+  metrics: ProjectMetrics,
+  charts: { flow: string; burndown: string }
+): string {
+  const { totals, leadTime, throughput } = metrics;
+  const sections = [
+    `## ${projectId}: ${metrics.from} to ${metrics.to} by ${metrics.interval}`,
+    `Created: ${String(totals.created)}, completed: ${String(totals.completed)}` +
+      (leadTime.averageDays === null
+        ? ""
+        : `, average lead time: ${String(leadTime.averageDays)} days`),
+    "```mermaid\n" + charts.flow + "\n```",
+    "```mermaid\n" + charts.burndown + "\n```",
+  ];
+  if (throughput.byAssignee.length > 0 || throughput.unassigned > 0) {
+    const rows: unknown[] = [...throughput.byAssignee];
+    if (throughput.unassigned > 0) {
+      rows.push({ name: "(unassigned)", completed: throughput.unassigned });
+    }
+    sections.push(
+      "### Completed by assignee\n\n" +
+        formatMarkdownTable(rows, ["name", "completed"])
+    );
+  }
+  if (throughput.byTag.length > 0) {
+    sections.push(
+      "### Completed by tag\n\n" +
+        formatMarkdownTable(throughput.byTag, ["name", "completed"])
+    );
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Resolve a range boundary to the day it falls on in the time zone
+ */
+function parseDay(
+  field: string,
+  input: string,
+  options: DateInputOptions
+): ResolveResult<string> {
+  const result = parseDateInput(input, options);
+  if (!result.success) {
+    return {
+      success: false,
+      response: formatValidationError(`'${field}': ${result.error}`),
+    };
+  }
+  return {
+    success: true,
+    data: toLocalDate(result.value, options.timeZone) ?? result.value,
+  };
+}
+
+/**
+ * Register the quire.projectMetrics tool with the MCP server
+ */
+export function registerProjectMetricsTool(server: McpServer): void {
+  server.registerTool(
+    "quire.projectMetrics",
+    {
+      description:
+        "Compute delivery metrics for a project over a date range: tasks " +
+        "created vs completed per day or week, open-task burndown, average " +
+        "lead time (creation to completion), and completed tasks by " +
+        "assignee and tag. Returns structured series plus Mermaid xychart " +
+        "snippets.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
+        from: z
+          .string()
+          .optional()
+          .describe(
+            `First day of the range: ${DATE_INPUT_HINT} ` +
+              `(default: '${METRICS_DEFAULT_FROM}')`
+          ),
+        to: z
+          .string()
+          .optional()
+          .describe("Last day of the range (default: 'today')"),
+        interval: z
+          .enum(["day", "week"])
+          .optional()
+          .describe("Period of each point in the series (default: 'week')"),
+        maxNodes: z
+          .number()
+          .int()
+          .min(1)
+          .max(5000)
+          .optional()
+          .describe("Maximum number of tasks to scan (default: 500)"),
+        ...sourceReadSchema,
+      }),
+      outputSchema: ProjectMetricsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async (
+      { projectId, from, to, interval, maxNodes, fresh, source },
+      extra
+    ) => {
+      const options = getDateInputOptions();
+      const fromDay = parseDay("from", from ?? METRICS_DEFAULT_FROM, options);
+      if (!fromDay.success) {
+        return fromDay.response;
+      }
+      const toDay = parseDay("to", to ?? "today", options);
+      if (!toDay.success) {
+        return toDay.response;
+      }
+      if (fromDay.data > toDay.data) {
+        return formatValidationError(
+          `'from' (${fromDay.data}) is after 'to' (${toDay.data}).`
+        );
+      }
+      const period = interval ?? "week";
+      const points = periodStarts(
+        fromDay.data,
+        toDay.data,
+        period,
+        options.weekStart
+      ).length;
+      if (points > METRICS_MAX_POINTS) {
+        return formatValidationError(
+          `The range has ${String(points)} ${period}s; at most ` +
+            `${String(METRICS_MAX_POINTS)} are supported. Shorten the ` +
+            "range or use a longer interval."
+        );
+      }
+
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const reader = sourceReadClient(clientResult.client, { fresh, source });
+      if (!reader.success) {
+        return reader.response;
+      }
+      const client = reader.client;
+
+      const project = await new NameResolver(client).project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+      const tree = await client.getTaskTree(
+        project.data,
+        maxNodes === undefined ? undefined : { maxNodes }
+      );
+      if (!tree.success) {
+        return formatError(tree.error, "task");
+      }
+
+      const tasks = flattenTaskTree(tree.data.roots);
+      const metrics = computeProjectMetrics(
+        tasks,
+        { from: fromDay.data, to: toDay.data, interval: period },
+        options
+      );
+      const starts = metrics.series.map((point) => point.start);
+      const charts = {
+        flow: formatMermaidXyChart("Created vs completed", starts, [
+          { kind: "bar", values: metrics.series.map((p) => p.created) },
+          { kind: "line", values: metrics.series.map((p) => p.completed) },
+        ]),
+        burndown: formatMermaidXyChart("Open tasks", starts, [
+          { kind: "line", values: metrics.series.map((p) => p.open) },
+        ]),
+      };
+
+      const sections = [formatMetricsReport(project.data, metrics, charts)];
+      if (tree.data.truncated) {
+        sections.push(
+          `_Only the first ${String(tree.data.nodeCount)} tasks were ` +
+            "scanned. Raise maxNodes to include the rest._"
+        );
+      }
+      return withMirrorFreshness(
+        formatMessage(sections.join("\n\n"), {
+          projectId: project.data,
+          timeZone: options.timeZone,
+          ...metrics,
+          mermaid: charts,
+          scanned: tasks.length,
+          truncated: tree.data.truncated,
+        }),
+        client
+      );
+    }
+  );
+}
@@ -226,6 +226,37 @@ describe("Project Tools", () => {
       expect(mockClient.getProject).toHaveBeenCalledWith("my-project");
     });
 
+    it("should bypass the response cache when fresh is set", async () => {
+      const freshClient = createMockClient({
+        getProject: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: { oid: "proj-oid", id: "my-project", name: "My Project" },
+        }),
+      });
+      const mockClient = createMockClient({
+        fresh: vi.fn(() => freshClient),
+      });
+
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: true,
+        client: mockClient,
+      });
+
+      const tool = registeredTools.get("quire.getProject");
+      expect(tool).toBeDefined();
+      if (!tool) return;
+      const result = (await tool.handler(
+        { id: "my-project", fresh: true },
+        createMockExtra({ quireToken: "token" })
+      )) as {
+        isError?: boolean;
+        content: { type: string; text?: string }[];
+      };
+
+      expect(isErrorResponse(result)).toBe(false);
+      expect(freshClient.getProject).toHaveBeenCalledWith("my-project");
+    });
+
     it("should handle NOT_FOUND error", async () => {
       const mockClient = createMockClient({
         getProject: vi.fn().mockResolvedValueOnce(mockErrors.notFound()),
@@ -417,10 +448,12 @@ describe("Project Tools", () => {
       )) as {
         isError?: boolean;
         content: { type: string; text?: string }[];
+        structuredContent?: unknown;
       };
 
       expect(isErrorResponse(result)).toBe(false);
       expect(extractTextContent(result)).toContain("Task 1");
+      expect(result.structuredContent).toEqual({ tasks: mockTasks });
       expect(mockClient.exportProject).toHaveBeenCalledWith(
         "my-project",
         undefined,
@@ -451,10 +484,12 @@ describe("Project Tools", () => {
       )) as {
         isError?: boolean;
         content: { type: string; text?: string }[];
+        structuredContent?: unknown;
       };
 
       expect(isErrorResponse(result)).toBe(false);
       expect(extractTextContent(result)).toContain("id,name");
+      expect(result.structuredContent).toEqual({ csv: csvData });
       expect(mockClient.exportProject).toHaveBeenCalledWith(
         "my-project",
         "csv",
@@ -7,12 +7,26 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { QuireProjectSchema } from "../quire/schemas.js";
+import {
+  ProjectExportOutputSchema,
+  ProjectListOutputSchema,
+  ProjectOutputSchema,
+} from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  formatProjected,
+  responseShapeSchema,
+  paginationSchema,
+  paginate,
+  formatPage,
   formatMessage,
+  formatValidationError,
   buildParams,
+  freshReadSchema,
+  readClient,
 } from "./utils.js";
 
 /**
@@ -46,28 +60,51 @@ export function registerProjectTools(server: McpServer): void {
           .describe(
             "Whether to return only projects to which you can add tasks. Default: false."
           ),
+        ...responseShapeSchema,
+        ...paginationSchema,
+        ...freshReadSchema,
       }),
+      outputSchema: ProjectListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ organizationId, archived, addTask }, extra) => {
+    async (
+      {
+        organizationId,
+        archived,
+        addTask,
+        format,
+        fields,
+        limit,
+        cursor,
+        fresh,
+      },
+      extra
+    ) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
       const options = buildParams({ archived, addTask });
 
-      const result = await clientResult.client.listProjects(
-        organizationId,
-        options
-      );
+      const result = await client.listProjects(organizationId, options);
       if (!result.success) {
         return formatError(result.error, "project");
       }
 
-      return formatSuccess(result.data);
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        { tool: "listProjects", organizationId, archived, addTask }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return formatPage(paged.page, "projects", "project", { format, fields });
     }
   );
 
@@ -84,23 +121,27 @@ export function registerProjectTools(server: McpServer): void {
           .describe(
             "The project ID (e.g., 'my-project') or OID (unique identifier)"
           ),
+        ...responseShapeSchema,
+        ...freshReadSchema,
       }),
+      outputSchema: ProjectOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ id }, extra) => {
+    async ({ id, format, fields, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.getProject(id);
+      const result = await client.getProject(id);
       if (!result.success) {
         return formatError(result.error, "project");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(result.data, "project", { format, fields });
     }
   );
 
@@ -138,6 +179,7 @@ export function registerProjectTools(server: McpServer): void {
           .optional()
           .describe("User IDs to remove from followers"),
       }),
+      outputSchema: QuireProjectSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -208,6 +250,7 @@ export function registerProjectTools(server: McpServer): void {
             "Whether to merge multiple values of the same header into one column (CSV only). Default: false."
           ),
       }),
+      outputSchema: ProjectExportOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
@@ -260,9 +303,10 @@ export function registerProjectTools(server: McpServer): void {
 
       // Format output based on export type
       if (format === "csv") {
-        return formatMessage(result.data as string);
+        const csv = result.data as string;
+        return formatMessage(csv, { csv });
       }
-      return formatSuccess(result.data);
+      return formatSuccess(result.data, { tasks: result.data });
     }
   );
 }
@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerQueryTasksTool } from "./query-tasks.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { QuireTaskTree, QuireTaskTreeNode } from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+interface ToolResult {
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+  structuredContent?: {
+    tasks?: { id: number; projectId: string }[];
+    groups?: { key: string; count: number }[];
+    total: number;
+    nextCursor?: string;
+    scanned: number;
+    truncated: string[];
+  };
+}
+
+function node(
+  id: number,
+  fields: Partial<QuireTaskTreeNode> = {}
+): QuireTaskTreeNode {
+  return {
+    oid: `t${String(id)}`,
+    id,
+    name: `Task ${String(id)}`,
+    children: [],
+    ...fields,
+  };
+}
+
+const trees: Record<string, QuireTaskTree> = {
+  web: {
+    roots: [
+      node(1, {
+        status: { value: 0, name: "To-Do" },
+        priority: { value: 0, name: "Medium" },
+        assignees: [{ id: "test-user", name: "Test User" }],
+        children: [
+          node(2, {
+            status: { value: 0, name: "To-Do" },
+            priority: { value: 2, name: "Urgent" },
+            due: "2026-10-20",
+            assignees: [{ id: "test-user", name: "Test User" }],
+          }),
+        ],
+      }),
+      node(3, { status: { value: 100, name: "Completed" } }),
+    ],
+    nodeCount: 3,
+    truncated: false,
+  },
+  api: {
+    roots: [
+      node(4, {
+        name: "API task",
+        status: { value: 0, name: "To-Do" },
+        priority: { value: 1, name: "High" },
+      }),
+    ],
+    nodeCount: 1,
+    truncated: true,
+    limitReached: "maxNodes",
+  },
+};
+
+describe("quire.queryTasks tool", () => {
+  let server: McpServer;
+  let handler: (
+    params: Record<string, unknown>,
+    extra: unknown
+  ) => Promise<unknown>;
+  let getTaskTree: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+
+    server = {
+      registerTool: vi.fn(
+        (_name: string, _config: unknown, callback: typeof handler) => {
+          handler = callback;
+        }
+      ),
+    } as unknown as McpServer;
+    registerQueryTasksTool(server);
+
+    getTaskTree = vi.fn((projectId: string) =>
+      Promise.resolve({ success: true, data: trees[projectId] })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): Promise<ToolResult> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        getTaskTree: getTaskTree as QuireClient["getTaskTree"],
+        ...overrides,
+      }),
+    });
+    return (await handler(
+      params,
+      createMockExtra({ quireToken: "token" })
+    )) as ToolResult;
+  }
+
+  const ids = (result: ToolResult): number[] | undefined =>
+    result.structuredContent?.tasks?.map((t) => t.id);
+
+  it("should register the quire.queryTasks tool", () => {
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.queryTasks",
+      expect.objectContaining({ annotations: { readOnlyHint: true } }),
+      expect.any(Function)
+    );
+  });
+
+  it("should filter subtasks across projects and report truncation", async () => {
+    const result = await callTool({
+      query: "project:web,api,web -status:done",
+      sort: "-priority",
+    });
+
+    expect(getTaskTree).toHaveBeenCalledTimes(2);
+    expect(result.structuredContent).toMatchObject({
+      tasks: [
+        { id: 2, projectId: "web" },
+        { id: 4, projectId: "api" },
+        { id: 1, projectId: "web" },
+      ],
+      total: 3,
+      scanned: 4,
+      truncated: ["api"],
+    });
+    expect(result.structuredContent?.tasks?.[0]).not.toHaveProperty("children");
+    expect(result.content.at(-1)?.text).toContain(
+      "Task trees were truncated for: api"
+    );
+  });
+
+  it("should resolve assignee:me and relative dates", async () => {
+    const getMe = vi.fn(createMockClient().getMe);
+
+    const result = await callTool(
+      { query: "project:web assignee:me due<+7d" },
+      { getMe }
+    );
+
+    expect(getMe).toHaveBeenCalledTimes(1);
+    expect(ids(result)).toEqual([2]);
+  });
+
+  it("should not fetch the current user when the query does not need it", async () => {
+    const getMe = vi.fn();
+
+    await callTool({ query: "project:web tag:none" }, { getMe });
+
+    expect(getMe).not.toHaveBeenCalled();
+  });
+
+  it("should accept project links and pass maxNodes", async () => {
+    await callTool({
+      query: "project:https://quire.io/w/web",
+      maxNodes: 50,
+    });
+
+    expect(getTaskTree).toHaveBeenCalledWith("web", { maxNodes: 50 });
+  });
+
+  it("should paginate ungrouped results", async () => {
+    const first = await callTool({ query: "project:web", limit: 2 });
+    expect(ids(first)).toEqual([1, 2]);
+    expect(first.content.at(-1)?.text).toContain("Showing tasks 1-2 of 3");
+
+    const second = await callTool({
+      query: "project:web",
+      cursor: first.structuredContent?.nextCursor,
+    });
+    expect(ids(second)).toEqual([3]);
+
+    const mismatched = await callTool({
+      query: "project:api",
+      cursor: first.structuredContent?.nextCursor,
+    });
+    expect(isErrorResponse(mismatched)).toBe(true);
+  });
+
+  it("should group results as Markdown sections", async () => {
+    const result = await callTool({
+      query: "project:web,api",
+      groupBy: "status",
+    });
+
+    expect(result.structuredContent?.groups).toMatchObject([
+      { key: "To-Do", count: 3 },
+      { key: "Completed", count: 1 },
+    ]);
+    const text = extractTextContent(result);
+    expect(text).toContain("## To-Do (3)\n- #1 Task 1 (web)\n");
+    expect(text).toContain("- #4 API task (api)");
+    expect(text).toContain("Task trees were truncated for: api");
+  });
+
+  it("should report when grouped queries match nothing", async () => {
+    const result = await callTool({
+      query: "project:web nothing-matches",
+      groupBy: "project",
+    });
+
+    expect(extractTextContent(result)).toBe("No matching tasks.");
+  });
+
+  it("should shape the task list", async () => {
+    const result = await callTool({
+      query: "project:web status:done",
+      format: "compact",
+    });
+
+    expect(extractTextContent(result)).toBe(
+      '[{"oid":"t3","id":3,"name":"Task 3","status":{"name":"Completed"}}]'
+    );
+  });
+
+  it("should validate the query before calling Quire", async () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ query: "assignee:me" }, "Add a project: term"],
+      [{ query: "project:web owner:x" }, 'Unknown field "owner"'],
+      [{ query: "project:web", sort: "size" }, 'Unknown sort key "size"'],
+      [
+        { query: "project:web", groupBy: "tag", limit: 5 },
+        "groupBy cannot be combined",
+      ],
+    ];
+
+    for (const [params, message] of cases) {
+      const result = await callTool(params);
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(message);
+    }
+    expect(getQuireClient).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid filter values and too many projects", async () => {
+    const priority = await callTool({ query: "project:web priority:soon" });
+    expect(extractTextContent(priority)).toContain('Unknown priority "soon"');
+
+    const projects = Array.from({ length: 11 }, (_, i) => `p${String(i)}`);
+    const tooMany = await callTool({ query: `project:${projects.join(",")}` });
+    expect(extractTextContent(tooMany)).toContain("Too many projects: 11");
+    expect(getTaskTree).not.toHaveBeenCalled();
+  });
+
+  it("should return errors from Quire", async () => {
+    const tree = await callTool(
+      { query: "project:web" },
+      { getTaskTree: () => Promise.resolve(mockErrors.notFound()) }
+    );
+    expect(isErrorResponse(tree)).toBe(true);
+
+    const me = await callTool(
+      { query: "project:web assignee:me" },
+      { getMe: () => Promise.resolve(mockErrors.unauthorized()) }
+    );
+    expect(isErrorResponse(me)).toBe(true);
+
+    const project = await callTool(
+      { query: "project:web" },
+      { getProject: () => Promise.resolve(mockErrors.serverError()) }
+    );
+    expect(isErrorResponse(project)).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const result = (await handler(
+      { query: "project:web" },
+      createMockExtra()
+    )) as ToolResult;
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+});
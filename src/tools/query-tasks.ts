@@ -0,0 +1,335 @@
+/**
+ * quire.queryTasks Tool
+ *
+ * Find tasks across projects with a small filter language, e.g.
+ * `project:web,api assignee:me due<+7d -status:done`. The API has no
+ * cross-project search, so each project's task tree is fetched and the
+ * query is evaluated locally (see task-query.ts).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { QUERY_TASKS_MAX_PROJECTS } from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import { QuireTaskSchema } from "../quire/schemas.js";
+import { getDateInputOptions } from "../utils/dates.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMessage,
+  formatProjected,
+  formatPageSummary,
+  formatValidationError,
+  paginate,
+  paginationSchema,
+  responseShapeSchema,
+  sourceReadSchema,
+  sourceReadClient,
+  withMirrorFreshness,
+  flattenTaskTree,
+} from "./utils.js";
+import { mirrorOutputFields, projectable } from "./output-schemas.js";
+import { NameResolver } from "./resolver.js";
+import {
+  GROUP_KEYS,
+  SORT_KEYS,
+  compileTaskQuery,
+  groupTasks,
+  parseSort,
+  parseTaskQuery,
+  queryUsesMe,
+  sortTasks,
+  type ProjectTask,
+  type QueryContext,
+} from "./task-query.js";
+
+/**
+ * Task with the project it was found in
+ */
+const QueriedTaskSchema = QuireTaskSchema.extend({ projectId: z.string() });
+
+type QueriedTask = z.infer<typeof QueriedTaskSchema>;
+
+/**
+ * Structured output: matching tasks, as a page or in groups
+ */
+const QueryTasksOutputSchema = z.object({
+  tasks: z.array(projectable(QueriedTaskSchema)).optional(),
+  groups: z
+    .array(
+      z.object({
+        key: z.string(),
+        count: z.number(),
+        tasks: z.array(QueriedTaskSchema),
+      })
+    )
+    .optional(),
+  total: z.number(),
+  nextCursor: z.string().optional(),
+  /** Tasks fetched and checked against the query */
+  scanned: z.number(),
+  /** Projects whose tree hit the node or depth limit */
+  truncated: z.array(z.string()),
+  ...mirrorOutputFields,
+});
+
+function toQueriedTask({ projectId, task }: ProjectTask): QueriedTask {
+  return { ...task, projectId };
+}
+
+/**
+ * Render groups as Markdown sections with one task per line
+ */
+function formatGroups(
+  groups: { key: string; tasks: ProjectTask[] }[],
+  groupBy: string
+): string {
+  if (groups.length === 0) {
+    return "No matching tasks.";
+  }
+  return groups
+    .map(({ key, tasks }) => {
+      const lines = tasks.map(({ projectId, task }) => {
+        const details = [
+          groupBy === "project" ? undefined : projectId,
+          groupBy === "status" ? undefined : task.status?.name,
+          task.due && `due ${task.due}`,
+        ]
+          .filter(Boolean)
+          .join(", ");
+        return `- #${String(task.id)} ${task.name}${details ? ` (${details})` : ""}`;
+      });
+      return [`## ${key} (${String(tasks.length)})`, ...lines].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Note naming projects whose trees were cut short
+ */
+function formatTruncation(truncated: string[]): string {
+  return (
+    `Task trees were truncated for: ${truncated.join(", ")}. ` +
+    "Raise maxNodes to scan deeper."
+  );
+}
+
+/**
+ * Register the quire.queryTasks tool with the MCP server
+ */
+export function registerQueryTasksTool(server: McpServer): void {
+  server.registerTool(
+    "quire.queryTasks",
+    {
+      description:
+        "Find tasks in one or more projects with a filter query, e.g. " +
+        "'project:web,api assignee:me due<+7d -status:done tag:bug " +
+        "priority>=high'. Fields: project (required; IDs, OIDs or names), " +
+        "assignee (me, ID or name), status (name, 0-100, todo, done, open), " +
+        "priority (low, medium, high, urgent), tag, due, start, created, " +
+        "completed, name, text. Operators: ':' (or '='), '!=', and '<', " +
+        "'<=', '>', '>=' for priority, status and dates. Dates accept " +
+        "relative forms ('today', '+7d', 'end of month'). A leading '-' " +
+        "negates a term, commas separate alternatives, 'none' matches an " +
+        "empty field, quotes keep spaces ('status:\"In Review\"') and other " +
+        "words search names and descriptions.",
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Filter query"),
+        sort: z
+          .string()
+          .optional()
+          .describe(
+            `Comma-separated sort keys (${SORT_KEYS.join(", ")}); ` +
+              "prefix with '-' for descending, e.g. '-priority,due'"
+          ),
+        groupBy: z
+          .enum(GROUP_KEYS)
+          .optional()
+          .describe(
+            "Group matching tasks; tasks with several assignees or tags " +
+              "appear in each group. Cannot be combined with limit or cursor."
+          ),
+        maxNodes: z
+          .number()
+          .int()
+          .min(1)
+          .max(5000)
+          .optional()
+          .describe(
+            "Maximum number of tasks to scan per project (default: 500)"
+          ),
+        ...responseShapeSchema,
+        ...paginationSchema,
+        ...sourceReadSchema,
+      }),
+      outputSchema: QueryTasksOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async (
+      {
+        query,
+        sort,
+        groupBy,
+        maxNodes,
+        format,
+        fields,
+        limit,
+        cursor,
+        fresh,
+        source,
+      },
+      extra
+    ) => {
+      const parsed = parseTaskQuery(query);
+      if (!parsed.success) {
+        return formatValidationError(parsed.error);
+      }
+      const sortKeys = parseSort(sort ?? "");
+      if (!sortKeys.success) {
+        return formatValidationError(sortKeys.error);
+      }
+      const { projects, terms } = parsed.data;
+      if (projects.length === 0) {
+        return formatValidationError(
+          "Add a project: term naming the projects to search, " +
+            "e.g. 'project:my-project' or 'project:web,api'"
+        );
+      }
+      if (
+        groupBy !== undefined &&
+        (limit !== undefined || cursor !== undefined)
+      ) {
+        return formatValidationError(
+          "groupBy cannot be combined with limit or cursor"
+        );
+      }
+
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const reader = sourceReadClient(clientResult.client, { fresh, source });
+      if (!reader.success) {
+        return reader.response;
+      }
+      const client = reader.client;
+
+      const resolver = new NameResolver(client);
+      const projectIds: string[] = [];
+      for (const ref of projects) {
+        const project = await resolver.project(ref);
+        if (!project.success) {
+          return project.response;
+        }
+        if (!projectIds.includes(project.data)) {
+          projectIds.push(project.data);
+        }
+      }
+      if (projectIds.length > QUERY_TASKS_MAX_PROJECTS) {
+        return formatValidationError(
+          `Too many projects: ${String(projectIds.length)} ` +
+            `(max ${String(QUERY_TASKS_MAX_PROJECTS)})`
+        );
+      }
+
+      const context: QueryContext = {
+        dateOptions: getDateInputOptions(),
+      };
+      if (queryUsesMe(terms)) {
+        const me = await client.getMe();
+        if (!me.success) {
+          return formatError(me.error, "user");
+        }
+        context.me = me.data;
+      }
+      const matches = compileTaskQuery(terms, context);
+      if (!matches.success) {
+        return formatValidationError(matches.error);
+      }
+
+      const scannedTasks: ProjectTask[] = [];
+      const truncated: string[] = [];
+      for (const projectId of projectIds) {
+        const tree = await client.getTaskTree(
+          projectId,
+          maxNodes === undefined ? undefined : { maxNodes }
+        );
+        if (!tree.success) {
+          return formatError(tree.error, "task");
+        }
+        if (tree.data.truncated) {
+          truncated.push(projectId);
+        }
+        scannedTasks.push(
+          ...flattenTaskTree(tree.data.roots).map((task) => ({
+            projectId,
+            task,
+          }))
+        );
+      }
+
+      const found = sortTasks(
+        scannedTasks.filter(({ task }) => matches.data(task)),
+        sortKeys.data
+      );
+      const notes = truncated.length > 0 ? [formatTruncation(truncated)] : [];
+
+      if (groupBy !== undefined) {
+        const groups = groupTasks(found, groupBy);
+        return withMirrorFreshness(
+          formatMessage(
+            [formatGroups(groups, groupBy), ...notes].join("\n\n"),
+            {
+              groups: groups.map(({ key, tasks }) => ({
+                key,
+                count: tasks.length,
+                tasks: tasks.map(toQueriedTask),
+              })),
+              total: found.length,
+              scanned: scannedTasks.length,
+              truncated,
+            }
+          ),
+          client
+        );
+      }
+
+      const paged = paginate(
+        found.map(toQueriedTask),
+        { limit, cursor },
+        { tool: "queryTasks", query, sort, maxNodes }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+      const { page } = paged;
+      const response = formatProjected(
+        page.items,
+        "task",
+        { format, fields },
+        (tasks) => ({
+          tasks,
+          total: page.total,
+          ...(page.nextCursor !== undefined && { nextCursor: page.nextCursor }),
+          scanned: scannedTasks.length,
+          truncated,
+        })
+      );
+      if (page.paginated) {
+        notes.unshift(formatPageSummary(page, "tasks"));
+      }
+      return withMirrorFreshness(
+        {
+          ...response,
+          content: [
+            ...response.content,
+            ...notes.map((text) => ({ type: "text" as const, text })),
+          ],
+        },
+        client
+      );
+    }
+  );
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerRateLimitTool } from "./rate-limit.js";
+import {
+  createMockExtra,
+  createMockClient,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+describe("quire.getRateLimit tool", () => {
+  let server: McpServer;
+  let registeredTools: Map<
+    string,
+    {
+      description: string;
+      handler: (
+        params: Record<string, unknown>,
+        extra: unknown
+      ) => Promise<unknown>;
+    }
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    registeredTools = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          config: { description: string },
+          handler: (
+            params: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          registeredTools.set(name, {
+            description: config.description,
+            handler,
+          });
+        }
+      ),
+    } as unknown as McpServer;
+
+    registerRateLimitTool(server);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should register the quire.getRateLimit tool", () => {
+    expect(server.registerTool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has("quire.getRateLimit")).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const tool = registeredTools.get("quire.getRateLimit");
+    expect(tool).toBeDefined();
+    if (!tool) return;
+    const result = (await tool.handler({}, createMockExtra())) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    };
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(extractTextContent(result)).toContain("Authentication Error");
+  });
+
+  it("should return the remaining budget", async () => {
+    const mockClient = createMockClient({
+      getRateLimitBudget: vi.fn().mockReturnValue({
+        windows: [
+          { limit: 25, windowMs: 60000, remaining: 20, fullResetMs: 12000 },
+        ],
+        queued: 2,
+      }),
+    });
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: mockClient,
+    });
+
+    const tool = registeredTools.get("quire.getRateLimit");
+    expect(tool).toBeDefined();
+    if (!tool) return;
+    const result = (await tool.handler(
+      {},
+      createMockExtra({ quireToken: "token" })
+    )) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    };
+
+    expect(isErrorResponse(result)).toBe(false);
+    const text = extractTextContent(result);
+    expect(text).toContain('"remaining": 20');
+    expect(text).toContain('"queued": 2');
+  });
+
+  it("should report when rate limiting is disabled", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient(),
+    });
+
+    const tool = registeredTools.get("quire.getRateLimit");
+    expect(tool).toBeDefined();
+    if (!tool) return;
+    const result = (await tool.handler(
+      {},
+      createMockExtra({ quireToken: "token" })
+    )) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    };
+
+    expect(isErrorResponse(result)).toBe(false);
+    expect(extractTextContent(result)).toContain("not enabled");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * quire.getRateLimit Tool
+ *
+ * Report the remaining Quire API request budget for the current token.
+ * Useful before fanning out many calls, so the model can pace itself
+ * instead of exhausting the hourly limit.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getQuireClient } from "../quire/client-factory.js";
+import { RateLimitBudgetOutputSchema } from "./output-schemas.js";
+import { formatAuthError, formatMessage, formatSuccess } from "./utils.js";
+
+/**
+ * Register the quire.getRateLimit tool
+ */
+export function registerRateLimitTool(server: McpServer): void {
+  server.registerTool(
+    "quire.getRateLimit",
+    {
+      description:
+        "Get the remaining Quire API request budget for the current token. " +
+        "Reports each rate limit window (per minute and per hour) with the " +
+        "requests remaining, time until fully refilled, and how many requests " +
+        "are queued waiting for budget. Does not call the Quire API.",
+      inputSchema: z.object({}),
+      outputSchema: RateLimitBudgetOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async (_args, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+
+      const budget = clientResult.client.getRateLimitBudget();
+      if (!budget) {
+        return formatMessage(
+          "Client-side rate limiting is not enabled for this client.",
+          { windows: [], queued: 0 }
+        );
+      }
+
+      return formatSuccess(budget);
+    }
+  );
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  registerRecentEventsTool,
+  selectRecentEvents,
+} from "./recent-events.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { QuireProject } from "../quire/types.js";
+import {
+  getQuireEventLog,
+  resetQuireEventLog,
+  type QuireEvent,
+} from "../quire/webhook-events.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+type ToolHandler = (
+  params: Record<string, unknown>,
+  extra: unknown
+) => Promise<{
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+  structuredContent?: Record<string, unknown>;
+}>;
+
+const web = { oid: "P1", id: "web", name: "Website" };
+const hr = { oid: "P2", id: "hr", name: "Hiring" };
+
+function event(
+  seq: number,
+  receivedAt: string,
+  fields: Partial<QuireEvent> = {}
+): QuireEvent {
+  return {
+    seq,
+    kind: "task.updated",
+    receivedAt,
+    project: web,
+    task: { oid: `T${String(seq)}`, id: seq, name: `Task ${String(seq)}` },
+    ...fields,
+  };
+}
+
+describe("selectRecentEvents", () => {
+  const options = { timeZone: "Europe/Paris", weekStart: 1 };
+  const events = [
+    event(1, "2026-10-18T21:30:00.000Z"),
+    event(2, "2026-10-18T22:30:00.000Z", { kind: "task.completed" }),
+    event(3, "2026-10-19T08:00:00.000Z", { project: hr }),
+    event(4, "2026-10-19T09:00:00.000Z", { kind: "task.commented" }),
+  ];
+  const projectOids = new Set(["P1"]);
+
+  it("should return events of accessible projects, newest first", () => {
+    expect(
+      selectRecentEvents(events, { projectOids }, options).map((e) => e.seq)
+    ).toEqual([4, 2, 1]);
+  });
+
+  it("should filter by project, kind and time", () => {
+    const select = (
+      filter: Partial<Parameters<typeof selectRecentEvents>[1]>
+    ): number[] =>
+      selectRecentEvents(events, { projectOids, ...filter }, options).map(
+        (e) => e.seq
+      );
+
+    expect(select({ projectId: "P1" })).toEqual([4, 2, 1]);
+    expect(select({ projectId: "api" })).toEqual([]);
+    expect(select({ kind: "task.completed" })).toEqual([2]);
+    // 22:30 UTC on the 18th is already the 19th in Paris
+    expect(select({ since: "2026-10-19" })).toEqual([4, 2]);
+    expect(select({ since: "2026-10-19T08:30:00Z" })).toEqual([4]);
+  });
+});
+
+describe("quire.recentEvents", () => {
+  let handler: ToolHandler;
+  let listProjects: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+    resetQuireEventLog();
+
+    const server = {
+      registerTool: vi.fn(
+        (_name: string, _config: unknown, callback: ToolHandler) => {
+          handler = callback;
+        }
+      ),
+    } as unknown as McpServer;
+    registerRecentEventsTool(server);
+
+    listProjects = vi
+      .fn()
+      .mockResolvedValue({ success: true, data: [web] as QuireProject[] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown> = {}
+  ): ReturnType<ToolHandler> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        listProjects: listProjects as QuireClient["listProjects"],
+        getProject: () => Promise.resolve(mockErrors.notFound()),
+      }),
+    });
+    return handler(params, createMockExtra({ quireToken: "token" }));
+  }
+
+  function receive(type: number, project = web, id = 12): void {
+    getQuireEventLog().add({
+      type: "notification",
+      data: {
+        type,
+        text: `Change ${String(id)}`,
+        project,
+        task: { oid: `T${String(id)}`, id, name: "Launch" },
+      },
+    });
+  }
+
+  it("should explain when no events were received", async () => {
+    const result = await callTool();
+
+    expect(extractTextContent(result)).toContain(
+      "No webhook events received yet"
+    );
+    expect(result.structuredContent).toEqual({ events: [], total: 0 });
+    expect(listProjects).not.toHaveBeenCalled();
+  });
+
+  it("should list recent events of accessible projects", async () => {
+    receive(0, web, 1);
+    receive(3, hr, 2);
+    receive(8, web, 3);
+
+    const result = await callTool({ limit: 1 });
+
+    expect(extractTextContent(result)).toBe(
+      "Recent events (2):\n" +
+        "- 2026-10-19T10:00:00.000Z task.commented in Website: " +
+        "#3 Launch — Change 3\n\n" +
+        "_1 older events not shown._"
+    );
+    expect(result.structuredContent).toMatchObject({
+      events: [{ seq: 3, kind: "task.commented" }],
+      total: 2,
+    });
+  });
+
+  it("should resolve the project filter by name", async () => {
+    receive(0);
+
+    const matching = await callTool({ projectId: "Website" });
+    const other = await callTool({ projectId: "api", kind: "task.created" });
+
+    expect(matching.structuredContent).toMatchObject({ total: 1 });
+    expect(extractTextContent(other)).toBe("No matching events.");
+  });
+
+  it("should accept relative dates for since", async () => {
+    receive(0);
+
+    const today = await callTool({ since: "today" });
+    const tomorrow = await callTool({ since: "tomorrow" });
+    const invalid = await callTool({ since: "someday" });
+
+    expect(today.structuredContent).toMatchObject({ total: 1 });
+    expect(tomorrow.structuredContent).toMatchObject({ total: 0 });
+    expect(isErrorResponse(invalid)).toBe(true);
+    expect(extractTextContent(invalid)).toContain("Invalid 'since'");
+  });
+
+  it("should return project errors", async () => {
+    receive(0);
+    listProjects.mockResolvedValueOnce(mockErrors.serverError());
+
+    const failed = await callTool();
+    const ambiguous = await callTool({ projectId: "Marketing Site" });
+
+    expect(isErrorResponse(failed)).toBe(true);
+    expect(isErrorResponse(ambiguous)).toBe(true);
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const result = await handler({}, createMockExtra());
+
+    expect(isErrorResponse(result)).toBe(true);
+  });
+});
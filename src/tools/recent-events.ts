@@ -0,0 +1,222 @@
+/**
+ * quire.recentEvents Tool
+ *
+ * Lists the task events received through Quire webhooks (HTTP mode, with
+ * QUIRE_WEBHOOK_SECRET set), newest first. Only events from projects the
+ * current user can access are returned.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  RECENT_EVENTS_DEFAULT_LIMIT,
+  RECENT_EVENTS_MAX_LIMIT,
+} from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import {
+  getQuireEventLog,
+  QUIRE_EVENT_KINDS,
+  type QuireEvent,
+  type QuireEventKind,
+} from "../quire/webhook-events.js";
+import {
+  getDateInputOptions,
+  parseDateInput,
+  toLocalDate,
+  type DateInputOptions,
+} from "../utils/dates.js";
+import { NameResolver, type ResolveResult } from "./resolver.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMessage,
+  formatValidationError,
+} from "./utils.js";
+
+const QuireEventSchema = z.object({
+  seq: z.number(),
+  kind: z.enum(QUIRE_EVENT_KINDS),
+  receivedAt: z.string(),
+  project: z.object({ oid: z.string(), id: z.string(), name: z.string() }),
+  task: z.object({ oid: z.string(), id: z.number(), name: z.string() }),
+  user: z.string().optional(),
+  text: z.string().optional(),
+  url: z.string().optional(),
+});
+
+/**
+ * Structured output: matching events, newest first
+ */
+const RecentEventsOutputSchema = z.object({
+  events: z.array(QuireEventSchema),
+  total: z.number(),
+});
+
+/**
+ * Which events to return
+ */
+export interface RecentEventsFilter {
+  /** OIDs of the projects the user can access */
+  projectOids: ReadonlySet<string>;
+  /** Project ID or OID to limit events to */
+  projectId?: string;
+  kind?: QuireEventKind;
+  /** Earliest event time: a date (start of that day) or a date-time */
+  since?: string;
+}
+
+/**
+ * Select matching events, newest first
+ */
+/** @internal Exported for testing */
+export function selectRecentEvents(
+  events: QuireEvent[],
+  filter: RecentEventsFilter,
+  options: DateInputOptions
+): QuireEvent[] {
+  const { since } = filter;
+  const isRecent = (event: QuireEvent): boolean =>
+    since === undefined ||
+    (since.length === 10
+      ? (toLocalDate(event.receivedAt, options.timeZone) ?? "") >= since
+      : Date.parse(event.receivedAt) >= Date.parse(since));
+
+  return events
+    .filter(
+      (event) =>
+        filter.projectOids.has(event.project.oid) &&
+        (filter.projectId === undefined ||
+          event.project.id === filter.projectId ||
+          event.project.oid === filter.projectId) &&
+        (filter.kind === undefined || event.kind === filter.kind) &&
+        isRecent(event)
+    )
+    .reverse();
+}
+
+function formatEvent(event: QuireEvent): string {
+  const task = `#${String(event.task.id)} ${event.task.name}`;
+  const description = event.text ? ` — ${event.text}` : "";
+  return `- ${event.receivedAt} ${event.kind} in ${event.project.name}: ${task}${description}`;
+}
+
+function parseSince(
+  since: string | undefined,
+  options: DateInputOptions
+): ResolveResult<string | undefined> {
+  if (since === undefined) {
+    return { success: true, data: undefined };
+  }
+  const date = parseDateInput(since, options);
+  if (!date.success) {
+    return {
+      success: false,
+      response: formatValidationError(`Invalid 'since': ${date.error}`),
+    };
+  }
+  return { success: true, data: date.value };
+}
+
+/**
+ * Register the quire.recentEvents tool with the MCP server
+ */
+export function registerRecentEventsTool(server: McpServer): void {
+  server.registerTool(
+    "quire.recentEvents",
+    {
+      description:
+        "List recent task events (created, updated, completed, commented) " +
+        "received from Quire webhooks, newest first. Events are only " +
+        "collected by the HTTP server with QUIRE_WEBHOOK_SECRET set, and " +
+        "only the most recent are kept in memory.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .optional()
+          .describe("Only events in this project (ID, OID or name)"),
+        kind: z
+          .enum(QUIRE_EVENT_KINDS)
+          .optional()
+          .describe("Only events of this kind"),
+        since: z
+          .string()
+          .optional()
+          .describe(
+            "Only events received at or after this date or time " +
+              "(e.g., 'today', '2026-10-19T08:00:00Z')"
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(RECENT_EVENTS_MAX_LIMIT)
+          .optional()
+          .describe(
+            `Maximum number of events (default: ${String(RECENT_EVENTS_DEFAULT_LIMIT)})`
+          ),
+      }),
+      outputSchema: RecentEventsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ projectId, kind, since, limit }, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const client = clientResult.client;
+
+      const options = getDateInputOptions();
+      const from = parseSince(since, options);
+      if (!from.success) return from.response;
+
+      const events = getQuireEventLog().list();
+      if (events.length === 0) {
+        return formatMessage(
+          "No webhook events received yet. Events are recorded when the " +
+            "HTTP server receives Quire webhooks at /webhooks/quire " +
+            "(QUIRE_WEBHOOK_SECRET must be set).",
+          { events: [], total: 0 }
+        );
+      }
+
+      const projects = await client.listProjects();
+      if (!projects.success) {
+        return formatError(projects.error, "project");
+      }
+      let project: string | undefined;
+      if (projectId !== undefined) {
+        const resolved = await new NameResolver(client).project(projectId);
+        if (!resolved.success) return resolved.response;
+        project = resolved.data;
+      }
+
+      const matching = selectRecentEvents(
+        events,
+        {
+          projectOids: new Set(projects.data.map((p) => p.oid)),
+          ...(project !== undefined && { projectId: project }),
+          ...(kind !== undefined && { kind }),
+          ...(from.data !== undefined && { since: from.data }),
+        },
+        options
+      );
+      const selected = matching.slice(0, limit ?? RECENT_EVENTS_DEFAULT_LIMIT);
+      const structured = { events: selected, total: matching.length };
+      if (selected.length === 0) {
+        return formatMessage("No matching events.", structured);
+      }
+      const more =
+        matching.length > selected.length
+          ? `\n\n_${String(matching.length - selected.length)} older events not shown._`
+          : "";
+      return formatMessage(
+        `Recent events (${String(matching.length)}):\n` +
+          selected.map(formatEvent).join("\n") +
+          more,
+        structured
+      );
+    }
+  );
+}
@@ -0,0 +1,514 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  NameResolver,
+  formatMatchError,
+  matchName,
+  type NameCandidate,
+} from "./resolver.js";
+import {
+  createMockClient,
+  extractTextContent,
+  mockErrors,
+} from "./__test-utils__.js";
+import type { QuireProject } from "../quire/types.js";
+
+const project = {
+  oid: "ProjOid.1",
+  id: "marketing-site",
+  name: "Marketing Site",
+};
+
+const tags = [
+  { oid: "TagBug", id: 1, name: "Bug" },
+  { oid: "TagBugfix", id: 2, name: "Bugfix" },
+  { oid: "TagFeature", id: 3, name: "Feature request" },
+  { oid: "TagNoId", name: "Legacy" },
+];
+
+const statuses = [
+  { value: 0, name: "Backlog" },
+  { value: 40, name: "In Review" },
+  { value: 60, name: "Review Done" },
+];
+
+const members = [
+  {
+    id: "alice",
+    oid: "UserAlice",
+    name: "Alice Smith",
+    email: "alice@example.com",
+  },
+  { id: "alan", oid: "UserAlan", name: "Alan Smith" },
+  { id: "bob", oid: "UserBob", name: "Bob Jones" },
+];
+
+function createResolver(
+  overrides: Parameters<typeof createMockClient>[0] = {}
+): NameResolver {
+  return new NameResolver(
+    createMockClient({
+      getProject: vi.fn((ref: string) =>
+        Promise.resolve(
+          ref === project.id || ref === project.oid
+            ? { success: true as const, data: project as QuireProject }
+            : mockErrors.notFound()
+        )
+      ),
+      listProjects: vi.fn().mockResolvedValue({
+        success: true,
+        data: [project],
+      }),
+      listTags: vi.fn().mockResolvedValue({ success: true, data: tags }),
+      listStatuses: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: statuses }),
+      listProjectMembers: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: members }),
+      ...overrides,
+    })
+  );
+}
+
+describe("matchName", () => {
+  const candidates: NameCandidate<number>[] = [
+    { value: 1, keys: ["A1"], names: ["Bug"], label: '"Bug" (1)' },
+    { value: 2, keys: ["A2"], names: ["Bugfix"], label: '"Bugfix" (2)' },
+    { value: 3, keys: ["A3"], names: ["Big  Bang"], label: '"Big Bang" (3)' },
+  ];
+
+  it("should prefer identifiers, then exact names, then substrings", () => {
+    expect(matchName("a2", candidates)).toEqual({ kind: "found", value: 2 });
+    expect(matchName(" BUG ", candidates)).toEqual({
+      kind: "found",
+      value: 1,
+    });
+    expect(matchName("big bang", candidates)).toEqual({
+      kind: "found",
+      value: 3,
+    });
+    expect(matchName("fix", candidates)).toEqual({ kind: "found", value: 2 });
+  });
+
+  it("should report every candidate of an ambiguous stage", () => {
+    expect(matchName("b", candidates)).toEqual({
+      kind: "ambiguous",
+      labels: ['"Bug" (1)', '"Bugfix" (2)', '"Big Bang" (3)'],
+    });
+  });
+
+  it("should list all candidates when nothing matches", () => {
+    expect(matchName("feature", candidates)).toMatchObject({
+      kind: "missing",
+      labels: ['"Bug" (1)', '"Bugfix" (2)', '"Big Bang" (3)'],
+    });
+  });
+});
+
+describe("formatMatchError", () => {
+  it("should cap the number of listed candidates", () => {
+    const labels = Array.from({ length: 12 }, (_, i) => `"Tag ${i}"`);
+    const text = extractTextContent(
+      formatMatchError("Tag", "x", { kind: "missing", labels }, "Site")
+    );
+
+    expect(text).toContain('Tag "x" not found in project "Site"');
+    expect(text).toContain('"Tag 9" and 2 more');
+    expect(text).not.toContain('"Tag 10"');
+  });
+
+  it("should say when there is nothing to choose from", () => {
+    const text = extractTextContent(
+      formatMatchError("Tag", "x", { kind: "missing", labels: [] })
+    );
+
+    expect(text).toContain("There are no tags to choose from");
+  });
+});
+
+describe("NameResolver", () => {
+  describe("project", () => {
+    it("should resolve display names to project IDs", async () => {
+      const resolver = createResolver();
+
+      expect(await resolver.project("marketing site")).toEqual({
+        success: true,
+        data: "marketing-site",
+      });
+    });
+
+    it("should pass through identifiers that match no project", async () => {
+      const resolver = createResolver();
+
+      expect(await resolver.project("other-project")).toEqual({
+        success: true,
+        data: "other-project",
+      });
+      expect(await resolver.project("TaskOid.9")).toEqual({
+        success: true,
+        data: "TaskOid.9",
+      });
+    });
+
+    it("should fetch identifiers without listing projects", async () => {
+      const listProjects = vi.fn();
+      const resolver = createResolver({ listProjects });
+
+      expect(await resolver.project("ProjOid.1")).toEqual({
+        success: true,
+        data: "ProjOid.1",
+      });
+      expect(listProjects).not.toHaveBeenCalled();
+    });
+
+    it("should match identifier-like names exactly", async () => {
+      const resolver = createResolver({
+        listProjects: vi.fn().mockResolvedValue({
+          success: true,
+          data: [project, { oid: "ProjOid.2", id: "site2", name: "Site" }],
+        }),
+      });
+
+      expect(await resolver.project("site")).toEqual({
+        success: true,
+        data: "site2",
+      });
+      expect(await resolver.project("marketing")).toEqual({
+        success: true,
+        data: "marketing",
+      });
+    });
+
+    it("should reject names that match no project", async () => {
+      const result = await createResolver().project("Sales Pipeline");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(extractTextContent(result.response)).toContain(
+          'Project "Sales Pipeline" not found. Available: "Marketing Site" (marketing-site)'
+        );
+      }
+    });
+
+    it("should surface API errors", async () => {
+      const resolver = createResolver({
+        listProjects: vi.fn().mockResolvedValue(mockErrors.unauthorized()),
+      });
+
+      const result = await resolver.project("Marketing Site");
+      const fetched = await createResolver({
+        getProject: vi.fn().mockResolvedValue(mockErrors.forbidden()),
+      }).project("marketing-site");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(extractTextContent(result.response)).toContain("UNAUTHORIZED");
+      }
+      expect(fetched.success).toBe(false);
+    });
+  });
+
+  describe("tags", () => {
+    it("should resolve names, hashtags, OIDs and numeric strings", async () => {
+      const result = await createResolver().tags("marketing-site", [
+        "bug",
+        "#Feature",
+        "TagBugfix",
+        "7",
+        8,
+      ]);
+
+      expect(result).toEqual({ success: true, data: [1, 3, 2, 7, 8] });
+    });
+
+    it("should not look up tags given as IDs", async () => {
+      const listTags = vi.fn();
+      const result = await createResolver({ listTags }).tags("marketing-site", [
+        1,
+        "2",
+      ]);
+
+      expect(result).toEqual({ success: true, data: [1, 2] });
+      expect(listTags).not.toHaveBeenCalled();
+    });
+
+    it("should list candidates for ambiguous names", async () => {
+      const result = await createResolver().tags("marketing-site", ["bu"]);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(extractTextContent(result.response)).toBe(
+          'Error: Tag "bu" is ambiguous in project "Marketing Site". ' +
+            'It matches "Bug" (1), "Bugfix" (2). Use the full name or the ID.'
+        );
+      }
+    });
+
+    it("should fetch the project's tags once per resolver", async () => {
+      const listTags = vi.fn().mockResolvedValue({ success: true, data: tags });
+      const resolver = createResolver({ listTags });
+
+      await resolver.tags("Marketing Site", ["Bug"]);
+      await resolver.tags("Marketing Site", ["Bugfix"]);
+
+      expect(listTags).toHaveBeenCalledTimes(1);
+      expect(listTags).toHaveBeenCalledWith("marketing-site");
+    });
+
+    it("should resolve tags in the project of a task OID", async () => {
+      const getTask = vi.fn().mockResolvedValue({
+        success: true,
+        data: {
+          oid: "TaskOid.1",
+          id: 5,
+          name: "Task",
+          project: { oid: "OtherOid.2", id: "other", name: "Other" },
+        },
+      });
+      const listTags = vi.fn().mockResolvedValue({ success: true, data: tags });
+
+      const result = await createResolver({ getTask, listTags }).tags(
+        "TaskOid.1",
+        ["Bug"]
+      );
+
+      expect(result).toEqual({ success: true, data: [1] });
+      expect(getTask).toHaveBeenCalledWith("TaskOid.1");
+      expect(listTags).toHaveBeenCalledWith("OtherOid.2");
+    });
+
+    it("should report tasks without a project", async () => {
+      const getTask = vi.fn().mockResolvedValue({
+        success: true,
+        data: { oid: "TaskOid.1", id: 5, name: "Task" },
+      });
+
+      const result = await createResolver({ getTask }).tags("TaskOid.1", [
+        "Bug",
+      ]);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(extractTextContent(result.response)).toContain(
+          "does not belong to a project"
+        );
+      }
+    });
+
+    it("should surface task and tag lookup errors", async () => {
+      const missingTask = await createResolver({
+        getTask: vi.fn().mockResolvedValue(mockErrors.notFound()),
+      }).tags("TaskOid.1", ["Bug"]);
+      const failedTags = await createResolver({
+        listTags: vi.fn().mockResolvedValue(mockErrors.forbidden()),
+      }).tags("marketing-site", ["Bug"]);
+
+      expect(missingTask.success).toBe(false);
+      if (!missingTask.success) {
+        expect(extractTextContent(missingTask.response)).toContain(
+          "The requested task was not found"
+        );
+      }
+      expect(failedTags.success).toBe(false);
+    });
+
+    it("should stop at an unresolvable project scope", async () => {
+      const result = await createResolver().tags("Sales Pipeline", ["Bug"]);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("status", () => {
+    it("should resolve status names and numeric values", async () => {
+      const resolver = createResolver();
+
+      expect(await resolver.status("marketing-site", "in review")).toEqual({
+        success: true,
+        data: 40,
+      });
+      expect(await resolver.status("marketing-site", "60")).toEqual({
+        success: true,
+        data: 60,
+      });
+      expect(await resolver.status("marketing-site", 100)).toEqual({
+        success: true,
+        data: 100,
+      });
+    });
+
+    it("should fall back to built-in names the project did not rename", async () => {
+      const resolver = createResolver();
+
+      expect(await resolver.status("marketing-site", "Done")).toEqual({
+        success: true,
+        data: 100,
+      });
+      const todo = await resolver.status("marketing-site", "To-Do");
+      expect(todo.success).toBe(false);
+    });
+
+    it("should list candidates for ambiguous names", async () => {
+      const result = await createResolver().status("marketing-site", "review");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(extractTextContent(result.response)).toContain(
+          'It matches "In Review" (40), "Review Done" (60)'
+        );
+      }
+    });
+
+    it("should surface API errors", async () => {
+      const result = await createResolver({
+        listStatuses: vi.fn().mockResolvedValue(mockErrors.notFound()),
+      }).status("marketing-site", "In Review");
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should stop at an unresolvable project scope", async () => {
+      const result = await createResolver().status("Sales Pipeline", "Done");
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("users", () => {
+    it("should resolve handles, emails, names and IDs", async () => {
+      const result = await createResolver().users("marketing-site", [
+        "@bob",
+        "ALICE@example.com",
+        "Alan Smith",
+        "UserBob",
+      ]);
+
+      expect(result).toEqual({
+        success: true,
+        data: ["bob", "alice", "alan", "bob"],
+      });
+    });
+
+    it("should resolve 'me' to the current user", async () => {
+      const listProjectMembers = vi.fn();
+      const result = await createResolver({ listProjectMembers }).users(
+        "marketing-site",
+        ["me"]
+      );
+
+      expect(result).toEqual({ success: true, data: ["test-user"] });
+      expect(listProjectMembers).not.toHaveBeenCalled();
+    });
+
+    it("should pass through unknown identifiers", async () => {
+      const result = await createResolver().users("marketing-site", [
+        "carol_1",
+      ]);
+
+      expect(result).toEqual({ success: true, data: ["carol_1"] });
+    });
+
+    it("should match identifier-like names exactly", async () => {
+      const listProjectMembers = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: members });
+      const resolver = createResolver({ listProjectMembers });
+
+      const handles = await resolver.users("marketing-site", ["@carol"]);
+      const partial = await resolver.users("marketing-site", ["smith"]);
+      const names = await resolver.users("marketing-site", ["smith jones"]);
+
+      expect(handles).toEqual({ success: true, data: ["carol"] });
+      expect(listProjectMembers).toHaveBeenCalledTimes(1);
+      expect(partial).toEqual({ success: true, data: ["smith"] });
+      expect(names.success).toBe(false);
+    });
+
+    it("should reject ambiguous and unknown names", async () => {
+      const resolver = createResolver({
+        listProjectMembers: vi.fn().mockResolvedValue({
+          success: true,
+          data: [
+            ...members,
+            { id: "bobby", oid: "UserBobby", name: "Bob Jones" },
+          ],
+        }),
+      });
+
+      const ambiguous = await resolver.users("marketing-site", ["bob jones"]);
+      const unknown = await resolver.users("marketing-site", ["Carol Danvers"]);
+
+      expect(ambiguous.success).toBe(false);
+      if (!ambiguous.success) {
+        expect(extractTextContent(ambiguous.response)).toContain(
+          '"Bob Jones" (@bob), "Bob Jones" (@bobby)'
+        );
+      }
+      expect(unknown.success).toBe(false);
+      if (!unknown.success) {
+        expect(extractTextContent(unknown.response)).toContain(
+          'User "Carol Danvers" not found in project "Marketing Site"'
+        );
+      }
+    });
+
+    it("should surface API errors", async () => {
+      const me = await createResolver({
+        getMe: vi.fn().mockResolvedValue(mockErrors.unauthorized()),
+      }).users("marketing-site", ["me"]);
+      const members = await createResolver({
+        listProjectMembers: vi.fn().mockResolvedValue(mockErrors.forbidden()),
+      }).users("marketing-site", ["alice"]);
+
+      expect(me.success).toBe(false);
+      expect(members.success).toBe(false);
+    });
+
+    it("should stop at an unresolvable project scope", async () => {
+      const result = await createResolver().users("Sales Pipeline", ["bob"]);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("taskFields", () => {
+    it("should resolve every field that is set", async () => {
+      const result = await createResolver().taskFields("Marketing Site", {
+        status: "In Review",
+        assignees: ["@alice"],
+        addAssignees: ["bob"],
+        tags: ["Bug"],
+        removeTags: [3],
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          status: 40,
+          assignees: ["alice"],
+          addAssignees: ["bob"],
+          tags: [1],
+          removeTags: [3],
+        },
+      });
+    });
+
+    it("should stop at the first unresolvable field", async () => {
+      const resolver = createResolver();
+
+      const status = await resolver.taskFields("marketing-site", {
+        status: "Shipped",
+      });
+      const users = await resolver.taskFields("marketing-site", {
+        assignees: ["Carol Danvers"],
+      });
+      const tagResult = await resolver.taskFields("marketing-site", {
+        tags: ["Nope"],
+      });
+
+      expect(status.success).toBe(false);
+      expect(users.success).toBe(false);
+      expect(tagResult.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * Name Resolution
+ *
+ * Lets task tools accept the names people use where the Quire API expects
+ * identifiers: project display names, tag names ("Bug"), status names
+ * ("In Review"), and assignees as "@alice", "alice@example.com", a display
+ * name or "me". Names are matched case-insensitively against the project's
+ * projects list, tags, statuses and members, read through the client's
+ * response cache. Identifiers are passed through unchanged.
+ *
+ * A name that matches several candidates is an error listing them, never a
+ * guess.
+ */
+
+import { z } from "zod";
+import { RESOLVER_MAX_CANDIDATES } from "../constants.js";
+import { isOid, type QuireClient } from "../quire/client.js";
+import type {
+  QuireProject,
+  QuireStatus,
+  QuireTag,
+  QuireUser,
+} from "../quire/types.js";
+import {
+  formatError,
+  formatValidationError,
+  type ToolErrorResponse,
+} from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Types and Schemas
+// ---------------------------------------------------------------------------
+
+/**
+ * Result of resolving references: the identifiers to send to the API, or a
+ * ready-to-return tool error
+ */
+export type ResolveResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: ToolErrorResponse };
+
+/** Tag reference: numeric tag ID, or tag name or OID */
+export const tagRefSchema = z.union([z.number(), z.string().min(1)]);
+
+/** Status reference: numeric value from 0 to 100, or status name */
+export const statusRefSchema = z.union([
+  z.number().min(0).max(100),
+  z.string().min(1),
+]);
+
+export type TagRef = z.infer<typeof tagRefSchema>;
+export type StatusRef = z.infer<typeof statusRefSchema>;
+
+/**
+ * Status, assignee and tag references accepted by task tools
+ */
+export interface TaskFieldRefs {
+  status?: StatusRef | undefined;
+  assignees?: string[] | undefined;
+  addAssignees?: string[] | undefined;
+  removeAssignees?: string[] | undefined;
+  tags?: TagRef[] | undefined;
+  addTags?: TagRef[] | undefined;
+  removeTags?: TagRef[] | undefined;
+}
+
+/**
+ * Task fields with references resolved to API identifiers
+ */
+export interface ResolvedTaskFields {
+  status?: number;
+  assignees?: string[];
+  addAssignees?: string[];
+  removeAssignees?: string[];
+  tags?: number[];
+  addTags?: number[];
+  removeTags?: number[];
+}
+
+/**
+ * Something a name can resolve to
+ */
+/** @internal Exported for testing */
+export interface NameCandidate<T> {
+  value: T;
+  /** Identifiers matched exactly (ignoring case) */
+  keys: string[];
+  /** Names matched exactly (ignoring case), then by substring */
+  names: string[];
+  /** How the candidate is listed in error messages */
+  label: string;
+}
+
+/** @internal Exported for testing */
+export type NameMatch<T> =
+  | { kind: "found"; value: T }
+  | { kind: "ambiguous"; labels: string[] }
+  | { kind: "missing"; labels: string[] };
+
+/**
+ * Project whose tags, statuses and members names are resolved against
+ */
+interface ProjectScope {
+  /** Project ID or OID to pass to API calls */
+  ref: string;
+  /** Project name for error messages */
+  label: string;
+}
+
+/** Status names Quire uses for the built-in to-do and complete values */
+const BUILT_IN_STATUSES: NameCandidate<number>[] = [
+  {
+    value: 0,
+    keys: [],
+    names: ["To-Do", "Todo", "To Do"],
+    label: '"To-Do" (0)',
+  },
+  {
+    value: 100,
+    keys: [],
+    names: ["Completed", "Complete", "Done"],
+    label: '"Completed" (100)',
+  },
+];
+
+/** References that look like identifiers rather than display names */
+const IDENTIFIER_PATTERN = /^[\w.-]+$/;
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Match a name against candidates: exact identifier first, then exact name,
+ * then name substring unless `exact` is set. The first stage with any
+ * match decides the result.
+ */
+/** @internal Exported for testing */
+export function matchName<T>(
+  query: string,
+  candidates: NameCandidate<T>[],
+  exact = false
+): NameMatch<T> {
+  const needle = normalize(query);
+  const stages: ((candidate: NameCandidate<T>) => boolean)[] = [
+    (candidate) => candidate.keys.some((key) => normalize(key) === needle),
+    (candidate) => candidate.names.some((name) => normalize(name) === needle),
+  ];
+  if (!exact) {
+    stages.push((candidate) =>
+      candidate.names.some((name) => normalize(name).includes(needle))
+    );
+  }
+
+  for (const stage of stages) {
+    const [first, ...rest] = candidates.filter(stage);
+    if (first && rest.length === 0) {
+      return { kind: "found", value: first.value };
+    }
+    if (first) {
+      return {
+        kind: "ambiguous",
+        labels: [first, ...rest].map((candidate) => candidate.label),
+      };
+    }
+  }
+  return {
+    kind: "missing",
+    labels: candidates.map((candidate) => candidate.label),
+  };
+}
+
+/**
+ * List candidate labels, capped at RESOLVER_MAX_CANDIDATES
+ */
+function listLabels(labels: string[]): string {
+  const shown = labels.slice(0, RESOLVER_MAX_CANDIDATES).join(", ");
+  const more = labels.length - RESOLVER_MAX_CANDIDATES;
+  return more > 0 ? `${shown} and ${more} more` : shown;
+}
+
+/**
+ * Build the tool error for a name that did not resolve to one candidate
+ */
+/** @internal Exported for testing */
+export function formatMatchError(
+  kind: string,
+  query: string,
+  match: Exclude<NameMatch<unknown>, { kind: "found" }>,
+  scope?: string
+): ToolErrorResponse {
+  const where = scope ? ` in project "${scope}"` : "";
+  if (match.kind === "ambiguous") {
+    return formatValidationError(
+      `${kind} "${query}" is ambiguous${where}. It matches ` +
+        `${listLabels(match.labels)}. Use the full name or the ID.`
+    );
+  }
+  const available =
+    match.labels.length > 0
+      ? `Available: ${listLabels(match.labels)}.`
+      : `There are no ${kind.toLowerCase()}s to choose from.`;
+  return formatValidationError(
+    `${kind} "${query}" not found${where}. ${available}`
+  );
+}
+
+function projectCandidate(project: QuireProject): NameCandidate<QuireProject> {
+  return {
+    value: project,
+    keys: [project.id, project.oid],
+    names: [project.name, project.nameText ?? project.name],
+    label: `"${project.name}" (${project.id})`,
+  };
+}
+
+function tagCandidates(tags: QuireTag[]): NameCandidate<number>[] {
+  return tags.flatMap((tag) =>
+    tag.id === undefined
+      ? []
+      : [
+          {
+            value: tag.id,
+            keys: [tag.oid],
+            names: [tag.name, tag.nameText ?? tag.name],
+            label: `"${tag.name}" (${tag.id})`,
+          },
+        ]
+  );
+}
+
+function statusCandidates(statuses: QuireStatus[]): NameCandidate<number>[] {
+  const candidates = statuses.map((status) => ({
+    value: status.value,
+    keys: [],
+    names: [status.name, status.nameText ?? status.name],
+    label: `"${status.name}" (${status.value})`,
+  }));
+  // Fall back to the built-in names unless the project renamed the value
+  return [
+    ...candidates,
+    ...BUILT_IN_STATUSES.filter(
+      (builtIn) =>
+        !candidates.some((candidate) => candidate.value === builtIn.value)
+    ),
+  ];
+}
+
+function userCandidates(users: QuireUser[]): NameCandidate<string>[] {
+  return users.map((user) => ({
+    value: user.id,
+    keys: [user.id, user.oid, ...(user.email ? [user.email] : [])],
+    names: [user.name, user.nameText ?? user.name],
+    label: `"${user.name}" (@${user.id})`,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Resolver
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves names to Quire identifiers for one tool call. Lookups are made
+ * only for references that are not already identifiers, and each list is
+ * fetched at most once per resolver.
+ */
+export class NameResolver {
+  private readonly client: QuireClient;
+  private readonly loads = new Map<string, Promise<unknown>>();
+
+  constructor(client: QuireClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetch once per resolver, sharing the result between lookups
+   */
+  private load<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    let pending = this.loads.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      pending = fetch();
+      this.loads.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Find the project a reference names. References that look like
+   * identifiers are fetched directly and kept as they are; they are only
+   * matched by exact name if no project has that ID or OID. Others are
+   * matched against the project list, by substring if need be. Returns
+   * undefined for identifier-like references that match no project (task
+   * OIDs, or project IDs the API should judge).
+   */
+  private async findProject(
+    ref: string
+  ): Promise<ResolveResult<ProjectScope | undefined>> {
+    const identifier = IDENTIFIER_PATTERN.test(ref);
+    if (identifier) {
+      const project = await this.load(`project:${ref}`, () =>
+        this.client.getProject(ref)
+      );
+      if (project.success) {
+        return { success: true, data: { ref, label: project.data.name } };
+      }
+      if (project.error.code !== "NOT_FOUND") {
+        return {
+          success: false,
+          response: formatError(project.error, "project"),
+        };
+      }
+    }
+
+    const result = await this.load("projects", () =>
+      this.client.listProjects()
+    );
+    if (!result.success) {
+      return { success: false, response: formatError(result.error, "project") };
+    }
+
+    const match = matchName(ref, result.data.map(projectCandidate), identifier);
+    if (match.kind === "found") {
+      return {
+        success: true,
+        data: { ref: match.value.id, label: match.value.name },
+      };
+    }
+    if (match.kind === "missing" && identifier) {
+      return { success: true, data: undefined };
+    }
+    return {
+      success: false,
+      response: formatMatchError("Project", ref, match),
+    };
+  }
+
+  /**
+   * Find the project whose tags, statuses and members to match against.
+   * `ref` may name a project or be the OID of a task in it.
+   */
+  private scope(ref: string): Promise<ResolveResult<ProjectScope>> {
+    return this.load(`scope:${ref}`, async () => {
+      const project = await this.findProject(ref);
+      if (!project.success) return project;
+      if (project.data) {
+        return { success: true, data: project.data };
+      }
+      if (!isOid(ref)) {
+        return { success: true, data: { ref, label: ref } };
+      }
+
+      const task = await this.client.getTask(ref);
+      if (!task.success) {
+        return { success: false, response: formatError(task.error, "task") };
+      }
+      if (!task.data.project) {
+        return {
+          success: false,
+          response: formatValidationError(
+            `Cannot resolve names: task ${ref} does not belong to a project`
+          ),
+        };
+      }
+      return {
+        success: true,
+        data: { ref: task.data.project.oid, label: task.data.project.name },
+      };
+    });
+  }
+
+  /**
+   * Resolve a project reference (ID, OID or display name) to the ID or OID
+   * to send to the API. OIDs that match no project are passed through, since
+   * some task tools take a parent task OID in place of a project.
+   */
+  async project(ref: string): Promise<ResolveResult<string>> {
+    const project = await this.findProject(ref);
+    if (!project.success) return project;
+    return { success: true, data: project.data?.ref ?? ref };
+  }
+
+  /**
+   * Resolve tag IDs, numeric strings, OIDs and names ("Bug" or "#bug")
+   */
+  async tags(
+    scopeRef: string,
+    refs: TagRef[]
+  ): Promise<ResolveResult<number[]>> {
+    const ids: number[] = [];
+    for (const ref of refs) {
+      const name = typeof ref === "string" ? ref.replace(/^#/, "") : ref;
+      if (typeof name === "number" || /^\d+$/.test(name)) {
+        ids.push(Number(name));
+        continue;
+      }
+
+      const scope = await this.scope(scopeRef);
+      if (!scope.success) return scope;
+      const result = await this.load(`tags:${scope.data.ref}`, () =>
+        this.client.listTags(scope.data.ref)
+      );
+      if (!result.success) {
+        return { success: false, response: formatError(result.error, "tag") };
+      }
+      const match = matchName(name, tagCandidates(result.data));
+      if (match.kind !== "found") {
+        return {
+          success: false,
+          response: formatMatchError("Tag", name, match, scope.data.label),
+        };
+      }
+      ids.push(match.value);
+    }
+    return { success: true, data: ids };
+  }
+
+  /**
+   * Resolve a status value, numeric string or name ("In Review")
+   */
+  async status(
+    scopeRef: string,
+    ref: StatusRef
+  ): Promise<ResolveResult<number>> {
+    if (typeof ref === "number" || /^\d+$/.test(ref)) {
+      return { success: true, data: Number(ref) };
+    }
+
+    const scope = await this.scope(scopeRef);
+    if (!scope.success) return scope;
+    const result = await this.load(`statuses:${scope.data.ref}`, () =>
+      this.client.listStatuses(scope.data.ref)
+    );
+    if (!result.success) {
+      return { success: false, response: formatError(result.error, "status") };
+    }
+    const match = matchName(ref, statusCandidates(result.data));
+    if (match.kind !== "found") {
+      return {
+        success: false,
+        response: formatMatchError("Status", ref, match, scope.data.label),
+      };
+    }
+    return { success: true, data: match.value };
+  }
+
+  /**
+   * Resolve user IDs, "@id" handles, emails, display names and "me" to user
+   * IDs. Handles are taken as they are. Other identifier-like references
+   * must match a project member exactly, or are passed through for the API
+   * to judge.
+   */
+  async users(
+    scopeRef: string,
+    refs: string[]
+  ): Promise<ResolveResult<string[]>> {
+    const ids: string[] = [];
+    for (const ref of refs) {
+      if (normalize(ref) === "me") {
+        const me = await this.load("me", () => this.client.getMe());
+        if (!me.success) {
+          return { success: false, response: formatError(me.error, "user") };
+        }
+        ids.push(me.data.id);
+        continue;
+      }
+
+      const name = ref.replace(/^@/, "");
+      const identifier = IDENTIFIER_PATTERN.test(name);
+      if (identifier && name !== ref) {
+        ids.push(name);
+        continue;
+      }
+      const scope = await this.scope(scopeRef);
+      if (!scope.success) return scope;
+      const result = await this.load(`members:${scope.data.ref}`, () =>
+        this.client.listProjectMembers(scope.data.ref)
+      );
+      if (!result.success) {
+        return { success: false, response: formatError(result.error, "user") };
+      }
+      const match = matchName(name, userCandidates(result.data), identifier);
+      if (match.kind === "found") {
+        ids.push(match.value);
+      } else if (match.kind === "missing" && identifier) {
+        ids.push(name);
+      } else {
+        return {
+          success: false,
+          response: formatMatchError("User", ref, match, scope.data.label),
+        };
+      }
+    }
+    return { success: true, data: ids };
+  }
+
+  /**
+   * Resolve the status, assignee and tag fields of a task create or update
+   *
+   * @param scopeRef - Project ID, OID or name, or the OID of a task in the
+   *   project
+   */
+  async taskFields(
+    scopeRef: string,
+    fields: TaskFieldRefs
+  ): Promise<ResolveResult<ResolvedTaskFields>> {
+    const resolved: ResolvedTaskFields = {};
+
+    if (fields.status !== undefined) {
+      const status = await this.status(scopeRef, fields.status);
+      if (!status.success) return status;
+      resolved.status = status.data;
+    }
+    for (const key of [
+      "assignees",
+      "addAssignees",
+      "removeAssignees",
+    ] as const) {
+      const refs = fields[key];
+      if (refs) {
+        const users = await this.users(scopeRef, refs);
+        if (!users.success) return users;
+        resolved[key] = users.data;
+      }
+    }
+    for (const key of ["tags", "addTags", "removeTags"] as const) {
+      const refs = fields[key];
+      if (refs) {
+        const tags = await this.tags(scopeRef, refs);
+        if (!tags.success) return tags;
+        resolved[key] = tags.data;
+      }
+    }
+
+    return { success: true, data: resolved };
+  }
+}
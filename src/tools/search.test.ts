@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerSearchTool } from "./search.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import { SearchIndexCache } from "../quire/search-index.js";
+import type {
+  QuireComment,
+  QuireProject,
+  QuireTaskTreeNode,
+} from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+type ToolHandler = (
+  params: Record<string, unknown>,
+  extra: unknown
+) => Promise<{
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+  structuredContent?: Record<string, unknown>;
+}>;
+
+const web = { oid: "P1", id: "web", name: "Website" } as QuireProject;
+const api = { oid: "P2", id: "api", name: "API" } as QuireProject;
+
+function node(
+  oid: string,
+  id: number,
+  name: string,
+  descriptionText = ""
+): QuireTaskTreeNode {
+  return { oid, id, name, descriptionText, children: [] };
+}
+
+describe("quire.search", () => {
+  let handler: ToolHandler;
+  let cache: SearchIndexCache;
+  let getTaskTree: ReturnType<typeof vi.fn>;
+  let listTaskComments: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+
+    const handlers = new Map<string, ToolHandler>();
+    const server = {
+      registerTool: vi.fn(
+        (name: string, _config: unknown, callback: ToolHandler) => {
+          handlers.set(name, callback);
+        }
+      ),
+    } as unknown as McpServer;
+    registerSearchTool(server);
+    const registered = handlers.get("quire.search");
+    if (!registered) throw new Error("quire.search not registered");
+    handler = registered;
+
+    cache = new SearchIndexCache();
+    getTaskTree = vi.fn().mockImplementation((projectOid: string) =>
+      Promise.resolve({
+        success: true,
+        data: {
+          roots:
+            projectOid === "P1"
+              ? [
+                  node("T1", 1, "Launch website", "Coordinate the release"),
+                  node("T2", 2, "Retro"),
+                ]
+              : [node("T8", 8, "Release API")],
+          nodeCount: 2,
+          truncated: projectOid === "P2",
+        },
+      })
+    );
+    listTaskComments = vi.fn().mockImplementation((oid: string) =>
+      Promise.resolve({
+        success: true,
+        data: [
+          {
+            oid: `C-${oid}`,
+            descriptionText: oid === "T2" ? "Release went well" : "Looks good",
+          } as QuireComment,
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): ReturnType<ToolHandler> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        listProjects: () =>
+          Promise.resolve({ success: true, data: [web, api] }),
+        getProject: (id: string) =>
+          Promise.resolve(
+            id === "api"
+              ? { success: true, data: api }
+              : { success: true, data: web }
+          ),
+        getTaskTree: getTaskTree as QuireClient["getTaskTree"],
+        listDocuments: (_ownerType, ownerId) =>
+          Promise.resolve({
+            success: true,
+            data:
+              ownerId === "P1"
+                ? [
+                    {
+                      oid: "D1",
+                      id: "plan",
+                      name: "Release plan",
+                      url: "https://quire.io/w/web/doc/plan",
+                    } as never,
+                  ]
+                : [],
+          }),
+        listChats: (_ownerType, ownerId) =>
+          Promise.resolve({
+            success: true,
+            data:
+              ownerId === "P1"
+                ? [{ oid: "H1", id: "general", name: "General" } as never]
+                : [],
+          }),
+        listTaskComments: listTaskComments as QuireClient["listTaskComments"],
+        listChatComments: () =>
+          Promise.resolve({
+            success: true,
+            data: [
+              {
+                oid: "C-H1",
+                descriptionText: "Release party at 5",
+              } as QuireComment,
+            ],
+          }),
+        getSearchIndexCache: () => cache,
+        ...overrides,
+      }),
+    });
+    return handler(params, createMockExtra({ quireToken: "token" }));
+  }
+
+  it("should rank tasks, comments and documents across projects", async () => {
+    const result = await callTool({
+      query: "release",
+      projects: ["web", "api"],
+    });
+
+    const text = extractTextContent(result);
+    expect(text).toMatch(/^Found 5 matches for "release":\n1\. /);
+    expect(text).toContain("Task #8 Release API (api): **Release** API");
+    expect(text).toContain("Document Release plan (web): **Release** plan");
+    expect(text).toContain(
+      "Message in chat General (web): **Release** party at 5"
+    );
+    expect(text).toContain("Comment on #2 Retro (web): **Release** went well");
+    expect(text).toContain(
+      "Task #1 Launch website (web): Coordinate the **release**"
+    );
+    expect(text).toContain(
+      "_api has more than 5000 tasks; only the first ones are indexed._"
+    );
+    expect(result.structuredContent).toMatchObject({
+      total: 5,
+      projects: [
+        {
+          projectId: "web",
+          builtAt: "2026-10-19T10:00:00.000Z",
+          tasks: 2,
+          comments: 3,
+          documents: 1,
+          pendingComments: 0,
+          truncated: false,
+        },
+        { projectId: "api", tasks: 1, truncated: true },
+      ],
+    });
+    expect(result.structuredContent?.["hits"]).toContainEqual(
+      expect.objectContaining({
+        type: "comment",
+        oid: "C-H1",
+        projectId: "web",
+        chat: { oid: "H1", id: "general", name: "General" },
+      })
+    );
+    expect(result.structuredContent?.["hits"]).toContainEqual(
+      expect.objectContaining({
+        type: "document",
+        oid: "D1",
+        url: "https://quire.io/w/web/doc/plan",
+        document: { oid: "D1", id: "plan", name: "Release plan" },
+      })
+    );
+  });
+
+  it("should filter by type and limit hits", async () => {
+    const result = await callTool({
+      query: "release",
+      projects: ["web"],
+      types: ["task", "document"],
+      limit: 1,
+    });
+
+    expect(extractTextContent(result)).toBe(
+      'Found 2 matches for "release":\n' +
+        "1. Document Release plan (web): **Release** plan\n\n" +
+        "_1 more matches not shown._"
+    );
+    expect(listTaskComments).not.toHaveBeenCalled();
+  });
+
+  it("should reuse indexes between calls unless fresh is set", async () => {
+    await callTool({ query: "release", projects: ["web", "web"] });
+    await callTool({ query: "launch", projects: ["web"] });
+    expect(getTaskTree).toHaveBeenCalledOnce();
+
+    await callTool({ query: "launch", projects: ["web"], fresh: true });
+    expect(getTaskTree).toHaveBeenCalledTimes(2);
+  });
+
+  it("should index comments over several calls", async () => {
+    listTaskComments.mockResolvedValueOnce(mockErrors.serverError());
+    const manyTasks = Array.from({ length: 25 }, (_, i) =>
+      node(`T${String(i + 1)}`, i + 1, `Task ${String(i + 1)}`)
+    );
+    getTaskTree.mockResolvedValueOnce({
+      success: true,
+      data: { roots: manyTasks, nodeCount: 25, truncated: false },
+    });
+
+    const first = await callTool({ query: "budget", projects: ["web"] });
+    expect(extractTextContent(first)).toBe(
+      'No matches for "budget".\n\n' +
+        "_Comments of 6 tasks and chats in web are not indexed yet; " +
+        "later searches add them._\n" +
+        "_Comments of 1 tasks and chats in web could not be fetched._"
+    );
+
+    await callTool({ query: "budget", projects: ["web"] });
+    expect(listTaskComments).toHaveBeenCalledTimes(25);
+  });
+
+  it("should share the comment budget of a call between projects", async () => {
+    getTaskTree.mockResolvedValue({
+      success: true,
+      data: {
+        roots: Array.from({ length: 25 }, (_, i) =>
+          node(`T${String(i + 1)}`, i + 1, `Task ${String(i + 1)}`)
+        ),
+        nodeCount: 25,
+        truncated: false,
+      },
+    });
+
+    const result = await callTool({
+      query: "budget",
+      projects: ["web", "api"],
+    });
+
+    // The chat of web and 9 tasks, then 10 tasks of api
+    expect(listTaskComments).toHaveBeenCalledTimes(19);
+    expect(result.structuredContent).toMatchObject({
+      projects: [{ pendingComments: 16 }, { pendingComments: 15 }],
+    });
+  });
+
+  it("should keep indexed comments when an expired index is rebuilt", async () => {
+    await callTool({ query: "release", projects: ["web"] });
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    const result = await callTool({ query: "went well", projects: ["web"] });
+
+    expect(getTaskTree).toHaveBeenCalledTimes(2);
+    expect(listTaskComments).toHaveBeenCalledTimes(2);
+    expect(extractTextContent(result)).toContain(
+      "Comment on #2 Retro (web): Release **went** **well**"
+    );
+  });
+
+  it("should return errors", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+    const unauthorized = await handler(
+      { query: "release", projects: ["web"] },
+      createMockExtra()
+    );
+    const unknown = await callTool(
+      { query: "release", projects: ["Old website"] },
+      { listProjects: () => Promise.resolve({ success: true, data: [] }) }
+    );
+    const missing = await callTool(
+      { query: "release", projects: ["web"] },
+      { getProject: () => Promise.resolve(mockErrors.notFound()) }
+    );
+    const failed = await callTool(
+      { query: "release", projects: ["web"] },
+      { listChats: () => Promise.resolve(mockErrors.serverError()) }
+    );
+
+    for (const result of [unauthorized, unknown, missing, failed]) {
+      expect(isErrorResponse(result)).toBe(true);
+    }
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Search Tool
+ *
+ * quire.search: Ranked full-text search over the task names, descriptions
+ * and comments, document descriptions and chat messages of chosen
+ * projects. Project indexes are built on first use and reused between
+ * calls; see quire/search-index.ts.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  SEARCH_COMMENT_FETCHES_PER_CALL,
+  SEARCH_DEFAULT_LIMIT,
+  SEARCH_MAX_LIMIT,
+  SEARCH_MAX_PROJECTS,
+  SEARCH_MAX_TASKS,
+} from "../constants.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import {
+  buildProjectSearchIndex,
+  type ProjectSearchIndex,
+  type SearchEntry,
+} from "../quire/search-index.js";
+import { Bm25Index } from "../utils/bm25.js";
+import { NameResolver } from "./resolver.js";
+import {
+  formatAuthError,
+  formatError,
+  formatMessage,
+  freshReadSchema,
+  readClient,
+} from "./utils.js";
+
+const HIT_TYPES = ["task", "comment", "document"] as const;
+
+const SearchOutputSchema = z.object({
+  hits: z.array(
+    z.object({
+      type: z.enum(HIT_TYPES),
+      /** OID of the task, comment or document */
+      oid: z.string(),
+      score: z.number(),
+      projectId: z.string(),
+      task: z
+        .object({ oid: z.string(), id: z.number(), name: z.string() })
+        .optional(),
+      chat: z
+        .object({ oid: z.string(), id: z.string(), name: z.string() })
+        .optional(),
+      document: z
+        .object({ oid: z.string(), id: z.string(), name: z.string() })
+        .optional(),
+      url: z.string().optional(),
+      snippet: z.string(),
+    })
+  ),
+  total: z.number(),
+  projects: z.array(
+    z.object({
+      projectId: z.string(),
+      builtAt: z.string(),
+      tasks: z.number(),
+      comments: z.number(),
+      documents: z.number(),
+      pendingComments: z.number(),
+      truncated: z.boolean(),
+    })
+  ),
+});
+
+function describeEntry(entry: SearchEntry): string {
+  if (entry.chat) {
+    return `Message in chat ${entry.chat.name}`;
+  }
+  if (entry.task) {
+    const task = `#${String(entry.task.id)} ${entry.task.name}`;
+    return entry.type === "comment" ? `Comment on ${task}` : `Task ${task}`;
+  }
+  return `Document ${entry.title}`;
+}
+
+function formatNotes(
+  indexes: readonly ProjectSearchIndex[],
+  commentsWanted: boolean
+): string[] {
+  const notes: string[] = [];
+  for (const index of indexes) {
+    const { pendingComments, failedComments } = index.getStats();
+    if (index.truncated) {
+      notes.push(
+        `_${index.project.id} has more than ${String(SEARCH_MAX_TASKS)} ` +
+          "tasks; only the first ones are indexed._"
+      );
+    }
+    if (commentsWanted && pendingComments > 0) {
+      notes.push(
+        `_Comments of ${String(pendingComments)} tasks and chats in ` +
+          `${index.project.id} are not indexed yet; later searches add them._`
+      );
+    }
+    if (commentsWanted && failedComments > 0) {
+      notes.push(
+        `_Comments of ${String(failedComments)} tasks and chats in ` +
+          `${index.project.id} could not be fetched._`
+      );
+    }
+  }
+  return notes;
+}
+
+/**
+ * Register the search tool with the MCP server
+ */
+export function registerSearchTool(server: McpServer): void {
+  server.registerTool(
+    "quire.search",
+    {
+      description:
+        "Ranked full-text search (BM25) over task names, descriptions and " +
+        "comments, document descriptions and chat messages of up to " +
+        `${String(SEARCH_MAX_PROJECTS)} projects, best matches first, ` +
+        "with a snippet per hit. Any word may match; hits containing more " +
+        "or rarer words rank higher. End a word with '*' to match words " +
+        "starting with it. Indexes are reused between calls; comments are " +
+        "indexed over several calls, open tasks first.",
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Words to search for"),
+        projects: z
+          .array(z.string())
+          .min(1)
+          .max(SEARCH_MAX_PROJECTS)
+          .describe("Projects to search (IDs, OIDs, names or links)"),
+        types: z
+          .array(z.enum(HIT_TYPES))
+          .min(1)
+          .optional()
+          .describe(
+            "Only return these kinds of hits; chat messages count as " +
+              "comments (default: all)"
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(SEARCH_MAX_LIMIT)
+          .optional()
+          .describe(
+            `Maximum number of hits (default: ${String(SEARCH_DEFAULT_LIMIT)})`
+          ),
+        ...freshReadSchema,
+      }),
+      outputSchema: SearchOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ query, projects, types, limit, fresh }, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const client = readClient(clientResult.client, fresh);
+      const cache = client.getSearchIndexCache();
+      const commentsWanted = types?.includes("comment") ?? true;
+
+      const resolver = new NameResolver(client);
+      const indexes: ProjectSearchIndex[] = [];
+      for (const ref of projects) {
+        const projectId = await resolver.project(ref);
+        if (!projectId.success) {
+          return projectId.response;
+        }
+        const project = await client.getProject(projectId.data);
+        if (!project.success) {
+          return formatError(project.error, "project");
+        }
+        const { oid, id, name } = project.data;
+        if (indexes.some((index) => index.project.oid === oid)) {
+          continue;
+        }
+
+        let index = fresh ? undefined : cache?.get(oid);
+        if (!index) {
+          const built = await buildProjectSearchIndex(client, {
+            oid,
+            id,
+            name,
+          });
+          if (!built.success) {
+            return formatError(built.error, "project");
+          }
+          index = built.data;
+          const expired = fresh ? undefined : cache?.getExpired(oid);
+          if (expired) {
+            index.takeComments(expired);
+          }
+          cache?.set(index);
+        }
+        indexes.push(index);
+      }
+
+      if (commentsWanted) {
+        // One budget for the call, split evenly; what a project leaves
+        // unused goes to the ones after it
+        let budget = SEARCH_COMMENT_FETCHES_PER_CALL;
+        for (const [i, index] of indexes.entries()) {
+          const share = Math.ceil(budget / (indexes.length - i));
+          budget -= await index.addComments(client, share);
+        }
+      }
+
+      const { hits, total } = Bm25Index.search(
+        indexes.map((index) => index.index),
+        query,
+        {
+          limit: limit ?? SEARCH_DEFAULT_LIMIT,
+          ...(types && {
+            filter: (entry: SearchEntry) => types.includes(entry.type),
+          }),
+        }
+      );
+      const structured = {
+        hits: hits.map(({ document: entry, score, snippet }) => ({
+          type: entry.type,
+          oid: entry.oid,
+          score: Math.round(score * 100) / 100,
+          projectId: entry.project.id,
+          ...(entry.task && { task: entry.task }),
+          ...(entry.chat && { chat: entry.chat }),
+          ...(entry.document && { document: entry.document }),
+          ...(entry.url !== undefined && { url: entry.url }),
+          snippet,
+        })),
+        total,
+        projects: indexes.map((index) => {
+          const stats = index.getStats();
+          return {
+            projectId: index.project.id,
+            builtAt: index.builtAt.toISOString(),
+            tasks: stats.tasks,
+            comments: stats.comments,
+            documents: stats.documents,
+            pendingComments: stats.pendingComments,
+            truncated: index.truncated,
+          };
+        }),
+      };
+
+      const lines =
+        hits.length === 0
+          ? [`No matches for "${query}".`]
+          : [
+              `Found ${String(total)} matches for "${query}":`,
+              ...hits.map(
+                ({ document: entry, snippet }, i) =>
+                  `${String(i + 1)}. ${describeEntry(entry)} ` +
+                  `(${entry.project.id}): ${snippet.replaceAll("\n", " ")}`
+              ),
+            ];
+      const notes = formatNotes(indexes, commentsWanted);
+      if (total > hits.length) {
+        notes.unshift(
+          `_${String(total - hits.length)} more matches not shown._`
+        );
+      }
+      if (notes.length > 0) {
+        lines.push("", ...notes);
+      }
+      return formatMessage(lines.join("\n"), structured);
+    }
+  );
+}
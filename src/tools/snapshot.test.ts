@@ -0,0 +1,406 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  formatChanges,
+  registerSnapshotTools,
+  selectBaseSnapshot,
+} from "./snapshot.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import { diffSnapshotTasks } from "../quire/snapshot-diff.js";
+import { SnapshotStore, type SnapshotInfo } from "../quire/snapshots.js";
+import type { QuireProject, QuireTaskTreeNode } from "../quire/types.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+type ToolHandler = (
+  params: Record<string, unknown>,
+  extra: unknown
+) => Promise<{
+  isError?: boolean;
+  content: { type: string; text?: string }[];
+  structuredContent?: Record<string, unknown>;
+}>;
+
+function info(id: string, takenAt: string): SnapshotInfo {
+  return { id, projectId: "web", takenAt, taskCount: 0, truncated: false };
+}
+
+describe("selectBaseSnapshot", () => {
+  const snapshots = [
+    info("2026-10-17T220000Z", "2026-10-17T22:00:00.000Z"),
+    info("2026-10-18T080000Z", "2026-10-18T08:00:00.000Z"),
+    info("2026-10-19T080000Z", "2026-10-19T08:00:00.000Z"),
+  ];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("should default to the latest snapshot", () => {
+    expect(selectBaseSnapshot(snapshots, undefined)).toEqual({
+      success: true,
+      data: snapshots[2],
+    });
+  });
+
+  it("should select a snapshot by ID", () => {
+    expect(selectBaseSnapshot(snapshots, "2026-10-18T080000Z")).toEqual({
+      success: true,
+      data: snapshots[1],
+    });
+  });
+
+  it("should select the last snapshot before a date or time", () => {
+    // 22:00 UTC on the 17th is already the 18th in Paris
+    expect(selectBaseSnapshot(snapshots, "2026-10-18")).toEqual({
+      success: true,
+      data: snapshots[0],
+    });
+    expect(selectBaseSnapshot(snapshots, "today")).toEqual({
+      success: true,
+      data: snapshots[1],
+    });
+    expect(selectBaseSnapshot(snapshots, "2026-10-19T09:00:00Z")).toEqual({
+      success: true,
+      data: snapshots[2],
+    });
+  });
+
+  it("should fall back to the earliest snapshot", () => {
+    expect(selectBaseSnapshot(snapshots, "2026-01-01")).toEqual({
+      success: true,
+      data: snapshots[0],
+    });
+  });
+
+  it("should fail without snapshots or with an unknown since", () => {
+    const none = selectBaseSnapshot([], undefined);
+    const unknown = selectBaseSnapshot(snapshots, "someday");
+
+    expect(!none.success && extractTextContent(none.response)).toContain(
+      "No snapshots of this project yet"
+    );
+    expect(!unknown.success && extractTextContent(unknown.response)).toContain(
+      "'since' is neither a snapshot ID nor a date"
+    );
+  });
+});
+
+describe("formatChanges", () => {
+  it("should list each kind of change", () => {
+    const changes = diffSnapshotTasks(
+      [
+        {
+          oid: "T1",
+          id: 1,
+          name: "Draft",
+          assignees: [{ id: "ann", name: "Ann" }],
+          priority: { value: 0, name: "Medium" },
+        },
+        { oid: "T2", id: 2, name: "Old", assignees: [] },
+      ],
+      [
+        {
+          oid: "T1",
+          id: 1,
+          name: "Final",
+          status: { value: 100, name: "Done" },
+          assignees: [{ id: "bob", name: "Bob" }],
+          priority: { value: 1, name: "High" },
+          due: "2026-10-30",
+        },
+        { oid: "T3", id: 3, name: "New", assignees: [] },
+      ]
+    );
+
+    expect(formatChanges("## Changes", changes, false)).toBe(
+      [
+        "## Changes",
+        "### Created (1)\n\n- #3 New",
+        "### Completed (1)\n\n- #1 Final",
+        "### Deleted (1)\n\n- #2 Old",
+        '### Renamed (1)\n\n- #1 Final (was "Draft")',
+        "### Reassigned (1)\n\n- #1 Final: +Bob, -Ann",
+        "### Re-prioritized (1)\n\n- #1 Final: Medium → High",
+        "### Re-dated (1)\n\n- #1 Final: due none → 2026-10-30",
+      ].join("\n\n")
+    );
+  });
+
+  it("should say when nothing changed", () => {
+    expect(formatChanges("## Changes", diffSnapshotTasks([], []), true)).toBe(
+      "## Changes\n\nNo changes.\n\n" +
+        "_A task tree was cut off at 5000 tasks, so tasks beyond the " +
+        "limit may show up as created or deleted._"
+    );
+  });
+});
+
+describe("snapshot tools", () => {
+  const web = { oid: "P1", id: "web", name: "Website" } as QuireProject;
+  let dir: string;
+  let handlers: Map<string, ToolHandler>;
+  let getTaskTree: ReturnType<typeof vi.fn>;
+
+  const tree = (
+    ...tasks: { id: number; name: string }[]
+  ): { success: true; data: unknown } => ({
+    success: true,
+    data: {
+      roots: tasks.map(
+        (task): QuireTaskTreeNode => ({
+          oid: `T${String(task.id)}`,
+          ...task,
+          children: [],
+        })
+      ),
+      nodeCount: tasks.length,
+      truncated: false,
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-18T10:00:00Z") });
+    dir = mkdtempSync(join(tmpdir(), "quire-mcp-snapshots-"));
+    vi.stubEnv("QUIRE_SNAPSHOT_DIR", dir);
+    vi.stubEnv("QUIRE_TIMEZONE", "UTC");
+
+    handlers = new Map();
+    const server = {
+      registerTool: vi.fn(
+        (name: string, _config: unknown, callback: ToolHandler) => {
+          handlers.set(name, callback);
+        }
+      ),
+    } as unknown as McpServer;
+    registerSnapshotTools(server);
+
+    getTaskTree = vi.fn().mockResolvedValue(tree({ id: 1, name: "Launch" }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function callTool(
+    name: string,
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): ReturnType<ToolHandler> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        getProject: (idOrOid: string) =>
+          Promise.resolve(
+            idOrOid === "web" || idOrOid === "P1"
+              ? { success: true, data: web }
+              : mockErrors.notFound()
+          ),
+        getTaskTree: getTaskTree as QuireClient["getTaskTree"],
+        ...overrides,
+      }),
+    });
+    const handler = handlers.get(name);
+    if (!handler) throw new Error(`${name} not registered`);
+    return handler(
+      { projectId: "web", ...params },
+      createMockExtra({ quireToken: "token" })
+    );
+  }
+
+  it("should register the snapshot tools", () => {
+    expect([...handlers.keys()]).toEqual([
+      "quire.snapshotProject",
+      "quire.listSnapshots",
+      "quire.projectChanges",
+    ]);
+  });
+
+  describe("quire.snapshotProject", () => {
+    it("should store a snapshot of the project", async () => {
+      const result = await callTool("quire.snapshotProject", {});
+
+      expect(extractTextContent(result)).toBe(
+        "Snapshot 2026-10-18T100000000Z of web stored (1 tasks)."
+      );
+      expect(new SnapshotStore(dir).list("web")).toEqual([
+        result.structuredContent,
+      ]);
+    });
+
+    it("should store snapshots under the project ID", async () => {
+      await callTool("quire.snapshotProject", { projectId: "P1" });
+      await callTool("quire.snapshotProject", {});
+
+      const result = await callTool("quire.listSnapshots", {
+        projectId: "P1",
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        snapshots: [
+          { id: "2026-10-18T100000000Z", projectId: "web" },
+          { id: "2026-10-18T100000000Z-1", projectId: "web" },
+        ],
+      });
+    });
+
+    it("should return task tree errors", async () => {
+      getTaskTree.mockResolvedValueOnce(mockErrors.notFound());
+
+      const result = await callTool("quire.snapshotProject", {});
+
+      expect(isErrorResponse(result)).toBe(true);
+    });
+  });
+
+  describe("quire.listSnapshots", () => {
+    it("should list stored snapshots", async () => {
+      expect(
+        extractTextContent(await callTool("quire.listSnapshots", {}))
+      ).toBe("No snapshots of web.");
+
+      await callTool("quire.snapshotProject", {});
+      const result = await callTool("quire.listSnapshots", {});
+
+      expect(extractTextContent(result)).toBe(
+        "Snapshots of web:\n- 2026-10-18T100000000Z (2026-10-18T10:00:00.000Z, 1 tasks)"
+      );
+      expect(result.structuredContent).toMatchObject({
+        snapshots: [{ id: "2026-10-18T100000000Z" }],
+      });
+    });
+  });
+
+  describe("quire.projectChanges", () => {
+    beforeEach(async () => {
+      await callTool("quire.snapshotProject", {});
+      vi.setSystemTime(new Date("2026-10-19T10:00:00Z"));
+      getTaskTree.mockResolvedValue(
+        tree({ id: 1, name: "Launch v2" }, { id: 2, name: "Docs" })
+      );
+    });
+
+    it("should compare the latest snapshot with live data", async () => {
+      const result = await callTool("quire.projectChanges", {});
+
+      const text = extractTextContent(result);
+      expect(text).toContain(
+        "From snapshot 2026-10-18T100000000Z (2026-10-18T10:00:00.000Z) to live data"
+      );
+      expect(text).toContain("### Created (1)\n\n- #2 Docs");
+      expect(result.structuredContent).toMatchObject({
+        projectId: "web",
+        from: { snapshotId: "2026-10-18T100000000Z" },
+        to: { snapshotId: null, takenAt: "2026-10-19T10:00:00.000Z" },
+        truncated: false,
+        renamed: [{ id: 1, name: "Launch v2", from: "Launch" }],
+      });
+      // Live data is not stored
+      expect(new SnapshotStore(dir).list("web")).toHaveLength(1);
+    });
+
+    it("should compare two snapshots", async () => {
+      await callTool("quire.snapshotProject", {});
+
+      const result = await callTool("quire.projectChanges", {
+        since: "yesterday",
+        until: "2026-10-19T100000000Z",
+      });
+
+      expect(extractTextContent(result)).toContain(
+        "to snapshot 2026-10-19T100000000Z"
+      );
+      expect(result.structuredContent).toMatchObject({
+        to: { snapshotId: "2026-10-19T100000000Z" },
+        created: [{ id: 2 }],
+      });
+    });
+
+    it("should fail for unknown snapshots and live data errors", async () => {
+      const unknown = await callTool("quire.projectChanges", {
+        until: "2026-10-20T100000000Z",
+      });
+      expect(extractTextContent(unknown)).toContain(
+        'No snapshot "2026-10-20T100000000Z" of web'
+      );
+
+      const badSince = await callTool("quire.projectChanges", {
+        since: "someday",
+      });
+      expect(isErrorResponse(badSince)).toBe(true);
+
+      getTaskTree.mockResolvedValueOnce(mockErrors.serverError());
+      const live = await callTool("quire.projectChanges", {});
+      expect(isErrorResponse(live)).toBe(true);
+    });
+  });
+
+  it("should return errors for unknown projects", async () => {
+    const listProjects = (): ReturnType<QuireClient["listProjects"]> =>
+      Promise.resolve({ success: true, data: [] });
+
+    for (const name of handlers.keys()) {
+      const result = await callTool(
+        name,
+        { projectId: "Marketing Site" },
+        { listProjects }
+      );
+      expect(isErrorResponse(result)).toBe(true);
+    }
+  });
+
+  it("should not read snapshots of projects the user cannot access", async () => {
+    await callTool("quire.snapshotProject", {});
+    const getProject = (): ReturnType<QuireClient["getProject"]> =>
+      Promise.resolve(mockErrors.forbidden());
+
+    for (const name of ["quire.listSnapshots", "quire.projectChanges"]) {
+      const result = await callTool(
+        name,
+        { until: "2026-10-18T100000000Z" },
+        {
+          getProject,
+        }
+      );
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).not.toContain("2026-10-18T100000000Z");
+    }
+  });
+
+  it("should return error on authentication failure", async () => {
+    for (const handler of handlers.values()) {
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: false,
+        error: "No token",
+      });
+
+      const result = await handler({ projectId: "web" }, createMockExtra());
+
+      expect(isErrorResponse(result)).toBe(true);
+    }
+  });
+});
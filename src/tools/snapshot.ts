@@ -0,0 +1,407 @@
+/**
+ * Project Snapshot Tools
+ *
+ * Tools for taking and listing local snapshots of a project's tasks, and
+ * for reporting what changed between two snapshots or since the latest
+ * snapshot:
+ * - quire.snapshotProject: Store a snapshot of a project now
+ * - quire.listSnapshots: List a project's stored snapshots
+ * - quire.projectChanges: Diff two snapshots, or a snapshot and live data
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { SNAPSHOT_MAX_NODES } from "../constants.js";
+import type { QuireClient } from "../quire/client.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import {
+  CHANGE_KINDS,
+  diffSnapshotTasks,
+  type ProjectChanges,
+} from "../quire/snapshot-diff.js";
+import {
+  captureProjectSnapshot,
+  SnapshotStore,
+  toSnapshotInfo,
+  type ProjectSnapshot,
+  type SnapshotInfo,
+} from "../quire/snapshots.js";
+import {
+  getDateInputOptions,
+  parseDateInput,
+  toLocalDate,
+} from "../utils/dates.js";
+import { NameResolver, type ResolveResult } from "./resolver.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMessage,
+  formatValidationError,
+} from "./utils.js";
+
+const SnapshotInfoSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  takenAt: z.string(),
+  taskCount: z.number(),
+  truncated: z.boolean(),
+});
+
+const ChangedTaskSchema = z.object({
+  oid: z.string(),
+  id: z.number(),
+  name: z.string(),
+});
+
+const ChangeSideSchema = z.object({
+  /** Null for live data */
+  snapshotId: z.string().nullable(),
+  takenAt: z.string(),
+});
+
+/**
+ * Structured output of quire.projectChanges
+ */
+const ProjectChangesOutputSchema = z.object({
+  projectId: z.string(),
+  from: ChangeSideSchema,
+  to: ChangeSideSchema,
+  truncated: z.boolean(),
+  created: z.array(ChangedTaskSchema),
+  completed: z.array(ChangedTaskSchema),
+  deleted: z.array(ChangedTaskSchema),
+  renamed: z.array(ChangedTaskSchema.extend({ from: z.string() })),
+  reassigned: z.array(
+    ChangedTaskSchema.extend({
+      added: z.array(z.string()),
+      removed: z.array(z.string()),
+    })
+  ),
+  reprioritized: z.array(
+    ChangedTaskSchema.extend({
+      from: z.string().nullable(),
+      to: z.string().nullable(),
+    })
+  ),
+  redated: z.array(
+    ChangedTaskSchema.extend({
+      field: z.enum(["start", "due"]),
+      from: z.string().nullable(),
+      to: z.string().nullable(),
+    })
+  ),
+});
+
+type ProjectChange = ProjectChanges[keyof ProjectChanges][number];
+
+const CHANGE_LABELS: Record<(typeof CHANGE_KINDS)[number], string> = {
+  created: "Created",
+  completed: "Completed",
+  deleted: "Deleted",
+  renamed: "Renamed",
+  reassigned: "Reassigned",
+  reprioritized: "Re-prioritized",
+  redated: "Re-dated",
+};
+
+/**
+ * Pick the snapshot to compare from: a snapshot ID, or the last snapshot
+ * taken before a date or time (a date means the start of that day). Falls
+ * back to the earliest snapshot when none is older.
+ */
+/** @internal Exported for testing */
+export function selectBaseSnapshot(
+  snapshots: SnapshotInfo[],
+  since: string | undefined
+): ResolveResult<SnapshotInfo> {
+  const latest = snapshots.at(-1);
+  const earliest = snapshots[0];
+  if (!latest || !earliest) {
+    return {
+      success: false,
+      response: formatValidationError(
+        "No snapshots of this project yet. Take one with " +
+          "quire.snapshotProject, or set QUIRE_SNAPSHOT_PROJECTS to take " +
+          "them on a schedule."
+      ),
+    };
+  }
+  if (since === undefined) {
+    return { success: true, data: latest };
+  }
+  const byId = snapshots.find((snapshot) => snapshot.id === since);
+  if (byId) {
+    return { success: true, data: byId };
+  }
+
+  const options = getDateInputOptions();
+  const date = parseDateInput(since, options);
+  if (!date.success) {
+    return {
+      success: false,
+      response: formatValidationError(
+        `'since' is neither a snapshot ID nor a date: ${date.error}`
+      ),
+    };
+  }
+  const isBefore = (snapshot: SnapshotInfo): boolean =>
+    date.value.length === 10
+      ? (toLocalDate(snapshot.takenAt, options.timeZone) ?? "") < date.value
+      : Date.parse(snapshot.takenAt) < Date.parse(date.value);
+  const before = snapshots.filter(isBefore).at(-1);
+  return { success: true, data: before ?? earliest };
+}
+
+/**
+ * Resolve a project whose stored snapshots the user may read, to the
+ * project ID the store is keyed by. The store is shared by everyone using
+ * the server, so the project is fetched first to confirm the user can
+ * access it.
+ */
+async function resolveReadableProject(
+  client: QuireClient,
+  ref: string
+): Promise<ResolveResult<string>> {
+  const projectId = await new NameResolver(client).project(ref);
+  if (!projectId.success) {
+    return projectId;
+  }
+  const project = await client.getProject(projectId.data);
+  if (!project.success) {
+    return {
+      success: false,
+      response: formatError(project.error, "project"),
+    };
+  }
+  return { success: true, data: project.data.id };
+}
+
+function formatChange(change: ProjectChange): string {
+  const task = `#${String(change.id)} ${change.name}`;
+  if ("field" in change) {
+    return `- ${task}: ${change.field} ${change.from ?? "none"} → ${change.to ?? "none"}`;
+  }
+  if ("added" in change) {
+    const names = [
+      ...change.added.map((name) => `+${name}`),
+      ...change.removed.map((name) => `-${name}`),
+    ];
+    return `- ${task}: ${names.join(", ")}`;
+  }
+  if ("to" in change) {
+    return `- ${task}: ${change.from ?? "none"} → ${change.to ?? "none"}`;
+  }
+  if ("from" in change) {
+    return `- ${task} (was "${change.from}")`;
+  }
+  return `- ${task}`;
+}
+
+/**
+ * Render the changes as Markdown, one section per kind of change
+ */
+/** @internal Exported for testing */
+export function formatChanges(
+  header: string,
+  changes: ProjectChanges,
+  truncated: boolean
+): string {
+  const sections = [header];
+  for (const kind of CHANGE_KINDS) {
+    const list: ProjectChange[] = changes[kind];
+    if (list.length === 0) continue;
+    sections.push(
+      `### ${CHANGE_LABELS[kind]} (${String(list.length)})\n\n` +
+        list.map(formatChange).join("\n")
+    );
+  }
+  if (sections.length === 1) {
+    sections.push("No changes.");
+  }
+  if (truncated) {
+    sections.push(
+      `_A task tree was cut off at ${String(SNAPSHOT_MAX_NODES)} tasks, ` +
+        "so tasks beyond the limit may show up as created or deleted._"
+    );
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Register snapshot tools with the MCP server
+ */
+export function registerSnapshotTools(server: McpServer): void {
+  // quire.snapshotProject
+  server.registerTool(
+    "quire.snapshotProject",
+    {
+      description:
+        "Store a local snapshot of a project's tasks (name, status, " +
+        "priority, assignees, dates) so later changes can be reported " +
+        "with quire.projectChanges. Returns the snapshot ID.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
+      }),
+      outputSchema: SnapshotInfoSchema,
+    },
+    async ({ projectId }, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const client = clientResult.client;
+
+      const project = await new NameResolver(client).project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+      const snapshot = await captureProjectSnapshot(client, project.data);
+      if (!snapshot.success) {
+        return formatError(snapshot.error, "project");
+      }
+      const info = toSnapshotInfo(new SnapshotStore().save(snapshot.data));
+      return formatMessage(
+        `Snapshot ${info.id} of ${info.projectId} stored ` +
+          `(${String(info.taskCount)} tasks).`,
+        info
+      );
+    }
+  );
+
+  // quire.listSnapshots
+  server.registerTool(
+    "quire.listSnapshots",
+    {
+      description:
+        "List the stored snapshots of a project, oldest first. Snapshots " +
+        "are read locally; the Quire API is only called to check that " +
+        "you can access the project.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
+      }),
+      outputSchema: z.object({ snapshots: z.array(SnapshotInfoSchema) }),
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ projectId }, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+
+      const project = await resolveReadableProject(
+        clientResult.client,
+        projectId
+      );
+      if (!project.success) {
+        return project.response;
+      }
+      const snapshots = new SnapshotStore().list(project.data);
+      const lines = snapshots.map(
+        (s) => `- ${s.id} (${s.takenAt}, ${String(s.taskCount)} tasks)`
+      );
+      return formatMessage(
+        snapshots.length > 0
+          ? `Snapshots of ${project.data}:\n${lines.join("\n")}`
+          : `No snapshots of ${project.data}.`,
+        { snapshots }
+      );
+    }
+  );
+
+  // quire.projectChanges
+  server.registerTool(
+    "quire.projectChanges",
+    {
+      description:
+        "Report what changed in a project between two snapshots, or " +
+        "between a snapshot and live data: tasks created, completed, " +
+        "deleted, renamed, reassigned, re-prioritized and re-dated. " +
+        "Defaults to the latest snapshot compared with live data. " +
+        "Snapshots are taken with quire.snapshotProject or on the " +
+        "QUIRE_SNAPSHOT_PROJECTS schedule.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
+        since: z
+          .string()
+          .optional()
+          .describe(
+            "Snapshot ID, or a date or time (e.g., 'yesterday') to use the " +
+              "last snapshot taken before it (default: latest snapshot)"
+          ),
+        until: z
+          .string()
+          .optional()
+          .describe("Snapshot ID to compare to (default: live data)"),
+      }),
+      outputSchema: ProjectChangesOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ projectId, since, until }, extra) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const client = clientResult.client;
+
+      const project = await resolveReadableProject(client, projectId);
+      if (!project.success) {
+        return project.response;
+      }
+      const store = new SnapshotStore();
+      const base = selectBaseSnapshot(store.list(project.data), since);
+      if (!base.success) {
+        return base.response;
+      }
+      const before = store.load(project.data, base.data.id);
+      if (!before) {
+        return formatValidationError(
+          `Snapshot "${base.data.id}" of ${project.data} could not be read.`
+        );
+      }
+
+      let after: ProjectSnapshot | undefined;
+      if (until === undefined) {
+        const live = await captureProjectSnapshot(client, project.data);
+        if (!live.success) {
+          return formatError(live.error, "project");
+        }
+        after = live.data;
+      } else {
+        after = store.load(project.data, until);
+        if (!after) {
+          return formatValidationError(
+            `No snapshot "${until}" of ${project.data}. Use ` +
+              "quire.listSnapshots to see the stored snapshots."
+          );
+        }
+      }
+
+      const changes = diffSnapshotTasks(before.tasks, after.tasks);
+      const truncated = before.truncated || after.truncated;
+      const to = until === undefined ? "live data" : `snapshot ${after.id}`;
+      const header =
+        `## Changes in ${project.data}\n\n` +
+        `From snapshot ${before.id} (${before.takenAt}) to ${to} (${after.takenAt})`;
+      return formatMessage(formatChanges(header, changes, truncated), {
+        projectId: project.data,
+        from: { snapshotId: before.id, takenAt: before.takenAt },
+        to: {
+          snapshotId: until === undefined ? null : after.id,
+          takenAt: after.takenAt,
+        },
+        truncated,
+        ...changes,
+      });
+    }
+  );
+}
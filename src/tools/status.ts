@@ -7,12 +7,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import {
+  DeleteValueResponseSchema,
+  QuireStatusSchema,
+} from "../quire/schemas.js";
+import { StatusListOutputSchema } from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
   formatMessage,
   buildParams,
+  freshReadSchema,
+  readClient,
 } from "./utils.js";
 
 /**
@@ -31,23 +38,26 @@ export function registerStatusTools(server: McpServer): void {
         projectId: z
           .string()
           .describe("The project ID (e.g., 'my-project') or OID"),
+        ...freshReadSchema,
       }),
+      outputSchema: StatusListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ projectId }, extra) => {
+    async ({ projectId, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.listStatuses(projectId);
+      const result = await client.listStatuses(projectId);
       if (!result.success) {
         return formatError(result.error, "status");
       }
 
-      return formatSuccess(result.data);
+      return formatSuccess(result.data, { statuses: result.data });
     }
   );
 
@@ -62,18 +72,21 @@ export function registerStatusTools(server: McpServer): void {
           .string()
           .describe("The project ID (e.g., 'my-project') or OID"),
         value: z.number().min(0).max(100).describe("The status value (0-100)"),
+        ...freshReadSchema,
       }),
+      outputSchema: QuireStatusSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ projectId, value }, extra) => {
+    async ({ projectId, value, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.getStatus(projectId, value);
+      const result = await client.getStatus(projectId, value);
       if (!result.success) {
         return formatError(result.error, "status");
       }
@@ -106,6 +119,7 @@ export function registerStatusTools(server: McpServer): void {
           .optional()
           .describe("Status color (hex code without #, e.g., 'ff5733')"),
       }),
+      outputSchema: QuireStatusSchema,
     },
     async ({ projectId, name, value, color }, extra) => {
       const clientResult = await getQuireClient(extra);
@@ -155,6 +169,7 @@ export function registerStatusTools(server: McpServer): void {
           .optional()
           .describe("New color (hex code without #, e.g., 'ff5733')"),
       }),
+      outputSchema: QuireStatusSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -199,6 +214,7 @@ export function registerStatusTools(server: McpServer): void {
             "The status value (1-99) to delete. Cannot delete 0 (To-Do) or 100 (Complete)"
           ),
       }),
+      outputSchema: DeleteValueResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -214,7 +230,10 @@ export function registerStatusTools(server: McpServer): void {
         return formatError(result.error, "status");
       }
 
-      return formatMessage(`Status with value ${value} deleted successfully.`);
+      return formatMessage(
+        `Status with value ${value} deleted successfully.`,
+        result.data
+      );
     }
   );
 }
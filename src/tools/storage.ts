@@ -7,6 +7,11 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import {
+  DeleteNameResponseSchema,
+  QuireStorageEntrySchema,
+} from "../quire/schemas.js";
+import { StorageEntryListOutputSchema } from "./output-schemas.js";
 
 interface ToolTextContent {
   type: "text";
@@ -71,6 +76,7 @@ export function registerStorageTools(server: McpServer): void {
       inputSchema: z.object({
         name: z.string().describe("The storage key name"),
       }),
+      outputSchema: QuireStorageEntrySchema,
       annotations: {
         readOnlyHint: true,
       },
@@ -101,6 +107,7 @@ export function registerStorageTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
@@ -117,6 +124,7 @@ export function registerStorageTools(server: McpServer): void {
           .string()
           .describe("The prefix to filter storage keys (e.g., 'config/')"),
       }),
+      outputSchema: StorageEntryListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
@@ -147,6 +155,7 @@ export function registerStorageTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { entries: result.data },
       };
     }
   );
@@ -164,6 +173,7 @@ export function registerStorageTools(server: McpServer): void {
           .unknown()
           .describe("The value to store (can be any JSON-serializable value)"),
       }),
+      outputSchema: QuireStorageEntrySchema,
       annotations: {
         idempotentHint: true,
       },
@@ -194,6 +204,7 @@ export function registerStorageTools(server: McpServer): void {
             text: JSON.stringify(result.data, null, 2),
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
@@ -207,6 +218,7 @@ export function registerStorageTools(server: McpServer): void {
       inputSchema: z.object({
         name: z.string().describe("The storage key name to delete"),
       }),
+      outputSchema: DeleteNameResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -237,6 +249,7 @@ export function registerStorageTools(server: McpServer): void {
             text: `Storage entry '${name}' deleted successfully.`,
           },
         ],
+        structuredContent: { ...result.data },
       };
     }
   );
@@ -7,14 +7,25 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import {
+  DeleteOidResponseSchema,
+  QuireSublistSchema,
+} from "../quire/schemas.js";
+import {
+  SublistOutputSchema,
+  SublistListOutputSchema,
+} from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  formatProjected,
+  responseShapeSchema,
   formatMessage,
   formatValidationError,
   buildParams,
 } from "./utils.js";
+import { DATE_INPUT_HINT } from "./date-input.js";
 
 /**
  * Register all sublist tools with the MCP server
@@ -66,12 +77,13 @@ export function registerSublistTools(server: McpServer): void {
         start: z
           .string()
           .optional()
-          .describe("Target start date (ISO 8601 format, e.g., '2024-01-02')"),
+          .describe(`Target start date: ${DATE_INPUT_HINT}`),
         due: z
           .string()
           .optional()
-          .describe("Target due date (ISO 8601 format, e.g., '2024-05-25')"),
+          .describe(`Target due date: ${DATE_INPUT_HINT}`),
       }),
+      outputSchema: QuireSublistSchema,
     },
     async (
       {
@@ -143,12 +155,14 @@ export function registerSublistTools(server: McpServer): void {
           .string()
           .optional()
           .describe("The sublist ID within the owner"),
+        ...responseShapeSchema,
       }),
+      outputSchema: SublistOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ oid, ownerType, ownerId, sublistId }, extra) => {
+    async ({ oid, ownerType, ownerId, sublistId, format, fields }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -174,7 +188,7 @@ export function registerSublistTools(server: McpServer): void {
         return formatError(result.error, "sublist");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(result.data, "sublist", { format, fields });
     }
   );
 
@@ -193,12 +207,14 @@ export function registerSublistTools(server: McpServer): void {
         ownerId: z
           .string()
           .describe("The owner ID (e.g., 'my-org' or 'my-project') or OID"),
+        ...responseShapeSchema,
       }),
+      outputSchema: SublistListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ ownerType, ownerId }, extra) => {
+    async ({ ownerType, ownerId, format, fields }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
@@ -212,7 +228,12 @@ export function registerSublistTools(server: McpServer): void {
         return formatError(result.error, "sublist");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(
+        result.data,
+        "sublist",
+        { format, fields },
+        (sublists) => ({ sublists })
+      );
     }
   );
 
@@ -275,11 +296,11 @@ export function registerSublistTools(server: McpServer): void {
         start: z
           .string()
           .optional()
-          .describe("Target start date (ISO 8601 format, e.g., '2024-01-02')"),
+          .describe(`Target start date: ${DATE_INPUT_HINT}`),
         due: z
           .string()
           .optional()
-          .describe("Target due date (ISO 8601 format, e.g., '2024-05-25')"),
+          .describe(`Target due date: ${DATE_INPUT_HINT}`),
         image: z
           .string()
           .optional()
@@ -287,6 +308,7 @@ export function registerSublistTools(server: McpServer): void {
             "Icon image identifier (e.g., 'icon-view-list', 'icon-briefcase-o', etc.)"
           ),
       }),
+      outputSchema: QuireSublistSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -377,6 +399,7 @@ export function registerSublistTools(server: McpServer): void {
           .optional()
           .describe("The sublist ID within the owner to delete"),
       }),
+      outputSchema: DeleteOidResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -408,7 +431,10 @@ export function registerSublistTools(server: McpServer): void {
       }
 
       const identifier = oid ?? `${ownerType}/${ownerId}/${sublistId}`;
-      return formatMessage(`Sublist ${identifier} deleted successfully.`);
+      return formatMessage(
+        `Sublist ${identifier} deleted successfully.`,
+        result.data
+      );
     }
   );
 }
@@ -7,12 +7,18 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { DeleteOidResponseSchema, QuireTagSchema } from "../quire/schemas.js";
+import { TagOutputSchema, TagListOutputSchema } from "./output-schemas.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  formatProjected,
+  responseShapeSchema,
   formatMessage,
   buildParams,
+  freshReadSchema,
+  readClient,
 } from "./utils.js";
 
 /**
@@ -30,23 +36,32 @@ export function registerTagTools(server: McpServer): void {
         projectId: z
           .string()
           .describe("The project ID (e.g., 'my-project') or OID"),
+        ...responseShapeSchema,
+        ...freshReadSchema,
       }),
+      outputSchema: TagListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ projectId }, extra) => {
+    async ({ projectId, format, fields, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.listTags(projectId);
+      const result = await client.listTags(projectId);
       if (!result.success) {
         return formatError(result.error, "tag");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(
+        result.data,
+        "tag",
+        { format, fields },
+        (tags) => ({ tags })
+      );
     }
   );
 
@@ -57,23 +72,27 @@ export function registerTagTools(server: McpServer): void {
       description: "Get detailed information about a specific tag by its OID.",
       inputSchema: z.object({
         oid: z.string().describe("The tag OID (unique identifier)"),
+        ...responseShapeSchema,
+        ...freshReadSchema,
       }),
+      outputSchema: TagOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ oid }, extra) => {
+    async ({ oid, format, fields, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.getTag(oid);
+      const result = await client.getTag(oid);
       if (!result.success) {
         return formatError(result.error, "tag");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(result.data, "tag", { format, fields });
     }
   );
 
@@ -103,6 +122,7 @@ export function registerTagTools(server: McpServer): void {
             "Tag color index from Quire's predefined palette (two-digit code, e.g., '35')"
           ),
       }),
+      outputSchema: QuireTagSchema,
     },
     async ({ projectId, name, global, color }, extra) => {
       const clientResult = await getQuireClient(extra);
@@ -153,6 +173,7 @@ export function registerTagTools(server: McpServer): void {
             "Tag color index from Quire's predefined palette (two-digit code, e.g., '35')"
           ),
       }),
+      outputSchema: QuireTagSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -183,6 +204,7 @@ export function registerTagTools(server: McpServer): void {
       inputSchema: z.object({
         oid: z.string().describe("The tag OID (unique identifier) to delete"),
       }),
+      outputSchema: DeleteOidResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -198,7 +220,7 @@ export function registerTagTools(server: McpServer): void {
         return formatError(result.error, "tag");
       }
 
-      return formatMessage(`Tag ${oid} deleted successfully.`);
+      return formatMessage(`Tag ${oid} deleted successfully.`, result.data);
     }
   );
 }
@@ -0,0 +1,256 @@
+import { describe, it, expect } from "vitest";
+import type { QuireTask } from "../quire/types.js";
+import type { DateInputOptions } from "../utils/dates.js";
+import {
+  compileTaskQuery,
+  groupTasks,
+  parseSort,
+  parseTaskQuery,
+  queryUsesMe,
+  sortTasks,
+  type ProjectTask,
+  type QueryContext,
+} from "./task-query.js";
+
+// Monday 19 October 2026
+const dateOptions: DateInputOptions = {
+  timeZone: "Europe/Paris",
+  weekStart: 1,
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+const context: QueryContext = {
+  me: { id: "ann", oid: "ann-oid" },
+  dateOptions,
+};
+
+function task(id: number, fields: Partial<QuireTask> = {}): QuireTask {
+  return { oid: `t${String(id)}`, id, name: `Task ${String(id)}`, ...fields };
+}
+
+const tasks: QuireTask[] = [
+  task(1, {
+    name: "Fix login bug",
+    status: { value: 0, name: "To-Do" },
+    priority: { value: 1, name: "High" },
+    due: "2026-10-20",
+    assignees: [{ id: "ann", oid: "ann-oid", name: "Ann Lee" }],
+    tags: [{ id: 7, name: "bug" }],
+  }),
+  task(2, {
+    name: "Release notes",
+    descriptionText: "Draft the changelog",
+    status: { value: 100, name: "Completed" },
+    priority: { value: 0, name: "Medium" },
+    due: "2026-11-30T09:00:00Z",
+    assignees: [{ id: "bob", name: "Bob Marsh" }],
+    completedAt: "2026-10-01T12:00:00Z",
+  }),
+  task(3, {
+    name: "Triage backlog",
+    status: { value: 50, name: "In Review" },
+    priority: { value: 2, name: "Urgent" },
+    tags: [
+      { id: 7, name: "bug" },
+      { id: 8, name: "ops" },
+    ],
+  }),
+];
+
+/** IDs of the tasks a query matches */
+function run(query: string): number[] | string {
+  const parsed = parseTaskQuery(query);
+  if (!parsed.success) return parsed.error;
+  const matches = compileTaskQuery(parsed.data.terms, context);
+  if (!matches.success) return matches.error;
+  return tasks.filter(matches.data).map((t) => t.id);
+}
+
+describe("parseTaskQuery", () => {
+  it("should split projects from filter terms", () => {
+    expect(
+      parseTaskQuery('project:web,api -status:done tag!=bug "In Review" x')
+    ).toEqual({
+      success: true,
+      data: {
+        projects: ["web", "api"],
+        terms: [
+          { field: "status", op: ":", values: ["done"], negated: true },
+          { field: "tag", op: ":", values: ["bug"], negated: true },
+          { field: "text", op: ":", values: ["In Review"], negated: false },
+          { field: "text", op: ":", values: ["x"], negated: false },
+        ],
+      },
+    });
+  });
+
+  it("should keep quoted values and commas in name terms", () => {
+    const parsed = parseTaskQuery('status:"In Review" name:"a, b" due>=today');
+
+    expect(parsed.success && parsed.data.terms).toEqual([
+      { field: "status", op: ":", values: ["In Review"], negated: false },
+      { field: "name", op: ":", values: ["a, b"], negated: false },
+      { field: "due", op: ">=", values: ["today"], negated: false },
+    ]);
+  });
+
+  it("should read project IDs from project links", () => {
+    const parsed = parseTaskQuery(
+      "project:https://quire.io/w/web/42,api tag:bug"
+    );
+
+    expect(parsed.success && parsed.data.projects).toEqual(["web", "api"]);
+  });
+
+  it("should reject malformed queries", () => {
+    const error = (query: string): string => {
+      const parsed = parseTaskQuery(query);
+      return parsed.success ? "" : parsed.error;
+    };
+
+    expect(error("owner:ann")).toContain('Unknown field "owner"');
+    expect(error("tag:")).toContain("Missing value");
+    expect(error('name:"open')).toContain("Unclosed quote");
+    expect(error("fix -")).toContain("Empty term");
+    expect(error('fix ""')).toContain("Empty term");
+    expect(error("-project:web")).toContain("cannot be negated");
+    expect(error("project:https://quire.io/u/alice")).toBe(
+      "project: does not take user links"
+    );
+    expect(error("tag>bug")).toContain("does not support the > operator");
+  });
+});
+
+describe("compileTaskQuery", () => {
+  it("should match assignees by me, ID, name and none", () => {
+    expect(run("assignee:me")).toEqual([1]);
+    expect(run("assignee:@bob")).toEqual([2]);
+    expect(run("assignee:lee,marsh")).toEqual([1, 2]);
+    expect(run("assignee:none")).toEqual([3]);
+  });
+
+  it("should match statuses by alias, name, value and comparison", () => {
+    expect(run("status:done")).toEqual([2]);
+    expect(run("-status:done")).toEqual([1, 3]);
+    expect(run("status:open")).toEqual([1, 3]);
+    expect(run('status:"in review"')).toEqual([3]);
+    expect(run("status>=50")).toEqual([2, 3]);
+    expect(run("status<done")).toEqual([1, 3]);
+    expect(run("status<review")).toContain("Status comparisons");
+  });
+
+  it("should compare priorities", () => {
+    expect(run("priority>=high")).toEqual([1, 3]);
+    expect(run("priority:medium")).toEqual([2]);
+    expect(run("priority<2")).toEqual([1, 2]);
+    expect(run("priority:soon")).toContain('Unknown priority "soon"');
+  });
+
+  it("should match tags by name, ID and none", () => {
+    expect(run("tag:#Bug")).toEqual([1, 3]);
+    expect(run("tag:8")).toEqual([3]);
+    expect(run("tag:bug -tag:ops")).toEqual([1]);
+    expect(run("tag:none")).toEqual([2]);
+  });
+
+  it("should compare dates by day, resolving relative dates", () => {
+    expect(run("due<+7d")).toEqual([1]);
+    expect(run("due:tomorrow")).toEqual([1]);
+    expect(run("due>=end of month")).toContain("Unrecognized date");
+    expect(run('due>="end of month"')).toEqual([2]);
+    expect(run("due:none")).toEqual([3]);
+    expect(run("completed<today")).toEqual([2]);
+    expect(run("start:someday")).toContain(
+      'start: Unrecognized date "someday"'
+    );
+  });
+
+  it("should compare date-times by their day in the time zone", () => {
+    const parsed = parseTaskQuery("completed:2026-10-01");
+    if (!parsed.success) throw new Error(parsed.error);
+    const matches = compileTaskQuery(parsed.data.terms, context);
+    if (!matches.success) throw new Error(matches.error);
+
+    // 22:30 UTC on 30 September is already 1 October in Paris
+    expect(matches.data(task(4, { completedAt: "2026-09-30T22:30:00Z" }))).toBe(
+      true
+    );
+    expect(matches.data(task(5, { completedAt: "2026-10-01T22:30:00Z" }))).toBe(
+      false
+    );
+  });
+
+  it("should search names and descriptions", () => {
+    expect(run("bug")).toEqual([1]);
+    expect(run("changelog")).toEqual([2]);
+    expect(run("name:changelog")).toEqual([]);
+    expect(run("-name:bug")).toEqual([2, 3]);
+  });
+});
+
+describe("queryUsesMe", () => {
+  it("should detect assignee:me terms", () => {
+    const terms = (query: string): Parameters<typeof queryUsesMe>[0] => {
+      const parsed = parseTaskQuery(query);
+      return parsed.success ? parsed.data.terms : [];
+    };
+
+    expect(queryUsesMe(terms("assignee:bob,ME"))).toBe(true);
+    expect(queryUsesMe(terms("me assignee:bob"))).toBe(false);
+  });
+});
+
+describe("sorting and grouping", () => {
+  const items: ProjectTask[] = tasks.map((t, i) => ({
+    projectId: i === 1 ? "api" : "web",
+    task: t,
+  }));
+  const ids = (list: ProjectTask[]): number[] => list.map((i) => i.task.id);
+
+  it("should parse sort keys", () => {
+    expect(parseSort("-priority, due")).toEqual({
+      success: true,
+      data: [
+        { key: "priority", descending: true },
+        { key: "due", descending: false },
+      ],
+    });
+    expect(parseSort("size")).toEqual({
+      success: false,
+      error: expect.stringContaining('Unknown sort key "size"') as string,
+    });
+  });
+
+  it("should sort by keys, keeping missing values last", () => {
+    const sort = (spec: string): number[] => {
+      const keys = parseSort(spec);
+      return keys.success ? ids(sortTasks(items, keys.data)) : [];
+    };
+
+    expect(sort("-priority")).toEqual([3, 1, 2]);
+    expect(sort("due")).toEqual([1, 2, 3]);
+    expect(sort("-due")).toEqual([2, 1, 3]);
+    expect(sort("project,-id")).toEqual([2, 3, 1]);
+    expect(sort("")).toEqual([1, 2, 3]);
+  });
+
+  it("should group tasks, listing multi-valued tasks in each group", () => {
+    const groups = (by: Parameters<typeof groupTasks>[1]): unknown =>
+      groupTasks(items, by).map(({ key, tasks: list }) => [key, ids(list)]);
+
+    expect(groups("project")).toEqual([
+      ["web", [1, 3]],
+      ["api", [2]],
+    ]);
+    expect(groups("tag")).toEqual([
+      ["bug", [1, 3]],
+      ["(none)", [2]],
+      ["ops", [3]],
+    ]);
+    expect(groups("assignee")).toEqual([
+      ["Ann Lee", [1]],
+      ["Bob Marsh", [2]],
+      ["(none)", [3]],
+    ]);
+  });
+});
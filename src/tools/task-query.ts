@@ -0,0 +1,623 @@
+/**
+ * Task Query Language
+ *
+ * Parses and evaluates the filter language of quire.queryTasks:
+ *
+ *   project:web,api assignee:me due<+7d -status:done tag:bug priority>=high
+ *
+ * A query is a list of terms separated by spaces, all of which must match.
+ * A term is a field, an operator and a value:
+ *
+ * - `:` (or `=`) matches and `!=` does not; `<`, `<=`, `>` and `>=`
+ *   compare priorities, statuses and dates.
+ * - A leading `-` negates a term. Comma-separated values match any of them.
+ * - `none` matches tasks without the field (no assignee, tag or date).
+ * - Words without a field match task names and descriptions. Double quotes
+ *   keep spaces together: `status:"In Review"`, `"release notes"`.
+ *
+ * `project:` terms select the projects to scan rather than filter tasks, and
+ * take Quire project links as well as project references.
+ */
+
+import type { QuireTask } from "../quire/types.js";
+import { getUrlProjectId, parseQuireUrl } from "../quire/urls.js";
+import {
+  parseDateInput,
+  toLocalDate,
+  type DateInputOptions,
+} from "../utils/dates.js";
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+const QUERY_FIELDS = [
+  "project",
+  "assignee",
+  "status",
+  "priority",
+  "tag",
+  "due",
+  "start",
+  "created",
+  "completed",
+  "name",
+  "text",
+] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+type Comparison = "<" | "<=" | ">" | ">=";
+
+/**
+ * One term of a query
+ */
+export interface QueryTerm {
+  field: QueryField;
+  /** ":" to match a value, or a comparison */
+  op: ":" | Comparison;
+  /** Alternatives; the term matches if any of them does */
+  values: string[];
+  negated: boolean;
+}
+
+/**
+ * A parsed query
+ */
+export interface TaskQuery {
+  /** Project references from project: terms */
+  projects: string[];
+  /** Filter terms, all of which must match */
+  terms: QueryTerm[];
+}
+
+/**
+ * A task and the project it was fetched from
+ */
+export interface ProjectTask {
+  projectId: string;
+  task: QuireTask;
+}
+
+/**
+ * What a query is evaluated against besides the task itself
+ */
+export interface QueryContext {
+  /** The current user, for assignee:me */
+  me?: { id: string; oid?: string };
+  /** How relative dates in date terms are resolved */
+  dateOptions: DateInputOptions;
+}
+
+/** Task date fields by query field */
+const DATE_FIELDS = {
+  due: "due",
+  start: "start",
+  created: "createdAt",
+  completed: "completedAt",
+} as const;
+
+/** Fields that accept comparisons */
+const COMPARABLE_FIELDS = new Set<QueryField>([
+  "priority",
+  "status",
+  "due",
+  "start",
+  "created",
+  "completed",
+]);
+
+/** Priority names and the values Quire uses for them */
+const PRIORITIES: Record<string, number | undefined> = {
+  low: -1,
+  medium: 0,
+  normal: 0,
+  high: 1,
+  urgent: 2,
+};
+
+/** Status names standing for Quire's built-in values */
+const STATUS_ALIASES: Record<string, number | undefined> = {
+  todo: 0,
+  "to-do": 0,
+  done: 100,
+  complete: 100,
+  completed: 100,
+};
+
+const TERM = /^([a-z]+)(!=|<=|>=|:|=|<|>)(.*)$/i;
+
+/** Value that matches tasks without the field */
+const NONE = "none";
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface Token {
+  text: string;
+  /** Started with a double quote: a phrase, never a field term */
+  phrase: boolean;
+  negated: boolean;
+}
+
+/**
+ * Split a query at unquoted whitespace. Quotes are removed.
+ */
+function tokenize(query: string): ParseResult<Token[]> {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query.charAt(i))) {
+      i++;
+      continue;
+    }
+
+    const negated = query.charAt(i) === "-";
+    if (negated) i++;
+    const phrase = query.charAt(i) === '"';
+    let text = "";
+    while (i < query.length && !/\s/.test(query.charAt(i))) {
+      const char = query.charAt(i);
+      if (char === '"') {
+        const end = query.indexOf('"', i + 1);
+        if (end === -1) {
+          return { success: false, error: "Unclosed quote in query" };
+        }
+        text += query.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        text += char;
+        i++;
+      }
+    }
+    if (text === "") {
+      return {
+        success: false,
+        error: 'Empty term in query; quote a lone "-" to search for it',
+      };
+    }
+    tokens.push({ text, phrase, negated });
+  }
+  return { success: true, data: tokens };
+}
+
+function isQueryField(field: string): field is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Parse a query into project references and filter terms
+ */
+export function parseTaskQuery(query: string): ParseResult<TaskQuery> {
+  const tokens = tokenize(query);
+  if (!tokens.success) return tokens;
+
+  const parsed: TaskQuery = { projects: [], terms: [] };
+  for (const { text, phrase, negated } of tokens.data) {
+    const match = phrase ? null : TERM.exec(text);
+    if (!match) {
+      parsed.terms.push({ field: "text", op: ":", values: [text], negated });
+      continue;
+    }
+
+    const [, fieldName = "", operator = "", value = ""] = match;
+    const field = fieldName.toLowerCase();
+    if (!isQueryField(field)) {
+      return {
+        success: false,
+        error:
+          `Unknown field "${fieldName}". ` +
+          `Fields: ${QUERY_FIELDS.join(", ")}`,
+      };
+    }
+    const values =
+      field === "name" || field === "text"
+        ? [value]
+        : value.split(",").map((v) => v.trim());
+    if (values.some((v) => v === "")) {
+      return { success: false, error: `Missing value in "${text}"` };
+    }
+
+    const op = operator === "=" || operator === "!=" ? ":" : operator;
+    const isNegated = negated !== (operator === "!=");
+    if (field === "project") {
+      if (op !== ":" || isNegated) {
+        return {
+          success: false,
+          error: "project: terms select projects and cannot be negated",
+        };
+      }
+      for (const value of values) {
+        // Quire links name their project, e.g. project:https://quire.io/w/web
+        const url = parseQuireUrl(value);
+        const projectId = url ? getUrlProjectId(url) : value;
+        if (url && projectId === undefined) {
+          return {
+            success: false,
+            error: `project: does not take ${url.kind} links`,
+          };
+        }
+        parsed.projects.push(projectId ?? value);
+      }
+      continue;
+    }
+    if (op !== ":" && !COMPARABLE_FIELDS.has(field)) {
+      return {
+        success: false,
+        error: `"${field}" does not support the ${op} operator`,
+      };
+    }
+    parsed.terms.push({
+      field,
+      op: op as QueryTerm["op"],
+      values,
+      negated: isNegated,
+    });
+  }
+  return { success: true, data: parsed };
+}
+
+/**
+ * Whether any term refers to the current user
+ */
+export function queryUsesMe(terms: QueryTerm[]): boolean {
+  return terms.some(
+    (term) =>
+      term.field === "assignee" &&
+      term.values.some((value) => value.toLowerCase() === "me")
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+type Matcher = (task: QuireTask) => boolean;
+
+function compare(
+  a: number | string,
+  op: QueryTerm["op"],
+  b: number | string
+): boolean {
+  switch (op) {
+    case ":":
+      return a === b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+}
+
+/**
+ * A number from a numeric string or a name in `names`
+ */
+function numberValue(
+  value: string,
+  names: Record<string, number | undefined>
+): number | undefined {
+  if (/^-?\d+$/.test(value)) return Number(value);
+  return names[value.toLowerCase()];
+}
+
+function assigneeMatcher(value: string, context: QueryContext): Matcher {
+  const lower = value.toLowerCase();
+  if (lower === NONE) {
+    return (task) => !task.assignees?.length;
+  }
+  if (lower === "me") {
+    const { me } = context;
+    return (task) =>
+      task.assignees?.some(
+        (user) => user.id === me?.id || (!!user.oid && user.oid === me?.oid)
+      ) ?? false;
+  }
+  const ref = lower.replace(/^@/, "");
+  return (task) =>
+    task.assignees?.some(
+      (user) =>
+        user.id.toLowerCase() === ref ||
+        user.oid === value ||
+        user.name.toLowerCase().includes(ref)
+    ) ?? false;
+}
+
+function tagMatcher(value: string): Matcher {
+  const lower = value.toLowerCase();
+  if (lower === NONE) {
+    return (task) => !task.tags?.length;
+  }
+  if (/^\d+$/.test(value)) {
+    return (task) =>
+      task.tags?.some((tag) => tag.id === Number(value)) ?? false;
+  }
+  const name = lower.replace(/^#/, "");
+  return (task) =>
+    task.tags?.some((tag) => tag.name.toLowerCase() === name) ?? false;
+}
+
+function statusMatcher(
+  value: string,
+  op: QueryTerm["op"]
+): ParseResult<Matcher> {
+  const lower = value.toLowerCase();
+  if (op === ":" && (lower === "open" || lower === "active")) {
+    return { success: true, data: (task) => (task.status?.value ?? 0) < 100 };
+  }
+  const number = numberValue(value, STATUS_ALIASES);
+  if (number !== undefined) {
+    return {
+      success: true,
+      data: (task) => compare(task.status?.value ?? 0, op, number),
+    };
+  }
+  if (op !== ":") {
+    return {
+      success: false,
+      error: `Status comparisons need a value (0-100), todo or done: "${value}"`,
+    };
+  }
+  return {
+    success: true,
+    data: (task) => task.status?.name.toLowerCase() === lower,
+  };
+}
+
+function priorityMatcher(
+  value: string,
+  op: QueryTerm["op"]
+): ParseResult<Matcher> {
+  const number = numberValue(value, PRIORITIES);
+  if (number === undefined) {
+    return {
+      success: false,
+      error: `Unknown priority "${value}". Use low, medium, high, urgent or -1 to 2`,
+    };
+  }
+  return {
+    success: true,
+    data: (task) => compare(task.priority?.value ?? 0, op, number),
+  };
+}
+
+function dateMatcher(
+  field: keyof typeof DATE_FIELDS,
+  value: string,
+  op: QueryTerm["op"],
+  context: QueryContext
+): ParseResult<Matcher> {
+  const key = DATE_FIELDS[field];
+  if (value.toLowerCase() === NONE) {
+    return { success: true, data: (task) => !task[key] };
+  }
+  const date = parseDateInput(value, context.dateOptions);
+  if (!date.success) {
+    return { success: false, error: `${field}: ${date.error}` };
+  }
+  // Dates compare by day in the configured time zone
+  const { timeZone } = context.dateOptions;
+  const day = toLocalDate(date.value, timeZone) ?? date.value;
+  return {
+    success: true,
+    data: (task) => {
+      const taskDate = task[key];
+      const taskDay =
+        taskDate === undefined ? undefined : toLocalDate(taskDate, timeZone);
+      return taskDay !== undefined && compare(taskDay, op, day);
+    },
+  };
+}
+
+function textMatcher(value: string, includeDescription: boolean): Matcher {
+  const lower = value.toLowerCase();
+  return (task) =>
+    task.name.toLowerCase().includes(lower) ||
+    (includeDescription &&
+      (task.descriptionText ?? task.description ?? "")
+        .toLowerCase()
+        .includes(lower));
+}
+
+/**
+ * Matcher for one value of a term
+ */
+function valueMatcher(
+  term: QueryTerm,
+  value: string,
+  context: QueryContext
+): ParseResult<Matcher> {
+  switch (term.field) {
+    case "assignee":
+      return { success: true, data: assigneeMatcher(value, context) };
+    case "tag":
+      return { success: true, data: tagMatcher(value) };
+    case "status":
+      return statusMatcher(value, term.op);
+    case "priority":
+      return priorityMatcher(value, term.op);
+    case "due":
+    case "start":
+    case "created":
+    case "completed":
+      return dateMatcher(term.field, value, term.op, context);
+    case "name":
+      return { success: true, data: textMatcher(value, false) };
+    default:
+      return { success: true, data: textMatcher(value, true) };
+  }
+}
+
+/**
+ * Build a predicate matching tasks that satisfy every term
+ */
+export function compileTaskQuery(
+  terms: QueryTerm[],
+  context: QueryContext
+): ParseResult<(task: QuireTask) => boolean> {
+  const matchers: Matcher[] = [];
+  for (const term of terms) {
+    const alternatives: Matcher[] = [];
+    for (const value of term.values) {
+      const matcher = valueMatcher(term, value, context);
+      if (!matcher.success) return matcher;
+      alternatives.push(matcher.data);
+    }
+    matchers.push(
+      (task) => alternatives.some((match) => match(task)) !== term.negated
+    );
+  }
+  return {
+    success: true,
+    data: (task) => matchers.every((match) => match(task)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sorting and Grouping
+// ---------------------------------------------------------------------------
+
+export const SORT_KEYS = [
+  "due",
+  "start",
+  "created",
+  "completed",
+  "priority",
+  "status",
+  "name",
+  "id",
+  "project",
+] as const;
+
+type SortKeyName = (typeof SORT_KEYS)[number];
+
+export interface SortKey {
+  key: SortKeyName;
+  descending: boolean;
+}
+
+/**
+ * Parse a sort specification such as "-priority,due"
+ */
+export function parseSort(sort: string): ParseResult<SortKey[]> {
+  const keys: SortKey[] = [];
+  for (const part of sort.split(",")) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const descending = trimmed.startsWith("-");
+    const key = trimmed.replace(/^[-+]/, "").toLowerCase();
+    if (!(SORT_KEYS as readonly string[]).includes(key)) {
+      return {
+        success: false,
+        error: `Unknown sort key "${key}". Keys: ${SORT_KEYS.join(", ")}`,
+      };
+    }
+    keys.push({ key: key as SortKeyName, descending });
+  }
+  return { success: true, data: keys };
+}
+
+function sortValue(
+  item: ProjectTask,
+  key: SortKeyName
+): string | number | undefined {
+  const { task } = item;
+  switch (key) {
+    case "due":
+    case "start":
+    case "created":
+    case "completed":
+      return task[DATE_FIELDS[key]];
+    case "priority":
+      return task.priority?.value ?? 0;
+    case "status":
+      return task.status?.value ?? 0;
+    case "name":
+      return task.name.toLowerCase();
+    case "id":
+      return task.id;
+    case "project":
+      return item.projectId;
+  }
+}
+
+/**
+ * Sort tasks by the given keys. Tasks missing a value sort last in either
+ * direction; ties keep their original order.
+ */
+export function sortTasks(
+  items: ProjectTask[],
+  keys: SortKey[]
+): ProjectTask[] {
+  return [...items].sort((a, b) => {
+    for (const { key, descending } of keys) {
+      const x = sortValue(a, key);
+      const y = sortValue(b, key);
+      if (x === y) continue;
+      if (x === undefined) return 1;
+      if (y === undefined) return -1;
+      const order = x < y ? -1 : 1;
+      return descending ? -order : order;
+    }
+    return 0;
+  });
+}
+
+export const GROUP_KEYS = [
+  "project",
+  "status",
+  "assignee",
+  "tag",
+  "priority",
+] as const;
+
+export type GroupKey = (typeof GROUP_KEYS)[number];
+
+/** Group label for tasks without a value */
+const NO_GROUP = "(none)";
+
+function groupLabels(item: ProjectTask, by: GroupKey): string[] {
+  const { task } = item;
+  let labels: string[];
+  switch (by) {
+    case "project":
+      return [item.projectId];
+    case "status":
+      return [task.status?.name ?? NO_GROUP];
+    case "priority":
+      return [task.priority?.name ?? NO_GROUP];
+    case "assignee":
+      labels = task.assignees?.map((user) => user.name || user.id) ?? [];
+      break;
+    case "tag":
+      labels = task.tags?.map((tag) => tag.name) ?? [];
+      break;
+  }
+  return labels.length > 0 ? labels : [NO_GROUP];
+}
+
+/**
+ * Group tasks, keeping groups in order of first appearance. Tasks with
+ * several assignees or tags appear in each of their groups.
+ */
+export function groupTasks(
+  items: ProjectTask[],
+  by: GroupKey
+): { key: string; tasks: ProjectTask[] }[] {
+  const groups = new Map<string, ProjectTask[]>();
+  for (const item of items) {
+    for (const label of groupLabels(item, by)) {
+      const group = groups.get(label);
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(label, [item]);
+      }
+    }
+  }
+  return [...groups].map(([key, tasks]) => ({ key, tasks }));
+}
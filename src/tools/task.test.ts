@@ -9,6 +9,10 @@ import {
   isErrorResponse,
 } from "./__test-utils__.js";
 import type { QuireClientResult } from "../quire/client-factory.js";
+import { DatabaseSync } from "node:sqlite";
+import { createClientForToken } from "../quire/client.js";
+import { QuireMirror, setSharedMirror } from "../quire/mirror.js";
+import type { QuireProject } from "../quire/types.js";
 
 vi.mock("../quire/client-factory.js", () => ({
   getQuireClient: vi.fn(),
@@ -59,8 +63,9 @@ describe("Task Tools", () => {
   });
 
   it("should register all task tools", () => {
-    expect(server.registerTool).toHaveBeenCalledTimes(10);
+    expect(server.registerTool).toHaveBeenCalledTimes(11);
     expect(registeredTools.has("quire.listTasks")).toBe(true);
+    expect(registeredTools.has("quire.getTaskTree")).toBe(true);
     expect(registeredTools.has("quire.getTask")).toBe(true);
     expect(registeredTools.has("quire.createTask")).toBe(true);
     expect(registeredTools.has("quire.updateTask")).toBe(true);
@@ -121,16 +126,106 @@ describe("Task Tools", () => {
       )) as {
         isError?: boolean;
         content: { type: string; text?: string }[];
+        structuredContent?: unknown;
       };
 
       expect(isErrorResponse(result)).toBe(false);
       expect(extractTextContent(result)).toContain("Task 1");
+      expect(result.structuredContent).toEqual({ tasks: mockTasks, total: 2 });
       expect(mockClient.listTasks).toHaveBeenCalledWith(
         "my-project",
         undefined
       );
     });
 
+    it("should shape the output with format and fields", async () => {
+      const mockTasks = [
+        {
+          oid: "task1",
+          id: 1,
+          name: "Task 1",
+          nameText: "Task 1",
+          followers: [{ id: "alice", name: "Alice" }],
+        },
+      ];
+      const mockClient = createMockClient({
+        listTasks: vi.fn().mockResolvedValue({
+          success: true,
+          data: mockTasks,
+        }),
+      });
+      vi.mocked(getQuireClient).mockResolvedValue({
+        success: true,
+        client: mockClient,
+      });
+
+      const tool = registeredTools.get("quire.listTasks");
+      if (!tool) return;
+      const compact = (await tool.handler(
+        { projectId: "my-project", format: "compact" },
+        createMockExtra({ quireToken: "token" })
+      )) as { content: { type: string; text?: string }[] };
+      expect(extractTextContent(compact)).toBe(
+        '[{"oid":"task1","id":1,"name":"Task 1"}]'
+      );
+
+      const table = (await tool.handler(
+        { projectId: "my-project", format: "markdown-table", fields: ["name"] },
+        createMockExtra({ quireToken: "token" })
+      )) as { content: { type: string; text?: string }[] };
+      expect(extractTextContent(table)).toBe("| name |\n| --- |\n| Task 1 |");
+    });
+
+    it("should page through tasks with limit and cursor", async () => {
+      const mockTasks = [1, 2, 3].map((id) => ({
+        oid: `task${String(id)}`,
+        id,
+        name: `Task ${String(id)}`,
+      }));
+      const mockClient = createMockClient({
+        listTasks: vi.fn().mockResolvedValue({
+          success: true,
+          data: mockTasks,
+        }),
+      });
+      vi.mocked(getQuireClient).mockResolvedValue({
+        success: true,
+        client: mockClient,
+      });
+
+      const tool = registeredTools.get("quire.listTasks");
+      if (!tool) return;
+      const first = (await tool.handler(
+        { projectId: "my-project", limit: 2 },
+        createMockExtra({ quireToken: "token" })
+      )) as {
+        content: { type: string; text?: string }[];
+        structuredContent: {
+          tasks: unknown[];
+          total: number;
+          nextCursor: string;
+        };
+      };
+      expect(first.structuredContent.tasks).toEqual(mockTasks.slice(0, 2));
+      expect(first.structuredContent.total).toBe(3);
+      expect(first.content[1]?.text).toContain("Showing tasks 1-2 of 3.");
+
+      const second = (await tool.handler(
+        { projectId: "my-project", cursor: first.structuredContent.nextCursor },
+        createMockExtra({ quireToken: "token" })
+      )) as {
+        structuredContent: { tasks: unknown[]; nextCursor?: string };
+      };
+      expect(second.structuredContent.tasks).toEqual(mockTasks.slice(2));
+      expect(second.structuredContent.nextCursor).toBeUndefined();
+
+      const otherProject = (await tool.handler(
+        { projectId: "other", cursor: first.structuredContent.nextCursor },
+        createMockExtra({ quireToken: "token" })
+      )) as { isError?: boolean };
+      expect(isErrorResponse(otherProject)).toBe(true);
+    });
+
     it("should list subtasks when parentTaskOid provided", async () => {
       const mockClient = createMockClient({
         listTasks: vi.fn().mockResolvedValueOnce({
@@ -184,6 +279,250 @@ describe("Task Tools", () => {
     });
   });
 
+  describe("source: mirror", () => {
+    let mirror: QuireMirror;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+      mirror = new QuireMirror(new DatabaseSync(":memory:"));
+      mirror.saveProjects([
+        { oid: "P1", id: "my-project", name: "My Project" } as QuireProject,
+      ]);
+      mirror.saveProjectData(
+        "P1",
+        {
+          roots: [
+            {
+              oid: "T1",
+              id: 1,
+              name: "Design",
+              children: [
+                { oid: "T2", id: 2, name: "Wireframes", children: [] },
+              ],
+            },
+          ],
+          truncated: false,
+          tags: [],
+          statuses: [],
+          documents: [],
+        },
+        new Date("2026-10-19T09:15:00Z")
+      );
+      mirror.setSyncedAt(new Date("2026-10-19T09:30:00Z"));
+      setSharedMirror(mirror);
+    });
+
+    afterEach(() => {
+      setSharedMirror(undefined);
+      mirror.close();
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    async function callTool(
+      name: string,
+      params: Record<string, unknown>
+    ): Promise<{
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+      structuredContent?: unknown;
+    }> {
+      const fetch = vi.spyOn(globalThis, "fetch");
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: true,
+        client: createClientForToken("token"),
+      });
+      const tool = registeredTools.get(name);
+      if (!tool) throw new Error(`${name} not registered`);
+      const result = await tool.handler(
+        { projectId: "my-project", source: "mirror", ...params },
+        createMockExtra({ quireToken: "token" })
+      );
+      expect(fetch).not.toHaveBeenCalled();
+      return result as Awaited<ReturnType<typeof callTool>>;
+    }
+
+    it("should list tasks from the local mirror", async () => {
+      const result = await callTool("quire.listTasks", {});
+
+      expect(extractTextContent(result)).toContain("Design");
+      expect(result.content.at(-1)?.text).toBe(
+        "_From the local mirror, synced 2026-10-19T09:15:00.000Z (45 minutes ago)._"
+      );
+      expect(result.structuredContent).toMatchObject({
+        tasks: [{ oid: "T1" }],
+        total: 1,
+        mirror: { syncedAt: "2026-10-19T09:15:00.000Z", ageMinutes: 45 },
+      });
+    });
+
+    it("should build task trees from the local mirror", async () => {
+      const result = await callTool("quire.getTaskTree", {});
+
+      expect(result.structuredContent).toMatchObject({
+        roots: [{ oid: "T1", children: [{ oid: "T2" }] }],
+        nodeCount: 2,
+        mirror: { ageMinutes: 45 },
+      });
+    });
+
+    it("should fail for projects that are not mirrored", async () => {
+      const result = await callTool("quire.listTasks", { projectId: "other" });
+
+      expect(isErrorResponse(result)).toBe(true);
+    });
+
+    it("should fail when the mirror is not enabled", async () => {
+      setSharedMirror(undefined);
+
+      const result = await callTool("quire.getTaskTree", {});
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(
+        "The local mirror is not enabled"
+      );
+    });
+  });
+
+  describe("quire.getTaskTree", () => {
+    interface ToolResult {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+      structuredContent?: unknown;
+    }
+
+    const tree = {
+      roots: [
+        {
+          oid: "a.1",
+          id: 1,
+          name: "Design",
+          status: { value: 0, name: "To-Do" },
+          due: "2025-03-01",
+          children: [{ oid: "a.2", id: 2, name: "Wireframes", children: [] }],
+        },
+      ],
+      nodeCount: 2,
+      truncated: false,
+    };
+
+    async function callTool(
+      params: Record<string, unknown>,
+      data: unknown = tree
+    ): Promise<{ result: ToolResult; getTaskTree: ReturnType<typeof vi.fn> }> {
+      const getTaskTree = vi.fn().mockResolvedValueOnce({
+        success: true,
+        data,
+      });
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: true,
+        client: createMockClient({ getTaskTree }),
+      });
+      const tool = registeredTools.get("quire.getTaskTree");
+      if (!tool) throw new Error("quire.getTaskTree not registered");
+      const result = (await tool.handler(
+        params,
+        createMockExtra({ quireToken: "token" })
+      )) as ToolResult;
+      return { result, getTaskTree };
+    }
+
+    it("should return error on authentication failure", async () => {
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: false,
+        error: "No token",
+      });
+
+      const tool = registeredTools.get("quire.getTaskTree");
+      if (!tool) return;
+      const result = (await tool.handler(
+        { projectId: "my-project" },
+        createMockExtra()
+      )) as ToolResult;
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain("Authentication Error");
+    });
+
+    it("should return the nested tree as JSON by default", async () => {
+      const { result, getTaskTree } = await callTool({
+        projectId: "my-project",
+        maxDepth: 3,
+      });
+
+      expect(getTaskTree).toHaveBeenCalledWith("my-project", { maxDepth: 3 });
+      expect(JSON.parse(extractTextContent(result))).toEqual(tree);
+    });
+
+    it("should pass the root task and node limit", async () => {
+      const { getTaskTree } = await callTool({
+        projectId: "my-project",
+        rootTaskOid: "a.1",
+        maxNodes: 10,
+      });
+
+      expect(getTaskTree).toHaveBeenCalledWith("my-project", {
+        rootTaskOid: "a.1",
+        maxNodes: 10,
+      });
+    });
+
+    it("should render an indented outline", async () => {
+      const { result } = await callTool({
+        projectId: "my-project",
+        format: "outline",
+      });
+
+      expect(extractTextContent(result)).toBe(
+        "- #1 Design (To-Do, due 2025-03-01)\n  - #2 Wireframes"
+      );
+      // The tree itself is still returned as structured content
+      expect(result.structuredContent).toEqual(tree);
+    });
+
+    it("should note truncation in the outline", async () => {
+      const depth = await callTool(
+        { projectId: "my-project", format: "outline" },
+        { ...tree, truncated: true, limitReached: "maxDepth" }
+      );
+      expect(extractTextContent(depth.result)).toContain("depth limit");
+
+      const nodes = await callTool(
+        { projectId: "my-project", format: "outline" },
+        { ...tree, truncated: true, limitReached: "maxNodes" }
+      );
+      expect(extractTextContent(nodes.result)).toContain("node limit");
+    });
+
+    it("should render an empty outline", async () => {
+      const { result } = await callTool(
+        { projectId: "my-project", format: "outline" },
+        { roots: [], nodeCount: 0, truncated: false }
+      );
+
+      expect(extractTextContent(result)).toBe("(no tasks)");
+    });
+
+    it("should handle API errors", async () => {
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: true,
+        client: createMockClient({
+          getTaskTree: vi.fn().mockResolvedValueOnce(mockErrors.notFound()),
+        }),
+      });
+
+      const tool = registeredTools.get("quire.getTaskTree");
+      if (!tool) return;
+      const result = (await tool.handler(
+        { projectId: "missing" },
+        createMockExtra({ quireToken: "token" })
+      )) as ToolResult;
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain("not found");
+    });
+  });
+
   describe("quire.getTask", () => {
     it("should return error on authentication failure", async () => {
       vi.mocked(getQuireClient).mockResolvedValueOnce({
@@ -659,10 +998,12 @@ describe("Task Tools", () => {
       )) as {
         isError?: boolean;
         content: { type: string; text?: string }[];
+        structuredContent?: unknown;
       };
 
       expect(isErrorResponse(result)).toBe(false);
       expect(extractTextContent(result)).toContain("deleted successfully");
+      expect(result.structuredContent).toEqual({ oid: "TaskOid" });
       expect(mockClient.deleteTask).toHaveBeenCalledWith("TaskOid");
     });
 
@@ -1246,4 +1587,173 @@ describe("Task Tools", () => {
       expect(extractTextContent(result)).toContain("SERVER_ERROR");
     });
   });
+
+  describe("name resolution", () => {
+    const project = { oid: "ProjOid.1", id: "web", name: "Website" };
+
+    function createNamedClient(
+      overrides: Parameters<typeof createMockClient>[0] = {}
+    ): ReturnType<typeof createMockClient> {
+      return createMockClient({
+        getProject: vi.fn((ref: string) =>
+          Promise.resolve(
+            ref === project.id || ref === project.oid
+              ? { success: true as const, data: project as QuireProject }
+              : mockErrors.notFound()
+          )
+        ),
+        listProjects: vi
+          .fn()
+          .mockResolvedValue({ success: true, data: [project] }),
+        listTags: vi.fn().mockResolvedValue({
+          success: true,
+          data: [{ oid: "TagBug", id: 7, name: "Bug" }],
+        }),
+        listStatuses: vi.fn().mockResolvedValue({
+          success: true,
+          data: [{ value: 40, name: "In Review" }],
+        }),
+        listProjectMembers: vi.fn().mockResolvedValue({
+          success: true,
+          data: [
+            {
+              id: "alice",
+              oid: "UserAlice",
+              name: "Alice Smith",
+              email: "alice@example.com",
+            },
+          ],
+        }),
+        ...overrides,
+      });
+    }
+
+    async function callTool(
+      name: string,
+      params: Record<string, unknown>,
+      client: ReturnType<typeof createMockClient>
+    ): Promise<{
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    }> {
+      vi.mocked(getQuireClient).mockResolvedValueOnce({
+        success: true,
+        client,
+      });
+      const tool = registeredTools.get(name);
+      if (!tool) throw new Error(`${name} not registered`);
+      return (await tool.handler(
+        params,
+        createMockExtra({ quireToken: "token" })
+      )) as { isError?: boolean; content: { type: string; text?: string }[] };
+    }
+
+    it("should create tasks with project, status, assignee and tag names", async () => {
+      const client = createNamedClient({
+        createTask: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: { oid: "NewTask", id: 1, name: "Task" },
+        }),
+      });
+
+      const result = await callTool(
+        "quire.createTask",
+        {
+          projectId: "Website",
+          name: "Task",
+          status: "In Review",
+          assignees: ["@alice", "alice@example.com"],
+          tags: ["Bug"],
+        },
+        client
+      );
+
+      expect(isErrorResponse(result)).toBe(false);
+      expect(client.createTask).toHaveBeenCalledWith("web", {
+        name: "Task",
+        status: 40,
+        assignees: ["alice", "alice"],
+        tags: [7],
+      });
+    });
+
+    it("should resolve search filters by name", async () => {
+      const client = createNamedClient({
+        searchTasks: vi.fn().mockResolvedValueOnce({ success: true, data: [] }),
+      });
+
+      await callTool(
+        "quire.searchTasks",
+        {
+          projectId: "website",
+          keyword: "login",
+          status: "in review",
+          assigneeId: "Alice Smith",
+          tagId: "bug",
+        },
+        client
+      );
+
+      expect(client.searchTasks).toHaveBeenCalledWith("web", "login", {
+        status: 40,
+        assigneeId: "alice",
+        tagId: 7,
+      });
+    });
+
+    it("should update tasks by OID with names from the task's project", async () => {
+      const client = createNamedClient({
+        getTask: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: { oid: "TaskOid.1", id: 3, name: "Task", project },
+        }),
+        updateTask: vi.fn().mockResolvedValueOnce({
+          success: true,
+          data: { oid: "TaskOid.1", id: 3, name: "Task" },
+        }),
+      });
+
+      await callTool(
+        "quire.updateTask",
+        { oid: "TaskOid.1", addTags: ["Bug"], removeAssignees: ["alice"] },
+        client
+      );
+
+      expect(client.updateTask).toHaveBeenCalledWith("TaskOid.1", {
+        removeAssignees: ["alice"],
+        addTags: [7],
+      });
+    });
+
+    it.each([
+      ["quire.listTasks", { projectId: "Sales Pipeline" }],
+      ["quire.getTaskTree", { projectId: "Sales Pipeline" }],
+      ["quire.getTask", { projectId: "Sales Pipeline", taskId: 1 }],
+      ["quire.createTask", { projectId: "Sales Pipeline", name: "Task" }],
+      ["quire.updateTask", { projectId: "Sales Pipeline", taskId: 1 }],
+      ["quire.searchTasks", { projectId: "Sales Pipeline", keyword: "x" }],
+    ])("%s should report unknown project names", async (name, params) => {
+      const result = await callTool(name, params, createNamedClient());
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(
+        'Project "Sales Pipeline" not found. Available: "Website" (web)'
+      );
+    });
+
+    it.each([
+      ["quire.createTask", { projectId: "web", name: "Task", tags: ["Nope"] }],
+      ["quire.createTaskAfter", { taskOid: "web", name: "T", tags: ["Nope"] }],
+      ["quire.createTaskBefore", { taskOid: "web", name: "T", tags: ["Nope"] }],
+      ["quire.updateTask", { projectId: "web", taskId: 1, tags: ["Nope"] }],
+      ["quire.searchTasks", { projectId: "web", keyword: "x", tagId: "Nope" }],
+    ])("%s should report unknown tag names", async (name, params) => {
+      const result = await callTool(name, params, createNamedClient());
+
+      expect(isErrorResponse(result)).toBe(true);
+      expect(extractTextContent(result)).toContain(
+        'Tag "Nope" not found in project "Website"'
+      );
+    });
+  });
 });
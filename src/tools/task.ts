@@ -7,14 +7,65 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
+import { DeleteOidResponseSchema, QuireTaskSchema } from "../quire/schemas.js";
+import {
+  mirrorOutputFields,
+  TaskListOutputSchema,
+  TaskTreeOutputSchema,
+  TaskOutputSchema,
+} from "./output-schemas.js";
+import type { QuireTaskTree, QuireTaskTreeNode } from "../quire/types.js";
 import {
   formatError,
   formatAuthError,
   formatSuccess,
+  formatProjected,
+  responseShapeSchema,
+  paginationSchema,
+  paginate,
+  formatPage,
   formatMessage,
   formatValidationError,
   buildParams,
+  freshReadSchema,
+  readClient,
+  sourceReadSchema,
+  sourceReadClient,
+  withMirrorFreshness,
 } from "./utils.js";
+import { DATE_INPUT_HINT } from "./date-input.js";
+import { NameResolver, statusRefSchema, tagRefSchema } from "./resolver.js";
+
+/**
+ * Render a task tree as an indented Markdown outline, one task per line
+ */
+function formatTaskOutline(tree: QuireTaskTree): string {
+  const lines: string[] = [];
+  const walk = (nodes: QuireTaskTreeNode[], indent: string): void => {
+    for (const node of nodes) {
+      const details = [node.status?.name, node.due && `due ${node.due}`]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(
+        `${indent}- #${node.id} ${node.name}${details ? ` (${details})` : ""}`
+      );
+      walk(node.children, `${indent}  `);
+    }
+  };
+  walk(tree.roots, "");
+
+  if (lines.length === 0) {
+    lines.push("(no tasks)");
+  }
+  if (tree.truncated) {
+    const reason =
+      tree.limitReached === "maxDepth"
+        ? "the depth limit was reached; deeper subtasks are not shown"
+        : "the node limit was reached; remaining tasks are not shown";
+    lines.push("", `_Truncated: ${reason}._`);
+  }
+  return lines.join("\n");
+}
 
 /**
  * Register all task tools with the MCP server
@@ -30,7 +81,7 @@ export function registerTaskTools(server: McpServer): void {
       inputSchema: z.object({
         projectId: z
           .string()
-          .describe("The project ID (e.g., 'my-project') or OID"),
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
         parentTaskOid: z
           .string()
           .optional()
@@ -38,26 +89,145 @@ export function registerTaskTools(server: McpServer): void {
             "Parent task OID to list subtasks of (optional). " +
               "If not provided, returns root-level tasks."
           ),
+        ...responseShapeSchema,
+        ...paginationSchema,
+        ...sourceReadSchema,
       }),
+      outputSchema: TaskListOutputSchema.extend(mirrorOutputFields),
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ projectId, parentTaskOid }, extra) => {
+    async (
+      {
+        projectId,
+        parentTaskOid,
+        format,
+        fields,
+        limit,
+        cursor,
+        fresh,
+        source,
+      },
+      extra
+    ) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const reader = sourceReadClient(clientResult.client, { fresh, source });
+      if (!reader.success) {
+        return reader.response;
+      }
+      const client = reader.client;
 
-      const result = await clientResult.client.listTasks(
-        projectId,
-        parentTaskOid
+      const project = await new NameResolver(client).project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+
+      const result = await client.listTasks(project.data, parentTaskOid);
+      if (!result.success) {
+        return formatError(result.error, "task");
+      }
+
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        { tool: "listTasks", projectId, parentTaskOid }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return withMirrorFreshness(
+        formatPage(paged.page, "tasks", "task", { format, fields }),
+        client
+      );
+    }
+  );
+
+  // Get Task Tree
+  server.registerTool(
+    "quire.getTaskTree",
+    {
+      description:
+        "Get the full task hierarchy of a project (or of one task) in a " +
+        "single call. Subtasks are fetched breadth-first, skipping tasks " +
+        "without children. Use maxDepth and maxNodes to bound large projects.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
+        rootTaskOid: z
+          .string()
+          .optional()
+          .describe(
+            "Task OID to start from (optional). " +
+              "If not provided, starts from the project's root tasks."
+          ),
+        maxDepth: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .describe("Number of levels to fetch (default: 5)"),
+        maxNodes: z
+          .number()
+          .int()
+          .min(1)
+          .max(5000)
+          .optional()
+          .describe("Maximum number of tasks to return (default: 500)"),
+        format: z
+          .enum(["tree", "outline"])
+          .optional()
+          .describe(
+            "'tree' returns nested JSON (default); " +
+              "'outline' returns an indented Markdown list"
+          ),
+        ...sourceReadSchema,
+      }),
+      outputSchema: TaskTreeOutputSchema.extend(mirrorOutputFields),
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async (
+      { projectId, rootTaskOid, maxDepth, maxNodes, format, fresh, source },
+      extra
+    ) => {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const reader = sourceReadClient(clientResult.client, { fresh, source });
+      if (!reader.success) {
+        return reader.response;
+      }
+      const client = reader.client;
+
+      const project = await new NameResolver(client).project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+
+      const result = await client.getTaskTree(
+        project.data,
+        buildParams({ rootTaskOid, maxDepth, maxNodes })
       );
       if (!result.success) {
         return formatError(result.error, "task");
       }
 
-      return formatSuccess(result.data);
+      if (format === "outline") {
+        return withMirrorFreshness(
+          formatMessage(formatTaskOutline(result.data), result.data),
+          client
+        );
+      }
+      return withMirrorFreshness(formatSuccess(result.data), client);
     }
   );
 
@@ -73,7 +243,7 @@ export function registerTaskTools(server: McpServer): void {
           .string()
           .optional()
           .describe(
-            "The project ID (required when using taskId, not needed when using oid)"
+            "The project ID, OID or name (required when using taskId, not needed when using oid)"
           ),
         taskId: z
           .number()
@@ -85,23 +255,31 @@ export function registerTaskTools(server: McpServer): void {
           .describe(
             "The task OID (unique identifier). Use this OR projectId+taskId"
           ),
+        ...responseShapeSchema,
+        ...freshReadSchema,
       }),
+      outputSchema: TaskOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ projectId, taskId, oid }, extra) => {
+    async ({ projectId, taskId, oid, format, fields, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
       // Get task by OID or by projectId + taskId
       let result;
       if (oid) {
-        result = await clientResult.client.getTask(oid);
+        result = await client.getTask(oid);
       } else if (projectId && taskId !== undefined) {
-        result = await clientResult.client.getTask(projectId, taskId);
+        const project = await new NameResolver(client).project(projectId);
+        if (!project.success) {
+          return project.response;
+        }
+        result = await client.getTask(project.data, taskId);
       } else {
         return formatValidationError(
           "Must provide either 'oid' or both 'projectId' and 'taskId'"
@@ -112,7 +290,7 @@ export function registerTaskTools(server: McpServer): void {
         return formatError(result.error, "task");
       }
 
-      return formatSuccess(result.data);
+      return formatProjected(result.data, "task", { format, fields });
     }
   );
 
@@ -129,7 +307,7 @@ export function registerTaskTools(server: McpServer): void {
         projectId: z
           .string()
           .describe(
-            "The project ID/OID to create a root task, OR a parent task OID to create a subtask"
+            "The project ID, OID or name to create a root task, OR a parent task OID to create a subtask"
           ),
         name: z.string().describe("The task name/title (required)"),
         description: z
@@ -142,23 +320,24 @@ export function registerTaskTools(server: McpServer): void {
           .max(2)
           .optional()
           .describe("Priority: -1 (low), 0 (medium), 1 (high), 2 (urgent)"),
-        status: z
-          .number()
-          .min(0)
-          .max(100)
-          .optional()
-          .describe("Status: 0 (to-do) to 100 (complete)"),
-        due: z
-          .string()
+        status: statusRefSchema
           .optional()
-          .describe("Due date in ISO 8601 format (e.g., '2024-12-31')"),
-        start: z.string().optional().describe("Start date in ISO 8601 format"),
+          .describe(
+            "Status value from 0 (to-do) to 100 (complete), or status name " +
+              "(e.g., 'In Review')"
+          ),
+        due: z.string().optional().describe(`Due date: ${DATE_INPUT_HINT}`),
+        start: z.string().optional().describe(`Start date: ${DATE_INPUT_HINT}`),
         assignees: z
           .array(z.string())
           .optional()
-          .describe("Array of user IDs to assign to this task"),
-        tags: z.array(z.number()).optional().describe("Array of tag IDs"),
+          .describe("Users to assign: user IDs, '@id', emails, names, or 'me'"),
+        tags: z
+          .array(tagRefSchema)
+          .optional()
+          .describe("Tags to set: tag IDs or names (e.g., 'Bug')"),
       }),
+      outputSchema: QuireTaskSchema,
     },
     async (
       {
@@ -179,19 +358,31 @@ export function registerTaskTools(server: McpServer): void {
         return formatAuthError(clientResult.error);
       }
 
+      const resolver = new NameResolver(clientResult.client);
+      const project = await resolver.project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+      const refs = await resolver.taskFields(project.data, {
+        status,
+        assignees,
+        tags,
+      });
+      if (!refs.success) {
+        return refs.response;
+      }
+
       const params = buildParams({
         name,
         description,
         priority,
-        status,
         due,
         start,
-        assignees,
-        tags,
+        ...refs.data,
       });
 
       const result = await clientResult.client.createTask(
-        projectId,
+        project.data,
         params as { name: string }
       );
       if (!result.success) {
@@ -214,7 +405,7 @@ export function registerTaskTools(server: McpServer): void {
           .string()
           .optional()
           .describe(
-            "The project ID (required when using taskId, not needed when using oid)"
+            "The project ID, OID or name (required when using taskId, not needed when using oid)"
           ),
         taskId: z
           .number()
@@ -237,39 +428,43 @@ export function registerTaskTools(server: McpServer): void {
           .max(2)
           .optional()
           .describe("Priority: -1 (low), 0 (medium), 1 (high), 2 (urgent)"),
-        status: z
-          .number()
-          .min(0)
-          .max(100)
+        status: statusRefSchema
           .optional()
-          .describe("Status: 0 (to-do) to 100 (complete)"),
-        due: z
-          .string()
-          .optional()
-          .describe("Due date in ISO 8601 format (e.g., '2024-12-31')"),
-        start: z.string().optional().describe("Start date in ISO 8601 format"),
+          .describe(
+            "Status value from 0 (to-do) to 100 (complete), or status name " +
+              "(e.g., 'In Review')"
+          ),
+        due: z.string().optional().describe(`Due date: ${DATE_INPUT_HINT}`),
+        start: z.string().optional().describe(`Start date: ${DATE_INPUT_HINT}`),
         assignees: z
           .array(z.string())
           .optional()
-          .describe("Replace all assignees with this list of user IDs"),
+          .describe(
+            "Replace all assignees with these users: user IDs, '@id', " +
+              "emails, names, or 'me'"
+          ),
         addAssignees: z
           .array(z.string())
           .optional()
-          .describe("User IDs to add as assignees"),
+          .describe("Users to add as assignees (IDs, emails or names)"),
         removeAssignees: z
           .array(z.string())
           .optional()
-          .describe("User IDs to remove from assignees"),
+          .describe("Users to remove from assignees (IDs, emails or names)"),
         tags: z
-          .array(z.number())
+          .array(tagRefSchema)
           .optional()
-          .describe("Replace all tags with this list of tag IDs"),
-        addTags: z.array(z.number()).optional().describe("Tag IDs to add"),
+          .describe("Replace all tags with these tag IDs or names"),
+        addTags: z
+          .array(tagRefSchema)
+          .optional()
+          .describe("Tag IDs or names to add"),
         removeTags: z
-          .array(z.number())
+          .array(tagRefSchema)
           .optional()
-          .describe("Tag IDs to remove"),
+          .describe("Tag IDs or names to remove"),
       }),
+      outputSchema: QuireTaskSchema,
       annotations: {
         idempotentHint: true,
       },
@@ -299,13 +494,25 @@ export function registerTaskTools(server: McpServer): void {
         return formatAuthError(clientResult.error);
       }
 
-      const updateParams = buildParams({
-        name,
-        description,
-        priority,
+      // Identify the task by OID or by projectId + taskId
+      const resolver = new NameResolver(clientResult.client);
+      let target: { scope: string; taskId?: number };
+      if (oid) {
+        target = { scope: oid };
+      } else if (projectId && taskId !== undefined) {
+        const project = await resolver.project(projectId);
+        if (!project.success) {
+          return project.response;
+        }
+        target = { scope: project.data, taskId };
+      } else {
+        return formatValidationError(
+          "Must provide either 'oid' or both 'projectId' and 'taskId'"
+        );
+      }
+
+      const refs = await resolver.taskFields(target.scope, {
         status,
-        due,
-        start,
         assignees,
         addAssignees,
         removeAssignees,
@@ -313,23 +520,28 @@ export function registerTaskTools(server: McpServer): void {
         addTags,
         removeTags,
       });
-
-      // Update task by OID or by projectId + taskId
-      let result;
-      if (oid) {
-        result = await clientResult.client.updateTask(oid, updateParams);
-      } else if (projectId && taskId !== undefined) {
-        result = await clientResult.client.updateTask(
-          projectId,
-          taskId,
-          updateParams
-        );
-      } else {
-        return formatValidationError(
-          "Must provide either 'oid' or both 'projectId' and 'taskId'"
-        );
+      if (!refs.success) {
+        return refs.response;
       }
 
+      const updateParams = buildParams({
+        name,
+        description,
+        priority,
+        due,
+        start,
+        ...refs.data,
+      });
+
+      const result =
+        target.taskId === undefined
+          ? await clientResult.client.updateTask(target.scope, updateParams)
+          : await clientResult.client.updateTask(
+              target.scope,
+              target.taskId,
+              updateParams
+            );
+
       if (!result.success) {
         return formatError(result.error, "task");
       }
@@ -347,6 +559,7 @@ export function registerTaskTools(server: McpServer): void {
       inputSchema: z.object({
         oid: z.string().describe("The task OID (unique identifier) to delete"),
       }),
+      outputSchema: DeleteOidResponseSchema,
       annotations: {
         destructiveHint: true,
       },
@@ -362,7 +575,7 @@ export function registerTaskTools(server: McpServer): void {
         return formatError(result.error, "task");
       }
 
-      return formatMessage(`Task ${oid} deleted successfully.`);
+      return formatMessage(`Task ${oid} deleted successfully.`, result.data);
     }
   );
 
@@ -376,18 +589,20 @@ export function registerTaskTools(server: McpServer): void {
       inputSchema: z.object({
         projectId: z
           .string()
-          .describe("The project ID (e.g., 'my-project') or OID to search in"),
+          .describe(
+            "The project ID (e.g., 'my-project'), OID or name to search in"
+          ),
         keyword: z
           .string()
           .describe(
             "Search keyword to match against task names and descriptions"
           ),
-        status: z
-          .number()
-          .min(0)
-          .max(100)
+        status: statusRefSchema
           .optional()
-          .describe("Filter by status: 0 (to-do) to 100 (complete)"),
+          .describe(
+            "Filter by status: value from 0 (to-do) to 100 (complete), " +
+              "or status name"
+          ),
         priority: z
           .number()
           .min(-1)
@@ -399,16 +614,30 @@ export function registerTaskTools(server: McpServer): void {
         assigneeId: z
           .string()
           .optional()
-          .describe("Filter by assignee user ID"),
-        tagId: z.number().optional().describe("Filter by tag ID"),
+          .describe("Filter by assignee: user ID, email, name, or 'me'"),
+        tagId: tagRefSchema.optional().describe("Filter by tag ID or name"),
+        ...responseShapeSchema,
+        ...paginationSchema,
       }),
+      outputSchema: TaskListOutputSchema,
       annotations: {
         readOnlyHint: true,
         openWorldHint: true,
       },
     },
     async (
-      { projectId, keyword, status, priority, assigneeId, tagId },
+      {
+        projectId,
+        keyword,
+        status,
+        priority,
+        assigneeId,
+        tagId,
+        format,
+        fields,
+        limit,
+        cursor,
+      },
       extra
     ) => {
       const clientResult = await getQuireClient(extra);
@@ -416,10 +645,29 @@ export function registerTaskTools(server: McpServer): void {
         return formatAuthError(clientResult.error);
       }
 
-      const options = buildParams({ status, priority, assigneeId, tagId });
+      const resolver = new NameResolver(clientResult.client);
+      const project = await resolver.project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+      const refs = await resolver.taskFields(project.data, {
+        status,
+        assignees: assigneeId === undefined ? undefined : [assigneeId],
+        tags: tagId === undefined ? undefined : [tagId],
+      });
+      if (!refs.success) {
+        return refs.response;
+      }
+
+      const options = buildParams({
+        status: refs.data.status,
+        priority,
+        assigneeId: refs.data.assignees?.[0],
+        tagId: refs.data.tags?.[0],
+      });
 
       const result = await clientResult.client.searchTasks(
-        projectId,
+        project.data,
         keyword,
         options
       );
@@ -427,7 +675,24 @@ export function registerTaskTools(server: McpServer): void {
         return formatError(result.error, "task");
       }
 
-      return formatSuccess(result.data);
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        {
+          tool: "searchTasks",
+          projectId,
+          keyword,
+          status,
+          priority,
+          assigneeId,
+          tagId,
+        }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return formatPage(paged.page, "tasks", "task", { format, fields });
     }
   );
 
@@ -451,23 +716,24 @@ export function registerTaskTools(server: McpServer): void {
           .max(2)
           .optional()
           .describe("Priority: -1 (low), 0 (medium), 1 (high), 2 (urgent)"),
-        status: z
-          .number()
-          .min(0)
-          .max(100)
+        status: statusRefSchema
           .optional()
-          .describe("Status: 0 (to-do) to 100 (complete)"),
-        due: z
-          .string()
-          .optional()
-          .describe("Due date in ISO 8601 format (e.g., '2024-12-31')"),
-        start: z.string().optional().describe("Start date in ISO 8601 format"),
+          .describe(
+            "Status value from 0 (to-do) to 100 (complete), or status name " +
+              "(e.g., 'In Review')"
+          ),
+        due: z.string().optional().describe(`Due date: ${DATE_INPUT_HINT}`),
+        start: z.string().optional().describe(`Start date: ${DATE_INPUT_HINT}`),
         assignees: z
           .array(z.string())
           .optional()
-          .describe("Array of user IDs to assign to this task"),
-        tags: z.array(z.number()).optional().describe("Array of tag IDs"),
+          .describe("Users to assign: user IDs, '@id', emails, names, or 'me'"),
+        tags: z
+          .array(tagRefSchema)
+          .optional()
+          .describe("Tags to set: tag IDs or names (e.g., 'Bug')"),
       }),
+      outputSchema: QuireTaskSchema,
     },
     async (
       {
@@ -488,15 +754,21 @@ export function registerTaskTools(server: McpServer): void {
         return formatAuthError(clientResult.error);
       }
 
+      const refs = await new NameResolver(clientResult.client).taskFields(
+        taskOid,
+        { status, assignees, tags }
+      );
+      if (!refs.success) {
+        return refs.response;
+      }
+
       const params = buildParams({
         name,
         description,
         priority,
-        status,
         due,
         start,
-        assignees,
-        tags,
+        ...refs.data,
       });
 
       const result = await clientResult.client.createTaskAfter(
@@ -531,23 +803,24 @@ export function registerTaskTools(server: McpServer): void {
           .max(2)
           .optional()
           .describe("Priority: -1 (low), 0 (medium), 1 (high), 2 (urgent)"),
-        status: z
-          .number()
-          .min(0)
-          .max(100)
+        status: statusRefSchema
           .optional()
-          .describe("Status: 0 (to-do) to 100 (complete)"),
-        due: z
-          .string()
-          .optional()
-          .describe("Due date in ISO 8601 format (e.g., '2024-12-31')"),
-        start: z.string().optional().describe("Start date in ISO 8601 format"),
+          .describe(
+            "Status value from 0 (to-do) to 100 (complete), or status name " +
+              "(e.g., 'In Review')"
+          ),
+        due: z.string().optional().describe(`Due date: ${DATE_INPUT_HINT}`),
+        start: z.string().optional().describe(`Start date: ${DATE_INPUT_HINT}`),
         assignees: z
           .array(z.string())
           .optional()
-          .describe("Array of user IDs to assign to this task"),
-        tags: z.array(z.number()).optional().describe("Array of tag IDs"),
+          .describe("Users to assign: user IDs, '@id', emails, names, or 'me'"),
+        tags: z
+          .array(tagRefSchema)
+          .optional()
+          .describe("Tags to set: tag IDs or names (e.g., 'Bug')"),
       }),
+      outputSchema: QuireTaskSchema,
     },
     async (
       {
@@ -568,15 +841,21 @@ export function registerTaskTools(server: McpServer): void {
         return formatAuthError(clientResult.error);
       }
 
+      const refs = await new NameResolver(clientResult.client).taskFields(
+        taskOid,
+        { status, assignees, tags }
+      );
+      if (!refs.success) {
+        return refs.response;
+      }
+
       const params = buildParams({
         name,
         description,
         priority,
-        status,
         due,
         start,
-        assignees,
-        tags,
+        ...refs.data,
       });
 
       const result = await clientResult.client.createTaskBefore(
@@ -625,14 +904,28 @@ export function registerTaskTools(server: McpServer): void {
           .optional()
           .describe("Filter by assignee user ID"),
         tagId: z.number().optional().describe("Filter by tag ID"),
+        ...responseShapeSchema,
+        ...paginationSchema,
       }),
+      outputSchema: TaskListOutputSchema,
       annotations: {
         readOnlyHint: true,
         openWorldHint: true,
       },
     },
     async (
-      { folderId, keyword, status, priority, assigneeId, tagId },
+      {
+        folderId,
+        keyword,
+        status,
+        priority,
+        assigneeId,
+        tagId,
+        format,
+        fields,
+        limit,
+        cursor,
+      },
       extra
     ) => {
       const clientResult = await getQuireClient(extra);
@@ -651,7 +944,24 @@ export function registerTaskTools(server: McpServer): void {
         return formatError(result.error, "task");
       }
 
-      return formatSuccess(result.data);
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        {
+          tool: "searchFolderTasks",
+          folderId,
+          keyword,
+          status,
+          priority,
+          assigneeId,
+          tagId,
+        }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return formatPage(paged.page, "tasks", "task", { format, fields });
     }
   );
 
@@ -690,14 +1000,28 @@ export function registerTaskTools(server: McpServer): void {
           .optional()
           .describe("Filter by assignee user ID"),
         tagId: z.number().optional().describe("Filter by tag ID"),
+        ...responseShapeSchema,
+        ...paginationSchema,
       }),
+      outputSchema: TaskListOutputSchema,
       annotations: {
         readOnlyHint: true,
         openWorldHint: true,
       },
     },
     async (
-      { organizationId, keyword, status, priority, assigneeId, tagId },
+      {
+        organizationId,
+        keyword,
+        status,
+        priority,
+        assigneeId,
+        tagId,
+        format,
+        fields,
+        limit,
+        cursor,
+      },
       extra
     ) => {
       const clientResult = await getQuireClient(extra);
@@ -716,7 +1040,24 @@ export function registerTaskTools(server: McpServer): void {
         return formatError(result.error, "task");
       }
 
-      return formatSuccess(result.data);
+      const paged = paginate(
+        result.data,
+        { limit, cursor },
+        {
+          tool: "searchOrganizationTasks",
+          organizationId,
+          keyword,
+          status,
+          priority,
+          assigneeId,
+          tagId,
+        }
+      );
+      if (!paged.success) {
+        return formatValidationError(paged.error);
+      }
+
+      return formatPage(paged.page, "tasks", "task", { format, fields });
     }
   );
 }
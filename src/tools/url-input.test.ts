@@ -0,0 +1,478 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { acceptQuireUrls, idForField, rewriteQuireUrls } from "./url-input.js";
+import {
+  createMockClient,
+  createMockExtra,
+  extractTextContent,
+  isErrorResponse,
+  mockErrors,
+} from "./__test-utils__.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+const TASK_URL = "https://quire.io/w/my-project/42";
+
+describe("idForField", () => {
+  it("should give project fields the project of any project-scoped link", () => {
+    const url = { kind: "task", projectId: "p", taskId: 42 } as const;
+
+    expect(idForField("projectId", url)).toBe("p");
+    expect(idForField("targetProjectId", url)).toBe("p");
+    expect(idForField("taskId", url)).toBe(42);
+    expect(idForField("id", url)).toBeUndefined();
+  });
+
+  it("should give ownerId the organization of an organization link", () => {
+    const url = { kind: "organization", organizationId: "acme" } as const;
+
+    expect(idForField("ownerId", url)).toBe("acme");
+    expect(idForField("projectId", url)).toBeUndefined();
+    expect(idForField("projects", url)).toBeUndefined();
+    expect(idForField("organizationId", url)).toBe("acme");
+    expect(idForField("id", url, "organization")).toBe("acme");
+  });
+
+  it("should give id the ID of a link to the kind of object it looks up", () => {
+    const project = { kind: "project", projectId: "p" } as const;
+
+    expect(idForField("id", project, "project")).toBe("p");
+    expect(idForField("id", project, "organization")).toBeUndefined();
+    expect(idForField("id", project, "user")).toBeUndefined();
+    expect(idForField("id", project)).toBeUndefined();
+    expect(idForField("id", { kind: "user", userId: "alice" }, "user")).toBe(
+      "alice"
+    );
+  });
+
+  it("should give item ID fields the ID of the linked item", () => {
+    expect(idForField("taskId", { kind: "project", projectId: "p" })).toBe(
+      undefined
+    );
+    expect(
+      idForField("organizationId", { kind: "project", projectId: "p" })
+    ).toBeUndefined();
+    expect(
+      idForField("documentId", {
+        kind: "document",
+        projectId: "p",
+        documentId: "specs",
+      })
+    ).toBe("specs");
+    expect(
+      idForField("sublistId", {
+        kind: "sublist",
+        projectId: "p",
+        sublistId: "s1",
+      })
+    ).toBe("s1");
+    expect(
+      idForField("chatId", { kind: "chat", projectId: "p", chatId: "general" })
+    ).toBe("general");
+  });
+});
+
+describe("rewriteQuireUrls", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should leave values that are not links unchanged", async () => {
+    const result = await rewriteQuireUrls(
+      { projectId: "my-project", name: TASK_URL, limit: 5 },
+      ["projectId", "name", "limit"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: { projectId: "my-project", name: TASK_URL, limit: 5 },
+    });
+    expect(getQuireClient).not.toHaveBeenCalled();
+  });
+
+  it("should fill an empty sibling item ID from a project field link", async () => {
+    const result = await rewriteQuireUrls(
+      { projectId: TASK_URL },
+      ["projectId", "taskId"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: { projectId: "my-project", taskId: 42 },
+    });
+  });
+
+  it("should not overwrite a sibling item ID that was given", async () => {
+    const result = await rewriteQuireUrls(
+      { projectId: TASK_URL, taskId: 7 },
+      ["projectId", "taskId"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: { projectId: "my-project", taskId: 7 },
+    });
+  });
+
+  it("should reject a link to the wrong kind of object", async () => {
+    const result = await rewriteQuireUrls(
+      { projectId: "https://quire.io/u/alice" },
+      ["projectId"],
+      createMockExtra()
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && extractTextContent(result.response)).toContain(
+      "projectId does not take user links"
+    );
+  });
+
+  it("should take links in id only for the kind of object it looks up", async () => {
+    const project = "https://quire.io/w/p";
+    const extra = createMockExtra();
+
+    expect(
+      await rewriteQuireUrls({ id: project }, ["id"], extra, "project")
+    ).toEqual({ success: true, data: { id: "p" } });
+    expect(
+      (await rewriteQuireUrls({ id: project }, ["id"], extra, "organization"))
+        .success
+    ).toBe(false);
+    expect(await rewriteQuireUrls({ id: project }, ["id"], extra)).toEqual({
+      success: true,
+      data: { id: project },
+    });
+  });
+
+  it("should rewrite links in project lists", async () => {
+    const result = await rewriteQuireUrls(
+      { projects: ["web", TASK_URL] },
+      ["projects"],
+      createMockExtra()
+    );
+    const wrongKind = await rewriteQuireUrls(
+      { projects: ["https://quire.io/c/acme"] },
+      ["projects"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: { projects: ["web", "my-project"] },
+    });
+    expect(wrongKind.success).toBe(false);
+  });
+
+  it("should reject links to other objects in task and chat OID fields", async () => {
+    const result = await rewriteQuireUrls(
+      { taskOids: ["https://quire.io/w/p/doc/specs"] },
+      ["taskOids"],
+      createMockExtra()
+    );
+    const chat = await rewriteQuireUrls(
+      { chatOid: TASK_URL },
+      ["chatOid"],
+      createMockExtra()
+    );
+
+    expect(result.success).toBe(false);
+    expect(chat.success).toBe(false);
+    expect(getQuireClient).not.toHaveBeenCalled();
+  });
+
+  it("should look up OIDs for links in OID fields", async () => {
+    const getTask = vi.fn().mockResolvedValue({
+      success: true,
+      data: { oid: "TaskOid42", id: 42 },
+    });
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({ getTask }),
+    });
+
+    const result = await rewriteQuireUrls(
+      {
+        taskOid: TASK_URL,
+        taskOids: [TASK_URL, "TaskOidPlain", 3],
+      },
+      ["taskOid", "taskOids"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        taskOid: "TaskOid42",
+        taskOids: ["TaskOid42", "TaskOidPlain", 3],
+      },
+    });
+    expect(getTask).toHaveBeenCalledWith("my-project", 42);
+    expect(getQuireClient).toHaveBeenCalledTimes(1);
+  });
+
+  it("should rewrite links in nested objects and arrays", async () => {
+    const getTask = vi.fn().mockResolvedValue({
+      success: true,
+      data: { oid: "TaskOid42", id: 42 },
+    });
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({ getTask }),
+    });
+
+    const result = await rewriteQuireUrls(
+      {
+        filter: { projectId: TASK_URL, keyword: TASK_URL },
+        items: [{ taskOid: TASK_URL }, "plain"],
+      },
+      ["filter", "items"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        filter: { projectId: "my-project", keyword: TASK_URL },
+        items: [{ taskOid: "TaskOid42" }, "plain"],
+      },
+    });
+  });
+
+  it("should return lookup errors from nested objects and arrays", async () => {
+    vi.mocked(getQuireClient).mockResolvedValue({
+      success: true,
+      client: createMockClient({
+        getTask: vi.fn().mockResolvedValue(mockErrors.notFound()),
+      }),
+    });
+
+    const nested = await rewriteQuireUrls(
+      { patch: { taskOid: TASK_URL } },
+      ["patch"],
+      createMockExtra()
+    );
+    const listed = await rewriteQuireUrls(
+      { items: [{ taskOid: TASK_URL }] },
+      ["items"],
+      createMockExtra()
+    );
+
+    expect(nested.success).toBe(false);
+    expect(listed.success).toBe(false);
+  });
+
+  it.each([
+    ["https://quire.io/w/p", "getProject", ["p"]],
+    [
+      "https://quire.io/w/p/doc/specs",
+      "getDocument",
+      ["project", "p", "specs"],
+    ],
+    ["https://quire.io/w/p/sublist/s1", "getSublist", ["project", "p", "s1"]],
+    [
+      "https://quire.io/w/p/chat/general",
+      "getChat",
+      ["project", "p", "general"],
+    ],
+    ["https://quire.io/c/acme", "getOrganization", ["acme"]],
+    ["https://quire.io/u/alice", "getUser", ["alice"]],
+  ])("should look up the OID of %s", async (url, method, args) => {
+    const lookup = vi.fn().mockResolvedValue({
+      success: true,
+      data: { oid: "LinkedOid" },
+    });
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({ [method]: lookup }),
+    });
+
+    const result = await rewriteQuireUrls(
+      { oid: url },
+      ["oid"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({ success: true, data: { oid: "LinkedOid" } });
+    expect(lookup).toHaveBeenCalledWith(...args);
+  });
+
+  it("should return an error when the linked object is not found", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        getTask: vi.fn().mockResolvedValue(mockErrors.notFound()),
+      }),
+    });
+
+    const result = await rewriteQuireUrls(
+      { taskOids: [TASK_URL] },
+      ["taskOids"],
+      createMockExtra()
+    );
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(isErrorResponse(result.response)).toBe(true);
+    expect(extractTextContent(result.response)).toContain("task");
+  });
+
+  it("should leave OID links in place when not authenticated", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const result = await rewriteQuireUrls(
+      { oid: TASK_URL },
+      ["oid"],
+      createMockExtra()
+    );
+
+    expect(result).toEqual({ success: true, data: { oid: TASK_URL } });
+  });
+});
+
+describe("acceptQuireUrls", () => {
+  let server: McpServer;
+  let handlers: Map<
+    string,
+    (args: Record<string, unknown>, extra: unknown) => Promise<unknown>
+  >;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new Map();
+    server = {
+      registerTool: vi.fn(
+        (
+          name: string,
+          _config: unknown,
+          handler: (
+            args: Record<string, unknown>,
+            extra: unknown
+          ) => Promise<unknown>
+        ) => {
+          handlers.set(name, handler);
+        }
+      ),
+      registerResource: vi.fn(),
+    } as unknown as McpServer;
+  });
+
+  it("should rewrite links before calling the tool handler", async () => {
+    const callback = vi.fn().mockResolvedValue({ content: [] });
+    acceptQuireUrls(server).registerTool(
+      "quire.getTask",
+      {
+        description: "Get a task",
+        inputSchema: z.object({
+          projectId: z.string(),
+          taskId: z.number().optional(),
+        }),
+      },
+      callback
+    );
+
+    const extra = createMockExtra();
+    await handlers.get("quire.getTask")?.({ projectId: TASK_URL }, extra);
+
+    expect(callback).toHaveBeenCalledWith(
+      { projectId: "my-project", taskId: 42 },
+      extra
+    );
+  });
+
+  it("should return lookup errors without calling the tool handler", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        getTask: vi.fn().mockResolvedValue(mockErrors.notFound()),
+      }),
+    });
+    const callback = vi.fn();
+    acceptQuireUrls(server).registerTool(
+      "quire.deleteTask",
+      {
+        description: "Delete a task",
+        inputSchema: { oid: z.string() },
+      },
+      callback
+    );
+
+    const result = await handlers.get("quire.deleteTask")?.(
+      { oid: TASK_URL },
+      createMockExtra()
+    );
+
+    expect(isErrorResponse(result as { isError?: boolean })).toBe(true);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("should take links in id for tools that look up objects by it", async () => {
+    const callback = vi.fn().mockResolvedValue({ content: [] });
+    const tools = acceptQuireUrls(server);
+    for (const name of ["quire.getOrganization", "quire.createDocument"]) {
+      tools.registerTool(
+        name,
+        { description: name, inputSchema: { id: z.string() } },
+        callback
+      );
+    }
+
+    const extra = createMockExtra();
+    const result = await handlers.get("quire.getOrganization")?.(
+      { id: "https://quire.io/w/p" },
+      extra
+    );
+    await handlers.get("quire.getOrganization")?.(
+      { id: "https://quire.io/c/acme" },
+      extra
+    );
+    await handlers.get("quire.createDocument")?.(
+      { id: "https://quire.io/c/acme" },
+      extra
+    );
+
+    expect(isErrorResponse(result as { isError?: boolean })).toBe(true);
+    expect(callback).toHaveBeenNthCalledWith(1, { id: "acme" }, extra);
+    expect(callback).toHaveBeenNthCalledWith(
+      2,
+      { id: "https://quire.io/c/acme" },
+      extra
+    );
+  });
+
+  it("should register tools without ID fields unchanged", () => {
+    const callback = vi.fn();
+    acceptQuireUrls(server).registerTool(
+      "quire.whoami",
+      { description: "Who am I" },
+      callback
+    );
+
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.whoami",
+      { description: "Who am I" },
+      callback
+    );
+  });
+
+  it("should pass other server methods through", () => {
+    const wrapped = acceptQuireUrls(server);
+
+    expect(wrapped.registerResource).toBe(server.registerResource);
+    expect(Object.getPrototypeOf(wrapped)).toBe(server);
+  });
+});
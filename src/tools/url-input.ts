@@ -0,0 +1,340 @@
+/**
+ * Quire URL Input
+ *
+ * Lets every tool take a link copied from the Quire web app wherever it
+ * takes an ID or OID. `acceptQuireUrls()` wraps the server's registerTool
+ * so each handler sees its arguments with links replaced by identifiers:
+ *
+ * - ID fields (`projectId`, `ownerId`, `organizationId`, `documentId`, `id`,
+ *   ...) and project lists (`projects`) get the ID from the link.
+ * - OID fields (`oid`, `taskOid`, `taskOids`, ...) get the OID of the linked
+ *   task, document, sublist or chat, looked up through the API.
+ * - A link to the wrong kind of object, such as a user link in `projectId`,
+ *   is rejected. `id` takes links only in tools that look up a project,
+ *   organization or user by it; elsewhere it names a new ID.
+ * - Sibling fields left empty are filled from the link, so a task link in
+ *   `projectId` also supplies `taskId`.
+ * - Nested objects and arrays of objects are rewritten too, such as the
+ *   `filter.projectId` of a bulk update.
+ *
+ * Values that are not Quire links are passed through unchanged.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { QuireClient } from "../quire/client.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import type { QuireResult } from "../quire/types.js";
+import { parseQuireUrl, type QuireUrl } from "../quire/urls.js";
+import {
+  withToolMiddleware,
+  type ToolArgs,
+  type ToolExtra,
+} from "./middleware.js";
+import type { ResolveResult } from "./resolver.js";
+import {
+  formatError,
+  formatValidationError,
+  type ToolErrorResponse,
+} from "./utils.js";
+
+/** Fields holding a project ID (or, for ownerId, an organization ID) */
+const PROJECT_ID_FIELDS = new Set([
+  "projectId",
+  "sourceProjectId",
+  "targetProjectId",
+  "ownerId",
+]);
+
+/** Fields holding lists of project IDs */
+const PROJECT_LIST_FIELDS = new Set(["projects"]);
+
+/** Fields holding the OID of a task, document, sublist or chat */
+const OID_FIELDS = new Set([
+  "oid",
+  "taskOid",
+  "parentTaskOid",
+  "rootTaskOid",
+  "chatOid",
+]);
+
+/** Fields holding lists of OIDs */
+const OID_LIST_FIELDS = new Set(["taskOids"]);
+
+/** The kind of object OID fields other than the generic `oid` point at */
+const OID_FIELD_KINDS: Partial<Record<string, QuireUrl["kind"]>> = {
+  taskOid: "task",
+  parentTaskOid: "task",
+  rootTaskOid: "task",
+  taskOids: "task",
+  chatOid: "chat",
+};
+
+/**
+ * The kind of object the `id` field of each tool looks up. In other tools
+ * `id` names a new ID and takes no links.
+ */
+const ID_FIELD_KINDS: Partial<Record<string, QuireUrl["kind"]>> = {
+  "quire.getProject": "project",
+  "quire.updateProject": "project",
+  "quire.exportProject": "project",
+  "quire.getOrganization": "organization",
+  "quire.updateOrganization": "organization",
+  "quire.getUser": "user",
+};
+
+/** The ID field each kind of project item is addressed by */
+const ITEM_ID_FIELDS: Partial<Record<QuireUrl["kind"], string>> = {
+  task: "taskId",
+  document: "documentId",
+  sublist: "sublistId",
+  chat: "chatId",
+};
+
+/**
+ * Whether a tool input field may hold a Quire link
+ */
+function isUrlField(field: string, idKind?: QuireUrl["kind"]): boolean {
+  return (
+    PROJECT_ID_FIELDS.has(field) ||
+    OID_FIELDS.has(field) ||
+    field === "organizationId" ||
+    (field === "id" && idKind !== undefined) ||
+    Object.values(ITEM_ID_FIELDS).some((itemField) => itemField === field)
+  );
+}
+
+/**
+ * The ID of the object a link points at
+ */
+function linkedId(url: QuireUrl): string | number {
+  switch (url.kind) {
+    case "project":
+      return url.projectId;
+    case "organization":
+      return url.organizationId;
+    case "user":
+      return url.userId;
+    case "task":
+      return url.taskId;
+    case "document":
+      return url.documentId;
+    case "sublist":
+      return url.sublistId;
+    case "chat":
+      return url.chatId;
+  }
+}
+
+/**
+ * The ID a link supplies for an ID field, or undefined when the field does
+ * not take links of its kind
+ *
+ * @param idKind - The kind of object the tool's `id` field looks up
+ */
+/** @internal Exported for testing */
+export function idForField(
+  field: string,
+  url: QuireUrl,
+  idKind?: QuireUrl["kind"]
+): string | number | undefined {
+  if (PROJECT_ID_FIELDS.has(field) || PROJECT_LIST_FIELDS.has(field)) {
+    if ("projectId" in url) return url.projectId;
+    return field === "ownerId" && url.kind === "organization"
+      ? url.organizationId
+      : undefined;
+  }
+  if (field === "id") {
+    return url.kind === idKind ? linkedId(url) : undefined;
+  }
+  if (field === "organizationId") {
+    return url.kind === "organization" ? url.organizationId : undefined;
+  }
+  return ITEM_ID_FIELDS[url.kind] === field ? linkedId(url) : undefined;
+}
+
+function wrongKindError(field: string, url: QuireUrl): ToolErrorResponse {
+  return formatValidationError(`${field} does not take ${url.kind} links`);
+}
+
+/**
+ * Look up the OID of the object a link points at
+ */
+async function lookupOid(
+  client: QuireClient,
+  url: QuireUrl
+): Promise<QuireResult<{ oid: string }>> {
+  switch (url.kind) {
+    case "project":
+      return client.getProject(url.projectId);
+    case "task":
+      return client.getTask(url.projectId, url.taskId);
+    case "document":
+      return client.getDocument("project", url.projectId, url.documentId);
+    case "sublist":
+      return client.getSublist("project", url.projectId, url.sublistId);
+    case "chat":
+      return client.getChat("project", url.projectId, url.chatId);
+    case "organization":
+      return client.getOrganization(url.organizationId);
+    case "user":
+      return client.getUser(url.userId);
+  }
+}
+
+function isPlainObject(value: unknown): value is ToolArgs {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace Quire links in tool arguments, including nested objects, with
+ * the identifiers each field expects. `fields` are the tool's input field
+ * names, used to decide which empty sibling fields a link may fill, and
+ * `idKind` the kind of object its `id` field looks up, if any.
+ */
+/** @internal Exported for testing */
+export async function rewriteQuireUrls(
+  args: ToolArgs,
+  fields: readonly string[],
+  extra: ToolExtra,
+  idKind?: QuireUrl["kind"]
+): Promise<ResolveResult<ToolArgs>> {
+  let client: QuireClient | undefined;
+
+  // Resolves to undefined when unauthenticated: the link is left in place
+  // and the tool reports the auth error
+  const toOid = async (
+    field: string,
+    url: QuireUrl
+  ): Promise<ResolveResult<string | undefined>> => {
+    const kind = OID_FIELD_KINDS[field];
+    if (kind && url.kind !== kind) {
+      return { success: false, response: wrongKindError(field, url) };
+    }
+    if (!client) {
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return { success: true, data: undefined };
+      }
+      client = clientResult.client;
+    }
+    const result = await lookupOid(client, url);
+    if (!result.success) {
+      return { success: false, response: formatError(result.error, url.kind) };
+    }
+    return { success: true, data: result.data.oid };
+  };
+
+  const rewrite = async (
+    args: ToolArgs,
+    fields: readonly string[],
+    idKind?: QuireUrl["kind"]
+  ): Promise<ResolveResult<ToolArgs>> => {
+    const rewritten: ToolArgs = { ...args };
+    for (const [field, value] of Object.entries(args)) {
+      if (isPlainObject(value)) {
+        // Nested schemas are not known, so no sibling fields are filled
+        const nested = await rewrite(value, []);
+        if (!nested.success) return nested;
+        rewritten[field] = nested.data;
+        continue;
+      }
+      if (OID_LIST_FIELDS.has(field) && Array.isArray(value)) {
+        const oids: unknown[] = [];
+        for (const item of value) {
+          const url =
+            typeof item === "string" ? parseQuireUrl(item) : undefined;
+          const oid = url ? await toOid(field, url) : undefined;
+          if (oid && !oid.success) return oid;
+          oids.push(oid?.data ?? item);
+        }
+        rewritten[field] = oids;
+        continue;
+      }
+      if (PROJECT_LIST_FIELDS.has(field) && Array.isArray(value)) {
+        const ids: unknown[] = [];
+        for (const item of value) {
+          const url =
+            typeof item === "string" ? parseQuireUrl(item) : undefined;
+          const id = url && idForField(field, url);
+          if (url && id === undefined) {
+            return { success: false, response: wrongKindError(field, url) };
+          }
+          ids.push(id ?? item);
+        }
+        rewritten[field] = ids;
+        continue;
+      }
+      if (Array.isArray(value)) {
+        const items: unknown[] = [];
+        for (const item of value) {
+          const nested = isPlainObject(item)
+            ? await rewrite(item, [])
+            : undefined;
+          if (nested && !nested.success) return nested;
+          items.push(nested?.data ?? item);
+        }
+        rewritten[field] = items;
+        continue;
+      }
+
+      const url =
+        typeof value === "string" && isUrlField(field, idKind)
+          ? parseQuireUrl(value)
+          : undefined;
+      if (!url) continue;
+
+      if (OID_FIELDS.has(field)) {
+        const oid = await toOid(field, url);
+        if (!oid.success) return oid;
+        rewritten[field] = oid.data ?? value;
+        continue;
+      }
+
+      const id = idForField(field, url, idKind);
+      if (id === undefined) {
+        return { success: false, response: wrongKindError(field, url) };
+      }
+      rewritten[field] = id;
+
+      // Fill the item ID the link names when the tool takes it separately
+      const itemField = ITEM_ID_FIELDS[url.kind];
+      if (
+        itemField &&
+        itemField !== field &&
+        fields.includes(itemField) &&
+        rewritten[itemField] === undefined
+      ) {
+        rewritten[itemField] = idForField(itemField, url);
+      }
+    }
+    return { success: true, data: rewritten };
+  };
+
+  return rewrite(args, fields, idKind);
+}
+
+/**
+ * Wrap a server so tools registered through it accept Quire links in their
+ * ID and OID fields, including nested ones
+ */
+export function acceptQuireUrls(server: McpServer): McpServer {
+  return withToolMiddleware(server, (handler, fields, name) => {
+    // Tools without input fields are called without arguments; nested
+    // objects of the others may hold links in fields of any name
+    if (fields.length === 0) {
+      return undefined;
+    }
+    return async (args, extra) => {
+      const rewritten = await rewriteQuireUrls(
+        args,
+        fields,
+        extra,
+        ID_FIELD_KINDS[name]
+      );
+      if (!rewritten.success) {
+        return rewritten.response;
+      }
+      return handler(rewritten.data, extra);
+    };
+  });
+}
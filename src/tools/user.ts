@@ -7,7 +7,15 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
-import { formatError, formatAuthError, formatSuccess } from "./utils.js";
+import { QuireUserSchema } from "../quire/schemas.js";
+import { UserListOutputSchema } from "./output-schemas.js";
+import {
+  formatError,
+  formatAuthError,
+  formatSuccess,
+  freshReadSchema,
+  readClient,
+} from "./utils.js";
 
 /**
  * Register all user tools with the MCP server
@@ -26,18 +34,21 @@ export function registerUserTools(server: McpServer): void {
           .describe(
             "The user ID (e.g., 'john-doe'), OID (unique identifier), or email address"
           ),
+        ...freshReadSchema,
       }),
+      outputSchema: QuireUserSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ id }, extra) => {
+    async ({ id, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.getUser(id);
+      const result = await client.getUser(id);
       if (!result.success) {
         return formatError(result.error, "user");
       }
@@ -53,23 +64,25 @@ export function registerUserTools(server: McpServer): void {
       description:
         "List all users accessible to the current user. " +
         "Returns an array of user objects with basic profile information.",
-      inputSchema: z.object({}),
+      inputSchema: z.object({ ...freshReadSchema }),
+      outputSchema: UserListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async (_args, extra) => {
+    async ({ fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.listUsers();
+      const result = await client.listUsers();
       if (!result.success) {
         return formatError(result.error, "user");
       }
 
-      return formatSuccess(result.data);
+      return formatSuccess(result.data, { users: result.data });
     }
   );
 
@@ -84,23 +97,26 @@ export function registerUserTools(server: McpServer): void {
         projectId: z
           .string()
           .describe("The project ID (e.g., 'my-project') or OID"),
+        ...freshReadSchema,
       }),
+      outputSchema: UserListOutputSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ projectId }, extra) => {
+    async ({ projectId, fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const result = await clientResult.client.listProjectMembers(projectId);
+      const result = await client.listProjectMembers(projectId);
       if (!result.success) {
         return formatError(result.error, "user");
       }
 
-      return formatSuccess(result.data);
+      return formatSuccess(result.data, { users: result.data });
     }
   );
 }
@@ -1,12 +1,26 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DatabaseSync } from "node:sqlite";
 import {
   formatError,
   formatAuthError,
   formatValidationError,
   formatSuccess,
   formatMessage,
+  formatProjected,
+  formatMarkdownTable,
+  projectFields,
+  paginate,
+  formatPage,
+  formatPageSummary,
   buildParams,
+  readClient,
+  sourceReadClient,
+  withMirrorFreshness,
+  flattenTaskTree,
 } from "./utils.js";
+import { createMockClient } from "./__test-utils__.js";
+import type { Page } from "./utils.js";
+import { QuireMirror, setSharedMirror } from "../quire/mirror.js";
 
 describe("Tool Utils", () => {
   describe("formatError", () => {
@@ -222,6 +236,26 @@ describe("Tool Utils", () => {
       const content = result.content[0];
       expect(JSON.parse(content.text)).toEqual(data);
     });
+
+    it("should return object data as structured content", () => {
+      const data = { id: "123", name: "Test" };
+
+      expect(formatSuccess(data).structuredContent).toBe(data);
+    });
+
+    it("should not return arrays or primitives as structured content", () => {
+      expect(formatSuccess([{ id: 1 }]).structuredContent).toBeUndefined();
+      expect(formatSuccess("string").structuredContent).toBeUndefined();
+      expect(formatSuccess(null).structuredContent).toBeUndefined();
+    });
+
+    it("should use explicit structured content when provided", () => {
+      const items = [{ id: 1 }];
+      const result = formatSuccess(items, { items });
+
+      expect(result.content[0]?.text).toBe(JSON.stringify(items, null, 2));
+      expect(result.structuredContent).toEqual({ items });
+    });
   });
 
   describe("formatMessage", () => {
@@ -255,6 +289,326 @@ describe("Tool Utils", () => {
       const content = result.content[0];
       expect(content.text).toBe(message);
     });
+
+    it("should include structured content when provided", () => {
+      const result = formatMessage("Task t1 deleted successfully.", {
+        oid: "t1",
+      });
+
+      expect(result.content[0]?.text).toBe("Task t1 deleted successfully.");
+      expect(result.structuredContent).toEqual({ oid: "t1" });
+      expect(formatMessage("Done").structuredContent).toBeUndefined();
+    });
+  });
+
+  describe("projectFields", () => {
+    const task = {
+      oid: "t1",
+      name: "Design",
+      nameText: "Design",
+      status: { value: 0, name: "To-Do", color: "#fff" },
+      assignees: [
+        { id: "alice", name: "Alice", image: "a.png" },
+        { id: "bob", name: "Bob", image: "b.png" },
+      ],
+    };
+
+    it("should keep only the requested fields", () => {
+      expect(projectFields(task, ["oid", "status.name"])).toEqual({
+        oid: "t1",
+        status: { name: "To-Do" },
+      });
+    });
+
+    it("should project every element of arrays", () => {
+      expect(projectFields([task], ["assignees.id", "assignees.name"])).toEqual(
+        [
+          {
+            assignees: [
+              { id: "alice", name: "Alice" },
+              { id: "bob", name: "Bob" },
+            ],
+          },
+        ]
+      );
+    });
+
+    it("should keep whole values for paths ending at an object", () => {
+      expect(projectFields(task, ["status", "status.name"])).toEqual({
+        status: task.status,
+      });
+    });
+
+    it("should skip missing fields and leave primitives alone", () => {
+      expect(projectFields(task, ["due", "name.length"])).toEqual({
+        name: "Design",
+      });
+      expect(projectFields(null, ["oid"])).toBeNull();
+    });
+  });
+
+  describe("formatMarkdownTable", () => {
+    it("should render one row per item", () => {
+      const table = formatMarkdownTable(
+        [
+          {
+            id: 1,
+            name: "A | B",
+            status: { name: "Done" },
+            tags: [{ name: "Bug" }, { name: "UI" }],
+            meta: { size: 2 },
+          },
+          { id: 2, name: "Line\nbreak" },
+        ],
+        ["id", "name", "status", "tags.name", "meta", "due"]
+      );
+
+      expect(table.split("\n")).toEqual([
+        "| id | name | status | tags.name | meta | due |",
+        "| --- | --- | --- | --- | --- | --- |",
+        '| 1 | A \\| B | Done | Bug, UI | {"size":2} |  |',
+        "| 2 | Line break |  |  |  |  |",
+      ]);
+    });
+  });
+
+  describe("formatProjected", () => {
+    const tasks = [
+      {
+        oid: "t1",
+        id: 1,
+        name: "Design",
+        nameText: "Design",
+        status: { value: 0, name: "To-Do" },
+        followers: [{ id: "alice", name: "Alice" }],
+      },
+    ];
+
+    it("should behave like formatSuccess by default", () => {
+      const result = formatProjected(tasks, "task", {}, (items) => ({
+        tasks: items,
+      }));
+
+      expect(result).toEqual(formatSuccess(tasks, { tasks }));
+    });
+
+    it("should return compact single-line JSON", () => {
+      const result = formatProjected(
+        tasks,
+        "task",
+        { format: "compact" },
+        (items) => ({ tasks: items })
+      );
+
+      expect(result.content[0]?.text).toBe(
+        '[{"oid":"t1","id":1,"name":"Design","status":{"name":"To-Do"}}]'
+      );
+      expect(result.structuredContent).toEqual({
+        tasks: [
+          { oid: "t1", id: 1, name: "Design", status: { name: "To-Do" } },
+        ],
+      });
+    });
+
+    it("should project explicit fields as pretty JSON", () => {
+      const result = formatProjected(tasks[0], "task", { fields: ["name"] });
+
+      expect(result.content[0]?.text).toBe('{\n  "name": "Design"\n}');
+      expect(result.structuredContent).toEqual({ name: "Design" });
+    });
+
+    it("should render a markdown table of the compact fields", () => {
+      const result = formatProjected(tasks[0], "tag", {
+        format: "markdown-table",
+      });
+
+      expect(result.content[0]?.text).toBe(
+        "| oid | id | name |\n| --- | --- | --- |\n| t1 | 1 | Design |"
+      );
+      expect(result.structuredContent).toEqual({
+        oid: "t1",
+        id: 1,
+        name: "Design",
+      });
+    });
+
+    it("should use explicit fields as table columns", () => {
+      const result = formatProjected(tasks, "task", {
+        format: "markdown-table",
+        fields: ["name", "followers"],
+      });
+
+      expect(result.content[0]?.text).toContain("| Design | Alice |");
+    });
+  });
+
+  describe("paginate", () => {
+    const items = ["a", "b", "c", "d", "e"].map((oid) => ({ oid }));
+    const query = { tool: "listTasks", projectId: "p" };
+
+    function page(
+      list: { oid: string }[],
+      request: { limit?: number; cursor?: string },
+      q: object = query
+    ): Page<{ oid: string }> {
+      const result = paginate(list, request, q);
+      if (!result.success) throw new Error(result.error);
+      return result.page;
+    }
+
+    it("should return everything when neither limit nor cursor is given", () => {
+      expect(page(items, {})).toEqual({
+        items,
+        total: 5,
+        offset: 0,
+        paginated: false,
+      });
+    });
+
+    it("should walk pages with the cursor's page size", () => {
+      const first = page(items, { limit: 2 });
+      expect(first.items.map((item) => item.oid)).toEqual(["a", "b"]);
+      expect(first.nextCursor).toBeDefined();
+
+      const second = page(items, { cursor: first.nextCursor ?? "" });
+      expect(second.items.map((item) => item.oid)).toEqual(["c", "d"]);
+      expect(second.offset).toBe(2);
+
+      const third = page(items, { cursor: second.nextCursor ?? "", limit: 5 });
+      expect(third.items.map((item) => item.oid)).toEqual(["e"]);
+      expect(third.nextCursor).toBeUndefined();
+    });
+
+    it("should resume after the last item when earlier items change", () => {
+      const first = page(items, { limit: 2 });
+      const inserted = [{ oid: "new" }, ...items];
+      expect(
+        page(inserted, { cursor: first.nextCursor ?? "" }).items.map(
+          (item) => item.oid
+        )
+      ).toEqual(["c", "d"]);
+    });
+
+    it("should fall back to the offset when the last item is gone", () => {
+      const first = page(items, { limit: 2 });
+      const removed = items.filter((item) => item.oid !== "b");
+      expect(
+        page(removed, { cursor: first.nextCursor ?? "" }).items.map(
+          (item) => item.oid
+        )
+      ).toEqual(["d", "e"]);
+      expect(page([], { cursor: first.nextCursor ?? "" }).items).toEqual([]);
+    });
+
+    it("should reject malformed cursors", () => {
+      for (const cursor of [
+        "not-a-cursor",
+        Buffer.from("{}").toString("base64url"),
+      ]) {
+        expect(paginate(items, { cursor }, query)).toEqual({
+          success: false,
+          error: "Invalid cursor",
+        });
+      }
+    });
+
+    it("should reject cursors issued for other arguments", () => {
+      const first = page(items, { limit: 2 });
+      const result = paginate(
+        items,
+        { cursor: first.nextCursor ?? "" },
+        { ...query, projectId: "other" }
+      );
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toContain("different arguments");
+    });
+  });
+
+  describe("formatPageSummary", () => {
+    it("should describe a middle page", () => {
+      expect(
+        formatPageSummary(
+          {
+            items: [1, 2],
+            total: 5,
+            offset: 2,
+            nextCursor: "abc",
+            paginated: true,
+          },
+          "tasks"
+        )
+      ).toBe('Showing tasks 3-4 of 5. Pass cursor "abc" to get the next page.');
+    });
+
+    it("should describe an empty last page", () => {
+      expect(
+        formatPageSummary(
+          { items: [], total: 5, offset: 5, paginated: true },
+          "tasks"
+        )
+      ).toBe("Showing 0 of 5 tasks. No more results.");
+    });
+  });
+
+  describe("formatPage", () => {
+    it("should add totals to structured content only when not paginated", () => {
+      const result = formatPage(
+        { items: [{ oid: "a" }], total: 1, offset: 0, paginated: false },
+        "tasks",
+        "task",
+        {}
+      );
+      expect(result.content).toHaveLength(1);
+      expect(result.structuredContent).toEqual({
+        tasks: [{ oid: "a" }],
+        total: 1,
+      });
+    });
+
+    it("should append a page summary and the next cursor", () => {
+      const result = formatPage(
+        {
+          items: [{ oid: "a", name: "A" }],
+          total: 2,
+          offset: 0,
+          nextCursor: "abc",
+          paginated: true,
+        },
+        "tasks",
+        "task",
+        { format: "compact" }
+      );
+      expect(result.content.map((block) => block.text)).toEqual([
+        '[{"oid":"a","name":"A"}]',
+        'Showing tasks 1-1 of 2. Pass cursor "abc" to get the next page.',
+      ]);
+      expect(result.structuredContent).toEqual({
+        tasks: [{ oid: "a", name: "A" }],
+        total: 2,
+        nextCursor: "abc",
+      });
+    });
+  });
+
+  describe("flattenTaskTree", () => {
+    it("should list parents before their subtasks, without children", () => {
+      const tasks = flattenTaskTree([
+        {
+          oid: "a",
+          id: 1,
+          name: "A",
+          children: [{ oid: "b", id: 2, name: "B", children: [] }],
+        },
+        { oid: "c", id: 3, name: "C", children: [] },
+      ]);
+
+      expect(tasks).toEqual([
+        { oid: "a", id: 1, name: "A" },
+        { oid: "b", id: 2, name: "B" },
+        { oid: "c", id: 3, name: "C" },
+      ]);
+    });
   });
 
   describe("buildParams", () => {
@@ -364,4 +718,86 @@ describe("Tool Utils", () => {
       });
     });
   });
+
+  describe("readClient", () => {
+    it("should use the client as-is unless fresh is set", () => {
+      const client = createMockClient();
+
+      expect(readClient(client, undefined)).toBe(client);
+      expect(readClient(client, false)).toBe(client);
+    });
+
+    it("should use a cache-bypassing client when fresh is set", () => {
+      const freshClient = createMockClient();
+      const client = createMockClient({ fresh: vi.fn(() => freshClient) });
+
+      expect(readClient(client, true)).toBe(freshClient);
+    });
+  });
+
+  describe("sourceReadClient", () => {
+    afterEach(() => {
+      setSharedMirror(undefined);
+    });
+
+    it("should read live data unless source is 'mirror'", () => {
+      const freshClient = createMockClient();
+      const client = createMockClient({ fresh: vi.fn(() => freshClient) });
+
+      expect(sourceReadClient(client, { fresh: true, source: "live" })).toEqual(
+        { success: true, client: freshClient }
+      );
+      expect(
+        sourceReadClient(client, { fresh: undefined, source: undefined })
+      ).toEqual({ success: true, client });
+    });
+
+    it("should fail if the mirror is not enabled or never synced", () => {
+      const client = createMockClient();
+      const read = (): ReturnType<typeof sourceReadClient> =>
+        sourceReadClient(client, { fresh: undefined, source: "mirror" });
+
+      expect(read()).toMatchObject({
+        success: false,
+        response: { isError: true },
+      });
+
+      const mirror = new QuireMirror(new DatabaseSync(":memory:"));
+      setSharedMirror(mirror);
+      const unsynced = read();
+      expect(unsynced.success || unsynced.response.content[0]?.text).toContain(
+        "has not been synced yet"
+      );
+      mirror.close();
+    });
+
+    it("should note the mirror's freshness in responses", () => {
+      const mirror = new QuireMirror(new DatabaseSync(":memory:"));
+      mirror.setSyncedAt(new Date());
+      setSharedMirror(mirror);
+      const live = createMockClient();
+      const reader = sourceReadClient(live, {
+        fresh: undefined,
+        source: "mirror",
+      });
+      if (!reader.success) throw new Error("expected a mirror client");
+
+      const response = formatMessage("Tasks", { tasks: [] });
+      const fromMirror = withMirrorFreshness(response, reader.client);
+
+      expect(withMirrorFreshness(response, live)).toBe(response);
+      expect(fromMirror.content[1]?.text).toMatch(
+        /^_From the local mirror, synced .+ \(0 minutes ago\)\._$/
+      );
+      expect(fromMirror.structuredContent).toMatchObject({
+        tasks: [],
+        mirror: { ageMinutes: 0 },
+      });
+      expect(
+        withMirrorFreshness(formatSuccess(["a"]), reader.client)
+          .structuredContent
+      ).toBeUndefined();
+      mirror.close();
+    });
+  });
 });
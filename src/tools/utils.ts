@@ -4,6 +4,18 @@
  * Common utilities for MCP tool implementations to reduce code duplication.
  */
 
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { PAGINATION_MAX_LIMIT } from "../constants.js";
+import type { QuireClient } from "../quire/client.js";
+import { getSharedMirror, type QuireMirror } from "../quire/mirror.js";
+import {
+  createMirrorClient,
+  getMirrorFreshness,
+  type MirrorFreshness,
+} from "../quire/mirror-client.js";
+import type { QuireTask, QuireTaskTreeNode } from "../quire/types.js";
+
 // ---------------------------------------------------------------------------
 // Response Types
 // ---------------------------------------------------------------------------
@@ -22,6 +34,8 @@ export interface ToolErrorResponse {
 export interface ToolSuccessResponse {
   [x: string]: unknown;
   content: ToolTextContent[];
+  /** Typed result for tools that declare an outputSchema */
+  structuredContent?: Record<string, unknown>;
 }
 
 // ---------------------------------------------------------------------------
@@ -109,8 +123,19 @@ export function formatValidationError(message: string): ToolErrorResponse {
 
 /**
  * Format a successful JSON response.
+ *
+ * Object data is also returned as structured content. Arrays are not valid
+ * structured content, so list tools pass a wrapping object explicitly.
+ *
+ * @param data - Value serialized into the text block
+ * @param structuredContent - Structured content to return instead of `data`
  */
-export function formatSuccess(data: unknown): ToolSuccessResponse {
+export function formatSuccess(
+  data: unknown,
+  structuredContent?: object
+): ToolSuccessResponse {
+  const structured =
+    structuredContent ?? (isPlainObject(data) ? data : undefined);
   return {
     content: [
       {
@@ -118,13 +143,22 @@ export function formatSuccess(data: unknown): ToolSuccessResponse {
         text: JSON.stringify(data, null, 2),
       },
     ],
+    ...(structured && {
+      structuredContent: structured as Record<string, unknown>,
+    }),
   };
 }
 
 /**
  * Format a successful message response.
+ *
+ * @param message - Human-readable text
+ * @param structuredContent - Optional structured result for the same outcome
  */
-export function formatMessage(message: string): ToolSuccessResponse {
+export function formatMessage(
+  message: string,
+  structuredContent?: object
+): ToolSuccessResponse {
   return {
     content: [
       {
@@ -132,7 +166,572 @@ export function formatMessage(message: string): ToolSuccessResponse {
         text: message,
       },
     ],
+    ...(structuredContent && {
+      structuredContent: structuredContent as Record<string, unknown>,
+    }),
+  };
+}
+
+/**
+ * Check for a non-null, non-array object
+ */
+function isPlainObject(value: unknown): value is object {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------------------------
+// Response Shaping
+// ---------------------------------------------------------------------------
+
+/**
+ * Output formats for list and get tools:
+ * - `full`: every field, pretty-printed JSON (default)
+ * - `compact`: a small per-resource field set, single-line JSON
+ * - `markdown-table`: one row per item, one column per field
+ */
+export type ResponseFormat = "full" | "compact" | "markdown-table";
+
+/**
+ * Resource types with a compact field set
+ */
+export type ShapedResource =
+  | "task"
+  | "project"
+  | "tag"
+  | "comment"
+  | "document"
+  | "sublist"
+  | "chat";
+
+/**
+ * Field paths kept by the compact format and used as default table columns
+ */
+const COMPACT_FIELDS: Record<ShapedResource, string[]> = {
+  task: [
+    "oid",
+    "id",
+    "name",
+    "status.name",
+    "priority.name",
+    "start",
+    "due",
+    "assignees.id",
+    "tags.name",
+    "childCount",
+  ],
+  project: ["oid", "id", "name", "taskCount", "organization.id", "archived"],
+  tag: ["oid", "id", "name"],
+  comment: ["oid", "descriptionText", "createdAt", "createdBy.name"],
+  document: ["oid", "id", "name", "due", "createdAt"],
+  sublist: ["oid", "id", "name"],
+  chat: ["oid", "id", "name", "messageCount"],
+};
+
+/**
+ * Input schema fields shared by tools that support response shaping.
+ * Spread into a tool's inputSchema object.
+ */
+export const responseShapeSchema = {
+  format: z
+    .enum(["full", "compact", "markdown-table"])
+    .optional()
+    .describe(
+      "Output format: 'full' (all fields, default), 'compact' (key fields " +
+        "only) or 'markdown-table'"
+    ),
+  fields: z
+    .array(z.string())
+    .min(1)
+    .optional()
+    .describe(
+      "Return only these fields, as dot paths (e.g., ['name', 'status.name', " +
+        "'assignees.id']). Overrides the compact field set."
+    ),
+};
+
+/**
+ * Response shaping options taken from tool input
+ */
+export interface ResponseShape {
+  format?: ResponseFormat | undefined;
+  fields?: string[] | undefined;
+}
+
+/**
+ * Keep only the given field paths. Arrays are projected element by
+ * element, so `assignees.id` keeps just the ID of every assignee.
+ */
+export function projectFields(value: unknown, fields: string[]): unknown {
+  return project(
+    value,
+    fields.map((field) => field.split("."))
+  );
+}
+
+/**
+ * Recursive step of projectFields, with paths already split
+ */
+function project(value: unknown, paths: string[][]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => project(item, paths));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const source = value as Record<string, unknown>;
+  const nested = new Map<string, string[][]>();
+  for (const [head = "", ...rest] of paths) {
+    nested.set(head, [...(nested.get(head) ?? []), rest]);
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, rests] of nested) {
+    if (!(key in source)) continue;
+    // A path ending at this key keeps the whole value
+    result[key] = rests.some((rest) => rest.length === 0)
+      ? source[key]
+      : project(source[key], rests);
+  }
+  return result;
+}
+
+/**
+ * Render one table cell: values found at the path, comma-separated.
+ * Objects with a name (statuses, users, tags) show their name.
+ */
+function formatCell(value: unknown, path: string[]): string {
+  const leaves = (current: unknown, rest: string[]): unknown[] => {
+    if (Array.isArray(current)) {
+      return current.flatMap((item) => leaves(item, rest));
+    }
+    const [head, ...tail] = rest;
+    if (head === undefined) return current === undefined ? [] : [current];
+    if (!isPlainObject(current)) return [];
+    return leaves((current as Record<string, unknown>)[head], tail);
   };
+  return leaves(value, path)
+    .map((leaf) => {
+      if (isPlainObject(leaf)) {
+        const name = (leaf as Record<string, unknown>)["name"];
+        return typeof name === "string" ? name : JSON.stringify(leaf);
+      }
+      return String(leaf);
+    })
+    .join(", ")
+    .replace(/\|/g, "\\|")
+    .replace(/\r?\n/g, " ");
+}
+
+/**
+ * Render items as a markdown table with one column per field path
+ */
+export function formatMarkdownTable(
+  items: unknown[],
+  fields: string[]
+): string {
+  const paths = fields.map((field) => field.split("."));
+  const lines = [
+    `| ${fields.join(" | ")} |`,
+    `| ${fields.map(() => "---").join(" | ")} |`,
+    ...items.map(
+      (item) => `| ${paths.map((path) => formatCell(item, path)).join(" | ")} |`
+    ),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Format a list or get result with the requested shape.
+ *
+ * The text block and the structured content are shaped alike, so tools
+ * taking format/fields declare output schemas whose fields are all
+ * optional (see projectable() in output-schemas.ts).
+ *
+ * @param data - A resource object or an array of them
+ * @param resource - Resource type, selects the compact field set
+ * @param shape - format/fields from the tool input
+ * @param structure - Builds the structured content around the shaped data;
+ *   without it, shaped objects are the structured content themselves
+ */
+export function formatProjected(
+  data: unknown,
+  resource: ShapedResource,
+  shape: ResponseShape,
+  structure?: (shaped: unknown) => object
+): ToolSuccessResponse {
+  const format = shape.format ?? "full";
+  if (format === "full" && !shape.fields) {
+    return formatSuccess(data, structure?.(data));
+  }
+
+  const fields = shape.fields ?? COMPACT_FIELDS[resource];
+  const projected = projectFields(data, fields);
+  let text: string;
+  if (format === "markdown-table") {
+    text = formatMarkdownTable(Array.isArray(data) ? data : [data], fields);
+  } else {
+    text =
+      format === "compact"
+        ? JSON.stringify(projected)
+        : JSON.stringify(projected, null, 2);
+  }
+
+  const response = formatSuccess(projected, structure?.(projected));
+  return { ...response, content: [{ type: "text" as const, text }] };
+}
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+/**
+ * Input schema fields shared by paginated list and search tools.
+ * Spread into a tool's inputSchema object.
+ */
+export const paginationSchema = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(PAGINATION_MAX_LIMIT)
+    .optional()
+    .describe(
+      `Maximum number of items to return (1-${String(PAGINATION_MAX_LIMIT)}). ` +
+        "If omitted, all items are returned."
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "nextCursor from a previous call with the same arguments, " +
+        "to fetch the next page"
+    ),
+};
+
+/**
+ * Pagination options taken from tool input
+ */
+export interface PageRequest {
+  limit?: number | undefined;
+  cursor?: string | undefined;
+}
+
+/**
+ * One page of a list result
+ */
+export interface Page<T> {
+  items: T[];
+  /** Number of items in the whole result */
+  total: number;
+  /** Index of the first item of this page in the whole result */
+  offset: number;
+  /** Cursor for the following page; absent on the last page */
+  nextCursor?: string;
+  /** Whether limit or cursor was given */
+  paginated: boolean;
+}
+
+export type PageResult<T> =
+  | { success: true; page: Page<T> }
+  | { success: false; error: string };
+
+/**
+ * Decoded cursor contents. `after` is the OID of the last item returned, so
+ * the next page starts right after it even if items were added or removed
+ * earlier in the list. `offset` is the fallback when that item is gone.
+ */
+const CursorSchema = z.object({
+  query: z.string(),
+  after: z.string(),
+  offset: z.number().int().min(0),
+  limit: z.number().int().min(1).max(PAGINATION_MAX_LIMIT),
+});
+
+type Cursor = z.infer<typeof CursorSchema>;
+
+/**
+ * Short fingerprint of the arguments a cursor was issued for
+ */
+function hashQuery(query: object): string {
+  return createHash("sha256")
+    .update(JSON.stringify(query))
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor | undefined {
+  try {
+    const parsed = CursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    );
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Cut one page out of a full list result.
+ *
+ * Cursors are opaque to callers and bound to the query they came from:
+ * a cursor passed with different arguments is rejected.
+ *
+ * @param items - The whole result, in API order
+ * @param request - limit/cursor from the tool input
+ * @param query - The tool name and the arguments that select the result
+ */
+export function paginate<T extends { oid: string }>(
+  items: T[],
+  request: PageRequest,
+  query: object
+): PageResult<T> {
+  if (request.limit === undefined && request.cursor === undefined) {
+    return {
+      success: true,
+      page: { items, total: items.length, offset: 0, paginated: false },
+    };
+  }
+
+  const queryHash = hashQuery(query);
+  let start = 0;
+  let limit = request.limit;
+  if (request.cursor !== undefined) {
+    const cursor = decodeCursor(request.cursor);
+    if (!cursor) {
+      return { success: false, error: "Invalid cursor" };
+    }
+    if (cursor.query !== queryHash) {
+      return {
+        success: false,
+        error:
+          "Cursor was issued for different arguments. " +
+          "Repeat the call without a cursor to start over.",
+      };
+    }
+    const index = items.findIndex((item) => item.oid === cursor.after);
+    start = index >= 0 ? index + 1 : Math.min(cursor.offset, items.length);
+    limit ??= cursor.limit;
+  }
+  limit ??= items.length;
+
+  const pageItems = items.slice(start, start + limit);
+  const end = start + pageItems.length;
+  const last = pageItems.at(-1);
+  const page: Page<T> = {
+    items: pageItems,
+    total: items.length,
+    offset: start,
+    paginated: true,
+  };
+  if (last && end < items.length) {
+    page.nextCursor = encodeCursor({
+      query: queryHash,
+      after: last.oid,
+      offset: end,
+      limit,
+    });
+  }
+  return { success: true, page };
+}
+
+/**
+ * Describe where a page sits in the whole result
+ */
+export function formatPageSummary(page: Page<unknown>, noun: string): string {
+  const summary =
+    page.items.length === 0
+      ? `Showing 0 of ${String(page.total)} ${noun}.`
+      : `Showing ${noun} ${String(page.offset + 1)}-` +
+        `${String(page.offset + page.items.length)} of ${String(page.total)}.`;
+  return page.nextCursor
+    ? `${summary} Pass cursor "${page.nextCursor}" to get the next page.`
+    : `${summary} No more results.`;
+}
+
+/**
+ * Format one page of a list result with the requested shape.
+ *
+ * Structured content holds the page under `key` along with the total and
+ * the next cursor. When the call was paginated, a second text block
+ * summarizes the page so the items text keeps its usual form.
+ *
+ * @param page - Page returned by paginate
+ * @param key - Name of the array in structured content, e.g. "tasks"
+ * @param resource - Resource type, selects the compact field set
+ * @param shape - format/fields from the tool input
+ */
+export function formatPage(
+  page: Page<object>,
+  key: string,
+  resource: ShapedResource,
+  shape: ResponseShape
+): ToolSuccessResponse {
+  const response = formatProjected(page.items, resource, shape, (items) => ({
+    [key]: items,
+    total: page.total,
+    ...(page.nextCursor !== undefined && { nextCursor: page.nextCursor }),
+  }));
+  if (!page.paginated) {
+    return response;
+  }
+  return {
+    ...response,
+    content: [
+      ...response.content,
+      { type: "text" as const, text: formatPageSummary(page, key) },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Response Cache
+// ---------------------------------------------------------------------------
+
+/**
+ * Input schema field for read tools backed by the response cache.
+ * Spread into a tool's inputSchema object.
+ */
+export const freshReadSchema = {
+  fresh: z
+    .boolean()
+    .optional()
+    .describe(
+      "Bypass the response cache and read current data from Quire " +
+        "(default: false)"
+    ),
+};
+
+/**
+ * Get the client to read with: one that bypasses the cache if fresh is set
+ */
+export function readClient(
+  client: QuireClient,
+  fresh: boolean | undefined
+): QuireClient {
+  return fresh ? client.fresh() : client;
+}
+
+// ---------------------------------------------------------------------------
+// Local Mirror
+// ---------------------------------------------------------------------------
+
+/**
+ * Input schema fields for read tools that can answer from the local
+ * mirror. Includes `fresh`. Spread into a tool's inputSchema object.
+ */
+export const sourceReadSchema = {
+  ...freshReadSchema,
+  source: z
+    .enum(["live", "mirror"])
+    .optional()
+    .describe(
+      "'mirror' answers from the local SQLite mirror (see " +
+        "quire.syncMirror) instead of the Quire API; default: 'live'"
+    ),
+};
+
+/**
+ * Get the local mirror, failing if it is not enabled
+ */
+export function requireMirror():
+  | { success: true; mirror: QuireMirror }
+  | { success: false; response: ToolErrorResponse } {
+  const mirror = getSharedMirror();
+  if (!mirror) {
+    return {
+      success: false,
+      response: formatValidationError(
+        "The local mirror is not enabled. Set QUIRE_MIRROR_PATH " +
+          "(stdio mode) to keep one."
+      ),
+    };
+  }
+  return { success: true, mirror };
+}
+
+/**
+ * Get the client to read with for a tool with sourceReadSchema: a mirror
+ * client if source is 'mirror', else as readClient. Fails if the mirror
+ * is not enabled or has never been synced.
+ */
+export function sourceReadClient(
+  client: QuireClient,
+  {
+    fresh,
+    source,
+  }: { fresh: boolean | undefined; source: "live" | "mirror" | undefined }
+):
+  | { success: true; client: QuireClient }
+  | { success: false; response: ToolErrorResponse } {
+  if (source !== "mirror") {
+    return { success: true, client: readClient(client, fresh) };
+  }
+  const enabled = requireMirror();
+  if (!enabled.success) {
+    return enabled;
+  }
+  const { mirror } = enabled;
+  if (mirror.getSyncedAt() === undefined) {
+    return {
+      success: false,
+      response: formatValidationError(
+        "The local mirror has not been synced yet. Run quire.syncMirror first."
+      ),
+    };
+  }
+  return { success: true, client: createMirrorClient(client, mirror) };
+}
+
+/**
+ * Describe how current an answer from the mirror is
+ */
+export function formatMirrorFreshness(freshness: MirrorFreshness): string {
+  return (
+    `_From the local mirror, synced ${freshness.syncedAt} ` +
+    `(${String(freshness.ageMinutes)} minutes ago)._`
+  );
+}
+
+/**
+ * Add a note on the mirror's freshness to a response, and `mirror` to its
+ * structured content, if the client read from the mirror
+ */
+export function withMirrorFreshness(
+  response: ToolSuccessResponse,
+  client: QuireClient
+): ToolSuccessResponse {
+  const freshness = getMirrorFreshness(client);
+  if (!freshness) {
+    return response;
+  }
+  return {
+    ...response,
+    content: [
+      ...response.content,
+      { type: "text" as const, text: formatMirrorFreshness(freshness) },
+    ],
+    ...(response.structuredContent && {
+      structuredContent: { ...response.structuredContent, mirror: freshness },
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Task Trees
+// ---------------------------------------------------------------------------
+
+/**
+ * All tasks of a task tree without their children, parents before their
+ * subtasks. For tools that evaluate a project's tasks as a flat list.
+ */
+export function flattenTaskTree(nodes: QuireTaskTreeNode[]): QuireTask[] {
+  return nodes.flatMap(({ children, ...task }) => [
+    task,
+    ...flattenTaskTree(children),
+  ]);
 }
 
 // ---------------------------------------------------------------------------
@@ -9,7 +9,14 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getQuireClient } from "../quire/client-factory.js";
-import { formatError, formatAuthError, formatSuccess } from "./utils.js";
+import { QuireUserSchema } from "../quire/schemas.js";
+import {
+  formatError,
+  formatAuthError,
+  formatSuccess,
+  freshReadSchema,
+  readClient,
+} from "./utils.js";
 
 /**
  * Register the quire.whoami tool
@@ -22,18 +29,20 @@ export function registerWhoamiTool(server: McpServer): void {
         "Get the current authenticated user's profile from Quire. " +
         "Use this to verify your authentication is working and to see " +
         "basic information about the connected Quire account.",
-      inputSchema: z.object({}),
+      inputSchema: z.object({ ...freshReadSchema }),
+      outputSchema: QuireUserSchema,
       annotations: {
         readOnlyHint: true,
       },
     },
-    async (_args, extra) => {
+    async ({ fresh }, extra) => {
       const clientResult = await getQuireClient(extra);
       if (!clientResult.success) {
         return formatAuthError(clientResult.error);
       }
+      const client = readClient(clientResult.client, fresh);
 
-      const userResult = await clientResult.client.getMe();
+      const userResult = await client.getMe();
       if (!userResult.success) {
         return formatError(userResult.error, "user");
       }
@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  computeWorkload,
+  formatWorkloadTable,
+  registerWorkloadReportTool,
+} from "./workload.js";
+import {
+  createMockExtra,
+  createMockClient,
+  mockErrors,
+  extractTextContent,
+  isErrorResponse,
+} from "./__test-utils__.js";
+import type { QuireClient } from "../quire/client.js";
+import type { QuireTask, QuireTaskTreeNode } from "../quire/types.js";
+import type { DateInputOptions } from "../utils/dates.js";
+
+vi.mock("../quire/client-factory.js", () => ({
+  getQuireClient: vi.fn(),
+}));
+
+import { getQuireClient } from "../quire/client-factory.js";
+
+// Monday 19 October 2026
+const options: DateInputOptions = {
+  timeZone: "Europe/Paris",
+  weekStart: 1,
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+const ann = { id: "ann", name: "Ann" };
+const bob = { id: "bob", name: "Bob" };
+
+function task(id: number, fields: Partial<QuireTask> = {}): QuireTask {
+  return { oid: `t${String(id)}`, id, name: `Task ${String(id)}`, ...fields };
+}
+
+describe("computeWorkload", () => {
+  it("should count open, overdue and weekly due tasks per member", () => {
+    const workload = computeWorkload(
+      [
+        task(1, { assignees: [ann], due: "2026-10-12", etc: 3 }),
+        task(2, { assignees: [ann, bob], due: "2026-10-19", etc: 2 }),
+        task(3, { assignees: [ann], due: "2026-10-27" }),
+        task(4, { assignees: [ann], due: "2026-12-01" }),
+        task(5, { assignees: [ann] }),
+        task(6, { assignees: [ann], status: { value: 100, name: "Done" } }),
+        task(7, { due: "2026-10-25" }),
+        task(8, { assignees: [{ id: "eve", name: "Eve" }] }),
+      ],
+      [bob, ann, { id: "cid", name: "Cid" }],
+      2,
+      options
+    );
+
+    expect(workload.today).toBe("2026-10-19");
+    expect(workload.weekStarts).toEqual(["2026-10-19", "2026-10-26"]);
+    expect(workload.members.map((m) => m.id)).toEqual([
+      "ann",
+      "bob",
+      "eve",
+      "cid",
+    ]);
+    expect(workload.members[0]).toEqual({
+      id: "ann",
+      name: "Ann",
+      open: 5,
+      overdue: 1,
+      dueByWeek: [1, 1],
+      later: 1,
+      noDueDate: 1,
+      estimate: 5,
+      estimatedTasks: 2,
+    });
+    expect(workload.members[1]).toMatchObject({ open: 1, dueByWeek: [1, 0] });
+    expect(workload.members[3]).toMatchObject({ open: 0 });
+    expect(workload.unassigned).toMatchObject({ open: 1, dueByWeek: [1, 0] });
+  });
+});
+
+describe("formatWorkloadTable", () => {
+  it("should render one row per member and unassigned tasks", () => {
+    const workload = computeWorkload(
+      [task(1, { assignees: [ann], etc: 4 }), task(2, { due: "2026-10-20" })],
+      [ann],
+      2,
+      options
+    );
+
+    expect(formatWorkloadTable(workload)).toBe(
+      [
+        "| Member | Open | Overdue | This week | Week of 2026-10-26 | Later | No due date | Estimate |",
+        "| --- | --- | --- | --- | --- | --- | --- | --- |",
+        "| Ann | 1 | 0 | 0 | 0 | 0 | 1 | 4 (1 tasks) |",
+        "| (unassigned) | 1 | 0 | 1 | 0 | 0 | 0 |  |",
+      ].join("\n")
+    );
+  });
+});
+
+describe("quire.workloadReport tool", () => {
+  let server: McpServer;
+  let handler: (
+    params: Record<string, unknown>,
+    extra: unknown
+  ) => Promise<unknown>;
+  let getTaskTree: ReturnType<typeof vi.fn>;
+
+  const roots: QuireTaskTreeNode[] = [
+    {
+      ...task(1, { assignees: [ann], tags: [{ id: 5, name: "bug" }] }),
+      children: [{ ...task(2, { assignees: [ann] }), children: [] }],
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-10-19T10:00:00Z") });
+    vi.stubEnv("QUIRE_TIMEZONE", "Europe/Paris");
+
+    server = {
+      registerTool: vi.fn(
+        (_name: string, _config: unknown, callback: typeof handler) => {
+          handler = callback;
+        }
+      ),
+    } as unknown as McpServer;
+    registerWorkloadReportTool(server);
+
+    getTaskTree = vi.fn().mockResolvedValue({
+      success: true,
+      data: { roots, nodeCount: 2, truncated: false },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  async function callTool(
+    params: Record<string, unknown>,
+    overrides?: Partial<QuireClient>
+  ): Promise<{
+    isError?: boolean;
+    content: { type: string; text?: string }[];
+    structuredContent?: Record<string, unknown>;
+  }> {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: true,
+      client: createMockClient({
+        listProjectMembers: () =>
+          Promise.resolve({
+            success: true,
+            data: [{ ...ann, oid: "U1" }],
+          }),
+        getTaskTree: getTaskTree as QuireClient["getTaskTree"],
+        ...overrides,
+      }),
+    });
+    return (await handler(
+      { projectId: "web", ...params },
+      createMockExtra({ quireToken: "token" })
+    )) as Awaited<ReturnType<typeof callTool>>;
+  }
+
+  it("should register the quire.workloadReport tool", () => {
+    expect(server.registerTool).toHaveBeenCalledWith(
+      "quire.workloadReport",
+      expect.objectContaining({ annotations: { readOnlyHint: true } }),
+      expect.any(Function)
+    );
+  });
+
+  it("should report the workload of the project's subtasks too", async () => {
+    const result = await callTool({ weeks: 1 });
+
+    expect(getTaskTree).toHaveBeenCalledWith("web", undefined);
+    expect(extractTextContent(result)).toContain(
+      "| Ann | 2 | 0 | 0 | 0 | 2 |  |"
+    );
+    expect(result.structuredContent).toMatchObject({
+      projectId: "web",
+      timeZone: "Europe/Paris",
+      weekStarts: ["2026-10-19"],
+      members: [{ id: "ann", open: 2 }],
+      scanned: 2,
+      truncated: false,
+    });
+  });
+
+  it("should filter by tag", async () => {
+    const result = await callTool({ tag: "#bug", maxNodes: 10 }, {
+      listTags: () =>
+        Promise.resolve({
+          success: true,
+          data: [{ oid: "G5", id: 5, name: "bug" }],
+        }),
+    } as Partial<QuireClient>);
+
+    expect(getTaskTree).toHaveBeenCalledWith("web", { maxNodes: 10 });
+    expect(result.structuredContent).toMatchObject({
+      members: [{ id: "ann", open: 1 }],
+      scanned: 2,
+    });
+  });
+
+  it("should scan a sublist given by ID or OID", async () => {
+    const getSublist = vi.fn().mockResolvedValue({
+      success: true,
+      data: { oid: "S1", id: "sprint-1", name: "Sprint 1" },
+    });
+
+    await callTool({ sublist: "sprint-1" }, { getSublist });
+    expect(getSublist).toHaveBeenCalledWith("project", "web", "sprint-1");
+    expect(getTaskTree).toHaveBeenLastCalledWith("S1", undefined);
+
+    await callTool({ sublist: "XyZ123abcDEF456ghi789jk" }, { getSublist });
+    expect(getSublist).toHaveBeenCalledTimes(1);
+    expect(getTaskTree).toHaveBeenLastCalledWith(
+      "XyZ123abcDEF456ghi789jk",
+      undefined
+    );
+  });
+
+  it("should note truncated task trees", async () => {
+    getTaskTree.mockResolvedValueOnce({
+      success: true,
+      data: { roots, nodeCount: 2, truncated: true, limitReached: "maxNodes" },
+    });
+
+    const result = await callTool({});
+
+    expect(result.content[0]?.text).toContain(
+      "Only the first 2 tasks were scanned"
+    );
+  });
+
+  it("should return errors from Quire", async () => {
+    const failures: Partial<QuireClient>[] = [
+      { getSublist: () => Promise.resolve(mockErrors.notFound()) },
+      { listProjectMembers: () => Promise.resolve(mockErrors.forbidden()) },
+      { getTaskTree: () => Promise.resolve(mockErrors.serverError()) },
+    ];
+
+    for (const overrides of failures) {
+      const result = await callTool({ sublist: "sprint-1" }, overrides);
+      expect(isErrorResponse(result)).toBe(true);
+    }
+  });
+
+  it("should not read sublists from the local mirror", async () => {
+    const result = await callTool({ sublist: "sprint-1", source: "mirror" });
+
+    expect(extractTextContent(result)).toContain(
+      "Sublists are not mirrored; read them with source 'live'."
+    );
+    expect(getTaskTree).not.toHaveBeenCalled();
+  });
+
+  it("should return error for an unknown tag", async () => {
+    const result = await callTool({ tag: "bug" });
+
+    expect(isErrorResponse(result)).toBe(true);
+    expect(getTaskTree).not.toHaveBeenCalled();
+  });
+
+  it("should return error on authentication failure", async () => {
+    vi.mocked(getQuireClient).mockResolvedValueOnce({
+      success: false,
+      error: "No token",
+    });
+
+    const result = (await handler({ projectId: "web" }, createMockExtra())) as {
+      isError?: boolean;
+      content: { type: string; text?: string }[];
+    };
+
+    expect(isErrorResponse(result)).toBe(true);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * quire.workloadReport Tool
+ *
+ * Shows who is overloaded in a project: for every member, the open tasks
+ * assigned to them, how many are overdue, how many fall due in each of the
+ * coming weeks, and the sum of their time estimates. Built from the
+ * project's members and task tree, optionally narrowed to a tag or sublist.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { WORKLOAD_DEFAULT_WEEKS, WORKLOAD_MAX_WEEKS } from "../constants.js";
+import { isOid, type QuireClient } from "../quire/client.js";
+import { getQuireClient } from "../quire/client-factory.js";
+import type { QuireResult, QuireTask, QuireUser } from "../quire/types.js";
+import {
+  getDateInputOptions,
+  parseDateInput,
+  toLocalDate,
+  type DateInputOptions,
+} from "../utils/dates.js";
+import {
+  formatError,
+  formatAuthError,
+  formatMarkdownTable,
+  formatMessage,
+  formatValidationError,
+  flattenTaskTree,
+  sourceReadSchema,
+  sourceReadClient,
+  withMirrorFreshness,
+} from "./utils.js";
+import { mirrorOutputFields } from "./output-schemas.js";
+import { NameResolver, tagRefSchema } from "./resolver.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Open task load of one member, or of unassigned tasks
+ */
+interface WorkloadCounts {
+  open: number;
+  overdue: number;
+  /** Open tasks due in each week, starting with the current week */
+  dueByWeek: number[];
+  /** Open tasks due after the last reported week */
+  later: number;
+  noDueDate: number;
+  /** Sum of `etc` over open tasks that have one */
+  estimate: number;
+  estimatedTasks: number;
+}
+
+interface WorkloadRow extends WorkloadCounts {
+  id: string;
+  name: string;
+}
+
+/**
+ * Workload of a set of tasks per member
+ */
+interface Workload {
+  today: string;
+  /** First day of each reported week */
+  weekStarts: string[];
+  members: WorkloadRow[];
+  unassigned: WorkloadCounts;
+}
+
+const WorkloadCountsSchema = z.object({
+  open: z.number(),
+  overdue: z.number(),
+  dueByWeek: z.array(z.number()),
+  later: z.number(),
+  noDueDate: z.number(),
+  estimate: z.number(),
+  estimatedTasks: z.number(),
+});
+
+/**
+ * Structured output: the workload per member
+ */
+const WorkloadOutputSchema = z.object({
+  projectId: z.string(),
+  timeZone: z.string(),
+  today: z.string(),
+  weekStarts: z.array(z.string()),
+  members: z.array(
+    WorkloadCountsSchema.extend({ id: z.string(), name: z.string() })
+  ),
+  unassigned: WorkloadCountsSchema,
+  /** Tasks in the fetched tree, before the tag filter */
+  scanned: z.number(),
+  truncated: z.boolean(),
+  ...mirrorOutputFields,
+});
+
+function emptyCounts(weeks: number): WorkloadCounts {
+  return {
+    open: 0,
+    overdue: 0,
+    dueByWeek: new Array<number>(weeks).fill(0),
+    later: 0,
+    noDueDate: 0,
+    estimate: 0,
+    estimatedTasks: 0,
+  };
+}
+
+/**
+ * Resolve a relative date that is known to parse
+ */
+function resolveDay(input: string, options: DateInputOptions): string {
+  const result = parseDateInput(input, options);
+  return result.success ? result.value : input;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Add one open task to a member's counts
+ */
+function addTask(
+  counts: WorkloadCounts,
+  task: QuireTask,
+  today: string,
+  weekStart: string,
+  options: DateInputOptions
+): void {
+  counts.open++;
+  if (task.etc !== undefined) {
+    counts.estimate += task.etc;
+    counts.estimatedTasks++;
+  }
+
+  const due = task.due && toLocalDate(task.due, options.timeZone);
+  if (!due) {
+    counts.noDueDate++;
+  } else if (due < today) {
+    counts.overdue++;
+  } else {
+    const week = Math.floor(daysBetween(weekStart, due) / 7);
+    if (week < counts.dueByWeek.length) {
+      counts.dueByWeek[week] = (counts.dueByWeek[week] ?? 0) + 1;
+    } else {
+      counts.later++;
+    }
+  }
+}
+
+/**
+ * Count the open tasks of each member. Tasks with several assignees count
+ * for each of them; assignees who are not project members get a row too.
+ * Members are ordered by open task count, busiest first.
+ */
+/** @internal Exported for testing */
+export function computeWorkload(
+  tasks: QuireTask[],
+  members: Pick<QuireUser, "id" | "name">[],
+  weeks: number,
+  options: DateInputOptions
+): Workload {
+  const today = resolveDay("today", options);
+  const weekStart = resolveDay("this week", options);
+  const weekStarts = Array.from({ length: weeks }, (_, i) =>
+    new Date(Date.parse(weekStart) + i * 7 * DAY_MS).toISOString().slice(0, 10)
+  );
+
+  const rows = new Map<string, WorkloadRow>();
+  const rowFor = (user: { id: string; name: string }): WorkloadRow => {
+    let row = rows.get(user.id);
+    if (!row) {
+      row = { id: user.id, name: user.name, ...emptyCounts(weeks) };
+      rows.set(user.id, row);
+    }
+    return row;
+  };
+  members.forEach(rowFor);
+  const unassigned = emptyCounts(weeks);
+
+  for (const task of tasks) {
+    if ((task.status?.value ?? 0) >= 100) continue;
+    const assignees = task.assignees ?? [];
+    if (assignees.length === 0) {
+      addTask(unassigned, task, today, weekStart, options);
+    }
+    for (const user of assignees) {
+      addTask(rowFor(user), task, today, weekStart, options);
+    }
+  }
+
+  return {
+    today,
+    weekStarts,
+    members: [...rows.values()].sort(
+      (a, b) => b.open - a.open || a.name.localeCompare(b.name)
+    ),
+    unassigned,
+  };
+}
+
+/**
+ * Render the workload as a Markdown table with one row per member
+ */
+/** @internal Exported for testing */
+export function formatWorkloadTable(workload: Workload): string {
+  const weekColumns = workload.weekStarts.map((start, i) =>
+    i === 0 ? "This week" : `Week of ${start}`
+  );
+  const columns = [
+    "Member",
+    "Open",
+    "Overdue",
+    ...weekColumns,
+    "Later",
+    "No due date",
+    "Estimate",
+  ];
+  const toRow = (name: string, counts: WorkloadCounts): unknown => {
+    const row: Record<string, unknown> = {
+      Member: name,
+      Open: counts.open,
+      Overdue: counts.overdue,
+      Later: counts.later,
+      "No due date": counts.noDueDate,
+      Estimate:
+        counts.estimatedTasks > 0
+          ? `${String(counts.estimate)} (${String(counts.estimatedTasks)} tasks)`
+          : "",
+    };
+    weekColumns.forEach((column, i) => {
+      row[column] = counts.dueByWeek[i];
+    });
+    return row;
+  };
+
+  const rows = workload.members.map((member) => toRow(member.name, member));
+  if (workload.unassigned.open > 0) {
+    rows.push(toRow("(unassigned)", workload.unassigned));
+  }
+  return formatMarkdownTable(rows, columns);
+}
+
+/**
+ * Find the OID of a sublist given by ID or OID
+ */
+async function resolveSublist(
+  client: QuireClient,
+  projectId: string,
+  ref: string
+): Promise<QuireResult<string>> {
+  if (isOid(ref)) {
+    return { success: true, data: ref };
+  }
+  const sublist = await client.getSublist("project", projectId, ref);
+  return sublist.success ? { success: true, data: sublist.data.oid } : sublist;
+}
+
+/**
+ * Register the quire.workloadReport tool with the MCP server
+ */
+export function registerWorkloadReportTool(server: McpServer): void {
+  server.registerTool(
+    "quire.workloadReport",
+    {
+      description:
+        "Report the workload of each member of a project: open tasks, " +
+        "overdue tasks, open tasks due in each of the coming weeks, and " +
+        "the sum of task time estimates (etc). Returns a Markdown table " +
+        "and structured data. Can be limited to a tag or a sublist.",
+      inputSchema: z.object({
+        projectId: z
+          .string()
+          .describe("The project ID (e.g., 'my-project'), OID or name"),
+        tag: tagRefSchema
+          .optional()
+          .describe("Only count tasks with this tag (ID or name)"),
+        sublist: z
+          .string()
+          .optional()
+          .describe("Only count tasks in this sublist (ID or OID)"),
+        weeks: z
+          .number()
+          .int()
+          .min(1)
+          .max(WORKLOAD_MAX_WEEKS)
+          .optional()
+          .describe(
+            "Number of weeks of upcoming due dates, starting with the " +
+              `current week (default: ${String(WORKLOAD_DEFAULT_WEEKS)})`
+          ),
+        maxNodes: z
+          .number()
+          .int()
+          .min(1)
+          .max(5000)
+          .optional()
+          .describe("Maximum number of tasks to scan (default: 500)"),
+        ...sourceReadSchema,
+      }),
+      outputSchema: WorkloadOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async (
+      { projectId, tag, sublist, weeks, maxNodes, fresh, source },
+      extra
+    ) => {
+      if (sublist !== undefined && source === "mirror") {
+        return formatValidationError(
+          "Sublists are not mirrored; read them with source 'live'."
+        );
+      }
+      const clientResult = await getQuireClient(extra);
+      if (!clientResult.success) {
+        return formatAuthError(clientResult.error);
+      }
+      const reader = sourceReadClient(clientResult.client, { fresh, source });
+      if (!reader.success) {
+        return reader.response;
+      }
+      const client = reader.client;
+
+      const resolver = new NameResolver(client);
+      const project = await resolver.project(projectId);
+      if (!project.success) {
+        return project.response;
+      }
+      let tagId: number | undefined;
+      if (tag !== undefined) {
+        const tags = await resolver.tags(project.data, [tag]);
+        if (!tags.success) {
+          return tags.response;
+        }
+        tagId = tags.data[0];
+      }
+
+      // A sublist OID lists the sublist's tasks in place of the project's
+      let root = project.data;
+      if (sublist !== undefined) {
+        const sublistOid = await resolveSublist(client, project.data, sublist);
+        if (!sublistOid.success) {
+          return formatError(sublistOid.error, "sublist");
+        }
+        root = sublistOid.data;
+      }
+
+      const members = await client.listProjectMembers(project.data);
+      if (!members.success) {
+        return formatError(members.error, "user");
+      }
+      const tree = await client.getTaskTree(
+        root,
+        maxNodes === undefined ? undefined : { maxNodes }
+      );
+      if (!tree.success) {
+        return formatError(tree.error, "task");
+      }
+
+      const tasks = flattenTaskTree(tree.data.roots).filter(
+        (task) => tagId === undefined || task.tags?.some((t) => t.id === tagId)
+      );
+      const options = getDateInputOptions();
+      const workload = computeWorkload(
+        tasks,
+        members.data,
+        weeks ?? WORKLOAD_DEFAULT_WEEKS,
+        options
+      );
+
+      const notes = [formatWorkloadTable(workload)];
+      if (tree.data.truncated) {
+        notes.push(
+          `_Only the first ${String(tree.data.nodeCount)} tasks were ` +
+            "scanned. Raise maxNodes to include the rest._"
+        );
+      }
+      return withMirrorFreshness(
+        formatMessage(notes.join("\n\n"), {
+          projectId: project.data,
+          timeZone: options.timeZone,
+          ...workload,
+          scanned: tree.data.nodeCount,
+          truncated: tree.data.truncated,
+        }),
+        client
+      );
+    }
+  );
+}
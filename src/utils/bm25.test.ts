@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { Bm25Index, makeSnippet, tokenize } from "./bm25.js";
+
+interface Doc {
+  id: string;
+  title: string;
+  text: string;
+}
+
+function doc(id: string, title: string, text = ""): Doc {
+  return { id, title, text };
+}
+
+function ids(indexes: Bm25Index<Doc>[], query: string): string[] {
+  return Bm25Index.search(indexes, query, { limit: 10 }).hits.map(
+    (hit) => hit.document.id
+  );
+}
+
+describe("tokenize", () => {
+  it("should split text into lowercase words without diacritics", () => {
+    expect(tokenize("Café menu: v2-launch, NAÏVE.")).toEqual([
+      "cafe",
+      "menu",
+      "v2",
+      "launch",
+      "naive",
+    ]);
+    expect(tokenize(" … ")).toEqual([]);
+  });
+});
+
+describe("makeSnippet", () => {
+  it("should highlight matches in the text", () => {
+    expect(
+      makeSnippet(
+        doc("1", "Launch", "Ship the release, then relax."),
+        "release"
+      )
+    ).toBe("Ship the **release**, then relax.");
+  });
+
+  it("should fall back to the title when the text does not match", () => {
+    expect(makeSnippet(doc("1", "Release plan", "Dates TBD"), "release")).toBe(
+      "**Release** plan"
+    );
+    expect(makeSnippet(doc("1", "Plan", "Dates TBD"), "release")).toBe(
+      "Dates TBD"
+    );
+    expect(makeSnippet(doc("1", "", ""), "release")).toBe("");
+  });
+
+  it("should cut long text around the first match", () => {
+    const words = Array.from({ length: 60 }, (_, i) => `w${String(i)}`);
+    words[30] = "Target";
+
+    expect(makeSnippet(doc("1", "", words.join(" ")), "targ*")).toBe(
+      `…${words.slice(24, 30).join(" ")} **Target** ${words.slice(31, 48).join(" ")}…`
+    );
+  });
+});
+
+describe("Bm25Index", () => {
+  const index = new Bm25Index([
+    doc("a", "Launch website", "Coordinate the release with marketing"),
+    doc("b", "Retro", "Notes from the launch retro"),
+    doc("c", "Release notes", "Draft the release notes for the launch"),
+    doc("d", "Budget", "Plan next year"),
+  ]);
+
+  it("should rank documents by BM25 score", () => {
+    // Title words count double, and "release" is rarer than "launch"
+    expect(ids([index], "release")).toEqual(["c", "a"]);
+    expect(ids([index], "launch release")).toEqual(["c", "a", "b"]);
+  });
+
+  it("should match prefixes and ignore case and diacritics", () => {
+    expect(ids([index], "BÚDG*")).toEqual(["d"]);
+    expect(ids([index], "relea")).toEqual([]);
+  });
+
+  it("should limit and filter hits and count all matches", () => {
+    const result = Bm25Index.search([index], "launch", {
+      limit: 1,
+      filter: (document) => document.id !== "a",
+    });
+
+    expect(result.total).toBe(2);
+    expect(result.hits).toHaveLength(1);
+    expect(result.hits[0]?.score).toBeGreaterThan(0);
+    expect(result.hits[0]?.snippet).toContain("**launch**");
+  });
+
+  it("should rank several indexes on one scale", () => {
+    const other = new Bm25Index([doc("e", "Launch party"), doc("f", "Launch")]);
+
+    expect(ids([index, other], "launch")).toEqual(["f", "e", "a", "b", "c"]);
+    expect(ids([other, index], "party budget budget")).toEqual(["e", "d"]);
+    expect(index.size + other.size).toBe(6);
+  });
+
+  it("should return nothing for empty queries and indexes", () => {
+    expect(Bm25Index.search([index], " * ", { limit: 10 })).toEqual({
+      hits: [],
+      total: 0,
+    });
+    expect(ids([new Bm25Index<Doc>([])], "launch")).toEqual([]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * BM25 Full-Text Index
+ *
+ * In-memory index ranking documents by Okapi BM25. Words are lowercased
+ * and stripped of diacritics, and title words count double. Indexes built
+ * separately (e.g., one per project) can be searched together: term
+ * statistics are pooled across them so every document is ranked on the
+ * same scale.
+ */
+
+/** Term frequency saturation */
+const K1 = 1.2;
+
+/** Document length normalization */
+const B = 0.75;
+
+/** How much more a word in a document's title counts than one in its text */
+const TITLE_WEIGHT = 2;
+
+/** Number of words in a snippet */
+const SNIPPET_WORDS = 24;
+
+/** Words of context shown before the first match in a snippet */
+const SNIPPET_LEAD_WORDS = 6;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Text a document is indexed by
+ */
+export interface Bm25Document {
+  title: string;
+  text: string;
+}
+
+/**
+ * A ranked match
+ */
+export interface Bm25Hit<T> {
+  document: T;
+  score: number;
+  /** Excerpt around the first match, with matched words in **bold** */
+  snippet: string;
+}
+
+/**
+ * Options for a search
+ */
+export interface Bm25SearchOptions<T> {
+  /** Maximum number of hits returned */
+  limit: number;
+  /** Only return documents this accepts */
+  filter?: (document: T) => boolean;
+}
+
+interface QueryTerm {
+  term: string;
+  /** Match every word starting with the term */
+  prefix: boolean;
+}
+
+interface Posting<T> {
+  document: T;
+  /** Position of the document in its index */
+  position: number;
+  /** Weighted number of words in the document */
+  length: number;
+  frequency: number;
+}
+
+function normalize(word: string): string {
+  return word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Split text into lowercase words without diacritics
+ */
+export function tokenize(text: string): string[] {
+  return Array.from(normalize(text).matchAll(WORD), (match) => match[0]);
+}
+
+/**
+ * Parse a query into terms. A word ending in '*' matches every word
+ * starting with it.
+ */
+function parseQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  for (const word of query.split(/\s+/)) {
+    const words = tokenize(word);
+    words.forEach((term, index) => {
+      const prefix = index === words.length - 1 && word.endsWith("*");
+      if (!terms.some((t) => t.term === term && t.prefix === prefix)) {
+        terms.push({ term, prefix });
+      }
+    });
+  }
+  return terms;
+}
+
+function matchesTerm(word: string, terms: readonly QueryTerm[]): boolean {
+  return terms.some((t) =>
+    t.prefix ? word.startsWith(t.term) : word === t.term
+  );
+}
+
+/**
+ * Cut an excerpt of about SNIPPET_WORDS words around the first word that
+ * matches the query, from the text if it matches, else from the title
+ */
+/** @internal Exported for testing */
+export function makeSnippet(document: Bm25Document, query: string): string {
+  const terms = parseQuery(query);
+  const wordsOf = (text: string): RegExpExecArray[] => [...text.matchAll(WORD)];
+  const hasMatch = (words: RegExpExecArray[]): boolean =>
+    words.some((word) => matchesTerm(normalize(word[0]), terms));
+  const textWords = wordsOf(document.text);
+  const source =
+    hasMatch(textWords) || !hasMatch(wordsOf(document.title))
+      ? document.text
+      : document.title;
+  const words = source === document.text ? textWords : wordsOf(source);
+
+  const first = words.findIndex((word) =>
+    matchesTerm(normalize(word[0]), terms)
+  );
+  const start = Math.max(0, first - SNIPPET_LEAD_WORDS);
+  const end = Math.min(words.length, start + SNIPPET_WORDS);
+  let snippet = start > 0 ? "…" : "";
+  let position = words[start]?.index ?? 0;
+  for (const word of words.slice(start, end)) {
+    snippet += source.slice(position, word.index);
+    snippet += matchesTerm(normalize(word[0]), terms)
+      ? `**${word[0]}**`
+      : word[0];
+    position = word.index + word[0].length;
+  }
+  // Keep closing punctuation after the last word
+  snippet += end < words.length ? "…" : source.slice(position);
+  return snippet.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * BM25 index over a fixed set of documents
+ */
+export class Bm25Index<T extends Bm25Document> {
+  readonly documents: readonly T[];
+  private readonly postings = new Map<string, Posting<T>[]>();
+  private readonly totalLength: number;
+
+  constructor(documents: readonly T[]) {
+    this.documents = documents;
+    let totalLength = 0;
+    for (const [position, document] of documents.entries()) {
+      const frequencies = new Map<string, number>();
+      const count = (text: string, weight: number): void => {
+        for (const term of tokenize(text)) {
+          frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+        }
+      };
+      count(document.title, TITLE_WEIGHT);
+      count(document.text, 1);
+
+      let length = 0;
+      for (const frequency of frequencies.values()) {
+        length += frequency;
+      }
+      for (const [term, frequency] of frequencies) {
+        const posting = { document, position, length, frequency };
+        const postings = this.postings.get(term);
+        if (postings) {
+          postings.push(posting);
+        } else {
+          this.postings.set(term, [posting]);
+        }
+      }
+      totalLength += length;
+    }
+    this.totalLength = totalLength;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Indexed words a query term matches
+   */
+  private expand(term: QueryTerm): string[] {
+    if (!term.prefix) {
+      return this.postings.has(term.term) ? [term.term] : [];
+    }
+    return [...this.postings.keys()].filter((word) =>
+      word.startsWith(term.term)
+    );
+  }
+
+  /**
+   * Search several indexes as one, best matches first. Documents match if
+   * they contain any query word; those containing more of them, rarer
+   * ones, or containing them in their title rank higher. Ties keep index
+   * order.
+   */
+  static search<T extends Bm25Document>(
+    indexes: readonly Bm25Index<T>[],
+    query: string,
+    options: Bm25SearchOptions<T>
+  ): { hits: Bm25Hit<T>[]; total: number } {
+    const terms = parseQuery(query);
+    const documentCount = indexes.reduce((sum, index) => sum + index.size, 0);
+    if (terms.length === 0 || documentCount === 0) {
+      return { hits: [], total: 0 };
+    }
+    const averageLength =
+      indexes.reduce((sum, index) => sum + index.totalLength, 0) /
+      documentCount;
+
+    const words = new Set(
+      terms.flatMap((term) => indexes.flatMap((index) => index.expand(term)))
+    );
+    const scores = new Map<T, { score: number; order: number }>();
+    for (const word of words) {
+      const postings = indexes.map((index) => index.postings.get(word) ?? []);
+      const matching = postings.reduce((sum, list) => sum + list.length, 0);
+      const idf = Math.log(
+        1 + (documentCount - matching + 0.5) / (matching + 0.5)
+      );
+      let offset = 0;
+      for (const [i, list] of postings.entries()) {
+        for (const { document, position, length, frequency } of list) {
+          const weight =
+            (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * length) / averageLength));
+          const entry = scores.get(document) ?? {
+            score: 0,
+            order: offset + position,
+          };
+          entry.score += idf * weight;
+          scores.set(document, entry);
+        }
+        offset += indexes[i]?.size ?? 0;
+      }
+    }
+
+    const ranked = [...scores]
+      .filter(([document]) => options.filter?.(document) ?? true)
+      .sort(([, a], [, b]) => b.score - a.score || a.order - b.order);
+    return {
+      hits: ranked.slice(0, options.limit).map(([document, { score }]) => ({
+        document,
+        score,
+        snippet: makeSnippet(document, query),
+      })),
+      total: ranked.length,
+    };
+  }
+}
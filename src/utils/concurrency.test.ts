@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency.js";
+
+/**
+ * Resolve after the given number of macrotasks
+ */
+async function tick(count = 1): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+describe("mapWithConcurrency", () => {
+  it("should preserve input order in results", async () => {
+    const results = await mapWithConcurrency([3, 1, 2], 2, async (n) => {
+      await tick(n);
+      return n * 10;
+    });
+
+    expect(results).toEqual([30, 10, 20]);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it("should pass the item index", async () => {
+    const results = await mapWithConcurrency(["a", "b"], 4, (item, index) =>
+      Promise.resolve(`${item}${index}`)
+    );
+
+    expect(results).toEqual(["a0", "b1"]);
+  });
+
+  it("should treat limits below one as sequential", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+
+    expect(peak).toBe(1);
+  });
+
+  it("should return an empty array for no items", async () => {
+    const results = await mapWithConcurrency([], 3, () => Promise.resolve(1));
+
+    expect(results).toEqual([]);
+  });
+
+  it("should reject when an operation rejects", async () => {
+    await expect(
+      mapWithConcurrency([1], 1, () => Promise.reject(new Error("boom")))
+    ).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Bounded Concurrency Helper
+ *
+ * Runs async work over a list with at most `limit` operations in flight.
+ * Used by multi-request tools so a single call cannot flood the Quire API.
+ */
+
+/**
+ * Map over items with bounded concurrency, preserving input order in the
+ * results. A worker picks up the next item as soon as it finishes one, so a
+ * slow item does not hold back the rest of a batch.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of operations in flight (at least 1)
+ * @param fn - Async operation to run for each item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
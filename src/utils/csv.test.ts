@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "./csv.js";
+
+describe("parseCsv", () => {
+  it("should split rows and fields", () => {
+    expect(parseCsv("a,b,c\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("should handle quoted fields with commas, quotes and newlines", () => {
+    expect(parseCsv('name,notes\n"Task, one","Say ""hi""\nagain"')).toEqual([
+      ["name", "notes"],
+      ["Task, one", 'Say "hi"\nagain'],
+    ]);
+  });
+
+  it("should accept CRLF line endings", () => {
+    expect(parseCsv("a,b\r\n1,2\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("should keep empty fields and skip blank lines", () => {
+    expect(parseCsv("a,,c\n\n,,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("should return no rows for empty input", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+});
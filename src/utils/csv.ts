@@ -0,0 +1,56 @@
+/**
+ * CSV Parsing
+ *
+ * Minimal RFC 4180 parser: comma-separated fields, double-quoted fields
+ * with `""` escapes, and embedded newlines inside quotes. Accepts LF and
+ * CRLF line endings.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = (): void => {
+    row.push(field);
+    // A lone empty field means the line was blank
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (inQuotes) {
+      if (char === '"') {
+        if (text.charAt(i + 1) === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  getDateInputOptions,
+  parseDateInput,
+  toLocalDate,
+  type DateInputOptions,
+} from "./dates.js";
+
+// Monday 19 October 2026, 12:00 in Paris (CEST, UTC+2)
+const options: DateInputOptions = {
+  timeZone: "Europe/Paris",
+  weekStart: 1,
+  now: new Date("2026-10-19T10:00:00Z"),
+};
+
+function parse(
+  input: string,
+  overrides: Partial<DateInputOptions> = {}
+): string {
+  const result = parseDateInput(input, { ...options, ...overrides });
+  return result.success ? result.value : result.error;
+}
+
+describe("parseDateInput", () => {
+  it("should keep ISO dates and normalize ISO date-times to UTC", () => {
+    expect(parse("2024-12-31")).toBe("2024-12-31");
+    expect(parse("2024-12-31T17:00:00Z")).toBe("2024-12-31T17:00:00Z");
+    expect(parse("2024-12-31T17:00:00.250+02:00")).toBe("2024-12-31T15:00:00Z");
+    expect(parse("2024-12-31T17:00-0530")).toBe("2024-12-31T22:30:00Z");
+  });
+
+  it("should read ISO date-times without an offset in the time zone", () => {
+    // Paris is UTC+1 in winter
+    expect(parse("2024-12-31T17:00")).toBe("2024-12-31T16:00:00Z");
+    expect(parse("2024-12-31 17:00")).toBe("2024-12-31T16:00:00Z");
+  });
+
+  it("should resolve days relative to today", () => {
+    expect(parse("today")).toBe("2026-10-19");
+    expect(parse(" Tomorrow ")).toBe("2026-10-20");
+    expect(parse("yesterday")).toBe("2026-10-18");
+  });
+
+  it("should use today in the configured time zone", () => {
+    const lateEvening = new Date("2026-10-19T23:30:00Z");
+
+    expect(parse("today", { now: lateEvening })).toBe("2026-10-20");
+    expect(
+      parse("today", { now: lateEvening, timeZone: "America/New_York" })
+    ).toBe("2026-10-19");
+  });
+
+  it("should resolve offsets", () => {
+    expect(parse("+3d")).toBe("2026-10-22");
+    expect(parse("-1w")).toBe("2026-10-12");
+    expect(parse("+2m")).toBe("2026-12-19");
+    expect(parse("+1y")).toBe("2027-10-19");
+    expect(parse("in 2 weeks")).toBe("2026-11-02");
+    expect(parse("3 days ago")).toBe("2026-10-16");
+    expect(parse("in 1 month", { now: new Date("2026-01-31T10:00:00Z") })).toBe(
+      "2026-02-28"
+    );
+  });
+
+  it("should resolve hour and minute offsets to date-times", () => {
+    expect(parse("now")).toBe("2026-10-19T10:00:00Z");
+    expect(parse("+4h")).toBe("2026-10-19T14:00:00Z");
+    expect(parse("in 30 minutes")).toBe("2026-10-19T10:30:00Z");
+    expect(parse("+30min")).toBe("2026-10-19T10:30:00Z");
+  });
+
+  it("should resolve weekdays", () => {
+    expect(parse("friday")).toBe("2026-10-23");
+    expect(parse("this fri")).toBe("2026-10-23");
+    expect(parse("monday")).toBe("2026-10-19");
+    expect(parse("next friday")).toBe("2026-10-30");
+    expect(parse("next monday")).toBe("2026-10-26");
+    expect(parse("last friday")).toBe("2026-10-16");
+    expect(parse("last monday")).toBe("2026-10-12");
+  });
+
+  it("should place next weekdays in the week after this one", () => {
+    // With Sunday as week start, next week starts on the 25th
+    expect(parse("next sunday", { weekStart: 0 })).toBe("2026-10-25");
+    expect(parse("next sunday")).toBe("2026-11-01");
+  });
+
+  it("should resolve periods", () => {
+    expect(parse("next week")).toBe("2026-10-26");
+    expect(parse("this week")).toBe("2026-10-19");
+    expect(parse("end of week")).toBe("2026-10-25");
+    expect(parse("end of week", { weekStart: 0 })).toBe("2026-10-24");
+    expect(parse("start of month")).toBe("2026-10-01");
+    expect(parse("end of month")).toBe("2026-10-31");
+    expect(parse("end of next month")).toBe("2026-11-30");
+    expect(parse("beginning of last month")).toBe("2026-09-01");
+    expect(parse("next month")).toBe("2026-11-01");
+    expect(parse("next year")).toBe("2027-01-01");
+    expect(parse("end of year")).toBe("2026-12-31");
+  });
+
+  it("should resolve month and day, rolling past dates to next year", () => {
+    expect(parse("dec 31")).toBe("2026-12-31");
+    expect(parse("Oct 19")).toBe("2026-10-19");
+    expect(parse("jan 5")).toBe("2027-01-05");
+    expect(parse("31 December 2027")).toBe("2027-12-31");
+    expect(parse("March 3rd, 2025")).toBe("2025-03-03");
+  });
+
+  it("should apply a time in the configured time zone", () => {
+    expect(parse("tomorrow at 17:30")).toBe("2026-10-20T15:30:00Z");
+    expect(parse("5pm")).toBe("2026-10-19T15:00:00Z");
+    expect(parse("noon")).toBe("2026-10-19T10:00:00Z");
+    expect(parse("midnight")).toBe("2026-10-18T22:00:00Z");
+    expect(parse("dec 31 9:15am")).toBe("2026-12-31T08:15:00Z");
+    expect(parse("friday 12am")).toBe("2026-10-22T22:00:00Z");
+  });
+
+  it("should follow DST changes in the time zone", () => {
+    // Paris leaves summer time on 25 October 2026
+    expect(parse("next Friday 5pm")).toBe("2026-10-30T16:00:00Z");
+    expect(parse("2026-03-29 03:30")).toBe("2026-03-29T01:30:00Z");
+  });
+
+  it("should return empty input unchanged", () => {
+    expect(parseDateInput("  ", options)).toEqual({
+      success: true,
+      value: "  ",
+    });
+  });
+
+  it("should reject invalid dates and times", () => {
+    expect(parse("2024-02-30")).toBe('Invalid date or time "2024-02-30".');
+    expect(parse("2024-12-31T25:00")).toContain("Invalid date or time");
+    expect(parse("feb 30")).toContain("Invalid date or time");
+    expect(parse("tomorrow 13pm")).toContain("Invalid date or time");
+    expect(parse("24:00")).toContain("Invalid date or time");
+  });
+
+  it("should reject unrecognized input with the accepted forms", () => {
+    const error = parse("someday");
+
+    expect(error).toContain('Unrecognized date "someday"');
+    expect(error).toContain("next friday");
+    expect(parse("+3x")).toContain("Unrecognized date");
+    expect(parse("now 5pm")).toContain("Unrecognized date");
+    expect(parse("in 2 hours 5pm")).toContain("Unrecognized date");
+    expect(parse("week")).toContain("Unrecognized date");
+    expect(parse("may")).toContain("Unrecognized date");
+    expect(parse("fr")).toContain("Unrecognized date");
+  });
+});
+
+describe("toLocalDate", () => {
+  it("should return the day of a date-time in the time zone", () => {
+    expect(toLocalDate("2026-10-19", "Asia/Tokyo")).toBe("2026-10-19");
+    expect(toLocalDate("2026-10-19T22:30:00Z", "Europe/Paris")).toBe(
+      "2026-10-20"
+    );
+    expect(toLocalDate("2026-10-19T22:30:00Z", "America/New_York")).toBe(
+      "2026-10-19"
+    );
+    expect(toLocalDate("soon", "Europe/Paris")).toBeUndefined();
+  });
+});
+
+describe("getDateInputOptions", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const systemTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  it("should default to the system time zone and Monday", () => {
+    vi.stubEnv("QUIRE_TIMEZONE", "");
+    vi.stubEnv("QUIRE_WEEK_START", "");
+
+    expect(getDateInputOptions()).toEqual({
+      timeZone: systemTimeZone,
+      weekStart: 1,
+    });
+  });
+
+  it("should read QUIRE_TIMEZONE and QUIRE_WEEK_START", () => {
+    vi.stubEnv("QUIRE_TIMEZONE", "asia/tokyo");
+    vi.stubEnv("QUIRE_WEEK_START", "Sunday");
+
+    expect(getDateInputOptions()).toEqual({
+      timeZone: "Asia/Tokyo",
+      weekStart: 0,
+    });
+
+    vi.stubEnv("QUIRE_WEEK_START", "6");
+    expect(getDateInputOptions().weekStart).toBe(6);
+  });
+
+  it("should fall back on unknown values", () => {
+    vi.stubEnv("QUIRE_TIMEZONE", "Mars/Olympus_Mons");
+    vi.stubEnv("QUIRE_WEEK_START", "someday");
+
+    expect(getDateInputOptions()).toEqual({
+      timeZone: systemTimeZone,
+      weekStart: 1,
+    });
+  });
+});
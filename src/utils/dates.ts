@@ -0,0 +1,606 @@
+/**
+ * Date Input Parsing
+ *
+ * Turns the dates people write into the ISO dates the Quire API takes.
+ * Relative dates are resolved against the current time in a configured
+ * time zone (QUIRE_TIMEZONE) and week start (QUIRE_WEEK_START):
+ *
+ *   2024-12-31, 2024-12-31T17:00[Z]      ISO dates and date-times
+ *   today, tomorrow, yesterday, now
+ *   +3d, -1w, +2m, +1y, +4h, +30min      offsets (m is months)
+ *   in 3 days, 2 weeks ago
+ *   friday, next friday, last friday
+ *   next week, next month, next year      first day of the period
+ *   start of / end of [this|next|last] week, month or year
+ *   dec 31, 31 december 2026
+ *
+ * Dates may be followed by a time ("5pm", "at 17:30", "noon"). A date
+ * without a time resolves to YYYY-MM-DD; with a time, to a UTC date-time
+ * (YYYY-MM-DDTHH:MM:SSZ).
+ */
+
+import { DEFAULT_WEEK_START } from "../constants.js";
+
+/**
+ * How relative dates are resolved
+ */
+export interface DateInputOptions {
+  /** IANA time zone, e.g. "Europe/Paris" */
+  timeZone: string;
+  /** First day of the week (0 = Sunday, 1 = Monday, ...) */
+  weekStart: number;
+  /** Current time; defaults to now */
+  now?: Date;
+}
+
+export type DateInputResult =
+  | { success: true; value: string }
+  | { success: false; error: string };
+
+/** A calendar date, with months numbered from 1 */
+interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/** A parsed date: a calendar date, or an exact instant (epoch ms) */
+type ParsedDate =
+  | { kind: "date"; date: CivilDate }
+  | { kind: "instant"; ms: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+type OffsetUnit = "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/** Offset units, keyed by every spelling accepted */
+const UNITS: Record<string, OffsetUnit | undefined> = {
+  min: "minute",
+  mins: "minute",
+  minute: "minute",
+  minutes: "minute",
+  h: "hour",
+  hr: "hour",
+  hrs: "hour",
+  hour: "hour",
+  hours: "hour",
+  d: "day",
+  day: "day",
+  days: "day",
+  w: "week",
+  wk: "week",
+  wks: "week",
+  week: "week",
+  weeks: "week",
+  m: "month",
+  mo: "month",
+  month: "month",
+  months: "month",
+  y: "year",
+  yr: "year",
+  yrs: "year",
+  year: "year",
+  years: "year",
+};
+
+/** Appended to parse errors so the caller knows what to send instead */
+const DATE_INPUT_HELP =
+  "Use an ISO date (2024-12-31), a relative date (today, tomorrow, +3d, " +
+  "in 2 weeks), a weekday (next friday), start or end of a week, month or " +
+  "year, or a month and day (dec 31), optionally followed by a time " +
+  "(5pm, 17:30).";
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})[t ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(z|[+-]\d{2}:?\d{2})?$/;
+const TRAILING_TIME =
+  /(?:^|\s)(?:at\s)?(noon|midnight|(\d{1,2})(?::(\d{2}))?\s?(am|pm)|(\d{1,2}):(\d{2}))$/;
+const OFFSET_SIGNED = /^([+-])\s?(\d+)\s?([a-z]+)$/;
+const OFFSET_IN = /^in (\d+) ([a-z]+)$/;
+const OFFSET_AGO = /^(\d+) ([a-z]+) ago$/;
+const PERIOD =
+  /^(?:(start|beginning|end) of )?(?:(this|next|last) )?(week|month|year)$/;
+const WEEKDAY = /^(?:(this|next|last) )?([a-z]+)$/;
+const MONTH_DAY = /^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/;
+const DAY_MONTH = /^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)(?: (\d{4}))?$/;
+
+// ---------------------------------------------------------------------------
+// Calendar Arithmetic
+// ---------------------------------------------------------------------------
+
+function toDayNumber(date: CivilDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+}
+
+function fromEpochMs(ms: number): CivilDate {
+  const date = new Date(ms);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  return fromEpochMs((toDayNumber(date) + days) * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Add months, clamping the day to the length of the target month
+ */
+function addMonths(date: CivilDate, months: number): CivilDate {
+  const { year, month } = fromEpochMs(
+    Date.UTC(date.year, date.month - 1 + months, 1)
+  );
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function dayOfWeek(date: CivilDate): number {
+  return new Date(toDayNumber(date) * DAY_MS).getUTCDay();
+}
+
+function startOfWeek(date: CivilDate, weekStart: number): CivilDate {
+  return addDays(date, -((dayOfWeek(date) - weekStart + 7) % 7));
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  return (
+    month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month)
+  );
+}
+
+function formatDate(date: CivilDate): string {
+  const pad = (value: number, length: number): string =>
+    String(value).padStart(length, "0");
+  return `${pad(date.year, 4)}-${pad(date.month, 2)}-${pad(date.day, 2)}`;
+}
+
+function formatInstant(ms: number): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// ---------------------------------------------------------------------------
+// Time Zones
+// ---------------------------------------------------------------------------
+
+/**
+ * Wall-clock date and time of an instant in a time zone, as if it were UTC
+ */
+function wallClockMs(ms: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(ms));
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+}
+
+/**
+ * The instant a wall-clock time in a time zone refers to. The offset is
+ * taken twice so times next to a DST change land on the right side.
+ */
+function zonedToInstant(wallMs: number, timeZone: string): number {
+  const offsetAt = (ms: number): number =>
+    wallClockMs(ms, timeZone) - Math.floor(ms / 1000) * 1000;
+  const guess = wallMs - offsetAt(wallMs);
+  return wallMs - offsetAt(guess);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Index of a weekday or month from its name or an abbreviation of at least
+ * three letters ("fri", "thurs", "sept")
+ */
+function nameIndex(names: string[], word: string): number | undefined {
+  if (word.length < 3) return undefined;
+  const index = names.findIndex((name) => name.startsWith(word));
+  return index === -1 ? undefined : index;
+}
+
+function parseTime(match: RegExpMatchArray): TimeOfDay | undefined {
+  const [, word, hour12, minute12, meridiem, hour24, minute24] = match;
+  if (word === "noon") return { hour: 12, minute: 0 };
+  if (word === "midnight") return { hour: 0, minute: 0 };
+
+  let hour = Number(hour12 ?? hour24);
+  const minute = Number(minute12 ?? minute24 ?? 0);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  return hour <= 23 && minute <= 59 ? { hour, minute } : undefined;
+}
+
+/**
+ * Parse an offset ("+3d", "in 2 weeks", "1 month ago") from a moment
+ */
+function parseOffset(
+  text: string,
+  today: CivilDate,
+  nowMs: number
+): ParsedDate | undefined {
+  let sign = 1;
+  let amount: string | undefined;
+  let unitName: string | undefined;
+
+  const signed = OFFSET_SIGNED.exec(text);
+  const inMatch = OFFSET_IN.exec(text);
+  const ago = OFFSET_AGO.exec(text);
+  if (signed) {
+    sign = signed[1] === "-" ? -1 : 1;
+    [, , amount, unitName] = signed;
+  } else if (inMatch) {
+    [, amount, unitName] = inMatch;
+  } else if (ago) {
+    sign = -1;
+    [, amount, unitName] = ago;
+  }
+
+  const unit = unitName === undefined ? undefined : UNITS[unitName];
+  if (!unit) return undefined;
+  const n = sign * Number(amount);
+
+  switch (unit) {
+    case "minute":
+      return { kind: "instant", ms: nowMs + n * 60 * 1000 };
+    case "hour":
+      return { kind: "instant", ms: nowMs + n * 60 * 60 * 1000 };
+    case "day":
+      return { kind: "date", date: addDays(today, n) };
+    case "week":
+      return { kind: "date", date: addDays(today, n * 7) };
+    case "month":
+      return { kind: "date", date: addMonths(today, n) };
+    case "year":
+      return { kind: "date", date: addMonths(today, n * 12) };
+  }
+}
+
+/**
+ * Parse "next week", "end of month", "start of next year" and the like
+ */
+function parsePeriod(
+  text: string,
+  today: CivilDate,
+  weekStart: number
+): CivilDate | undefined {
+  const match = PERIOD.exec(text);
+  if (!match) return undefined;
+  const [, edge, which, period] = match;
+  // A bare "week" or "month" is not a date
+  if (!edge && !which) return undefined;
+
+  const shift = which === "next" ? 1 : which === "last" ? -1 : 0;
+  const end = edge === "end";
+  switch (period) {
+    case "week": {
+      const start = addDays(startOfWeek(today, weekStart), shift * 7);
+      return end ? addDays(start, 6) : start;
+    }
+    case "month": {
+      const { year, month } = addMonths({ ...today, day: 1 }, shift);
+      return { year, month, day: end ? daysInMonth(year, month) : 1 };
+    }
+    default: {
+      const year = today.year + shift;
+      return end ? { year, month: 12, day: 31 } : { year, month: 1, day: 1 };
+    }
+  }
+}
+
+/**
+ * Parse "friday", "next friday" (in the following week) or "last friday"
+ */
+function parseWeekday(
+  text: string,
+  today: CivilDate,
+  weekStart: number
+): CivilDate | undefined {
+  const match = WEEKDAY.exec(text);
+  const weekday =
+    match?.[2] === undefined ? undefined : nameIndex(WEEKDAYS, match[2]);
+  if (weekday === undefined) return undefined;
+
+  switch (match?.[1]) {
+    case "next": {
+      const nextWeek = addDays(startOfWeek(today, weekStart), 7);
+      return addDays(nextWeek, (weekday - weekStart + 7) % 7);
+    }
+    case "last":
+      return addDays(today, -((dayOfWeek(today) - weekday + 7) % 7 || 7));
+    default:
+      // The next one on or after today
+      return addDays(today, (weekday - dayOfWeek(today) + 7) % 7);
+  }
+}
+
+/**
+ * Parse "dec 31", "december 31 2026" or "31 dec". Without a year, the next
+ * such date on or after today.
+ */
+function parseMonthDay(
+  text: string,
+  today: CivilDate
+): CivilDate | "invalid" | undefined {
+  let monthName: string | undefined;
+  let dayText: string | undefined;
+  let yearText: string | undefined;
+
+  const monthDay = MONTH_DAY.exec(text);
+  const dayMonth = DAY_MONTH.exec(text);
+  if (monthDay) {
+    [, monthName, dayText, yearText] = monthDay;
+  } else if (dayMonth) {
+    [, dayText, monthName, yearText] = dayMonth;
+  }
+  const monthIndex =
+    monthName === undefined ? undefined : nameIndex(MONTHS, monthName);
+  if (monthIndex === undefined) return undefined;
+
+  const month = monthIndex + 1;
+  const day = Number(dayText);
+  let year = yearText ? Number(yearText) : today.year;
+  if (!yearText && toDayNumber({ year, month, day }) < toDayNumber(today)) {
+    year += 1;
+  }
+  return isValidDate(year, month, day) ? { year, month, day } : "invalid";
+}
+
+/**
+ * Parse an ISO date or date-time. Date-times without an offset are taken
+ * as wall-clock time in the configured time zone.
+ */
+function parseIso(
+  text: string,
+  timeZone: string
+): ParsedDate | "invalid" | undefined {
+  const date = ISO_DATE.exec(text);
+  const dateTime = date ? undefined : ISO_DATE_TIME.exec(text);
+  const match = date ?? dateTime;
+  if (!match) return undefined;
+
+  const [year, month, day] = match.slice(1, 4).map(Number) as [
+    number,
+    number,
+    number,
+  ];
+  if (!isValidDate(year, month, day)) return "invalid";
+  if (!dateTime) {
+    return { kind: "date", date: { year, month, day } };
+  }
+
+  const [hour, minute, second] = [4, 5, 6].map((i) =>
+    Number(dateTime[i] ?? 0)
+  ) as [number, number, number];
+  if (hour > 23 || minute > 59 || second > 59) return "invalid";
+  const wallMs = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const zone = dateTime[7];
+  if (!zone) {
+    return { kind: "instant", ms: zonedToInstant(wallMs, timeZone) };
+  }
+  if (zone === "z") {
+    return { kind: "instant", ms: wallMs };
+  }
+  const offsetMinutes = Number(zone.slice(1, 3)) * 60 + Number(zone.slice(-2));
+  return {
+    kind: "instant",
+    ms: wallMs - (zone.startsWith("-") ? -1 : 1) * offsetMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Parse the date part of a natural-language expression
+ */
+function parseDatePart(
+  text: string,
+  today: CivilDate,
+  nowMs: number,
+  weekStart: number
+): ParsedDate | "invalid" | undefined {
+  switch (text) {
+    case "": // a bare time is today
+    case "today":
+      return { kind: "date", date: today };
+    case "tomorrow":
+      return { kind: "date", date: addDays(today, 1) };
+    case "yesterday":
+      return { kind: "date", date: addDays(today, -1) };
+    case "now":
+      return { kind: "instant", ms: nowMs };
+  }
+
+  const offset = parseOffset(text, today, nowMs);
+  if (offset) return offset;
+
+  const date =
+    parsePeriod(text, today, weekStart) ??
+    parseWeekday(text, today, weekStart) ??
+    parseMonthDay(text, today);
+  if (date === "invalid") return "invalid";
+  return date && { kind: "date", date };
+}
+
+/**
+ * Resolve a date input to the ISO date or UTC date-time it refers to.
+ * Empty input is returned unchanged.
+ */
+export function parseDateInput(
+  input: string,
+  options: DateInputOptions
+): DateInputResult {
+  const text = input
+    .trim()
+    .toLowerCase()
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!text) {
+    return { success: true, value: input };
+  }
+
+  const unrecognized: DateInputResult = {
+    success: false,
+    error: `Unrecognized date "${input}". ${DATE_INPUT_HELP}`,
+  };
+  const invalid: DateInputResult = {
+    success: false,
+    error: `Invalid date or time "${input}".`,
+  };
+
+  const iso = parseIso(text, options.timeZone);
+  if (iso === "invalid") return invalid;
+  if (iso) {
+    return {
+      success: true,
+      value: iso.kind === "date" ? formatDate(iso.date) : formatInstant(iso.ms),
+    };
+  }
+
+  const nowMs = options.now?.getTime() ?? Date.now();
+  const today = fromEpochMs(wallClockMs(nowMs, options.timeZone));
+
+  let datePart = text;
+  let time: TimeOfDay | undefined;
+  const timeMatch = TRAILING_TIME.exec(text);
+  if (timeMatch) {
+    time = parseTime(timeMatch);
+    if (!time) return invalid;
+    datePart = text.slice(0, timeMatch.index).trim();
+  }
+
+  const parsed = parseDatePart(datePart, today, nowMs, options.weekStart);
+  if (parsed === "invalid") return invalid;
+  if (!parsed || (parsed.kind === "instant" && time)) {
+    return unrecognized;
+  }
+  if (parsed.kind === "instant") {
+    return { success: true, value: formatInstant(parsed.ms) };
+  }
+  if (!time) {
+    return { success: true, value: formatDate(parsed.date) };
+  }
+
+  const wallMs = Date.UTC(
+    parsed.date.year,
+    parsed.date.month - 1,
+    parsed.date.day,
+    time.hour,
+    time.minute
+  );
+  return {
+    success: true,
+    value: formatInstant(zonedToInstant(wallMs, options.timeZone)),
+  };
+}
+
+/**
+ * The calendar day of a Quire date or date-time in a time zone. Dates are
+ * returned as given; values that do not parse give undefined.
+ */
+export function toLocalDate(
+  value: string,
+  timeZone: string
+): string | undefined {
+  if (ISO_DATE.test(value)) {
+    return value;
+  }
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    return undefined;
+  }
+  return formatDate(fromEpochMs(wallClockMs(ms, timeZone)));
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Canonical name of a time zone, falling back to the system time zone when
+ * unset or unknown
+ */
+function parseTimeZone(value: string | undefined): string {
+  if (value) {
+    try {
+      return new Intl.DateTimeFormat("en-US", {
+        timeZone: value,
+      }).resolvedOptions().timeZone;
+    } catch {
+      // Unknown zone; use the system one
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Week start from a weekday name ("sunday") or number (0-6)
+ */
+function parseWeekStart(value: string | undefined): number {
+  if (!value) return DEFAULT_WEEK_START;
+  const trimmed = value.trim().toLowerCase();
+  if (/^[0-6]$/.test(trimmed)) return Number(trimmed);
+  return nameIndex(WEEKDAYS, trimmed) ?? DEFAULT_WEEK_START;
+}
+
+/**
+ * Date input options from QUIRE_TIMEZONE (IANA name, default: the system
+ * time zone) and QUIRE_WEEK_START (weekday name or 0-6, default: Monday)
+ */
+export function getDateInputOptions(): DateInputOptions {
+  return {
+    timeZone: parseTimeZone(process.env["QUIRE_TIMEZONE"]),
+    weekStart: parseWeekStart(process.env["QUIRE_WEEK_START"]),
+  };
+}
@@ -12,4 +12,16 @@ describe("Utils Module Exports", () => {
       expect(utilsModule.escapeHtml("<script>")).toBe("&lt;script&gt;");
     });
   });
+
+  describe("concurrency exports", () => {
+    it("should export mapWithConcurrency", () => {
+      expect(typeof utilsModule.mapWithConcurrency).toBe("function");
+    });
+  });
+
+  describe("csv exports", () => {
+    it("should export parseCsv", () => {
+      expect(utilsModule.parseCsv("a,b")).toEqual([["a", "b"]]);
+    });
+  });
 });
@@ -5,3 +5,7 @@
  */
 
 export { escapeHtml } from "./html.js";
+export { mapWithConcurrency } from "./concurrency.js";
+export { parseCsv } from "./csv.js";
+export { parseDateInput, getDateInputOptions, toLocalDate } from "./dates.js";
+export type { DateInputOptions, DateInputResult } from "./dates.js";
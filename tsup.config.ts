@@ -10,4 +10,6 @@ export default defineConfig({
   sourcemap: true,
   splitting: false,
   shims: false,
+  // node:sqlite only exists under the node: prefix
+  removeNodeProtocol: false,
 });
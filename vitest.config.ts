@@ -15,6 +15,7 @@ export default defineConfig({
         "src/quire/index.ts",
         "src/server/index.ts",
         "src/utils/index.ts",
+        "src/mock/index.ts",
       ],
       thresholds: {
         statements: 95,